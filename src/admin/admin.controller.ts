@@ -0,0 +1,274 @@
+import {
+  Controller, Get, Post, Patch, Body, Param, Query, Request, Headers, HttpCode, HttpStatus, UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags, ApiOperation, ApiResponse, ApiHeader } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { AdminGuard } from '../auth/admin.guard';
+import { SagaRecoveryService, SagaRecoveryReport } from '../common/services/saga-recovery.service';
+import { RefundService } from '../transfer/refund.service';
+import { RefundDto } from '../transfer/dto/refund.dto';
+import { TransferResponseDto } from '../transfer/dto/transfer-response.dto';
+import { FeeService, RevenueWalletBalance } from '../fee/fee.service';
+import { CreateFeeScheduleDto, UpdateFeeScheduleDto, SetUserTierDto } from '../fee/dto/fee-schedule.dto';
+import { FeeScheduleResponseDto } from '../fee/dto/fee-schedule-response.dto';
+import { UserTier } from '../database/entities/user.entity';
+import { AliasService } from '../alias/alias.service';
+import { SetContactVerificationDto } from '../alias/dto/alias.dto';
+import { AliasesResponseDto } from '../alias/dto/alias-response.dto';
+import { WalletActor } from '../database/entities/wallet.entity';
+import { WalletStatusService } from '../wallet-status/wallet-status.service';
+import { FreezeWalletDto, CloseWalletDto, WalletStatusReasonDto } from '../wallet-status/dto/wallet-status.dto';
+import { WalletStatusEventResponseDto } from '../wallet-status/dto/wallet-status-event-response.dto';
+import { WalletResponseDto } from '../wallet/dto/wallet-response.dto';
+import { EventBusService } from '../events/event-bus.service';
+import { EventQueryDto, ReplayEventsDto } from '../events/dto/event-query.dto';
+import { DomainEventResponseDto } from '../events/dto/domain-event-response.dto';
+import { EventConsumerResponseDto } from '../events/dto/event-consumer-response.dto';
+import { Idempotent } from '../common/decorators/idempotent.decorator';
+
+@ApiTags('Admin')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, AdminGuard)
+@Controller('admin')
+export class AdminController {
+  constructor(
+    private readonly sagaRecoveryService: SagaRecoveryService,
+    private readonly refundService: RefundService,
+    private readonly feeService: FeeService,
+    private readonly aliasService: AliasService,
+    private readonly walletStatusService: WalletStatusService,
+    private readonly eventBus: EventBusService,
+  ) {}
+
+  @Get('sagas/recovery')
+  @ApiOperation({ summary: 'List recent saga recovery runs on this instance' })
+  @ApiResponse({ status: 200, description: 'Recovery reports retrieved successfully' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  getRecoveryReports(): SagaRecoveryReport[] {
+    return this.sagaRecoveryService.getReports();
+  }
+
+  @Get('sagas/stuck')
+  @ApiOperation({ summary: 'List transactions whose saga is stale and awaiting recovery' })
+  @ApiResponse({ status: 200, description: 'Stuck transactions retrieved successfully' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async getStuckSagas(): Promise<any[]> {
+    const transactions = await this.sagaRecoveryService.findStuckTransactions();
+
+    return transactions.map(transaction => ({
+      id: transaction.id,
+      status: transaction.status,
+      transferState: transaction.transferState,
+      completedSteps: transaction.sagaState?.completedSteps || [],
+      updatedAt: transaction.updatedAt,
+    }));
+  }
+
+  @Post('sagas/recovery/run')
+  @Idempotent()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Run saga recovery immediately' })
+  @ApiResponse({ status: 200, description: 'Recovery run completed' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async runRecovery(): Promise<SagaRecoveryReport | { message: string }> {
+    const report = await this.sagaRecoveryService.runRecovery('manual');
+    return report || { message: 'Recovery already in progress' };
+  }
+
+  @Post('transactions/:id/reverse')
+  @ApiOperation({ summary: 'Reverse a completed transfer in full or in part' })
+  @ApiHeader({
+    name: 'Idempotency-Key',
+    description: 'Optional idempotency key to prevent duplicate reversals',
+    required: false,
+  })
+  @ApiResponse({ status: 201, description: 'Reversal completed successfully', type: TransferResponseDto })
+  @ApiResponse({ status: 400, description: 'Transaction cannot be reversed or amount exceeds remainder' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  @ApiResponse({ status: 404, description: 'Transaction not found' })
+  async reverseTransaction(
+    @Param('id') id: string,
+    @Request() req,
+    @Body() refundDto: RefundDto,
+    @Headers('idempotency-key') idempotencyKeyHeader?: string,
+  ): Promise<TransferResponseDto> {
+    if (idempotencyKeyHeader && !refundDto.idempotencyKey) {
+      refundDto.idempotencyKey = idempotencyKeyHeader;
+    }
+
+    return this.refundService.reverseTransaction(id, req.user, refundDto);
+  }
+
+  @Get('fee-schedules')
+  @ApiOperation({ summary: 'List fee schedules' })
+  @ApiResponse({ status: 200, description: 'Fee schedules retrieved successfully', type: [FeeScheduleResponseDto] })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async getFeeSchedules(): Promise<FeeScheduleResponseDto[]> {
+    return this.feeService.getSchedules();
+  }
+
+  @Post('fee-schedules')
+  @Idempotent()
+  @ApiOperation({ summary: 'Create a fee schedule' })
+  @ApiResponse({ status: 201, description: 'Fee schedule created', type: FeeScheduleResponseDto })
+  @ApiResponse({ status: 400, description: 'Fee schedule is incomplete for its fee type' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async createFeeSchedule(@Body() createFeeScheduleDto: CreateFeeScheduleDto): Promise<FeeScheduleResponseDto> {
+    return this.feeService.createSchedule(createFeeScheduleDto);
+  }
+
+  @Patch('fee-schedules/:id')
+  @Idempotent()
+  @ApiOperation({ summary: 'Update or deactivate a fee schedule' })
+  @ApiResponse({ status: 200, description: 'Fee schedule updated', type: FeeScheduleResponseDto })
+  @ApiResponse({ status: 400, description: 'Fee schedule is incomplete for its fee type' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  @ApiResponse({ status: 404, description: 'Fee schedule not found' })
+  async updateFeeSchedule(
+    @Param('id') id: string,
+    @Body() updateFeeScheduleDto: UpdateFeeScheduleDto,
+  ): Promise<FeeScheduleResponseDto> {
+    return this.feeService.updateSchedule(id, updateFeeScheduleDto);
+  }
+
+  @Get('fees/revenue')
+  @ApiOperation({ summary: 'Balances of the platform revenue wallets that collect fees' })
+  @ApiResponse({ status: 200, description: 'Revenue balances retrieved successfully' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async getFeeRevenue(): Promise<RevenueWalletBalance[]> {
+    return this.feeService.getRevenueBalances();
+  }
+
+  @Patch('users/:id/tier')
+  @Idempotent()
+  @ApiOperation({ summary: 'Set the pricing tier of a user' })
+  @ApiResponse({ status: 200, description: 'Tier updated' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async setUserTier(
+    @Param('id') id: string,
+    @Body() setUserTierDto: SetUserTierDto,
+  ): Promise<{ id: string; email: string; tier: UserTier }> {
+    return this.feeService.setUserTier(id, setUserTierDto.tier);
+  }
+
+  @Patch('users/:id/verification')
+  @Idempotent()
+  @ApiOperation({ summary: 'Mark the email or phone number of a user as verified, so it resolves as a transfer recipient' })
+  @ApiResponse({ status: 200, description: 'Verification updated', type: AliasesResponseDto })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiResponse({ status: 409, description: 'Contact already verified by another user' })
+  async setContactVerification(
+    @Param('id') id: string,
+    @Body() setContactVerificationDto: SetContactVerificationDto,
+  ): Promise<AliasesResponseDto> {
+    return this.aliasService.setContactVerification(id, setContactVerificationDto);
+  }
+
+  @Post('wallets/:id/freeze')
+  @Idempotent()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Freeze any wallet; the owner cannot unfreeze it' })
+  @ApiResponse({ status: 200, description: 'Wallet frozen', type: WalletResponseDto })
+  @ApiResponse({ status: 400, description: 'Wallet is not active' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  async freezeWallet(
+    @Param('id') id: string,
+    @Request() req,
+    @Body() freezeWalletDto: FreezeWalletDto,
+  ): Promise<WalletResponseDto> {
+    return this.walletStatusService.freezeWallet(id, req.user, WalletActor.ADMIN, freezeWalletDto);
+  }
+
+  @Post('wallets/:id/unfreeze')
+  @Idempotent()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Unfreeze a wallet' })
+  @ApiResponse({ status: 200, description: 'Wallet active again', type: WalletResponseDto })
+  @ApiResponse({ status: 400, description: 'Wallet is not frozen' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  async unfreezeWallet(
+    @Param('id') id: string,
+    @Request() req,
+    @Body() dto: WalletStatusReasonDto,
+  ): Promise<WalletResponseDto> {
+    return this.walletStatusService.unfreezeWallet(id, req.user, WalletActor.ADMIN, dto);
+  }
+
+  @Post('wallets/:id/close')
+  @Idempotent()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Close a wallet, sweeping any remaining balance to another of the owner's wallets" })
+  @ApiResponse({ status: 200, description: 'Wallet closed', type: WalletResponseDto })
+  @ApiResponse({ status: 400, description: 'Wallet still holds money or funds are on hold' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  async closeWallet(
+    @Param('id') id: string,
+    @Request() req,
+    @Body() closeWalletDto: CloseWalletDto,
+  ): Promise<WalletResponseDto> {
+    return this.walletStatusService.closeWallet(id, req.user, WalletActor.ADMIN, closeWalletDto);
+  }
+
+  @Post('wallets/:id/reopen')
+  @Idempotent()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reopen a closed wallet' })
+  @ApiResponse({ status: 200, description: 'Wallet active again', type: WalletResponseDto })
+  @ApiResponse({ status: 400, description: 'Wallet is not closed' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  async reopenWallet(
+    @Param('id') id: string,
+    @Request() req,
+    @Body() dto: WalletStatusReasonDto,
+  ): Promise<WalletResponseDto> {
+    return this.walletStatusService.reopenWallet(id, req.user, WalletActor.ADMIN, dto);
+  }
+
+  @Get('wallets/:id/status-events')
+  @ApiOperation({ summary: 'Status history of any wallet' })
+  @ApiResponse({ status: 200, description: 'Status history retrieved successfully', type: [WalletStatusEventResponseDto] })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  async getWalletStatusEvents(
+    @Param('id') id: string,
+    @Request() req,
+  ): Promise<WalletStatusEventResponseDto[]> {
+    return this.walletStatusService.getStatusEvents(id, req.user, WalletActor.ADMIN);
+  }
+
+  @Get('events')
+  @ApiOperation({ summary: 'Published domain events in position order' })
+  @ApiResponse({ status: 200, description: 'Events retrieved successfully', type: [DomainEventResponseDto] })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async getEvents(@Query() query: EventQueryDto): Promise<DomainEventResponseDto[]> {
+    return this.eventBus.getEvents(query);
+  }
+
+  @Get('events/consumers')
+  @ApiOperation({ summary: 'Event consumers with their offsets and lag' })
+  @ApiResponse({ status: 200, description: 'Consumers retrieved successfully', type: [EventConsumerResponseDto] })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async getEventConsumers(): Promise<EventConsumerResponseDto[]> {
+    return this.eventBus.getConsumers();
+  }
+
+  @Post('events/consumers/:consumer/replay')
+  @Idempotent()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Rewind an event consumer to receive events from a position again' })
+  @ApiResponse({ status: 200, description: 'Consumer rewound', type: EventConsumerResponseDto })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  @ApiResponse({ status: 404, description: 'Event consumer not found' })
+  async replayEvents(
+    @Param('consumer') consumer: string,
+    @Body() replayEventsDto: ReplayEventsDto,
+  ): Promise<EventConsumerResponseDto> {
+    return this.eventBus.replay(consumer, replayEventsDto.fromPosition);
+  }
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { AdminController } from './admin.controller';
+import { AuthModule } from '../auth/auth.module';
+import { CommonModule } from '../common/common.module';
+import { TransferModule } from '../transfer/transfer.module';
+import { FeeModule } from '../fee/fee.module';
+import { AliasModule } from '../alias/alias.module';
+import { WalletStatusModule } from '../wallet-status/wallet-status.module';
+import { EventsModule } from '../events/events.module';
+
+@Module({
+  imports: [
+    AuthModule,
+    CommonModule,
+    TransferModule,
+    FeeModule,
+    AliasModule,
+    WalletStatusModule,
+    EventsModule,
+  ],
+  controllers: [AdminController],
+})
+export class AdminModule {}
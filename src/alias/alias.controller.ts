@@ -0,0 +1,52 @@
+import { Controller, Get, Put, Delete, Body, UseGuards, Request } from '@nestjs/common';
+import { ApiBearerAuth, ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { AliasService } from './alias.service';
+import { SetHandleDto, SetDefaultWalletDto } from './dto/alias.dto';
+import { AliasesResponseDto } from './dto/alias-response.dto';
+import { Idempotent } from '../common/decorators/idempotent.decorator';
+
+@ApiTags('Aliases')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('aliases')
+export class AliasController {
+  constructor(private readonly aliasService: AliasService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Your handle, contact verification and default receiving wallets' })
+  @ApiResponse({ status: 200, description: 'Aliases retrieved successfully', type: AliasesResponseDto })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getAliases(@Request() req): Promise<AliasesResponseDto> {
+    return this.aliasService.getAliases(req.user.id);
+  }
+
+  @Put('handle')
+  @Idempotent()
+  @ApiOperation({ summary: 'Claim a unique handle others can send money to' })
+  @ApiResponse({ status: 200, description: 'Handle claimed', type: AliasesResponseDto })
+  @ApiResponse({ status: 409, description: 'Handle already taken' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async setHandle(@Request() req, @Body() setHandleDto: SetHandleDto): Promise<AliasesResponseDto> {
+    return this.aliasService.setHandle(req.user.id, setHandleDto);
+  }
+
+  @Delete('handle')
+  @Idempotent()
+  @ApiOperation({ summary: 'Give up your handle' })
+  @ApiResponse({ status: 200, description: 'Handle removed', type: AliasesResponseDto })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async clearHandle(@Request() req): Promise<AliasesResponseDto> {
+    return this.aliasService.clearHandle(req.user.id);
+  }
+
+  @Put('default-wallet')
+  @Idempotent()
+  @ApiOperation({ summary: 'Choose the wallet that receives money sent to your aliases in its currency' })
+  @ApiResponse({ status: 200, description: 'Default wallet set', type: AliasesResponseDto })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async setDefaultWallet(@Request() req, @Body() setDefaultWalletDto: SetDefaultWalletDto): Promise<AliasesResponseDto> {
+    return this.aliasService.setDefaultWallet(req.user.id, setDefaultWalletDto.walletId);
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AliasController } from './alias.controller';
+import { AliasService } from './alias.service';
+import { User } from '../database/entities/user.entity';
+import { Wallet } from '../database/entities/wallet.entity';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([User, Wallet]),
+    AuthModule,
+  ],
+  controllers: [AliasController],
+  providers: [AliasService],
+  exports: [AliasService],
+})
+export class AliasModule {}
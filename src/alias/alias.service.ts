@@ -0,0 +1,210 @@
+import { Injectable, NotFoundException, BadRequestException, ConflictException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, DataSource, Not } from 'typeorm';
+import { User } from '../database/entities/user.entity';
+import { Wallet } from '../database/entities/wallet.entity';
+import { parseRecipient, normalizeHandle, normalizePhoneNumber, maskName, ParsedRecipient } from './recipient';
+import { SetHandleDto, SetContactVerificationDto } from './dto/alias.dto';
+import { AliasesResponseDto } from './dto/alias-response.dto';
+
+export interface ResolvedRecipient {
+  user: User;
+  wallet: Wallet;
+  // Masked name to show the sender before they confirm
+  displayName: string;
+}
+
+@Injectable()
+export class AliasService {
+  private readonly logger = new Logger(AliasService.name);
+
+  constructor(
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+    @InjectRepository(Wallet)
+    private walletRepository: Repository<Wallet>,
+    private dataSource: DataSource,
+  ) {}
+
+  async getAliases(userId: string): Promise<AliasesResponseDto> {
+    const user = await this.findUser(userId);
+
+    const defaultWallets = await this.walletRepository.find({
+      where: { userId, isDefaultReceiving: true, isActive: true },
+      order: { currency: 'ASC' },
+    });
+
+    return {
+      handle: user.handle || null,
+      email: user.email,
+      emailVerified: !!user.emailVerifiedAt,
+      phoneNumber: user.phoneNumber || null,
+      phoneVerified: !!user.phoneVerifiedAt,
+      defaultWallets: defaultWallets.map(wallet => ({ currency: wallet.currency, walletId: wallet.id })),
+    };
+  }
+
+  async setHandle(userId: string, setHandleDto: SetHandleDto): Promise<AliasesResponseDto> {
+    const handle = normalizeHandle(setHandleDto.handle.replace(/^@/, ''));
+
+    const taken = await this.userRepository.findOne({ where: { handle, id: Not(userId) } });
+    if (taken) {
+      throw new ConflictException('Handle is already taken');
+    }
+
+    try {
+      await this.userRepository.update(userId, { handle });
+    } catch (error) {
+      // Postgres unique_violation: claimed by someone else in the meantime
+      if (error?.code === '23505') {
+        throw new ConflictException('Handle is already taken');
+      }
+      throw error;
+    }
+
+    this.logger.log(`User ${userId} claimed handle @${handle}`);
+    return this.getAliases(userId);
+  }
+
+  async clearHandle(userId: string): Promise<AliasesResponseDto> {
+    await this.userRepository.update(userId, { handle: null });
+    return this.getAliases(userId);
+  }
+
+  /**
+   * Make a wallet the one that receives transfers sent to the owner's aliases in its currency
+   */
+  async setDefaultWallet(userId: string, walletId: string): Promise<AliasesResponseDto> {
+    await this.dataSource.transaction(async manager => {
+      const wallet = await manager.findOne(Wallet, {
+        where: { id: walletId, userId, isActive: true },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      if (!wallet) {
+        throw new NotFoundException('Wallet not found');
+      }
+
+      await manager.update(
+        Wallet,
+        { userId, currency: wallet.currency, isDefaultReceiving: true },
+        { isDefaultReceiving: false },
+      );
+      await manager.update(Wallet, { id: walletId }, { isDefaultReceiving: true });
+    });
+
+    return this.getAliases(userId);
+  }
+
+  /**
+   * Mark a user's email or phone number as verified (or not). A verified contact
+   * must belong to one user only, since it decides where money sent to it lands.
+   */
+  async setContactVerification(userId: string, dto: SetContactVerificationDto): Promise<AliasesResponseDto> {
+    const user = await this.findUser(userId);
+    const changes: Partial<User> = {};
+
+    if (dto.emailVerified !== undefined) {
+      if (dto.emailVerified) {
+        const owner = await this.findUserByContact({ kind: 'EMAIL', value: user.email.toLowerCase() }, true);
+        if (owner && owner.id !== userId) {
+          throw new ConflictException('This email is already verified by another user');
+        }
+      }
+      changes.emailVerifiedAt = dto.emailVerified ? user.emailVerifiedAt || new Date() : null;
+    }
+
+    if (dto.phoneVerified !== undefined) {
+      if (dto.phoneVerified) {
+        if (!user.phoneNumber) {
+          throw new BadRequestException('User has no phone number');
+        }
+
+        const phoneNumber = normalizePhoneNumber(user.phoneNumber);
+        const owner = await this.findUserByContact({ kind: 'PHONE', value: phoneNumber }, true);
+        if (owner && owner.id !== userId) {
+          throw new ConflictException('This phone number is already verified by another user');
+        }
+
+        changes.phoneNumber = phoneNumber;
+      }
+      changes.phoneVerifiedAt = dto.phoneVerified ? user.phoneVerifiedAt || new Date() : null;
+    }
+
+    await this.userRepository.update(userId, changes);
+    return this.getAliases(userId);
+  }
+
+  /**
+   * Resolve a handle, verified email or verified phone number to the wallet that
+   * receives money in the given currency. Returns null when nobody matches.
+   */
+  async resolveRecipient(recipient: string, currency: string): Promise<ResolvedRecipient | null> {
+    const user = await this.findUserByContact(parseRecipient(recipient));
+    if (!user) {
+      return null;
+    }
+
+    const wallet = await this.findReceivingWallet(user.id, currency);
+    if (!wallet) {
+      throw new BadRequestException(`Recipient cannot receive ${currency}`);
+    }
+
+    return { user, wallet, displayName: maskName(user.firstName, user.lastName) };
+  }
+
+  /**
+   * The explicitly chosen default wallet for a currency, else the oldest active one
+   */
+  async findReceivingWallet(userId: string, currency: string): Promise<Wallet | null> {
+    const preferred = await this.walletRepository.findOne({
+      where: { userId, currency, isDefaultReceiving: true, isActive: true },
+    });
+
+    return preferred || this.walletRepository.findOne({
+      where: { userId, currency, isActive: true },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * The active user an identifier belongs to; emails and phone numbers only count once verified
+   */
+  async findUserByContact(parsed: ParsedRecipient, includeInactive = false): Promise<User | null> {
+    const query = this.userRepository.createQueryBuilder('user');
+
+    switch (parsed.kind) {
+      case 'HANDLE':
+        query.where('user.handle = :value', { value: parsed.value });
+        break;
+
+      case 'EMAIL':
+        query
+          .where('LOWER(user.email) = :value', { value: parsed.value })
+          .andWhere('user.emailVerifiedAt IS NOT NULL');
+        break;
+
+      case 'PHONE':
+        query
+          .where('user.phoneNumber = :value', { value: parsed.value })
+          .andWhere('user.phoneVerifiedAt IS NOT NULL');
+        break;
+    }
+
+    if (!includeInactive) {
+      query.andWhere('user.isActive = true');
+    }
+
+    return query.getOne();
+  }
+
+  private async findUser(userId: string): Promise<User> {
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    return user;
+  }
+}
@@ -0,0 +1,29 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class DefaultWalletResponseDto {
+  @ApiProperty({ example: 'USD' })
+  currency: string;
+
+  @ApiProperty({ example: 'uuid-of-wallet' })
+  walletId: string;
+}
+
+export class AliasesResponseDto {
+  @ApiProperty({ example: 'jane_doe', nullable: true })
+  handle: string | null;
+
+  @ApiProperty({ example: 'jane@example.com' })
+  email: string;
+
+  @ApiProperty({ example: true })
+  emailVerified: boolean;
+
+  @ApiProperty({ example: '+15550102000', nullable: true })
+  phoneNumber: string | null;
+
+  @ApiProperty({ example: false })
+  phoneVerified: boolean;
+
+  @ApiProperty({ type: [DefaultWalletResponseDto], description: 'Explicitly chosen receiving wallets per currency' })
+  defaultWallets: DefaultWalletResponseDto[];
+}
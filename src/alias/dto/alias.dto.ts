@@ -0,0 +1,27 @@
+import { IsString, IsUUID, IsOptional, IsBoolean, Matches } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SetHandleDto {
+  @ApiProperty({ example: 'jane_doe', description: '3-30 letters, digits or underscores; case-insensitive' })
+  @IsString()
+  @Matches(/^@?[A-Za-z0-9_]{3,30}$/, { message: 'Handles are 3-30 letters, digits or underscores' })
+  handle: string;
+}
+
+export class SetDefaultWalletDto {
+  @ApiProperty({ example: 'uuid-of-wallet', description: 'Becomes the default receiving wallet for its currency' })
+  @IsUUID()
+  walletId: string;
+}
+
+export class SetContactVerificationDto {
+  @ApiProperty({ example: true, required: false })
+  @IsOptional()
+  @IsBoolean()
+  emailVerified?: boolean;
+
+  @ApiProperty({ example: true, required: false })
+  @IsOptional()
+  @IsBoolean()
+  phoneVerified?: boolean;
+}
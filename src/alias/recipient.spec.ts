@@ -0,0 +1,44 @@
+import { BadRequestException } from '@nestjs/common';
+import { maskName, normalizePhoneNumber, parseRecipient } from './recipient';
+
+describe('recipient', () => {
+  describe('parseRecipient', () => {
+    it('reads "@name" and bare names as handles, lowercased', () => {
+      expect(parseRecipient('@Jane_Doe')).toEqual({ kind: 'HANDLE', value: 'jane_doe' });
+      expect(parseRecipient('  jane_doe ')).toEqual({ kind: 'HANDLE', value: 'jane_doe' });
+    });
+
+    it('reads addresses with an @ inside as emails, lowercased', () => {
+      expect(parseRecipient('Jane.Doe@Example.com')).toEqual({ kind: 'EMAIL', value: 'jane.doe@example.com' });
+    });
+
+    it('reads digits with phone punctuation as phone numbers', () => {
+      expect(parseRecipient('+1 (555) 010-2000')).toEqual({ kind: 'PHONE', value: '+15550102000' });
+      expect(parseRecipient('555.010.2000')).toEqual({ kind: 'PHONE', value: '5550102000' });
+    });
+
+    it('rejects malformed emails and handles', () => {
+      expect(() => parseRecipient('jane@')).toThrow('Recipient is not a valid email address');
+      expect(() => parseRecipient('@jd')).toThrow(BadRequestException);
+      expect(() => parseRecipient('jane doe')).toThrow('Handles are 3-30 letters, digits or underscores');
+    });
+  });
+
+  describe('normalizePhoneNumber', () => {
+    it('keeps a leading + and drops everything but digits', () => {
+      expect(normalizePhoneNumber(' +44 20 7946 0958 ')).toBe('+442079460958');
+    });
+
+    it('rejects numbers outside 7 to 15 digits', () => {
+      expect(() => normalizePhoneNumber('12-34-5')).toThrow('Recipient is not a valid phone number');
+      expect(() => normalizePhoneNumber('+1234567890123456')).toThrow('Recipient is not a valid phone number');
+    });
+  });
+
+  describe('maskName', () => {
+    it('shows the first letter and the last initial', () => {
+      expect(maskName('Jane', 'Doe')).toBe('J*** D.');
+      expect(maskName('Al', '')).toBe('A**');
+    });
+  });
+});
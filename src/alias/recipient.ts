@@ -0,0 +1,76 @@
+import { BadRequestException } from '@nestjs/common';
+
+export type RecipientKind = 'HANDLE' | 'EMAIL' | 'PHONE';
+
+export interface ParsedRecipient {
+  kind: RecipientKind;
+  // Normalized form, as stored on users and claimable transfers
+  value: string;
+}
+
+export const HANDLE_PATTERN = /^[a-z0-9_]{3,30}$/;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s\-().]{7,20}$/;
+
+/**
+ * Work out what kind of identifier a recipient is: "@handle" or a bare handle,
+ * an email address, or a phone number
+ */
+export function parseRecipient(recipient: string): ParsedRecipient {
+  const trimmed = recipient.trim();
+
+  if (trimmed.startsWith('@')) {
+    return { kind: 'HANDLE', value: normalizeHandle(trimmed.slice(1)) };
+  }
+
+  if (trimmed.includes('@')) {
+    if (!EMAIL_PATTERN.test(trimmed)) {
+      throw new BadRequestException('Recipient is not a valid email address');
+    }
+    return { kind: 'EMAIL', value: trimmed.toLowerCase() };
+  }
+
+  if (PHONE_PATTERN.test(trimmed)) {
+    return { kind: 'PHONE', value: normalizePhoneNumber(trimmed) };
+  }
+
+  return { kind: 'HANDLE', value: normalizeHandle(trimmed) };
+}
+
+export function normalizeHandle(handle: string): string {
+  const normalized = handle.trim().toLowerCase();
+
+  if (!HANDLE_PATTERN.test(normalized)) {
+    throw new BadRequestException('Handles are 3-30 letters, digits or underscores');
+  }
+
+  return normalized;
+}
+
+/**
+ * Digits only, keeping a leading + so "+1 (555) 010-2000" and "+15550102000" match
+ */
+export function normalizePhoneNumber(phoneNumber: string): string {
+  const trimmed = phoneNumber.trim();
+  const digits = trimmed.replace(/\D/g, '');
+
+  if (digits.length < 7 || digits.length > 15) {
+    throw new BadRequestException('Recipient is not a valid phone number');
+  }
+
+  return trimmed.startsWith('+') ? `+${digits}` : digits;
+}
+
+/**
+ * Enough of a name for the sender to recognise the recipient, e.g. "J*** D."
+ */
+export function maskName(firstName: string, lastName: string): string {
+  const first = firstName.trim();
+  const last = lastName.trim();
+
+  const maskedFirst = first ? `${first[0]}${'*'.repeat(Math.max(first.length - 1, 2))}` : '';
+  const lastInitial = last ? ` ${last[0]}.` : '';
+
+  return `${maskedFirst}${lastInitial}`.trim();
+}
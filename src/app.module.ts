@@ -1,6 +1,5 @@
 import { Module } from '@nestjs/common';
-import { TypeOrmModule } from '@nestjs/typeorm';
-import { ConfigModule, ConfigService } from '@nestjs/config';
+import { ConfigModule } from '@nestjs/config';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { AuthModule } from './auth/auth.module';
@@ -9,6 +8,23 @@ import { TransferModule } from './transfer/transfer.module';
 import { CacheModule } from './cache/cache.module';
 import { CommonModule } from './common/common.module';
 import { DatabaseModule } from './database/database.module';
+import { FxModule } from './fx/fx.module';
+import { FeeModule } from './fee/fee.module';
+import { PaymentModule } from './payment/payment.module';
+import { PayoutModule } from './payout/payout.module';
+import { SchedulingModule } from './scheduling/scheduling.module';
+import { BatchModule } from './batch/batch.module';
+import { PaymentRequestModule } from './payment-request/payment-request.module';
+import { ExpenseModule } from './expense/expense.module';
+import { AliasModule } from './alias/alias.module';
+import { ClaimableTransferModule } from './claimable-transfer/claimable-transfer.module';
+import { EscrowModule } from './escrow/escrow.module';
+import { AuthorizationModule } from './authorization/authorization.module';
+import { WalletStatusModule } from './wallet-status/wallet-status.module';
+import { EventsModule } from './events/events.module';
+import { WebhookModule } from './webhook/webhook.module';
+import { RealtimeModule } from './realtime/realtime.module';
+import { AdminModule } from './admin/admin.module';
 
 @Module({
   imports: [
@@ -18,9 +34,26 @@ import { DatabaseModule } from './database/database.module';
     DatabaseModule,
     CacheModule,
     CommonModule,
+    EventsModule,
     AuthModule,
     WalletModule,
     TransferModule,
+    FxModule,
+    FeeModule,
+    PaymentModule,
+    PayoutModule,
+    SchedulingModule,
+    BatchModule,
+    PaymentRequestModule,
+    ExpenseModule,
+    AliasModule,
+    ClaimableTransferModule,
+    EscrowModule,
+    AuthorizationModule,
+    WalletStatusModule,
+    WebhookModule,
+    RealtimeModule,
+    AdminModule,
   ],
   controllers: [AppController],
   providers: [AppService],
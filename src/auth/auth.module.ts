@@ -7,6 +7,10 @@ import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
 import { JwtStrategy } from './jwt.strategy';
 import { JwtAuthGuard } from './jwt-auth.guard';
+import { JwtStreamStrategy } from './jwt-stream.strategy';
+import { JwtStreamAuthGuard } from './jwt-stream-auth.guard';
+import { AdminGuard } from './admin.guard';
+import { InstantFundingGuard } from './instant-funding.guard';
 import { User } from '../database/entities/user.entity';
 import { TransferLimit } from '../database/entities/transfer-limit.entity';
 
@@ -26,7 +30,7 @@ import { TransferLimit } from '../database/entities/transfer-limit.entity';
     }),
   ],
   controllers: [AuthController],
-  providers: [AuthService, JwtStrategy, JwtAuthGuard],
-  exports: [AuthService, JwtAuthGuard, PassportModule],
+  providers: [AuthService, JwtStrategy, JwtStreamStrategy, JwtAuthGuard, JwtStreamAuthGuard, AdminGuard, InstantFundingGuard],
+  exports: [AuthService, JwtAuthGuard, JwtStreamAuthGuard, AdminGuard, InstantFundingGuard, PassportModule],
 })
 export class AuthModule {} 
\ No newline at end of file
@@ -7,6 +7,7 @@ import * as bcrypt from 'bcryptjs';
 import * as dayjs from 'dayjs';
 import { User } from '../database/entities/user.entity';
 import { TransferLimit } from '../database/entities/transfer-limit.entity';
+import { Money } from '../common/money/money';
 import { SignupDto } from './dto/signup.dto';
 import { LoginDto } from './dto/login.dto';
 import { AuthResponseDto } from './dto/auth-response.dto';
@@ -54,10 +55,10 @@ export class AuthService {
 
     const transferLimit = this.transferLimitRepository.create({
       userId: savedUser.id,
-      dailyLimit: defaultDailyLimit,
-      monthlyLimit: defaultMonthlyLimit,
-      dailyUsed: 0,
-      monthlyUsed: 0,
+      dailyLimit: Money.fromDecimal(defaultDailyLimit).toString(),
+      monthlyLimit: Money.fromDecimal(defaultMonthlyLimit).toString(),
+      dailyUsed: Money.zero().toString(),
+      monthlyUsed: Money.zero().toString(),
       lastDailyReset: currentDate,
       lastMonthlyReset: currentDate,
     });
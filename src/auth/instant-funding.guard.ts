@@ -0,0 +1,26 @@
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { UserRole } from '../database/entities/user.entity';
+
+/**
+ * Instant add-funds has no source of funds, so it is limited to admins
+ * unless ALLOW_INSTANT_ADD_FUNDS is set (e.g. in test environments)
+ */
+@Injectable()
+export class InstantFundingGuard implements CanActivate {
+  constructor(private configService: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest();
+
+    if (this.configService.get('ALLOW_INSTANT_ADD_FUNDS') === 'true') {
+      return true;
+    }
+
+    if (request.user?.role !== UserRole.ADMIN) {
+      throw new ForbiddenException('Instant add-funds is disabled; create a deposit instead');
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,80 @@
+import { JwtService } from '@nestjs/jwt';
+import { User } from '../database/entities/user.entity';
+import { JwtStrategy } from './jwt.strategy';
+import { JwtStreamStrategy } from './jwt-stream.strategy';
+
+describe('JwtStreamStrategy', () => {
+  const secret = 'test-jwt-secret';
+  const user = Object.assign(new User(), { id: 'user-1', isActive: true });
+
+  let userRepository: { findOne: jest.Mock };
+  let configService: { get: jest.Mock };
+
+  const token = (payload: Record<string, unknown> = { sub: 'user-1', email: 'user@example.com' }, signWith = secret) =>
+    new JwtService({ secret: signWith }).sign(payload);
+
+  /**
+   * Run a strategy the way passport does, resolving with the user it accepts
+   * or false when it refuses the request
+   */
+  const authenticate = (strategy: JwtStrategy | JwtStreamStrategy, request: Record<string, any>) =>
+    new Promise<User | false>((resolve, reject) => {
+      const running = strategy as any;
+      running.success = (authenticated: User) => resolve(authenticated);
+      running.fail = () => resolve(false);
+      running.error = (error: Error) => reject(error);
+      running.authenticate({ headers: {}, query: {}, ...request });
+    });
+
+  beforeEach(() => {
+    userRepository = { findOne: jest.fn(async ({ where }) => (where.id === user.id && user.isActive ? user : null)) };
+    configService = { get: jest.fn(() => secret) };
+  });
+
+  it('accepts a bearer token', async () => {
+    const strategy = new JwtStreamStrategy(configService as any, userRepository as any);
+
+    await expect(authenticate(strategy, { headers: { authorization: `Bearer ${token()}` } })).resolves.toBe(user);
+  });
+
+  it('accepts the token as the access_token query parameter for EventSource clients', async () => {
+    const strategy = new JwtStreamStrategy(configService as any, userRepository as any);
+
+    await expect(authenticate(strategy, { url: `/realtime/stream?access_token=${token()}` })).resolves.toBe(user);
+  });
+
+  it('refuses a request without a token', async () => {
+    const strategy = new JwtStreamStrategy(configService as any, userRepository as any);
+
+    await expect(authenticate(strategy, { url: '/realtime/stream' })).resolves.toBe(false);
+  });
+
+  it('refuses a token signed with another secret', async () => {
+    const strategy = new JwtStreamStrategy(configService as any, userRepository as any);
+    const forged = token(undefined, 'another-secret');
+
+    await expect(authenticate(strategy, { url: `/realtime/stream?access_token=${forged}` })).resolves.toBe(false);
+  });
+
+  it('refuses an expired token', async () => {
+    const strategy = new JwtStreamStrategy(configService as any, userRepository as any);
+    const expired = token({ sub: 'user-1', email: 'user@example.com', exp: Math.floor(Date.now() / 1000) - 60 });
+
+    await expect(authenticate(strategy, { url: `/realtime/stream?access_token=${expired}` })).resolves.toBe(false);
+  });
+
+  it('refuses the token of an unknown or deactivated user', async () => {
+    const strategy = new JwtStreamStrategy(configService as any, userRepository as any);
+    const other = token({ sub: 'user-2', email: 'other@example.com' });
+
+    await expect(authenticate(strategy, { url: `/realtime/stream?access_token=${other}` })).rejects.toThrow(
+      'User not found or inactive',
+    );
+  });
+
+  it('is the only strategy that reads tokens from the URL', async () => {
+    const strategy = new JwtStrategy(configService as any, userRepository as any);
+
+    await expect(authenticate(strategy, { url: `/wallets?access_token=${token()}` })).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,43 @@
+import { ExtractJwt, Strategy } from 'passport-jwt';
+import { PassportStrategy } from '@nestjs/passport';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { User } from '../database/entities/user.entity';
+import { JwtPayload } from './jwt.strategy';
+
+/**
+ * JWT auth for event streams. Browsers' EventSource cannot set an Authorization
+ * header, so the token may also come as the access_token query parameter. Kept
+ * apart from the default strategy so no other route accepts tokens in URLs.
+ */
+@Injectable()
+export class JwtStreamStrategy extends PassportStrategy(Strategy, 'jwt-stream') {
+  constructor(
+    private configService: ConfigService,
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+  ) {
+    super({
+      jwtFromRequest: ExtractJwt.fromExtractors([
+        ExtractJwt.fromAuthHeaderAsBearerToken(),
+        ExtractJwt.fromUrlQueryParameter('access_token'),
+      ]),
+      ignoreExpiration: false,
+      secretOrKey: configService.get('JWT_SECRET', 'fallback-secret-key'),
+    });
+  }
+
+  async validate(payload: JwtPayload): Promise<User> {
+    const user = await this.userRepository.findOne({
+      where: { id: payload.sub, isActive: true },
+    });
+
+    if (!user) {
+      throw new UnauthorizedException('User not found or inactive');
+    }
+
+    return user;
+  }
+}
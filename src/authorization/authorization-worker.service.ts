@@ -0,0 +1,52 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AuthorizationService } from './authorization.service';
+
+/**
+ * Releases expired authorizations and finishes interrupted captures and releases
+ */
+@Injectable()
+export class AuthorizationWorkerService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(AuthorizationWorkerService.name);
+  private pollTimer: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private authorizationService: AuthorizationService,
+    private configService: ConfigService,
+  ) {}
+
+  onApplicationBootstrap() {
+    const intervalMs = Number(this.configService.get('AUTHORIZATION_POLL_INTERVAL_MS', 60000));
+    this.pollTimer = setInterval(() => {
+      this.runDueWork().catch(error => this.logger.error('Authorization worker run failed:', error));
+    }, intervalMs);
+  }
+
+  onModuleDestroy() {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+    }
+  }
+
+  async runDueWork(): Promise<void> {
+    if (this.running) {
+      this.logger.debug('Authorization worker already running, skipping');
+      return;
+    }
+
+    this.running = true;
+    try {
+      const expired = await this.authorizationService.expireAuthorizations();
+
+      const claimTimeoutMs = Number(this.configService.get('AUTHORIZATION_CLAIM_TIMEOUT_MS', 300000));
+      const resumed = await this.authorizationService.resumeStalledAuthorizations(new Date(Date.now() - claimTimeoutMs));
+
+      if (expired + resumed > 0) {
+        this.logger.log(`Authorization worker: expired=${expired}, resumed=${resumed}`);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { Controller, Post, Get, Body, Param, Query, UseGuards, Request, Headers, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiBearerAuth, ApiTags, ApiOperation, ApiResponse, ApiHeader } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { AuthorizationService } from './authorization.service';
+import { CreateAuthorizationDto, CaptureAuthorizationDto, AuthorizationQueryDto } from './dto/authorization.dto';
+import { AuthorizationResponseDto } from './dto/authorization-response.dto';
+import { Idempotent } from '../common/decorators/idempotent.decorator';
+
+@ApiTags('Authorizations')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('authorizations')
+export class AuthorizationController {
+  constructor(private readonly authorizationService: AuthorizationService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Authorize a merchant to capture up to an amount from your wallet' })
+  @ApiHeader({
+    name: 'Idempotency-Key',
+    description: 'Optional idempotency key to prevent duplicate authorizations',
+    required: false,
+  })
+  @ApiResponse({ status: 201, description: 'Funds held for the merchant', type: AuthorizationResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid authorization request or insufficient balance' })
+  @ApiResponse({ status: 404, description: 'Wallet or merchant not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async authorize(
+    @Request() req,
+    @Body() createAuthorizationDto: CreateAuthorizationDto,
+    @Headers('idempotency-key') idempotencyKeyHeader?: string,
+  ): Promise<AuthorizationResponseDto> {
+    if (idempotencyKeyHeader && !createAuthorizationDto.idempotencyKey) {
+      createAuthorizationDto.idempotencyKey = idempotencyKeyHeader;
+    }
+
+    return this.authorizationService.authorize(req.user, createAuthorizationDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Authorizations you granted or received as a merchant' })
+  @ApiResponse({ status: 200, description: 'Authorizations retrieved successfully', type: [AuthorizationResponseDto] })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getAuthorizations(@Request() req, @Query() query: AuthorizationQueryDto): Promise<AuthorizationResponseDto[]> {
+    return this.authorizationService.getAuthorizations(req.user.id, query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an authorization you are party to' })
+  @ApiResponse({ status: 200, description: 'Authorization retrieved successfully', type: AuthorizationResponseDto })
+  @ApiResponse({ status: 404, description: 'Authorization not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getAuthorization(@Param('id') id: string, @Request() req): Promise<AuthorizationResponseDto> {
+    return this.authorizationService.getAuthorization(id, req.user.id);
+  }
+
+  @Post(':id/capture')
+  @Idempotent()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Capture all or part of an authorization made to you; the rest is released' })
+  @ApiResponse({ status: 200, description: 'Captured, or failed and released', type: AuthorizationResponseDto })
+  @ApiResponse({ status: 400, description: 'Amount above the authorized amount, or authorization no longer open' })
+  @ApiResponse({ status: 403, description: 'Only the merchant can capture' })
+  @ApiResponse({ status: 404, description: 'Authorization not found' })
+  @ApiResponse({ status: 409, description: 'Authorization is already being resolved' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async capture(
+    @Param('id') id: string,
+    @Request() req,
+    @Body() captureDto: CaptureAuthorizationDto,
+  ): Promise<AuthorizationResponseDto> {
+    return this.authorizationService.capture(id, req.user.id, captureDto);
+  }
+
+  @Post(':id/void')
+  @Idempotent()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Void an authorization made to you, releasing the funds to the payer' })
+  @ApiResponse({ status: 200, description: 'Authorization voided', type: AuthorizationResponseDto })
+  @ApiResponse({ status: 400, description: 'Authorization is no longer open' })
+  @ApiResponse({ status: 403, description: 'Only the merchant can void' })
+  @ApiResponse({ status: 404, description: 'Authorization not found' })
+  @ApiResponse({ status: 409, description: 'Authorization is already being resolved' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async void(@Param('id') id: string, @Request() req): Promise<AuthorizationResponseDto> {
+    return this.authorizationService.void(id, req.user.id);
+  }
+}
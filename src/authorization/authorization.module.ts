@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AuthorizationController } from './authorization.controller';
+import { AuthorizationService } from './authorization.service';
+import { AuthorizationWorkerService } from './authorization-worker.service';
+import { PaymentAuthorization } from '../database/entities/payment-authorization.entity';
+import { Wallet } from '../database/entities/wallet.entity';
+import { User } from '../database/entities/user.entity';
+import { Transaction } from '../database/entities/transaction.entity';
+import { AuthModule } from '../auth/auth.module';
+import { TransferModule } from '../transfer/transfer.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([PaymentAuthorization, Wallet, User, Transaction]),
+    AuthModule,
+    TransferModule,
+  ],
+  controllers: [AuthorizationController],
+  providers: [AuthorizationService, AuthorizationWorkerService],
+})
+export class AuthorizationModule {}
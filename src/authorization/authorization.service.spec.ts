@@ -0,0 +1,144 @@
+import { BadRequestException, Logger } from '@nestjs/common';
+import { FindOperator } from 'typeorm';
+import { AuthorizationStatus, PaymentAuthorization } from '../database/entities/payment-authorization.entity';
+import { AuthorizationService } from './authorization.service';
+
+describe('AuthorizationService', () => {
+  let stored: PaymentAuthorization;
+  let transferService: { captureAuthorizedTransfer: jest.Mock; voidAuthorizedTransfer: jest.Mock };
+  let service: AuthorizationService;
+
+  // Enough of TypeORM's criteria for the conditional updates the service makes
+  const matchesCriterion = (actual: any, expected: unknown) => {
+    if (expected instanceof FindOperator && expected.type === 'moreThan') {
+      return actual > expected.value;
+    }
+    return actual === expected;
+  };
+
+  const createRepository = () => ({
+    findOne: jest.fn(async () => Object.assign(new PaymentAuthorization(), stored)),
+    find: jest.fn(async () => [Object.assign(new PaymentAuthorization(), stored)]),
+    update: jest.fn(async (criteria: string | Record<string, unknown>, changes: Partial<PaymentAuthorization>) => {
+      const matches = typeof criteria === 'string'
+        ? criteria === stored.id
+        : Object.entries(criteria).every(([key, value]) => matchesCriterion(stored[key], value));
+
+      if (matches) Object.assign(stored, changes);
+      return { affected: matches ? 1 : 0 };
+    }),
+  });
+
+  beforeAll(() => Logger.overrideLogger(false));
+
+  beforeEach(() => {
+    stored = Object.assign(new PaymentAuthorization(), {
+      id: 'authorization-1',
+      transactionId: 'transaction-1',
+      payerId: 'payer',
+      merchantId: 'merchant',
+      sourceWalletId: 'payer-wallet',
+      amount: '100.00',
+      currency: 'USD',
+      status: AuthorizationStatus.AUTHORIZED,
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    });
+    transferService = {
+      captureAuthorizedTransfer: jest.fn(async () => ({ id: 'transaction-1', feeAmount: '0.50' })),
+      voidAuthorizedTransfer: jest.fn(async () => undefined),
+    };
+
+    service = new AuthorizationService(
+      createRepository() as any,
+      {} as any,
+      { findOne: jest.fn(async () => ({ id: 'payer' })) } as any,
+      {} as any,
+      transferService as any,
+      { get: jest.fn((_, fallback) => fallback) } as any,
+    );
+  });
+
+  describe('capture', () => {
+    it('captures part of the authorized amount', async () => {
+      const captured = await service.capture('authorization-1', 'merchant', { amount: 60 });
+
+      expect(transferService.captureAuthorizedTransfer).toHaveBeenCalledWith('transaction-1', { id: 'payer' }, '60.00');
+      expect(captured).toEqual(expect.objectContaining({ status: AuthorizationStatus.CAPTURED, capturedAmount: '60.00' }));
+    });
+
+    it('captures the full amount when none is given', async () => {
+      await service.capture('authorization-1', 'merchant', {});
+
+      expect(transferService.captureAuthorizedTransfer).toHaveBeenCalledWith('transaction-1', { id: 'payer' }, '100.00');
+    });
+
+    it('refuses to capture more than was authorized', async () => {
+      await expect(service.capture('authorization-1', 'merchant', { amount: 100.01 })).rejects.toThrow(
+        'Cannot capture more than the authorized 100.00 USD',
+      );
+      expect(stored.status).toBe(AuthorizationStatus.AUTHORIZED);
+      expect(transferService.captureAuthorizedTransfer).not.toHaveBeenCalled();
+    });
+
+    it('refuses to capture an authorization past its expiry', async () => {
+      stored.expiresAt = new Date(Date.now() - 1000);
+
+      await expect(service.capture('authorization-1', 'merchant', { amount: 10 })).rejects.toThrow(
+        'Authorization has expired',
+      );
+      expect(transferService.captureAuthorizedTransfer).not.toHaveBeenCalled();
+    });
+
+    it('allows only one capture', async () => {
+      await service.capture('authorization-1', 'merchant', { amount: 10 });
+
+      await expect(service.capture('authorization-1', 'merchant', { amount: 10 })).rejects.toThrow(
+        'Authorization is CAPTURED',
+      );
+      expect(transferService.captureAuthorizedTransfer).toHaveBeenCalledTimes(1);
+    });
+
+    it('records a capture whose transfer failed', async () => {
+      transferService.captureAuthorizedTransfer.mockRejectedValueOnce(new BadRequestException('Merchant wallet is frozen'));
+
+      const captured = await service.capture('authorization-1', 'merchant', { amount: 10 });
+
+      expect(captured).toEqual(expect.objectContaining({
+        status: AuthorizationStatus.FAILED,
+        failureReason: 'Merchant wallet is frozen',
+      }));
+    });
+
+    it('only lets the merchant capture', async () => {
+      await expect(service.capture('authorization-1', 'payer', {})).rejects.toThrow(
+        'Only the merchant can capture an authorization',
+      );
+    });
+  });
+
+  describe('void', () => {
+    it('releases the hold back to the payer', async () => {
+      const voided = await service.void('authorization-1', 'merchant');
+
+      expect(transferService.voidAuthorizedTransfer).toHaveBeenCalledWith('transaction-1');
+      expect(voided.status).toBe(AuthorizationStatus.VOIDED);
+      expect(stored.resolvedAt).toBeInstanceOf(Date);
+    });
+
+    it('cannot void a captured authorization', async () => {
+      stored.status = AuthorizationStatus.CAPTURED;
+
+      await expect(service.void('authorization-1', 'merchant')).rejects.toThrow('Authorization is CAPTURED');
+      expect(transferService.voidAuthorizedTransfer).not.toHaveBeenCalled();
+    });
+  });
+
+  it('releases authorizations that were not captured before they expired', async () => {
+    stored.expiresAt = new Date(Date.now() - 1000);
+
+    await expect(service.expireAuthorizations()).resolves.toBe(1);
+
+    expect(stored.status).toBe(AuthorizationStatus.EXPIRED);
+    expect(transferService.voidAuthorizedTransfer).toHaveBeenCalledWith('transaction-1');
+  });
+});
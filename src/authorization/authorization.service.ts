@@ -0,0 +1,396 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  ConflictException,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, LessThan, LessThanOrEqual, MoreThan, In, IsNull } from 'typeorm';
+import {
+  PaymentAuthorization,
+  AuthorizationStatus,
+  AUTHORIZATION_RELEASE_STATUSES,
+} from '../database/entities/payment-authorization.entity';
+import { Wallet } from '../database/entities/wallet.entity';
+import { User } from '../database/entities/user.entity';
+import { Transaction, TransactionStatus, TransferState } from '../database/entities/transaction.entity';
+import { Money } from '../common/money/money';
+import { TransferService } from '../transfer/transfer.service';
+import { describeTransferFailure } from '../transfer/transfer-failure';
+import { CreateAuthorizationDto, CaptureAuthorizationDto, AuthorizationQueryDto } from './dto/authorization.dto';
+import { AuthorizationResponseDto } from './dto/authorization-response.dto';
+
+@Injectable()
+export class AuthorizationService {
+  private readonly logger = new Logger(AuthorizationService.name);
+  private readonly BATCH_SIZE = 50;
+
+  constructor(
+    @InjectRepository(PaymentAuthorization)
+    private authorizationRepository: Repository<PaymentAuthorization>,
+    @InjectRepository(Wallet)
+    private walletRepository: Repository<Wallet>,
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+    @InjectRepository(Transaction)
+    private transactionRepository: Repository<Transaction>,
+    private transferService: TransferService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Run a transfer to the merchant that stops once amount and fee are held on the
+   * payer's wallet. Nothing is debited until the merchant captures.
+   */
+  async authorize(payer: User, createAuthorizationDto: CreateAuthorizationDto): Promise<AuthorizationResponseDto> {
+    const { walletId, destinationWalletId, recipient, amount, description, idempotencyKey } = createAuthorizationDto;
+    const expiresAt = this.parseExpiresAt(createAuthorizationDto.expiresAt);
+
+    const transfer = await this.transferService.transferFunds(
+      walletId,
+      payer,
+      {
+        destinationWalletId,
+        recipient,
+        amount,
+        description: description || 'Payment authorization',
+        // Kept apart from plain transfers so a reused key cannot return one of those
+        idempotencyKey: idempotencyKey && `authorization:${idempotencyKey}`,
+      },
+      { authorizeUntil: expiresAt },
+    );
+
+    const existing = await this.authorizationRepository.findOne({ where: { transactionId: transfer.id } });
+    if (existing) {
+      return this.mapToAuthorizationResponseDto(existing);
+    }
+
+    const [sourceWallet, destinationWallet] = await Promise.all([
+      this.walletRepository.findOne({ where: { id: transfer.sourceWalletId } }),
+      this.walletRepository.findOne({ where: { id: transfer.destinationWalletId } }),
+    ]);
+
+    try {
+      const authorization = await this.authorizationRepository.save(
+        this.authorizationRepository.create({
+          transactionId: transfer.id,
+          payerId: payer.id,
+          sourceWalletId: sourceWallet.id,
+          merchantId: destinationWallet.userId,
+          destinationWalletId: destinationWallet.id,
+          amount: Money.fromDecimal(amount).toString(),
+          feeAmount: transfer.feeAmount,
+          currency: sourceWallet.currency,
+          description,
+          expiresAt,
+        }),
+      );
+
+      this.logger.log(
+        `Authorization ${authorization.id}: ${amount} ${authorization.currency} from wallet ${walletId} ` +
+        `for wallet ${authorization.destinationWalletId}, expiresAt=${expiresAt.toISOString()}`
+      );
+
+      return this.mapToAuthorizationResponseDto(authorization);
+
+    } catch (error) {
+      // Postgres unique_violation: a concurrent retry with the same key recorded it first
+      if (error?.code === '23505') {
+        const authorization = await this.authorizationRepository.findOne({ where: { transactionId: transfer.id } });
+        return this.mapToAuthorizationResponseDto(authorization);
+      }
+      throw error;
+    }
+  }
+
+  async getAuthorizations(userId: string, query: AuthorizationQueryDto): Promise<AuthorizationResponseDto[]> {
+    const parties = query.role === 'payer'
+      ? [{ payerId: userId }]
+      : query.role === 'merchant'
+        ? [{ merchantId: userId }]
+        : [{ payerId: userId }, { merchantId: userId }];
+
+    const authorizations = await this.authorizationRepository.find({
+      where: parties.map(party => (query.status ? { ...party, status: query.status } : party)),
+      order: { createdAt: 'DESC' },
+      take: 100,
+    });
+
+    return authorizations.map(authorization => this.mapToAuthorizationResponseDto(authorization));
+  }
+
+  async getAuthorization(id: string, userId: string): Promise<AuthorizationResponseDto> {
+    const authorization = await this.findAuthorization(id);
+
+    if (authorization.payerId !== userId && authorization.merchantId !== userId) {
+      throw new NotFoundException('Authorization not found');
+    }
+
+    return this.mapToAuthorizationResponseDto(authorization);
+  }
+
+  /**
+   * Take all or part of the authorized amount. There is one capture per
+   * authorization; whatever is not captured goes back to the payer with it.
+   */
+  async capture(id: string, merchantId: string, captureDto: CaptureAuthorizationDto): Promise<AuthorizationResponseDto> {
+    const authorization = await this.findMerchantAuthorization(id, merchantId, 'capture');
+    this.assertAuthorized(authorization);
+
+    const amount = Money.fromDecimal(captureDto.amount ?? authorization.amount).toString();
+    if (Money.fromDecimal(amount).greaterThan(Money.fromDecimal(authorization.amount))) {
+      throw new BadRequestException(`Cannot capture more than the authorized ${authorization.amount} ${authorization.currency}`);
+    }
+
+    // Only while unexpired, so a capture cannot race the expiry sweep past the end of the hold
+    const result = await this.authorizationRepository.update(
+      { id, status: AuthorizationStatus.AUTHORIZED, expiresAt: MoreThan(new Date()) },
+      { status: AuthorizationStatus.CAPTURING, capturedAmount: amount, claimedAt: new Date() },
+    );
+
+    if (!result.affected) {
+      const current = await this.findAuthorization(id);
+      if (current.status === AuthorizationStatus.AUTHORIZED) {
+        throw new BadRequestException('Authorization has expired');
+      }
+      throw new ConflictException('Authorization is already being resolved');
+    }
+
+    await this.completeCapture({ ...authorization, capturedAmount: amount });
+
+    return this.getAuthorization(id, merchantId);
+  }
+
+  /**
+   * The merchant lets the authorization go, releasing the hold to the payer
+   */
+  async void(id: string, merchantId: string): Promise<AuthorizationResponseDto> {
+    const authorization = await this.findMerchantAuthorization(id, merchantId, 'void');
+    this.assertAuthorized(authorization);
+
+    await this.claimAuthorized(authorization, AuthorizationStatus.VOIDED);
+    await this.completeRelease(authorization);
+    this.logger.log(`Authorization ${id} voided by merchant`);
+
+    return this.getAuthorization(id, merchantId);
+  }
+
+  /**
+   * Release authorizations not captured before they expire
+   */
+  async expireAuthorizations(): Promise<number> {
+    const overdue = await this.authorizationRepository.find({
+      where: { status: AuthorizationStatus.AUTHORIZED, expiresAt: LessThanOrEqual(new Date()) },
+      take: this.BATCH_SIZE,
+    });
+
+    let expired = 0;
+    for (const authorization of overdue) {
+      try {
+        await this.claimAuthorized(authorization, AuthorizationStatus.EXPIRED);
+      } catch (error) {
+        continue;
+      }
+
+      await this.completeRelease(authorization);
+      expired++;
+    }
+
+    return expired;
+  }
+
+  /**
+   * Finish captures and releases that stopped partway, e.g. after a crash
+   */
+  async resumeStalledAuthorizations(staleBefore: Date): Promise<number> {
+    const stalled = await this.authorizationRepository.find({
+      where: [
+        { status: AuthorizationStatus.CAPTURING, claimedAt: LessThan(staleBefore) },
+        { status: In(AUTHORIZATION_RELEASE_STATUSES), resolvedAt: IsNull(), claimedAt: LessThan(staleBefore) },
+      ],
+      take: this.BATCH_SIZE,
+    });
+
+    let resumed = 0;
+    for (const authorization of stalled) {
+      // Re-claim so only one instance picks it up
+      const claimed = await this.authorizationRepository.update(
+        { id: authorization.id, status: authorization.status, claimedAt: authorization.claimedAt },
+        { claimedAt: new Date() },
+      );
+      if (!claimed.affected) continue;
+
+      if (authorization.status !== AuthorizationStatus.CAPTURING) {
+        await this.completeRelease(authorization);
+        resumed++;
+        continue;
+      }
+
+      const transaction = await this.transactionRepository.findOne({ where: { id: authorization.transactionId } });
+
+      if (transaction.status === TransactionStatus.COMPLETED) {
+        await this.authorizationRepository.update(authorization.id, {
+          status: AuthorizationStatus.CAPTURED,
+          feeAmount: transaction.feeAmount,
+          resolvedAt: new Date(),
+        });
+      } else if (transaction.transferState === TransferState.COMPENSATED) {
+        await this.authorizationRepository.update(authorization.id, {
+          status: AuthorizationStatus.FAILED,
+          failureReason: transaction.errorDetails?.message || 'Capture failed',
+          resolvedAt: new Date(),
+        });
+      } else if (transaction.transferState === TransferState.AUTHORIZED) {
+        await this.completeCapture(authorization);
+      } else {
+        // Mid-saga: saga recovery drives the transfer to an outcome first
+        continue;
+      }
+
+      resumed++;
+    }
+
+    return resumed;
+  }
+
+  private async completeCapture(authorization: PaymentAuthorization): Promise<void> {
+    try {
+      const payer = await this.userRepository.findOne({ where: { id: authorization.payerId } });
+      const result = await this.transferService.captureAuthorizedTransfer(
+        authorization.transactionId,
+        payer,
+        authorization.capturedAmount,
+      );
+
+      await this.authorizationRepository.update(authorization.id, {
+        status: AuthorizationStatus.CAPTURED,
+        feeAmount: result.feeAmount,
+        resolvedAt: new Date(),
+      });
+      this.logger.log(
+        `Authorization ${authorization.id} captured ${authorization.capturedAmount} of ${authorization.amount} ` +
+        `as transaction ${result.id}`
+      );
+
+    } catch (error) {
+      if (error instanceof ConflictException) {
+        // Still in flight; picked up again once the claim is stale
+        this.logger.warn(`Capture of authorization ${authorization.id} is still in progress`);
+        return;
+      }
+
+      // The saga compensated the capture, so the hold is back with the payer
+      const failure = describeTransferFailure(error);
+      await this.authorizationRepository.update(authorization.id, {
+        status: AuthorizationStatus.FAILED,
+        failureReason: failure.reason,
+        resolvedAt: new Date(),
+      });
+
+      this.logger.warn(`Capture of authorization ${authorization.id} failed (${failure.code}): ${failure.reason}`);
+    }
+  }
+
+  private async completeRelease(authorization: PaymentAuthorization): Promise<void> {
+    try {
+      await this.transferService.voidAuthorizedTransfer(authorization.transactionId);
+
+      await this.authorizationRepository.update(authorization.id, { resolvedAt: new Date() });
+      this.logger.log(`Authorization ${authorization.id} released to wallet ${authorization.sourceWalletId}`);
+
+    } catch (error) {
+      // Left unresolved; picked up again once the claim is stale
+      this.logger.error(`Releasing authorization ${authorization.id} failed:`, error);
+    }
+  }
+
+  /**
+   * Move an authorization on, unless a concurrent action got there first
+   */
+  private async claimAuthorized(authorization: PaymentAuthorization, status: AuthorizationStatus): Promise<void> {
+    const result = await this.authorizationRepository.update(
+      { id: authorization.id, status: AuthorizationStatus.AUTHORIZED },
+      { status, claimedAt: new Date() },
+    );
+
+    if (!result.affected) {
+      throw new ConflictException('Authorization is already being resolved');
+    }
+  }
+
+  private async findAuthorization(id: string): Promise<PaymentAuthorization> {
+    const authorization = await this.authorizationRepository.findOne({ where: { id } });
+
+    if (!authorization) {
+      throw new NotFoundException('Authorization not found');
+    }
+
+    return authorization;
+  }
+
+  private async findMerchantAuthorization(id: string, merchantId: string, action: string): Promise<PaymentAuthorization> {
+    const authorization = await this.findAuthorization(id);
+
+    if (authorization.merchantId !== merchantId) {
+      if (authorization.payerId === merchantId) {
+        throw new ForbiddenException(`Only the merchant can ${action} an authorization`);
+      }
+      throw new NotFoundException('Authorization not found');
+    }
+
+    return authorization;
+  }
+
+  private assertAuthorized(authorization: PaymentAuthorization): void {
+    if (authorization.status !== AuthorizationStatus.AUTHORIZED) {
+      throw new BadRequestException(`Authorization is ${authorization.status}`);
+    }
+  }
+
+  private parseExpiresAt(expiresAt?: string): Date {
+    if (!expiresAt) {
+      return new Date(Date.now() + this.getHoursMs('AUTHORIZATION_TTL_HOURS', 168));
+    }
+
+    const deadline = new Date(expiresAt);
+    if (deadline.getTime() <= Date.now()) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+
+    if (deadline.getTime() > Date.now() + this.getHoursMs('AUTHORIZATION_MAX_TTL_HOURS', 720)) {
+      throw new BadRequestException(
+        `expiresAt cannot be more than ${this.configService.get('AUTHORIZATION_MAX_TTL_HOURS', 720)} hours away`,
+      );
+    }
+
+    return deadline;
+  }
+
+  private getHoursMs(key: string, defaultHours: number): number {
+    return Number(this.configService.get(key, defaultHours)) * 60 * 60 * 1000;
+  }
+
+  private mapToAuthorizationResponseDto(authorization: PaymentAuthorization): AuthorizationResponseDto {
+    return {
+      id: authorization.id,
+      transactionId: authorization.transactionId,
+      payerId: authorization.payerId,
+      sourceWalletId: authorization.sourceWalletId,
+      merchantId: authorization.merchantId,
+      destinationWalletId: authorization.destinationWalletId,
+      amount: authorization.amount,
+      capturedAmount: authorization.capturedAmount ?? null,
+      feeAmount: authorization.feeAmount,
+      currency: authorization.currency,
+      description: authorization.description || null,
+      status: authorization.status,
+      expiresAt: authorization.expiresAt,
+      failureReason: authorization.failureReason || null,
+      resolvedAt: authorization.resolvedAt || null,
+      createdAt: authorization.createdAt,
+    };
+  }
+}
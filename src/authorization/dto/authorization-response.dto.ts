@@ -0,0 +1,52 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { AuthorizationStatus } from '../../database/entities/payment-authorization.entity';
+
+export class AuthorizationResponseDto {
+  @ApiProperty({ example: 'uuid-string', description: 'Authorization id the merchant captures or voids' })
+  id: string;
+
+  @ApiProperty({ example: 'uuid-of-transaction', description: 'Transfer that moves the funds once captured' })
+  transactionId: string;
+
+  @ApiProperty({ example: 'uuid-of-payer' })
+  payerId: string;
+
+  @ApiProperty({ example: 'uuid-of-source-wallet' })
+  sourceWalletId: string;
+
+  @ApiProperty({ example: 'uuid-of-merchant' })
+  merchantId: string;
+
+  @ApiProperty({ example: 'uuid-of-merchant-wallet' })
+  destinationWalletId: string;
+
+  @ApiProperty({ example: '120.00' })
+  amount: string;
+
+  @ApiProperty({ example: '95.50', nullable: true })
+  capturedAmount: string | null;
+
+  @ApiProperty({ example: '0.60', description: 'Held with the amount, charged on the captured amount' })
+  feeAmount: string;
+
+  @ApiProperty({ example: 'USD' })
+  currency: string;
+
+  @ApiProperty({ example: 'Order #1042', nullable: true })
+  description: string | null;
+
+  @ApiProperty({ example: 'AUTHORIZED', enum: AuthorizationStatus })
+  status: AuthorizationStatus;
+
+  @ApiProperty({ example: '2024-01-22T10:00:00Z', description: 'Released to the payer if not captured by this time' })
+  expiresAt: Date;
+
+  @ApiProperty({ example: 'Insufficient balance', nullable: true })
+  failureReason: string | null;
+
+  @ApiProperty({ example: '2024-01-16T09:30:00Z', nullable: true })
+  resolvedAt: Date | null;
+
+  @ApiProperty({ example: '2024-01-15T10:00:00Z' })
+  createdAt: Date;
+}
@@ -0,0 +1,68 @@
+import { IsUUID, IsOptional, IsString, IsNotEmpty, IsDateString, IsEnum, IsIn, MaxLength, ValidateIf } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { AuthorizationStatus } from '../../database/entities/payment-authorization.entity';
+import { IsMoneyAmount } from '../../common/money/is-money-amount.decorator';
+
+export class CreateAuthorizationDto {
+  @ApiProperty({ example: 'uuid-of-your-wallet', description: 'Wallet the funds are held on' })
+  @IsUUID()
+  walletId: string;
+
+  @ApiProperty({ example: 'uuid-of-merchant-wallet', required: false, description: 'Give either this or recipient' })
+  @ValidateIf(o => !o.recipient)
+  @IsUUID()
+  destinationWalletId?: string;
+
+  @ApiProperty({ example: '@bike_shop', required: false, description: 'Merchant handle, verified email or verified phone number' })
+  @ValidateIf(o => !o.destinationWalletId)
+  @IsString()
+  @IsNotEmpty()
+  recipient?: string;
+
+  @ApiProperty({ example: 120.00, description: 'Most the merchant can capture' })
+  @IsMoneyAmount()
+  @Type(() => Number)
+  amount: number;
+
+  @ApiProperty({ example: 'Order #1042', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  description?: string;
+
+  @ApiProperty({
+    example: '2024-01-22T10:00:00Z',
+    required: false,
+    description: 'Release the funds if not captured by then; defaults to the configured authorization lifetime',
+  })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+
+  @ApiProperty({ example: 'unique-idempotency-key-12345', required: false })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  idempotencyKey?: string;
+}
+
+export class CaptureAuthorizationDto {
+  @ApiProperty({ example: 95.50, required: false, description: 'Defaults to the full authorized amount' })
+  @IsOptional()
+  @IsMoneyAmount()
+  @Type(() => Number)
+  amount?: number;
+}
+
+export class AuthorizationQueryDto {
+  @ApiProperty({ required: false, enum: ['payer', 'merchant'], description: 'Only authorizations you granted, or received' })
+  @IsOptional()
+  @IsIn(['payer', 'merchant'])
+  role?: 'payer' | 'merchant';
+
+  @ApiProperty({ required: false, enum: AuthorizationStatus })
+  @IsOptional()
+  @IsEnum(AuthorizationStatus)
+  status?: AuthorizationStatus;
+}
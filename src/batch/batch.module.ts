@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { TransferBatchController } from './transfer-batch.controller';
+import { TransferBatchService } from './transfer-batch.service';
+import { TransferBatchWorkerService } from './transfer-batch-worker.service';
+import { TransferBatch } from '../database/entities/transfer-batch.entity';
+import { TransferBatchItem } from '../database/entities/transfer-batch-item.entity';
+import { Wallet } from '../database/entities/wallet.entity';
+import { User } from '../database/entities/user.entity';
+import { AuthModule } from '../auth/auth.module';
+import { TransferModule } from '../transfer/transfer.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([TransferBatch, TransferBatchItem, Wallet, User]),
+    AuthModule,
+    TransferModule,
+  ],
+  controllers: [TransferBatchController],
+  providers: [TransferBatchService, TransferBatchWorkerService],
+})
+export class BatchModule {}
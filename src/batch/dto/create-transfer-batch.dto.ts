@@ -0,0 +1,58 @@
+import {
+  IsUUID,
+  IsOptional,
+  IsString,
+  IsNotEmpty,
+  IsEnum,
+  IsArray,
+  ArrayMinSize,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { TransferBatchMode } from '../../database/entities/transfer-batch.entity';
+import { IsMoneyAmount } from '../../common/money/is-money-amount.decorator';
+
+export class TransferBatchItemDto {
+  @ApiProperty({ example: 'uuid-of-destination-wallet' })
+  @IsUUID()
+  destinationWalletId: string;
+
+  @ApiProperty({ example: 2500.00 })
+  @IsMoneyAmount()
+  @Type(() => Number)
+  amount: number;
+
+  @ApiProperty({ example: 'Salary March', required: false })
+  @IsOptional()
+  @IsString()
+  description?: string;
+}
+
+export class CreateTransferBatchDto {
+  @ApiProperty({ example: 'BEST_EFFORT', enum: TransferBatchMode })
+  @IsEnum(TransferBatchMode)
+  mode: TransferBatchMode;
+
+  @ApiProperty({ type: [TransferBatchItemDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => TransferBatchItemDto)
+  items: TransferBatchItemDto[];
+
+  @ApiProperty({ example: 'Payroll March', required: false })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({
+    example: 'payroll-2024-03',
+    description: 'Unique key for the batch; may also be sent as the Idempotency-Key header',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  idempotencyKey?: string;
+}
@@ -0,0 +1,73 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { TransferBatchMode, TransferBatchStatus } from '../../database/entities/transfer-batch.entity';
+import { TransferBatchItemStatus } from '../../database/entities/transfer-batch-item.entity';
+
+export class TransferBatchItemResponseDto {
+  @ApiProperty({ example: 0 })
+  sequence: number;
+
+  @ApiProperty({ example: 'uuid-of-destination-wallet' })
+  destinationWalletId: string;
+
+  @ApiProperty({ example: '2500.00' })
+  amount: string;
+
+  @ApiProperty({ example: 'Salary March', nullable: true })
+  description: string | null;
+
+  @ApiProperty({ example: 'COMPLETED', enum: TransferBatchItemStatus })
+  status: TransferBatchItemStatus;
+
+  @ApiProperty({ example: 'uuid-of-transaction', nullable: true })
+  transactionId: string | null;
+
+  @ApiProperty({ example: 'uuid-of-reversal-transaction', nullable: true })
+  reversalTransactionId: string | null;
+
+  @ApiProperty({ example: 'invalid_wallet', nullable: true })
+  failureCode: string | null;
+
+  @ApiProperty({ example: 'Destination wallet not found or inactive', nullable: true })
+  failureReason: string | null;
+}
+
+export class TransferBatchResponseDto {
+  @ApiProperty({ example: 'uuid-string' })
+  id: string;
+
+  @ApiProperty({ example: 'uuid-of-source-wallet' })
+  sourceWalletId: string;
+
+  @ApiProperty({ example: 'BEST_EFFORT', enum: TransferBatchMode })
+  mode: TransferBatchMode;
+
+  @ApiProperty({ example: 'PROCESSING', enum: TransferBatchStatus })
+  status: TransferBatchStatus;
+
+  @ApiProperty({ example: 'Payroll March', nullable: true })
+  description: string | null;
+
+  @ApiProperty({ example: 'payroll-2024-03' })
+  idempotencyKey: string;
+
+  @ApiProperty({ example: '7500.00', description: 'Sum of item amounts, before fees' })
+  totalAmount: string;
+
+  @ApiProperty({ example: 3 })
+  itemCount: number;
+
+  @ApiProperty({ example: 2 })
+  completedCount: number;
+
+  @ApiProperty({ example: 1 })
+  failedCount: number;
+
+  @ApiProperty({ type: [TransferBatchItemResponseDto], required: false })
+  items?: TransferBatchItemResponseDto[];
+
+  @ApiProperty({ example: '2024-03-28T10:00:05Z', nullable: true })
+  completedAt: Date | null;
+
+  @ApiProperty({ example: '2024-03-28T10:00:00Z' })
+  createdAt: Date;
+}
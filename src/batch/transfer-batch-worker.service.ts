@@ -0,0 +1,54 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TransferBatchService } from './transfer-batch.service';
+
+/**
+ * Picks up batches that were never started or whose worker died mid-run
+ */
+@Injectable()
+export class TransferBatchWorkerService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(TransferBatchWorkerService.name);
+  private readonly BATCH_SIZE = 10;
+  private pollTimer: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private transferBatchService: TransferBatchService,
+    private configService: ConfigService,
+  ) {}
+
+  onApplicationBootstrap() {
+    const intervalMs = Number(this.configService.get('TRANSFER_BATCH_POLL_INTERVAL_MS', 30000));
+    this.pollTimer = setInterval(() => {
+      this.resumeBatches().catch(error => this.logger.error('Transfer batch resume failed:', error));
+    }, intervalMs);
+  }
+
+  onModuleDestroy() {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+    }
+  }
+
+  async resumeBatches(): Promise<void> {
+    if (this.running) {
+      this.logger.debug('Transfer batch worker already running, skipping');
+      return;
+    }
+
+    this.running = true;
+    try {
+      const batchIds = await this.transferBatchService.findResumableBatchIds(this.BATCH_SIZE);
+
+      for (const batchId of batchIds) {
+        try {
+          await this.transferBatchService.processBatch(batchId);
+        } catch (error) {
+          this.logger.error(`Failed to process transfer batch ${batchId}:`, error);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+}
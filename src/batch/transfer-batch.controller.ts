@@ -0,0 +1,65 @@
+import { Controller, Post, Get, Body, Param, UseGuards, Request, Headers, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiBearerAuth, ApiTags, ApiOperation, ApiResponse, ApiHeader } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { TransferBatchService } from './transfer-batch.service';
+import { CreateTransferBatchDto } from './dto/create-transfer-batch.dto';
+import { TransferBatchResponseDto } from './dto/transfer-batch-response.dto';
+
+@ApiTags('Transfer Batches')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('wallets/:walletId/transfer-batches')
+export class TransferBatchController {
+  constructor(private readonly transferBatchService: TransferBatchService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Submit a batch of transfers; items run in the background' })
+  @ApiHeader({
+    name: 'Idempotency-Key',
+    description: 'Idempotency key for the batch, unless given in the body',
+    required: false,
+  })
+  @ApiResponse({ status: 202, description: 'Batch accepted', type: TransferBatchResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid items, insufficient balance for the total or limit exceeded' })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  @ApiResponse({ status: 422, description: 'Idempotency key reused for a different batch' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async createBatch(
+    @Param('walletId') walletId: string,
+    @Request() req,
+    @Body() createTransferBatchDto: CreateTransferBatchDto,
+    @Headers('idempotency-key') idempotencyKeyHeader?: string,
+  ): Promise<TransferBatchResponseDto> {
+    if (idempotencyKeyHeader && !createTransferBatchDto.idempotencyKey) {
+      createTransferBatchDto.idempotencyKey = idempotencyKeyHeader;
+    }
+
+    return this.transferBatchService.createBatch(walletId, req.user, createTransferBatchDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List transfer batches of a wallet' })
+  @ApiResponse({ status: 200, description: 'Transfer batches retrieved successfully', type: [TransferBatchResponseDto] })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getBatches(
+    @Param('walletId') walletId: string,
+    @Request() req,
+  ): Promise<TransferBatchResponseDto[]> {
+    return this.transferBatchService.getBatches(walletId, req.user.id);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a transfer batch with per-item results' })
+  @ApiResponse({ status: 200, description: 'Transfer batch retrieved successfully', type: TransferBatchResponseDto })
+  @ApiResponse({ status: 404, description: 'Transfer batch not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getBatch(
+    @Param('walletId') walletId: string,
+    @Param('id') id: string,
+    @Request() req,
+  ): Promise<TransferBatchResponseDto> {
+    return this.transferBatchService.getBatch(walletId, id, req.user.id);
+  }
+}
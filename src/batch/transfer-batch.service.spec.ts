@@ -0,0 +1,189 @@
+import { BadRequestException, Logger } from '@nestjs/common';
+import { TransferBatch, TransferBatchMode, TransferBatchStatus } from '../database/entities/transfer-batch.entity';
+import { TransferBatchItem, TransferBatchItemStatus } from '../database/entities/transfer-batch-item.entity';
+import { User } from '../database/entities/user.entity';
+import { TransferBatchService } from './transfer-batch.service';
+
+describe('TransferBatchService', () => {
+  const user = Object.assign(new User(), { id: 'user-1', isActive: true });
+
+  let batch: TransferBatch;
+  let items: TransferBatchItem[];
+  let batchRepository: Record<string, jest.Mock>;
+  let transferService: Record<string, jest.Mock>;
+  let refundService: { reverseTransaction: jest.Mock };
+  let manager: { create: jest.Mock; save: jest.Mock };
+  let service: TransferBatchService;
+
+  const pendingItems = (count: number) =>
+    Array.from({ length: count }, (_, sequence) =>
+      Object.assign(new TransferBatchItem(), {
+        batchId: 'batch-1',
+        sequence,
+        destinationWalletId: `wallet-${sequence + 2}`,
+        amount: 10,
+        status: TransferBatchItemStatus.PENDING,
+      }),
+    );
+
+  // The status and counters the batch finished with
+  const finished = () => batchRepository.update.mock.calls.at(-1)[1];
+
+  beforeAll(() => Logger.overrideLogger(false));
+
+  beforeEach(() => {
+    batch = Object.assign(new TransferBatch(), {
+      id: 'batch-1',
+      userId: 'user-1',
+      sourceWalletId: 'wallet-1',
+      mode: TransferBatchMode.BEST_EFFORT,
+    });
+    items = pendingItems(3);
+
+    const claimQuery: any = {};
+    for (const method of ['update', 'set', 'where', 'andWhere']) {
+      claimQuery[method] = jest.fn(() => claimQuery);
+    }
+    claimQuery.execute = jest.fn(async () => ({ affected: 1 }));
+
+    batchRepository = {
+      createQueryBuilder: jest.fn(() => claimQuery),
+      findOne: jest.fn(async () => batch),
+      update: jest.fn(),
+    };
+    transferService = {
+      validateTransferBatch: jest.fn(async (_, __, batchItems) => batchItems.map(() => ({ fee: { amount: 0 } }))),
+      transferFunds: jest.fn(async (_, __, { idempotencyKey }) => ({ id: `transaction-for-${idempotencyKey}` })),
+      getTransactionByIdempotencyKey: jest.fn(async () => null),
+    };
+    refundService = { reverseTransaction: jest.fn(async (transactionId: string) => ({ id: `reversal-of-${transactionId}` })) };
+
+    manager = {
+      create: jest.fn((_, data) => data),
+      save: jest.fn(async data => (Array.isArray(data) ? data : { id: 'batch-1', ...data })),
+    };
+
+    service = new TransferBatchService(
+      batchRepository as any,
+      { find: jest.fn(async () => items), save: jest.fn(async item => item) } as any,
+      {} as any,
+      { findOne: jest.fn(async () => user) } as any,
+      transferService as any,
+      refundService as any,
+      { get: jest.fn((_, fallback) => fallback) } as any,
+      { transaction: jest.fn(async work => work(manager)) } as any,
+    );
+  });
+
+  describe('processBatch', () => {
+    it('pays every item with a key fixed to the batch and sequence', async () => {
+      await service.processBatch('batch-1');
+
+      expect(transferService.transferFunds.mock.calls.map(call => call[2].idempotencyKey)).toEqual([
+        'transfer-batch:batch-1:0',
+        'transfer-batch:batch-1:1',
+        'transfer-batch:batch-1:2',
+      ]);
+      expect(finished()).toEqual(expect.objectContaining({ status: TransferBatchStatus.COMPLETED, completedCount: 3 }));
+    });
+
+    it('keeps going past a failed item in best-effort mode', async () => {
+      transferService.transferFunds.mockRejectedValueOnce(new BadRequestException('Insufficient balance'));
+
+      await service.processBatch('batch-1');
+
+      expect(items.map(item => item.status)).toEqual([
+        TransferBatchItemStatus.FAILED,
+        TransferBatchItemStatus.COMPLETED,
+        TransferBatchItemStatus.COMPLETED,
+      ]);
+      expect(items[0].failureCode).toBe('insufficient_balance');
+      expect(finished()).toEqual(expect.objectContaining({
+        status: TransferBatchStatus.PARTIALLY_COMPLETED,
+        completedCount: 2,
+        failedCount: 1,
+      }));
+    });
+
+    it('skips the rest and reverses what was paid when an all-or-nothing item fails', async () => {
+      batch.mode = TransferBatchMode.ALL_OR_NOTHING;
+      transferService.transferFunds
+        .mockResolvedValueOnce({ id: 'transaction-0' })
+        .mockRejectedValueOnce(new BadRequestException('Insufficient balance'));
+
+      await service.processBatch('batch-1');
+
+      expect(refundService.reverseTransaction).toHaveBeenCalledWith('transaction-0', user, expect.objectContaining({
+        idempotencyKey: 'transfer-batch:batch-1:0:reversal',
+      }));
+      expect(items.map(item => item.status)).toEqual([
+        TransferBatchItemStatus.REVERSED,
+        TransferBatchItemStatus.FAILED,
+        TransferBatchItemStatus.SKIPPED,
+      ]);
+      expect(items[0].reversalTransactionId).toBe('reversal-of-transaction-0');
+      expect(finished()).toEqual(expect.objectContaining({ status: TransferBatchStatus.FAILED, completedCount: 0 }));
+    });
+
+    it('flags a paid item it could not reverse for an operator', async () => {
+      batch.mode = TransferBatchMode.ALL_OR_NOTHING;
+      transferService.transferFunds
+        .mockResolvedValueOnce({ id: 'transaction-0' })
+        .mockRejectedValueOnce(new BadRequestException('Insufficient balance'));
+      refundService.reverseTransaction.mockRejectedValueOnce(new BadRequestException('Insufficient balance to refund'));
+
+      await service.processBatch('batch-1');
+
+      expect(items[0]).toEqual(expect.objectContaining({
+        status: TransferBatchItemStatus.REVERSAL_FAILED,
+        failureReason: 'Insufficient balance to refund',
+      }));
+    });
+
+    it('does nothing when another worker holds the claim', async () => {
+      batchRepository.createQueryBuilder().execute.mockResolvedValueOnce({ affected: 0 });
+
+      await service.processBatch('batch-1');
+
+      expect(transferService.transferFunds).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createBatch', () => {
+    const submit = (mode: TransferBatchMode) =>
+      service.createBatch('wallet-1', user, {
+        mode,
+        idempotencyKey: 'batch-key',
+        items: [
+          { destinationWalletId: 'wallet-2', amount: 10 },
+          { destinationWalletId: 'missing', amount: 5 },
+        ],
+      });
+
+    beforeEach(() => {
+      jest.spyOn(service, 'processBatch').mockResolvedValue(undefined);
+      batchRepository.findOne
+        .mockResolvedValueOnce(null)
+        .mockImplementation(async () => Object.assign(batch, { items }));
+      transferService.validateTransferBatch.mockResolvedValue([
+        { fee: { amount: 0 } },
+        { error: new BadRequestException('Destination wallet not found or inactive') },
+      ]);
+    });
+
+    it('rejects an all-or-nothing batch with an invalid item before recording it', async () => {
+      await expect(submit(TransferBatchMode.ALL_OR_NOTHING)).rejects.toThrow('Batch rejected: some items are invalid');
+      expect(service.processBatch).not.toHaveBeenCalled();
+    });
+
+    it('records invalid items of a best-effort batch as failed and runs the rest', async () => {
+      await submit(TransferBatchMode.BEST_EFFORT);
+
+      const [saved, savedItems] = manager.save.mock.calls.map(call => call[0]);
+      expect(saved).toEqual(expect.objectContaining({ itemCount: 2, failedCount: 1, totalAmount: '15.00' }));
+      expect(savedItems.map(item => item.status)).toEqual([TransferBatchItemStatus.PENDING, TransferBatchItemStatus.FAILED]);
+      expect(savedItems[1].failureCode).toBe('invalid_wallet');
+      expect(service.processBatch).toHaveBeenCalledWith('batch-1');
+    });
+  });
+});
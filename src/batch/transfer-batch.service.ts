@@ -0,0 +1,424 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  UnprocessableEntityException,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, DataSource, QueryFailedError } from 'typeorm';
+import * as crypto from 'crypto';
+import { TransferBatch, TransferBatchMode, TransferBatchStatus } from '../database/entities/transfer-batch.entity';
+import { TransferBatchItem, TransferBatchItemStatus } from '../database/entities/transfer-batch-item.entity';
+import { Wallet } from '../database/entities/wallet.entity';
+import { User } from '../database/entities/user.entity';
+import { Money } from '../common/money/money';
+import { TransferService } from '../transfer/transfer.service';
+import { RefundService } from '../transfer/refund.service';
+import { describeTransferFailure } from '../transfer/transfer-failure';
+import { CreateTransferBatchDto } from './dto/create-transfer-batch.dto';
+import { TransferBatchResponseDto, TransferBatchItemResponseDto } from './dto/transfer-batch-response.dto';
+
+@Injectable()
+export class TransferBatchService {
+  private readonly logger = new Logger(TransferBatchService.name);
+
+  constructor(
+    @InjectRepository(TransferBatch)
+    private batchRepository: Repository<TransferBatch>,
+    @InjectRepository(TransferBatchItem)
+    private batchItemRepository: Repository<TransferBatchItem>,
+    @InjectRepository(Wallet)
+    private walletRepository: Repository<Wallet>,
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+    private transferService: TransferService,
+    private refundService: RefundService,
+    private configService: ConfigService,
+    private dataSource: DataSource,
+  ) {}
+
+  /**
+   * Validate and record a batch, then start running it in the background.
+   * Resubmitting with the same idempotency key returns the existing batch.
+   */
+  async createBatch(
+    walletId: string,
+    user: User,
+    createTransferBatchDto: CreateTransferBatchDto,
+  ): Promise<TransferBatchResponseDto> {
+    const { mode, items, description, idempotencyKey } = createTransferBatchDto;
+
+    if (!idempotencyKey) {
+      throw new BadRequestException('Transfer batches require an idempotency key');
+    }
+
+    const maxItems = Number(this.configService.get('TRANSFER_BATCH_MAX_ITEMS', 500));
+    if (items.length > maxItems) {
+      throw new BadRequestException(`A batch can hold at most ${maxItems} items`);
+    }
+
+    const requestHash = this.createRequestHash(walletId, createTransferBatchDto);
+
+    const existing = await this.findExistingBatch(user.id, idempotencyKey, requestHash);
+    if (existing) {
+      return existing;
+    }
+
+    const validations = await this.transferService.validateTransferBatch(walletId, user, items);
+
+    const invalid = validations
+      .map((validation, sequence) => ({ sequence, error: validation.error }))
+      .filter(result => result.error);
+
+    if (invalid.length > 0 && (mode === TransferBatchMode.ALL_OR_NOTHING || invalid.length === items.length)) {
+      throw new BadRequestException({
+        message: 'Batch rejected: some items are invalid',
+        items: invalid.map(({ sequence, error }) => ({ sequence, ...describeTransferFailure(error) })),
+      });
+    }
+
+    let batch: TransferBatch;
+    try {
+      batch = await this.dataSource.transaction(async manager => {
+        const saved = await manager.save(
+          manager.create(TransferBatch, {
+            userId: user.id,
+            sourceWalletId: walletId,
+            mode,
+            description,
+            idempotencyKey,
+            requestHash,
+            totalAmount: items.reduce((total, item) => total.add(Money.fromDecimal(item.amount)), Money.zero()).toString(),
+            itemCount: items.length,
+            failedCount: invalid.length,
+          }),
+        );
+
+        // Items that failed validation are recorded as failed and never attempted
+        await manager.save(
+          items.map((item, sequence) => {
+            const failure = validations[sequence].error ? describeTransferFailure(validations[sequence].error) : null;
+
+            return manager.create(TransferBatchItem, {
+              batchId: saved.id,
+              sequence,
+              destinationWalletId: item.destinationWalletId,
+              amount: Money.fromDecimal(item.amount).toString(),
+              description: item.description,
+              status: failure ? TransferBatchItemStatus.FAILED : TransferBatchItemStatus.PENDING,
+              failureCode: failure?.code,
+              failureReason: failure?.reason,
+            });
+          }),
+        );
+
+        return saved;
+      });
+    } catch (error) {
+      // Lost a race against the same submission
+      if (error instanceof QueryFailedError && (error as any).driverError?.code === '23505') {
+        return this.findExistingBatch(user.id, idempotencyKey, requestHash);
+      }
+      throw error;
+    }
+
+    this.logger.log(
+      `Created transfer batch ${batch.id}: wallet=${walletId}, mode=${mode}, ` +
+      `items=${items.length}, total=${batch.totalAmount}, idempotencyKey=${idempotencyKey}`
+    );
+
+    this.processBatch(batch.id).catch(error =>
+      this.logger.error(`Transfer batch ${batch.id} processing failed:`, error),
+    );
+
+    return this.getBatch(walletId, batch.id, user.id);
+  }
+
+  async getBatches(walletId: string, userId: string): Promise<TransferBatchResponseDto[]> {
+    await this.findOwnedWallet(walletId, userId);
+
+    const batches = await this.batchRepository.find({
+      where: { sourceWalletId: walletId, userId },
+      order: { createdAt: 'DESC' },
+      take: 100,
+    });
+
+    return batches.map(batch => this.mapToTransferBatchResponseDto(batch));
+  }
+
+  async getBatch(walletId: string, id: string, userId: string): Promise<TransferBatchResponseDto> {
+    const batch = await this.batchRepository.findOne({
+      where: { id, sourceWalletId: walletId, userId },
+      relations: ['items'],
+    });
+
+    if (!batch) {
+      throw new NotFoundException('Transfer batch not found');
+    }
+
+    return this.mapToTransferBatchResponseDto(batch);
+  }
+
+  /**
+   * Run the pending items of a batch in order. Safe to call again after a crash:
+   * each item has a fixed idempotency key, so paid items are not paid twice.
+   */
+  async processBatch(batchId: string): Promise<void> {
+    if (!(await this.claim(batchId))) {
+      return;
+    }
+
+    const batch = await this.batchRepository.findOne({ where: { id: batchId } });
+    const items = await this.batchItemRepository.find({
+      where: { batchId },
+      order: { sequence: 'ASC' },
+    });
+
+    const user = await this.userRepository.findOne({ where: { id: batch.userId } });
+
+    const allOrNothing = batch.mode === TransferBatchMode.ALL_OR_NOTHING;
+
+    for (const item of items) {
+      if (item.status !== TransferBatchItemStatus.PENDING) continue;
+
+      if (allOrNothing && items.some(other => other.status === TransferBatchItemStatus.FAILED)) {
+        item.status = TransferBatchItemStatus.SKIPPED;
+        await this.batchItemRepository.save(item);
+        continue;
+      }
+
+      const idempotencyKey = `transfer-batch:${batch.id}:${item.sequence}`;
+
+      try {
+        if (!user?.isActive) {
+          throw new BadRequestException('Owner account is inactive');
+        }
+
+        const result = await this.transferService.transferFunds(batch.sourceWalletId, user, {
+          destinationWalletId: item.destinationWalletId,
+          amount: item.amount,
+          description: item.description || batch.description || 'Batch transfer',
+          idempotencyKey,
+        });
+
+        item.status = TransferBatchItemStatus.COMPLETED;
+        item.transactionId = result.id;
+
+      } catch (error) {
+        if (error instanceof ConflictException) {
+          // The item is still in flight from an earlier run; leave the claim to expire and look again
+          this.logger.warn(`Transfer batch ${batch.id} item ${item.sequence} is still in progress, will check again`);
+          return;
+        }
+
+        const failure = describeTransferFailure(error);
+        const transaction = await this.transferService.getTransactionByIdempotencyKey(idempotencyKey);
+
+        item.status = TransferBatchItemStatus.FAILED;
+        item.transactionId = transaction?.id || null;
+        item.failureCode = failure.code;
+        item.failureReason = failure.reason;
+
+        this.logger.warn(`Transfer batch ${batch.id} item ${item.sequence} failed (${failure.code}): ${failure.reason}`);
+      }
+
+      await this.batchItemRepository.save(item);
+      await this.batchRepository.update(batch.id, { claimedAt: new Date() });
+    }
+
+    if (allOrNothing && items.some(item => item.status === TransferBatchItemStatus.FAILED)) {
+      await this.reverseCompletedItems(batch, items, user);
+    }
+
+    await this.finishBatch(batch, items);
+  }
+
+  /**
+   * Unwind an all-or-nothing batch by reversing every item that was paid
+   */
+  private async reverseCompletedItems(batch: TransferBatch, items: TransferBatchItem[], user: User): Promise<void> {
+    for (const item of items) {
+      if (item.status !== TransferBatchItemStatus.COMPLETED) continue;
+
+      try {
+        const reversal = await this.refundService.reverseTransaction(item.transactionId, user, {
+          reason: `Transfer batch ${batch.id} failed`,
+          idempotencyKey: `transfer-batch:${batch.id}:${item.sequence}:reversal`,
+        });
+
+        item.status = TransferBatchItemStatus.REVERSED;
+        item.reversalTransactionId = reversal.id;
+
+      } catch (error) {
+        // The recipient may already have spent the funds; this needs an operator
+        item.status = TransferBatchItemStatus.REVERSAL_FAILED;
+        item.failureReason = describeTransferFailure(error).reason;
+
+        this.logger.error(`Could not reverse item ${item.sequence} of transfer batch ${batch.id}: ${item.failureReason}`);
+      }
+
+      await this.batchItemRepository.save(item);
+    }
+  }
+
+  private async finishBatch(batch: TransferBatch, items: TransferBatchItem[]): Promise<void> {
+    const completedCount = items.filter(item => item.status === TransferBatchItemStatus.COMPLETED).length;
+    const failedCount = items.length - completedCount;
+
+    let status: TransferBatchStatus;
+    if (failedCount === 0) {
+      status = TransferBatchStatus.COMPLETED;
+    } else if (completedCount > 0) {
+      status = TransferBatchStatus.PARTIALLY_COMPLETED;
+    } else {
+      status = TransferBatchStatus.FAILED;
+    }
+
+    await this.batchRepository.update(batch.id, {
+      status,
+      completedCount,
+      failedCount,
+      claimedAt: null,
+      completedAt: new Date(),
+    });
+
+    this.logger.log(
+      `Transfer batch ${batch.id} finished as ${status}: completed=${completedCount}, failed=${failedCount}`
+    );
+  }
+
+  /**
+   * Claim a batch that is new or whose worker stopped heartbeating
+   */
+  private async claim(batchId: string): Promise<boolean> {
+    const staleBefore = new Date(Date.now() - this.getClaimTimeoutMs());
+
+    const result = await this.batchRepository
+      .createQueryBuilder()
+      .update(TransferBatch)
+      .set({ status: TransferBatchStatus.PROCESSING, claimedAt: () => 'CURRENT_TIMESTAMP' })
+      .where('id = :id', { id: batchId })
+      .andWhere('(status = :pending OR (status = :processing AND "claimedAt" < :staleBefore))', {
+        pending: TransferBatchStatus.PENDING,
+        processing: TransferBatchStatus.PROCESSING,
+        staleBefore,
+      })
+      .execute();
+
+    return result.affected === 1;
+  }
+
+  /**
+   * Ids of batches that were never started or whose worker died
+   */
+  async findResumableBatchIds(limit: number): Promise<string[]> {
+    const staleBefore = new Date(Date.now() - this.getClaimTimeoutMs());
+
+    const batches = await this.batchRepository
+      .createQueryBuilder('batch')
+      .select(['batch.id'])
+      .where('batch.status = :pending', { pending: TransferBatchStatus.PENDING })
+      .orWhere('batch.status = :processing AND batch.claimedAt < :staleBefore', {
+        processing: TransferBatchStatus.PROCESSING,
+        staleBefore,
+      })
+      .orderBy('batch.createdAt', 'ASC')
+      .take(limit)
+      .getMany();
+
+    return batches.map(batch => batch.id);
+  }
+
+  private async findExistingBatch(
+    userId: string,
+    idempotencyKey: string,
+    requestHash: string,
+  ): Promise<TransferBatchResponseDto | null> {
+    const existing = await this.batchRepository.findOne({
+      where: { userId, idempotencyKey },
+      relations: ['items'],
+    });
+
+    if (!existing) {
+      return null;
+    }
+
+    if (existing.requestHash !== requestHash) {
+      throw new UnprocessableEntityException(
+        `Idempotency key ${idempotencyKey} was already used for a different batch`,
+      );
+    }
+
+    this.logger.log(`Returning existing transfer batch ${existing.id} for idempotency key: ${idempotencyKey}`);
+    return this.mapToTransferBatchResponseDto(existing);
+  }
+
+  private createRequestHash(walletId: string, createTransferBatchDto: CreateTransferBatchDto): string {
+    const payload = {
+      walletId,
+      mode: createTransferBatchDto.mode,
+      items: createTransferBatchDto.items.map(item => ({
+        destinationWalletId: item.destinationWalletId,
+        amount: Money.fromDecimal(item.amount).toString(),
+        description: item.description || null,
+      })),
+    };
+
+    return crypto.createHash('sha256').update(JSON.stringify(payload)).digest('hex');
+  }
+
+  private async findOwnedWallet(walletId: string, userId: string): Promise<Wallet> {
+    const wallet = await this.walletRepository.findOne({
+      where: { id: walletId, userId, isActive: true },
+    });
+
+    if (!wallet) {
+      throw new NotFoundException('Wallet not found');
+    }
+
+    return wallet;
+  }
+
+  private getClaimTimeoutMs(): number {
+    return Number(this.configService.get('TRANSFER_BATCH_CLAIM_TIMEOUT_MS', 300000));
+  }
+
+  private mapToTransferBatchResponseDto(batch: TransferBatch): TransferBatchResponseDto {
+    return {
+      id: batch.id,
+      sourceWalletId: batch.sourceWalletId,
+      mode: batch.mode,
+      status: batch.status,
+      description: batch.description || null,
+      idempotencyKey: batch.idempotencyKey,
+      totalAmount: batch.totalAmount,
+      itemCount: batch.itemCount,
+      completedCount: batch.completedCount,
+      failedCount: batch.failedCount,
+      ...(batch.items && {
+        items: [...batch.items]
+          .sort((a, b) => a.sequence - b.sequence)
+          .map(item => this.mapToTransferBatchItemResponseDto(item)),
+      }),
+      completedAt: batch.completedAt || null,
+      createdAt: batch.createdAt,
+    };
+  }
+
+  private mapToTransferBatchItemResponseDto(item: TransferBatchItem): TransferBatchItemResponseDto {
+    return {
+      sequence: item.sequence,
+      destinationWalletId: item.destinationWalletId,
+      amount: item.amount,
+      description: item.description || null,
+      status: item.status,
+      transactionId: item.transactionId || null,
+      reversalTransactionId: item.reversalTransactionId || null,
+      failureCode: item.failureCode || null,
+      failureReason: item.failureReason || null,
+    };
+  }
+}
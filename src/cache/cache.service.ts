@@ -1,9 +1,10 @@
 import { Injectable, OnModuleInit, OnModuleDestroy, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { createClient, RedisClientType } from 'redis';
+import { DecimalAmount, Money } from '../common/money/money';
 
 export interface WalletBalanceWithVersion {
-  balance: number;
+  balance: string;
   version: number;
   lastUpdated: Date;
 }
@@ -12,6 +13,8 @@ export interface WalletBalanceWithVersion {
 export class CacheService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(CacheService.name);
   private client: RedisClientType;
+  // A subscribed connection cannot run other commands, so pub/sub listens on a duplicate
+  private subscriber: RedisClientType;
 
   constructor(private configService: ConfigService) {}
 
@@ -32,6 +35,10 @@ export class CacheService implements OnModuleInit, OnModuleDestroy {
   }
 
   async onModuleDestroy() {
+    if (this.subscriber) {
+      await this.subscriber.disconnect();
+    }
+
     if (this.client) {
       await this.client.disconnect();
     }
@@ -49,10 +56,25 @@ export class CacheService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  /**
+   * Set a key only if it does not exist yet; returns whether it was set
+   */
+  async setIfAbsent(key: string, value: string, ttl: number): Promise<boolean> {
+    const result = await this.client.set(key, value, { NX: true, EX: ttl });
+    return result === 'OK';
+  }
+
   async del(key: string): Promise<void> {
     await this.client.del(key);
   }
 
+  /**
+   * Atomically read and remove a key, so only one caller can consume it
+   */
+  async getAndDelete(key: string): Promise<string | null> {
+    return await this.client.getDel(key);
+  }
+
   /**
    * Acquires a distributed lock for wallet operations
    */
@@ -146,8 +168,14 @@ export class CacheService implements OnModuleInit, OnModuleDestroy {
 
     try {
       const parsed = JSON.parse(data);
+
+      // Entries written before balances were cached in minor units carry a decimal string
+      const balance = parsed.balanceMinor !== undefined
+        ? Money.fromMinorUnits(parseInt(parsed.balanceMinor))
+        : Money.fromDecimal(parsed.balance);
+
       return {
-        balance: parseFloat(parsed.balance),
+        balance: balance.toString(),
         version: parseInt(parsed.version),
         lastUpdated: new Date(parsed.lastUpdated),
       };
@@ -162,12 +190,12 @@ export class CacheService implements OnModuleInit, OnModuleDestroy {
    */
   async setWalletBalanceWithVersion(
     walletId: string,
-    balance: number,
+    balance: DecimalAmount,
     version: number,
     ttl: number = 300
   ): Promise<void> {
     const data = JSON.stringify({
-      balance: balance.toString(),
+      balanceMinor: Money.fromDecimal(balance).minorUnits.toString(),
       version: version.toString(),
       lastUpdated: new Date().toISOString(),
     });
@@ -180,7 +208,7 @@ export class CacheService implements OnModuleInit, OnModuleDestroy {
    */
   async updateWalletBalanceIfVersionMatches(
     walletId: string,
-    newBalance: number,
+    newBalance: DecimalAmount,
     expectedVersion: number,
     newVersion: number,
     ttl: number = 300
@@ -193,7 +221,7 @@ export class CacheService implements OnModuleInit, OnModuleDestroy {
       if current == false then
         -- No cached value, proceed with set
         local data = cjson.encode({
-          balance = ARGV[1],
+          balanceMinor = ARGV[1],
           version = ARGV[3],
           lastUpdated = ARGV[4]
         })
@@ -205,7 +233,7 @@ export class CacheService implements OnModuleInit, OnModuleDestroy {
       if tonumber(currentData.version) == tonumber(ARGV[2]) then
         -- Version matches, update
         local data = cjson.encode({
-          balance = ARGV[1],
+          balanceMinor = ARGV[1],
           version = ARGV[3],
           lastUpdated = ARGV[4]
         })
@@ -221,7 +249,7 @@ export class CacheService implements OnModuleInit, OnModuleDestroy {
       const result = await this.client.eval(luaScript, {
         keys: [cacheKey],
         arguments: [
-          newBalance.toString(),
+          Money.fromDecimal(newBalance).minorUnits.toString(),
           expectedVersion.toString(),
           newVersion.toString(),
           new Date().toISOString(),
@@ -237,12 +265,12 @@ export class CacheService implements OnModuleInit, OnModuleDestroy {
   }
 
   // Legacy methods for backward compatibility
-  async getWalletBalance(walletId: string): Promise<number | null> {
+  async getWalletBalance(walletId: string): Promise<string | null> {
     const data = await this.getWalletBalanceWithVersion(walletId);
     return data ? data.balance : null;
   }
 
-  async setWalletBalance(walletId: string, balance: number): Promise<void> {
+  async setWalletBalance(walletId: string, balance: DecimalAmount): Promise<void> {
     await this.setWalletBalanceWithVersion(walletId, balance, 1, 300);
   }
 
@@ -267,18 +295,56 @@ export class CacheService implements OnModuleInit, OnModuleDestroy {
     await this.client.del(keys);
   }
 
-  async getTransferLimitUsage(userId: string, period: 'daily' | 'monthly'): Promise<number | null> {
+  async getTransferLimitUsage(userId: string, period: 'daily' | 'monthly'): Promise<string | null> {
     const usage = await this.get(`transfer_limit:${userId}:${period}`);
-    return usage ? parseFloat(usage) : null;
+    return usage ? Money.fromDecimal(usage).toString() : null;
   }
 
-  async setTransferLimitUsage(userId: string, period: 'daily' | 'monthly', usage: number): Promise<void> {
+  async setTransferLimitUsage(userId: string, period: 'daily' | 'monthly', usage: DecimalAmount): Promise<void> {
     const ttl = period === 'daily' ? 86400 : 2592000; // 1 day or 30 days
-    await this.set(`transfer_limit:${userId}:${period}`, usage.toString(), ttl);
+    await this.set(`transfer_limit:${userId}:${period}`, Money.fromDecimal(usage).toString(), ttl);
   }
 
   async invalidateTransferLimitUsage(userId: string): Promise<void> {
     await this.del(`transfer_limit:${userId}:daily`);
     await this.del(`transfer_limit:${userId}:monthly`);
   }
-} 
\ No newline at end of file
+
+  /**
+   * Append an entry to a stream under an explicit id, trimming the stream to about maxLength.
+   * Returns false when the stream already holds that id or a later one, so re-appending is a no-op.
+   */
+  async appendToStream(key: string, id: string, fields: Record<string, string>, maxLength: number): Promise<boolean> {
+    try {
+      await this.client.xAdd(key, id, fields, {
+        TRIM: { strategy: 'MAXLEN', strategyModifier: '~', threshold: maxLength },
+      });
+      return true;
+    } catch (error) {
+      if (/equal or smaller/i.test(error.message)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async publish(channel: string, message: string): Promise<void> {
+    await this.client.publish(channel, message);
+  }
+
+  /**
+   * Listen on a pub/sub channel. The subscriber connection is opened on first use
+   * with the same settings as the main one.
+   */
+  async subscribe(channel: string, listener: (message: string) => void): Promise<void> {
+    if (!this.subscriber) {
+      this.subscriber = this.client.duplicate();
+      this.subscriber.on('error', (err) => {
+        console.error('Redis Subscriber Error', err);
+      });
+      await this.subscriber.connect();
+    }
+
+    await this.subscriber.subscribe(channel, listener);
+  }
+}
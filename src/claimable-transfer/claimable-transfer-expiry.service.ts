@@ -0,0 +1,50 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ClaimableTransferService } from './claimable-transfer.service';
+
+/**
+ * Returns unclaimed transfers to their senders on expiry and settles claims stuck mid-transfer
+ */
+@Injectable()
+export class ClaimableTransferExpiryService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(ClaimableTransferExpiryService.name);
+  private sweepTimer: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private claimableTransferService: ClaimableTransferService,
+    private configService: ConfigService,
+  ) {}
+
+  onApplicationBootstrap() {
+    const intervalMs = Number(this.configService.get('CLAIMABLE_TRANSFER_SWEEP_INTERVAL_MS', 60000));
+    this.sweepTimer = setInterval(() => {
+      this.sweep().catch(error => this.logger.error('Claimable transfer sweep failed:', error));
+    }, intervalMs);
+  }
+
+  onModuleDestroy() {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+    }
+  }
+
+  async sweep(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const expired = await this.claimableTransferService.expireTransfers();
+      if (expired > 0) {
+        this.logger.log(`Expired ${expired} claimable transfers`);
+      }
+
+      const staleAfterMs = Number(this.configService.get('CLAIMABLE_TRANSFER_STALE_AFTER_MS', 300000));
+      await this.claimableTransferService.reconcileStaleClaims(new Date(Date.now() - staleAfterMs));
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import { Controller, Post, Get, Body, Param, Query, UseGuards, Request, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiBearerAuth, ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { ClaimableTransferService } from './claimable-transfer.service';
+import { CreateClaimableTransferDto, ClaimTransferDto, ClaimableTransferQueryDto } from './dto/claimable-transfer.dto';
+import { ClaimableTransferResponseDto } from './dto/claimable-transfer-response.dto';
+import { Idempotent } from '../common/decorators/idempotent.decorator';
+
+@ApiTags('Claimable Transfers')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('claimable-transfers')
+export class ClaimableTransferController {
+  constructor(private readonly claimableTransferService: ClaimableTransferService) {}
+
+  @Post()
+  @Idempotent()
+  @ApiOperation({ summary: 'Send money to an email or phone number without a verified account' })
+  @ApiResponse({ status: 201, description: 'Claimable transfer created', type: ClaimableTransferResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid recipient or insufficient balance' })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async createClaimableTransfer(
+    @Request() req,
+    @Body() createClaimableTransferDto: CreateClaimableTransferDto,
+  ): Promise<ClaimableTransferResponseDto> {
+    return this.claimableTransferService.createClaimableTransfer(req.user, createClaimableTransferDto);
+  }
+
+  @Get('sent')
+  @ApiOperation({ summary: 'Claimable transfers you have sent' })
+  @ApiResponse({ status: 200, description: 'Claimable transfers retrieved successfully', type: [ClaimableTransferResponseDto] })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getSentTransfers(
+    @Request() req,
+    @Query() query: ClaimableTransferQueryDto,
+  ): Promise<ClaimableTransferResponseDto[]> {
+    return this.claimableTransferService.getSentTransfers(req.user.id, query);
+  }
+
+  @Get('incoming')
+  @ApiOperation({ summary: 'Transfers sent to your verified email or phone number' })
+  @ApiResponse({ status: 200, description: 'Claimable transfers retrieved successfully', type: [ClaimableTransferResponseDto] })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getIncomingTransfers(
+    @Request() req,
+    @Query() query: ClaimableTransferQueryDto,
+  ): Promise<ClaimableTransferResponseDto[]> {
+    return this.claimableTransferService.getIncomingTransfers(req.user, query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a claimable transfer you sent or can claim' })
+  @ApiResponse({ status: 200, description: 'Claimable transfer retrieved successfully', type: ClaimableTransferResponseDto })
+  @ApiResponse({ status: 404, description: 'Claimable transfer not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getClaimableTransfer(@Param('id') id: string, @Request() req): Promise<ClaimableTransferResponseDto> {
+    return this.claimableTransferService.getClaimableTransfer(id, req.user);
+  }
+
+  @Post(':id/claim')
+  @Idempotent()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Receive a transfer sent to your verified email or phone number' })
+  @ApiResponse({ status: 200, description: 'Transfer claimed', type: ClaimableTransferResponseDto })
+  @ApiResponse({ status: 400, description: 'Transfer is no longer claimable or the payment failed' })
+  @ApiResponse({ status: 404, description: 'Claimable transfer or wallet not found' })
+  @ApiResponse({ status: 409, description: 'Transfer is already being claimed' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async claimTransfer(
+    @Param('id') id: string,
+    @Request() req,
+    @Body() claimTransferDto: ClaimTransferDto,
+  ): Promise<ClaimableTransferResponseDto> {
+    return this.claimableTransferService.claimTransfer(id, req.user, claimTransferDto);
+  }
+
+  @Post(':id/cancel')
+  @Idempotent()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Cancel an unclaimed transfer you sent, releasing the funds' })
+  @ApiResponse({ status: 200, description: 'Claimable transfer cancelled', type: ClaimableTransferResponseDto })
+  @ApiResponse({ status: 400, description: 'Transfer is no longer pending' })
+  @ApiResponse({ status: 403, description: 'Only the sender can cancel' })
+  @ApiResponse({ status: 404, description: 'Claimable transfer not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async cancelClaimableTransfer(@Param('id') id: string, @Request() req): Promise<ClaimableTransferResponseDto> {
+    return this.claimableTransferService.cancelClaimableTransfer(id, req.user);
+  }
+}
@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ClaimableTransferController } from './claimable-transfer.controller';
+import { ClaimableTransferService } from './claimable-transfer.service';
+import { ClaimableTransferExpiryService } from './claimable-transfer-expiry.service';
+import { ClaimableTransfer } from '../database/entities/claimable-transfer.entity';
+import { Wallet } from '../database/entities/wallet.entity';
+import { User } from '../database/entities/user.entity';
+import { AuthModule } from '../auth/auth.module';
+import { CommonModule } from '../common/common.module';
+import { TransferModule } from '../transfer/transfer.module';
+import { FeeModule } from '../fee/fee.module';
+import { AliasModule } from '../alias/alias.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([ClaimableTransfer, Wallet, User]),
+    AuthModule,
+    CommonModule,
+    TransferModule,
+    FeeModule,
+    AliasModule,
+  ],
+  controllers: [ClaimableTransferController],
+  providers: [ClaimableTransferService, ClaimableTransferExpiryService],
+})
+export class ClaimableTransferModule {}
@@ -0,0 +1,489 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  ConflictException,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, LessThan } from 'typeorm';
+import {
+  ClaimableTransfer,
+  ClaimableTransferStatus,
+  ClaimableRecipientType,
+} from '../database/entities/claimable-transfer.entity';
+import { Wallet } from '../database/entities/wallet.entity';
+import { User } from '../database/entities/user.entity';
+import { TransactionType, TransactionStatus } from '../database/entities/transaction.entity';
+import { FundHold } from '../database/entities/fund-hold.entity';
+import { HoldService } from '../common/services/hold.service';
+import { Money } from '../common/money/money';
+import { TransferService } from '../transfer/transfer.service';
+import { describeTransferFailure } from '../transfer/transfer-failure';
+import { FeeService } from '../fee/fee.service';
+import { AliasService } from '../alias/alias.service';
+import { parseRecipient } from '../alias/recipient';
+import { CreateClaimableTransferDto, ClaimTransferDto, ClaimableTransferQueryDto } from './dto/claimable-transfer.dto';
+import { ClaimableTransferResponseDto } from './dto/claimable-transfer-response.dto';
+
+@Injectable()
+export class ClaimableTransferService {
+  private readonly logger = new Logger(ClaimableTransferService.name);
+
+  constructor(
+    @InjectRepository(ClaimableTransfer)
+    private claimableTransferRepository: Repository<ClaimableTransfer>,
+    @InjectRepository(Wallet)
+    private walletRepository: Repository<Wallet>,
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+    private holdService: HoldService,
+    private transferService: TransferService,
+    private feeService: FeeService,
+    private aliasService: AliasService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Send money to an email or phone number nobody has verified yet. The amount
+   * and fee are reserved on the sender's wallet until it is claimed or expires.
+   */
+  async createClaimableTransfer(
+    sender: User,
+    createClaimableTransferDto: CreateClaimableTransferDto,
+  ): Promise<ClaimableTransferResponseDto> {
+    const { walletId, amount, description, expiresAt } = createClaimableTransferDto;
+    const parsed = parseRecipient(createClaimableTransferDto.recipient);
+
+    if (parsed.kind === 'HANDLE') {
+      throw new BadRequestException('Claimable transfers can only be sent to an email address or phone number');
+    }
+
+    if (parsed.kind === 'EMAIL' && parsed.value === sender.email.toLowerCase()) {
+      throw new BadRequestException('Cannot send a claimable transfer to yourself');
+    }
+
+    if (await this.aliasService.findUserByContact(parsed)) {
+      throw new BadRequestException('Recipient already has an account; send a regular transfer instead');
+    }
+
+    const sourceWallet = await this.walletRepository.findOne({
+      where: { id: walletId, userId: sender.id, isActive: true },
+    });
+
+    if (!sourceWallet) {
+      throw new NotFoundException('Wallet not found');
+    }
+
+    if (!sourceWallet.canSend()) {
+      throw new BadRequestException('Wallet is frozen; outgoing transfers are blocked');
+    }
+
+    const claimable = this.claimableTransferRepository.create({
+      senderId: sender.id,
+      sourceWalletId: walletId,
+      recipientType: parsed.kind === 'EMAIL' ? ClaimableRecipientType.EMAIL : ClaimableRecipientType.PHONE,
+      recipient: parsed.value,
+      amount: Money.fromDecimal(amount).toString(),
+      currency: sourceWallet.currency,
+      description,
+      expiresAt: this.parseExpiresAt(expiresAt),
+    });
+
+    const hold = await this.reserveFunds(claimable, sender);
+    claimable.holdId = hold.id;
+
+    try {
+      await this.claimableTransferRepository.save(claimable);
+    } catch (error) {
+      await this.holdService.releaseHoldById(hold.id);
+      throw error;
+    }
+
+    this.logger.log(
+      `Claimable transfer ${claimable.id} created: sender=${sender.id}, ` +
+      `recipient=${claimable.recipientType}, amount=${amount} ${claimable.currency}`
+    );
+
+    return this.mapToClaimableTransferResponseDto(claimable);
+  }
+
+  async getSentTransfers(senderId: string, query: ClaimableTransferQueryDto): Promise<ClaimableTransferResponseDto[]> {
+    const transfers = await this.claimableTransferRepository.find({
+      where: query.status ? { senderId, status: query.status } : { senderId },
+      order: { createdAt: 'DESC' },
+      take: 100,
+    });
+
+    return transfers.map(claimable => this.mapToClaimableTransferResponseDto(claimable));
+  }
+
+  /**
+   * Transfers sent to the caller's verified email or phone number
+   */
+  async getIncomingTransfers(user: User, query: ClaimableTransferQueryDto): Promise<ClaimableTransferResponseDto[]> {
+    const contacts = this.getVerifiedContacts(user);
+    if (contacts.length === 0) {
+      return [];
+    }
+
+    const transfers = await this.claimableTransferRepository.find({
+      where: contacts.map(contact => (query.status ? { ...contact, status: query.status } : contact)),
+      order: { createdAt: 'DESC' },
+      take: 100,
+    });
+
+    return transfers.map(claimable => this.mapToClaimableTransferResponseDto(claimable));
+  }
+
+  async getClaimableTransfer(id: string, user: User): Promise<ClaimableTransferResponseDto> {
+    const claimable = await this.findClaimableTransfer(id);
+
+    if (claimable.senderId !== user.id && !this.isRecipient(claimable, user)) {
+      throw new NotFoundException('Claimable transfer not found');
+    }
+
+    return this.mapToClaimableTransferResponseDto(claimable);
+  }
+
+  /**
+   * Claim a transfer sent to one of the caller's verified contacts. The hold is
+   * released and the money moves through the regular transfer path; if that
+   * fails the funds are reserved again and the transfer stays claimable.
+   */
+  async claimTransfer(id: string, user: User, claimTransferDto: ClaimTransferDto): Promise<ClaimableTransferResponseDto> {
+    const claimable = await this.findClaimableTransfer(id);
+
+    if (!this.isRecipient(claimable, user)) {
+      throw new NotFoundException('Claimable transfer not found');
+    }
+
+    await this.assertPending(claimable);
+
+    const destinationWallet = claimTransferDto.walletId
+      ? await this.walletRepository.findOne({ where: { id: claimTransferDto.walletId, userId: user.id, isActive: true } })
+      : await this.aliasService.findReceivingWallet(user.id, claimable.currency);
+
+    if (!destinationWallet) {
+      throw claimTransferDto.walletId
+        ? new NotFoundException('Wallet not found')
+        : new BadRequestException(`You need an active ${claimable.currency} wallet to claim this transfer`);
+    }
+
+    if (destinationWallet.currency !== claimable.currency) {
+      throw new BadRequestException(`This transfer must be claimed into a ${claimable.currency} wallet`);
+    }
+
+    const sender = await this.userRepository.findOne({ where: { id: claimable.senderId, isActive: true } });
+    if (!sender) {
+      throw new BadRequestException('Sender account is inactive');
+    }
+
+    // Claim the row so it cannot be claimed twice or cancelled mid-transfer
+    const attempt = claimable.attemptCount + 1;
+    const claimed = await this.claimableTransferRepository.update(
+      { id, status: ClaimableTransferStatus.PENDING, attemptCount: claimable.attemptCount },
+      {
+        status: ClaimableTransferStatus.CLAIMING,
+        attemptCount: attempt,
+        claimedById: user.id,
+        destinationWalletId: destinationWallet.id,
+        claimStartedAt: new Date(),
+      },
+    );
+
+    if (!claimed.affected) {
+      throw new ConflictException('Claimable transfer is already being processed');
+    }
+    claimable.attemptCount = attempt;
+
+    // The transfer checks available balance, so the reservation has to go first
+    await this.holdService.releaseHoldById(claimable.holdId);
+
+    const idempotencyKey = this.getIdempotencyKey(id, attempt);
+
+    try {
+      const result = await this.transferService.transferFunds(claimable.sourceWalletId, sender, {
+        destinationWalletId: destinationWallet.id,
+        amount: claimable.amount,
+        description: claimable.description || 'Claimed transfer',
+        idempotencyKey,
+      });
+
+      await this.claimableTransferRepository.update(id, {
+        status: ClaimableTransferStatus.CLAIMED,
+        transactionId: result.id,
+        failureCode: null,
+        failureReason: null,
+        claimStartedAt: null,
+        completedAt: new Date(),
+      });
+
+      this.logger.log(`Claimable transfer ${id} claimed by ${user.id} as transaction ${result.id}`);
+
+    } catch (error) {
+      if (error instanceof ConflictException) {
+        // Left to the reconciler, which settles the claim from its transfer
+        throw error;
+      }
+
+      const failure = describeTransferFailure(error);
+      const transaction = await this.transferService.getTransactionByIdempotencyKey(idempotencyKey);
+
+      await this.reinstate(claimable, sender, {
+        transactionId: transaction?.id || null,
+        failureCode: failure.code,
+        failureReason: failure.reason,
+      });
+
+      this.logger.warn(`Claim of transfer ${id} failed (${failure.code}): ${failure.reason}`);
+      throw error;
+    }
+
+    return this.getClaimableTransfer(id, user);
+  }
+
+  /**
+   * Take back an unclaimed transfer, releasing the reserved funds
+   */
+  async cancelClaimableTransfer(id: string, sender: User): Promise<ClaimableTransferResponseDto> {
+    const claimable = await this.findClaimableTransfer(id);
+
+    if (claimable.senderId !== sender.id) {
+      if (this.isRecipient(claimable, sender)) {
+        throw new ForbiddenException('Only the sender can cancel a claimable transfer');
+      }
+      throw new NotFoundException('Claimable transfer not found');
+    }
+
+    await this.assertPending(claimable);
+
+    const result = await this.claimableTransferRepository.update(
+      { id, status: ClaimableTransferStatus.PENDING },
+      { status: ClaimableTransferStatus.CANCELLED, completedAt: new Date() },
+    );
+
+    if (!result.affected) {
+      throw new ConflictException('Claimable transfer is already being processed');
+    }
+
+    await this.holdService.releaseHoldById(claimable.holdId);
+    this.logger.log(`Claimable transfer ${id} cancelled by sender`);
+
+    return this.getClaimableTransfer(id, sender);
+  }
+
+  /**
+   * Expire unclaimed transfers past their expiry, returning the funds to their senders
+   */
+  async expireTransfers(): Promise<number> {
+    const overdue = await this.claimableTransferRepository.find({
+      where: { status: ClaimableTransferStatus.PENDING, expiresAt: LessThan(new Date()) },
+      take: 100,
+    });
+
+    let expired = 0;
+    for (const claimable of overdue) {
+      if (await this.expire(claimable)) {
+        expired++;
+      }
+    }
+
+    return expired;
+  }
+
+  /**
+   * Settle claims that died mid-transfer from the state of their transfer
+   */
+  async reconcileStaleClaims(staleBefore: Date): Promise<number> {
+    const stale = await this.claimableTransferRepository.find({
+      where: { status: ClaimableTransferStatus.CLAIMING, claimStartedAt: LessThan(staleBefore) },
+      take: 50,
+    });
+
+    let reconciled = 0;
+    for (const claimable of stale) {
+      const transaction = await this.transferService.getTransactionByIdempotencyKey(
+        this.getIdempotencyKey(claimable.id, claimable.attemptCount),
+      );
+
+      if (transaction?.isInProgress()) {
+        continue;
+      }
+
+      if (transaction?.status === TransactionStatus.COMPLETED) {
+        const result = await this.claimableTransferRepository.update(
+          { id: claimable.id, status: ClaimableTransferStatus.CLAIMING, attemptCount: claimable.attemptCount },
+          { status: ClaimableTransferStatus.CLAIMED, transactionId: transaction.id, claimStartedAt: null, completedAt: new Date() },
+        );
+        if (result.affected) reconciled++;
+        continue;
+      }
+
+      const sender = await this.userRepository.findOne({ where: { id: claimable.senderId } });
+      if (await this.reinstate(claimable, sender, { transactionId: transaction?.id || null })) {
+        reconciled++;
+      }
+    }
+
+    return reconciled;
+  }
+
+  /**
+   * Reserve the amount plus the fee the claim will be charged
+   */
+  private async reserveFunds(claimable: ClaimableTransfer, sender: User): Promise<FundHold> {
+    const fee = await this.feeService.calculateFee({
+      transactionType: TransactionType.TRANSFER,
+      currency: claimable.currency,
+      userTier: sender.tier,
+      amount: claimable.amount,
+    });
+
+    try {
+      return await this.holdService.placeHold({
+        walletId: claimable.sourceWalletId,
+        amount: Money.fromDecimal(claimable.amount).add(Money.fromDecimal(fee.amount)).toString(),
+        expiresAt: claimable.expiresAt,
+        reason: 'Claimable transfer',
+      });
+    } catch (error) {
+      throw new BadRequestException('Insufficient balance');
+    }
+  }
+
+  /**
+   * Put a claim that did not go through back to pending with its funds reserved again.
+   * If they are gone the transfer fails, since it could no longer be paid.
+   */
+  private async reinstate(
+    claimable: ClaimableTransfer,
+    sender: User,
+    changes: Partial<ClaimableTransfer>,
+  ): Promise<boolean> {
+    let next: Partial<ClaimableTransfer>;
+
+    try {
+      const hold = await this.reserveFunds(claimable, sender);
+      next = { ...changes, status: ClaimableTransferStatus.PENDING, holdId: hold.id, claimedById: null, destinationWalletId: null };
+    } catch (error) {
+      next = {
+        ...changes,
+        status: ClaimableTransferStatus.FAILED,
+        failureCode: 'insufficient_balance',
+        failureReason: 'Reserved funds could not be reinstated after a failed claim',
+        completedAt: new Date(),
+      };
+    }
+
+    const result = await this.claimableTransferRepository.update(
+      { id: claimable.id, status: ClaimableTransferStatus.CLAIMING, attemptCount: claimable.attemptCount },
+      { ...next, claimStartedAt: null },
+    );
+
+    if (!result.affected && next.holdId) {
+      await this.holdService.releaseHoldById(next.holdId);
+    }
+
+    return !!result.affected;
+  }
+
+  private async expire(claimable: ClaimableTransfer): Promise<boolean> {
+    const result = await this.claimableTransferRepository.update(
+      { id: claimable.id, status: ClaimableTransferStatus.PENDING },
+      { status: ClaimableTransferStatus.EXPIRED, completedAt: new Date() },
+    );
+
+    if (!result.affected) {
+      return false;
+    }
+
+    await this.holdService.releaseHoldById(claimable.holdId);
+    this.logger.log(`Claimable transfer ${claimable.id} expired; funds returned to wallet ${claimable.sourceWalletId}`);
+    return true;
+  }
+
+  private async findClaimableTransfer(id: string): Promise<ClaimableTransfer> {
+    const claimable = await this.claimableTransferRepository.findOne({ where: { id } });
+
+    if (!claimable) {
+      throw new NotFoundException('Claimable transfer not found');
+    }
+
+    return claimable;
+  }
+
+  private async assertPending(claimable: ClaimableTransfer): Promise<void> {
+    if (claimable.isExpired()) {
+      await this.expire(claimable);
+      throw new BadRequestException('Claimable transfer has expired');
+    }
+
+    if (claimable.status !== ClaimableTransferStatus.PENDING) {
+      throw new BadRequestException(`Claimable transfer is ${claimable.status}`);
+    }
+  }
+
+  private getVerifiedContacts(user: User): Array<Pick<ClaimableTransfer, 'recipientType' | 'recipient'>> {
+    const contacts: Array<Pick<ClaimableTransfer, 'recipientType' | 'recipient'>> = [];
+
+    if (user.emailVerifiedAt) {
+      contacts.push({ recipientType: ClaimableRecipientType.EMAIL, recipient: user.email.toLowerCase() });
+    }
+
+    // Phone numbers are stored normalized when verified
+    if (user.phoneVerifiedAt && user.phoneNumber) {
+      contacts.push({ recipientType: ClaimableRecipientType.PHONE, recipient: user.phoneNumber });
+    }
+
+    return contacts;
+  }
+
+  private isRecipient(claimable: ClaimableTransfer, user: User): boolean {
+    return this.getVerifiedContacts(user).some(
+      contact => contact.recipientType === claimable.recipientType && contact.recipient === claimable.recipient,
+    );
+  }
+
+  private parseExpiresAt(expiresAt?: string): Date {
+    if (!expiresAt) {
+      const ttlHours = Number(this.configService.get('CLAIMABLE_TRANSFER_TTL_HOURS', 168));
+      return new Date(Date.now() + ttlHours * 60 * 60 * 1000);
+    }
+
+    const expiry = new Date(expiresAt);
+    if (expiry.getTime() <= Date.now()) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+
+    return expiry;
+  }
+
+  private getIdempotencyKey(id: string, attempt: number): string {
+    return `claimable-transfer:${id}:${attempt}`;
+  }
+
+  private mapToClaimableTransferResponseDto(claimable: ClaimableTransfer): ClaimableTransferResponseDto {
+    return {
+      id: claimable.id,
+      senderId: claimable.senderId,
+      sourceWalletId: claimable.sourceWalletId,
+      recipientType: claimable.recipientType,
+      recipient: claimable.recipient,
+      amount: claimable.amount,
+      currency: claimable.currency,
+      description: claimable.description || null,
+      status: claimable.status,
+      expiresAt: claimable.expiresAt,
+      claimedById: claimable.claimedById || null,
+      destinationWalletId: claimable.destinationWalletId || null,
+      transactionId: claimable.transactionId || null,
+      failureCode: claimable.failureCode || null,
+      failureReason: claimable.failureReason || null,
+      completedAt: claimable.completedAt || null,
+      createdAt: claimable.createdAt,
+    };
+  }
+}
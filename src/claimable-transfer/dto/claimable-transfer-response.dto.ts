@@ -0,0 +1,55 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ClaimableTransferStatus, ClaimableRecipientType } from '../../database/entities/claimable-transfer.entity';
+
+export class ClaimableTransferResponseDto {
+  @ApiProperty({ example: 'uuid-string' })
+  id: string;
+
+  @ApiProperty({ example: 'uuid-of-sender' })
+  senderId: string;
+
+  @ApiProperty({ example: 'uuid-of-source-wallet' })
+  sourceWalletId: string;
+
+  @ApiProperty({ example: 'EMAIL', enum: ClaimableRecipientType })
+  recipientType: ClaimableRecipientType;
+
+  @ApiProperty({ example: 'friend@example.com' })
+  recipient: string;
+
+  @ApiProperty({ example: '25.00' })
+  amount: string;
+
+  @ApiProperty({ example: 'USD' })
+  currency: string;
+
+  @ApiProperty({ example: 'Concert tickets', nullable: true })
+  description: string | null;
+
+  @ApiProperty({ example: 'PENDING', enum: ClaimableTransferStatus })
+  status: ClaimableTransferStatus;
+
+  @ApiProperty({ example: '2024-01-22T00:00:00Z' })
+  expiresAt: Date;
+
+  @ApiProperty({ example: 'uuid-of-recipient', nullable: true })
+  claimedById: string | null;
+
+  @ApiProperty({ example: 'uuid-of-destination-wallet', nullable: true })
+  destinationWalletId: string | null;
+
+  @ApiProperty({ example: 'uuid-of-transaction', nullable: true })
+  transactionId: string | null;
+
+  @ApiProperty({ example: 'limit_exceeded', nullable: true, description: 'Why the last claim attempt failed' })
+  failureCode: string | null;
+
+  @ApiProperty({ example: 'Daily transfer limit exceeded', nullable: true })
+  failureReason: string | null;
+
+  @ApiProperty({ example: '2024-01-16T10:00:00Z', nullable: true })
+  completedAt: Date | null;
+
+  @ApiProperty({ example: '2024-01-15T10:00:00Z' })
+  createdAt: Date;
+}
@@ -0,0 +1,50 @@
+import { IsUUID, IsOptional, IsString, IsNotEmpty, IsDateString, IsEnum, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { ClaimableTransferStatus } from '../../database/entities/claimable-transfer.entity';
+import { IsMoneyAmount } from '../../common/money/is-money-amount.decorator';
+
+export class CreateClaimableTransferDto {
+  @ApiProperty({ example: 'uuid-of-your-wallet', description: 'Wallet the money is reserved on and later paid from' })
+  @IsUUID()
+  walletId: string;
+
+  @ApiProperty({ example: 'friend@example.com', description: 'Email address or phone number without a verified account' })
+  @IsString()
+  @IsNotEmpty()
+  recipient: string;
+
+  @ApiProperty({ example: 25.00 })
+  @IsMoneyAmount()
+  @Type(() => Number)
+  amount: number;
+
+  @ApiProperty({ example: 'Concert tickets', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  description?: string;
+
+  @ApiProperty({ example: '2024-01-22T00:00:00Z', required: false, description: 'Defaults to CLAIMABLE_TRANSFER_TTL_HOURS from now' })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
+
+export class ClaimTransferDto {
+  @ApiProperty({
+    example: 'uuid-of-your-wallet',
+    required: false,
+    description: 'Wallet to receive into; defaults to your receiving wallet in the transfer currency',
+  })
+  @IsOptional()
+  @IsUUID()
+  walletId?: string;
+}
+
+export class ClaimableTransferQueryDto {
+  @ApiProperty({ required: false, enum: ClaimableTransferStatus })
+  @IsOptional()
+  @IsEnum(ClaimableTransferStatus)
+  status?: ClaimableTransferStatus;
+}
@@ -1,23 +1,66 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { APP_INTERCEPTOR } from '@nestjs/core';
 import { IdempotencyService } from './services/idempotency.service';
+import { IdempotencyInterceptor } from './interceptors/idempotency.interceptor';
 import { SagaService } from './services/saga.service';
+import { LedgerService } from './services/ledger.service';
+import { HoldService } from './services/hold.service';
+import { DirectTransferService } from './services/direct-transfer.service';
+import { OutboxService } from './services/outbox.service';
+import { RealtimePublisherService } from './services/realtime-publisher.service';
+import { SagaRecoveryService } from './services/saga-recovery.service';
+import { SagaRegistryService } from './services/saga-registry.service';
+import { TransferSaga } from './sagas/transfer.saga';
+import { RefundSaga } from './sagas/refund.saga';
+import { EscrowSaga } from './sagas/escrow.saga';
+import { AuthorizationSaga } from './sagas/authorization.saga';
+import { DelayedTransferSaga } from './sagas/delayed-transfer.saga';
 import { Transaction } from '../database/entities/transaction.entity';
 import { Wallet } from '../database/entities/wallet.entity';
+import { JournalEntry } from '../database/entities/journal-entry.entity';
+import { LedgerPosting } from '../database/entities/ledger-posting.entity';
+import { FundHold } from '../database/entities/fund-hold.entity';
+import { OutboxEvent } from '../database/entities/outbox-event.entity';
 import { CacheModule } from '../cache/cache.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Transaction, Wallet]),
+    TypeOrmModule.forFeature([Transaction, Wallet, JournalEntry, LedgerPosting, FundHold, OutboxEvent]),
     CacheModule,
   ],
   providers: [
     IdempotencyService,
+    { provide: APP_INTERCEPTOR, useClass: IdempotencyInterceptor },
+    SagaRegistryService,
     SagaService,
+    TransferSaga,
+    RefundSaga,
+    EscrowSaga,
+    AuthorizationSaga,
+    DelayedTransferSaga,
+    LedgerService,
+    HoldService,
+    DirectTransferService,
+    OutboxService,
+    RealtimePublisherService,
+    SagaRecoveryService,
   ],
   exports: [
     IdempotencyService,
+    SagaRegistryService,
     SagaService,
+    TransferSaga,
+    RefundSaga,
+    EscrowSaga,
+    AuthorizationSaga,
+    DelayedTransferSaga,
+    LedgerService,
+    HoldService,
+    DirectTransferService,
+    OutboxService,
+    RealtimePublisherService,
+    SagaRecoveryService,
   ],
 })
 export class CommonModule {} 
\ No newline at end of file
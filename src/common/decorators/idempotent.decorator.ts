@@ -0,0 +1,22 @@
+import { applyDecorators, SetMetadata } from '@nestjs/common';
+import { ApiHeader, ApiResponse } from '@nestjs/swagger';
+
+export const IDEMPOTENT_METADATA = 'idempotent';
+
+/**
+ * Make a route honour the Idempotency-Key header: a repeat with the same key and
+ * body gets the first response back instead of running again. Handled by
+ * IdempotencyInterceptor, which is registered globally.
+ */
+export function Idempotent() {
+  return applyDecorators(
+    SetMetadata(IDEMPOTENT_METADATA, true),
+    ApiHeader({
+      name: 'Idempotency-Key',
+      description: 'Optional key; repeating a request with it returns the original response',
+      required: false,
+    }),
+    ApiResponse({ status: 409, description: 'A request with this Idempotency-Key is still being processed' }),
+    ApiResponse({ status: 422, description: 'Idempotency-Key was already used for a different request' }),
+  );
+}
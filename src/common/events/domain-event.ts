@@ -0,0 +1,38 @@
+/**
+ * Domain events written to the outbox in the same DB transaction as the change they describe
+ */
+export enum DomainEventType {
+  TRANSFER_COMPLETED = 'TransferCompleted',
+  TRANSFER_FAILED = 'TransferFailed',
+  TRANSFER_CANCELLED = 'TransferCancelled',
+  REFUND_COMPLETED = 'RefundCompleted',
+  REFUND_FAILED = 'RefundFailed',
+  FUNDS_DEPOSITED = 'FundsDeposited',
+  DEPOSIT_FAILED = 'DepositFailed',
+  WITHDRAWAL_COMPLETED = 'WithdrawalCompleted',
+  WITHDRAWAL_FAILED = 'WithdrawalFailed',
+  SAGA_COMPENSATED = 'SagaCompensated',
+  WALLET_STATUS_CHANGED = 'WalletStatusChanged',
+}
+
+export enum AggregateType {
+  TRANSACTION = 'transaction',
+  WALLET = 'wallet',
+}
+
+export interface DomainEventInput {
+  type: DomainEventType;
+  aggregateType: AggregateType;
+  aggregateId: string;
+  payload: Record<string, any>;
+}
+
+/**
+ * An event as delivered to consumers. Position orders all events and only grows;
+ * delivery is at least once, so consumers should dedupe on id.
+ */
+export interface DomainEvent extends DomainEventInput {
+  id: string;
+  position: number;
+  occurredAt: Date;
+}
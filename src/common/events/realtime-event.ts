@@ -0,0 +1,18 @@
+// Redis pub/sub channel every app instance listens on to push updates to its clients
+export const REALTIME_CHANNEL = 'wallet-updates';
+
+export enum RealtimeEventType {
+  BALANCE_CHANGED = 'balance',
+  TRANSFER_RECEIVED = 'transfer.received',
+  TRANSFER_STATE_CHANGED = 'transfer.state',
+}
+
+/**
+ * An update pushed to the clients watching walletId
+ */
+export interface RealtimeEvent {
+  type: RealtimeEventType;
+  walletId: string;
+  data: Record<string, any>;
+  occurredAt: string;
+}
@@ -0,0 +1,170 @@
+import { BadRequestException, CallHandler, ConflictException, ExecutionContext, InternalServerErrorException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { lastValueFrom, of, throwError } from 'rxjs';
+import { IdempotencyService } from '../services/idempotency.service';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+
+describe('IdempotencyInterceptor', () => {
+  let store: Map<string, string>;
+  let interceptor: IdempotencyInterceptor;
+
+  // A route marked @Idempotent() being called
+  const call = (
+    handler: CallHandler['handle'],
+    { key = 'key-1', body = { amount: 10 } as unknown, user = { id: 'user-1' } as { id: string } | null } = {},
+  ) => {
+    const request = { method: 'POST', originalUrl: '/transfers', headers: { 'idempotency-key': key }, body, user };
+    const response = { statusCode: 201, headers: {} as Record<string, string>, setHeader: jest.fn(), status: jest.fn() };
+    response.setHeader.mockImplementation((name: string, value: string) => (response.headers[name] = value));
+    response.status.mockImplementation((statusCode: number) => (response.statusCode = statusCode));
+
+    const context = {
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({ getRequest: () => request, getResponse: () => response }),
+    } as unknown as ExecutionContext;
+
+    const result = lastValueFrom(interceptor.intercept(context, { handle: handler }));
+    return { result, response };
+  };
+
+  beforeEach(() => {
+    store = new Map();
+    const cacheService = {
+      get: jest.fn(async (key: string) => store.get(key) ?? null),
+      set: jest.fn(async (key: string, value: string) => void store.set(key, value)),
+      setIfAbsent: jest.fn(async (key: string, value: string) => {
+        if (store.has(key)) return false;
+        store.set(key, value);
+        return true;
+      }),
+      del: jest.fn(async (key: string) => void store.delete(key)),
+    };
+    const reflector = { getAllAndOverride: jest.fn(() => true) } as unknown as Reflector;
+
+    interceptor = new IdempotencyInterceptor(
+      reflector,
+      new IdempotencyService({} as any, cacheService as any, {} as any, { get: jest.fn((_, fallback) => fallback) } as any),
+    );
+  });
+
+  it('replays the first response to a repeat without running the handler again', async () => {
+    const handler = jest.fn(() => of({ id: 'transfer-1' }));
+
+    await expect(call(handler).result).resolves.toEqual({ id: 'transfer-1' });
+    const repeat = call(handler);
+
+    await expect(repeat.result).resolves.toEqual({ id: 'transfer-1' });
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(repeat.response.headers['Idempotent-Replayed']).toBe('true');
+  });
+
+  it('replays the status code the first response was sent with', async () => {
+    const first = call(() => of({ id: 'transfer-1' }));
+    first.response.statusCode = 200;
+    await first.result;
+
+    const repeat = call(() => of({ id: 'transfer-2' }));
+    await repeat.result;
+
+    expect(repeat.response.status).toHaveBeenCalledWith(200);
+    expect(repeat.response.statusCode).toBe(200);
+  });
+
+  it('treats the same body with its keys in another order as the same request', async () => {
+    const handler = jest.fn(() => of({ id: 'transfer-1' }));
+
+    await call(handler, { body: { amount: 10, description: 'Rent' } }).result;
+    await call(handler, { body: { description: 'Rent', amount: 10 } }).result;
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses a repeat while the first request is still running', async () => {
+    const first = call(() => of({ id: 'transfer-1' }));
+    const handler = jest.fn(() => of({ id: 'transfer-2' }));
+
+    await expect(call(handler).result).rejects.toThrow(ConflictException);
+    expect(handler).not.toHaveBeenCalled();
+    await first.result;
+  });
+
+  it('refuses a key reused for a different request with 422', async () => {
+    await call(() => of({ id: 'transfer-1' })).result;
+
+    await expect(call(() => of({ id: 'transfer-2' }), { body: { amount: 20 } }).result).rejects.toMatchObject({
+      status: 422,
+      message: 'Idempotency-Key was already used for a different request',
+    });
+  });
+
+  it('replays a client error instead of running the request again', async () => {
+    const handler = jest.fn(() => throwError(() => new BadRequestException('Insufficient balance')));
+
+    await expect(call(handler).result).rejects.toThrow('Insufficient balance');
+    await expect(call(handler).result).rejects.toMatchObject({ status: 400, message: 'Insufficient balance' });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets a request that hit a server error be retried with the same key', async () => {
+    const handler = jest.fn()
+      .mockReturnValueOnce(throwError(() => new InternalServerErrorException()))
+      .mockReturnValueOnce(of({ id: 'transfer-1' }));
+
+    await expect(call(handler).result).rejects.toThrow(InternalServerErrorException);
+    await expect(call(handler).result).resolves.toEqual({ id: 'transfer-1' });
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the keys of different users apart', async () => {
+    const handler = jest.fn(() => of({ id: 'transfer-1' }));
+
+    await call(handler, { user: { id: 'user-1' } }).result;
+    await call(handler, { user: { id: 'user-2' } }).result;
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  describe('without a signed-in user', () => {
+    const anonymous = { user: null, body: { email: 'new@example.com' } };
+
+    it('replays a repeat of the same request', async () => {
+      const handler = jest.fn(() => of({ accessToken: 'token-1' }));
+
+      await call(handler, anonymous).result;
+      const repeat = call(handler, anonymous);
+
+      await expect(repeat.result).resolves.toEqual({ accessToken: 'token-1' });
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(repeat.response.headers['Idempotent-Replayed']).toBe('true');
+    });
+
+    it('refuses a repeat while the first request is still running', async () => {
+      const first = call(() => of({ accessToken: 'token-1' }), anonymous);
+
+      await expect(call(() => of({ accessToken: 'token-2' }), anonymous).result).rejects.toThrow(ConflictException);
+      await first.result;
+    });
+
+    it('refuses a key reused for a different body with 422', async () => {
+      await call(() => of({ accessToken: 'token-1' }), anonymous).result;
+
+      await expect(
+        call(() => of({ accessToken: 'token-2' }), { ...anonymous, body: { email: 'other@example.com' } }).result,
+      ).rejects.toMatchObject({ status: 422 });
+    });
+
+    it('keeps anonymous keys apart from a signed-in user\'s', async () => {
+      const handler = jest.fn(() => of({ id: 'transfer-1' }));
+
+      await call(handler, anonymous).result;
+      await call(handler, { ...anonymous, user: { id: 'user-1' } }).result;
+
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  it('refuses a key longer than 255 characters', async () => {
+    expect(() => call(() => of({}), { key: 'k'.repeat(256) })).toThrow(BadRequestException);
+  });
+});
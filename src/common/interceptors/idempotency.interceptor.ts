@@ -0,0 +1,95 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+  HttpException,
+  HttpStatus,
+  BadRequestException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Observable, of, throwError, from } from 'rxjs';
+import { mergeMap, map, catchError } from 'rxjs/operators';
+import { IdempotencyService } from '../services/idempotency.service';
+import { IDEMPOTENT_METADATA } from '../decorators/idempotent.decorator';
+
+const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+const REPLAYED_HEADER = 'Idempotent-Replayed';
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Applies Idempotency-Key handling to routes marked @Idempotent(). Keys are scoped
+ * to the authenticated user, or for anonymous callers to the route they were sent
+ * to. Successful responses and client errors are stored and replayed; after a
+ * server error the key is released for a retry.
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  constructor(
+    private reflector: Reflector,
+    private idempotencyService: IdempotencyService,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    const isIdempotent = this.reflector.getAllAndOverride<boolean>(IDEMPOTENT_METADATA, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    const request = context.switchToHttp().getRequest();
+    const key = request.headers[IDEMPOTENCY_KEY_HEADER];
+    if (!isIdempotent || !key) {
+      return next.handle();
+    }
+
+    if (typeof key !== 'string' || key.length > MAX_KEY_LENGTH) {
+      throw new BadRequestException(`Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`);
+    }
+
+    const response = context.switchToHttp().getResponse();
+    // Anonymous keys live apart from user ids, and a replay still needs the same body
+    const scope = request.user?.id ?? `anonymous:${request.method}:${request.originalUrl}`;
+    const fingerprint = this.idempotencyService.createFingerprint(request.method, request.originalUrl, request.body);
+
+    return from(this.idempotencyService.beginRequest(scope, key, fingerprint)).pipe(
+      mergeMap(stored => {
+        if (stored) {
+          response.setHeader(REPLAYED_HEADER, 'true');
+
+          if (stored.isError) {
+            return throwError(() => new HttpException(stored.body, stored.statusCode));
+          }
+
+          // Nest only sets the route's status before handling, so this one is sent
+          response.status(stored.statusCode);
+          return of(stored.body);
+        }
+
+        return next.handle().pipe(
+          // Stored before the response goes out, so a repeat can never find it still in flight
+          mergeMap(body => from(this.idempotencyService.completeRequest(scope, key, {
+            fingerprint,
+            inFlight: false,
+            statusCode: response.statusCode,
+            body,
+          })).pipe(map(() => body))),
+          catchError(error => {
+            const status = error instanceof HttpException ? error.getStatus() : HttpStatus.INTERNAL_SERVER_ERROR;
+
+            const settled = status < HttpStatus.INTERNAL_SERVER_ERROR
+              ? this.idempotencyService.completeRequest(scope, key, {
+                fingerprint,
+                inFlight: false,
+                statusCode: status,
+                body: error.getResponse(),
+                isError: true,
+              })
+              : this.idempotencyService.releaseRequest(scope, key);
+
+            return from(settled).pipe(mergeMap(() => throwError(() => error)));
+          }),
+        );
+      }),
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { Raw } from 'typeorm';
+import { DecimalTransformer, moneyTransformer } from './decimal.transformer';
+import { Money } from './money';
+
+describe('moneyTransformer', () => {
+  it('reads decimal columns as exact two-place strings', () => {
+    expect(moneyTransformer.from('12.3')).toBe('12.30');
+    expect(moneyTransformer.from('1234567890123.45')).toBe('1234567890123.45');
+    expect(moneyTransformer.from(null)).toBeNull();
+  });
+
+  it('writes Money, strings and client numbers as exact decimal strings', () => {
+    expect(moneyTransformer.to(Money.fromMinorUnits(1230))).toBe('12.30');
+    expect(moneyTransformer.to('0.1')).toBe('0.10');
+    expect(moneyTransformer.to(19.99)).toBe('19.99');
+  });
+
+  it('leaves nulls and find operators untouched', () => {
+    const operator = Raw(alias => `${alias} > 0`);
+
+    expect(moneyTransformer.to(null)).toBeNull();
+    expect(moneyTransformer.to(operator)).toBe(operator);
+  });
+});
+
+describe('DecimalTransformer', () => {
+  it('reads rates back as numbers', () => {
+    const transformer = new DecimalTransformer(6);
+
+    expect(transformer.from('0.915400')).toBe(0.9154);
+    expect(transformer.to(0.9154)).toBe('0.915400');
+  });
+});
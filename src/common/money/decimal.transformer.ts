@@ -0,0 +1,49 @@
+import { ValueTransformer } from 'typeorm';
+import { Money } from './money';
+
+/**
+ * Postgres returns decimal columns as strings; read rates and percentages back
+ * as numbers and write them as exact decimal strings.
+ */
+export class DecimalTransformer implements ValueTransformer {
+  constructor(private readonly scale: number) {}
+
+  to(value: unknown): unknown {
+    // Leave nulls, raw SQL functions and find operators untouched
+    if (typeof value !== 'number' && typeof value !== 'string') {
+      return value;
+    }
+
+    return Number(value).toFixed(this.scale);
+  }
+
+  from(value: string | null): number | null {
+    return value === null || value === undefined ? null : Number(value);
+  }
+}
+
+/**
+ * For decimal(15,2) money columns. Amounts stay exact decimal strings such as
+ * "12.30" on the entity; a transformer only sees the value, not the row's
+ * currency, so arithmetic goes through Money.fromDecimal(value, currency).
+ */
+export class MoneyTransformer implements ValueTransformer {
+  to(value: unknown): unknown {
+    if (value instanceof Money) {
+      return value.toString();
+    }
+
+    // Leave nulls, raw SQL functions and find operators untouched
+    if (typeof value !== 'number' && typeof value !== 'string') {
+      return value;
+    }
+
+    return Money.fromDecimal(value).toString();
+  }
+
+  from(value: string | null): string | null {
+    return value === null || value === undefined ? null : Money.fromDecimal(value).toString();
+  }
+}
+
+export const moneyTransformer = new MoneyTransformer();
@@ -0,0 +1,24 @@
+import { registerDecorator, ValidationOptions } from 'class-validator';
+import { Money, MAX_MONEY_AMOUNT } from './money';
+
+/**
+ * A positive amount with at most two decimal places that fits a decimal(15,2) column
+ */
+export function IsMoneyAmount(validationOptions?: ValidationOptions) {
+  return function (object: object, propertyName: string) {
+    registerDecorator({
+      name: 'isMoneyAmount',
+      target: object.constructor,
+      propertyName,
+      options: {
+        message: `${propertyName} must be a positive amount with at most 2 decimal places, up to ${MAX_MONEY_AMOUNT}`,
+        ...validationOptions,
+      },
+      validator: {
+        validate(value: unknown): boolean {
+          return Money.isValidAmount(value);
+        },
+      },
+    });
+  };
+}
@@ -0,0 +1,77 @@
+import { Money } from './money';
+
+describe('Money', () => {
+  describe('fromDecimal', () => {
+    it('parses Postgres decimal strings without float rounding', () => {
+      expect(Money.fromDecimal('0.29').minorUnits).toBe(29);
+      expect(Money.fromDecimal('1234567890123.45').minorUnits).toBe(123456789012345);
+      expect(Money.fromDecimal('-12.30').minorUnits).toBe(-1230);
+    });
+
+    it('takes client numbers at the value they were sent as', () => {
+      // 0.1 + 0.2 !== 0.3 as floats, but each parses exactly
+      expect(Money.fromDecimal(0.1).add(Money.fromDecimal(0.2)).equals(Money.fromDecimal(0.3))).toBe(true);
+      expect(Money.fromDecimal(19.99).minorUnits).toBe(1999);
+    });
+
+    it('rounds half up on the first dropped digit', () => {
+      expect(Money.fromDecimal('1.005').minorUnits).toBe(101);
+      expect(Money.fromDecimal('1.004').minorUnits).toBe(100);
+    });
+
+    it('rejects values that are not amounts', () => {
+      expect(() => Money.fromDecimal('abc')).toThrow('Invalid money amount');
+      expect(() => Money.fromDecimal(Number.NaN)).toThrow('Invalid money amount');
+    });
+  });
+
+  describe('arithmetic', () => {
+    it('refuses to mix currencies', () => {
+      expect(() => Money.fromDecimal(1, 'USD').add(Money.fromDecimal(1, 'EUR'))).toThrow('Currency mismatch');
+    });
+
+    it('lets currency-less amounts combine with any currency', () => {
+      expect(Money.fromDecimal(1, 'USD').add(Money.fromDecimal(2)).currency).toBe('USD');
+    });
+
+    it('multiplies by a rate, rounding to whole minor units', () => {
+      expect(Money.fromDecimal('10.00', 'USD').multiply(0.9234, 'EUR').toString()).toBe('9.23');
+    });
+  });
+
+  describe('allocate', () => {
+    it('always adds the parts up to the whole', () => {
+      const parts = Money.fromDecimal('100.00').allocate([1, 1, 1]);
+
+      expect(parts.map(part => part.toString())).toEqual(['33.34', '33.33', '33.33']);
+      expect(parts.reduce((sum, part) => sum.add(part), Money.zero()).toString()).toBe('100.00');
+    });
+
+    it('gives leftover minor units to the largest remainders first', () => {
+      // Exact shares are 1.666.. and 8.333..; the first has the larger remainder
+      const parts = Money.fromMinorUnits(10).allocate([1, 5]);
+
+      expect(parts.map(part => part.minorUnits)).toEqual([2, 8]);
+    });
+
+    it('rejects negative amounts and weights that sum to zero', () => {
+      expect(() => Money.fromMinorUnits(-1).allocate([1])).toThrow();
+      expect(() => Money.fromMinorUnits(1).allocate([0, 0])).toThrow();
+    });
+  });
+
+  describe('isValidAmount', () => {
+    it('accepts positive amounts with at most two decimals', () => {
+      expect(Money.isValidAmount(0.01)).toBe(true);
+      expect(Money.isValidAmount(1.1)).toBe(true);
+      expect(Money.isValidAmount(1.001)).toBe(false);
+      expect(Money.isValidAmount(0)).toBe(false);
+      expect(Money.isValidAmount('5')).toBe(false);
+    });
+  });
+
+  it('formats exact decimal strings', () => {
+    expect(Money.fromMinorUnits(-5).toString()).toBe('-0.05');
+    expect(Money.fromMinorUnits(120).toJSON()).toBe('1.20');
+  });
+});
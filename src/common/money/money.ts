@@ -0,0 +1,183 @@
+// All supported currencies (USD, EUR, GBP) have two decimal places
+export const MINOR_UNIT_DIGITS = 2;
+const MINOR_UNIT_FACTOR = 10 ** MINOR_UNIT_DIGITS;
+
+// Largest amount a decimal(15,2) column can hold
+export const MAX_MONEY_AMOUNT = 9999999999999.99;
+
+// An amount as sent by clients (number) or as carried by entities and DTOs (exact decimal string)
+export type DecimalAmount = number | string;
+
+const DECIMAL_PATTERN = /^(-)?(\d+)(?:\.(\d+))?$/;
+
+/**
+ * An exact amount of money held as integer minor units (cents).
+ * Currency is null for amounts tracked across currencies, such as transfer limits;
+ * arithmetic between two amounts with different currencies throws.
+ */
+export class Money {
+  private constructor(
+    readonly minorUnits: number,
+    readonly currency: string | null,
+  ) {
+    if (!Number.isSafeInteger(minorUnits)) {
+      throw new Error(`Money amount out of range: ${minorUnits} minor units`);
+    }
+  }
+
+  /**
+   * From a decimal amount as stored in Postgres (string) or sent by clients (number)
+   */
+  static fromDecimal(value: DecimalAmount, currency: string | null = null): Money {
+    if (typeof value === 'number') {
+      if (!Number.isFinite(value)) {
+        throw new Error(`Invalid money amount: ${value}`);
+      }
+
+      // The shortest decimal form of a number is what the client sent; exponent forms are scaled instead
+      if (!DECIMAL_PATTERN.test(String(value))) {
+        return new Money(Math.round(value * MINOR_UNIT_FACTOR), currency);
+      }
+    }
+
+    // Parse the digits directly so no float rounding is involved
+    const match = DECIMAL_PATTERN.exec(String(value).trim());
+    if (!match) {
+      throw new Error(`Invalid money amount: ${value}`);
+    }
+
+    const [, sign, whole, fraction = ''] = match;
+    const padded = fraction.padEnd(MINOR_UNIT_DIGITS + 1, '0');
+    let minorUnits = Number(whole) * MINOR_UNIT_FACTOR + Number(padded.slice(0, MINOR_UNIT_DIGITS));
+
+    // Round half up on the first dropped digit
+    if (Number(padded[MINOR_UNIT_DIGITS]) >= 5) {
+      minorUnits += 1;
+    }
+
+    return new Money(sign ? -minorUnits : minorUnits, currency);
+  }
+
+  static fromMinorUnits(minorUnits: number, currency: string | null = null): Money {
+    return new Money(minorUnits, currency);
+  }
+
+  static zero(currency: string | null = null): Money {
+    return new Money(0, currency);
+  }
+
+  /**
+   * Whether a client-supplied value is a positive amount with at most two decimals
+   */
+  static isValidAmount(value: unknown): boolean {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0 || value > MAX_MONEY_AMOUNT) {
+      return false;
+    }
+
+    const scaled = value * MINOR_UNIT_FACTOR;
+    return Math.abs(scaled - Math.round(scaled)) < 1e-6;
+  }
+
+  add(other: Money): Money {
+    return new Money(this.minorUnits + other.minorUnits, this.combineCurrency(other));
+  }
+
+  subtract(other: Money): Money {
+    return new Money(this.minorUnits - other.minorUnits, this.combineCurrency(other));
+  }
+
+  /**
+   * Multiply by a factor such as an FX rate, rounding half up to whole minor units
+   */
+  multiply(factor: number, currency: string | null = this.currency): Money {
+    return new Money(Math.round(this.minorUnits * factor), currency);
+  }
+
+  /**
+   * Split into parts proportional to the weights. Leftover minor units go to the
+   * largest remainders (then the earliest parts), so the parts always add up exactly.
+   */
+  allocate(weights: number[]): Money[] {
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    if (this.minorUnits < 0 || weights.some(weight => weight < 0) || !(totalWeight > 0)) {
+      throw new Error('Can only allocate a non-negative amount by non-negative weights');
+    }
+
+    const exact = weights.map(weight => (this.minorUnits * weight) / totalWeight);
+    const parts = exact.map(share => Math.floor(share));
+
+    let leftover = this.minorUnits - parts.reduce((sum, part) => sum + part, 0);
+    const byRemainder = exact
+      .map((share, index) => ({ index, remainder: share - parts[index] }))
+      .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+
+    for (let i = 0; leftover > 0; i++, leftover--) {
+      parts[byRemainder[i % byRemainder.length].index]++;
+    }
+
+    return parts.map(part => new Money(part, this.currency));
+  }
+
+  negate(): Money {
+    return new Money(-this.minorUnits, this.currency);
+  }
+
+  isZero(): boolean {
+    return this.minorUnits === 0;
+  }
+
+  isPositive(): boolean {
+    return this.minorUnits > 0;
+  }
+
+  isNegative(): boolean {
+    return this.minorUnits < 0;
+  }
+
+  compareTo(other: Money): number {
+    this.combineCurrency(other);
+    return Math.sign(this.minorUnits - other.minorUnits);
+  }
+
+  equals(other: Money): boolean {
+    return this.compareTo(other) === 0;
+  }
+
+  greaterThan(other: Money): boolean {
+    return this.compareTo(other) > 0;
+  }
+
+  lessThan(other: Money): boolean {
+    return this.compareTo(other) < 0;
+  }
+
+  /**
+   * Nearest JS number, for comparing against client-supplied amounts and FX math
+   */
+  toDecimal(): number {
+    return this.minorUnits / MINOR_UNIT_FACTOR;
+  }
+
+  /**
+   * Exact decimal string, e.g. "-12.30", as carried by entity columns, DTOs and cache payloads
+   */
+  toString(): string {
+    const absolute = Math.abs(this.minorUnits);
+    const whole = Math.floor(absolute / MINOR_UNIT_FACTOR);
+    const fraction = String(absolute % MINOR_UNIT_FACTOR).padStart(MINOR_UNIT_DIGITS, '0');
+
+    return `${this.minorUnits < 0 ? '-' : ''}${whole}.${fraction}`;
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+
+  private combineCurrency(other: Money): string | null {
+    if (this.currency && other.currency && this.currency !== other.currency) {
+      throw new Error(`Currency mismatch: ${this.currency} and ${other.currency}`);
+    }
+
+    return this.currency || other.currency;
+  }
+}
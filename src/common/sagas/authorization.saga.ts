@@ -0,0 +1,47 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { TransferState } from '../../database/entities/transaction.entity';
+import { SagaRegistryService, SagaContext } from '../services/saga-registry.service';
+import { TransferSaga } from './transfer.saga';
+import { DomainEventType } from '../events/domain-event';
+
+export const AUTHORIZATION_SAGA = 'authorization';
+
+/**
+ * A merchant payment split in two: the authorization stops once the funds are
+ * reserved, capturing resumes it into the debit and credit legs, voiding
+ * compensates it. A partial capture shrinks the context before resuming.
+ */
+@Injectable()
+export class AuthorizationSaga implements OnModuleInit {
+  private readonly logger = new Logger(AuthorizationSaga.name);
+
+  constructor(
+    private transferSaga: TransferSaga,
+    private sagaRegistry: SagaRegistryService,
+  ) {}
+
+  onModuleInit() {
+    const transferSteps = this.transferSaga.createSteps();
+    const reserveIndex = transferSteps.findIndex(step => step.name === 'reserve_funds');
+
+    this.sagaRegistry.register({
+      name: AUTHORIZATION_SAGA,
+      completedEvent: DomainEventType.TRANSFER_COMPLETED,
+      failedEvent: DomainEventType.TRANSFER_FAILED,
+      steps: [
+        ...transferSteps.slice(0, reserveIndex + 1),
+        {
+          name: 'await_capture',
+          state: TransferState.AUTHORIZED,
+          suspend: true,
+          execute: context => this.awaitCapture(context),
+        },
+        ...transferSteps.slice(reserveIndex + 1),
+      ],
+    });
+  }
+
+  private async awaitCapture(context: SagaContext): Promise<void> {
+    this.logger.debug(`Authorized ${context.amount} for capture on transaction ${context.transactionId}`);
+  }
+}
@@ -0,0 +1,46 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { TransferState } from '../../database/entities/transaction.entity';
+import { SagaRegistryService, SagaContext } from '../services/saga-registry.service';
+import { TransferSaga } from './transfer.saga';
+import { DomainEventType } from '../events/domain-event';
+
+export const DELAYED_TRANSFER_SAGA = 'delayed_transfer';
+
+/**
+ * A transfer that waits out a cancellation window with the funds reserved.
+ * The settlement worker resumes it at settlesAt; a cancel compensates it.
+ */
+@Injectable()
+export class DelayedTransferSaga implements OnModuleInit {
+  private readonly logger = new Logger(DelayedTransferSaga.name);
+
+  constructor(
+    private transferSaga: TransferSaga,
+    private sagaRegistry: SagaRegistryService,
+  ) {}
+
+  onModuleInit() {
+    const transferSteps = this.transferSaga.createSteps();
+    const reserveIndex = transferSteps.findIndex(step => step.name === 'reserve_funds');
+
+    this.sagaRegistry.register({
+      name: DELAYED_TRANSFER_SAGA,
+      completedEvent: DomainEventType.TRANSFER_COMPLETED,
+      failedEvent: DomainEventType.TRANSFER_FAILED,
+      steps: [
+        ...transferSteps.slice(0, reserveIndex + 1),
+        {
+          name: 'await_settlement',
+          state: TransferState.PENDING_SETTLEMENT,
+          suspend: true,
+          execute: context => this.awaitSettlement(context),
+        },
+        ...transferSteps.slice(reserveIndex + 1),
+      ],
+    });
+  }
+
+  private async awaitSettlement(context: SagaContext): Promise<void> {
+    this.logger.debug(`Holding transaction ${context.transactionId} until ${context.metadata.settlesAt}`);
+  }
+}
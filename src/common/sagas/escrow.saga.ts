@@ -0,0 +1,46 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { TransferState } from '../../database/entities/transaction.entity';
+import { SagaRegistryService, SagaContext } from '../services/saga-registry.service';
+import { TransferSaga } from './transfer.saga';
+import { DomainEventType } from '../events/domain-event';
+
+export const ESCROW_SAGA = 'escrow';
+
+/**
+ * A transfer that stops once the funds are reserved. Resuming it runs the
+ * debit and credit legs to the recipient; compensating it releases the hold.
+ */
+@Injectable()
+export class EscrowSaga implements OnModuleInit {
+  private readonly logger = new Logger(EscrowSaga.name);
+
+  constructor(
+    private transferSaga: TransferSaga,
+    private sagaRegistry: SagaRegistryService,
+  ) {}
+
+  onModuleInit() {
+    const transferSteps = this.transferSaga.createSteps();
+    const reserveIndex = transferSteps.findIndex(step => step.name === 'reserve_funds');
+
+    this.sagaRegistry.register({
+      name: ESCROW_SAGA,
+      completedEvent: DomainEventType.TRANSFER_COMPLETED,
+      failedEvent: DomainEventType.TRANSFER_FAILED,
+      steps: [
+        ...transferSteps.slice(0, reserveIndex + 1),
+        {
+          name: 'hold_in_escrow',
+          state: TransferState.ESCROWED,
+          suspend: true,
+          execute: context => this.holdInEscrow(context),
+        },
+        ...transferSteps.slice(reserveIndex + 1),
+      ],
+    });
+  }
+
+  private async holdInEscrow(context: SagaContext): Promise<void> {
+    this.logger.debug(`Holding ${context.amount} in escrow for transaction ${context.transactionId}`);
+  }
+}
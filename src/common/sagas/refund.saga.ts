@@ -0,0 +1,66 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Transaction, TransactionStatus } from '../../database/entities/transaction.entity';
+import { SagaRegistryService, SagaContext } from '../services/saga-registry.service';
+import { TransferSaga } from './transfer.saga';
+import { DomainEventType } from '../events/domain-event';
+
+export const REFUND_SAGA = 'refund';
+
+/**
+ * Moves money back from the original recipient, then records it against the original transfer
+ */
+@Injectable()
+export class RefundSaga implements OnModuleInit {
+  private readonly logger = new Logger(RefundSaga.name);
+
+  constructor(
+    @InjectRepository(Transaction)
+    private transactionRepository: Repository<Transaction>,
+    private transferSaga: TransferSaga,
+    private sagaRegistry: SagaRegistryService,
+  ) {}
+
+  onModuleInit() {
+    this.sagaRegistry.register({
+      name: REFUND_SAGA,
+      completedEvent: DomainEventType.REFUND_COMPLETED,
+      failedEvent: DomainEventType.REFUND_FAILED,
+      steps: [
+        ...this.transferSaga.createSteps(),
+        {
+          name: 'record_refund',
+          timeoutMs: 5000,
+          execute: context => this.recordRefund(context),
+        },
+      ],
+    });
+  }
+
+  /**
+   * Recompute the parent's refunded total; recomputing keeps the step safe to replay
+   */
+  private async recordRefund(context: SagaContext): Promise<void> {
+    const parentTransactionId = context.metadata.parentTransactionId;
+
+    await this.transactionRepository
+      .createQueryBuilder()
+      .update(Transaction)
+      .set({
+        refundedAmount: () =>
+          `(SELECT COALESCE(SUM(refund.amount), 0) FROM transactions refund ` +
+          `WHERE refund."parentTransactionId" = :parentTransactionId ` +
+          `AND (refund.status = :completed OR refund.id = :refundId))`,
+      })
+      .where('id = :parentTransactionId')
+      .setParameters({
+        parentTransactionId,
+        completed: TransactionStatus.COMPLETED,
+        refundId: context.transactionId,
+      })
+      .execute();
+
+    this.logger.debug(`Recorded refund ${context.transactionId} against transaction ${parentTransactionId}`);
+  }
+}
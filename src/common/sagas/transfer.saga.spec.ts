@@ -0,0 +1,70 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { Transaction } from '../../database/entities/transaction.entity';
+import { Wallet, WalletStatus } from '../../database/entities/wallet.entity';
+import { CacheService } from '../../cache/cache.service';
+import { LedgerService } from '../services/ledger.service';
+import { HoldService } from '../services/hold.service';
+import { SagaContext, SagaRegistryService } from '../services/saga-registry.service';
+import { TransferSaga } from './transfer.saga';
+
+describe('TransferSaga', () => {
+  const recipient = Object.assign(new Wallet(), {
+    id: 'recipient-wallet',
+    currency: 'USD',
+    isActive: true,
+    status: WalletStatus.FROZEN,
+    incomingBlocked: true,
+  });
+  const sender = Object.assign(new Wallet(), {
+    id: 'sender-wallet',
+    currency: 'USD',
+    isActive: true,
+    status: WalletStatus.ACTIVE,
+    incomingBlocked: false,
+  });
+
+  let validate: (context: SagaContext) => Promise<void>;
+
+  beforeEach(async () => {
+    const wallets = [recipient, sender];
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        TransferSaga,
+        { provide: getRepositoryToken(Transaction), useValue: {} },
+        {
+          provide: getRepositoryToken(Wallet),
+          useValue: { findOne: jest.fn(async ({ where }) => wallets.find(wallet => wallet.id === where.id) || null) },
+        },
+        { provide: CacheService, useValue: {} },
+        { provide: LedgerService, useValue: {} },
+        { provide: HoldService, useValue: {} },
+        { provide: SagaRegistryService, useValue: { register: jest.fn() } },
+        { provide: DataSource, useValue: {} },
+      ],
+    }).compile();
+
+    const step = moduleRef.get(TransferSaga).createSteps().find(s => s.name === 'validate_transfer');
+    validate = step.execute;
+  });
+
+  // Reversing a transfer sends from its recipient back to its sender
+  const reversalOf = (refundKind: string): SagaContext => ({
+    transactionId: 'refund-transaction',
+    sourceWalletId: recipient.id,
+    destinationWalletId: sender.id,
+    amount: 25,
+    userId: 'admin-user',
+    idempotencyKey: 'reverse-1',
+    metadata: { refundKind },
+  });
+
+  it('lets an admin reversal take money out of a frozen wallet', async () => {
+    await expect(validate(reversalOf('ADMIN_REVERSAL'))).resolves.toBeUndefined();
+  });
+
+  it('still refuses a recipient refund out of a frozen wallet', async () => {
+    await expect(validate(reversalOf('RECIPIENT_REFUND'))).rejects.toThrow('Source wallet is frozen');
+  });
+});
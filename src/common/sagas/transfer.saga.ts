@@ -0,0 +1,460 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, DataSource, EntityManager } from 'typeorm';
+import { Transaction, TransferState } from '../../database/entities/transaction.entity';
+import { Wallet } from '../../database/entities/wallet.entity';
+import { SystemAccount, PostingDirection } from '../../database/entities/ledger-posting.entity';
+import { CacheService } from '../../cache/cache.service';
+import { LedgerService, PostingInput } from '../services/ledger.service';
+import { HoldService } from '../services/hold.service';
+import { DecimalAmount, Money } from '../money/money';
+import { DomainEventType } from '../events/domain-event';
+import {
+  SagaRegistryService,
+  SagaContext,
+  SagaStepDefinition,
+  RetryPolicy,
+} from '../services/saga-registry.service';
+
+export const TRANSFER_SAGA = 'transfer';
+
+// Quoted conversion for a cross-currency transfer, stored as context.metadata.fx
+export interface TransferFx {
+  quoteId: string;
+  rate: number;
+  spread: number;
+  sourceCurrency: string;
+  destinationCurrency: string;
+  destinationAmount: DecimalAmount;
+}
+
+// Fee charged to the sender, stored as context.metadata.fee
+export interface TransferFee {
+  amount: DecimalAmount;
+  currency: string;
+  scheduleId: string | null;
+  revenueWalletId: string;
+}
+
+const DEFAULT_RETRY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 100,
+  maxDelayMs: 2000,
+  jitter: true,
+};
+
+/**
+ * Wallet-to-wallet transfer: reserve, debit into suspense, credit out of suspense,
+ * then move any fee from suspense to the platform revenue wallet
+ */
+@Injectable()
+export class TransferSaga implements OnModuleInit {
+  private readonly logger = new Logger(TransferSaga.name);
+
+  constructor(
+    @InjectRepository(Transaction)
+    private transactionRepository: Repository<Transaction>,
+    @InjectRepository(Wallet)
+    private walletRepository: Repository<Wallet>,
+    private cacheService: CacheService,
+    private ledgerService: LedgerService,
+    private holdService: HoldService,
+    private sagaRegistry: SagaRegistryService,
+    private dataSource: DataSource,
+  ) {}
+
+  onModuleInit() {
+    this.sagaRegistry.register({
+      name: TRANSFER_SAGA,
+      completedEvent: DomainEventType.TRANSFER_COMPLETED,
+      failedEvent: DomainEventType.TRANSFER_FAILED,
+      steps: this.createSteps(),
+    });
+  }
+
+  /**
+   * Transfer steps, exposed so other money flows can compose them. Steps that
+   * hold or move funds carry no timeout: an abandoned step can still commit,
+   * and compensation would never undo it.
+   */
+  createSteps(): SagaStepDefinition[] {
+    return [
+      {
+        name: 'validate_transfer',
+        state: TransferState.VALIDATION_COMPLETE,
+        timeoutMs: 5000,
+        retryPolicy: { ...DEFAULT_RETRY, maxRetries: 3 },
+        execute: context => this.validateTransfer(context),
+      },
+      {
+        name: 'reserve_funds',
+        state: TransferState.FUNDS_RESERVED,
+        retryPolicy: DEFAULT_RETRY,
+        execute: context => this.reserveFunds(context),
+        compensate: context => this.releaseReservedFunds(context),
+      },
+      {
+        name: 'debit_source_wallet',
+        state: TransferState.DEBIT_COMPLETE,
+        retryPolicy: DEFAULT_RETRY,
+        pointOfNoReturn: true,
+        execute: context => this.debitSourceWallet(context),
+        compensate: context => this.creditSourceWallet(context),
+      },
+      {
+        name: 'credit_destination_wallet',
+        state: TransferState.CREDIT_COMPLETE,
+        retryPolicy: DEFAULT_RETRY,
+        execute: context => this.creditDestinationWallet(context),
+        compensate: context => this.debitDestinationWallet(context),
+      },
+      {
+        name: 'collect_fee',
+        state: TransferState.FEE_COLLECTED,
+        retryPolicy: DEFAULT_RETRY,
+        execute: context => this.collectFee(context),
+        compensate: context => this.returnFee(context),
+      },
+      {
+        // Finalization compensation handled by previous steps
+        name: 'finalize_transfer',
+        timeoutMs: 5000,
+        execute: context => this.finalizeTransfer(context),
+      },
+    ];
+  }
+
+  private async validateTransfer(context: SagaContext): Promise<void> {
+    // Validate wallets exist and are active
+    const [sourceWallet, destinationWallet] = await Promise.all([
+      this.walletRepository.findOne({
+        where: { id: context.sourceWalletId, isActive: true },
+      }),
+      this.walletRepository.findOne({
+        where: { id: context.destinationWalletId, isActive: true },
+      }),
+    ]);
+
+    if (!sourceWallet) {
+      throw new Error('Source wallet not found or inactive');
+    }
+
+    if (!destinationWallet) {
+      throw new Error('Destination wallet not found or inactive');
+    }
+
+    // An admin reversal takes money back out of the recipient's wallet, frozen or not
+    if (!sourceWallet.canSend() && context.metadata.refundKind !== 'ADMIN_REVERSAL') {
+      throw new Error('Source wallet is frozen');
+    }
+
+    if (!destinationWallet.canReceive()) {
+      throw new Error('Destination wallet is frozen and not accepting funds');
+    }
+
+    // Cross-currency transfers carry the quoted conversion in the context
+    const fx = context.metadata.fx as TransferFx | undefined;
+    if (sourceWallet.currency !== destinationWallet.currency) {
+      if (!fx || fx.sourceCurrency !== sourceWallet.currency || fx.destinationCurrency !== destinationWallet.currency) {
+        throw new Error('Currency mismatch between wallets');
+      }
+    }
+
+    // Additional validations can be added here
+  }
+
+  private async reserveFunds(context: SagaContext): Promise<void> {
+    const transaction = await this.transactionRepository.findOne({
+      where: { id: context.transactionId },
+    });
+
+    if (!transaction) {
+      throw new Error('Transaction not found');
+    }
+
+    // Escrows reserve until their own expiry; plain transfers for 30 minutes
+    const reservationExpiry = context.metadata.reservationExpiry
+      ? new Date(context.metadata.reservationExpiry)
+      : new Date(Date.now() + 30 * 60 * 1000);
+
+    const debitAmount = this.getDebitAmount(context);
+
+    // Place a real hold so concurrent transfers cannot spend the same funds
+    await this.holdService.placeHold({
+      walletId: context.sourceWalletId,
+      transactionId: context.transactionId,
+      amount: debitAmount,
+      expiresAt: reservationExpiry,
+      reason: 'Transfer reservation',
+    });
+
+    // Set reservation details
+    transaction.reservedAmount = debitAmount;
+    transaction.reservationExpiry = reservationExpiry;
+
+    await this.transactionRepository.save(transaction);
+    
+    this.logger.debug(`Reserved ${debitAmount} for transaction ${context.transactionId}`);
+  }
+
+  private async releaseReservedFunds(context: SagaContext): Promise<void> {
+    await this.holdService.releaseHold(context.transactionId);
+
+    const transaction = await this.transactionRepository.findOne({
+      where: { id: context.transactionId },
+    });
+
+    if (transaction && transaction.reservedAmount) {
+      transaction.reservedAmount = null;
+      transaction.reservationExpiry = null;
+      await this.transactionRepository.save(transaction);
+      
+      this.logger.debug(`Released reserved funds for transaction ${context.transactionId}`);
+    }
+  }
+
+  private async debitSourceWallet(context: SagaContext): Promise<void> {
+    const newBalance = await this.dataSource.transaction(async manager => {
+      const sourceWallet = await manager.findOne(Wallet, {
+        where: { id: context.sourceWalletId },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      if (!sourceWallet) {
+        throw new Error('Source wallet not found');
+      }
+
+      // A resumed saga may re-run a debit that already committed before a crash
+      if (await this.ledgerService.hasEntry(manager, `${context.transactionId}:debit_source_wallet`)) {
+        return sourceWallet.balance;
+      }
+
+      // Consume this transfer's hold; other holds still reduce what can be debited
+      await this.holdService.captureHold(manager, context.transactionId);
+      const otherHolds = await this.holdService.getHeldAmount(context.sourceWalletId, manager);
+
+      const available = Money.fromDecimal(sourceWallet.balance).subtract(Money.fromDecimal(otherHolds));
+      if (available.lessThan(Money.fromDecimal(this.getDebitAmount(context)))) {
+        throw new Error('Insufficient balance');
+      }
+
+      // Store balance before for compensation
+      context.metadata.sourceBalanceBefore = sourceWallet.balance;
+
+      // Move funds, fee included, into the transfer suspense account until the credit leg posts
+      await this.ledgerService.debitWallet(manager, {
+        reference: `${context.transactionId}:debit_source_wallet`,
+        transactionId: context.transactionId,
+        description: 'Transfer debit',
+        walletId: context.sourceWalletId,
+        contraAccount: SystemAccount.TRANSFER_SUSPENSE,
+        amount: this.getDebitAmount(context),
+        currency: sourceWallet.currency,
+      });
+
+      return this.getProjectedBalance(manager, context.sourceWalletId);
+    });
+
+    await this.refreshWalletCache(context.sourceWalletId, newBalance);
+
+    this.logger.debug(`Debited ${this.getDebitAmount(context)} from wallet ${context.sourceWalletId}`);
+  }
+
+  private async creditSourceWallet(context: SagaContext): Promise<void> {
+    // Compensation: credit back the debited amount
+    const newBalance = await this.dataSource.transaction(async manager => {
+      const sourceWallet = await manager.findOne(Wallet, {
+        where: { id: context.sourceWalletId },
+      });
+
+      await this.ledgerService.creditWallet(manager, {
+        reference: `${context.transactionId}:compensate:debit_source_wallet`,
+        transactionId: context.transactionId,
+        description: 'Transfer debit reversal',
+        walletId: context.sourceWalletId,
+        contraAccount: SystemAccount.TRANSFER_SUSPENSE,
+        amount: this.getDebitAmount(context),
+        currency: sourceWallet.currency,
+      });
+
+      return this.getProjectedBalance(manager, context.sourceWalletId);
+    });
+
+    await this.refreshWalletCache(context.sourceWalletId, newBalance);
+
+    this.logger.debug(`Compensated: credited ${this.getDebitAmount(context)} back to wallet ${context.sourceWalletId}`);
+  }
+
+  private async creditDestinationWallet(context: SagaContext): Promise<void> {
+    const newBalance = await this.dataSource.transaction(async manager => {
+      const destinationWallet = await manager.findOne(Wallet, {
+        where: { id: context.destinationWalletId },
+      });
+
+      if (!destinationWallet) {
+        throw new Error('Destination wallet not found');
+      }
+
+      // Store balance before for compensation
+      context.metadata.destinationBalanceBefore = destinationWallet.balance;
+
+      // Release funds from the transfer suspense account to the recipient
+      await this.ledgerService.post(manager, {
+        reference: `${context.transactionId}:credit_destination_wallet`,
+        transactionId: context.transactionId,
+        description: 'Transfer credit',
+        postings: this.getCreditPostings(context, destinationWallet.currency, PostingDirection.CREDIT),
+      });
+
+      return this.getProjectedBalance(manager, context.destinationWalletId);
+    });
+
+    await this.refreshWalletCache(context.destinationWalletId, newBalance);
+
+    this.logger.debug(`Credited ${context.amount} to wallet ${context.destinationWalletId}`);
+  }
+
+  private async debitDestinationWallet(context: SagaContext): Promise<void> {
+    // Compensation: debit back the credited amount
+    const newBalance = await this.dataSource.transaction(async manager => {
+      const destinationWallet = await manager.findOne(Wallet, {
+        where: { id: context.destinationWalletId },
+      });
+
+      await this.ledgerService.post(manager, {
+        reference: `${context.transactionId}:compensate:credit_destination_wallet`,
+        transactionId: context.transactionId,
+        description: 'Transfer credit reversal',
+        postings: this.getCreditPostings(context, destinationWallet.currency, PostingDirection.DEBIT),
+      });
+
+      return this.getProjectedBalance(manager, context.destinationWalletId);
+    });
+
+    await this.refreshWalletCache(context.destinationWalletId, newBalance);
+
+    this.logger.debug(`Compensated: debited ${context.amount} from wallet ${context.destinationWalletId}`);
+  }
+
+  private async collectFee(context: SagaContext): Promise<void> {
+    const fee = context.metadata.fee as TransferFee | undefined;
+    if (!fee) return;
+
+    const newBalance = await this.dataSource.transaction(async manager => {
+      await this.ledgerService.creditWallet(manager, {
+        reference: `${context.transactionId}:collect_fee`,
+        transactionId: context.transactionId,
+        description: 'Transfer fee',
+        walletId: fee.revenueWalletId,
+        contraAccount: SystemAccount.TRANSFER_SUSPENSE,
+        amount: fee.amount,
+        currency: fee.currency,
+      });
+
+      return this.getProjectedBalance(manager, fee.revenueWalletId);
+    });
+
+    await this.refreshWalletCache(fee.revenueWalletId, newBalance);
+
+    this.logger.debug(`Collected fee ${fee.amount} ${fee.currency} for transaction ${context.transactionId}`);
+  }
+
+  private async returnFee(context: SagaContext): Promise<void> {
+    // Compensation: move the fee back into suspense so the debit reversal refunds it
+    const fee = context.metadata.fee as TransferFee | undefined;
+    if (!fee) return;
+
+    const newBalance = await this.dataSource.transaction(async manager => {
+      await this.ledgerService.debitWallet(manager, {
+        reference: `${context.transactionId}:compensate:collect_fee`,
+        transactionId: context.transactionId,
+        description: 'Transfer fee reversal',
+        walletId: fee.revenueWalletId,
+        contraAccount: SystemAccount.TRANSFER_SUSPENSE,
+        amount: fee.amount,
+        currency: fee.currency,
+      });
+
+      return this.getProjectedBalance(manager, fee.revenueWalletId);
+    });
+
+    await this.refreshWalletCache(fee.revenueWalletId, newBalance);
+
+    this.logger.debug(`Compensated: returned fee ${fee.amount} ${fee.currency} for transaction ${context.transactionId}`);
+  }
+
+  /**
+   * What leaves the source wallet: the amount plus any fee
+   */
+  private getDebitAmount(context: SagaContext): string {
+    const fee = context.metadata.fee as TransferFee | undefined;
+    const amount = Money.fromDecimal(context.amount);
+
+    return (fee ? amount.add(Money.fromDecimal(fee.amount)) : amount).toString();
+  }
+
+  /**
+   * Postings that move a transfer out of suspense into the destination wallet
+   * (walletDirection CREDIT) or back again (DEBIT). Cross-currency transfers
+   * convert through the FX account so each currency balances on its own.
+   */
+  private getCreditPostings(
+    context: SagaContext,
+    destinationCurrency: string,
+    walletDirection: PostingDirection,
+  ): PostingInput[] {
+    const contraDirection = walletDirection === PostingDirection.CREDIT ? PostingDirection.DEBIT : PostingDirection.CREDIT;
+    const fx = context.metadata.fx as TransferFx | undefined;
+
+    if (!fx) {
+      return [
+        { systemAccount: SystemAccount.TRANSFER_SUSPENSE, direction: contraDirection, amount: context.amount, currency: destinationCurrency },
+        { walletId: context.destinationWalletId, direction: walletDirection, amount: context.amount, currency: destinationCurrency },
+      ];
+    }
+
+    return [
+      { systemAccount: SystemAccount.TRANSFER_SUSPENSE, direction: contraDirection, amount: context.amount, currency: fx.sourceCurrency },
+      { systemAccount: SystemAccount.FX_CONVERSION, direction: walletDirection, amount: context.amount, currency: fx.sourceCurrency },
+      { systemAccount: SystemAccount.FX_CONVERSION, direction: contraDirection, amount: fx.destinationAmount, currency: fx.destinationCurrency },
+      { walletId: context.destinationWalletId, direction: walletDirection, amount: fx.destinationAmount, currency: fx.destinationCurrency },
+    ];
+  }
+
+  /**
+   * Read the wallet balance projection inside the current DB transaction
+   */
+  private async getProjectedBalance(manager: EntityManager, walletId: string): Promise<string> {
+    const wallet = await manager.findOne(Wallet, { where: { id: walletId } });
+    return wallet.balance;
+  }
+
+  private async refreshWalletCache(walletId: string, balance: string): Promise<void> {
+    const cachedData = await this.cacheService.getWalletBalanceWithVersion(walletId);
+    const newVersion = cachedData ? cachedData.version + 1 : 1;
+    await this.cacheService.setWalletBalanceWithVersion(walletId, balance, newVersion);
+  }
+
+  private async finalizeTransfer(context: SagaContext): Promise<void> {
+    // Update transaction with final balance snapshots
+    const [sourceWallet, destinationWallet] = await Promise.all([
+      this.walletRepository.findOne({ where: { id: context.sourceWalletId } }),
+      this.walletRepository.findOne({ where: { id: context.destinationWalletId } }),
+    ]);
+
+    const transaction = await this.transactionRepository.findOne({
+      where: { id: context.transactionId },
+    });
+
+    if (transaction && sourceWallet && destinationWallet) {
+      transaction.sourceBalanceAfter = sourceWallet.balance;
+      transaction.destinationBalanceAfter = destinationWallet.balance;
+      transaction.sourceBalanceBefore = context.metadata.sourceBalanceBefore;
+      transaction.destinationBalanceBefore = context.metadata.destinationBalanceBefore;
+      
+      await this.transactionRepository.save(transaction);
+    }
+
+    this.logger.debug(`Finalized transfer for transaction ${context.transactionId}`);
+  }
+}
@@ -0,0 +1,204 @@
+import { Logger } from '@nestjs/common';
+import { Transaction, TransactionStatus, TransferState } from '../../database/entities/transaction.entity';
+import { Wallet, WalletStatus } from '../../database/entities/wallet.entity';
+import { PostingDirection } from '../../database/entities/ledger-posting.entity';
+import { DomainEventType } from '../events/domain-event';
+import { Money } from '../money/money';
+import { SagaContext } from './saga-registry.service';
+import { JournalEntryInput } from './ledger.service';
+import { DirectTransferService } from './direct-transfer.service';
+
+describe('DirectTransferService', () => {
+  let wallets: Map<string, Wallet>;
+  let transactions: Map<string, Transaction>;
+  let journal: JournalEntryInput[];
+  let outbox: { type: DomainEventType; transactionId: string; status: TransactionStatus }[];
+  let heldAmount: string;
+  let lockOrder: string[];
+  let ledgerService: { post: jest.Mock };
+  let service: DirectTransferService;
+
+  const wallet = (id: string, balance: string) =>
+    Object.assign(new Wallet(), { id, balance, currency: 'USD', isActive: true, status: WalletStatus.ACTIVE });
+
+  const pendingTransfer = (id: string, sourceWalletId: string, destinationWalletId: string, amount: number) => {
+    const transaction = Object.assign(new Transaction(), {
+      id,
+      sourceWalletId,
+      destinationWalletId,
+      amount: Money.fromDecimal(amount).toString(),
+      status: TransactionStatus.PENDING,
+      transferState: TransferState.INITIATED,
+    });
+    transactions.set(id, Object.assign(new Transaction(), transaction));
+
+    const context: SagaContext = {
+      transactionId: id,
+      sourceWalletId,
+      destinationWalletId,
+      amount,
+      userId: 'user-1',
+      idempotencyKey: `key-${id}`,
+      metadata: {},
+    };
+    return { transaction, context };
+  };
+
+  beforeAll(() => Logger.overrideLogger(false));
+
+  beforeEach(() => {
+    wallets = new Map([['wallet-a', wallet('wallet-a', '100.00')], ['wallet-b', wallet('wallet-b', '100.00')]]);
+    transactions = new Map();
+    journal = [];
+    outbox = [];
+    heldAmount = '0.00';
+    lockOrder = [];
+
+    // Posts move wallet balances the way the ledger projection would
+    ledgerService = {
+      post: jest.fn(async (_, entry: JournalEntryInput) => {
+        for (const posting of entry.postings) {
+          const target = wallets.get(posting.walletId);
+          const balance = Money.fromDecimal(target.balance);
+          const amount = Money.fromDecimal(posting.amount);
+          target.balance = (posting.direction === PostingDirection.CREDIT ? balance.add(amount) : balance.subtract(amount)).toString();
+        }
+        journal.push(entry);
+      }),
+    };
+
+    const manager = {
+      findOne: jest.fn(async (_, { where, lock }) => {
+        if (lock) lockOrder.push(where.id);
+        const found = wallets.get(where.id);
+        return found && Object.assign(new Wallet(), found);
+      }),
+      update: jest.fn(async (_, criteria: Record<string, unknown>, changes: Partial<Transaction>) => {
+        const stored = transactions.get(criteria.id as string);
+        const matches = Object.entries(criteria).every(([key, value]) => stored[key] === value);
+
+        if (matches) Object.assign(stored, changes);
+        return { affected: matches ? 1 : 0 };
+      }),
+      save: jest.fn(async (transaction: Transaction) => {
+        transactions.set(transaction.id, Object.assign(new Transaction(), transaction));
+        return transaction;
+      }),
+    };
+
+    // Undo every write of a failed DB transaction, as Postgres would
+    const dataSource = {
+      transaction: jest.fn(async work => {
+        const snapshot = {
+          wallets: [...wallets.values()].map(entry => Object.assign(new Wallet(), entry)),
+          transactions: [...transactions.values()].map(entry => Object.assign(new Transaction(), entry)),
+          journal: [...journal],
+          outbox: [...outbox],
+        };
+
+        try {
+          return await work(manager);
+        } catch (error) {
+          wallets = new Map(snapshot.wallets.map(entry => [entry.id, entry]));
+          transactions = new Map(snapshot.transactions.map(entry => [entry.id, entry]));
+          journal = snapshot.journal;
+          outbox = snapshot.outbox;
+          throw error;
+        }
+      }),
+    };
+
+    service = new DirectTransferService(
+      { getWalletBalanceWithVersion: jest.fn(async () => null), setWalletBalanceWithVersion: jest.fn() } as any,
+      ledgerService as any,
+      { getHeldAmount: jest.fn(async () => heldAmount) } as any,
+      {
+        recordTransactionEvent: jest.fn(async (_, type: DomainEventType, transaction: Transaction) => {
+          outbox.push({ type, transactionId: transaction.id, status: transaction.status });
+        }),
+      } as any,
+      dataSource as any,
+    );
+  });
+
+  it('moves the money in one journal entry and completes the transaction', async () => {
+    const { transaction, context } = pendingTransfer('transaction-1', 'wallet-a', 'wallet-b', 30);
+
+    const completed = await service.execute(transaction, context);
+
+    expect(completed).toEqual(expect.objectContaining({
+      status: TransactionStatus.COMPLETED,
+      transferState: TransferState.COMPLETED,
+      sourceBalanceBefore: '100.00',
+      sourceBalanceAfter: '70.00',
+      destinationBalanceAfter: '130.00',
+    }));
+    expect(journal).toEqual([expect.objectContaining({ reference: 'transaction-1:transfer' })]);
+  });
+
+  it('records TransferCompleted in the same DB transaction as the transfer', async () => {
+    const { transaction, context } = pendingTransfer('transaction-1', 'wallet-a', 'wallet-b', 30);
+
+    await service.execute(transaction, context);
+
+    expect(outbox).toEqual([
+      { type: DomainEventType.TRANSFER_COMPLETED, transactionId: 'transaction-1', status: TransactionStatus.COMPLETED },
+    ]);
+  });
+
+  it('locks wallets in id order whichever way the money goes', async () => {
+    const forward = pendingTransfer('transaction-1', 'wallet-a', 'wallet-b', 10);
+    const backward = pendingTransfer('transaction-2', 'wallet-b', 'wallet-a', 10);
+
+    await service.execute(forward.transaction, forward.context);
+    await service.execute(backward.transaction, backward.context);
+
+    // Both take wallet-a first, so neither can hold one wallet while waiting on the other
+    expect(lockOrder).toEqual(['wallet-a', 'wallet-b', 'wallet-a', 'wallet-b']);
+    expect(wallets.get('wallet-a').balance).toBe('100.00');
+    expect(wallets.get('wallet-b').balance).toBe('100.00');
+  });
+
+  it('refuses to spend funds on hold for other payments', async () => {
+    heldAmount = '80.00';
+    const { transaction, context } = pendingTransfer('transaction-1', 'wallet-a', 'wallet-b', 30);
+
+    await expect(service.execute(transaction, context)).rejects.toThrow('Insufficient balance');
+
+    expect(ledgerService.post).not.toHaveBeenCalled();
+    expect(wallets.get('wallet-a').balance).toBe('100.00');
+  });
+
+  it('rolls everything back and records the failure when a step fails', async () => {
+    ledgerService.post.mockImplementationOnce(async (_, entry: JournalEntryInput) => {
+      const source = wallets.get('wallet-a');
+      source.balance = Money.fromDecimal(source.balance).subtract(Money.fromDecimal(entry.postings[0].amount)).toString();
+      throw new Error('violates check constraint');
+    });
+    const { transaction, context } = pendingTransfer('transaction-1', 'wallet-a', 'wallet-b', 30);
+
+    await expect(service.execute(transaction, context)).rejects.toThrow('violates check constraint');
+
+    expect(transactions.get('transaction-1')).toEqual(expect.objectContaining({
+      status: TransactionStatus.FAILED,
+      transferState: TransferState.FAILED,
+      errorDetails: expect.objectContaining({ message: 'violates check constraint' }),
+    }));
+    expect(journal).toEqual([]);
+    expect(wallets.get('wallet-a').balance).toBe('100.00');
+    expect(outbox.map(event => event.type)).toEqual([DomainEventType.TRANSFER_FAILED]);
+  });
+
+  it('refuses a transaction another executor has already claimed', async () => {
+    const { transaction, context } = pendingTransfer('transaction-1', 'wallet-a', 'wallet-b', 30);
+    transactions.get('transaction-1').status = TransactionStatus.PROCESSING;
+
+    await expect(service.execute(transaction, context)).rejects.toThrow('Transaction is no longer pending');
+
+    expect(lockOrder).toEqual([]);
+    expect(ledgerService.post).not.toHaveBeenCalled();
+    // The claimant's run is left alone rather than marked failed
+    expect(transactions.get('transaction-1').status).toBe(TransactionStatus.PROCESSING);
+    expect(outbox).toEqual([]);
+  });
+});
@@ -0,0 +1,242 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DataSource, EntityManager } from 'typeorm';
+import { Transaction, TransactionStatus, TransferState } from '../../database/entities/transaction.entity';
+import { Wallet } from '../../database/entities/wallet.entity';
+import { SystemAccount, PostingDirection } from '../../database/entities/ledger-posting.entity';
+import { CacheService } from '../../cache/cache.service';
+import { LedgerService, PostingInput } from './ledger.service';
+import { HoldService } from './hold.service';
+import { OutboxService } from './outbox.service';
+import { SagaContext } from './saga-registry.service';
+import { TransferFx, TransferFee } from '../sagas/transfer.saga';
+import { Money } from '../money/money';
+import { DomainEventType } from '../events/domain-event';
+
+/**
+ * Wallet-to-wallet transfer in a single Postgres transaction. Every wallet involved
+ * is locked with SELECT ... FOR UPDATE in wallet id order, so two transfers between
+ * the same wallets queue up instead of deadlocking, and the balance check cannot be
+ * raced. Takes the same context the transfer saga would; nothing is left to recover
+ * after a crash because either all of it commits or none of it does.
+ */
+@Injectable()
+export class DirectTransferService {
+  private readonly logger = new Logger(DirectTransferService.name);
+
+  constructor(
+    private cacheService: CacheService,
+    private ledgerService: LedgerService,
+    private holdService: HoldService,
+    private outboxService: OutboxService,
+    private dataSource: DataSource,
+  ) {}
+
+  async execute(transaction: Transaction, context: SagaContext): Promise<Transaction> {
+    const fee = context.metadata.fee as TransferFee | undefined;
+
+    let claimed = false;
+    let balances: Map<string, string>;
+    try {
+      balances = await this.dataSource.transaction(async manager => {
+        // Take the transaction row first so saga recovery cannot fail it while we run
+        const claim = await manager.update(
+          Transaction,
+          { id: transaction.id, status: TransactionStatus.PENDING },
+          { status: TransactionStatus.PROCESSING, processedAt: new Date() },
+        );
+
+        if (!claim.affected) {
+          throw new Error('Transaction is no longer pending');
+        }
+        claimed = true;
+
+        const wallets = await this.lockWallets(manager, [
+          context.sourceWalletId,
+          context.destinationWalletId,
+          ...(fee ? [fee.revenueWalletId] : []),
+        ]);
+        const sourceWallet = wallets.get(context.sourceWalletId);
+        const destinationWallet = wallets.get(context.destinationWalletId);
+
+        this.validateWallets(sourceWallet, destinationWallet, context);
+        if (fee && !wallets.has(fee.revenueWalletId)) {
+          throw new Error(`Revenue wallet for ${fee.currency} not found`);
+        }
+
+        // Funds on hold for other payments cannot be spent
+        const debitAmount = this.getDebitAmount(context);
+        const heldAmount = await this.holdService.getHeldAmount(sourceWallet.id, manager);
+        const available = Money.fromDecimal(sourceWallet.balance).subtract(Money.fromDecimal(heldAmount));
+
+        if (available.lessThan(Money.fromDecimal(debitAmount))) {
+          throw new Error('Insufficient balance');
+        }
+
+        await this.ledgerService.post(manager, {
+          reference: `${context.transactionId}:transfer`,
+          transactionId: context.transactionId,
+          description: 'Transfer',
+          postings: this.getPostings(context, sourceWallet.currency, destinationWallet.currency),
+        });
+
+        const after = await this.getBalances(manager, [...wallets.keys()]);
+
+        transaction.status = TransactionStatus.COMPLETED;
+        transaction.transferState = TransferState.COMPLETED;
+        transaction.sourceBalanceBefore = sourceWallet.balance;
+        transaction.sourceBalanceAfter = after.get(sourceWallet.id);
+        transaction.destinationBalanceBefore = destinationWallet.balance;
+        transaction.destinationBalanceAfter = after.get(destinationWallet.id);
+        transaction.processedAt = new Date();
+        transaction.completedAt = new Date();
+        await manager.save(transaction);
+
+        await this.outboxService.recordTransactionEvent(manager, DomainEventType.TRANSFER_COMPLETED, transaction);
+
+        return after;
+      });
+    } catch (error) {
+      // Everything rolled back, so only the transaction record needs to show the failure
+      if (claimed) {
+        await this.recordFailure(transaction, error);
+      }
+
+      throw error;
+    }
+
+    for (const [walletId, balance] of balances) {
+      await this.refreshWalletCache(walletId, balance);
+    }
+
+    this.logger.debug(`Transferred ${context.amount} from ${context.sourceWalletId} to ${context.destinationWalletId} in one DB transaction`);
+
+    return transaction;
+  }
+
+  private async recordFailure(transaction: Transaction, error: Error): Promise<void> {
+    await this.dataSource.transaction(async manager => {
+      transaction.status = TransactionStatus.FAILED;
+      transaction.transferState = TransferState.FAILED;
+      transaction.processedAt = new Date();
+      transaction.failedAt = new Date();
+      transaction.completedAt = null;
+      transaction.errorDetails = {
+        message: error.message,
+        timestamp: new Date().toISOString(),
+      };
+      await manager.save(transaction);
+
+      await this.outboxService.recordTransactionEvent(manager, DomainEventType.TRANSFER_FAILED, transaction, {
+        error: error.message,
+      });
+    });
+  }
+
+  /**
+   * Lock wallet rows in ascending id order; every caller using the same order is what rules out deadlocks
+   */
+  private async lockWallets(manager: EntityManager, walletIds: string[]): Promise<Map<string, Wallet>> {
+    const wallets = new Map<string, Wallet>();
+
+    for (const walletId of [...new Set(walletIds)].sort()) {
+      const wallet = await manager.findOne(Wallet, {
+        where: { id: walletId },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      if (wallet) {
+        wallets.set(walletId, wallet);
+      }
+    }
+
+    return wallets;
+  }
+
+  /**
+   * The same rules as the transfer saga, checked again now that the rows are locked
+   */
+  private validateWallets(sourceWallet: Wallet | undefined, destinationWallet: Wallet | undefined, context: SagaContext): void {
+    if (!sourceWallet?.isActive) {
+      throw new Error('Source wallet not found or inactive');
+    }
+
+    if (!destinationWallet?.isActive) {
+      throw new Error('Destination wallet not found or inactive');
+    }
+
+    if (!sourceWallet.canSend()) {
+      throw new Error('Source wallet is frozen');
+    }
+
+    if (!destinationWallet.canReceive()) {
+      throw new Error('Destination wallet is frozen and not accepting funds');
+    }
+
+    const fx = context.metadata.fx as TransferFx | undefined;
+    if (sourceWallet.currency !== destinationWallet.currency) {
+      if (!fx || fx.sourceCurrency !== sourceWallet.currency || fx.destinationCurrency !== destinationWallet.currency) {
+        throw new Error('Currency mismatch between wallets');
+      }
+    }
+  }
+
+  /**
+   * What leaves the source wallet: the amount plus any fee
+   */
+  private getDebitAmount(context: SagaContext): string {
+    const fee = context.metadata.fee as TransferFee | undefined;
+    const amount = Money.fromDecimal(context.amount);
+
+    return (fee ? amount.add(Money.fromDecimal(fee.amount)) : amount).toString();
+  }
+
+  /**
+   * One journal entry for the whole transfer. There is no suspense leg since both
+   * sides post together; cross-currency transfers still convert through the FX account.
+   */
+  private getPostings(context: SagaContext, sourceCurrency: string, destinationCurrency: string): PostingInput[] {
+    const fee = context.metadata.fee as TransferFee | undefined;
+    const fx = context.metadata.fx as TransferFx | undefined;
+
+    const postings: PostingInput[] = [
+      { walletId: context.sourceWalletId, direction: PostingDirection.DEBIT, amount: this.getDebitAmount(context), currency: sourceCurrency },
+    ];
+
+    if (fx) {
+      postings.push(
+        { systemAccount: SystemAccount.FX_CONVERSION, direction: PostingDirection.CREDIT, amount: context.amount, currency: sourceCurrency },
+        { systemAccount: SystemAccount.FX_CONVERSION, direction: PostingDirection.DEBIT, amount: fx.destinationAmount, currency: destinationCurrency },
+        { walletId: context.destinationWalletId, direction: PostingDirection.CREDIT, amount: fx.destinationAmount, currency: destinationCurrency },
+      );
+    } else {
+      postings.push(
+        { walletId: context.destinationWalletId, direction: PostingDirection.CREDIT, amount: context.amount, currency: destinationCurrency },
+      );
+    }
+
+    if (fee) {
+      postings.push(
+        { walletId: fee.revenueWalletId, direction: PostingDirection.CREDIT, amount: fee.amount, currency: fee.currency },
+      );
+    }
+
+    return postings;
+  }
+
+  private async getBalances(manager: EntityManager, walletIds: string[]): Promise<Map<string, string>> {
+    const balances = new Map<string, string>();
+
+    for (const walletId of walletIds) {
+      const wallet = await manager.findOne(Wallet, { where: { id: walletId } });
+      balances.set(walletId, wallet.balance);
+    }
+
+    return balances;
+  }
+
+  private async refreshWalletCache(walletId: string, balance: string): Promise<void> {
+    const cachedData = await this.cacheService.getWalletBalanceWithVersion(walletId);
+    const newVersion = cachedData ? cachedData.version + 1 : 1;
+    await this.cacheService.setWalletBalanceWithVersion(walletId, balance, newVersion);
+  }
+}
@@ -0,0 +1,125 @@
+import { Logger } from '@nestjs/common';
+import { FundHold, HoldStatus } from '../../database/entities/fund-hold.entity';
+import { Wallet } from '../../database/entities/wallet.entity';
+import { HoldService } from './hold.service';
+
+describe('HoldService', () => {
+  const wallet = Object.assign(new Wallet(), { id: 'wallet-1', balance: 100, currency: 'USD' });
+  const inAnHour = () => new Date(Date.now() + 60 * 60 * 1000);
+
+  // Held amounts come back from Postgres as decimal strings
+  const heldQuery = (rows: Array<{ walletId: string; held: string }>) => {
+    const builder: any = {};
+    for (const method of ['select', 'addSelect', 'where', 'andWhere', 'groupBy']) {
+      builder[method] = jest.fn(() => builder);
+    }
+    builder.getRawMany = jest.fn(async () => rows);
+    return builder;
+  };
+
+  const createManager = (options: { held?: string; existingHold?: FundHold; hold?: FundHold } = {}) => ({
+    findOne: jest.fn(async (entity, { where }) => {
+      if (entity === Wallet) return wallet;
+      return where.transactionId === 'existing' ? options.existingHold : options.hold || null;
+    }),
+    create: jest.fn((_, data) => Object.assign(new FundHold(), data)),
+    save: jest.fn(async hold => Object.assign(hold, { id: hold.id || 'hold-1' })),
+    getRepository: jest.fn(() => ({
+      createQueryBuilder: () => heldQuery(options.held ? [{ walletId: 'wallet-1', held: options.held }] : []),
+    })),
+  });
+
+  const createService = (manager: any, holdRepository: any = {}) =>
+    new HoldService(holdRepository, { get: jest.fn() } as any, { transaction: async work => work(manager) } as any);
+
+  beforeAll(() => Logger.overrideLogger(false));
+
+  describe('placeHold', () => {
+    it('holds funds that are still available after other holds', async () => {
+      const manager = createManager({ held: '60.00' });
+
+      const hold = await createService(manager).placeHold({
+        walletId: 'wallet-1',
+        transactionId: 'transaction-1',
+        amount: 40,
+        expiresAt: inAnHour(),
+      });
+
+      expect(hold).toEqual(expect.objectContaining({ amount: '40.00', currency: 'USD', status: HoldStatus.ACTIVE }));
+      expect(manager.findOne).toHaveBeenCalledWith(Wallet, expect.objectContaining({ lock: { mode: 'pessimistic_write' } }));
+    });
+
+    it('refuses a hold larger than the available balance', async () => {
+      const manager = createManager({ held: '60.01' });
+
+      await expect(
+        createService(manager).placeHold({ walletId: 'wallet-1', amount: 40, expiresAt: inAnHour() }),
+      ).rejects.toThrow('Insufficient available balance');
+      expect(manager.save).not.toHaveBeenCalled();
+    });
+
+    it('returns the active hold a transaction already has instead of holding twice', async () => {
+      const existingHold = Object.assign(new FundHold(), { id: 'hold-0', amount: '40.00', status: HoldStatus.ACTIVE });
+      const manager = createManager({ existingHold, held: '100.00' });
+
+      await expect(
+        createService(manager).placeHold({ walletId: 'wallet-1', transactionId: 'existing', amount: 40, expiresAt: inAnHour() }),
+      ).resolves.toBe(existingHold);
+      expect(manager.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('captureHold', () => {
+    it('captures an active hold', async () => {
+      const hold = Object.assign(new FundHold(), { status: HoldStatus.ACTIVE, expiresAt: inAnHour() });
+      const manager = createManager({ hold });
+
+      const captured = await createService(manager).captureHold(manager as any, 'transaction-1');
+
+      expect(captured.status).toBe(HoldStatus.CAPTURED);
+      expect(captured.capturedAt).toBeInstanceOf(Date);
+    });
+
+    it('refuses a hold whose expiry has passed', async () => {
+      const hold = Object.assign(new FundHold(), { status: HoldStatus.ACTIVE, expiresAt: new Date(Date.now() - 1000) });
+      const manager = createManager({ hold });
+
+      await expect(createService(manager).captureHold(manager as any, 'transaction-1')).rejects.toThrow(
+        'Hold not found or expired',
+      );
+      expect(manager.save).not.toHaveBeenCalled();
+    });
+
+    it('refuses a transaction without an active hold', async () => {
+      const manager = createManager();
+
+      await expect(createService(manager).captureHold(manager as any, 'transaction-1')).rejects.toThrow(
+        'Hold not found or expired',
+      );
+    });
+  });
+
+  it('sums held amounts per wallet', async () => {
+    const holdRepository = {
+      createQueryBuilder: () => heldQuery([{ walletId: 'wallet-1', held: '12.30' }, { walletId: 'wallet-2', held: '0.05' }]),
+    };
+    const service = createService(createManager(), holdRepository);
+
+    const held = await service.getHeldAmounts(['wallet-1', 'wallet-2', 'wallet-3']);
+
+    expect(held.get('wallet-1')).toBe('12.30');
+    expect(held.get('wallet-2')).toBe('0.05');
+    expect(await service.getHeldAmount('wallet-3')).toBe('0.00');
+  });
+
+  it('marks active holds past their expiry as EXPIRED', async () => {
+    const holdRepository = { update: jest.fn(async () => ({ affected: 2 })) };
+
+    await expect(createService(createManager(), holdRepository).expireHolds()).resolves.toBe(2);
+
+    const [criteria, changes] = holdRepository.update.mock.calls[0] as any[];
+    expect(criteria.status).toBe(HoldStatus.ACTIVE);
+    expect(criteria.expiresAt.value).toBeInstanceOf(Date);
+    expect(changes).toEqual(expect.objectContaining({ status: HoldStatus.EXPIRED }));
+  });
+});
@@ -0,0 +1,189 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, DataSource, EntityManager, LessThanOrEqual } from 'typeorm';
+import { FundHold, HoldStatus } from '../../database/entities/fund-hold.entity';
+import { Wallet } from '../../database/entities/wallet.entity';
+import { DecimalAmount, Money } from '../money/money';
+
+export interface PlaceHoldRequest {
+  walletId: string;
+  amount: DecimalAmount;
+  expiresAt: Date;
+  transactionId?: string;
+  reason?: string;
+}
+
+@Injectable()
+export class HoldService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(HoldService.name);
+  private expiryTimer: NodeJS.Timeout;
+
+  constructor(
+    @InjectRepository(FundHold)
+    private holdRepository: Repository<FundHold>,
+    private configService: ConfigService,
+    private dataSource: DataSource,
+  ) {}
+
+  onModuleInit() {
+    const intervalMs = Number(this.configService.get('HOLD_EXPIRY_SWEEP_INTERVAL_MS', 60000));
+    this.expiryTimer = setInterval(() => {
+      this.expireHolds().catch(error => this.logger.error('Hold expiry sweep failed:', error));
+    }, intervalMs);
+  }
+
+  onModuleDestroy() {
+    if (this.expiryTimer) {
+      clearInterval(this.expiryTimer);
+    }
+  }
+
+  /**
+   * Place a hold against the wallet's available balance.
+   * The wallet row is locked so concurrent holds cannot oversubscribe the same funds.
+   */
+  async placeHold(request: PlaceHoldRequest): Promise<FundHold> {
+    return this.dataSource.transaction(async manager => {
+      const wallet = await manager.findOne(Wallet, {
+        where: { id: request.walletId },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      if (!wallet) {
+        throw new Error('Wallet not found');
+      }
+
+      if (request.transactionId) {
+        const existingHold = await manager.findOne(FundHold, {
+          where: { transactionId: request.transactionId, status: HoldStatus.ACTIVE },
+        });
+        if (existingHold) {
+          return existingHold;
+        }
+      }
+
+      const heldAmount = await this.getHeldAmount(request.walletId, manager);
+      const availableBalance = Money.fromDecimal(wallet.balance).subtract(Money.fromDecimal(heldAmount));
+
+      if (availableBalance.lessThan(Money.fromDecimal(request.amount))) {
+        throw new Error('Insufficient available balance');
+      }
+
+      const hold = manager.create(FundHold, {
+        walletId: request.walletId,
+        transactionId: request.transactionId,
+        amount: Money.fromDecimal(request.amount).toString(),
+        currency: wallet.currency,
+        reason: request.reason,
+        expiresAt: request.expiresAt,
+        status: HoldStatus.ACTIVE,
+      });
+
+      const savedHold = await manager.save(hold);
+      this.logger.debug(`Placed hold ${savedHold.id} of ${request.amount} on wallet ${request.walletId}`);
+      return savedHold;
+    });
+  }
+
+  /**
+   * Release the active hold of a transaction back to the available balance
+   */
+  async releaseHold(transactionId: string, manager?: EntityManager): Promise<void> {
+    const repository = manager ? manager.getRepository(FundHold) : this.holdRepository;
+
+    const result = await repository.update(
+      { transactionId, status: HoldStatus.ACTIVE },
+      { status: HoldStatus.RELEASED, releasedAt: new Date() },
+    );
+
+    if (result.affected) {
+      this.logger.debug(`Released hold for transaction ${transactionId}`);
+    }
+  }
+
+  /**
+   * Release a hold placed without a transaction, such as one reserving a claimable transfer
+   */
+  async releaseHoldById(holdId: string): Promise<void> {
+    const result = await this.holdRepository.update(
+      { id: holdId, status: HoldStatus.ACTIVE },
+      { status: HoldStatus.RELEASED, releasedAt: new Date() },
+    );
+
+    if (result.affected) {
+      this.logger.debug(`Released hold ${holdId}`);
+    }
+  }
+
+  /**
+   * Convert the active hold of a transaction into a capture.
+   * Must run in the same DB transaction as the ledger debit it backs.
+   */
+  async captureHold(manager: EntityManager, transactionId: string): Promise<FundHold> {
+    const hold = await manager.findOne(FundHold, {
+      where: { transactionId, status: HoldStatus.ACTIVE },
+      lock: { mode: 'pessimistic_write' },
+    });
+
+    if (!hold || !hold.isActive()) {
+      throw new Error('Hold not found or expired');
+    }
+
+    hold.status = HoldStatus.CAPTURED;
+    hold.capturedAt = new Date();
+    return manager.save(hold);
+  }
+
+  /**
+   * Sum of unexpired active holds on a wallet
+   */
+  async getHeldAmount(walletId: string, manager?: EntityManager): Promise<string> {
+    const amounts = await this.getHeldAmounts([walletId], manager);
+    return amounts.get(walletId) || Money.zero().toString();
+  }
+
+  async getHeldAmounts(walletIds: string[], manager?: EntityManager): Promise<Map<string, string>> {
+    const amounts = new Map<string, string>();
+    if (walletIds.length === 0) return amounts;
+
+    const repository = manager ? manager.getRepository(FundHold) : this.holdRepository;
+    const rows = await repository
+      .createQueryBuilder('hold')
+      .select('hold.walletId', 'walletId')
+      .addSelect('COALESCE(SUM(hold.amount), 0)', 'held')
+      .where('hold.walletId IN (:...walletIds)', { walletIds })
+      .andWhere('hold.status = :status', { status: HoldStatus.ACTIVE })
+      .andWhere('hold.expiresAt > :now', { now: new Date() })
+      .groupBy('hold.walletId')
+      .getRawMany();
+
+    for (const row of rows) {
+      amounts.set(row.walletId, Money.fromDecimal(row.held).toString());
+    }
+    return amounts;
+  }
+
+  async getWalletHolds(walletId: string, status?: HoldStatus): Promise<FundHold[]> {
+    return this.holdRepository.find({
+      where: status ? { walletId, status } : { walletId },
+      order: { createdAt: 'DESC' },
+      take: 100,
+    });
+  }
+
+  /**
+   * Mark holds whose reservation expiry has passed as expired
+   */
+  async expireHolds(): Promise<number> {
+    const result = await this.holdRepository.update(
+      { status: HoldStatus.ACTIVE, expiresAt: LessThanOrEqual(new Date()) },
+      { status: HoldStatus.EXPIRED, releasedAt: new Date() },
+    );
+
+    if (result.affected) {
+      this.logger.log(`Expired ${result.affected} fund holds`);
+    }
+    return result.affected || 0;
+  }
+}
@@ -1,5 +1,6 @@
-import { Injectable, Logger, ConflictException } from '@nestjs/common';
+import { Injectable, Logger, ConflictException, UnprocessableEntityException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
 import { Repository, DataSource } from 'typeorm';
 import { CacheService } from '../../cache/cache.service';
 import { Transaction, TransactionStatus } from '../../database/entities/transaction.entity';
@@ -20,6 +21,19 @@ export interface IdempotencyResult<T> {
   transaction?: Transaction;
 }
 
+/**
+ * An HTTP response kept under an Idempotency-Key, with the fingerprint of the
+ * request that produced it. Until the response exists the request is in flight.
+ */
+export interface StoredResponse {
+  fingerprint: string;
+  inFlight: boolean;
+  statusCode?: number;
+  body?: any;
+  // The response was an error, so it is replayed by throwing it again
+  isError?: boolean;
+}
+
 @Injectable()
 export class IdempotencyService {
   private readonly logger = new Logger(IdempotencyService.name);
@@ -31,8 +45,97 @@ export class IdempotencyService {
     private transactionRepository: Repository<Transaction>,
     private cacheService: CacheService,
     private dataSource: DataSource,
+    private configService: ConfigService,
   ) {}
 
+  /**
+   * Hash of a request that does not depend on the order of keys in its body
+   */
+  createFingerprint(method: string, path: string, body: any): string {
+    return crypto
+      .createHash('sha256')
+      .update(JSON.stringify({ method, path, body: this.canonicalize(body ?? null) }))
+      .digest('hex');
+  }
+
+  /**
+   * Claim a key for a request. Returns null when the request should run, or the
+   * stored response of an earlier request with the same key and fingerprint.
+   * Throws 422 when the key was used for a different request and 409 while the
+   * earlier one is still in flight.
+   */
+  async beginRequest(scope: string, key: string, fingerprint: string): Promise<StoredResponse | null> {
+    const cacheKey = this.getResponseKey(scope, key);
+    const inFlightTtl = Number(this.configService.get('IDEMPOTENCY_IN_FLIGHT_TTL_SECONDS', 60));
+    const claim: StoredResponse = { fingerprint, inFlight: true };
+
+    // A second try covers a stored response expiring between the two calls
+    for (let attempt = 0; attempt < 2; attempt++) {
+      if (await this.cacheService.setIfAbsent(cacheKey, JSON.stringify(claim), inFlightTtl)) {
+        return null;
+      }
+
+      const existing = await this.cacheService.get(cacheKey);
+      if (!existing) continue;
+
+      const stored: StoredResponse = JSON.parse(existing);
+      if (stored.fingerprint !== fingerprint) {
+        throw new UnprocessableEntityException('Idempotency-Key was already used for a different request');
+      }
+
+      if (stored.inFlight) {
+        throw new ConflictException('A request with this Idempotency-Key is still being processed');
+      }
+
+      this.logger.debug(`Replaying stored response for idempotency key: ${key}`);
+      return stored;
+    }
+
+    throw new ConflictException('A request with this Idempotency-Key is still being processed');
+  }
+
+  /**
+   * Keep the response of a claimed request so repeats get it back
+   */
+  async completeRequest(scope: string, key: string, response: StoredResponse): Promise<void> {
+    const ttl = Number(this.configService.get('IDEMPOTENCY_KEY_TTL_SECONDS', 86400));
+
+    try {
+      await this.cacheService.set(this.getResponseKey(scope, key), JSON.stringify({ ...response, inFlight: false }), ttl);
+    } catch (error) {
+      this.logger.error(`Failed to store response for idempotency key ${key}:`, error);
+    }
+  }
+
+  /**
+   * Give up a claim without a response, so the request can be tried again
+   */
+  async releaseRequest(scope: string, key: string): Promise<void> {
+    try {
+      await this.cacheService.del(this.getResponseKey(scope, key));
+    } catch (error) {
+      this.logger.error(`Failed to release idempotency key ${key}:`, error);
+    }
+  }
+
+  private getResponseKey(scope: string, key: string): string {
+    return `idempotent_response:${scope}:${key}`;
+  }
+
+  private canonicalize(value: any): any {
+    if (Array.isArray(value)) {
+      return value.map(item => this.canonicalize(item));
+    }
+
+    if (value && typeof value === 'object') {
+      return Object.keys(value)
+        .sort()
+        .reduce((sorted, key) => ({ ...sorted, [key]: this.canonicalize(value[key]) }), {});
+    }
+
+    return value;
+  }
+
   /**
    * Generate idempotency key if not provided
    */
@@ -54,6 +157,7 @@ export class IdempotencyService {
     // Only include core business parameters, exclude auto-generated fields
     const corePayload = {
       destinationWalletId: payload.destinationWalletId,
+      recipient: payload.recipient,
       amount: payload.amount,
       description: payload.description,
       // Exclude idempotencyKey and externalReferenceId as these can vary for same business operation
@@ -0,0 +1,178 @@
+import { Logger } from '@nestjs/common';
+import { PostingDirection, SystemAccount } from '../../database/entities/ledger-posting.entity';
+import { Wallet } from '../../database/entities/wallet.entity';
+import { JournalEntryInput, LedgerService } from './ledger.service';
+
+/**
+ * Just enough of an EntityManager to record what LedgerService writes
+ */
+function createManager(options: { existingReferences?: string[]; wallet?: Partial<Wallet>; ledgerBalance?: string } = {}) {
+  const saved: any[] = [];
+  const balanceUpdates: Array<{ walletId: string; delta: unknown }> = [];
+
+  const update = { walletId: null, delta: null };
+  const updateBuilder = {
+    update: () => updateBuilder,
+    set: () => updateBuilder,
+    setParameter: (_: string, delta: unknown) => ((update.delta = delta), updateBuilder),
+    where: (_: string, { id }) => ((update.walletId = id), updateBuilder),
+    execute: async () => balanceUpdates.push({ walletId: update.walletId, delta: update.delta }),
+  };
+
+  const sumBuilder: any = {};
+  for (const method of ['select', 'addSelect', 'where', 'setParameter']) {
+    sumBuilder[method] = () => sumBuilder;
+  }
+  sumBuilder.getRawOne = async () => ({ balance: options.ledgerBalance ?? '0', postingCount: '2' });
+
+  const manager: any = {
+    findOne: jest.fn(async (entity, { where }) => {
+      if (entity === Wallet) return options.wallet;
+      return (options.existingReferences || []).includes(where.reference) ? { reference: where.reference } : null;
+    }),
+    count: jest.fn(async (_, { where }) => ((options.existingReferences || []).includes(where.reference) ? 1 : 0)),
+    create: jest.fn((_, data) => ({ ...data })),
+    save: jest.fn(async value => {
+      saved.push(value);
+      return Array.isArray(value) ? value : { id: `entry-${saved.length}`, ...value };
+    }),
+    createQueryBuilder: jest.fn(() => updateBuilder),
+    getRepository: jest.fn(() => ({ createQueryBuilder: () => sumBuilder })),
+  };
+
+  return { manager, saved, balanceUpdates };
+}
+
+describe('LedgerService', () => {
+  const transfer = (postings: JournalEntryInput['postings']): JournalEntryInput => ({
+    reference: 'transaction-1:debit_source_wallet',
+    transactionId: 'transaction-1',
+    postings,
+  });
+
+  const service = (dataSource: any = {}) => new LedgerService({} as any, dataSource);
+
+  beforeAll(() => Logger.overrideLogger(false));
+
+  describe('post', () => {
+    it('writes a balanced entry and projects it onto wallet balances', async () => {
+      const { manager, saved, balanceUpdates } = createManager();
+
+      await service().post(manager, transfer([
+        { walletId: 'wallet-1', direction: PostingDirection.DEBIT, amount: 10.1, currency: 'USD' },
+        { systemAccount: SystemAccount.TRANSFER_SUSPENSE, direction: PostingDirection.CREDIT, amount: 10.1, currency: 'USD' },
+      ]));
+
+      expect(saved).toHaveLength(2);
+      expect(saved[1]).toHaveLength(2);
+      expect(balanceUpdates).toEqual([{ walletId: 'wallet-1', delta: '-10.10' }]);
+    });
+
+    it('refuses an entry whose postings do not net to zero', async () => {
+      const { manager, saved } = createManager();
+
+      await expect(service().post(manager, transfer([
+        { walletId: 'wallet-1', direction: PostingDirection.DEBIT, amount: 10, currency: 'USD' },
+        { systemAccount: SystemAccount.TRANSFER_SUSPENSE, direction: PostingDirection.CREDIT, amount: 9.99, currency: 'USD' },
+      ]))).rejects.toThrow('is unbalanced in USD by -0.01');
+
+      expect(saved).toHaveLength(0);
+    });
+
+    it('balances each currency on its own', async () => {
+      const { manager } = createManager();
+
+      await expect(service().post(manager, transfer([
+        { systemAccount: SystemAccount.TRANSFER_SUSPENSE, direction: PostingDirection.DEBIT, amount: 10, currency: 'USD' },
+        { walletId: 'wallet-2', direction: PostingDirection.CREDIT, amount: 10, currency: 'EUR' },
+      ]))).rejects.toThrow('is unbalanced in USD');
+    });
+
+    it('requires two postings, each with one account and a positive amount', async () => {
+      const { manager } = createManager();
+
+      await expect(service().post(manager, transfer([
+        { walletId: 'wallet-1', direction: PostingDirection.DEBIT, amount: 10, currency: 'USD' },
+      ]))).rejects.toThrow('needs at least two postings');
+
+      await expect(service().post(manager, transfer([
+        { walletId: 'wallet-1', systemAccount: SystemAccount.TRANSFER_SUSPENSE, direction: PostingDirection.DEBIT, amount: 10, currency: 'USD' },
+        { walletId: 'wallet-2', direction: PostingDirection.CREDIT, amount: 10, currency: 'USD' },
+      ]))).rejects.toThrow('must target exactly one account');
+
+      await expect(service().post(manager, transfer([
+        { walletId: 'wallet-1', direction: PostingDirection.DEBIT, amount: 0, currency: 'USD' },
+        { walletId: 'wallet-2', direction: PostingDirection.CREDIT, amount: 0, currency: 'USD' },
+      ]))).rejects.toThrow('must have a positive amount');
+    });
+
+    it('skips an entry whose reference was already posted', async () => {
+      const { manager, saved, balanceUpdates } = createManager({ existingReferences: ['transaction-1:debit_source_wallet'] });
+
+      await service().post(manager, transfer([
+        { walletId: 'wallet-1', direction: PostingDirection.DEBIT, amount: 10, currency: 'USD' },
+        { systemAccount: SystemAccount.TRANSFER_SUSPENSE, direction: PostingDirection.CREDIT, amount: 10, currency: 'USD' },
+      ]));
+
+      expect(saved).toHaveLength(0);
+      expect(balanceUpdates).toHaveLength(0);
+    });
+  });
+
+  describe('auditWallet', () => {
+    const audit = (manager: any) =>
+      service({ transaction: async (_: string, work: (manager: any) => Promise<unknown>) => work(manager) })
+        .auditWallet('wallet-1');
+
+    it('is consistent when the projected balance equals the sum of the postings', async () => {
+      const { manager } = createManager({ wallet: { id: 'wallet-1', balance: '40.00' }, ledgerBalance: '40.00' });
+
+      await expect(audit(manager)).resolves.toEqual(
+        expect.objectContaining({ projectedBalance: '40.00', ledgerBalance: '40.00', postingCount: 2, consistent: true }),
+      );
+    });
+
+    it('flags a projected balance the postings do not explain', async () => {
+      const { manager } = createManager({ wallet: { id: 'wallet-1', balance: '150.00' }, ledgerBalance: '40.00' });
+
+      await expect(audit(manager)).resolves.toEqual(expect.objectContaining({ consistent: false }));
+    });
+  });
+
+  describe('backfillOpeningBalances', () => {
+    const runBackfill = (manager: any) =>
+      service({
+        getRepository: () => ({ find: async () => [{ id: 'wallet-1' }] }),
+        transaction: async (work: (manager: any) => Promise<unknown>) => work(manager),
+      }).backfillOpeningBalances();
+
+    it('posts the unexplained balance against OPENING_BALANCES without touching the balance', async () => {
+      const { manager, saved, balanceUpdates } = createManager({
+        wallet: { id: 'wallet-1', balance: '150.00', currency: 'USD' },
+        ledgerBalance: '40.00',
+      });
+
+      await expect(runBackfill(manager)).resolves.toEqual({ walletsChecked: 1, walletsBackfilled: 1 });
+
+      const [entry, postings] = saved;
+      expect(entry.reference).toBe('opening-balance:wallet-1');
+      expect(postings).toEqual([
+        expect.objectContaining({ walletId: 'wallet-1', direction: PostingDirection.CREDIT, amount: '110.00', currency: 'USD' }),
+        expect.objectContaining({ systemAccount: SystemAccount.OPENING_BALANCES, direction: PostingDirection.DEBIT, amount: '110.00' }),
+      ]);
+      expect(balanceUpdates).toHaveLength(0);
+    });
+
+    it('leaves wallets alone that were backfilled before or already match their postings', async () => {
+      const backfilled = createManager({
+        wallet: { id: 'wallet-1', balance: '150.00', currency: 'USD' },
+        existingReferences: ['opening-balance:wallet-1'],
+      });
+      const consistent = createManager({ wallet: { id: 'wallet-1', balance: '40.00', currency: 'USD' }, ledgerBalance: '40.00' });
+
+      await expect(runBackfill(backfilled.manager)).resolves.toEqual({ walletsChecked: 1, walletsBackfilled: 0 });
+      await expect(runBackfill(consistent.manager)).resolves.toEqual({ walletsChecked: 1, walletsBackfilled: 0 });
+      expect([...backfilled.saved, ...consistent.saved]).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,292 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, DataSource, EntityManager } from 'typeorm';
+import { JournalEntry } from '../../database/entities/journal-entry.entity';
+import { LedgerPosting, PostingDirection, SystemAccount } from '../../database/entities/ledger-posting.entity';
+import { Wallet } from '../../database/entities/wallet.entity';
+import { DecimalAmount, Money } from '../money/money';
+
+export interface PostingInput {
+  walletId?: string;
+  systemAccount?: SystemAccount;
+  direction: PostingDirection;
+  amount: DecimalAmount;
+  currency: string;
+}
+
+export interface JournalEntryInput {
+  reference: string;
+  transactionId?: string;
+  description?: string;
+  postings: PostingInput[];
+}
+
+export interface WalletMovementInput {
+  reference: string;
+  transactionId?: string;
+  description?: string;
+  walletId: string;
+  contraAccount: SystemAccount;
+  amount: DecimalAmount;
+  currency: string;
+}
+
+export interface LedgerAuditResult {
+  walletId: string;
+  projectedBalance: string;
+  ledgerBalance: string;
+  postingCount: number;
+  consistent: boolean;
+}
+
+export interface OpeningBalanceBackfillResult {
+  walletsChecked: number;
+  walletsBackfilled: number;
+}
+
+@Injectable()
+export class LedgerService {
+  private readonly logger = new Logger(LedgerService.name);
+
+  constructor(
+    @InjectRepository(LedgerPosting)
+    private postingRepository: Repository<LedgerPosting>,
+    private dataSource: DataSource,
+  ) {}
+
+  /**
+   * Append a balanced journal entry and project its postings onto wallet balances.
+   * Must be called with the manager of the surrounding DB transaction.
+   */
+  async post(manager: EntityManager, input: JournalEntryInput): Promise<JournalEntry> {
+    const existing = await manager.findOne(JournalEntry, {
+      where: { reference: input.reference },
+    });
+
+    if (existing) {
+      this.logger.debug(`Journal entry ${input.reference} already posted, skipping`);
+      return existing;
+    }
+
+    this.assertBalanced(input);
+    const entry = await this.writeEntry(manager, input);
+
+    // Wallet.balance is a projection of the postings written above
+    for (const posting of input.postings) {
+      if (!posting.walletId) continue;
+
+      const amount = Money.fromDecimal(posting.amount, posting.currency);
+      const delta = posting.direction === PostingDirection.CREDIT ? amount : amount.negate();
+      await manager
+        .createQueryBuilder()
+        .update(Wallet)
+        .set({ balance: () => 'balance + :delta' })
+        .setParameter('delta', delta.toString())
+        .where('id = :id', { id: posting.walletId })
+        .execute();
+    }
+
+    this.logger.debug(`Posted journal entry ${input.reference} with ${input.postings.length} postings`);
+    return entry;
+  }
+
+  async hasEntry(manager: EntityManager, reference: string): Promise<boolean> {
+    const count = await manager.count(JournalEntry, { where: { reference } });
+    return count > 0;
+  }
+
+  /**
+   * Debit a wallet against a system account (money leaves the wallet)
+   */
+  async debitWallet(manager: EntityManager, input: WalletMovementInput): Promise<JournalEntry> {
+    return this.post(manager, {
+      reference: input.reference,
+      transactionId: input.transactionId,
+      description: input.description,
+      postings: [
+        { walletId: input.walletId, direction: PostingDirection.DEBIT, amount: input.amount, currency: input.currency },
+        { systemAccount: input.contraAccount, direction: PostingDirection.CREDIT, amount: input.amount, currency: input.currency },
+      ],
+    });
+  }
+
+  /**
+   * Credit a wallet against a system account (money enters the wallet)
+   */
+  async creditWallet(manager: EntityManager, input: WalletMovementInput): Promise<JournalEntry> {
+    return this.post(manager, {
+      reference: input.reference,
+      transactionId: input.transactionId,
+      description: input.description,
+      postings: [
+        { systemAccount: input.contraAccount, direction: PostingDirection.DEBIT, amount: input.amount, currency: input.currency },
+        { walletId: input.walletId, direction: PostingDirection.CREDIT, amount: input.amount, currency: input.currency },
+      ],
+    });
+  }
+
+  /**
+   * Derive a wallet balance purely from its postings
+   */
+  async getDerivedBalance(walletId: string, manager?: EntityManager): Promise<{ balance: string; postingCount: number }> {
+    const repository = manager ? manager.getRepository(LedgerPosting) : this.postingRepository;
+
+    const result = await repository
+      .createQueryBuilder('posting')
+      .select(
+        `COALESCE(SUM(CASE WHEN posting.direction = :credit THEN posting.amount ELSE -posting.amount END), 0)`,
+        'balance',
+      )
+      .addSelect('COUNT(posting.id)', 'postingCount')
+      .where('posting.walletId = :walletId', { walletId })
+      .setParameter('credit', PostingDirection.CREDIT)
+      .getRawOne();
+
+    return {
+      balance: Money.fromDecimal(result.balance).toString(),
+      postingCount: Number(result.postingCount),
+    };
+  }
+
+  /**
+   * Verify that the projected Wallet.balance equals the sum of its postings
+   */
+  async auditWallet(walletId: string): Promise<LedgerAuditResult> {
+    return this.dataSource.transaction('REPEATABLE READ', async manager => {
+      const wallet = await manager.findOne(Wallet, { where: { id: walletId } });
+      if (!wallet) {
+        throw new Error(`Wallet ${walletId} not found`);
+      }
+
+      const { balance: ledgerBalance, postingCount } = await this.getDerivedBalance(walletId, manager);
+      const projectedBalance = wallet.balance;
+
+      return {
+        walletId,
+        projectedBalance,
+        ledgerBalance,
+        postingCount,
+        consistent: Money.fromDecimal(projectedBalance).equals(Money.fromDecimal(ledgerBalance)),
+      };
+    });
+  }
+
+  /**
+   * One-off for wallets funded before the ledger existed: posts the difference
+   * between each projected balance and its postings against OPENING_BALANCES,
+   * leaving the balance itself alone, so the audit holds. Safe to run again.
+   */
+  async backfillOpeningBalances(): Promise<OpeningBalanceBackfillResult> {
+    const wallets = await this.dataSource.getRepository(Wallet).find({
+      select: ['id'],
+      order: { createdAt: 'ASC' },
+    });
+
+    let walletsBackfilled = 0;
+    for (const { id } of wallets) {
+      const backfilled = await this.dataSource.transaction(async manager => {
+        // Locked so no posting lands between reading the balance and the postings
+        const wallet = await manager.findOne(Wallet, { where: { id }, lock: { mode: 'pessimistic_write' } });
+        const reference = `opening-balance:${wallet.id}`;
+
+        if (await this.hasEntry(manager, reference)) {
+          return false;
+        }
+
+        const { balance: ledgerBalance } = await this.getDerivedBalance(wallet.id, manager);
+        const gap = Money.fromDecimal(wallet.balance).subtract(Money.fromDecimal(ledgerBalance));
+        if (gap.isZero()) {
+          return false;
+        }
+
+        const amount = (gap.isNegative() ? gap.negate() : gap).toString();
+        const input: JournalEntryInput = {
+          reference,
+          description: 'Opening balance',
+          postings: [
+            {
+              walletId: wallet.id,
+              direction: gap.isPositive() ? PostingDirection.CREDIT : PostingDirection.DEBIT,
+              amount,
+              currency: wallet.currency,
+            },
+            {
+              systemAccount: SystemAccount.OPENING_BALANCES,
+              direction: gap.isPositive() ? PostingDirection.DEBIT : PostingDirection.CREDIT,
+              amount,
+              currency: wallet.currency,
+            },
+          ],
+        };
+
+        this.assertBalanced(input);
+        await this.writeEntry(manager, input);
+        return true;
+      });
+
+      if (backfilled) {
+        walletsBackfilled++;
+      }
+    }
+
+    this.logger.log(`Opening balance backfill: checked ${wallets.length} wallets, backfilled ${walletsBackfilled}`);
+    return { walletsChecked: wallets.length, walletsBackfilled };
+  }
+
+  /**
+   * Save an entry and its postings without projecting them onto wallet balances
+   */
+  private async writeEntry(manager: EntityManager, input: JournalEntryInput): Promise<JournalEntry> {
+    const entry = await manager.save(
+      manager.create(JournalEntry, {
+        reference: input.reference,
+        transactionId: input.transactionId,
+        description: input.description,
+      }),
+    );
+
+    const postings = input.postings.map(posting =>
+      manager.create(LedgerPosting, {
+        journalEntryId: entry.id,
+        walletId: posting.walletId,
+        systemAccount: posting.systemAccount,
+        direction: posting.direction,
+        amount: Money.fromDecimal(posting.amount).toString(),
+        currency: posting.currency,
+      }),
+    );
+    await manager.save(postings);
+
+    return entry;
+  }
+
+  /**
+   * Every entry must net to zero per currency
+   */
+  private assertBalanced(input: JournalEntryInput): void {
+    if (input.postings.length < 2) {
+      throw new Error(`Journal entry ${input.reference} needs at least two postings`);
+    }
+
+    const totals = new Map<string, Money>();
+    for (const posting of input.postings) {
+      if (!!posting.walletId === !!posting.systemAccount) {
+        throw new Error(`Posting in ${input.reference} must target exactly one account`);
+      }
+
+      const amount = Money.fromDecimal(posting.amount, posting.currency);
+      if (!amount.isPositive()) {
+        throw new Error(`Posting in ${input.reference} must have a positive amount`);
+      }
+
+      const signed = posting.direction === PostingDirection.CREDIT ? amount : amount.negate();
+      totals.set(posting.currency, (totals.get(posting.currency) || Money.zero(posting.currency)).add(signed));
+    }
+
+    for (const [currency, total] of totals) {
+      if (!total.isZero()) {
+        throw new Error(`Journal entry ${input.reference} is unbalanced in ${currency} by ${total}`);
+      }
+    }
+  }
+}
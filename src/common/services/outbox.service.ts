@@ -0,0 +1,51 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { EntityManager } from 'typeorm';
+import { OutboxEvent } from '../../database/entities/outbox-event.entity';
+import { Transaction } from '../../database/entities/transaction.entity';
+import { DomainEventType, DomainEventInput, AggregateType } from '../events/domain-event';
+
+@Injectable()
+export class OutboxService {
+  private readonly logger = new Logger(OutboxService.name);
+
+  /**
+   * Write an event to the outbox. Must be called with the manager of the DB
+   * transaction making the change, so the event exists exactly when the change does.
+   */
+  async record(manager: EntityManager, event: DomainEventInput): Promise<OutboxEvent> {
+    const saved = await manager.save(manager.create(OutboxEvent, event));
+
+    this.logger.debug(`Recorded ${event.type} for ${event.aggregateType} ${event.aggregateId}`);
+    return saved;
+  }
+
+  /**
+   * Record an event about a transaction, with its amounts and wallets as the payload
+   */
+  async recordTransactionEvent(
+    manager: EntityManager,
+    type: DomainEventType,
+    transaction: Transaction,
+    details: Record<string, any> = {},
+  ): Promise<OutboxEvent> {
+    return this.record(manager, {
+      type,
+      aggregateType: AggregateType.TRANSACTION,
+      aggregateId: transaction.id,
+      payload: {
+        transactionId: transaction.id,
+        transactionType: transaction.type,
+        status: transaction.status,
+        sourceWalletId: transaction.sourceWalletId || null,
+        destinationWalletId: transaction.destinationWalletId || null,
+        amount: transaction.amount,
+        feeAmount: transaction.feeAmount || 0,
+        destinationAmount: transaction.destinationAmount || null,
+        destinationCurrency: transaction.destinationCurrency || null,
+        parentTransactionId: transaction.parentTransactionId || null,
+        externalReferenceId: transaction.externalReferenceId || null,
+        ...details,
+      },
+    });
+  }
+}
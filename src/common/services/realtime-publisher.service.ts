@@ -0,0 +1,45 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Transaction } from '../../database/entities/transaction.entity';
+import { CacheService } from '../../cache/cache.service';
+import { REALTIME_CHANNEL, RealtimeEvent, RealtimeEventType } from '../events/realtime-event';
+
+/**
+ * Publishes wallet updates to every app instance through Redis pub/sub. Pushes
+ * are best effort: a client that misses one catches up from the REST endpoints,
+ * so a publish failure is logged and never fails the caller.
+ */
+@Injectable()
+export class RealtimePublisherService {
+  private readonly logger = new Logger(RealtimePublisherService.name);
+
+  constructor(private cacheService: CacheService) {}
+
+  async publish(type: RealtimeEventType, walletId: string, data: Record<string, any>): Promise<void> {
+    const event: RealtimeEvent = { type, walletId, data, occurredAt: new Date().toISOString() };
+
+    try {
+      await this.cacheService.publish(REALTIME_CHANNEL, JSON.stringify(event));
+    } catch (error) {
+      this.logger.warn(`Could not publish ${type} for wallet ${walletId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tell both sides of a transaction that its saga moved to a new transfer state
+   */
+  async publishTransferState(transaction: Transaction): Promise<void> {
+    const walletIds = new Set([transaction.sourceWalletId, transaction.destinationWalletId].filter(Boolean));
+
+    for (const walletId of walletIds) {
+      await this.publish(RealtimeEventType.TRANSFER_STATE_CHANGED, walletId, {
+        transactionId: transaction.id,
+        transactionType: transaction.type,
+        status: transaction.status,
+        transferState: transaction.transferState,
+        amount: transaction.amount,
+        sourceWalletId: transaction.sourceWalletId || null,
+        destinationWalletId: transaction.destinationWalletId || null,
+      });
+    }
+  }
+}
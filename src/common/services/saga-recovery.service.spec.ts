@@ -0,0 +1,136 @@
+import { Logger } from '@nestjs/common';
+import { Transaction, TransactionStatus, TransferState } from '../../database/entities/transaction.entity';
+import { SagaRecoveryService } from './saga-recovery.service';
+
+describe('SagaRecoveryService', () => {
+  const stuck = (data: Partial<Transaction>) =>
+    Object.assign(new Transaction(), { id: 'transaction-1', status: TransactionStatus.PROCESSING, metadata: {}, ...data });
+
+  const createService = (candidates: Transaction[], claimed = 1) => {
+    const queryBuilder: any = {};
+    for (const method of ['where', 'andWhere', 'orderBy', 'take', 'update', 'set']) {
+      queryBuilder[method] = jest.fn(() => queryBuilder);
+    }
+    queryBuilder.getMany = jest.fn(async () => candidates);
+    queryBuilder.execute = jest.fn(async () => ({ affected: claimed }));
+
+    const transactionRepository = {
+      createQueryBuilder: jest.fn(() => queryBuilder),
+      save: jest.fn(async transaction => transaction),
+    };
+    const sagaService = {
+      resumeSaga: jest.fn(async () => undefined),
+      compensatePersistedSaga: jest.fn(async () => undefined),
+      hasPassedPointOfNoReturn: jest.fn((transaction: Transaction) =>
+        transaction.sagaState.completedSteps.includes('debit_source_wallet'),
+      ),
+    };
+    const configService = { get: jest.fn((_, fallback) => fallback) };
+
+    const service = new SagaRecoveryService(transactionRepository as any, sagaService as any, configService as any);
+    return { service, transactionRepository, sagaService, queryBuilder };
+  };
+
+  beforeAll(() => Logger.overrideLogger(false));
+
+  it('resumes a saga that already debited the source wallet', async () => {
+    const transaction = stuck({
+      transferState: TransferState.DEBIT_COMPLETE,
+      sagaState: { context: {}, completedSteps: ['validate_transfer', 'reserve_funds', 'debit_source_wallet'] },
+    });
+    const { service, sagaService } = createService([transaction]);
+
+    const report = await service.runRecovery('manual');
+
+    expect(sagaService.resumeSaga).toHaveBeenCalledWith(transaction);
+    expect(sagaService.compensatePersistedSaga).not.toHaveBeenCalled();
+    expect(report).toEqual(expect.objectContaining({ scanned: 1, resumed: 1, compensated: 0 }));
+    expect(transaction.metadata.recovery).toEqual(expect.objectContaining({ action: 'resumed' }));
+  });
+
+  it('resumes a saga interrupted after it collected the fee', async () => {
+    const transaction = stuck({
+      transferState: TransferState.FEE_COLLECTED,
+      sagaState: {
+        context: {},
+        completedSteps: ['validate_transfer', 'reserve_funds', 'debit_source_wallet', 'credit_destination_wallet', 'collect_fee'],
+      },
+    });
+    const { service, sagaService, queryBuilder } = createService([transaction]);
+
+    const report = await service.runRecovery('manual');
+
+    expect(queryBuilder.where).toHaveBeenCalledWith(
+      'transaction.transferState IN (:...states)',
+      { states: expect.arrayContaining([TransferState.FEE_COLLECTED]) },
+    );
+    expect(sagaService.resumeSaga).toHaveBeenCalledWith(transaction);
+    expect(report.resumed).toBe(1);
+  });
+
+  it('compensates a saga interrupted before the point of no return', async () => {
+    const transaction = stuck({
+      transferState: TransferState.FUNDS_RESERVED,
+      sagaState: { context: {}, completedSteps: ['validate_transfer', 'reserve_funds'] },
+    });
+    const { service, sagaService } = createService([transaction]);
+
+    const report = await service.runRecovery('manual');
+
+    expect(sagaService.compensatePersistedSaga).toHaveBeenCalledWith(transaction);
+    expect(sagaService.resumeSaga).not.toHaveBeenCalled();
+    expect(report.compensated).toBe(1);
+  });
+
+  it('compensates a saga that was already unwinding, even past the debit', async () => {
+    const transaction = stuck({
+      transferState: TransferState.COMPENSATION_PENDING,
+      sagaState: { context: {}, completedSteps: ['validate_transfer', 'reserve_funds', 'debit_source_wallet'] },
+    });
+    const { service, sagaService } = createService([transaction]);
+
+    await service.runRecovery('manual');
+
+    expect(sagaService.compensatePersistedSaga).toHaveBeenCalledWith(transaction);
+    expect(sagaService.resumeSaga).not.toHaveBeenCalled();
+  });
+
+  it('fails a transaction that crashed before its saga was persisted', async () => {
+    const transaction = stuck({ transferState: TransferState.INITIATED, sagaState: null });
+    const { service, sagaService, transactionRepository } = createService([transaction]);
+
+    const report = await service.runRecovery('startup');
+
+    expect(report.items[0]).toEqual(expect.objectContaining({ action: 'failed_without_saga', outcome: TransactionStatus.FAILED }));
+    expect(transaction.transferState).toBe(TransferState.FAILED);
+    expect(transactionRepository.save).toHaveBeenCalledWith(transaction);
+    expect(sagaService.resumeSaga).not.toHaveBeenCalled();
+    expect(sagaService.compensatePersistedSaga).not.toHaveBeenCalled();
+  });
+
+  it('leaves a transaction alone when another instance claimed it first', async () => {
+    const transaction = stuck({ transferState: TransferState.DEBIT_COMPLETE, sagaState: { context: {}, completedSteps: [] } });
+    const { service, sagaService, transactionRepository } = createService([transaction], 0);
+
+    const report = await service.runRecovery('scheduled');
+
+    expect(report).toEqual(expect.objectContaining({ scanned: 1, items: [] }));
+    expect(sagaService.compensatePersistedSaga).not.toHaveBeenCalled();
+    expect(transactionRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('records the error when recovery itself fails', async () => {
+    const transaction = stuck({
+      transferState: TransferState.CREDIT_COMPLETE,
+      sagaState: { context: {}, completedSteps: ['debit_source_wallet'] },
+    });
+    const { service, sagaService } = createService([transaction]);
+    sagaService.resumeSaga.mockRejectedValueOnce(new Error('credit failed'));
+
+    const report = await service.runRecovery('manual');
+
+    expect(report.errors).toBe(1);
+    expect(report.items[0].error).toBe('credit failed');
+    expect(service.getReports()[0]).toBe(report);
+  });
+});
@@ -0,0 +1,221 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { Transaction, TransactionStatus, TransferState } from '../../database/entities/transaction.entity';
+import { SagaService, SagaState } from './saga.service';
+
+export type SagaRecoveryTrigger = 'startup' | 'scheduled' | 'manual';
+
+export type SagaRecoveryAction = 'resumed' | 'compensated' | 'failed_without_saga' | 'skipped';
+
+export interface SagaRecoveryItem {
+  transactionId: string;
+  previousState: TransferState;
+  completedSteps: string[];
+  action: SagaRecoveryAction;
+  outcome: TransactionStatus;
+  error?: string;
+}
+
+export interface SagaRecoveryReport {
+  trigger: SagaRecoveryTrigger;
+  startedAt: Date;
+  finishedAt: Date;
+  scanned: number;
+  resumed: number;
+  compensated: number;
+  errors: number;
+  items: SagaRecoveryItem[];
+}
+
+// Transfer states in which a saga may have been interrupted
+const IN_FLIGHT_STATES = [
+  TransferState.INITIATED,
+  TransferState.VALIDATION_COMPLETE,
+  TransferState.FUNDS_RESERVED,
+  TransferState.DEBIT_COMPLETE,
+  TransferState.CREDIT_COMPLETE,
+  TransferState.FEE_COLLECTED,
+  TransferState.COMPENSATION_PENDING,
+];
+
+@Injectable()
+export class SagaRecoveryService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(SagaRecoveryService.name);
+  private readonly MAX_REPORTS = 20;
+  private readonly BATCH_SIZE = 50;
+  private recoveryTimer: NodeJS.Timeout;
+  private running = false;
+  private reports: SagaRecoveryReport[] = [];
+
+  constructor(
+    @InjectRepository(Transaction)
+    private transactionRepository: Repository<Transaction>,
+    private sagaService: SagaService,
+    private configService: ConfigService,
+  ) {}
+
+  onApplicationBootstrap() {
+    // Recover in the background so a large backlog does not block startup
+    this.runRecovery('startup').catch(error => this.logger.error('Startup saga recovery failed:', error));
+
+    const intervalMs = Number(this.configService.get('SAGA_RECOVERY_INTERVAL_MS', 60000));
+    this.recoveryTimer = setInterval(() => {
+      this.runRecovery('scheduled').catch(error => this.logger.error('Scheduled saga recovery failed:', error));
+    }, intervalMs);
+  }
+
+  onModuleDestroy() {
+    if (this.recoveryTimer) {
+      clearInterval(this.recoveryTimer);
+    }
+  }
+
+  /**
+   * Find sagas that stopped mid-flight and resume or compensate them
+   */
+  async runRecovery(trigger: SagaRecoveryTrigger): Promise<SagaRecoveryReport | null> {
+    if (this.running) {
+      this.logger.debug('Saga recovery already running, skipping');
+      return null;
+    }
+
+    this.running = true;
+    const report: SagaRecoveryReport = {
+      trigger,
+      startedAt: new Date(),
+      finishedAt: null,
+      scanned: 0,
+      resumed: 0,
+      compensated: 0,
+      errors: 0,
+      items: [],
+    };
+
+    try {
+      const candidates = await this.findStuckTransactions();
+      report.scanned = candidates.length;
+
+      for (const candidate of candidates) {
+        // Claim the transaction so another instance does not recover it concurrently
+        if (!(await this.claim(candidate))) continue;
+
+        const item = await this.recoverTransaction(candidate);
+        report.items.push(item);
+
+        if (item.action === 'resumed') report.resumed++;
+        if (item.action === 'compensated' || item.action === 'failed_without_saga') report.compensated++;
+        if (item.error) report.errors++;
+      }
+    } finally {
+      report.finishedAt = new Date();
+      this.running = false;
+      this.recordReport(report);
+    }
+
+    if (report.items.length > 0) {
+      this.logger.warn(
+        `Saga recovery (${trigger}): scanned=${report.scanned}, resumed=${report.resumed}, ` +
+        `compensated=${report.compensated}, errors=${report.errors}`
+      );
+    }
+
+    return report;
+  }
+
+  /**
+   * Transactions whose saga has not progressed within the staleness window
+   */
+  async findStuckTransactions(): Promise<Transaction[]> {
+    return this.transactionRepository
+      .createQueryBuilder('transaction')
+      .where('transaction.transferState IN (:...states)', { states: IN_FLIGHT_STATES })
+      .andWhere('transaction.status IN (:...statuses)', {
+        statuses: [TransactionStatus.PENDING, TransactionStatus.PROCESSING, TransactionStatus.FAILED],
+      })
+      .andWhere('transaction.updatedAt < :staleBefore', { staleBefore: new Date(Date.now() - this.getStaleAfterMs()) })
+      .orderBy('transaction.updatedAt', 'ASC')
+      .take(this.BATCH_SIZE)
+      .getMany();
+  }
+
+  getReports(): SagaRecoveryReport[] {
+    return [...this.reports];
+  }
+
+  private async recoverTransaction(transaction: Transaction): Promise<SagaRecoveryItem> {
+    const sagaState = transaction.sagaState as SagaState;
+    const item: SagaRecoveryItem = {
+      transactionId: transaction.id,
+      previousState: transaction.transferState,
+      completedSteps: sagaState?.completedSteps || [],
+      action: 'skipped',
+      outcome: transaction.status,
+    };
+
+    try {
+      if (!sagaState?.context) {
+        // Crashed before the saga persisted anything, so no funds moved
+        item.action = 'failed_without_saga';
+        transaction.status = TransactionStatus.FAILED;
+        transaction.transferState = TransferState.FAILED;
+        transaction.failedAt = new Date();
+        transaction.errorDetails = { message: 'Saga interrupted before it started', errorCode: 'saga_interrupted' };
+      } else if (
+        transaction.status !== TransactionStatus.FAILED &&
+        transaction.transferState !== TransferState.COMPENSATION_PENDING &&
+        this.sagaService.hasPassedPointOfNoReturn(transaction)
+      ) {
+        // Money already left the source wallet, so drive the saga forward rather than unwind it
+        item.action = 'resumed';
+        await this.sagaService.resumeSaga(transaction);
+      } else {
+        item.action = 'compensated';
+        await this.sagaService.compensatePersistedSaga(transaction);
+      }
+    } catch (error) {
+      // A failed resume has already been compensated by the saga itself
+      item.error = error.message;
+      this.logger.error(`Recovery of transaction ${transaction.id} failed:`, error);
+    }
+
+    transaction.metadata = {
+      ...transaction.metadata,
+      recovery: {
+        action: item.action,
+        previousState: item.previousState,
+        recoveredAt: new Date().toISOString(),
+        error: item.error,
+      },
+    };
+    await this.transactionRepository.save(transaction);
+
+    item.outcome = transaction.status;
+    return item;
+  }
+
+  /**
+   * Claim by bumping updatedAt; only one instance sees the row as still stale
+   */
+  private async claim(transaction: Transaction): Promise<boolean> {
+    const result = await this.transactionRepository
+      .createQueryBuilder()
+      .update(Transaction)
+      .set({ updatedAt: () => 'CURRENT_TIMESTAMP' })
+      .where('id = :id', { id: transaction.id })
+      .andWhere('"updatedAt" < :staleBefore', { staleBefore: new Date(Date.now() - this.getStaleAfterMs()) })
+      .execute();
+
+    return result.affected === 1;
+  }
+
+  private getStaleAfterMs(): number {
+    return Number(this.configService.get('SAGA_RECOVERY_STALE_AFTER_MS', 120000));
+  }
+
+  private recordReport(report: SagaRecoveryReport): void {
+    this.reports.unshift(report);
+    this.reports = this.reports.slice(0, this.MAX_REPORTS);
+  }
+}
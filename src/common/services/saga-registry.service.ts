@@ -0,0 +1,96 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { TransactionStatus, TransferState } from '../../database/entities/transaction.entity';
+import { DomainEventType } from '../events/domain-event';
+import { DecimalAmount } from '../money/money';
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitter: boolean;
+}
+
+export interface SagaContext {
+  transactionId: string;
+  sourceWalletId: string;
+  destinationWalletId: string;
+  amount: DecimalAmount;
+  userId: string;
+  idempotencyKey: string;
+  externalReferenceId?: string;
+  metadata: Record<string, any>;
+}
+
+/**
+ * A named saga step. Steps receive the context instead of closing over it,
+ * so a definition can be rebuilt from the step names persisted in SagaState.
+ */
+export interface SagaStepDefinition<C extends SagaContext = SagaContext> {
+  name: string;
+  execute: (context: C) => Promise<void>;
+  compensate?: (context: C) => Promise<void>;
+  // Transfer state recorded once the step has completed
+  state?: TransferState;
+  // The step keeps running after a timeout, so only set one where abandoning it is harmless
+  timeoutMs?: number;
+  retryPolicy?: RetryPolicy;
+  // Once completed, an interrupted saga is resumed forward instead of compensated
+  pointOfNoReturn?: boolean;
+  // The saga stops after this step with the transaction pending, until resumed or compensated
+  suspend?: boolean;
+}
+
+export interface SagaDefinition<C extends SagaContext = SagaContext> {
+  name: string;
+  steps: SagaStepDefinition<C>[];
+  // Status and state applied when every step has completed
+  completedStatus?: TransactionStatus;
+  completedState?: TransferState;
+  // Outbox events recorded on completion, and when a failed step made the saga compensate
+  completedEvent?: DomainEventType;
+  failedEvent?: DomainEventType;
+}
+
+export const NO_RETRY: RetryPolicy = {
+  maxRetries: 0,
+  baseDelayMs: 0,
+  maxDelayMs: 0,
+  jitter: false,
+};
+
+@Injectable()
+export class SagaRegistryService {
+  private readonly logger = new Logger(SagaRegistryService.name);
+  private readonly definitions = new Map<string, SagaDefinition<any>>();
+
+  register<C extends SagaContext>(definition: SagaDefinition<C>): void {
+    if (this.definitions.has(definition.name)) {
+      throw new Error(`Saga ${definition.name} is already registered`);
+    }
+
+    const stepNames = new Set<string>();
+    for (const step of definition.steps) {
+      if (stepNames.has(step.name)) {
+        throw new Error(`Saga ${definition.name} has duplicate step ${step.name}`);
+      }
+      stepNames.add(step.name);
+    }
+
+    this.definitions.set(definition.name, definition);
+    this.logger.log(`Registered saga ${definition.name} with steps [${[...stepNames].join(', ')}]`);
+  }
+
+  get<C extends SagaContext = SagaContext>(name: string): SagaDefinition<C> {
+    const definition = this.definitions.get(name);
+
+    if (!definition) {
+      throw new Error(`Saga ${name} is not registered`);
+    }
+
+    return definition;
+  }
+
+  list(): string[] {
+    return [...this.definitions.keys()];
+  }
+}
@@ -0,0 +1,132 @@
+import { Logger } from '@nestjs/common';
+import { Transaction, TransactionStatus } from '../../database/entities/transaction.entity';
+import { SagaService } from './saga.service';
+import { SagaContext, SagaRegistryService, RetryPolicy } from './saga-registry.service';
+
+describe('SagaService', () => {
+  const policy: RetryPolicy = { maxRetries: 3, baseDelayMs: 100, maxDelayMs: 250, jitter: false };
+  const context: SagaContext = {
+    transactionId: 'transaction-1',
+    sourceWalletId: 'source',
+    destinationWalletId: 'destination',
+    amount: 10,
+    userId: 'user-1',
+    idempotencyKey: 'key-1',
+    metadata: {},
+  };
+
+  let registry: SagaRegistryService;
+  let service: SagaService;
+  let delays: number[];
+
+  beforeAll(() => Logger.overrideLogger(false));
+
+  beforeEach(() => {
+    const manager = { save: jest.fn(async entity => entity) };
+    const transactionRepository = {
+      save: jest.fn(async entity => entity),
+      manager: { transaction: jest.fn(async work => work(manager)) },
+    };
+
+    registry = new SagaRegistryService();
+    service = new SagaService(
+      transactionRepository as any,
+      registry,
+      { recordTransactionEvent: jest.fn() } as any,
+      { publishTransferState: jest.fn() } as any,
+    );
+
+    delays = [];
+    jest.spyOn(service as any, 'sleep').mockImplementation(async (ms: number) => {
+      delays.push(ms);
+    });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  const failingTimes = (failures: number) => {
+    let calls = 0;
+    return jest.fn(async () => {
+      if (calls++ < failures) {
+        throw new Error(`attempt ${calls} failed`);
+      }
+    });
+  };
+
+  it('backs off exponentially between attempts and succeeds once a retry does', async () => {
+    const execute = failingTimes(2);
+    registry.register({ name: 'retrying', steps: [{ name: 'flaky', retryPolicy: policy, execute }] });
+
+    const result = await service.executeSaga('retrying', Object.assign(new Transaction(), { id: 'transaction-1' }), context);
+
+    expect(execute).toHaveBeenCalledTimes(3);
+    expect(delays).toEqual([100, 200]);
+    expect(result.status).toBe(TransactionStatus.COMPLETED);
+  });
+
+  it('caps the delay and compensates once the retries run out', async () => {
+    const compensate = jest.fn();
+    registry.register({
+      name: 'exhausted',
+      steps: [
+        { name: 'first', execute: async () => undefined, compensate },
+        { name: 'broken', retryPolicy: policy, execute: failingTimes(Infinity) },
+      ],
+    });
+
+    const transaction = Object.assign(new Transaction(), { id: 'transaction-1' });
+    await expect(service.executeSaga('exhausted', transaction, context)).rejects.toThrow('attempt 4 failed');
+
+    expect(delays).toEqual([100, 200, 250]);
+    expect(compensate).toHaveBeenCalledTimes(1);
+    expect(transaction.status).toBe(TransactionStatus.FAILED);
+  });
+
+  it('keeps jittered delays between half and all of the exponential delay', async () => {
+    registry.register({
+      name: 'jittered',
+      steps: [{ name: 'flaky', retryPolicy: { ...policy, jitter: true }, execute: failingTimes(3) }],
+    });
+
+    jest.spyOn(Math, 'random').mockReturnValueOnce(0).mockReturnValueOnce(0.5).mockReturnValueOnce(1);
+    await service.executeSaga('jittered', Object.assign(new Transaction(), { id: 'transaction-1' }), context);
+
+    expect(delays).toEqual([50, 150, 250]);
+  });
+
+  it('fails a step that runs past its timeout', async () => {
+    jest.useFakeTimers();
+    try {
+      registry.register({
+        name: 'slow',
+        steps: [{ name: 'hangs', timeoutMs: 50, execute: () => new Promise<void>(() => undefined) }],
+      });
+
+      const transaction = Object.assign(new Transaction(), { id: 'transaction-1' });
+      const running = service.executeSaga('slow', transaction, context);
+      const settled = expect(running).rejects.toThrow('Saga step hangs timed out after 50ms');
+      await jest.advanceTimersByTimeAsync(50);
+
+      await settled;
+      expect(transaction.status).toBe(TransactionStatus.FAILED);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('resumes a persisted saga from the first step that has not completed', async () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    registry.register({ name: 'resumable', steps: [{ name: 'first', execute: first }, { name: 'second', execute: second }] });
+
+    const transaction = Object.assign(new Transaction(), {
+      id: 'transaction-1',
+      sagaState: { sagaName: 'resumable', currentStep: 0, completedSteps: ['first'], compensatedSteps: [], retryCount: 0, context },
+    });
+    await service.resumeSaga(transaction);
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledWith(context);
+    expect(transaction.status).toBe(TransactionStatus.COMPLETED);
+  });
+});
@@ -1,30 +1,21 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, DataSource } from 'typeorm';
+import { Repository } from 'typeorm';
 import { Transaction, TransactionStatus, TransferState } from '../../database/entities/transaction.entity';
-import { Wallet } from '../../database/entities/wallet.entity';
-import { CacheService } from '../../cache/cache.service';
-
-export interface SagaStep {
-  name: string;
-  execute: () => Promise<any>;
-  compensate: () => Promise<any>;
-  retryable: boolean;
-  maxRetries: number;
-}
-
-export interface SagaContext {
-  transactionId: string;
-  sourceWalletId: string;
-  destinationWalletId: string;
-  amount: number;
-  userId: string;
-  idempotencyKey: string;
-  externalReferenceId?: string;
-  metadata: Record<string, any>;
-}
+import { OutboxService } from './outbox.service';
+import { RealtimePublisherService } from './realtime-publisher.service';
+import { DomainEventType } from '../events/domain-event';
+import {
+  SagaRegistryService,
+  SagaContext,
+  SagaDefinition,
+  SagaStepDefinition,
+  RetryPolicy,
+  NO_RETRY,
+} from './saga-registry.service';
 
 export interface SagaState {
+  sagaName: string;
   currentStep: number;
   completedSteps: string[];
   compensatedSteps: string[];
@@ -33,6 +24,9 @@ export interface SagaState {
   context: SagaContext;
 }
 
+// Sagas persisted before definitions were named all ran the transfer steps
+const LEGACY_SAGA_NAME = 'transfer';
+
 @Injectable()
 export class SagaService {
   private readonly logger = new Logger(SagaService.name);
@@ -40,21 +34,22 @@ export class SagaService {
   constructor(
     @InjectRepository(Transaction)
     private transactionRepository: Repository<Transaction>,
-    @InjectRepository(Wallet)
-    private walletRepository: Repository<Wallet>,
-    private cacheService: CacheService,
-    private dataSource: DataSource,
+    private sagaRegistry: SagaRegistryService,
+    private outboxService: OutboxService,
+    private realtimePublisher: RealtimePublisherService,
   ) {}
 
   /**
-   * Execute a saga with automatic compensation on failure
+   * Execute a registered saga with automatic compensation on failure
    */
   async executeSaga(
+    sagaName: string,
     transaction: Transaction,
-    steps: SagaStep[],
     context: SagaContext
   ): Promise<Transaction> {
+    const definition = this.sagaRegistry.get(sagaName);
     const sagaState: SagaState = {
+      sagaName,
       currentStep: 0,
       completedSteps: [],
       compensatedSteps: [],
@@ -62,106 +57,275 @@ export class SagaService {
       context,
     };
 
+    await this.updateTransactionStatus(transaction, TransactionStatus.PROCESSING);
+
+    return this.runSaga(transaction, definition, sagaState);
+  }
+
+  /**
+   * Continue a persisted saga from the first step that has not completed
+   */
+  async resumeSaga(transaction: Transaction): Promise<Transaction> {
+    const sagaState = this.getPersistedSagaState(transaction);
+    const definition = this.sagaRegistry.get(sagaState.sagaName);
+
+    this.logger.warn(
+      `Resuming ${sagaState.sagaName} saga for transaction ${transaction.id} ` +
+      `after steps [${sagaState.completedSteps.join(', ')}]`
+    );
+
+    return this.runSaga(transaction, definition, sagaState);
+  }
+
+  /**
+   * Compensate the completed steps of a persisted saga that were not yet compensated
+   */
+  async compensatePersistedSaga(transaction: Transaction): Promise<void> {
+    const sagaState = this.getPersistedSagaState(transaction);
+    const definition = this.sagaRegistry.get(sagaState.sagaName);
+
+    await this.compensateSaga(transaction, definition, sagaState);
+  }
+
+  /**
+   * Whether a persisted saga completed a step after which it must be driven forward
+   */
+  hasPassedPointOfNoReturn(transaction: Transaction): boolean {
+    const sagaState = this.getPersistedSagaState(transaction);
+    const definition = this.sagaRegistry.get(sagaState.sagaName);
+
+    return definition.steps.some(
+      step => step.pointOfNoReturn && sagaState.completedSteps.includes(step.name)
+    );
+  }
+
+  private async runSaga(
+    transaction: Transaction,
+    definition: SagaDefinition,
+    sagaState: SagaState
+  ): Promise<Transaction> {
     try {
       // Initialize saga state in transaction
       await this.updateSagaState(transaction, sagaState);
 
       // Execute all steps
-      for (let i = 0; i < steps.length; i++) {
-        const step = steps[i];
+      for (let i = 0; i < definition.steps.length; i++) {
+        const step = definition.steps[i];
         sagaState.currentStep = i;
 
-        this.logger.log(`Executing saga step ${i}: ${step.name} for transaction ${transaction.id}`);
-
-        try {
-          await step.execute();
-          sagaState.completedSteps.push(step.name);
-          
-          // Update progress
-          await this.updateSagaState(transaction, sagaState);
-          await this.updateTransferState(transaction, this.getTransferStateForStep(i));
-          
-        } catch (stepError) {
-          this.logger.error(`Saga step ${step.name} failed:`, stepError);
-          sagaState.lastError = stepError;
-
-          // Attempt retry if step is retryable
-          if (step.retryable && sagaState.retryCount < step.maxRetries) {
-            sagaState.retryCount++;
-            await this.updateSagaState(transaction, sagaState);
-            
-            this.logger.log(`Retrying step ${step.name}, attempt ${sagaState.retryCount}`);
-            i--; // Retry current step
-            continue;
-          }
+        // Skip steps already completed before a resume
+        if (sagaState.completedSteps.includes(step.name)) {
+          continue;
+        }
 
-          // Step failed, start compensation
-          throw stepError;
+        await this.executeStepWithRetry(transaction, step, sagaState);
+        sagaState.completedSteps.push(step.name);
+
+        // Update progress
+        await this.updateSagaState(transaction, sagaState);
+        if (step.state) {
+          await this.updateTransferState(transaction, step.state);
+        }
+
+        if (step.suspend) {
+          await this.suspendSaga(transaction, definition, step);
+          return transaction;
         }
       }
 
       // All steps completed successfully
-      await this.completeSaga(transaction, sagaState);
+      await this.completeSaga(transaction, definition);
       return transaction;
 
     } catch (error) {
       // Execute compensation for completed steps
-      await this.compensateSaga(transaction, steps, sagaState);
+      await this.compensateSaga(transaction, definition, sagaState, true);
       throw error;
     }
   }
 
   /**
-   * Compensate completed saga steps in reverse order
+   * Run one step, retrying with exponential backoff according to its policy
    */
-  private async compensateSaga(
+  private async executeStepWithRetry(
     transaction: Transaction,
-    steps: SagaStep[],
+    step: SagaStepDefinition,
     sagaState: SagaState
   ): Promise<void> {
-    this.logger.error(`Starting saga compensation for transaction ${transaction.id}`);
+    const retryPolicy = step.retryPolicy || NO_RETRY;
+
+    for (let attempt = 0; ; attempt++) {
+      this.logger.log(
+        `Executing ${sagaState.sagaName} saga step ${sagaState.currentStep}: ${step.name} ` +
+        `for transaction ${transaction.id}` + (attempt > 0 ? `, attempt ${attempt + 1}` : '')
+      );
+
+      try {
+        await this.withTimeout(step.execute(sagaState.context), step);
+        return;
+      } catch (stepError) {
+        this.logger.error(`Saga step ${step.name} failed:`, stepError);
+        sagaState.lastError = stepError;
+
+        if (attempt >= retryPolicy.maxRetries) {
+          // Step failed, start compensation
+          throw stepError;
+        }
+
+        sagaState.retryCount++;
+        await this.updateSagaState(transaction, sagaState);
+
+        const delayMs = this.getBackoffDelay(retryPolicy, attempt);
+        this.logger.log(`Retrying step ${step.name} in ${delayMs}ms`);
+        await this.sleep(delayMs);
+      }
+    }
+  }
+
+  private async withTimeout(work: Promise<void>, step: SagaStepDefinition): Promise<void> {
+    if (!step.timeoutMs) {
+      return work;
+    }
+
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Saga step ${step.name} timed out after ${step.timeoutMs}ms`)),
+        step.timeoutMs,
+      );
+    });
+
+    try {
+      await Promise.race([work, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Exponential backoff capped at maxDelayMs, with optional "equal jitter"
+   */
+  private getBackoffDelay(retryPolicy: RetryPolicy, attempt: number): number {
+    const exponential = Math.min(retryPolicy.maxDelayMs, retryPolicy.baseDelayMs * 2 ** attempt);
+
+    if (!retryPolicy.jitter) {
+      return exponential;
+    }
+
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  private getPersistedSagaState(transaction: Transaction): SagaState {
+    const sagaState = transaction.sagaState as SagaState;
+
+    if (!sagaState?.context) {
+      throw new Error(`Transaction ${transaction.id} has no persisted saga state`);
+    }
+
+    sagaState.sagaName = sagaState.sagaName || LEGACY_SAGA_NAME;
+    sagaState.completedSteps = sagaState.completedSteps || [];
+    sagaState.compensatedSteps = sagaState.compensatedSteps || [];
+    return sagaState;
+  }
+
+  /**
+   * Compensate completed saga steps in reverse order. Failed means a step of this
+   * run failed, as opposed to a suspended saga being cancelled or recovered.
+   */
+  private async compensateSaga(
+    transaction: Transaction,
+    definition: SagaDefinition,
+    sagaState: SagaState,
+    failed = false
+  ): Promise<void> {
+    this.logger.error(`Starting ${definition.name} saga compensation for transaction ${transaction.id}`);
 
     // Update transaction status
     await this.updateTransactionStatus(transaction, TransactionStatus.FAILED);
     await this.updateTransferState(transaction, TransferState.COMPENSATION_PENDING);
 
-    // Compensate completed steps in reverse order
-    const completedSteps = sagaState.completedSteps.reverse();
-    
+    // Compensate completed steps in reverse order, skipping any compensated before a crash
+    const completedSteps = [...sagaState.completedSteps]
+      .reverse()
+      .filter(stepName => !sagaState.compensatedSteps.includes(stepName));
+
     for (const stepName of completedSteps) {
-      const step = steps.find(s => s.name === stepName);
+      const step = definition.steps.find(s => s.name === stepName);
       if (!step) continue;
 
       try {
         this.logger.log(`Compensating step: ${stepName}`);
-        await step.compensate();
+        if (step.compensate) {
+          await step.compensate(sagaState.context);
+        }
         sagaState.compensatedSteps.push(stepName);
-        
+        await this.updateSagaState(transaction, sagaState);
+
       } catch (compensationError) {
         this.logger.error(`Compensation failed for step ${stepName}:`, compensationError);
         // Continue with other compensations even if one fails
       }
     }
 
-    // Update final state
-    await this.updateTransferState(transaction, TransferState.COMPENSATED);
-    await this.updateSagaState(transaction, sagaState);
-    
+    // Update final state, announcing the compensation with it
+    await this.transactionRepository.manager.transaction(async manager => {
+      transaction.transferState = TransferState.COMPENSATED;
+      transaction.sagaState = sagaState;
+      await manager.save(transaction);
+
+      await this.outboxService.recordTransactionEvent(manager, DomainEventType.SAGA_COMPENSATED, transaction, {
+        sagaName: definition.name,
+        compensatedSteps: sagaState.compensatedSteps,
+        error: sagaState.lastError?.message || null,
+      });
+
+      if (failed && definition.failedEvent) {
+        await this.outboxService.recordTransactionEvent(manager, definition.failedEvent, transaction, {
+          error: sagaState.lastError?.message || null,
+        });
+      }
+    });
+
     this.logger.log(`Saga compensation completed for transaction ${transaction.id}`);
   }
 
+  /**
+   * Park a saga after a suspending step; resumeSaga continues after it
+   */
+  private async suspendSaga(transaction: Transaction, definition: SagaDefinition, step: SagaStepDefinition): Promise<void> {
+    await this.updateTransactionStatus(transaction, TransactionStatus.PENDING);
+
+    this.logger.log(`Saga ${definition.name} suspended after ${step.name} for transaction ${transaction.id}`);
+  }
+
   /**
    * Complete saga execution
    */
-  private async completeSaga(transaction: Transaction, sagaState: SagaState): Promise<void> {
-    await this.updateTransactionStatus(transaction, TransactionStatus.COMPLETED);
-    await this.updateTransferState(transaction, TransferState.COMPLETED);
-    
-    // Set completion timestamp
-    transaction.completedAt = new Date();
-    await this.transactionRepository.save(transaction);
+  private async completeSaga(transaction: Transaction, definition: SagaDefinition): Promise<void> {
+    const completedStatus = definition.completedStatus || TransactionStatus.COMPLETED;
+
+    await this.transactionRepository.manager.transaction(async manager => {
+      transaction.status = completedStatus;
+      transaction.transferState = definition.completedState || TransferState.COMPLETED;
+      transaction.processedAt = new Date();
+
+      // Set completion timestamp
+      if (completedStatus === TransactionStatus.COMPLETED) {
+        transaction.completedAt = new Date();
+      }
+
+      await manager.save(transaction);
 
-    this.logger.log(`Saga completed successfully for transaction ${transaction.id}`);
+      if (definition.completedEvent) {
+        await this.outboxService.recordTransactionEvent(manager, definition.completedEvent, transaction);
+      }
+    });
+
+    this.logger.log(`Saga ${definition.name} completed successfully for transaction ${transaction.id}`);
   }
 
   /**
@@ -170,7 +334,7 @@ export class SagaService {
   private async updateSagaState(transaction: Transaction, sagaState: SagaState): Promise<void> {
     transaction.sagaState = sagaState;
     transaction.retryCount = sagaState.retryCount;
-    
+
     if (sagaState.lastError) {
       transaction.errorDetails = {
         message: sagaState.lastError.message,
@@ -192,7 +356,7 @@ export class SagaService {
   ): Promise<void> {
     transaction.status = status;
     transaction.processedAt = new Date();
-    
+
     if (status === TransactionStatus.FAILED) {
       transaction.failedAt = new Date();
     }
@@ -209,267 +373,7 @@ export class SagaService {
   ): Promise<void> {
     transaction.transferState = transferState;
     await this.transactionRepository.save(transaction);
-  }
-
-  /**
-   * Map saga step to transfer state
-   */
-  private getTransferStateForStep(stepIndex: number): TransferState {
-    const stateMap = [
-      TransferState.INITIATED,
-      TransferState.VALIDATION_COMPLETE,
-      TransferState.FUNDS_RESERVED,
-      TransferState.DEBIT_COMPLETE,
-      TransferState.CREDIT_COMPLETE,
-    ];
-
-    return stateMap[stepIndex] || TransferState.INITIATED;
-  }
-
-  /**
-   * Create transfer saga steps
-   */
-  createTransferSagaSteps(context: SagaContext): SagaStep[] {
-    return [
-      {
-        name: 'validate_transfer',
-        retryable: true,
-        maxRetries: 3,
-        execute: async () => {
-          await this.validateTransfer(context);
-        },
-        compensate: async () => {
-          // No compensation needed for validation
-        },
-      },
-      {
-        name: 'reserve_funds',
-        retryable: true,
-        maxRetries: 2,
-        execute: async () => {
-          await this.reserveFunds(context);
-        },
-        compensate: async () => {
-          await this.releaseReservedFunds(context);
-        },
-      },
-      {
-        name: 'debit_source_wallet',
-        retryable: true,
-        maxRetries: 2,
-        execute: async () => {
-          await this.debitSourceWallet(context);
-        },
-        compensate: async () => {
-          await this.creditSourceWallet(context);
-        },
-      },
-      {
-        name: 'credit_destination_wallet',
-        retryable: true,
-        maxRetries: 2,
-        execute: async () => {
-          await this.creditDestinationWallet(context);
-        },
-        compensate: async () => {
-          await this.debitDestinationWallet(context);
-        },
-      },
-      {
-        name: 'finalize_transfer',
-        retryable: false,
-        maxRetries: 0,
-        execute: async () => {
-          await this.finalizeTransfer(context);
-        },
-        compensate: async () => {
-          // Finalization compensation handled by previous steps
-        },
-      },
-    ];
-  }
-
-  /**
-   * Saga step implementations
-   */
-  private async validateTransfer(context: SagaContext): Promise<void> {
-    // Validate wallets exist and are active
-    const [sourceWallet, destinationWallet] = await Promise.all([
-      this.walletRepository.findOne({
-        where: { id: context.sourceWalletId, isActive: true },
-      }),
-      this.walletRepository.findOne({
-        where: { id: context.destinationWalletId, isActive: true },
-      }),
-    ]);
-
-    if (!sourceWallet) {
-      throw new Error('Source wallet not found or inactive');
-    }
-
-    if (!destinationWallet) {
-      throw new Error('Destination wallet not found or inactive');
-    }
-
-    if (sourceWallet.currency !== destinationWallet.currency) {
-      throw new Error('Currency mismatch between wallets');
-    }
-
-    // Additional validations can be added here
-  }
-
-  private async reserveFunds(context: SagaContext): Promise<void> {
-    const transaction = await this.transactionRepository.findOne({
-      where: { id: context.transactionId },
-    });
-
-    if (!transaction) {
-      throw new Error('Transaction not found');
-    }
-
-    // Set reservation details
-    transaction.reservedAmount = context.amount;
-    transaction.reservationExpiry = new Date(Date.now() + 30 * 60 * 1000); // 30 minutes
-
-    await this.transactionRepository.save(transaction);
-    
-    this.logger.debug(`Reserved ${context.amount} for transaction ${context.transactionId}`);
-  }
-
-  private async releaseReservedFunds(context: SagaContext): Promise<void> {
-    const transaction = await this.transactionRepository.findOne({
-      where: { id: context.transactionId },
-    });
-
-    if (transaction && transaction.reservedAmount) {
-      transaction.reservedAmount = null;
-      transaction.reservationExpiry = null;
-      await this.transactionRepository.save(transaction);
-      
-      this.logger.debug(`Released reserved funds for transaction ${context.transactionId}`);
-    }
-  }
-
-  private async debitSourceWallet(context: SagaContext): Promise<void> {
-    const sourceWallet = await this.walletRepository.findOne({
-      where: { id: context.sourceWalletId },
-    });
-
-    if (!sourceWallet) {
-      throw new Error('Source wallet not found');
-    }
-
-    if (sourceWallet.balance < context.amount) {
-      throw new Error('Insufficient balance');
-    }
-
-    // Store balance before for compensation
-    context.metadata.sourceBalanceBefore = sourceWallet.balance;
-    
-    // Debit the wallet
-    await this.walletRepository.update(
-      { id: context.sourceWalletId },
-      { balance: () => `balance - ${context.amount}` }
-    );
-
-    // Update cache
-    const newBalance = sourceWallet.balance - context.amount;
-    const cachedData = await this.cacheService.getWalletBalanceWithVersion(context.sourceWalletId);
-    const newVersion = cachedData ? cachedData.version + 1 : 1;
-    await this.cacheService.setWalletBalanceWithVersion(context.sourceWalletId, newBalance, newVersion);
-
-    this.logger.debug(`Debited ${context.amount} from wallet ${context.sourceWalletId}`);
-  }
-
-  private async creditSourceWallet(context: SagaContext): Promise<void> {
-    // Compensation: credit back the debited amount
-    await this.walletRepository.update(
-      { id: context.sourceWalletId },
-      { balance: () => `balance + ${context.amount}` }
-    );
-
-    // Update cache
-    const sourceWallet = await this.walletRepository.findOne({
-      where: { id: context.sourceWalletId },
-    });
-    
-    if (sourceWallet) {
-      const cachedData = await this.cacheService.getWalletBalanceWithVersion(context.sourceWalletId);
-      const newVersion = cachedData ? cachedData.version + 1 : 1;
-      await this.cacheService.setWalletBalanceWithVersion(context.sourceWalletId, sourceWallet.balance, newVersion);
-    }
-
-    this.logger.debug(`Compensated: credited ${context.amount} back to wallet ${context.sourceWalletId}`);
-  }
-
-  private async creditDestinationWallet(context: SagaContext): Promise<void> {
-    const destinationWallet = await this.walletRepository.findOne({
-      where: { id: context.destinationWalletId },
-    });
 
-    if (!destinationWallet) {
-      throw new Error('Destination wallet not found');
-    }
-
-    // Store balance before for compensation
-    context.metadata.destinationBalanceBefore = destinationWallet.balance;
-
-    // Credit the wallet
-    await this.walletRepository.update(
-      { id: context.destinationWalletId },
-      { balance: () => `balance + ${context.amount}` }
-    );
-
-    // Update cache
-    const newBalance = destinationWallet.balance + context.amount;
-    const cachedData = await this.cacheService.getWalletBalanceWithVersion(context.destinationWalletId);
-    const newVersion = cachedData ? cachedData.version + 1 : 1;
-    await this.cacheService.setWalletBalanceWithVersion(context.destinationWalletId, newBalance, newVersion);
-
-    this.logger.debug(`Credited ${context.amount} to wallet ${context.destinationWalletId}`);
+    await this.realtimePublisher.publishTransferState(transaction);
   }
-
-  private async debitDestinationWallet(context: SagaContext): Promise<void> {
-    // Compensation: debit back the credited amount
-    await this.walletRepository.update(
-      { id: context.destinationWalletId },
-      { balance: () => `balance - ${context.amount}` }
-    );
-
-    // Update cache
-    const destinationWallet = await this.walletRepository.findOne({
-      where: { id: context.destinationWalletId },
-    });
-    
-    if (destinationWallet) {
-      const cachedData = await this.cacheService.getWalletBalanceWithVersion(context.destinationWalletId);
-      const newVersion = cachedData ? cachedData.version + 1 : 1;
-      await this.cacheService.setWalletBalanceWithVersion(context.destinationWalletId, destinationWallet.balance, newVersion);
-    }
-
-    this.logger.debug(`Compensated: debited ${context.amount} from wallet ${context.destinationWalletId}`);
-  }
-
-  private async finalizeTransfer(context: SagaContext): Promise<void> {
-    // Update transaction with final balance snapshots
-    const [sourceWallet, destinationWallet] = await Promise.all([
-      this.walletRepository.findOne({ where: { id: context.sourceWalletId } }),
-      this.walletRepository.findOne({ where: { id: context.destinationWalletId } }),
-    ]);
-
-    const transaction = await this.transactionRepository.findOne({
-      where: { id: context.transactionId },
-    });
-
-    if (transaction && sourceWallet && destinationWallet) {
-      transaction.sourceBalanceAfter = sourceWallet.balance;
-      transaction.destinationBalanceAfter = destinationWallet.balance;
-      transaction.sourceBalanceBefore = context.metadata.sourceBalanceBefore;
-      transaction.destinationBalanceBefore = context.metadata.destinationBalanceBefore;
-      
-      await this.transactionRepository.save(transaction);
-    }
-
-    this.logger.debug(`Finalized transfer for transaction ${context.transactionId}`);
-  }
-} 
\ No newline at end of file
+}
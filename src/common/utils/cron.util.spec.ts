@@ -0,0 +1,59 @@
+import { isValidCronExpression, nextCronOccurrence, parseCronExpression } from './cron.util';
+
+describe('cron.util', () => {
+  describe('parseCronExpression', () => {
+    it('expands values, ranges, lists and steps', () => {
+      const schedule = parseCronExpression('*/15 9-11 1,15 * *');
+
+      expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+      expect([...schedule.hours]).toEqual([9, 10, 11]);
+      expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+      expect(schedule.restrictedDayOfMonth).toBe(true);
+      expect(schedule.restrictedDayOfWeek).toBe(false);
+    });
+
+    it('runs a stepped start value to the end of the range', () => {
+      expect([...parseCronExpression('5/20 * * * *').minutes]).toEqual([5, 25, 45]);
+    });
+
+    it('treats 7 as Sunday', () => {
+      expect([...parseCronExpression('0 0 * * 7').daysOfWeek]).toEqual([0]);
+    });
+
+    it('rejects malformed and out-of-range expressions', () => {
+      expect(isValidCronExpression('0 0 * *')).toBe(false);
+      expect(isValidCronExpression('60 * * * *')).toBe(false);
+      expect(isValidCronExpression('0 0 0 * *')).toBe(false);
+      expect(isValidCronExpression('5-1 * * * *')).toBe(false);
+      expect(isValidCronExpression('*/0 * * * *')).toBe(false);
+      expect(isValidCronExpression('0 9 * * MON')).toBe(false);
+      expect(isValidCronExpression('0 9 * * 1-5')).toBe(true);
+    });
+  });
+
+  describe('nextCronOccurrence', () => {
+    const at = (iso: string) => new Date(iso);
+
+    it('returns the first match strictly after the given time, in UTC', () => {
+      expect(nextCronOccurrence('30 9 * * *', at('2026-03-10T09:30:00Z'))).toEqual(at('2026-03-11T09:30:00Z'));
+      expect(nextCronOccurrence('30 9 * * *', at('2026-03-10T09:29:59Z'))).toEqual(at('2026-03-10T09:30:00Z'));
+    });
+
+    it('rolls over month and year ends', () => {
+      expect(nextCronOccurrence('0 0 1 * *', at('2026-12-15T12:00:00Z'))).toEqual(at('2027-01-01T00:00:00Z'));
+    });
+
+    it('skips months without the requested day', () => {
+      expect(nextCronOccurrence('0 8 31 * *', at('2026-04-01T00:00:00Z'))).toEqual(at('2026-05-31T08:00:00Z'));
+    });
+
+    it('matches either day field when both are restricted', () => {
+      // 2026-03-02 is a Monday, before the 15th
+      expect(nextCronOccurrence('0 12 15 * 1', at('2026-03-01T00:00:00Z'))).toEqual(at('2026-03-02T12:00:00Z'));
+    });
+
+    it('gives up on expressions that never fire', () => {
+      expect(nextCronOccurrence('0 0 30 2 *', at('2026-01-01T00:00:00Z'))).toBeNull();
+    });
+  });
+});
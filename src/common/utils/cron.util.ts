@@ -0,0 +1,145 @@
+/**
+ * Minimal five-field cron expressions (minute hour day-of-month month day-of-week),
+ * evaluated in UTC. Fields accept `*`, values, ranges, lists and `/step`.
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron: when both day fields are restricted, either one may match
+  restrictedDayOfMonth: boolean;
+  restrictedDayOfWeek: boolean;
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+// Give up on expressions that never fire, such as `0 0 30 2 *`
+const MAX_SEARCH_YEARS = 5;
+
+export function parseCronExpression(expression: string): CronSchedule {
+  const fields = (expression || '').trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have five fields`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseField(field, FIELD_RANGES[index][0], FIELD_RANGES[index][1], expression),
+  );
+
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    restrictedDayOfMonth: fields[2] !== '*',
+    restrictedDayOfWeek: fields[4] !== '*',
+  };
+}
+
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * First time strictly after `after` that matches the schedule, or null if none is found
+ */
+export function nextCronOccurrence(schedule: CronSchedule | string, after: Date): Date | null {
+  const cron = typeof schedule === 'string' ? parseCronExpression(schedule) : schedule;
+
+  const candidate = new Date(after.getTime());
+  candidate.setUTCSeconds(0, 0);
+  candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+
+  const lastYear = candidate.getUTCFullYear() + MAX_SEARCH_YEARS;
+
+  while (candidate.getUTCFullYear() <= lastYear) {
+    if (!cron.months.has(candidate.getUTCMonth() + 1)) {
+      candidate.setUTCMonth(candidate.getUTCMonth() + 1, 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!matchesDay(cron, candidate)) {
+      candidate.setUTCDate(candidate.getUTCDate() + 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!cron.hours.has(candidate.getUTCHours())) {
+      candidate.setUTCHours(candidate.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+
+    if (!cron.minutes.has(candidate.getUTCMinutes())) {
+      candidate.setUTCMinutes(candidate.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    return candidate;
+  }
+
+  return null;
+}
+
+function matchesDay(cron: CronSchedule, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getUTCDay());
+
+  if (cron.restrictedDayOfMonth && cron.restrictedDayOfWeek) {
+    return dayOfMonth || dayOfWeek;
+  }
+
+  return dayOfMonth && dayOfWeek;
+}
+
+function parseField(field: string, min: number, max: number, expression: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid field "${field}" in cron expression "${expression}"`);
+    }
+
+    const [, range, stepText] = match;
+    const step = stepText ? Number(stepText) : 1;
+
+    let start = min;
+    let end = max;
+    if (range !== '*') {
+      const [from, to] = range.split('-').map(Number);
+      start = from;
+      // `5/15` runs from 5 to the end of the range
+      end = to !== undefined ? to : stepText ? max : from;
+    }
+
+    if (step < 1 || start < min || end > max || start > end) {
+      throw new Error(`Field "${field}" is out of range in cron expression "${expression}"`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
@@ -0,0 +1,25 @@
+import { signPayload, verifySignature } from './hmac.util';
+
+describe('hmac.util', () => {
+  const secret = 'test-webhook-secret';
+  const body = '{"event":"deposit.succeeded","amount":"25.00"}';
+
+  it('signs with hex HMAC-SHA256', () => {
+    // echo -n "$body" | openssl dgst -sha256 -hmac "$secret"
+    expect(signPayload(secret, body)).toBe('be663249720ff2bcfa948b11491fd61266e2dd97d6d07a2640cfb9ca8f766abb');
+    expect(signPayload(secret, Buffer.from(body))).toBe(signPayload(secret, body));
+  });
+
+  it('accepts the signature of the exact body', () => {
+    expect(verifySignature(secret, body, signPayload(secret, body))).toBe(true);
+  });
+
+  it('rejects a tampered body, another secret or a malformed signature', () => {
+    const signature = signPayload(secret, body);
+
+    expect(verifySignature(secret, body.replace('25.00', '2500'), signature)).toBe(false);
+    expect(verifySignature('another-secret', body, signature)).toBe(false);
+    expect(verifySignature(secret, body, signature.slice(1))).toBe(false);
+    expect(verifySignature(secret, body, '')).toBe(false);
+  });
+});
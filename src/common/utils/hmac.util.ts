@@ -0,0 +1,18 @@
+import * as crypto from 'crypto';
+
+/**
+ * Hex HMAC-SHA256 of a request body, as sent in provider signature headers
+ */
+export function signPayload(secret: string, body: Buffer | string): string {
+  return crypto.createHmac('sha256', secret).update(body).digest('hex');
+}
+
+/**
+ * Constant-time comparison of a received signature against the expected one
+ */
+export function verifySignature(secret: string, body: Buffer | string, signature: string): boolean {
+  const expected = Buffer.from(signPayload(secret, body));
+  const actual = Buffer.from(signature);
+
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
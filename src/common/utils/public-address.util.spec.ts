@@ -0,0 +1,80 @@
+import * as dns from 'dns';
+import { assertPublicHost, isBlockedAddress, isBlockedHost, publicOnlyLookup } from './public-address.util';
+
+describe('public-address.util', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.16.0.1',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '::1',
+    'fd00::1',
+    'fe80::1',
+    '::ffff:127.0.0.1',
+    'not-an-address',
+  ])('blocks %s', address => {
+    expect(isBlockedAddress(address)).toBe(true);
+  });
+
+  it.each(['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111'])('allows the public address %s', address => {
+    expect(isBlockedAddress(address)).toBe(false);
+  });
+
+  it('blocks internal host names and IP literals before any lookup', () => {
+    expect(isBlockedHost('localhost')).toBe(true);
+    expect(isBlockedHost('api.localhost')).toBe(true);
+    expect(isBlockedHost('metadata.google.internal')).toBe(true);
+    expect(isBlockedHost('printer.local.')).toBe(true);
+    expect(isBlockedHost('[::1]')).toBe(true);
+    expect(isBlockedHost('169.254.169.254')).toBe(true);
+    expect(isBlockedHost('hooks.example.com')).toBe(false);
+  });
+
+  describe('assertPublicHost', () => {
+    it('refuses a name that resolves to a private address', async () => {
+      jest.spyOn(dns.promises, 'lookup').mockResolvedValue([
+        { address: '93.184.216.34', family: 4 },
+        { address: '10.0.0.5', family: 4 },
+      ] as any);
+
+      await expect(assertPublicHost('hooks.example.com')).rejects.toThrow(
+        'Host hooks.example.com resolves to a non-public address',
+      );
+    });
+
+    it('accepts a name that only resolves to public addresses', async () => {
+      jest.spyOn(dns.promises, 'lookup').mockResolvedValue([{ address: '93.184.216.34', family: 4 }] as any);
+
+      await expect(assertPublicHost('hooks.example.com')).resolves.toBeUndefined();
+    });
+
+    it('refuses a blocked IP literal without a lookup', async () => {
+      const lookup = jest.spyOn(dns.promises, 'lookup');
+
+      await expect(assertPublicHost('127.0.0.1')).rejects.toThrow('Host 127.0.0.1 is not a public address');
+      expect(lookup).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('publicOnlyLookup', () => {
+    const lookup = (hostname: string) =>
+      new Promise<{ error: NodeJS.ErrnoException | null; address: string }>(resolve => {
+        publicOnlyLookup(hostname, {}, (error, address) => resolve({ error, address: address as string }));
+      });
+
+    it('refuses to connect to a blocked address', async () => {
+      const { error } = await lookup('10.1.2.3');
+
+      expect(error).toEqual(expect.objectContaining({ code: 'EADDRNOTPUBLIC' }));
+    });
+
+    it('connects to a public address', async () => {
+      await expect(lookup('93.184.216.34')).resolves.toEqual({ error: null, address: '93.184.216.34' });
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import * as dns from 'dns';
+import * as net from 'net';
+
+// Loopback, private, link-local (cloud metadata), shared, multicast and reserved ranges
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [address, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv4');
+}
+for (const [address, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv6');
+}
+
+// Names that only resolve inside a host or a cloud network
+const BLOCKED_HOSTNAMES = ['localhost', 'metadata', 'metadata.google.internal'];
+const BLOCKED_HOSTNAME_SUFFIXES = ['.localhost', '.local', '.internal'];
+
+/**
+ * Whether an IP address is one outgoing requests must not reach. IPv4-mapped
+ * IPv6 addresses are judged by their IPv4 part.
+ */
+export function isBlockedAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) {
+    return true;
+  }
+
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Whether a URL host is an internal name or a blocked IP literal, before any DNS lookup
+ */
+export function isBlockedHost(hostname: string): boolean {
+  // URL keeps IPv6 literals in brackets
+  const host = hostname.replace(/^\[(.*)\]$/, '$1').replace(/\.$/, '').toLowerCase();
+
+  if (net.isIP(host)) {
+    return isBlockedAddress(host);
+  }
+
+  return BLOCKED_HOSTNAMES.includes(host) || BLOCKED_HOSTNAME_SUFFIXES.some(suffix => host.endsWith(suffix));
+}
+
+/**
+ * Resolve a hostname and fail if any of its addresses is blocked
+ */
+export async function assertPublicHost(hostname: string): Promise<void> {
+  if (isBlockedHost(hostname)) {
+    throw new Error(`Host ${hostname} is not a public address`);
+  }
+
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');
+  if (net.isIP(host)) {
+    return;
+  }
+
+  const addresses = await dns.promises.lookup(host, { all: true });
+  if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+    throw new Error(`Host ${hostname} resolves to a non-public address`);
+  }
+}
+
+/**
+ * Drop-in for dns.lookup on an http(s) Agent that refuses blocked addresses. The
+ * check runs on the addresses actually connected to, so a DNS answer that changes
+ * after registration cannot redirect a request inward.
+ */
+export const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses: dns.LookupAddress[]) => {
+    if (error) {
+      callback(error, undefined, undefined);
+      return;
+    }
+
+    const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+    if (blocked || addresses.length === 0) {
+      const refused = Object.assign(new Error(`Host ${hostname} resolves to a non-public address`), { code: 'EADDRNOTPUBLIC' });
+      callback(refused, undefined, undefined);
+      return;
+    }
+
+    if (options.all) {
+      (callback as unknown as (error: Error | null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
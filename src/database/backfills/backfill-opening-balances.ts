@@ -0,0 +1,39 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { NestFactory } from '@nestjs/core';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { DatabaseModule } from '../database.module';
+import { LedgerPosting } from '../entities/ledger-posting.entity';
+import { LedgerService } from '../../common/services/ledger.service';
+
+/**
+ * One-off: gives wallets funded before the ledger existed an opening-balance
+ * journal entry so their ledger audit passes. Run once per environment after
+ * deploying the ledger; running it again changes nothing.
+ */
+@Module({
+  imports: [
+    ConfigModule.forRoot({
+      isGlobal: true,
+    }),
+    DatabaseModule,
+    TypeOrmModule.forFeature([LedgerPosting]),
+  ],
+  providers: [LedgerService],
+})
+class BackfillOpeningBalancesModule {}
+
+async function run() {
+  const app = await NestFactory.createApplicationContext(BackfillOpeningBalancesModule);
+
+  try {
+    await app.get(LedgerService).backfillOpeningBalances();
+  } finally {
+    await app.close();
+  }
+}
+
+run().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -5,6 +5,28 @@ import { User } from './entities/user.entity';
 import { Wallet } from './entities/wallet.entity';
 import { Transaction } from './entities/transaction.entity';
 import { TransferLimit } from './entities/transfer-limit.entity';
+import { JournalEntry } from './entities/journal-entry.entity';
+import { LedgerPosting } from './entities/ledger-posting.entity';
+import { FundHold } from './entities/fund-hold.entity';
+import { FeeSchedule } from './entities/fee-schedule.entity';
+import { ScheduledTransfer } from './entities/scheduled-transfer.entity';
+import { StandingOrder } from './entities/standing-order.entity';
+import { TransferBatch } from './entities/transfer-batch.entity';
+import { TransferBatchItem } from './entities/transfer-batch-item.entity';
+import { PaymentRequest } from './entities/payment-request.entity';
+import { ExpenseGroup } from './entities/expense-group.entity';
+import { ExpenseGroupMember } from './entities/expense-group-member.entity';
+import { Expense } from './entities/expense.entity';
+import { ExpenseShare } from './entities/expense-share.entity';
+import { GroupSettlement } from './entities/group-settlement.entity';
+import { ClaimableTransfer } from './entities/claimable-transfer.entity';
+import { Escrow } from './entities/escrow.entity';
+import { PaymentAuthorization } from './entities/payment-authorization.entity';
+import { WalletStatusEvent } from './entities/wallet-status-event.entity';
+import { OutboxEvent } from './entities/outbox-event.entity';
+import { EventConsumerOffset } from './entities/event-consumer-offset.entity';
+import { WebhookEndpoint } from './entities/webhook-endpoint.entity';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
 
 @Module({
   imports: [
@@ -18,7 +40,34 @@ import { TransferLimit } from './entities/transfer-limit.entity';
         username: configService.get('DB_USERNAME', 'postgres'),
         password: configService.get('DB_PASSWORD', 'password'),
         database: configService.get('DB_DATABASE', 'p2p_wallet'),
-        entities: [User, Wallet, Transaction, TransferLimit],
+        entities: [
+          User,
+          Wallet,
+          Transaction,
+          TransferLimit,
+          JournalEntry,
+          LedgerPosting,
+          FundHold,
+          FeeSchedule,
+          ScheduledTransfer,
+          StandingOrder,
+          TransferBatch,
+          TransferBatchItem,
+          PaymentRequest,
+          ExpenseGroup,
+          ExpenseGroupMember,
+          Expense,
+          ExpenseShare,
+          GroupSettlement,
+          ClaimableTransfer,
+          Escrow,
+          PaymentAuthorization,
+          WalletStatusEvent,
+          OutboxEvent,
+          EventConsumerOffset,
+          WebhookEndpoint,
+          WebhookDelivery,
+        ],
         synchronize: configService.get('NODE_ENV') === 'development',
         logging: configService.get('NODE_ENV') === 'development',
         ssl: configService.get('DB_SSL', 'false') === 'true' ? {
@@ -0,0 +1,115 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { moneyTransformer } from '../../common/money/decimal.transformer';
+
+export enum ClaimableRecipientType {
+  EMAIL = 'EMAIL',
+  PHONE = 'PHONE',
+}
+
+export enum ClaimableTransferStatus {
+  PENDING = 'PENDING',
+  // The recipient is claiming it; the transfer is running
+  CLAIMING = 'CLAIMING',
+  CLAIMED = 'CLAIMED',
+  CANCELLED = 'CANCELLED',
+  EXPIRED = 'EXPIRED',
+  // The reserved funds could not be reinstated after a failed claim
+  FAILED = 'FAILED',
+}
+
+/**
+ * Money sent to an email or phone number that has no verified account yet. The
+ * amount stays reserved on the sender's wallet by a hold until the owner of the
+ * contact verifies it and claims, which runs a normal transfer; if nobody claims
+ * before expiry the hold is released back to the sender.
+ */
+@Entity('claimable_transfers')
+@Index(['senderId', 'status'])
+@Index(['recipientType', 'recipient', 'status'])
+@Index(['status', 'expiresAt'])
+export class ClaimableTransfer {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  senderId: string;
+
+  @Column({ type: 'uuid' })
+  sourceWalletId: string;
+
+  @Column({ type: 'enum', enum: ClaimableRecipientType })
+  recipientType: ClaimableRecipientType;
+
+  // Normalized email (lowercase) or phone number (digits with leading +)
+  @Column()
+  recipient: string;
+
+  @Column({ type: 'decimal', precision: 15, scale: 2, transformer: moneyTransformer })
+  amount: string;
+
+  @Column({ type: 'varchar', length: 3 })
+  currency: string;
+
+  @Column({ nullable: true })
+  description: string;
+
+  @Column({ type: 'enum', enum: ClaimableTransferStatus, default: ClaimableTransferStatus.PENDING })
+  status: ClaimableTransferStatus;
+
+  // Hold reserving amount plus fee on the source wallet while pending
+  @Column({ type: 'uuid', nullable: true })
+  holdId: string;
+
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  @Column({ type: 'int', default: 0 })
+  attemptCount: number;
+
+  @Column({ type: 'uuid', nullable: true })
+  claimedById: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  destinationWalletId: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  transactionId: string;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  failureCode: string;
+
+  @Column({ type: 'text', nullable: true })
+  failureReason: string;
+
+  // Set while a claim is running; a stale one is reconciled from its transfer
+  @Column({ type: 'timestamp', nullable: true })
+  claimStartedAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  completedAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'senderId' })
+  sender: User;
+
+  // Helper methods
+  isExpired(): boolean {
+    return this.status === ClaimableTransferStatus.PENDING && new Date() >= this.expiresAt;
+  }
+}
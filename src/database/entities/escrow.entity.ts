@@ -0,0 +1,115 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Transaction } from './transaction.entity';
+import { moneyTransformer } from '../../common/money/decimal.transformer';
+
+export enum EscrowStatus {
+  // Funds are reserved on the payer's wallet
+  HELD = 'HELD',
+  // Being paid out to the recipient
+  RELEASING = 'RELEASING',
+  RELEASED = 'RELEASED',
+  // Returned to the payer
+  CANCELLED = 'CANCELLED',
+  DISPUTED = 'DISPUTED',
+  EXPIRED = 'EXPIRED',
+  // The payout failed and its transfer was compensated, returning the funds
+  FAILED = 'FAILED',
+}
+
+export enum EscrowReleaseTrigger {
+  APPROVAL = 'APPROVAL',
+  DEADLINE = 'DEADLINE',
+}
+
+// Statuses in which the funds go back to the payer
+export const ESCROW_RETURN_STATUSES = [EscrowStatus.CANCELLED, EscrowStatus.DISPUTED, EscrowStatus.EXPIRED];
+
+/**
+ * A transfer whose funds are held until the payer approves, a release deadline
+ * passes, or it is cancelled or disputed. The transfer saga of transactionId is
+ * suspended while held: releasing resumes it, returning compensates it.
+ */
+@Entity('escrows')
+@Index(['payerId', 'status'])
+@Index(['recipientId', 'status'])
+@Index(['status', 'releaseAt'])
+@Index(['status', 'expiresAt'])
+export class Escrow {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid', unique: true })
+  transactionId: string;
+
+  @Column({ type: 'uuid' })
+  payerId: string;
+
+  @Column({ type: 'uuid' })
+  sourceWalletId: string;
+
+  @Column({ type: 'uuid' })
+  recipientId: string;
+
+  @Column({ type: 'uuid' })
+  destinationWalletId: string;
+
+  @Column({ type: 'decimal', precision: 15, scale: 2, transformer: moneyTransformer })
+  amount: string;
+
+  // Held with the amount and charged when released
+  @Column({ type: 'decimal', precision: 15, scale: 2, default: 0, transformer: moneyTransformer })
+  feeAmount: string;
+
+  @Column({ type: 'varchar', length: 3 })
+  currency: string;
+
+  @Column({ nullable: true })
+  description: string;
+
+  @Column({ type: 'enum', enum: EscrowStatus, default: EscrowStatus.HELD })
+  status: EscrowStatus;
+
+  // Released to the recipient automatically at this time unless resolved earlier
+  @Column({ type: 'timestamp', nullable: true })
+  releaseAt: Date;
+
+  // End of the reservation; an escrow still held then is returned
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  @Column({ type: 'enum', enum: EscrowReleaseTrigger, nullable: true })
+  releaseTrigger: EscrowReleaseTrigger;
+
+  @Column({ type: 'text', nullable: true })
+  disputeReason: string;
+
+  @Column({ type: 'text', nullable: true })
+  failureReason: string;
+
+  // Set when a release or return starts; an unfinished one is picked up again once stale
+  @Column({ type: 'timestamp', nullable: true })
+  claimedAt: Date;
+
+  // When the funds reached the recipient or went back to the payer
+  @Column({ type: 'timestamp', nullable: true })
+  resolvedAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @ManyToOne(() => Transaction)
+  @JoinColumn({ name: 'transactionId' })
+  transaction: Transaction;
+}
@@ -0,0 +1,30 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  UpdateDateColumn,
+} from 'typeorm';
+import { positionTransformer } from './outbox-event.entity';
+
+/**
+ * How far an in-process event consumer has got. Position is the last event it
+ * handled; moving it back replays everything after it.
+ */
+@Entity('event_consumer_offsets')
+export class EventConsumerOffset {
+  @PrimaryColumn({ type: 'varchar', length: 100 })
+  consumer: string;
+
+  @Column({ type: 'bigint', default: 0, transformer: positionTransformer })
+  position: number;
+
+  // Set while an instance is delivering to this consumer
+  @Column({ type: 'timestamp', nullable: true })
+  claimedAt: Date;
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,37 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  Unique,
+} from 'typeorm';
+import { ExpenseGroup } from './expense-group.entity';
+import { User } from './user.entity';
+
+@Entity('expense_group_members')
+@Index(['userId'])
+@Unique(['groupId', 'userId'])
+export class ExpenseGroupMember {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  groupId: string;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @CreateDateColumn()
+  joinedAt: Date;
+
+  @ManyToOne(() => ExpenseGroup, group => group.members)
+  @JoinColumn({ name: 'groupId' })
+  group: ExpenseGroup;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'userId' })
+  user: User;
+}
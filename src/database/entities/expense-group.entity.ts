@@ -0,0 +1,36 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  OneToMany,
+} from 'typeorm';
+import { ExpenseGroupMember } from './expense-group-member.entity';
+
+/**
+ * A set of users who share expenses in one currency and settle up between themselves
+ */
+@Entity('expense_groups')
+export class ExpenseGroup {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  name: string;
+
+  @Column({ type: 'varchar', length: 3 })
+  currency: string;
+
+  @Column({ type: 'uuid' })
+  createdById: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @OneToMany(() => ExpenseGroupMember, member => member.group)
+  members: ExpenseGroupMember[];
+}
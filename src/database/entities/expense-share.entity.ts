@@ -0,0 +1,35 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Expense } from './expense.entity';
+import { DecimalTransformer, moneyTransformer } from '../../common/money/decimal.transformer';
+
+@Entity('expense_shares')
+@Index(['expenseId'])
+export class ExpenseShare {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  expenseId: string;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  // What this member owes towards the expense
+  @Column({ type: 'decimal', precision: 15, scale: 2, transformer: moneyTransformer })
+  amount: string;
+
+  // Requested share for PERCENTAGE splits
+  @Column({ type: 'decimal', precision: 5, scale: 2, nullable: true, transformer: new DecimalTransformer(2) })
+  percentage: number;
+
+  @ManyToOne(() => Expense, expense => expense.shares)
+  @JoinColumn({ name: 'expenseId' })
+  expense: Expense;
+}
@@ -0,0 +1,51 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  OneToMany,
+  Index,
+} from 'typeorm';
+import { ExpenseShare } from './expense-share.entity';
+import { moneyTransformer } from '../../common/money/decimal.transformer';
+
+export enum ExpenseSplitType {
+  EQUAL = 'EQUAL',
+  PERCENTAGE = 'PERCENTAGE',
+  EXACT = 'EXACT',
+}
+
+/**
+ * An amount one member paid on behalf of the group, split into shares
+ */
+@Entity('expenses')
+@Index(['groupId'])
+export class Expense {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  groupId: string;
+
+  @Column({ type: 'uuid' })
+  paidById: string;
+
+  // Member who recorded the expense, not necessarily the one who paid
+  @Column({ type: 'uuid' })
+  createdById: string;
+
+  @Column()
+  description: string;
+
+  @Column({ type: 'decimal', precision: 15, scale: 2, transformer: moneyTransformer })
+  amount: string;
+
+  @Column({ type: 'enum', enum: ExpenseSplitType })
+  splitType: ExpenseSplitType;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @OneToMany(() => ExpenseShare, share => share.expense)
+  shares: ExpenseShare[];
+}
@@ -0,0 +1,79 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { TransactionType } from './transaction.entity';
+import { UserTier } from './user.entity';
+import { DecimalTransformer, moneyTransformer } from '../../common/money/decimal.transformer';
+
+export enum FeeType {
+  FLAT = 'FLAT',
+  PERCENTAGE = 'PERCENTAGE',
+  TIERED = 'TIERED',
+}
+
+// One bracket of a tiered fee; the last bracket may leave upTo open
+export interface FeeTier {
+  upTo: number | null;
+  flatAmount?: number;
+  rate?: number;
+}
+
+/**
+ * How much to charge for a transaction. Null match columns apply to any value;
+ * when several schedules match, the most specific one wins.
+ */
+@Entity('fee_schedules')
+@Index(['transactionType', 'currency', 'userTier'])
+export class FeeSchedule {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  name: string;
+
+  @Column({ type: 'enum', enum: TransactionType, nullable: true })
+  transactionType: TransactionType;
+
+  @Column({ type: 'varchar', length: 3, nullable: true })
+  currency: string;
+
+  @Column({ type: 'enum', enum: UserTier, nullable: true })
+  userTier: UserTier;
+
+  @Column({ type: 'enum', enum: FeeType })
+  feeType: FeeType;
+
+  @Column({ type: 'decimal', precision: 15, scale: 2, nullable: true, transformer: moneyTransformer })
+  flatAmount: string;
+
+  // Fraction of the amount, e.g. 0.015 for 1.5%
+  @Column({ type: 'decimal', precision: 8, scale: 6, nullable: true, transformer: new DecimalTransformer(6) })
+  rate: number;
+
+  @Column({ type: 'jsonb', nullable: true })
+  tiers: FeeTier[];
+
+  @Column({ type: 'decimal', precision: 15, scale: 2, nullable: true, transformer: moneyTransformer })
+  minFee: string;
+
+  @Column({ type: 'decimal', precision: 15, scale: 2, nullable: true, transformer: moneyTransformer })
+  maxFee: string;
+
+  // Breaks ties between equally specific schedules
+  @Column({ default: 0 })
+  priority: number;
+
+  @Column({ default: true })
+  isActive: boolean;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
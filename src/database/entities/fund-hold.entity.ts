@@ -0,0 +1,70 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Wallet } from './wallet.entity';
+import { moneyTransformer } from '../../common/money/decimal.transformer';
+
+export enum HoldStatus {
+  ACTIVE = 'ACTIVE',
+  RELEASED = 'RELEASED',
+  CAPTURED = 'CAPTURED',
+  EXPIRED = 'EXPIRED',
+}
+
+@Entity('fund_holds')
+@Index(['walletId', 'status'])
+@Index(['transactionId'])
+@Index(['expiresAt'])
+export class FundHold {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  walletId: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  transactionId: string;
+
+  @Column({ type: 'decimal', precision: 15, scale: 2, transformer: moneyTransformer })
+  amount: string;
+
+  @Column()
+  currency: string;
+
+  @Column({ type: 'enum', enum: HoldStatus, default: HoldStatus.ACTIVE })
+  status: HoldStatus;
+
+  @Column({ nullable: true })
+  reason: string;
+
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  releasedAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  capturedAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @ManyToOne(() => Wallet)
+  @JoinColumn({ name: 'walletId' })
+  wallet: Wallet;
+
+  // Helper methods
+  isActive(): boolean {
+    return this.status === HoldStatus.ACTIVE && new Date() < this.expiresAt;
+  }
+}
@@ -0,0 +1,66 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { moneyTransformer } from '../../common/money/decimal.transformer';
+
+export enum SettlementMethod {
+  // The debtor pays straight away
+  TRANSFER = 'TRANSFER',
+  // The creditor sends the debtor a payment request
+  PAYMENT_REQUEST = 'PAYMENT_REQUEST',
+}
+
+export enum SettlementStatus {
+  PENDING = 'PENDING',
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED',
+}
+
+/**
+ * Money moved between two group members to pay down what one owes the other
+ */
+@Entity('group_settlements')
+@Index(['groupId', 'status'])
+@Index(['paymentRequestId'])
+export class GroupSettlement {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  groupId: string;
+
+  @Column({ type: 'uuid' })
+  fromUserId: string;
+
+  @Column({ type: 'uuid' })
+  toUserId: string;
+
+  @Column({ type: 'decimal', precision: 15, scale: 2, transformer: moneyTransformer })
+  amount: string;
+
+  @Column({ type: 'enum', enum: SettlementMethod })
+  method: SettlementMethod;
+
+  @Column({ type: 'enum', enum: SettlementStatus, default: SettlementStatus.PENDING })
+  status: SettlementStatus;
+
+  @Column({ type: 'uuid', nullable: true })
+  transactionId: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  paymentRequestId: string;
+
+  @Column({ type: 'text', nullable: true })
+  failureReason: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,34 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  OneToMany,
+  Index,
+  Unique,
+} from 'typeorm';
+import { LedgerPosting } from './ledger-posting.entity';
+
+@Entity('journal_entries')
+@Index(['transactionId'])
+@Unique(['reference'])
+export class JournalEntry {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // Deterministic key per business event so a replayed step never posts twice
+  @Column({ type: 'varchar', length: 255 })
+  reference: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  transactionId: string;
+
+  @Column({ nullable: true })
+  description: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @OneToMany(() => LedgerPosting, posting => posting.journalEntry)
+  postings: LedgerPosting[];
+}
@@ -0,0 +1,66 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { JournalEntry } from './journal-entry.entity';
+import { moneyTransformer } from '../../common/money/decimal.transformer';
+
+export enum PostingDirection {
+  DEBIT = 'DEBIT',
+  CREDIT = 'CREDIT',
+}
+
+/**
+ * Platform-owned accounts that sit on the other side of wallet postings
+ */
+export enum SystemAccount {
+  EXTERNAL_DEPOSITS = 'EXTERNAL_DEPOSITS',
+  TRANSFER_SUSPENSE = 'TRANSFER_SUSPENSE',
+  // Withdrawn funds awaiting settlement by the payout provider
+  PAYOUTS_PENDING = 'PAYOUTS_PENDING',
+  EXTERNAL_PAYOUTS = 'EXTERNAL_PAYOUTS',
+  // Converts between currencies; carries a balance per currency
+  FX_CONVERSION = 'FX_CONVERSION',
+  // Balances wallets already held when the ledger was introduced
+  OPENING_BALANCES = 'OPENING_BALANCES',
+}
+
+@Entity('ledger_postings')
+@Index(['journalEntryId'])
+@Index(['walletId'])
+@Index(['systemAccount'])
+export class LedgerPosting {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  journalEntryId: string;
+
+  // Exactly one of walletId / systemAccount identifies the account
+  @Column({ type: 'uuid', nullable: true })
+  walletId: string;
+
+  @Column({ type: 'enum', enum: SystemAccount, nullable: true })
+  systemAccount: SystemAccount;
+
+  @Column({ type: 'enum', enum: PostingDirection })
+  direction: PostingDirection;
+
+  @Column({ type: 'decimal', precision: 15, scale: 2, transformer: moneyTransformer })
+  amount: string;
+
+  @Column()
+  currency: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @ManyToOne(() => JournalEntry, entry => entry.postings)
+  @JoinColumn({ name: 'journalEntryId' })
+  journalEntry: JournalEntry;
+}
@@ -0,0 +1,55 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+  ValueTransformer,
+} from 'typeorm';
+import { DomainEventType, AggregateType } from '../../common/events/domain-event';
+
+// Postgres returns bigint as a string; positions stay well within safe integers
+export const positionTransformer: ValueTransformer = {
+  to: (value?: number | null) => value,
+  from: (value?: string | null) => (value === null || value === undefined ? value : Number(value)),
+};
+
+/**
+ * Transactional outbox. A row is inserted with the state change it describes and
+ * gets its position from the relay, which numbers events in the order it picks them up.
+ */
+@Entity('outbox_events')
+@Index(['position'], { unique: true })
+@Index(['createdAt'], { where: '"position" IS NULL' })
+@Index(['position'], { where: '"streamedAt" IS NULL' })
+@Index(['aggregateType', 'aggregateId'])
+export class OutboxEvent {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 64 })
+  type: DomainEventType;
+
+  @Column({ type: 'varchar', length: 32 })
+  aggregateType: AggregateType;
+
+  @Column({ type: 'uuid' })
+  aggregateId: string;
+
+  @Column({ type: 'jsonb' })
+  payload: Record<string, any>;
+
+  // Null until the relay publishes the event to the bus
+  @Column({ type: 'bigint', nullable: true, transformer: positionTransformer })
+  position: number;
+
+  @Column({ type: 'timestamp', nullable: true })
+  publishedAt: Date;
+
+  // When the event was appended to the Redis stream, if streaming is enabled
+  @Column({ type: 'timestamp', nullable: true })
+  streamedAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
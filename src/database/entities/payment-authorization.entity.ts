@@ -0,0 +1,101 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Transaction } from './transaction.entity';
+import { moneyTransformer } from '../../common/money/decimal.transformer';
+
+export enum AuthorizationStatus {
+  // Funds are reserved on the payer's wallet for the merchant to capture
+  AUTHORIZED = 'AUTHORIZED',
+  CAPTURING = 'CAPTURING',
+  CAPTURED = 'CAPTURED',
+  // Released back to the payer
+  VOIDED = 'VOIDED',
+  EXPIRED = 'EXPIRED',
+  // The capture failed and its transfer was compensated, releasing the funds
+  FAILED = 'FAILED',
+}
+
+// Statuses in which the hold goes back to the payer
+export const AUTHORIZATION_RELEASE_STATUSES = [AuthorizationStatus.VOIDED, AuthorizationStatus.EXPIRED];
+
+/**
+ * Funds a payer authorizes a merchant to take. The transfer saga of transactionId
+ * is suspended once the funds are reserved: a capture of up to the authorized
+ * amount resumes it, voiding or expiry compensates it.
+ */
+@Entity('payment_authorizations')
+@Index(['payerId', 'status'])
+@Index(['merchantId', 'status'])
+@Index(['status', 'expiresAt'])
+export class PaymentAuthorization {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid', unique: true })
+  transactionId: string;
+
+  @Column({ type: 'uuid' })
+  payerId: string;
+
+  @Column({ type: 'uuid' })
+  sourceWalletId: string;
+
+  @Column({ type: 'uuid' })
+  merchantId: string;
+
+  @Column({ type: 'uuid' })
+  destinationWalletId: string;
+
+  @Column({ type: 'decimal', precision: 15, scale: 2, transformer: moneyTransformer })
+  amount: string;
+
+  // Set when a capture starts; never more than amount
+  @Column({ type: 'decimal', precision: 15, scale: 2, nullable: true, transformer: moneyTransformer })
+  capturedAmount: string;
+
+  // Held with the amount; repriced on a partial capture
+  @Column({ type: 'decimal', precision: 15, scale: 2, default: 0, transformer: moneyTransformer })
+  feeAmount: string;
+
+  @Column({ type: 'varchar', length: 3 })
+  currency: string;
+
+  @Column({ nullable: true })
+  description: string;
+
+  @Column({ type: 'enum', enum: AuthorizationStatus, default: AuthorizationStatus.AUTHORIZED })
+  status: AuthorizationStatus;
+
+  // End of the reservation; an authorization not captured by then is released
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  @Column({ type: 'text', nullable: true })
+  failureReason: string;
+
+  // Set when a capture or release starts; an unfinished one is picked up again once stale
+  @Column({ type: 'timestamp', nullable: true })
+  claimedAt: Date;
+
+  // When the funds reached the merchant or the hold went back to the payer
+  @Column({ type: 'timestamp', nullable: true })
+  resolvedAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @ManyToOne(() => Transaction)
+  @JoinColumn({ name: 'transactionId' })
+  transaction: Transaction;
+}
@@ -0,0 +1,106 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { moneyTransformer } from '../../common/money/decimal.transformer';
+
+export enum PaymentRequestStatus {
+  PENDING = 'PENDING',
+  // Accepted by the payer; the transfer is running
+  PROCESSING = 'PROCESSING',
+  PAID = 'PAID',
+  DECLINED = 'DECLINED',
+  CANCELLED = 'CANCELLED',
+  EXPIRED = 'EXPIRED',
+}
+
+/**
+ * A request by one user to be paid by another. Accepting it runs a normal
+ * transfer from the payer's wallet into the requester's wallet.
+ */
+@Entity('payment_requests')
+@Index(['payerId', 'status'])
+@Index(['requesterId', 'status'])
+@Index(['status', 'expiresAt'])
+export class PaymentRequest {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  requesterId: string;
+
+  // Wallet the payment is credited to
+  @Column({ type: 'uuid' })
+  requesterWalletId: string;
+
+  @Column({ type: 'uuid' })
+  payerId: string;
+
+  // Set when the request targets a specific wallet; otherwise the payer picks one on accept
+  @Column({ type: 'uuid', nullable: true })
+  payerWalletId: string;
+
+  @Column({ type: 'decimal', precision: 15, scale: 2, transformer: moneyTransformer })
+  amount: string;
+
+  @Column({ type: 'varchar', length: 3 })
+  currency: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  memo: string;
+
+  @Column({ type: 'enum', enum: PaymentRequestStatus, default: PaymentRequestStatus.PENDING })
+  status: PaymentRequestStatus;
+
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  // Accept attempts so far; each gets its own transfer idempotency key
+  @Column({ type: 'int', default: 0 })
+  attemptCount: number;
+
+  @Column({ type: 'uuid', nullable: true })
+  transactionId: string;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  failureCode: string;
+
+  @Column({ type: 'text', nullable: true })
+  failureReason: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  declineReason: string;
+
+  // Set when the payer accepts; a stale claim is reconciled against its transfer
+  @Column({ type: 'timestamp', nullable: true })
+  claimedAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  respondedAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'requesterId' })
+  requester: User;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'payerId' })
+  payer: User;
+
+  // Helper methods
+  isExpired(): boolean {
+    return this.status === PaymentRequestStatus.PENDING && new Date() > this.expiresAt;
+  }
+}
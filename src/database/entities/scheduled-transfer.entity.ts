@@ -0,0 +1,84 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Wallet } from './wallet.entity';
+import { moneyTransformer } from '../../common/money/decimal.transformer';
+
+export enum ScheduledTransferStatus {
+  SCHEDULED = 'SCHEDULED',
+  PROCESSING = 'PROCESSING',
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED',
+  CANCELLED = 'CANCELLED',
+}
+
+/**
+ * A one-off transfer to run at a future time through the regular transfer path
+ */
+@Entity('scheduled_transfers')
+@Index(['status', 'executeAt'])
+@Index(['sourceWalletId'])
+export class ScheduledTransfer {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @Column({ type: 'uuid' })
+  sourceWalletId: string;
+
+  @Column({ type: 'uuid' })
+  destinationWalletId: string;
+
+  @Column({ type: 'decimal', precision: 15, scale: 2, transformer: moneyTransformer })
+  amount: string;
+
+  @Column({ nullable: true })
+  description: string;
+
+  @Column({ type: 'timestamp' })
+  executeAt: Date;
+
+  @Column({ type: 'enum', enum: ScheduledTransferStatus, default: ScheduledTransferStatus.SCHEDULED })
+  status: ScheduledTransferStatus;
+
+  // Transfer created by the run, if it got that far
+  @Column({ type: 'uuid', nullable: true })
+  transactionId: string;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  failureCode: string;
+
+  @Column({ type: 'text', nullable: true })
+  failureReason: string;
+
+  // Set when a worker claims the run; a stale claim is picked up again
+  @Column({ type: 'timestamp', nullable: true })
+  claimedAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  executedAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @ManyToOne(() => Wallet)
+  @JoinColumn({ name: 'sourceWalletId' })
+  sourceWallet: Wallet;
+
+  // Helper methods
+  isPending(): boolean {
+    return this.status === ScheduledTransferStatus.SCHEDULED;
+  }
+}
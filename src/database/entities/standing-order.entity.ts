@@ -0,0 +1,123 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Wallet } from './wallet.entity';
+import { moneyTransformer } from '../../common/money/decimal.transformer';
+
+export enum StandingOrderFrequency {
+  DAILY = 'DAILY',
+  WEEKLY = 'WEEKLY',
+  MONTHLY = 'MONTHLY',
+  CRON = 'CRON',
+}
+
+export enum StandingOrderStatus {
+  ACTIVE = 'ACTIVE',
+  PAUSED = 'PAUSED',
+  COMPLETED = 'COMPLETED',
+  CANCELLED = 'CANCELLED',
+}
+
+/**
+ * A recurring transfer. Each occurrence runs through the regular transfer path
+ * and produces its own transaction linked back by standingOrderId.
+ */
+@Entity('standing_orders')
+@Index(['status', 'nextRunAt'])
+@Index(['sourceWalletId'])
+export class StandingOrder {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @Column({ type: 'uuid' })
+  sourceWalletId: string;
+
+  @Column({ type: 'uuid' })
+  destinationWalletId: string;
+
+  @Column({ type: 'decimal', precision: 15, scale: 2, transformer: moneyTransformer })
+  amount: string;
+
+  @Column({ nullable: true })
+  description: string;
+
+  @Column({ type: 'enum', enum: StandingOrderFrequency })
+  frequency: StandingOrderFrequency;
+
+  // Five-field UTC cron expression, only for CRON orders
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  cronExpression: string;
+
+  // Interval schedules repeat from here; monthly ones keep its day of month
+  @Column({ type: 'timestamp' })
+  startAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  endAt: Date;
+
+  @Column({ type: 'int', nullable: true })
+  maxOccurrences: number;
+
+  @Column({ type: 'enum', enum: StandingOrderStatus, default: StandingOrderStatus.ACTIVE })
+  status: StandingOrderStatus;
+
+  // Occurrences run so far, paid or given up on; also numbers the next one
+  @Column({ type: 'int', default: 0 })
+  occurrenceCount: number;
+
+  // Nominal time of the pending occurrence
+  @Column({ type: 'timestamp', nullable: true })
+  currentOccurrenceAt: Date;
+
+  // When the scheduler next attempts it; later than currentOccurrenceAt while retrying
+  @Column({ type: 'timestamp', nullable: true })
+  nextRunAt: Date;
+
+  // Retries used by the pending occurrence
+  @Column({ type: 'int', default: 0 })
+  retryAttempt: number;
+
+  @Column({ type: 'uuid', nullable: true })
+  lastTransactionId: string;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  lastFailureCode: string;
+
+  @Column({ type: 'text', nullable: true })
+  lastFailureReason: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastRunAt: Date;
+
+  // Set when a worker claims the run; a stale claim is picked up again
+  @Column({ type: 'timestamp', nullable: true })
+  claimedAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @ManyToOne(() => Wallet)
+  @JoinColumn({ name: 'sourceWalletId' })
+  sourceWallet: Wallet;
+
+  // Helper methods
+  isOpen(): boolean {
+    return [
+      StandingOrderStatus.ACTIVE,
+      StandingOrderStatus.PAUSED,
+    ].includes(this.status);
+  }
+}
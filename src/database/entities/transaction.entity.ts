@@ -10,6 +10,7 @@ import {
   Unique,
 } from 'typeorm';
 import { Wallet } from './wallet.entity';
+import { DecimalTransformer, moneyTransformer } from '../../common/money/decimal.transformer';
 
 export enum TransactionType {
   DEPOSIT = 'DEPOSIT',
@@ -30,13 +31,24 @@ export enum TransactionStatus {
 
 export enum TransferState {
   INITIATED = 'INITIATED',
+  AWAITING_PAYMENT = 'AWAITING_PAYMENT',
   FUNDS_RESERVED = 'FUNDS_RESERVED',
+  // Funds held for an escrow; the saga is suspended until release or return
+  ESCROWED = 'ESCROWED',
+  // Funds authorized for a merchant; the saga is suspended until captured or voided
+  AUTHORIZED = 'AUTHORIZED',
+  // Funds held while the sender can still cancel; the saga is suspended until settlesAt
+  PENDING_SETTLEMENT = 'PENDING_SETTLEMENT',
   VALIDATION_COMPLETE = 'VALIDATION_COMPLETE',
   DEBIT_COMPLETE = 'DEBIT_COMPLETE',
   CREDIT_COMPLETE = 'CREDIT_COMPLETE',
+  FEE_COLLECTED = 'FEE_COLLECTED',
+  PAYOUT_PENDING = 'PAYOUT_PENDING',
   COMPLETED = 'COMPLETED',
   COMPENSATION_PENDING = 'COMPENSATION_PENDING',
   COMPENSATED = 'COMPENSATED',
+  // A suspended saga compensated on request, e.g. a transfer cancelled before it settled
+  CANCELLED = 'CANCELLED',
   FAILED = 'FAILED',
 }
 
@@ -46,13 +58,16 @@ export enum TransferState {
 @Index(['createdAt'])
 @Index(['idempotencyKey'])
 @Index(['externalReferenceId'])
+@Index(['parentTransactionId'])
+@Index(['standingOrderId'])
+@Index(['transferState', 'settlesAt'])
 @Unique(['idempotencyKey'])
 export class Transaction {
   @PrimaryGeneratedColumn('uuid')
   id: string;
 
-  @Column({ type: 'decimal', precision: 15, scale: 2 })
-  amount: number;
+  @Column({ type: 'decimal', precision: 15, scale: 2, transformer: moneyTransformer })
+  amount: string;
 
   @Column({ type: 'enum', enum: TransactionType })
   type: TransactionType;
@@ -75,6 +90,42 @@ export class Transaction {
   @Column({ type: 'json', nullable: true })
   metadata: Record<string, any>;
 
+  // Original transaction this one refunds or reverses
+  @Column({ type: 'uuid', nullable: true })
+  parentTransactionId: string;
+
+  // Sum of completed refunds linked to this transaction
+  @Column({ type: 'decimal', precision: 15, scale: 2, default: 0, transformer: moneyTransformer })
+  refundedAmount: string;
+
+  // FX conversion applied to cross-currency transfers; amount stays in the source currency
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  quoteId: string;
+
+  @Column({ type: 'decimal', precision: 18, scale: 8, nullable: true, transformer: new DecimalTransformer(8) })
+  fxRate: number;
+
+  @Column({ type: 'decimal', precision: 8, scale: 6, nullable: true, transformer: new DecimalTransformer(6) })
+  fxSpread: number;
+
+  @Column({ type: 'decimal', precision: 15, scale: 2, nullable: true, transformer: moneyTransformer })
+  destinationAmount: string;
+
+  @Column({ type: 'varchar', length: 3, nullable: true })
+  destinationCurrency: string;
+
+  // Charged to the sender on top of amount, in the source currency
+  @Column({ type: 'decimal', precision: 15, scale: 2, default: 0, transformer: moneyTransformer })
+  feeAmount: string;
+
+  // Standing order this transfer is an occurrence of
+  @Column({ type: 'uuid', nullable: true })
+  standingOrderId: string;
+
+  // End of the cancellation window of a transfer sent with a settlement delay
+  @Column({ type: 'timestamp', nullable: true })
+  settlesAt: Date;
+
   // Idempotency and distributed transaction fields
   @Column({ type: 'varchar', length: 255, unique: true, nullable: true })
   idempotencyKey: string;
@@ -102,24 +153,24 @@ export class Transaction {
   sagaState: Record<string, any>;
 
   // Fund reservation for distributed transactions
-  @Column({ type: 'decimal', precision: 15, scale: 2, nullable: true })
-  reservedAmount: number;
+  @Column({ type: 'decimal', precision: 15, scale: 2, nullable: true, transformer: moneyTransformer })
+  reservedAmount: string;
 
   @Column({ type: 'timestamp', nullable: true })
   reservationExpiry: Date;
 
   // Balance snapshots for consistency verification
-  @Column({ type: 'decimal', precision: 15, scale: 2, nullable: true })
-  sourceBalanceBefore: number;
+  @Column({ type: 'decimal', precision: 15, scale: 2, nullable: true, transformer: moneyTransformer })
+  sourceBalanceBefore: string;
 
-  @Column({ type: 'decimal', precision: 15, scale: 2, nullable: true })
-  sourceBalanceAfter: number;
+  @Column({ type: 'decimal', precision: 15, scale: 2, nullable: true, transformer: moneyTransformer })
+  sourceBalanceAfter: string;
 
-  @Column({ type: 'decimal', precision: 15, scale: 2, nullable: true })
-  destinationBalanceBefore: number;
+  @Column({ type: 'decimal', precision: 15, scale: 2, nullable: true, transformer: moneyTransformer })
+  destinationBalanceBefore: string;
 
-  @Column({ type: 'decimal', precision: 15, scale: 2, nullable: true })
-  destinationBalanceAfter: number;
+  @Column({ type: 'decimal', precision: 15, scale: 2, nullable: true, transformer: moneyTransformer })
+  destinationBalanceAfter: string;
 
   @CreateDateColumn()
   createdAt: Date;
@@ -0,0 +1,73 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  Unique,
+} from 'typeorm';
+import { TransferBatch } from './transfer-batch.entity';
+import { moneyTransformer } from '../../common/money/decimal.transformer';
+
+export enum TransferBatchItemStatus {
+  PENDING = 'PENDING',
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED',
+  // Not attempted because an all-or-nothing batch had already failed
+  SKIPPED = 'SKIPPED',
+  // Paid, then reversed because an all-or-nothing batch failed
+  REVERSED = 'REVERSED',
+  REVERSAL_FAILED = 'REVERSAL_FAILED',
+}
+
+@Entity('transfer_batch_items')
+@Index(['batchId'])
+@Unique(['batchId', 'sequence'])
+export class TransferBatchItem {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  batchId: string;
+
+  // Position in the submitted list; items run in this order
+  @Column({ type: 'int' })
+  sequence: number;
+
+  @Column({ type: 'uuid' })
+  destinationWalletId: string;
+
+  @Column({ type: 'decimal', precision: 15, scale: 2, transformer: moneyTransformer })
+  amount: string;
+
+  @Column({ nullable: true })
+  description: string;
+
+  @Column({ type: 'enum', enum: TransferBatchItemStatus, default: TransferBatchItemStatus.PENDING })
+  status: TransferBatchItemStatus;
+
+  @Column({ type: 'uuid', nullable: true })
+  transactionId: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  reversalTransactionId: string;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  failureCode: string;
+
+  @Column({ type: 'text', nullable: true })
+  failureReason: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @ManyToOne(() => TransferBatch, batch => batch.items)
+  @JoinColumn({ name: 'batchId' })
+  batch: TransferBatch;
+}
@@ -0,0 +1,98 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  OneToMany,
+  Index,
+  Unique,
+} from 'typeorm';
+import { TransferBatchItem } from './transfer-batch-item.entity';
+import { moneyTransformer } from '../../common/money/decimal.transformer';
+
+export enum TransferBatchMode {
+  // Any failed item reverses the ones already paid
+  ALL_OR_NOTHING = 'ALL_OR_NOTHING',
+  // Items succeed or fail independently
+  BEST_EFFORT = 'BEST_EFFORT',
+}
+
+export enum TransferBatchStatus {
+  PENDING = 'PENDING',
+  PROCESSING = 'PROCESSING',
+  COMPLETED = 'COMPLETED',
+  PARTIALLY_COMPLETED = 'PARTIALLY_COMPLETED',
+  FAILED = 'FAILED',
+}
+
+/**
+ * Many transfers out of one wallet, submitted and tracked as a unit
+ */
+@Entity('transfer_batches')
+@Index(['sourceWalletId'])
+@Index(['status'])
+@Unique(['userId', 'idempotencyKey'])
+export class TransferBatch {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @Column({ type: 'uuid' })
+  sourceWalletId: string;
+
+  @Column({ type: 'enum', enum: TransferBatchMode })
+  mode: TransferBatchMode;
+
+  @Column({ type: 'enum', enum: TransferBatchStatus, default: TransferBatchStatus.PENDING })
+  status: TransferBatchStatus;
+
+  @Column({ nullable: true })
+  description: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  idempotencyKey: string;
+
+  // Hash of the submitted items; a reused key must come with the same request
+  @Column({ type: 'varchar', length: 64 })
+  requestHash: string;
+
+  @Column({ type: 'decimal', precision: 15, scale: 2, transformer: moneyTransformer })
+  totalAmount: string;
+
+  @Column({ type: 'int' })
+  itemCount: number;
+
+  @Column({ type: 'int', default: 0 })
+  completedCount: number;
+
+  @Column({ type: 'int', default: 0 })
+  failedCount: number;
+
+  // Set when a worker claims the batch and refreshed after every item
+  @Column({ type: 'timestamp', nullable: true })
+  claimedAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  completedAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @OneToMany(() => TransferBatchItem, item => item.batch)
+  items: TransferBatchItem[];
+
+  // Helper methods
+  isFinished(): boolean {
+    return [
+      TransferBatchStatus.COMPLETED,
+      TransferBatchStatus.PARTIALLY_COMPLETED,
+      TransferBatchStatus.FAILED,
+    ].includes(this.status);
+  }
+}
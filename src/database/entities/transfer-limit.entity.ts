@@ -8,23 +8,24 @@ import {
   JoinColumn,
 } from 'typeorm';
 import { User } from './user.entity';
+import { moneyTransformer } from '../../common/money/decimal.transformer';
 
 @Entity('transfer_limits')
 export class TransferLimit {
   @PrimaryGeneratedColumn('uuid')
   id: string;
 
-  @Column({ type: 'decimal', precision: 15, scale: 2 })
-  dailyLimit: number;
+  @Column({ type: 'decimal', precision: 15, scale: 2, transformer: moneyTransformer })
+  dailyLimit: string;
 
-  @Column({ type: 'decimal', precision: 15, scale: 2 })
-  monthlyLimit: number;
+  @Column({ type: 'decimal', precision: 15, scale: 2, transformer: moneyTransformer })
+  monthlyLimit: string;
 
-  @Column({ type: 'decimal', precision: 15, scale: 2, default: 0 })
-  dailyUsed: number;
+  @Column({ type: 'decimal', precision: 15, scale: 2, default: 0, transformer: moneyTransformer })
+  dailyUsed: string;
 
-  @Column({ type: 'decimal', precision: 15, scale: 2, default: 0 })
-  monthlyUsed: number;
+  @Column({ type: 'decimal', precision: 15, scale: 2, default: 0, transformer: moneyTransformer })
+  monthlyUsed: string;
 
   @Column({ type: 'date' })
   lastDailyReset: Date;
@@ -10,6 +10,18 @@ import {
 import { Wallet } from './wallet.entity';
 import { TransferLimit } from './transfer-limit.entity';
 
+export enum UserRole {
+  USER = 'USER',
+  ADMIN = 'ADMIN',
+}
+
+// Pricing tier; fee schedules can target a tier
+export enum UserTier {
+  STANDARD = 'STANDARD',
+  PREMIUM = 'PREMIUM',
+  BUSINESS = 'BUSINESS',
+}
+
 @Entity('users')
 export class User {
   @PrimaryGeneratedColumn('uuid')
@@ -30,9 +42,26 @@ export class User {
   @Column({ nullable: true })
   phoneNumber: string;
 
+  // Unique public alias others can send money to, stored lowercase
+  @Column({ type: 'varchar', length: 30, unique: true, nullable: true })
+  handle: string;
+
+  // Email and phone only resolve to this user as transfer recipients once verified
+  @Column({ type: 'timestamp', nullable: true })
+  emailVerifiedAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  phoneVerifiedAt: Date;
+
   @Column({ default: true })
   isActive: boolean;
 
+  @Column({ type: 'enum', enum: UserRole, default: UserRole.USER })
+  role: UserRole;
+
+  @Column({ type: 'enum', enum: UserTier, default: UserTier.STANDARD })
+  tier: UserTier;
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -0,0 +1,54 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Wallet, WalletStatus, WalletActor } from './wallet.entity';
+
+/**
+ * Audit trail of wallet status transitions. Rows are only ever inserted.
+ */
+@Entity('wallet_status_events')
+@Index(['walletId', 'createdAt'])
+export class WalletStatusEvent {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  walletId: string;
+
+  @Column({ type: 'enum', enum: WalletStatus })
+  fromStatus: WalletStatus;
+
+  @Column({ type: 'enum', enum: WalletStatus })
+  toStatus: WalletStatus;
+
+  // Whether incoming money was refused after the transition
+  @Column({ default: false })
+  incomingBlocked: boolean;
+
+  @Column({ type: 'text' })
+  reason: string;
+
+  @Column({ type: 'enum', enum: WalletActor })
+  actor: WalletActor;
+
+  // User who made the change: the owner, or the admin acting on the wallet
+  @Column({ type: 'uuid' })
+  actorId: string;
+
+  // Transfer that moved the remaining balance out before a closure
+  @Column({ type: 'uuid', nullable: true })
+  sweepTransactionId: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @ManyToOne(() => Wallet)
+  @JoinColumn({ name: 'walletId' })
+  wallet: Wallet;
+}
@@ -8,28 +8,63 @@ import {
   OneToMany,
   JoinColumn,
   Index,
+  Check,
 } from 'typeorm';
 import { User } from './user.entity';
 import { Transaction } from './transaction.entity';
+import { moneyTransformer } from '../../common/money/decimal.transformer';
+
+export enum WalletStatus {
+  ACTIVE = 'ACTIVE',
+  // No outgoing money; incoming too when incomingBlocked is set
+  FROZEN = 'FROZEN',
+  // Emptied and shut; isActive is false
+  CLOSED = 'CLOSED',
+}
+
+// Who moved a wallet into its status; owners cannot undo what an admin did
+export enum WalletActor {
+  OWNER = 'OWNER',
+  ADMIN = 'ADMIN',
+}
 
 @Entity('wallets')
 @Index(['userId'])
+@Index(['userId', 'currency'], { unique: true, where: '"isDefaultReceiving" = true' })
+// Backstop for the balance checks made under row locks; no posting may overdraw a wallet
+@Check('"balance" >= 0')
 export class Wallet {
   @PrimaryGeneratedColumn('uuid')
   id: string;
 
-  @Column({ type: 'decimal', precision: 15, scale: 2, default: 0 })
-  balance: number;
+  // Projection of the wallet's ledger postings; only LedgerService may change it
+  @Column({ type: 'decimal', precision: 15, scale: 2, default: 0, transformer: moneyTransformer })
+  balance: string;
 
   @Column({ default: 'USD' })
   currency: string;
 
+  // False once closed; kept alongside status because wallet lookups filter on it
   @Column({ default: true })
   isActive: boolean;
 
+  @Column({ type: 'enum', enum: WalletStatus, default: WalletStatus.ACTIVE })
+  status: WalletStatus;
+
+  // While frozen, refuse incoming money as well
+  @Column({ default: false })
+  incomingBlocked: boolean;
+
+  @Column({ type: 'enum', enum: WalletActor, nullable: true })
+  statusChangedBy: WalletActor;
+
   @Column({ nullable: true })
   name: string;
 
+  // Receives transfers sent to the owner's handle, email or phone in this currency
+  @Column({ default: false })
+  isDefaultReceiving: boolean;
+
   @Column({ type: 'uuid' })
   userId: string;
 
@@ -48,4 +83,14 @@ export class Wallet {
 
   @OneToMany(() => Transaction, transaction => transaction.destinationWallet)
   incomingTransactions: Transaction[];
+
+  // Helper methods
+  canSend(): boolean {
+    return this.status === WalletStatus.ACTIVE;
+  }
+
+  canReceive(): boolean {
+    return this.status === WalletStatus.ACTIVE ||
+      (this.status === WalletStatus.FROZEN && !this.incomingBlocked);
+  }
 } 
\ No newline at end of file
@@ -0,0 +1,86 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { WebhookEndpoint } from './webhook-endpoint.entity';
+import { DomainEventType } from '../../common/events/domain-event';
+
+export enum WebhookDeliveryStatus {
+  // Waiting for its first attempt, or for a manual redelivery
+  PENDING = 'PENDING',
+  // Claimed by a worker and being sent
+  DELIVERING = 'DELIVERING',
+  SUCCEEDED = 'SUCCEEDED',
+  // Failed; tried again at nextAttemptAt
+  RETRYING = 'RETRYING',
+  // Gave up after the maximum number of attempts
+  DEAD_LETTER = 'DEAD_LETTER',
+}
+
+/**
+ * One event to be sent to one endpoint. The body is fixed when the event fans out,
+ * so every attempt and redelivery sends exactly the same payload.
+ */
+@Entity('webhook_deliveries')
+@Index(['endpointId', 'eventId'], { unique: true })
+@Index(['endpointId', 'createdAt'])
+@Index(['status', 'nextAttemptAt'])
+export class WebhookDelivery {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  endpointId: string;
+
+  // Outbox event id; receivers dedupe on it
+  @Column({ type: 'uuid' })
+  eventId: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  eventType: DomainEventType;
+
+  @Column({ type: 'jsonb' })
+  payload: Record<string, any>;
+
+  @Column({ type: 'enum', enum: WebhookDeliveryStatus, default: WebhookDeliveryStatus.PENDING })
+  status: WebhookDeliveryStatus;
+
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  // Null once it succeeds or is dead-lettered
+  @Column({ type: 'timestamp', nullable: true })
+  nextAttemptAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastAttemptAt: Date;
+
+  @Column({ type: 'int', nullable: true })
+  lastStatusCode: number;
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  deliveredAt: Date;
+
+  // Set while being sent; a delivery stuck in DELIVERING is retried once this is stale
+  @Column({ type: 'timestamp', nullable: true })
+  claimedAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @ManyToOne(() => WebhookEndpoint, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'endpointId' })
+  endpoint: WebhookEndpoint;
+}
@@ -0,0 +1,69 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { DomainEventType } from '../../common/events/domain-event';
+
+// Events about a user's transactions that endpoints can subscribe to
+export const WEBHOOK_EVENT_TYPES = [
+  DomainEventType.TRANSFER_COMPLETED,
+  DomainEventType.TRANSFER_FAILED,
+  DomainEventType.TRANSFER_CANCELLED,
+  DomainEventType.REFUND_COMPLETED,
+  DomainEventType.REFUND_FAILED,
+  DomainEventType.FUNDS_DEPOSITED,
+  DomainEventType.DEPOSIT_FAILED,
+  DomainEventType.WITHDRAWAL_COMPLETED,
+  DomainEventType.WITHDRAWAL_FAILED,
+];
+
+/**
+ * A URL a user wants domain events POSTed to. Only events about the user's own
+ * wallets are sent, narrowed to walletId when set.
+ */
+@Entity('webhook_endpoints')
+@Index(['userId', 'isActive'])
+export class WebhookEndpoint {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @Column({ type: 'varchar', length: 2048 })
+  url: string;
+
+  // HMAC key for the signature header; only shown when created or rotated
+  @Column({ type: 'varchar', length: 100 })
+  secret: string;
+
+  @Column({ type: 'varchar', array: true })
+  eventTypes: DomainEventType[];
+
+  // Null for all of the user's wallets
+  @Column({ type: 'uuid', nullable: true })
+  walletId: string;
+
+  @Column({ nullable: true })
+  description: string;
+
+  @Column({ default: true })
+  isActive: boolean;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'userId' })
+  user: User;
+}
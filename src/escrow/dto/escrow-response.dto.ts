@@ -0,0 +1,58 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { EscrowStatus, EscrowReleaseTrigger } from '../../database/entities/escrow.entity';
+
+export class EscrowResponseDto {
+  @ApiProperty({ example: 'uuid-string' })
+  id: string;
+
+  @ApiProperty({ example: 'uuid-of-transaction', description: 'Transfer that moves the funds once released' })
+  transactionId: string;
+
+  @ApiProperty({ example: 'uuid-of-payer' })
+  payerId: string;
+
+  @ApiProperty({ example: 'uuid-of-source-wallet' })
+  sourceWalletId: string;
+
+  @ApiProperty({ example: 'uuid-of-recipient' })
+  recipientId: string;
+
+  @ApiProperty({ example: 'uuid-of-destination-wallet' })
+  destinationWalletId: string;
+
+  @ApiProperty({ example: '250.00' })
+  amount: string;
+
+  @ApiProperty({ example: '1.25', description: 'Held with the amount, charged on release' })
+  feeAmount: string;
+
+  @ApiProperty({ example: 'USD' })
+  currency: string;
+
+  @ApiProperty({ example: 'Deposit for the bike', nullable: true })
+  description: string | null;
+
+  @ApiProperty({ example: 'HELD', enum: EscrowStatus })
+  status: EscrowStatus;
+
+  @ApiProperty({ example: '2024-02-01T00:00:00Z', nullable: true })
+  releaseAt: Date | null;
+
+  @ApiProperty({ example: '2024-02-02T00:00:00Z', description: 'Returned to the payer if still held at this time' })
+  expiresAt: Date;
+
+  @ApiProperty({ example: 'APPROVAL', enum: EscrowReleaseTrigger, nullable: true })
+  releaseTrigger: EscrowReleaseTrigger | null;
+
+  @ApiProperty({ example: 'Item never arrived', nullable: true })
+  disputeReason: string | null;
+
+  @ApiProperty({ example: 'Destination wallet not found or inactive', nullable: true })
+  failureReason: string | null;
+
+  @ApiProperty({ example: '2024-02-01T00:00:05Z', nullable: true })
+  resolvedAt: Date | null;
+
+  @ApiProperty({ example: '2024-01-15T10:00:00Z' })
+  createdAt: Date;
+}
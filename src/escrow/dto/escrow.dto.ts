@@ -0,0 +1,68 @@
+import { IsUUID, IsOptional, IsString, IsNotEmpty, IsDateString, IsEnum, IsIn, MaxLength, ValidateIf } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { EscrowStatus } from '../../database/entities/escrow.entity';
+import { IsMoneyAmount } from '../../common/money/is-money-amount.decorator';
+
+export class CreateEscrowDto {
+  @ApiProperty({ example: 'uuid-of-your-wallet', description: 'Wallet the funds are held on' })
+  @IsUUID()
+  walletId: string;
+
+  @ApiProperty({ example: 'uuid-of-destination-wallet', required: false, description: 'Give either this or recipient' })
+  @ValidateIf(o => !o.recipient)
+  @IsUUID()
+  destinationWalletId?: string;
+
+  @ApiProperty({ example: '@jane_doe', required: false, description: 'Handle, verified email or verified phone number' })
+  @ValidateIf(o => !o.destinationWalletId)
+  @IsString()
+  @IsNotEmpty()
+  recipient?: string;
+
+  @ApiProperty({ example: 250.00 })
+  @IsMoneyAmount()
+  @Type(() => Number)
+  amount: number;
+
+  @ApiProperty({ example: 'Deposit for the bike', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  description?: string;
+
+  @ApiProperty({
+    example: '2024-02-01T00:00:00Z',
+    required: false,
+    description: 'Release to the recipient automatically at this time; without it the payer must approve',
+  })
+  @IsOptional()
+  @IsDateString()
+  releaseAt?: string;
+
+  @ApiProperty({ example: 'unique-idempotency-key-12345', required: false })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  idempotencyKey?: string;
+}
+
+export class DisputeEscrowDto {
+  @ApiProperty({ example: 'Item never arrived' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
+
+export class EscrowQueryDto {
+  @ApiProperty({ required: false, enum: ['payer', 'recipient'], description: 'Only escrows you pay into, or receive from' })
+  @IsOptional()
+  @IsIn(['payer', 'recipient'])
+  role?: 'payer' | 'recipient';
+
+  @ApiProperty({ required: false, enum: EscrowStatus })
+  @IsOptional()
+  @IsEnum(EscrowStatus)
+  status?: EscrowStatus;
+}
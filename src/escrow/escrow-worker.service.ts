@@ -0,0 +1,54 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EscrowService } from './escrow.service';
+
+/**
+ * Releases escrows at their deadline, returns expired ones and finishes interrupted resolutions
+ */
+@Injectable()
+export class EscrowWorkerService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(EscrowWorkerService.name);
+  private pollTimer: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private escrowService: EscrowService,
+    private configService: ConfigService,
+  ) {}
+
+  onApplicationBootstrap() {
+    const intervalMs = Number(this.configService.get('ESCROW_POLL_INTERVAL_MS', 60000));
+    this.pollTimer = setInterval(() => {
+      this.runDueWork().catch(error => this.logger.error('Escrow worker run failed:', error));
+    }, intervalMs);
+  }
+
+  onModuleDestroy() {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+    }
+  }
+
+  async runDueWork(): Promise<void> {
+    if (this.running) {
+      this.logger.debug('Escrow worker already running, skipping');
+      return;
+    }
+
+    this.running = true;
+    try {
+      // Deadlines first, so an escrow due for release is not expired in the same run
+      const released = await this.escrowService.releaseDueEscrows();
+      const expired = await this.escrowService.expireEscrows();
+
+      const claimTimeoutMs = Number(this.configService.get('ESCROW_CLAIM_TIMEOUT_MS', 300000));
+      const resumed = await this.escrowService.resumeStalledEscrows(new Date(Date.now() - claimTimeoutMs));
+
+      if (released + expired + resumed > 0) {
+        this.logger.log(`Escrow worker: released=${released}, expired=${expired}, resumed=${resumed}`);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import { Controller, Post, Get, Body, Param, Query, UseGuards, Request, Headers, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiBearerAuth, ApiTags, ApiOperation, ApiResponse, ApiHeader } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { EscrowService } from './escrow.service';
+import { CreateEscrowDto, DisputeEscrowDto, EscrowQueryDto } from './dto/escrow.dto';
+import { EscrowResponseDto } from './dto/escrow-response.dto';
+import { Idempotent } from '../common/decorators/idempotent.decorator';
+
+@ApiTags('Escrows')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('escrows')
+export class EscrowController {
+  constructor(private readonly escrowService: EscrowService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Hold funds for a recipient until you release them or the deadline passes' })
+  @ApiHeader({
+    name: 'Idempotency-Key',
+    description: 'Optional idempotency key to prevent duplicate escrows',
+    required: false,
+  })
+  @ApiResponse({ status: 201, description: 'Funds held in escrow', type: EscrowResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid escrow request or insufficient balance' })
+  @ApiResponse({ status: 403, description: 'Transfer limit exceeded' })
+  @ApiResponse({ status: 404, description: 'Wallet or recipient not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async createEscrow(
+    @Request() req,
+    @Body() createEscrowDto: CreateEscrowDto,
+    @Headers('idempotency-key') idempotencyKeyHeader?: string,
+  ): Promise<EscrowResponseDto> {
+    if (idempotencyKeyHeader && !createEscrowDto.idempotencyKey) {
+      createEscrowDto.idempotencyKey = idempotencyKeyHeader;
+    }
+
+    return this.escrowService.createEscrow(req.user, createEscrowDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Escrows you pay into or receive from' })
+  @ApiResponse({ status: 200, description: 'Escrows retrieved successfully', type: [EscrowResponseDto] })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getEscrows(@Request() req, @Query() query: EscrowQueryDto): Promise<EscrowResponseDto[]> {
+    return this.escrowService.getEscrows(req.user.id, query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an escrow you are party to' })
+  @ApiResponse({ status: 200, description: 'Escrow retrieved successfully', type: EscrowResponseDto })
+  @ApiResponse({ status: 404, description: 'Escrow not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getEscrow(@Param('id') id: string, @Request() req): Promise<EscrowResponseDto> {
+    return this.escrowService.getEscrow(id, req.user.id);
+  }
+
+  @Post(':id/release')
+  @Idempotent()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Approve an escrow you pay into, paying the recipient' })
+  @ApiResponse({ status: 200, description: 'Escrow released, or failed and returned', type: EscrowResponseDto })
+  @ApiResponse({ status: 400, description: 'Escrow is no longer held' })
+  @ApiResponse({ status: 403, description: 'Only the payer can release' })
+  @ApiResponse({ status: 404, description: 'Escrow not found' })
+  @ApiResponse({ status: 409, description: 'Escrow is already being resolved' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async releaseEscrow(@Param('id') id: string, @Request() req): Promise<EscrowResponseDto> {
+    return this.escrowService.releaseEscrow(id, req.user.id);
+  }
+
+  @Post(':id/cancel')
+  @Idempotent()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Call off an escrow, returning the funds to the payer' })
+  @ApiResponse({ status: 200, description: 'Escrow cancelled', type: EscrowResponseDto })
+  @ApiResponse({ status: 400, description: 'Escrow is no longer held' })
+  @ApiResponse({ status: 404, description: 'Escrow not found' })
+  @ApiResponse({ status: 409, description: 'Escrow is already being resolved' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async cancelEscrow(@Param('id') id: string, @Request() req): Promise<EscrowResponseDto> {
+    return this.escrowService.cancelEscrow(id, req.user.id);
+  }
+
+  @Post(':id/dispute')
+  @Idempotent()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Dispute an escrow you pay into, returning the funds to you' })
+  @ApiResponse({ status: 200, description: 'Escrow disputed', type: EscrowResponseDto })
+  @ApiResponse({ status: 400, description: 'Escrow is no longer held' })
+  @ApiResponse({ status: 403, description: 'Only the payer can dispute' })
+  @ApiResponse({ status: 404, description: 'Escrow not found' })
+  @ApiResponse({ status: 409, description: 'Escrow is already being resolved' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async disputeEscrow(
+    @Param('id') id: string,
+    @Request() req,
+    @Body() disputeEscrowDto: DisputeEscrowDto,
+  ): Promise<EscrowResponseDto> {
+    return this.escrowService.disputeEscrow(id, req.user.id, disputeEscrowDto);
+  }
+}
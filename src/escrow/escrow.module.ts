@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { EscrowController } from './escrow.controller';
+import { EscrowService } from './escrow.service';
+import { EscrowWorkerService } from './escrow-worker.service';
+import { Escrow } from '../database/entities/escrow.entity';
+import { Wallet } from '../database/entities/wallet.entity';
+import { Transaction } from '../database/entities/transaction.entity';
+import { AuthModule } from '../auth/auth.module';
+import { TransferModule } from '../transfer/transfer.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Escrow, Wallet, Transaction]),
+    AuthModule,
+    TransferModule,
+  ],
+  controllers: [EscrowController],
+  providers: [EscrowService, EscrowWorkerService],
+})
+export class EscrowModule {}
@@ -0,0 +1,173 @@
+import { BadRequestException, Logger } from '@nestjs/common';
+import { Escrow, EscrowReleaseTrigger, EscrowStatus } from '../database/entities/escrow.entity';
+import { TransactionStatus, TransferState } from '../database/entities/transaction.entity';
+import { EscrowService } from './escrow.service';
+
+describe('EscrowService', () => {
+  let stored: Escrow;
+  let transaction: { id: string; status: TransactionStatus; transferState: TransferState };
+  let transferService: { releaseEscrowedTransfer: jest.Mock; returnEscrowedTransfer: jest.Mock };
+  let service: EscrowService;
+
+  /**
+   * One stored escrow; conditional updates only apply while every plain criterion still matches
+   */
+  const createRepository = () => ({
+    findOne: jest.fn(async () => Object.assign(new Escrow(), stored)),
+    find: jest.fn(async () => [Object.assign(new Escrow(), stored)]),
+    update: jest.fn(async (criteria: string | Record<string, unknown>, changes: Partial<Escrow>) => {
+      const matches = typeof criteria === 'string'
+        ? criteria === stored.id
+        : Object.entries(criteria).every(([key, value]) => stored[key] === value);
+
+      if (matches) Object.assign(stored, changes);
+      return { affected: matches ? 1 : 0 };
+    }),
+  });
+
+  beforeAll(() => Logger.overrideLogger(false));
+
+  beforeEach(() => {
+    stored = Object.assign(new Escrow(), {
+      id: 'escrow-1',
+      transactionId: 'transaction-1',
+      payerId: 'payer',
+      recipientId: 'recipient',
+      sourceWalletId: 'payer-wallet',
+      destinationWalletId: 'recipient-wallet',
+      amount: 50,
+      status: EscrowStatus.HELD,
+      releaseAt: new Date(Date.now() - 1000),
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    });
+    transaction = { id: 'transaction-1', status: TransactionStatus.PROCESSING, transferState: TransferState.ESCROWED };
+    transferService = {
+      releaseEscrowedTransfer: jest.fn(async () => ({ id: 'transaction-1' })),
+      returnEscrowedTransfer: jest.fn(async () => undefined),
+    };
+
+    service = new EscrowService(
+      createRepository() as any,
+      {} as any,
+      { findOne: jest.fn(async () => transaction) } as any,
+      transferService as any,
+      { get: jest.fn((_, fallback) => fallback) } as any,
+    );
+  });
+
+  describe('release', () => {
+    it('pays the held funds to the recipient on payer approval', async () => {
+      const released = await service.releaseEscrow('escrow-1', 'payer');
+
+      expect(transferService.releaseEscrowedTransfer).toHaveBeenCalledWith('transaction-1');
+      expect(released).toEqual(expect.objectContaining({
+        status: EscrowStatus.RELEASED,
+        releaseTrigger: EscrowReleaseTrigger.APPROVAL,
+      }));
+      expect(stored.resolvedAt).toBeInstanceOf(Date);
+    });
+
+    it('only lets the payer approve a release', async () => {
+      await expect(service.releaseEscrow('escrow-1', 'recipient')).rejects.toThrow('Only the payer can release an escrow');
+      expect(transferService.releaseEscrowedTransfer).not.toHaveBeenCalled();
+    });
+
+    it('records a release whose payout failed', async () => {
+      transferService.releaseEscrowedTransfer.mockRejectedValueOnce(new BadRequestException('Recipient wallet is frozen'));
+
+      const released = await service.releaseEscrow('escrow-1', 'payer');
+
+      expect(released).toEqual(expect.objectContaining({
+        status: EscrowStatus.FAILED,
+        failureReason: 'Recipient wallet is frozen',
+      }));
+    });
+
+    it('releases escrows whose deadline has passed', async () => {
+      await expect(service.releaseDueEscrows()).resolves.toBe(1);
+
+      expect(stored).toEqual(expect.objectContaining({
+        status: EscrowStatus.RELEASED,
+        releaseTrigger: EscrowReleaseTrigger.DEADLINE,
+      }));
+    });
+
+    it('leaves a due escrow to whoever resolved it first', async () => {
+      const repository = (service as any).escrowRepository;
+      repository.find.mockImplementationOnce(async () => {
+        const snapshot = Object.assign(new Escrow(), stored);
+        stored.status = EscrowStatus.CANCELLED;
+        return [snapshot];
+      });
+
+      await expect(service.releaseDueEscrows()).resolves.toBe(0);
+      expect(transferService.releaseEscrowedTransfer).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('return', () => {
+    it('returns the funds when the recipient cancels', async () => {
+      const cancelled = await service.cancelEscrow('escrow-1', 'recipient');
+
+      expect(transferService.returnEscrowedTransfer).toHaveBeenCalledWith('transaction-1');
+      expect(cancelled.status).toBe(EscrowStatus.CANCELLED);
+      expect(cancelled.resolvedAt).toBeInstanceOf(Date);
+    });
+
+    it('returns escrows still held when their reservation runs out', async () => {
+      stored.expiresAt = new Date(Date.now() - 1000);
+
+      await expect(service.expireEscrows()).resolves.toBe(1);
+
+      expect(transferService.returnEscrowedTransfer).toHaveBeenCalledWith('transaction-1');
+      expect(stored.status).toBe(EscrowStatus.EXPIRED);
+    });
+
+    it('cannot dispute an escrow that was already released', async () => {
+      stored.status = EscrowStatus.RELEASED;
+
+      await expect(service.disputeEscrow('escrow-1', 'payer', { reason: 'Not delivered' })).rejects.toThrow(
+        'Escrow is RELEASED',
+      );
+      expect(transferService.returnEscrowedTransfer).not.toHaveBeenCalled();
+    });
+
+    it('leaves a return that failed unresolved so it is retried', async () => {
+      transferService.returnEscrowedTransfer.mockRejectedValueOnce(new Error('database unavailable'));
+
+      await service.disputeEscrow('escrow-1', 'payer', { reason: 'Not delivered' });
+
+      expect(stored.status).toBe(EscrowStatus.DISPUTED);
+      expect(stored.resolvedAt).toBeUndefined();
+    });
+  });
+
+  describe('resumeStalledEscrows', () => {
+    beforeEach(() => {
+      Object.assign(stored, { status: EscrowStatus.RELEASING, claimedAt: new Date(0) });
+    });
+
+    it('marks a stalled release whose transfer completed as released without paying again', async () => {
+      transaction.status = TransactionStatus.COMPLETED;
+
+      await expect(service.resumeStalledEscrows(new Date())).resolves.toBe(1);
+
+      expect(stored.status).toBe(EscrowStatus.RELEASED);
+      expect(transferService.releaseEscrowedTransfer).not.toHaveBeenCalled();
+    });
+
+    it('finishes a release that stopped before its transfer resumed', async () => {
+      await service.resumeStalledEscrows(new Date());
+
+      expect(transferService.releaseEscrowedTransfer).toHaveBeenCalledWith('transaction-1');
+      expect(stored.status).toBe(EscrowStatus.RELEASED);
+    });
+
+    it('waits for saga recovery while the release transfer is mid-saga', async () => {
+      transaction.transferState = TransferState.DEBIT_COMPLETE;
+
+      await expect(service.resumeStalledEscrows(new Date())).resolves.toBe(0);
+      expect(stored.status).toBe(EscrowStatus.RELEASING);
+    });
+  });
+});
@@ -0,0 +1,408 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  ConflictException,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, LessThan, LessThanOrEqual, In, IsNull } from 'typeorm';
+import { Escrow, EscrowStatus, EscrowReleaseTrigger, ESCROW_RETURN_STATUSES } from '../database/entities/escrow.entity';
+import { Wallet } from '../database/entities/wallet.entity';
+import { User } from '../database/entities/user.entity';
+import { Transaction, TransactionStatus, TransferState } from '../database/entities/transaction.entity';
+import { Money } from '../common/money/money';
+import { TransferService } from '../transfer/transfer.service';
+import { describeTransferFailure } from '../transfer/transfer-failure';
+import { CreateEscrowDto, DisputeEscrowDto, EscrowQueryDto } from './dto/escrow.dto';
+import { EscrowResponseDto } from './dto/escrow-response.dto';
+
+@Injectable()
+export class EscrowService {
+  private readonly logger = new Logger(EscrowService.name);
+  private readonly BATCH_SIZE = 50;
+
+  constructor(
+    @InjectRepository(Escrow)
+    private escrowRepository: Repository<Escrow>,
+    @InjectRepository(Wallet)
+    private walletRepository: Repository<Wallet>,
+    @InjectRepository(Transaction)
+    private transactionRepository: Repository<Transaction>,
+    private transferService: TransferService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Run a transfer that stops once the funds are held on the payer's wallet.
+   * Amount and fee count against the payer's available balance and limits now;
+   * the recipient is credited only when the escrow is released.
+   */
+  async createEscrow(payer: User, createEscrowDto: CreateEscrowDto): Promise<EscrowResponseDto> {
+    const { walletId, destinationWalletId, recipient, amount, description, idempotencyKey } = createEscrowDto;
+
+    const releaseAt = this.parseReleaseAt(createEscrowDto.releaseAt);
+    const expiresAt = releaseAt
+      ? new Date(releaseAt.getTime() + Number(this.configService.get('ESCROW_RELEASE_GRACE_MS', 86400000)))
+      : new Date(Date.now() + this.getMaxHoldMs());
+
+    const transfer = await this.transferService.transferFunds(
+      walletId,
+      payer,
+      {
+        destinationWalletId,
+        recipient,
+        amount,
+        description: description || 'Escrow',
+        // Kept apart from plain transfers so a reused key cannot return one of those
+        idempotencyKey: idempotencyKey && `escrow:${idempotencyKey}`,
+      },
+      { escrowUntil: expiresAt },
+    );
+
+    const existing = await this.escrowRepository.findOne({ where: { transactionId: transfer.id } });
+    if (existing) {
+      return this.mapToEscrowResponseDto(existing);
+    }
+
+    const [sourceWallet, destinationWallet] = await Promise.all([
+      this.walletRepository.findOne({ where: { id: transfer.sourceWalletId } }),
+      this.walletRepository.findOne({ where: { id: transfer.destinationWalletId } }),
+    ]);
+
+    try {
+      const escrow = await this.escrowRepository.save(
+        this.escrowRepository.create({
+          transactionId: transfer.id,
+          payerId: payer.id,
+          sourceWalletId: sourceWallet.id,
+          recipientId: destinationWallet.userId,
+          destinationWalletId: destinationWallet.id,
+          amount: Money.fromDecimal(amount).toString(),
+          feeAmount: transfer.feeAmount,
+          currency: sourceWallet.currency,
+          description,
+          releaseAt,
+          expiresAt,
+        }),
+      );
+
+      this.logger.log(
+        `Escrow ${escrow.id} holding ${amount} ${escrow.currency} from wallet ${walletId} ` +
+        `for wallet ${escrow.destinationWalletId}` + (releaseAt ? `, releaseAt=${releaseAt.toISOString()}` : '')
+      );
+
+      return this.mapToEscrowResponseDto(escrow);
+
+    } catch (error) {
+      // Postgres unique_violation: a concurrent retry with the same key recorded it first
+      if (error?.code === '23505') {
+        const escrow = await this.escrowRepository.findOne({ where: { transactionId: transfer.id } });
+        return this.mapToEscrowResponseDto(escrow);
+      }
+      throw error;
+    }
+  }
+
+  async getEscrows(userId: string, query: EscrowQueryDto): Promise<EscrowResponseDto[]> {
+    const parties = query.role === 'payer'
+      ? [{ payerId: userId }]
+      : query.role === 'recipient'
+        ? [{ recipientId: userId }]
+        : [{ payerId: userId }, { recipientId: userId }];
+
+    const escrows = await this.escrowRepository.find({
+      where: parties.map(party => (query.status ? { ...party, status: query.status } : party)),
+      order: { createdAt: 'DESC' },
+      take: 100,
+    });
+
+    return escrows.map(escrow => this.mapToEscrowResponseDto(escrow));
+  }
+
+  async getEscrow(id: string, userId: string): Promise<EscrowResponseDto> {
+    const escrow = await this.findEscrow(id);
+
+    if (escrow.payerId !== userId && escrow.recipientId !== userId) {
+      throw new NotFoundException('Escrow not found');
+    }
+
+    return this.mapToEscrowResponseDto(escrow);
+  }
+
+  /**
+   * Payer approval: pay the held funds out to the recipient
+   */
+  async releaseEscrow(id: string, payerId: string): Promise<EscrowResponseDto> {
+    const escrow = await this.findPayerEscrow(id, payerId, 'release');
+    this.assertHeld(escrow);
+
+    await this.claimHeld(escrow, {
+      status: EscrowStatus.RELEASING,
+      releaseTrigger: EscrowReleaseTrigger.APPROVAL,
+    });
+    await this.completeRelease(escrow);
+
+    return this.getEscrow(id, payerId);
+  }
+
+  /**
+   * Either party can call the escrow off, returning the funds to the payer
+   */
+  async cancelEscrow(id: string, userId: string): Promise<EscrowResponseDto> {
+    const escrow = await this.findEscrow(id);
+
+    if (escrow.payerId !== userId && escrow.recipientId !== userId) {
+      throw new NotFoundException('Escrow not found');
+    }
+
+    this.assertHeld(escrow);
+
+    await this.claimHeld(escrow, { status: EscrowStatus.CANCELLED });
+    await this.completeReturn(escrow);
+    this.logger.log(`Escrow ${id} cancelled by ${userId === escrow.payerId ? 'payer' : 'recipient'}`);
+
+    return this.getEscrow(id, userId);
+  }
+
+  /**
+   * The payer disputes the escrow, returning the funds and recording why
+   */
+  async disputeEscrow(id: string, payerId: string, disputeEscrowDto: DisputeEscrowDto): Promise<EscrowResponseDto> {
+    const escrow = await this.findPayerEscrow(id, payerId, 'dispute');
+    this.assertHeld(escrow);
+
+    await this.claimHeld(escrow, { status: EscrowStatus.DISPUTED, disputeReason: disputeEscrowDto.reason });
+    await this.completeReturn(escrow);
+    this.logger.log(`Escrow ${id} disputed by payer: ${disputeEscrowDto.reason}`);
+
+    return this.getEscrow(id, payerId);
+  }
+
+  /**
+   * Release held escrows whose deadline has passed
+   */
+  async releaseDueEscrows(): Promise<number> {
+    const due = await this.escrowRepository.find({
+      where: { status: EscrowStatus.HELD, releaseAt: LessThanOrEqual(new Date()) },
+      order: { releaseAt: 'ASC' },
+      take: this.BATCH_SIZE,
+    });
+
+    let released = 0;
+    for (const escrow of due) {
+      try {
+        await this.claimHeld(escrow, { status: EscrowStatus.RELEASING, releaseTrigger: EscrowReleaseTrigger.DEADLINE });
+      } catch (error) {
+        continue;
+      }
+
+      await this.completeRelease(escrow);
+      released++;
+    }
+
+    return released;
+  }
+
+  /**
+   * Return escrows still held when their reservation runs out
+   */
+  async expireEscrows(): Promise<number> {
+    const overdue = await this.escrowRepository.find({
+      where: { status: EscrowStatus.HELD, expiresAt: LessThanOrEqual(new Date()) },
+      take: this.BATCH_SIZE,
+    });
+
+    let expired = 0;
+    for (const escrow of overdue) {
+      try {
+        await this.claimHeld(escrow, { status: EscrowStatus.EXPIRED });
+      } catch (error) {
+        continue;
+      }
+
+      await this.completeReturn(escrow);
+      expired++;
+    }
+
+    return expired;
+  }
+
+  /**
+   * Finish releases and returns that stopped partway, e.g. after a crash
+   */
+  async resumeStalledEscrows(staleBefore: Date): Promise<number> {
+    const stalled = await this.escrowRepository.find({
+      where: [
+        { status: EscrowStatus.RELEASING, claimedAt: LessThan(staleBefore) },
+        { status: In(ESCROW_RETURN_STATUSES), resolvedAt: IsNull(), claimedAt: LessThan(staleBefore) },
+      ],
+      take: this.BATCH_SIZE,
+    });
+
+    let resumed = 0;
+    for (const escrow of stalled) {
+      // Re-claim so only one instance picks it up
+      const claimed = await this.escrowRepository.update(
+        { id: escrow.id, status: escrow.status, claimedAt: escrow.claimedAt },
+        { claimedAt: new Date() },
+      );
+      if (!claimed.affected) continue;
+
+      if (escrow.status !== EscrowStatus.RELEASING) {
+        await this.completeReturn(escrow);
+        resumed++;
+        continue;
+      }
+
+      const transaction = await this.transactionRepository.findOne({ where: { id: escrow.transactionId } });
+
+      if (transaction.status === TransactionStatus.COMPLETED) {
+        await this.escrowRepository.update(escrow.id, { status: EscrowStatus.RELEASED, resolvedAt: new Date() });
+      } else if (transaction.transferState === TransferState.COMPENSATED) {
+        await this.escrowRepository.update(escrow.id, {
+          status: EscrowStatus.FAILED,
+          failureReason: transaction.errorDetails?.message || 'Release failed',
+          resolvedAt: new Date(),
+        });
+      } else if (transaction.transferState === TransferState.ESCROWED) {
+        await this.completeRelease(escrow);
+      } else {
+        // Mid-saga: saga recovery drives the transfer to an outcome first
+        continue;
+      }
+
+      resumed++;
+    }
+
+    return resumed;
+  }
+
+  private async completeRelease(escrow: Escrow): Promise<void> {
+    try {
+      const result = await this.transferService.releaseEscrowedTransfer(escrow.transactionId);
+
+      await this.escrowRepository.update(escrow.id, { status: EscrowStatus.RELEASED, resolvedAt: new Date() });
+      this.logger.log(`Escrow ${escrow.id} released to wallet ${escrow.destinationWalletId} as transaction ${result.id}`);
+
+    } catch (error) {
+      if (error instanceof ConflictException) {
+        // Still in flight; picked up again once the claim is stale
+        this.logger.warn(`Release of escrow ${escrow.id} is still in progress`);
+        return;
+      }
+
+      // The saga compensated the payout, so the funds are back with the payer
+      const failure = describeTransferFailure(error);
+      await this.escrowRepository.update(escrow.id, {
+        status: EscrowStatus.FAILED,
+        failureReason: failure.reason,
+        resolvedAt: new Date(),
+      });
+
+      this.logger.warn(`Release of escrow ${escrow.id} failed (${failure.code}): ${failure.reason}`);
+    }
+  }
+
+  private async completeReturn(escrow: Escrow): Promise<void> {
+    try {
+      await this.transferService.returnEscrowedTransfer(escrow.transactionId);
+
+      await this.escrowRepository.update(escrow.id, { resolvedAt: new Date() });
+      this.logger.log(`Escrow ${escrow.id} returned to wallet ${escrow.sourceWalletId}`);
+
+    } catch (error) {
+      // Left unresolved; picked up again once the claim is stale
+      this.logger.error(`Returning escrow ${escrow.id} failed:`, error);
+    }
+  }
+
+  /**
+   * Move a held escrow on, unless a concurrent action got there first
+   */
+  private async claimHeld(escrow: Escrow, changes: Partial<Escrow>): Promise<void> {
+    const result = await this.escrowRepository.update(
+      { id: escrow.id, status: EscrowStatus.HELD },
+      { ...changes, claimedAt: new Date() },
+    );
+
+    if (!result.affected) {
+      throw new ConflictException('Escrow is already being resolved');
+    }
+  }
+
+  private async findEscrow(id: string): Promise<Escrow> {
+    const escrow = await this.escrowRepository.findOne({ where: { id } });
+
+    if (!escrow) {
+      throw new NotFoundException('Escrow not found');
+    }
+
+    return escrow;
+  }
+
+  private async findPayerEscrow(id: string, payerId: string, action: string): Promise<Escrow> {
+    const escrow = await this.findEscrow(id);
+
+    if (escrow.payerId !== payerId) {
+      if (escrow.recipientId === payerId) {
+        throw new ForbiddenException(`Only the payer can ${action} an escrow`);
+      }
+      throw new NotFoundException('Escrow not found');
+    }
+
+    return escrow;
+  }
+
+  private assertHeld(escrow: Escrow): void {
+    if (escrow.status !== EscrowStatus.HELD) {
+      throw new BadRequestException(`Escrow is ${escrow.status}`);
+    }
+  }
+
+  private parseReleaseAt(releaseAt?: string): Date | null {
+    if (!releaseAt) {
+      return null;
+    }
+
+    const deadline = new Date(releaseAt);
+    if (deadline.getTime() <= Date.now()) {
+      throw new BadRequestException('releaseAt must be in the future');
+    }
+
+    if (deadline.getTime() > Date.now() + this.getMaxHoldMs()) {
+      throw new BadRequestException(`releaseAt cannot be more than ${this.configService.get('ESCROW_MAX_HOLD_HOURS', 720)} hours away`);
+    }
+
+    return deadline;
+  }
+
+  private getMaxHoldMs(): number {
+    return Number(this.configService.get('ESCROW_MAX_HOLD_HOURS', 720)) * 60 * 60 * 1000;
+  }
+
+  private mapToEscrowResponseDto(escrow: Escrow): EscrowResponseDto {
+    return {
+      id: escrow.id,
+      transactionId: escrow.transactionId,
+      payerId: escrow.payerId,
+      sourceWalletId: escrow.sourceWalletId,
+      recipientId: escrow.recipientId,
+      destinationWalletId: escrow.destinationWalletId,
+      amount: escrow.amount,
+      feeAmount: escrow.feeAmount,
+      currency: escrow.currency,
+      description: escrow.description || null,
+      status: escrow.status,
+      releaseAt: escrow.releaseAt || null,
+      expiresAt: escrow.expiresAt,
+      releaseTrigger: escrow.releaseTrigger || null,
+      disputeReason: escrow.disputeReason || null,
+      failureReason: escrow.failureReason || null,
+      resolvedAt: escrow.resolvedAt || null,
+      createdAt: escrow.createdAt,
+    };
+  }
+}
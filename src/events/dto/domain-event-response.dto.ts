@@ -0,0 +1,25 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { DomainEventType, AggregateType } from '../../common/events/domain-event';
+
+export class DomainEventResponseDto {
+  @ApiProperty({ example: 'uuid-string', description: 'Stable across redeliveries; use it to deduplicate' })
+  id: string;
+
+  @ApiProperty({ example: 1201 })
+  position: number;
+
+  @ApiProperty({ example: 'TransferCompleted', enum: DomainEventType })
+  type: DomainEventType;
+
+  @ApiProperty({ example: 'transaction', enum: AggregateType })
+  aggregateType: AggregateType;
+
+  @ApiProperty({ example: 'uuid-of-transaction' })
+  aggregateId: string;
+
+  @ApiProperty({ example: { transactionId: 'uuid-of-transaction', amount: 25.5 } })
+  payload: Record<string, any>;
+
+  @ApiProperty({ example: '2024-01-15T10:00:00Z' })
+  occurredAt: Date;
+}
@@ -0,0 +1,21 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class EventConsumerResponseDto {
+  @ApiProperty({ example: 'webhooks' })
+  consumer: string;
+
+  @ApiProperty({ example: 1200, description: 'Last event position the consumer handled' })
+  position: number;
+
+  @ApiProperty({ example: 3, description: 'Published events it has not handled yet' })
+  lag: number;
+
+  @ApiProperty({ example: true, description: 'Whether this instance has the consumer subscribed' })
+  subscribed: boolean;
+
+  @ApiProperty({ example: null, nullable: true })
+  lastError: string | null;
+
+  @ApiProperty({ example: '2024-01-15T10:00:00Z' })
+  updatedAt: Date;
+}
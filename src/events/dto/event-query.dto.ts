@@ -0,0 +1,34 @@
+import { IsOptional, IsEnum, IsInt, Min, Max } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { DomainEventType } from '../../common/events/domain-event';
+
+export class EventQueryDto {
+  @ApiProperty({ required: false, example: 1200, description: 'Only events after this position' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Type(() => Number)
+  after?: number;
+
+  @ApiProperty({ required: false, enum: DomainEventType })
+  @IsOptional()
+  @IsEnum(DomainEventType)
+  type?: DomainEventType;
+
+  @ApiProperty({ required: false, default: 100, minimum: 1, maximum: 500 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  @Type(() => Number)
+  limit?: number = 100;
+}
+
+export class ReplayEventsDto {
+  @ApiProperty({ example: 1, description: 'First position delivered again; 1 replays everything still in the outbox' })
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  fromPosition: number;
+}
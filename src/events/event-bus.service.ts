@@ -0,0 +1,210 @@
+import { Injectable, NotFoundException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, MoreThan, Not, IsNull } from 'typeorm';
+import { OutboxEvent } from '../database/entities/outbox-event.entity';
+import { EventConsumerOffset } from '../database/entities/event-consumer-offset.entity';
+import { DomainEvent, DomainEventType } from '../common/events/domain-event';
+import { EventQueryDto } from './dto/event-query.dto';
+import { DomainEventResponseDto } from './dto/domain-event-response.dto';
+import { EventConsumerResponseDto } from './dto/event-consumer-response.dto';
+
+export type DomainEventHandler = (event: DomainEvent) => Promise<void>;
+
+interface Subscription {
+  consumer: string;
+  handler: DomainEventHandler;
+  // Only these types reach the handler; the offset moves past the rest
+  types?: DomainEventType[];
+}
+
+/**
+ * In-process event bus fed from the outbox. Every named consumer has its own
+ * offset, so each receives every event at least once, in position order, and
+ * can be rewound to replay from a position.
+ */
+@Injectable()
+export class EventBusService {
+  private readonly logger = new Logger(EventBusService.name);
+  private readonly subscriptions = new Map<string, Subscription>();
+
+  constructor(
+    @InjectRepository(OutboxEvent)
+    private outboxRepository: Repository<OutboxEvent>,
+    @InjectRepository(EventConsumerOffset)
+    private offsetRepository: Repository<EventConsumerOffset>,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Register a consumer, usually from onModuleInit. A consumer seen for the first
+   * time starts from the oldest event still in the outbox.
+   */
+  subscribe(consumer: string, handler: DomainEventHandler, types?: DomainEventType[]): void {
+    if (this.subscriptions.has(consumer)) {
+      throw new Error(`Event consumer ${consumer} is already subscribed`);
+    }
+
+    this.subscriptions.set(consumer, { consumer, handler, types });
+    this.logger.log(`Subscribed event consumer ${consumer}` + (types ? ` to [${types.join(', ')}]` : ''));
+  }
+
+  /**
+   * Hand every subscribed consumer the events after its offset; returns how many were handled
+   */
+  async deliverAll(): Promise<number> {
+    let delivered = 0;
+
+    for (const subscription of this.subscriptions.values()) {
+      try {
+        delivered += await this.deliver(subscription);
+      } catch (error) {
+        this.logger.error(`Delivery to event consumer ${subscription.consumer} failed:`, error);
+      }
+    }
+
+    return delivered;
+  }
+
+  /**
+   * Rewind a consumer so it receives every event from fromPosition on again
+   */
+  async replay(consumer: string, fromPosition: number): Promise<EventConsumerResponseDto> {
+    const offset = await this.offsetRepository.findOne({ where: { consumer } });
+
+    if (!offset) {
+      throw new NotFoundException('Event consumer not found');
+    }
+
+    offset.position = Math.max(fromPosition - 1, 0);
+    offset.lastError = null;
+    await this.offsetRepository.save(offset);
+
+    this.logger.warn(`Event consumer ${consumer} rewound to replay from position ${fromPosition}`);
+
+    return this.mapToConsumerResponseDto(offset, await this.getLatestPosition());
+  }
+
+  async getConsumers(): Promise<EventConsumerResponseDto[]> {
+    const [offsets, latestPosition] = await Promise.all([
+      this.offsetRepository.find({ order: { consumer: 'ASC' } }),
+      this.getLatestPosition(),
+    ]);
+
+    return offsets.map(offset => this.mapToConsumerResponseDto(offset, latestPosition));
+  }
+
+  /**
+   * Published events after a position, for inspecting the outbox or catching up by hand
+   */
+  async getEvents(query: EventQueryDto): Promise<DomainEventResponseDto[]> {
+    const events = await this.outboxRepository.find({
+      where: {
+        position: query.after !== undefined ? MoreThan(query.after) : Not(IsNull()),
+        ...(query.type && { type: query.type }),
+      },
+      order: { position: 'ASC' },
+      take: query.limit,
+    });
+
+    return events.map(event => this.toDomainEvent(event));
+  }
+
+  private async deliver(subscription: Subscription): Promise<number> {
+    const { consumer } = subscription;
+
+    await this.offsetRepository
+      .createQueryBuilder()
+      .insert()
+      .into(EventConsumerOffset)
+      .values({ consumer, position: 0 })
+      .orIgnore()
+      .execute();
+
+    // Claim the consumer so only one instance delivers to it at a time
+    const claimTimeoutMs = Number(this.configService.get('EVENT_CONSUMER_CLAIM_TIMEOUT_MS', 60000));
+    const claimed = await this.offsetRepository
+      .createQueryBuilder()
+      .update(EventConsumerOffset)
+      .set({ claimedAt: () => 'CURRENT_TIMESTAMP' })
+      .where('consumer = :consumer', { consumer })
+      .andWhere('("claimedAt" IS NULL OR "claimedAt" < :staleBefore)', { staleBefore: new Date(Date.now() - claimTimeoutMs) })
+      .execute();
+
+    if (!claimed.affected) {
+      return 0;
+    }
+
+    let delivered = 0;
+    try {
+      const offset = await this.offsetRepository.findOne({ where: { consumer } });
+      const batchSize = Number(this.configService.get('OUTBOX_RELAY_BATCH_SIZE', 100));
+
+      const events = await this.outboxRepository.find({
+        where: { position: MoreThan(offset.position) },
+        order: { position: 'ASC' },
+        take: batchSize,
+      });
+
+      let position = offset.position;
+      for (const event of events) {
+        if (!subscription.types || subscription.types.includes(event.type)) {
+          try {
+            await subscription.handler(this.toDomainEvent(event));
+            delivered++;
+          } catch (error) {
+            // Stop here; the same event is delivered again on the next run
+            await this.offsetRepository.update({ consumer }, { lastError: `${event.id}: ${error.message}` });
+            this.logger.warn(`Event consumer ${consumer} failed on event ${event.position} (${event.type}): ${error.message}`);
+            break;
+          }
+        }
+
+        // Only advance from where we started, so a replay requested meanwhile wins
+        const advanced = await this.offsetRepository.update(
+          { consumer, position },
+          { position: event.position, lastError: null },
+        );
+        if (!advanced.affected) break;
+
+        position = event.position;
+      }
+    } finally {
+      await this.offsetRepository.update({ consumer }, { claimedAt: null });
+    }
+
+    return delivered;
+  }
+
+  private async getLatestPosition(): Promise<number> {
+    const result = await this.outboxRepository
+      .createQueryBuilder('event')
+      .select('COALESCE(MAX(event.position), 0)', 'position')
+      .getRawOne();
+
+    return Number(result.position);
+  }
+
+  private toDomainEvent(event: OutboxEvent): DomainEvent {
+    return {
+      id: event.id,
+      position: event.position,
+      type: event.type,
+      aggregateType: event.aggregateType,
+      aggregateId: event.aggregateId,
+      payload: event.payload,
+      occurredAt: event.createdAt,
+    };
+  }
+
+  private mapToConsumerResponseDto(offset: EventConsumerOffset, latestPosition: number): EventConsumerResponseDto {
+    return {
+      consumer: offset.consumer,
+      position: offset.position,
+      lag: Math.max(latestPosition - offset.position, 0),
+      subscribed: this.subscriptions.has(offset.consumer),
+      lastError: offset.lastError || null,
+      updatedAt: offset.updatedAt,
+    };
+  }
+}
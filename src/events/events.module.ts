@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { EventBusService } from './event-bus.service';
+import { OutboxRelayService } from './outbox-relay.service';
+import { OutboxEvent } from '../database/entities/outbox-event.entity';
+import { EventConsumerOffset } from '../database/entities/event-consumer-offset.entity';
+import { CacheModule } from '../cache/cache.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([OutboxEvent, EventConsumerOffset]),
+    CacheModule,
+  ],
+  providers: [EventBusService, OutboxRelayService],
+  exports: [EventBusService],
+})
+export class EventsModule {}
@@ -0,0 +1,245 @@
+import { Logger, NotFoundException } from '@nestjs/common';
+import { FindOperator } from 'typeorm';
+import { OutboxEvent } from '../database/entities/outbox-event.entity';
+import { EventConsumerOffset } from '../database/entities/event-consumer-offset.entity';
+import { AggregateType, DomainEvent, DomainEventType } from '../common/events/domain-event';
+import { EventBusService } from './event-bus.service';
+import { OutboxRelayService } from './outbox-relay.service';
+
+describe('OutboxRelayService', () => {
+  let outbox: OutboxEvent[];
+  let offsets: Map<string, EventConsumerOffset>;
+  let config: Record<string, string>;
+  let cacheService: { appendToStream: jest.Mock };
+  let eventBus: EventBusService;
+  let relay: OutboxRelayService;
+
+  // Enough of TypeORM's criteria for the lookups the relay and bus make
+  const matchesCriterion = (actual: any, expected: unknown): boolean => {
+    if (expected instanceof FindOperator) {
+      switch (expected.type) {
+        case 'isNull': return actual === null || actual === undefined;
+        case 'moreThan': return actual > expected.value;
+        case 'not': return !matchesCriterion(actual, expected.child);
+      }
+    }
+    return actual === expected;
+  };
+
+  const findEvents = async ({ where, order, take }) => outbox
+    .filter(event => Object.entries(where).every(([key, value]) => matchesCriterion(event[key], value)))
+    .sort((a, b) => (order.position ? a.position - b.position : a.createdAt.getTime() - b.createdAt.getTime()))
+    .slice(0, take)
+    .map(event => Object.assign(new OutboxEvent(), event));
+
+  const maxPosition = () => ({
+    select: () => ({ getRawOne: async () => ({ position: Math.max(0, ...outbox.map(event => event.position ?? 0)) }) }),
+  });
+
+  const record = (type: DomainEventType, aggregateId: string, secondsAgo: number) => {
+    outbox.push(Object.assign(new OutboxEvent(), {
+      id: `event-${outbox.length + 1}`,
+      type,
+      aggregateType: AggregateType.TRANSACTION,
+      aggregateId,
+      payload: { transactionId: aggregateId },
+      position: null,
+      createdAt: new Date(Date.now() - secondsAgo * 1000),
+    }));
+  };
+
+  const subscribe = (handler: jest.Mock = jest.fn(async () => undefined), types?: DomainEventType[]) => {
+    eventBus.subscribe('test-consumer', handler, types);
+    return handler;
+  };
+
+  const handledIds = (handler: jest.Mock) => handler.mock.calls.map(([event]: [DomainEvent]) => event.aggregateId);
+
+  beforeAll(() => Logger.overrideLogger(false));
+
+  beforeEach(() => {
+    outbox = [];
+    offsets = new Map();
+    config = {};
+    cacheService = { appendToStream: jest.fn(async () => true) };
+
+    const outboxRepository = {
+      find: jest.fn(findEvents),
+      update: jest.fn(async ({ id }, changes: Partial<OutboxEvent>) => {
+        Object.assign(outbox.find(event => event.id === id), changes);
+      }),
+      createQueryBuilder: jest.fn(maxPosition),
+    };
+
+    const offsetRepository = {
+      findOne: jest.fn(async ({ where }) => {
+        const offset = offsets.get(where.consumer);
+        return offset && Object.assign(new EventConsumerOffset(), offset);
+      }),
+      save: jest.fn(async (offset: EventConsumerOffset) => offsets.set(offset.consumer, offset)),
+      update: jest.fn(async (criteria: Record<string, unknown>, changes: Partial<EventConsumerOffset>) => {
+        const offset = offsets.get(criteria.consumer as string);
+        const matches = Object.entries(criteria).every(([key, value]) => offset[key] === value);
+
+        if (matches) Object.assign(offset, changes);
+        return { affected: matches ? 1 : 0 };
+      }),
+      // The insert-or-ignore of a new consumer and the claim on it
+      createQueryBuilder: jest.fn(() => {
+        let consumer: string;
+        const query: any = {
+          insert: () => query,
+          into: () => query,
+          values: ({ consumer: name, position }) => {
+            if (!offsets.has(name)) {
+              offsets.set(name, Object.assign(new EventConsumerOffset(), { consumer: name, position, claimedAt: null }));
+            }
+            return query;
+          },
+          orIgnore: () => query,
+          update: () => query,
+          set: () => query,
+          where: (_, parameters) => {
+            consumer = parameters.consumer;
+            return query;
+          },
+          andWhere: () => query,
+          execute: async () => {
+            if (!consumer) return {};
+            const offset = offsets.get(consumer);
+            if (offset.claimedAt) return { affected: 0 };
+            offset.claimedAt = new Date();
+            return { affected: 1 };
+          },
+        };
+        return query;
+      }),
+    };
+
+    const manager = {
+      query: jest.fn(),
+      find: jest.fn((_, options) => findEvents(options)),
+      createQueryBuilder: jest.fn(maxPosition),
+      save: jest.fn(async (events: OutboxEvent[]) => {
+        for (const event of events) Object.assign(outbox.find(stored => stored.id === event.id), event);
+        return events;
+      }),
+    };
+
+    const configService = { get: jest.fn((key: string, fallback: unknown) => config[key] ?? fallback) };
+
+    eventBus = new EventBusService(outboxRepository as any, offsetRepository as any, configService as any);
+    relay = new OutboxRelayService(
+      outboxRepository as any,
+      eventBus,
+      cacheService as any,
+      configService as any,
+      { transaction: jest.fn(async work => work(manager)) } as any,
+    );
+  });
+
+  it('numbers committed events in the order they were written and delivers them in that order', async () => {
+    record(DomainEventType.TRANSFER_COMPLETED, 'second', 10);
+    record(DomainEventType.TRANSFER_COMPLETED, 'first', 20);
+    const handler = subscribe();
+
+    await relay.relay();
+
+    expect(handledIds(handler)).toEqual(['first', 'second']);
+    expect(handler.mock.calls.map(([event]) => event.position)).toEqual([1, 2]);
+    expect(offsets.get('test-consumer').position).toBe(2);
+  });
+
+  it('continues numbering after events published by an earlier run', async () => {
+    record(DomainEventType.TRANSFER_COMPLETED, 'first', 20);
+    await relay.relay();
+
+    record(DomainEventType.TRANSFER_FAILED, 'second', 0);
+    await relay.relay();
+
+    expect(outbox.map(event => event.position)).toEqual([1, 2]);
+  });
+
+  it('stops at an event its consumer failed on and delivers it again on the next run', async () => {
+    record(DomainEventType.TRANSFER_COMPLETED, 'first', 30);
+    record(DomainEventType.TRANSFER_COMPLETED, 'second', 20);
+    record(DomainEventType.TRANSFER_COMPLETED, 'third', 10);
+    const handler = subscribe();
+    handler
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('webhook store unavailable'));
+
+    await relay.relay();
+
+    expect(offsets.get('test-consumer')).toEqual(expect.objectContaining({
+      position: 1,
+      lastError: 'event-2: webhook store unavailable',
+      claimedAt: null,
+    }));
+
+    await relay.relay();
+
+    expect(handledIds(handler)).toEqual(['first', 'second', 'second', 'third']);
+    expect(offsets.get('test-consumer')).toEqual(expect.objectContaining({ position: 3, lastError: null }));
+  });
+
+  it('moves a consumer past the event types it did not subscribe to', async () => {
+    record(DomainEventType.TRANSFER_COMPLETED, 'completed', 20);
+    record(DomainEventType.TRANSFER_FAILED, 'failed', 10);
+    const handler = subscribe(undefined, [DomainEventType.TRANSFER_FAILED]);
+
+    await relay.relay();
+
+    expect(handledIds(handler)).toEqual(['failed']);
+    expect(offsets.get('test-consumer').position).toBe(2);
+  });
+
+  it('leaves a consumer another instance is delivering to alone', async () => {
+    record(DomainEventType.TRANSFER_COMPLETED, 'first', 20);
+    offsets.set('test-consumer', Object.assign(new EventConsumerOffset(), {
+      consumer: 'test-consumer',
+      position: 0,
+      claimedAt: new Date(),
+    }));
+    const handler = subscribe();
+
+    await relay.relay();
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  describe('replay', () => {
+    it('delivers every event from the given position again', async () => {
+      record(DomainEventType.TRANSFER_COMPLETED, 'first', 30);
+      record(DomainEventType.TRANSFER_COMPLETED, 'second', 20);
+      record(DomainEventType.TRANSFER_COMPLETED, 'third', 10);
+      const handler = subscribe();
+      await relay.relay();
+
+      const rewound = await eventBus.replay('test-consumer', 2);
+      await relay.relay();
+
+      expect(rewound).toEqual(expect.objectContaining({ position: 1, lag: 2 }));
+      expect(handledIds(handler)).toEqual(['first', 'second', 'third', 'second', 'third']);
+    });
+
+    it('refuses to replay a consumer that never ran', async () => {
+      await expect(eventBus.replay('unknown-consumer', 1)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  it('appends published events to the Redis stream once, keyed by their position', async () => {
+    config.EVENT_STREAM_ENABLED = 'true';
+    record(DomainEventType.TRANSFER_COMPLETED, 'first', 20);
+    record(DomainEventType.TRANSFER_COMPLETED, 'second', 10);
+
+    await relay.relay();
+    await relay.relay();
+
+    expect(cacheService.appendToStream.mock.calls.map(([streamKey, id]) => [streamKey, id])).toEqual([
+      ['wallet-events', '1-0'],
+      ['wallet-events', '2-0'],
+    ]);
+    expect(outbox.every(event => event.streamedAt instanceof Date)).toBe(true);
+  });
+});
@@ -0,0 +1,138 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, DataSource, IsNull, Not } from 'typeorm';
+import { OutboxEvent } from '../database/entities/outbox-event.entity';
+import { CacheService } from '../cache/cache.service';
+import { EventBusService } from './event-bus.service';
+
+// pg advisory lock key serializing relays across instances, so positions commit in order
+const RELAY_LOCK_KEY = 727_001;
+
+/**
+ * Moves outbox events on: numbers newly committed events, appends them to the
+ * Redis stream when enabled, then delivers them to the in-process consumers.
+ * Each stage resumes where it left off, so delivery is at least once.
+ */
+@Injectable()
+export class OutboxRelayService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(OutboxRelayService.name);
+  private pollTimer: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    @InjectRepository(OutboxEvent)
+    private outboxRepository: Repository<OutboxEvent>,
+    private eventBus: EventBusService,
+    private cacheService: CacheService,
+    private configService: ConfigService,
+    private dataSource: DataSource,
+  ) {}
+
+  onApplicationBootstrap() {
+    const intervalMs = Number(this.configService.get('OUTBOX_RELAY_INTERVAL_MS', 1000));
+    this.pollTimer = setInterval(() => {
+      this.relay().catch(error => this.logger.error('Outbox relay run failed:', error));
+    }, intervalMs);
+  }
+
+  onModuleDestroy() {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+    }
+  }
+
+  async relay(): Promise<void> {
+    if (this.running) {
+      this.logger.debug('Outbox relay already running, skipping');
+      return;
+    }
+
+    this.running = true;
+    try {
+      const published = await this.publishPending();
+      const streamed = this.isStreamEnabled() ? await this.streamPublished() : 0;
+      const delivered = await this.eventBus.deliverAll();
+
+      if (published + streamed + delivered > 0) {
+        this.logger.debug(`Outbox relay: published=${published}, streamed=${streamed}, delivered=${delivered}`);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Give committed events their position. Positions are handed out under a lock
+   * rather than at insert time: a sequence would let an event commit after one
+   * with a higher position, and a consumer already past it would never see it.
+   */
+  private async publishPending(): Promise<number> {
+    const batchSize = Number(this.configService.get('OUTBOX_RELAY_BATCH_SIZE', 100));
+
+    return this.dataSource.transaction(async manager => {
+      await manager.query('SELECT pg_advisory_xact_lock($1)', [RELAY_LOCK_KEY]);
+
+      const pending = await manager.find(OutboxEvent, {
+        where: { position: IsNull() },
+        order: { createdAt: 'ASC', id: 'ASC' },
+        take: batchSize,
+      });
+
+      if (pending.length === 0) {
+        return 0;
+      }
+
+      const { position } = await manager
+        .createQueryBuilder(OutboxEvent, 'event')
+        .select('COALESCE(MAX(event.position), 0)', 'position')
+        .getRawOne();
+
+      let next = Number(position);
+      const publishedAt = new Date();
+      for (const event of pending) {
+        event.position = ++next;
+        event.publishedAt = publishedAt;
+      }
+
+      await manager.save(pending);
+      return pending.length;
+    });
+  }
+
+  /**
+   * Append published events to the Redis stream with their position as the entry id,
+   * so stream readers can resume or replay from a position too. Appending the same
+   * event twice is refused by Redis, which makes a retry after a crash harmless.
+   */
+  private async streamPublished(): Promise<number> {
+    const batchSize = Number(this.configService.get('OUTBOX_RELAY_BATCH_SIZE', 100));
+    const streamKey = this.configService.get('EVENT_STREAM_KEY', 'wallet-events');
+    const maxLength = Number(this.configService.get('EVENT_STREAM_MAX_LENGTH', 100000));
+
+    const events = await this.outboxRepository.find({
+      where: { position: Not(IsNull()), streamedAt: IsNull() },
+      order: { position: 'ASC' },
+      take: batchSize,
+    });
+
+    for (const event of events) {
+      await this.cacheService.appendToStream(streamKey, `${event.position}-0`, {
+        id: event.id,
+        type: event.type,
+        aggregateType: event.aggregateType,
+        aggregateId: event.aggregateId,
+        payload: JSON.stringify(event.payload),
+        occurredAt: event.createdAt.toISOString(),
+      }, maxLength);
+
+      await this.outboxRepository.update({ id: event.id }, { streamedAt: new Date() });
+    }
+
+    return events.length;
+  }
+
+  private isStreamEnabled(): boolean {
+    return this.configService.get('EVENT_STREAM_ENABLED', 'false') === 'true';
+  }
+}
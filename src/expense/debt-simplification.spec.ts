@@ -0,0 +1,48 @@
+import { Money } from '../common/money/money';
+import { DebtTransfer, simplifyDebts } from './debt-simplification';
+
+describe('simplifyDebts', () => {
+  const balances = (entries: Record<string, string>) =>
+    new Map(Object.entries(entries).map(([userId, amount]) => [userId, Money.fromDecimal(amount, 'USD')]));
+
+  const summarize = (transfers: DebtTransfer[]) =>
+    transfers.map(({ fromUserId, toUserId, amount }) => `${fromUserId}->${toUserId} ${amount.toString()}`);
+
+  // Applying every transfer must bring every balance back to zero
+  const settle = (start: Map<string, Money>, transfers: DebtTransfer[]) => {
+    const result = new Map(start);
+    for (const { fromUserId, toUserId, amount } of transfers) {
+      result.set(fromUserId, result.get(fromUserId).add(amount));
+      result.set(toUserId, result.get(toUserId).subtract(amount));
+    }
+    return [...result.values()].every(balance => balance.isZero());
+  };
+
+  it('pairs debtors and creditors with equal balances first', () => {
+    const start = balances({ alice: '30.00', bob: '10.00', carol: '-10.00', dave: '-30.00' });
+    const transfers = simplifyDebts(start);
+
+    expect(summarize(transfers)).toEqual(['carol->bob 10.00', 'dave->alice 30.00']);
+    expect(settle(start, transfers)).toBe(true);
+  });
+
+  it('has the largest debtor pay the largest creditor', () => {
+    const start = balances({ alice: '50.00', bob: '20.00', carol: '-45.00', dave: '-25.00' });
+    const transfers = simplifyDebts(start);
+
+    expect(summarize(transfers)).toEqual(['carol->alice 45.00', 'dave->bob 20.00', 'dave->alice 5.00']);
+    expect(settle(start, transfers)).toBe(true);
+  });
+
+  it('needs at most one transfer fewer than the members with a balance', () => {
+    const start = balances({ a: '12.34', b: '0.01', c: '-7.77', d: '-4.58', e: '0.00', f: '7.77', g: '-7.77' });
+    const transfers = simplifyDebts(start);
+
+    expect(transfers.length).toBeLessThanOrEqual(5);
+    expect(settle(start, transfers)).toBe(true);
+  });
+
+  it('returns nothing when everyone is square', () => {
+    expect(simplifyDebts(balances({ alice: '0.00', bob: '0.00' }))).toEqual([]);
+  });
+});
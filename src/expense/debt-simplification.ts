@@ -0,0 +1,51 @@
+import { Money } from '../common/money/money';
+
+export interface DebtTransfer {
+  fromUserId: string;
+  toUserId: string;
+  amount: Money;
+}
+
+/**
+ * Turn net balances (positive: owed money, negative: owes money) into a short list
+ * of transfers that clears them. Debtors and creditors with equal balances are
+ * paired first, then the largest debtor pays the largest creditor until all are
+ * settled. This needs at most one transfer fewer than the number of members with
+ * a balance; finding the true minimum is NP-hard.
+ */
+export function simplifyDebts(balances: Map<string, Money>): DebtTransfer[] {
+  const transfers: DebtTransfer[] = [];
+
+  const debtors = [...balances].filter(([, balance]) => balance.isNegative())
+    .map(([userId, balance]) => ({ userId, remaining: balance.negate() }));
+  const creditors = [...balances].filter(([, balance]) => balance.isPositive())
+    .map(([userId, balance]) => ({ userId, remaining: balance }));
+
+  for (const debtor of debtors) {
+    const match = creditors.find(creditor => !creditor.remaining.isZero() && creditor.remaining.equals(debtor.remaining));
+    if (match) {
+      transfers.push({ fromUserId: debtor.userId, toUserId: match.userId, amount: debtor.remaining });
+      debtor.remaining = Money.zero(debtor.remaining.currency);
+      match.remaining = Money.zero(match.remaining.currency);
+    }
+  }
+
+  const largestFirst = (a: { remaining: Money }, b: { remaining: Money }) => b.remaining.compareTo(a.remaining);
+
+  while (true) {
+    const debtor = debtors.filter(entry => entry.remaining.isPositive()).sort(largestFirst)[0];
+    const creditor = creditors.filter(entry => entry.remaining.isPositive()).sort(largestFirst)[0];
+
+    if (!debtor || !creditor) {
+      break;
+    }
+
+    const amount = debtor.remaining.lessThan(creditor.remaining) ? debtor.remaining : creditor.remaining;
+    transfers.push({ fromUserId: debtor.userId, toUserId: creditor.userId, amount });
+
+    debtor.remaining = debtor.remaining.subtract(amount);
+    creditor.remaining = creditor.remaining.subtract(amount);
+  }
+
+  return transfers;
+}
@@ -0,0 +1,128 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ExpenseSplitType } from '../../database/entities/expense.entity';
+import { SettlementMethod, SettlementStatus } from '../../database/entities/group-settlement.entity';
+
+export class ExpenseGroupMemberResponseDto {
+  @ApiProperty({ example: 'uuid-of-user' })
+  userId: string;
+
+  @ApiProperty({ example: 'Ana Silva' })
+  name: string;
+
+  @ApiProperty({ example: '2024-01-15T12:00:00Z' })
+  joinedAt: Date;
+}
+
+export class ExpenseGroupResponseDto {
+  @ApiProperty({ example: 'uuid-string' })
+  id: string;
+
+  @ApiProperty({ example: 'Lisbon trip' })
+  name: string;
+
+  @ApiProperty({ example: 'USD' })
+  currency: string;
+
+  @ApiProperty({ example: 'uuid-of-user' })
+  createdById: string;
+
+  @ApiProperty({ type: [ExpenseGroupMemberResponseDto] })
+  members: ExpenseGroupMemberResponseDto[];
+
+  @ApiProperty({ example: '2024-01-15T12:00:00Z' })
+  createdAt: Date;
+}
+
+export class ExpenseShareResponseDto {
+  @ApiProperty({ example: 'uuid-of-user' })
+  userId: string;
+
+  @ApiProperty({ example: '40.00' })
+  amount: string;
+
+  @ApiProperty({ example: 33.33, nullable: true })
+  percentage: number | null;
+}
+
+export class ExpenseResponseDto {
+  @ApiProperty({ example: 'uuid-string' })
+  id: string;
+
+  @ApiProperty({ example: 'Dinner at Ramiro' })
+  description: string;
+
+  @ApiProperty({ example: '120.00' })
+  amount: string;
+
+  @ApiProperty({ example: 'uuid-of-user' })
+  paidById: string;
+
+  @ApiProperty({ example: 'EQUAL', enum: ExpenseSplitType })
+  splitType: ExpenseSplitType;
+
+  @ApiProperty({ type: [ExpenseShareResponseDto] })
+  shares: ExpenseShareResponseDto[];
+
+  @ApiProperty({ example: '2024-01-15T12:00:00Z' })
+  createdAt: Date;
+}
+
+export class MemberBalanceResponseDto {
+  @ApiProperty({ example: 'uuid-of-user' })
+  userId: string;
+
+  @ApiProperty({ example: '120.00', description: 'Total of expenses this member paid' })
+  paid: string;
+
+  @ApiProperty({ example: '40.00', description: 'Total of this member\'s shares' })
+  owed: string;
+
+  @ApiProperty({ example: '80.00', description: 'Positive: is owed money; negative: owes money. Includes completed settlements.' })
+  balance: string;
+
+  @ApiProperty({ example: '-40.00', description: 'Effect of settlements still in progress on the balance' })
+  pending: string;
+}
+
+export class DebtResponseDto {
+  @ApiProperty({ example: 'uuid-of-debtor' })
+  fromUserId: string;
+
+  @ApiProperty({ example: 'uuid-of-creditor' })
+  toUserId: string;
+
+  @ApiProperty({ example: '40.00' })
+  amount: string;
+}
+
+export class GroupSettlementResponseDto {
+  @ApiProperty({ example: 'uuid-string' })
+  id: string;
+
+  @ApiProperty({ example: 'uuid-of-debtor' })
+  fromUserId: string;
+
+  @ApiProperty({ example: 'uuid-of-creditor' })
+  toUserId: string;
+
+  @ApiProperty({ example: '40.00' })
+  amount: string;
+
+  @ApiProperty({ example: 'TRANSFER', enum: SettlementMethod })
+  method: SettlementMethod;
+
+  @ApiProperty({ example: 'COMPLETED', enum: SettlementStatus })
+  status: SettlementStatus;
+
+  @ApiProperty({ example: 'uuid-of-transaction', nullable: true })
+  transactionId: string | null;
+
+  @ApiProperty({ example: 'uuid-of-payment-request', nullable: true })
+  paymentRequestId: string | null;
+
+  @ApiProperty({ example: 'Insufficient balance', nullable: true })
+  failureReason: string | null;
+
+  @ApiProperty({ example: '2024-01-16T12:00:00Z' })
+  createdAt: Date;
+}
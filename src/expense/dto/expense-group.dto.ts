@@ -0,0 +1,117 @@
+import {
+  IsUUID,
+  IsOptional,
+  IsString,
+  IsNotEmpty,
+  IsEnum,
+  IsArray,
+  IsNumber,
+  Min,
+  Max,
+  IsIn,
+  MaxLength,
+  ArrayMinSize,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { ExpenseSplitType } from '../../database/entities/expense.entity';
+import { SettlementMethod } from '../../database/entities/group-settlement.entity';
+import { IsMoneyAmount } from '../../common/money/is-money-amount.decorator';
+
+export class CreateExpenseGroupDto {
+  @ApiProperty({ example: 'Lisbon trip' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ example: 'USD' })
+  @IsIn(['USD', 'EUR', 'GBP'])
+  currency: string;
+
+  @ApiProperty({ example: ['uuid-of-user'], type: [String], required: false, description: 'Members besides yourself' })
+  @IsOptional()
+  @IsArray()
+  @IsUUID('all', { each: true })
+  memberIds?: string[];
+}
+
+export class AddGroupMemberDto {
+  @ApiProperty({ example: 'uuid-of-user' })
+  @IsUUID()
+  userId: string;
+}
+
+export class ExpenseParticipantDto {
+  @ApiProperty({ example: 'uuid-of-user' })
+  @IsUUID()
+  userId: string;
+
+  @ApiProperty({ example: 25, required: false, description: 'Share in percent, for PERCENTAGE splits' })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(100)
+  @Type(() => Number)
+  percentage?: number;
+
+  @ApiProperty({ example: 30.00, required: false, description: 'Share amount, for EXACT splits' })
+  @IsOptional()
+  @IsMoneyAmount()
+  @Type(() => Number)
+  amount?: number;
+}
+
+export class CreateExpenseDto {
+  @ApiProperty({ example: 'Dinner at Ramiro' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  description: string;
+
+  @ApiProperty({ example: 120.00 })
+  @IsMoneyAmount()
+  @Type(() => Number)
+  amount: number;
+
+  @ApiProperty({ example: 'uuid-of-user', required: false, description: 'Member who paid; defaults to you' })
+  @IsOptional()
+  @IsUUID()
+  paidByUserId?: string;
+
+  @ApiProperty({ example: 'EQUAL', enum: ExpenseSplitType })
+  @IsEnum(ExpenseSplitType)
+  splitType: ExpenseSplitType;
+
+  @ApiProperty({
+    type: [ExpenseParticipantDto],
+    required: false,
+    description: 'Who shares the expense; EQUAL splits default to every member',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ExpenseParticipantDto)
+  participants?: ExpenseParticipantDto[];
+}
+
+export class SettleGroupDto {
+  @ApiProperty({
+    example: 'TRANSFER',
+    enum: SettlementMethod,
+    description: 'TRANSFER pays what you owe; PAYMENT_REQUEST asks for what you are owed',
+  })
+  @IsEnum(SettlementMethod)
+  method: SettlementMethod;
+
+  @ApiProperty({
+    example: 'uuid-of-your-wallet',
+    required: false,
+    description: 'Your wallet in the group currency; defaults to your oldest one',
+  })
+  @IsOptional()
+  @IsUUID()
+  walletId?: string;
+}
@@ -0,0 +1,279 @@
+import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, DataSource, In } from 'typeorm';
+import { ExpenseGroup } from '../database/entities/expense-group.entity';
+import { ExpenseGroupMember } from '../database/entities/expense-group-member.entity';
+import { Expense, ExpenseSplitType } from '../database/entities/expense.entity';
+import { ExpenseShare } from '../database/entities/expense-share.entity';
+import { GroupSettlement, SettlementStatus } from '../database/entities/group-settlement.entity';
+import { User } from '../database/entities/user.entity';
+import { Money } from '../common/money/money';
+import { computeShares, SplitParticipant } from './expense-split';
+import { CreateExpenseGroupDto, AddGroupMemberDto, CreateExpenseDto } from './dto/expense-group.dto';
+import {
+  ExpenseGroupResponseDto,
+  ExpenseResponseDto,
+  MemberBalanceResponseDto,
+} from './dto/expense-group-response.dto';
+
+export interface MemberBalance {
+  paid: Money;
+  owed: Money;
+  settled: Money;
+  pending: Money;
+}
+
+@Injectable()
+export class ExpenseGroupService {
+  private readonly logger = new Logger(ExpenseGroupService.name);
+
+  constructor(
+    @InjectRepository(ExpenseGroup)
+    private groupRepository: Repository<ExpenseGroup>,
+    @InjectRepository(ExpenseGroupMember)
+    private memberRepository: Repository<ExpenseGroupMember>,
+    @InjectRepository(Expense)
+    private expenseRepository: Repository<Expense>,
+    @InjectRepository(GroupSettlement)
+    private settlementRepository: Repository<GroupSettlement>,
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+    private dataSource: DataSource,
+  ) {}
+
+  async createGroup(user: User, createExpenseGroupDto: CreateExpenseGroupDto): Promise<ExpenseGroupResponseDto> {
+    const { name, currency, memberIds = [] } = createExpenseGroupDto;
+    const userIds = [...new Set([user.id, ...memberIds])];
+
+    await this.assertActiveUsers(userIds);
+
+    const group = await this.dataSource.transaction(async manager => {
+      const saved = await manager.save(manager.create(ExpenseGroup, { name, currency, createdById: user.id }));
+      await manager.save(userIds.map(userId => manager.create(ExpenseGroupMember, { groupId: saved.id, userId })));
+      return saved;
+    });
+
+    this.logger.log(`Created expense group ${group.id} (${currency}) with ${userIds.length} members`);
+
+    return this.getGroup(group.id, user.id);
+  }
+
+  async getGroups(userId: string): Promise<ExpenseGroupResponseDto[]> {
+    const memberships = await this.memberRepository.find({ where: { userId } });
+    if (memberships.length === 0) {
+      return [];
+    }
+
+    const groups = await this.groupRepository.find({
+      where: { id: In(memberships.map(membership => membership.groupId)) },
+      relations: ['members', 'members.user'],
+      order: { createdAt: 'DESC' },
+    });
+
+    return groups.map(group => this.mapToExpenseGroupResponseDto(group));
+  }
+
+  async getGroup(groupId: string, userId: string): Promise<ExpenseGroupResponseDto> {
+    const group = await this.findGroupForMember(groupId, userId);
+    return this.mapToExpenseGroupResponseDto(group);
+  }
+
+  async addMember(groupId: string, userId: string, addGroupMemberDto: AddGroupMemberDto): Promise<ExpenseGroupResponseDto> {
+    const group = await this.findGroupForMember(groupId, userId);
+
+    if (group.members.some(member => member.userId === addGroupMemberDto.userId)) {
+      throw new BadRequestException('User is already a member of this group');
+    }
+
+    await this.assertActiveUsers([addGroupMemberDto.userId]);
+    await this.memberRepository.save(
+      this.memberRepository.create({ groupId, userId: addGroupMemberDto.userId }),
+    );
+
+    return this.getGroup(groupId, userId);
+  }
+
+  async createExpense(groupId: string, user: User, createExpenseDto: CreateExpenseDto): Promise<ExpenseResponseDto> {
+    const group = await this.findGroupForMember(groupId, user.id);
+    const { description, amount, splitType, participants } = createExpenseDto;
+    const paidById = createExpenseDto.paidByUserId || user.id;
+
+    const memberIds = new Set(group.members.map(member => member.userId));
+    if (!memberIds.has(paidById)) {
+      throw new BadRequestException('The payer must be a member of the group');
+    }
+
+    let splitParticipants: SplitParticipant[] = participants;
+    if (!splitParticipants) {
+      if (splitType !== ExpenseSplitType.EQUAL) {
+        throw new BadRequestException(`${splitType} splits need a list of participants`);
+      }
+      splitParticipants = group.members.map(member => ({ userId: member.userId }));
+    }
+
+    const outsiders = splitParticipants.filter(participant => !memberIds.has(participant.userId));
+    if (outsiders.length > 0) {
+      throw new BadRequestException(`Not members of the group: ${outsiders.map(outsider => outsider.userId).join(', ')}`);
+    }
+
+    const shares = computeShares(Money.fromDecimal(amount, group.currency), splitType, splitParticipants);
+
+    const expense = await this.dataSource.transaction(async manager => {
+      const saved = await manager.save(
+        manager.create(Expense, {
+          groupId,
+          paidById,
+          createdById: user.id,
+          description,
+          amount: Money.fromDecimal(amount).toString(),
+          splitType,
+        }),
+      );
+
+      saved.shares = await manager.save(
+        shares.map(share =>
+          manager.create(ExpenseShare, {
+            expenseId: saved.id,
+            userId: share.userId,
+            amount: share.amount.toString(),
+            percentage: share.percentage,
+          }),
+        ),
+      );
+
+      return saved;
+    });
+
+    this.logger.log(`Recorded expense ${expense.id} in group ${groupId}: amount=${amount}, split=${splitType}`);
+
+    return this.mapToExpenseResponseDto(expense);
+  }
+
+  async getExpenses(groupId: string, userId: string): Promise<ExpenseResponseDto[]> {
+    await this.findGroupForMember(groupId, userId);
+
+    const expenses = await this.expenseRepository.find({
+      where: { groupId },
+      relations: ['shares'],
+      order: { createdAt: 'DESC' },
+    });
+
+    return expenses.map(expense => this.mapToExpenseResponseDto(expense));
+  }
+
+  async getBalances(groupId: string, userId: string): Promise<MemberBalanceResponseDto[]> {
+    const group = await this.findGroupForMember(groupId, userId);
+    const balances = await this.computeBalances(group);
+
+    return [...balances].map(([memberId, balance]) => ({
+      userId: memberId,
+      paid: balance.paid.toString(),
+      owed: balance.owed.toString(),
+      balance: balance.paid.subtract(balance.owed).add(balance.settled).toString(),
+      pending: balance.pending.toString(),
+    }));
+  }
+
+  /**
+   * What each member has paid and owes, plus the effect of settlements.
+   * Settling moves a debtor's balance up towards zero and a creditor's down.
+   */
+  async computeBalances(group: ExpenseGroup): Promise<Map<string, MemberBalance>> {
+    const zero = Money.zero(group.currency);
+    const balances = new Map<string, MemberBalance>();
+    const balanceOf = (memberId: string) => {
+      if (!balances.has(memberId)) {
+        balances.set(memberId, { paid: zero, owed: zero, settled: zero, pending: zero });
+      }
+      return balances.get(memberId);
+    };
+
+    for (const member of group.members) {
+      balanceOf(member.userId);
+    }
+
+    const expenses = await this.expenseRepository.find({
+      where: { groupId: group.id },
+      relations: ['shares'],
+    });
+
+    for (const expense of expenses) {
+      const payer = balanceOf(expense.paidById);
+      payer.paid = payer.paid.add(Money.fromDecimal(expense.amount, group.currency));
+
+      for (const share of expense.shares) {
+        const participant = balanceOf(share.userId);
+        participant.owed = participant.owed.add(Money.fromDecimal(share.amount, group.currency));
+      }
+    }
+
+    const settlements = await this.settlementRepository.find({
+      where: { groupId: group.id, status: In([SettlementStatus.PENDING, SettlementStatus.COMPLETED]) },
+    });
+
+    for (const settlement of settlements) {
+      const amount = Money.fromDecimal(settlement.amount, group.currency);
+      const field = settlement.status === SettlementStatus.COMPLETED ? 'settled' : 'pending';
+
+      const debtor = balanceOf(settlement.fromUserId);
+      debtor[field] = debtor[field].add(amount);
+
+      const creditor = balanceOf(settlement.toUserId);
+      creditor[field] = creditor[field].subtract(amount);
+    }
+
+    return balances;
+  }
+
+  async findGroupForMember(groupId: string, userId: string): Promise<ExpenseGroup> {
+    const group = await this.groupRepository.findOne({
+      where: { id: groupId },
+      relations: ['members', 'members.user'],
+    });
+
+    if (!group || !group.members.some(member => member.userId === userId)) {
+      throw new NotFoundException('Expense group not found');
+    }
+
+    return group;
+  }
+
+  private async assertActiveUsers(userIds: string[]): Promise<void> {
+    const count = await this.userRepository.count({ where: { id: In(userIds), isActive: true } });
+
+    if (count !== userIds.length) {
+      throw new NotFoundException('One or more users not found');
+    }
+  }
+
+  private mapToExpenseGroupResponseDto(group: ExpenseGroup): ExpenseGroupResponseDto {
+    return {
+      id: group.id,
+      name: group.name,
+      currency: group.currency,
+      createdById: group.createdById,
+      members: group.members.map(member => ({
+        userId: member.userId,
+        name: member.user ? `${member.user.firstName} ${member.user.lastName}` : null,
+        joinedAt: member.joinedAt,
+      })),
+      createdAt: group.createdAt,
+    };
+  }
+
+  private mapToExpenseResponseDto(expense: Expense): ExpenseResponseDto {
+    return {
+      id: expense.id,
+      description: expense.description,
+      amount: expense.amount,
+      paidById: expense.paidById,
+      splitType: expense.splitType,
+      shares: (expense.shares || []).map(share => ({
+        userId: share.userId,
+        amount: share.amount,
+        percentage: share.percentage ?? null,
+      })),
+      createdAt: expense.createdAt,
+    };
+  }
+}
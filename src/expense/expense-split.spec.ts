@@ -0,0 +1,70 @@
+import { BadRequestException } from '@nestjs/common';
+import { ExpenseSplitType } from '../database/entities/expense.entity';
+import { Money } from '../common/money/money';
+import { computeShares } from './expense-split';
+
+describe('computeShares', () => {
+  const total = Money.fromDecimal('100.00', 'USD');
+  const amounts = (shares: ReturnType<typeof computeShares>) => shares.map(share => share.amount.toString());
+
+  it('splits equally, leftover cents to the earliest participants', () => {
+    const shares = computeShares(total, ExpenseSplitType.EQUAL, [{ userId: 'a' }, { userId: 'b' }, { userId: 'c' }]);
+
+    expect(amounts(shares)).toEqual(['33.34', '33.33', '33.33']);
+  });
+
+  it('splits by percentage, leftover cents to the largest remainders', () => {
+    const shares = computeShares(Money.fromDecimal('0.10', 'USD'), ExpenseSplitType.PERCENTAGE, [
+      { userId: 'a', percentage: 15 },
+      { userId: 'b', percentage: 25 },
+      { userId: 'c', percentage: 60 },
+    ]);
+
+    // 1.5, 2.5 and 6 cents: the half cents are tied, so the earlier share gets it
+    expect(amounts(shares)).toEqual(['0.02', '0.02', '0.06']);
+    expect(shares.map(share => share.percentage)).toEqual([15, 25, 60]);
+  });
+
+  it('favours the larger remainder over the earlier participant', () => {
+    const shares = computeShares(Money.fromDecimal('0.10', 'USD'), ExpenseSplitType.PERCENTAGE, [
+      { userId: 'a', percentage: 12 },
+      { userId: 'b', percentage: 18 },
+      { userId: 'c', percentage: 70 },
+    ]);
+
+    // 1.2, 1.8 and 7 cents
+    expect(amounts(shares)).toEqual(['0.01', '0.02', '0.07']);
+  });
+
+  it('requires percentages to add up to 100', () => {
+    expect(() =>
+      computeShares(total, ExpenseSplitType.PERCENTAGE, [
+        { userId: 'a', percentage: 33.33 },
+        { userId: 'b', percentage: 33.33 },
+        { userId: 'c', percentage: 33.33 },
+      ]),
+    ).toThrow('Percentages must add up to 100, got 99.99');
+  });
+
+  it('requires exact amounts to add up to the expense', () => {
+    const shares = computeShares(total, ExpenseSplitType.EXACT, [
+      { userId: 'a', amount: 60.5 },
+      { userId: 'b', amount: 39.5 },
+    ]);
+    expect(amounts(shares)).toEqual(['60.50', '39.50']);
+
+    expect(() =>
+      computeShares(total, ExpenseSplitType.EXACT, [
+        { userId: 'a', amount: 60.5 },
+        { userId: 'b', amount: 39.49 },
+      ]),
+    ).toThrow('Share amounts must add up to 100.00, got 99.99');
+  });
+
+  it('rejects empty and repeated participants', () => {
+    expect(() => computeShares(total, ExpenseSplitType.EQUAL, [])).toThrow(BadRequestException);
+    expect(() => computeShares(total, ExpenseSplitType.EQUAL, [{ userId: 'a' }, { userId: 'a' }])).toThrow(
+      'Each participant can only appear once',
+    );
+  });
+});
@@ -0,0 +1,76 @@
+import { BadRequestException } from '@nestjs/common';
+import { ExpenseSplitType } from '../database/entities/expense.entity';
+import { Money } from '../common/money/money';
+
+export interface SplitParticipant {
+  userId: string;
+  percentage?: number;
+  amount?: number;
+}
+
+export interface ComputedShare {
+  userId: string;
+  amount: Money;
+  percentage?: number;
+}
+
+/**
+ * Work out what each participant owes. Shares always add up to the expense
+ * exactly; rounding leftovers go to the participants with the largest
+ * remainders, ties to the earliest (equal splits: the earliest participants).
+ */
+export function computeShares(
+  total: Money,
+  splitType: ExpenseSplitType,
+  participants: SplitParticipant[],
+): ComputedShare[] {
+  if (participants.length === 0) {
+    throw new BadRequestException('An expense needs at least one participant');
+  }
+
+  const userIds = participants.map(participant => participant.userId);
+  if (new Set(userIds).size !== userIds.length) {
+    throw new BadRequestException('Each participant can only appear once');
+  }
+
+  switch (splitType) {
+    case ExpenseSplitType.EQUAL:
+      return total
+        .allocate(participants.map(() => 1))
+        .map((amount, index) => ({ userId: userIds[index], amount }));
+
+    case ExpenseSplitType.PERCENTAGE: {
+      if (participants.some(participant => participant.percentage === undefined || participant.percentage < 0)) {
+        throw new BadRequestException('Every participant needs a percentage for a PERCENTAGE split');
+      }
+
+      // Percentages carry two decimals; compare in hundredths to avoid float drift
+      const totalHundredths = participants.reduce((sum, participant) => sum + Math.round(participant.percentage * 100), 0);
+      if (totalHundredths !== 10000) {
+        throw new BadRequestException(`Percentages must add up to 100, got ${totalHundredths / 100}`);
+      }
+
+      return total
+        .allocate(participants.map(participant => participant.percentage))
+        .map((amount, index) => ({ userId: userIds[index], amount, percentage: participants[index].percentage }));
+    }
+
+    case ExpenseSplitType.EXACT: {
+      if (participants.some(participant => participant.amount === undefined)) {
+        throw new BadRequestException('Every participant needs an amount for an EXACT split');
+      }
+
+      const shares = participants.map(participant => ({
+        userId: participant.userId,
+        amount: Money.fromDecimal(participant.amount, total.currency),
+      }));
+
+      const sum = shares.reduce((acc, share) => acc.add(share.amount), Money.zero(total.currency));
+      if (!sum.equals(total)) {
+        throw new BadRequestException(`Share amounts must add up to ${total.toString()}, got ${sum.toString()}`);
+      }
+
+      return shares;
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import { Controller, Post, Get, Body, Param, UseGuards, Request, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiBearerAuth, ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { ExpenseGroupService } from './expense-group.service';
+import { GroupSettlementService } from './group-settlement.service';
+import { CreateExpenseGroupDto, AddGroupMemberDto, CreateExpenseDto, SettleGroupDto } from './dto/expense-group.dto';
+import {
+  ExpenseGroupResponseDto,
+  ExpenseResponseDto,
+  MemberBalanceResponseDto,
+  DebtResponseDto,
+  GroupSettlementResponseDto,
+} from './dto/expense-group-response.dto';
+import { Idempotent } from '../common/decorators/idempotent.decorator';
+
+@ApiTags('Group Expenses')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('expense-groups')
+export class ExpenseController {
+  constructor(
+    private readonly expenseGroupService: ExpenseGroupService,
+    private readonly groupSettlementService: GroupSettlementService,
+  ) {}
+
+  @Post()
+  @Idempotent()
+  @ApiOperation({ summary: 'Create an expense group' })
+  @ApiResponse({ status: 201, description: 'Group created', type: ExpenseGroupResponseDto })
+  @ApiResponse({ status: 404, description: 'Member not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async createGroup(
+    @Request() req,
+    @Body() createExpenseGroupDto: CreateExpenseGroupDto,
+  ): Promise<ExpenseGroupResponseDto> {
+    return this.expenseGroupService.createGroup(req.user, createExpenseGroupDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List the expense groups you belong to' })
+  @ApiResponse({ status: 200, description: 'Groups retrieved successfully', type: [ExpenseGroupResponseDto] })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getGroups(@Request() req): Promise<ExpenseGroupResponseDto[]> {
+    return this.expenseGroupService.getGroups(req.user.id);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an expense group' })
+  @ApiResponse({ status: 200, description: 'Group retrieved successfully', type: ExpenseGroupResponseDto })
+  @ApiResponse({ status: 404, description: 'Group not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getGroup(@Param('id') id: string, @Request() req): Promise<ExpenseGroupResponseDto> {
+    return this.expenseGroupService.getGroup(id, req.user.id);
+  }
+
+  @Post(':id/members')
+  @Idempotent()
+  @ApiOperation({ summary: 'Add a member to an expense group' })
+  @ApiResponse({ status: 201, description: 'Member added', type: ExpenseGroupResponseDto })
+  @ApiResponse({ status: 400, description: 'Already a member' })
+  @ApiResponse({ status: 404, description: 'Group or user not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async addMember(
+    @Param('id') id: string,
+    @Request() req,
+    @Body() addGroupMemberDto: AddGroupMemberDto,
+  ): Promise<ExpenseGroupResponseDto> {
+    return this.expenseGroupService.addMember(id, req.user.id, addGroupMemberDto);
+  }
+
+  @Post(':id/expenses')
+  @Idempotent()
+  @ApiOperation({ summary: 'Record an expense paid for the group' })
+  @ApiResponse({ status: 201, description: 'Expense recorded', type: ExpenseResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid split' })
+  @ApiResponse({ status: 404, description: 'Group not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async createExpense(
+    @Param('id') id: string,
+    @Request() req,
+    @Body() createExpenseDto: CreateExpenseDto,
+  ): Promise<ExpenseResponseDto> {
+    return this.expenseGroupService.createExpense(id, req.user, createExpenseDto);
+  }
+
+  @Get(':id/expenses')
+  @ApiOperation({ summary: 'List the expenses of a group' })
+  @ApiResponse({ status: 200, description: 'Expenses retrieved successfully', type: [ExpenseResponseDto] })
+  @ApiResponse({ status: 404, description: 'Group not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getExpenses(@Param('id') id: string, @Request() req): Promise<ExpenseResponseDto[]> {
+    return this.expenseGroupService.getExpenses(id, req.user.id);
+  }
+
+  @Get(':id/balances')
+  @ApiOperation({ summary: 'What each member is owed or owes' })
+  @ApiResponse({ status: 200, description: 'Balances retrieved successfully', type: [MemberBalanceResponseDto] })
+  @ApiResponse({ status: 404, description: 'Group not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getBalances(@Param('id') id: string, @Request() req): Promise<MemberBalanceResponseDto[]> {
+    return this.expenseGroupService.getBalances(id, req.user.id);
+  }
+
+  @Get(':id/simplified-debts')
+  @ApiOperation({ summary: 'The fewest transfers needed to settle the group' })
+  @ApiResponse({ status: 200, description: 'Simplified debts computed', type: [DebtResponseDto] })
+  @ApiResponse({ status: 404, description: 'Group not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getSimplifiedDebts(@Param('id') id: string, @Request() req): Promise<DebtResponseDto[]> {
+    return this.groupSettlementService.getSuggestedSettlements(id, req.user.id);
+  }
+
+  @Post(':id/settle')
+  @Idempotent()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Pay what you owe, or request what you are owed, per the simplified debts' })
+  @ApiResponse({ status: 200, description: 'Settlements issued', type: [GroupSettlementResponseDto] })
+  @ApiResponse({ status: 404, description: 'Group or wallet not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async settle(
+    @Param('id') id: string,
+    @Request() req,
+    @Body() settleGroupDto: SettleGroupDto,
+  ): Promise<GroupSettlementResponseDto[]> {
+    return this.groupSettlementService.settle(id, req.user, settleGroupDto);
+  }
+
+  @Get(':id/settlements')
+  @ApiOperation({ summary: 'List settlements made in a group' })
+  @ApiResponse({ status: 200, description: 'Settlements retrieved successfully', type: [GroupSettlementResponseDto] })
+  @ApiResponse({ status: 404, description: 'Group not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getSettlements(@Param('id') id: string, @Request() req): Promise<GroupSettlementResponseDto[]> {
+    return this.groupSettlementService.getSettlements(id, req.user.id);
+  }
+}
@@ -0,0 +1,37 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ExpenseController } from './expense.controller';
+import { ExpenseGroupService } from './expense-group.service';
+import { GroupSettlementService } from './group-settlement.service';
+import { ExpenseGroup } from '../database/entities/expense-group.entity';
+import { ExpenseGroupMember } from '../database/entities/expense-group-member.entity';
+import { Expense } from '../database/entities/expense.entity';
+import { ExpenseShare } from '../database/entities/expense-share.entity';
+import { GroupSettlement } from '../database/entities/group-settlement.entity';
+import { PaymentRequest } from '../database/entities/payment-request.entity';
+import { Wallet } from '../database/entities/wallet.entity';
+import { User } from '../database/entities/user.entity';
+import { AuthModule } from '../auth/auth.module';
+import { TransferModule } from '../transfer/transfer.module';
+import { PaymentRequestModule } from '../payment-request/payment-request.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      ExpenseGroup,
+      ExpenseGroupMember,
+      Expense,
+      ExpenseShare,
+      GroupSettlement,
+      PaymentRequest,
+      Wallet,
+      User,
+    ]),
+    AuthModule,
+    TransferModule,
+    PaymentRequestModule,
+  ],
+  controllers: [ExpenseController],
+  providers: [ExpenseGroupService, GroupSettlementService],
+})
+export class ExpenseModule {}
@@ -0,0 +1,248 @@
+import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, DataSource, In } from 'typeorm';
+import { ExpenseGroup } from '../database/entities/expense-group.entity';
+import { ExpenseGroupMember } from '../database/entities/expense-group-member.entity';
+import { GroupSettlement, SettlementMethod, SettlementStatus } from '../database/entities/group-settlement.entity';
+import { PaymentRequest, PaymentRequestStatus } from '../database/entities/payment-request.entity';
+import { Wallet } from '../database/entities/wallet.entity';
+import { User } from '../database/entities/user.entity';
+import { Money } from '../common/money/money';
+import { TransferService } from '../transfer/transfer.service';
+import { describeTransferFailure } from '../transfer/transfer-failure';
+import { PaymentRequestService } from '../payment-request/payment-request.service';
+import { ExpenseGroupService } from './expense-group.service';
+import { simplifyDebts, DebtTransfer } from './debt-simplification';
+import { SettleGroupDto } from './dto/expense-group.dto';
+import { DebtResponseDto, GroupSettlementResponseDto } from './dto/expense-group-response.dto';
+
+// Payment request outcomes that mean the settlement will not happen
+const ABANDONED_REQUEST_STATUSES = [
+  PaymentRequestStatus.DECLINED,
+  PaymentRequestStatus.CANCELLED,
+  PaymentRequestStatus.EXPIRED,
+];
+
+@Injectable()
+export class GroupSettlementService {
+  private readonly logger = new Logger(GroupSettlementService.name);
+
+  constructor(
+    @InjectRepository(GroupSettlement)
+    private settlementRepository: Repository<GroupSettlement>,
+    @InjectRepository(PaymentRequest)
+    private paymentRequestRepository: Repository<PaymentRequest>,
+    @InjectRepository(Wallet)
+    private walletRepository: Repository<Wallet>,
+    private expenseGroupService: ExpenseGroupService,
+    private transferService: TransferService,
+    private paymentRequestService: PaymentRequestService,
+    private dataSource: DataSource,
+  ) {}
+
+  /**
+   * The fewest transfers that would settle the group, counting settlements in progress as done
+   */
+  async getSuggestedSettlements(groupId: string, userId: string): Promise<DebtResponseDto[]> {
+    const group = await this.expenseGroupService.findGroupForMember(groupId, userId);
+    await this.refreshPaymentRequestSettlements(groupId);
+
+    const debts = await this.planSettlements(group);
+
+    return debts.map(debt => ({
+      fromUserId: debt.fromUserId,
+      toUserId: debt.toUserId,
+      amount: debt.amount.toString(),
+    }));
+  }
+
+  async getSettlements(groupId: string, userId: string): Promise<GroupSettlementResponseDto[]> {
+    await this.expenseGroupService.findGroupForMember(groupId, userId);
+    await this.refreshPaymentRequestSettlements(groupId);
+
+    const settlements = await this.settlementRepository.find({
+      where: { groupId },
+      order: { createdAt: 'DESC' },
+    });
+
+    return settlements.map(settlement => this.mapToGroupSettlementResponseDto(settlement));
+  }
+
+  /**
+   * Settle the caller's side of the simplified plan: pay what they owe with
+   * transfers, or send payment requests for what they are owed
+   */
+  async settle(groupId: string, user: User, settleGroupDto: SettleGroupDto): Promise<GroupSettlementResponseDto[]> {
+    const group = await this.expenseGroupService.findGroupForMember(groupId, user.id);
+    await this.refreshPaymentRequestSettlements(groupId);
+
+    const wallet = await this.resolveOwnWallet(user.id, group.currency, settleGroupDto.walletId);
+    const paying = settleGroupDto.method === SettlementMethod.TRANSFER;
+
+    // Plan and record under a lock on the caller's membership, so a concurrent
+    // settle sees these settlements as pending and does not repeat them
+    const settlements = await this.dataSource.transaction(async manager => {
+      await manager.findOne(ExpenseGroupMember, {
+        where: { groupId, userId: user.id },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      const debts = (await this.planSettlements(group)).filter(debt =>
+        paying ? debt.fromUserId === user.id : debt.toUserId === user.id,
+      );
+
+      return manager.save(
+        debts.map(debt =>
+          manager.create(GroupSettlement, {
+            groupId,
+            fromUserId: debt.fromUserId,
+            toUserId: debt.toUserId,
+            amount: debt.amount.toString(),
+            method: settleGroupDto.method,
+          }),
+        ),
+      );
+    });
+
+    for (const settlement of settlements) {
+      if (paying) {
+        await this.settleByTransfer(group, settlement, user, wallet);
+      } else {
+        await this.settleByPaymentRequest(group, settlement, user, wallet);
+      }
+    }
+
+    return settlements.map(settlement => this.mapToGroupSettlementResponseDto(settlement));
+  }
+
+  private async settleByTransfer(group: ExpenseGroup, settlement: GroupSettlement, user: User, wallet: Wallet): Promise<void> {
+    try {
+      const creditorWallet = await this.findDefaultWallet(settlement.toUserId, group.currency);
+      if (!creditorWallet) {
+        throw new BadRequestException(`Recipient has no active ${group.currency} wallet`);
+      }
+
+      const result = await this.transferService.transferFunds(wallet.id, user, {
+        destinationWalletId: creditorWallet.id,
+        amount: settlement.amount,
+        description: `Settle up: ${group.name}`,
+        idempotencyKey: `group-settlement:${settlement.id}`,
+      });
+
+      settlement.status = SettlementStatus.COMPLETED;
+      settlement.transactionId = result.id;
+
+    } catch (error) {
+      settlement.status = SettlementStatus.FAILED;
+      settlement.failureReason = describeTransferFailure(error).reason;
+
+      this.logger.warn(`Settlement ${settlement.id} in group ${group.id} failed: ${settlement.failureReason}`);
+    }
+
+    await this.settlementRepository.save(settlement);
+  }
+
+  private async settleByPaymentRequest(group: ExpenseGroup, settlement: GroupSettlement, user: User, wallet: Wallet): Promise<void> {
+    try {
+      const paymentRequest = await this.paymentRequestService.createPaymentRequest(user, {
+        walletId: wallet.id,
+        payerUserId: settlement.fromUserId,
+        amount: settlement.amount,
+        memo: `Settle up: ${group.name}`,
+      });
+
+      settlement.paymentRequestId = paymentRequest.id;
+
+    } catch (error) {
+      settlement.status = SettlementStatus.FAILED;
+      settlement.failureReason = describeTransferFailure(error).reason;
+
+      this.logger.warn(`Settlement ${settlement.id} in group ${group.id} failed: ${settlement.failureReason}`);
+    }
+
+    await this.settlementRepository.save(settlement);
+  }
+
+  /**
+   * Carry over the outcome of payment requests sent to settle debts
+   */
+  private async refreshPaymentRequestSettlements(groupId: string): Promise<void> {
+    const pending = await this.settlementRepository.find({
+      where: { groupId, method: SettlementMethod.PAYMENT_REQUEST, status: SettlementStatus.PENDING },
+    });
+
+    const requestIds = pending.map(settlement => settlement.paymentRequestId).filter(Boolean);
+    if (requestIds.length === 0) {
+      return;
+    }
+
+    const requests = await this.paymentRequestRepository.find({ where: { id: In(requestIds) } });
+    const requestsById = new Map(requests.map(request => [request.id, request]));
+
+    for (const settlement of pending) {
+      const request = requestsById.get(settlement.paymentRequestId);
+      if (!request) continue;
+
+      if (request.status === PaymentRequestStatus.PAID) {
+        settlement.status = SettlementStatus.COMPLETED;
+        settlement.transactionId = request.transactionId;
+      } else if (ABANDONED_REQUEST_STATUSES.includes(request.status) || request.isExpired()) {
+        settlement.status = SettlementStatus.FAILED;
+        settlement.failureReason = `Payment request ${request.isExpired() ? PaymentRequestStatus.EXPIRED : request.status}`;
+      } else {
+        continue;
+      }
+
+      await this.settlementRepository.save(settlement);
+    }
+  }
+
+  private async planSettlements(group: ExpenseGroup): Promise<DebtTransfer[]> {
+    const balances = await this.expenseGroupService.computeBalances(group);
+
+    const projected = new Map<string, Money>();
+    for (const [userId, balance] of balances) {
+      projected.set(userId, balance.paid.subtract(balance.owed).add(balance.settled).add(balance.pending));
+    }
+
+    return simplifyDebts(projected);
+  }
+
+  private async resolveOwnWallet(userId: string, currency: string, walletId?: string): Promise<Wallet> {
+    const wallet = walletId
+      ? await this.walletRepository.findOne({ where: { id: walletId, userId, isActive: true } })
+      : await this.findDefaultWallet(userId, currency);
+
+    if (!wallet) {
+      throw new NotFoundException(walletId ? 'Wallet not found' : `You have no active ${currency} wallet`);
+    }
+
+    if (wallet.currency !== currency) {
+      throw new BadRequestException(`Settlements in this group must use a ${currency} wallet`);
+    }
+
+    return wallet;
+  }
+
+  private async findDefaultWallet(userId: string, currency: string): Promise<Wallet | null> {
+    return this.walletRepository.findOne({
+      where: { userId, currency, isActive: true },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  private mapToGroupSettlementResponseDto(settlement: GroupSettlement): GroupSettlementResponseDto {
+    return {
+      id: settlement.id,
+      fromUserId: settlement.fromUserId,
+      toUserId: settlement.toUserId,
+      amount: settlement.amount,
+      method: settlement.method,
+      status: settlement.status,
+      transactionId: settlement.transactionId || null,
+      paymentRequestId: settlement.paymentRequestId || null,
+      failureReason: settlement.failureReason || null,
+      createdAt: settlement.createdAt,
+    };
+  }
+}
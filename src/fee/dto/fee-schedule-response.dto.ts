@@ -0,0 +1,48 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { TransactionType } from '../../database/entities/transaction.entity';
+import { UserTier } from '../../database/entities/user.entity';
+import { FeeType, FeeTier } from '../../database/entities/fee-schedule.entity';
+
+export class FeeScheduleResponseDto {
+  @ApiProperty({ example: 'uuid-string' })
+  id: string;
+
+  @ApiProperty({ example: 'Standard USD transfers' })
+  name: string;
+
+  @ApiProperty({ enum: TransactionType, nullable: true })
+  transactionType: TransactionType | null;
+
+  @ApiProperty({ example: 'USD', nullable: true })
+  currency: string | null;
+
+  @ApiProperty({ enum: UserTier, nullable: true })
+  userTier: UserTier | null;
+
+  @ApiProperty({ enum: FeeType })
+  feeType: FeeType;
+
+  @ApiProperty({ example: '0.50', nullable: true })
+  flatAmount: string | null;
+
+  @ApiProperty({ example: 0.015, nullable: true })
+  rate: number | null;
+
+  @ApiProperty({ example: [{ upTo: 100, flatAmount: 0.25 }, { upTo: null, rate: 0.01 }], nullable: true })
+  tiers: FeeTier[] | null;
+
+  @ApiProperty({ example: '0.25', nullable: true })
+  minFee: string | null;
+
+  @ApiProperty({ example: '25.00', nullable: true })
+  maxFee: string | null;
+
+  @ApiProperty({ example: 0 })
+  priority: number;
+
+  @ApiProperty({ example: true })
+  isActive: boolean;
+
+  @ApiProperty({ example: '2023-12-01T10:00:00Z' })
+  createdAt: Date;
+}
@@ -0,0 +1,121 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  IsNumber,
+  IsInt,
+  IsBoolean,
+  IsIn,
+  Min,
+  Max,
+  ValidateNested,
+  ValidateIf,
+  ArrayNotEmpty,
+} from 'class-validator';
+import { ApiProperty, PartialType } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { TransactionType } from '../../database/entities/transaction.entity';
+import { UserTier } from '../../database/entities/user.entity';
+import { FeeType } from '../../database/entities/fee-schedule.entity';
+import { IsMoneyAmount } from '../../common/money/is-money-amount.decorator';
+
+export class FeeTierDto {
+  @ApiProperty({ example: 100.00, nullable: true, description: 'Upper bound of the bracket; null for the last one' })
+  @ValidateIf((_, value) => value !== null)
+  @IsMoneyAmount()
+  @Type(() => Number)
+  upTo: number | null;
+
+  @ApiProperty({ example: 0.25, required: false })
+  @IsOptional()
+  @IsMoneyAmount()
+  @Type(() => Number)
+  flatAmount?: number;
+
+  @ApiProperty({ example: 0.01, required: false, description: 'Fraction of the amount' })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 6 })
+  @Min(0)
+  @Max(1)
+  @Type(() => Number)
+  rate?: number;
+}
+
+export class CreateFeeScheduleDto {
+  @ApiProperty({ example: 'Standard USD transfers' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({ enum: TransactionType, required: false, description: 'Omit to match any type' })
+  @IsOptional()
+  @IsEnum(TransactionType)
+  transactionType?: TransactionType;
+
+  @ApiProperty({ example: 'USD', required: false, description: 'Omit to match any currency' })
+  @IsOptional()
+  @IsIn(['USD', 'EUR', 'GBP'])
+  currency?: string;
+
+  @ApiProperty({ enum: UserTier, required: false, description: 'Omit to match any tier' })
+  @IsOptional()
+  @IsEnum(UserTier)
+  userTier?: UserTier;
+
+  @ApiProperty({ enum: FeeType })
+  @IsEnum(FeeType)
+  feeType: FeeType;
+
+  @ApiProperty({ example: 0.50, required: false, description: 'Required for FLAT fees' })
+  @IsOptional()
+  @IsMoneyAmount()
+  @Type(() => Number)
+  flatAmount?: number;
+
+  @ApiProperty({ example: 0.015, required: false, description: 'Fraction of the amount; required for PERCENTAGE fees' })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 6 })
+  @Min(0)
+  @Max(1)
+  @Type(() => Number)
+  rate?: number;
+
+  @ApiProperty({ type: [FeeTierDto], required: false, description: 'Ascending brackets; required for TIERED fees' })
+  @IsOptional()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => FeeTierDto)
+  tiers?: FeeTierDto[];
+
+  @ApiProperty({ example: 0.25, required: false })
+  @IsOptional()
+  @IsMoneyAmount()
+  @Type(() => Number)
+  minFee?: number;
+
+  @ApiProperty({ example: 25.00, required: false })
+  @IsOptional()
+  @IsMoneyAmount()
+  @Type(() => Number)
+  maxFee?: number;
+
+  @ApiProperty({ example: 0, required: false })
+  @IsOptional()
+  @IsInt()
+  @Type(() => Number)
+  priority?: number;
+
+  @ApiProperty({ example: true, required: false })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class UpdateFeeScheduleDto extends PartialType(CreateFeeScheduleDto) {}
+
+export class SetUserTierDto {
+  @ApiProperty({ enum: UserTier })
+  @IsEnum(UserTier)
+  tier: UserTier;
+}
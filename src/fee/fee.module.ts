@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { FeeService } from './fee.service';
+import { FeeSchedule } from '../database/entities/fee-schedule.entity';
+import { User } from '../database/entities/user.entity';
+import { Wallet } from '../database/entities/wallet.entity';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([FeeSchedule, User, Wallet]),
+  ],
+  providers: [FeeService],
+  exports: [FeeService],
+})
+export class FeeModule {}
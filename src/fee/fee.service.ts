@@ -0,0 +1,301 @@
+import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, DataSource, DeepPartial } from 'typeorm';
+import { FeeSchedule, FeeType } from '../database/entities/fee-schedule.entity';
+import { TransactionType } from '../database/entities/transaction.entity';
+import { User, UserTier } from '../database/entities/user.entity';
+import { Wallet } from '../database/entities/wallet.entity';
+import { DecimalAmount, Money } from '../common/money/money';
+import { CreateFeeScheduleDto, UpdateFeeScheduleDto } from './dto/fee-schedule.dto';
+import { FeeScheduleResponseDto } from './dto/fee-schedule-response.dto';
+
+export interface FeeRequest {
+  transactionType: TransactionType;
+  currency: string;
+  userTier: UserTier;
+  amount: DecimalAmount;
+}
+
+export interface FeeQuote {
+  amount: string;
+  currency: string;
+  scheduleId: string | null;
+}
+
+export interface RevenueWalletBalance {
+  walletId: string;
+  currency: string;
+  balance: string;
+}
+
+@Injectable()
+export class FeeService {
+  private readonly logger = new Logger(FeeService.name);
+  private readonly revenueWalletIds = new Map<string, string>();
+
+  constructor(
+    @InjectRepository(FeeSchedule)
+    private feeScheduleRepository: Repository<FeeSchedule>,
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+    @InjectRepository(Wallet)
+    private walletRepository: Repository<Wallet>,
+    private configService: ConfigService,
+    private dataSource: DataSource,
+  ) {}
+
+  /**
+   * Fee for a transaction under the most specific active schedule; zero when none matches
+   */
+  async calculateFee(request: FeeRequest): Promise<FeeQuote> {
+    const schedule = await this.findSchedule(request);
+
+    if (!schedule) {
+      return { amount: Money.zero().toString(), currency: request.currency, scheduleId: null };
+    }
+
+    const fee = this.computeFee(schedule, Money.fromDecimal(request.amount, request.currency));
+
+    return { amount: fee.toString(), currency: request.currency, scheduleId: schedule.id };
+  }
+
+  /**
+   * Platform wallet that collects fees in a currency, created on first use
+   */
+  async getRevenueWalletId(currency: string): Promise<string> {
+    const cached = this.revenueWalletIds.get(currency);
+    if (cached) {
+      return cached;
+    }
+
+    const walletId = await this.dataSource.transaction(async manager => {
+      const email = this.getRevenueOwnerEmail();
+
+      // The owner cannot sign in: it is inactive and has no usable password hash
+      await manager
+        .createQueryBuilder()
+        .insert()
+        .into(User)
+        .values({ email, password: '!', firstName: 'Platform', lastName: 'Revenue', isActive: false })
+        .orIgnore()
+        .execute();
+
+      // Lock the owner so concurrent first fees create a single wallet per currency
+      const owner = await manager.findOne(User, {
+        where: { email },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      const existing = await manager.findOne(Wallet, { where: { userId: owner.id, currency } });
+      if (existing) {
+        return existing.id;
+      }
+
+      const wallet = await manager.save(
+        manager.create(Wallet, {
+          userId: owner.id,
+          name: `Platform revenue (${currency})`,
+          currency,
+          balance: Money.zero().toString(),
+        }),
+      );
+
+      this.logger.log(`Created platform revenue wallet ${wallet.id} for ${currency}`);
+      return wallet.id;
+    });
+
+    this.revenueWalletIds.set(currency, walletId);
+    return walletId;
+  }
+
+  async getRevenueBalances(): Promise<RevenueWalletBalance[]> {
+    const owner = await this.userRepository.findOne({ where: { email: this.getRevenueOwnerEmail() } });
+    if (!owner) {
+      return [];
+    }
+
+    const wallets = await this.walletRepository.find({
+      where: { userId: owner.id },
+      order: { currency: 'ASC' },
+    });
+
+    return wallets.map(wallet => ({
+      walletId: wallet.id,
+      currency: wallet.currency,
+      balance: wallet.balance,
+    }));
+  }
+
+  async getSchedules(): Promise<FeeScheduleResponseDto[]> {
+    const schedules = await this.feeScheduleRepository.find({
+      order: { createdAt: 'ASC' },
+    });
+
+    return schedules.map(schedule => this.mapToFeeScheduleResponseDto(schedule));
+  }
+
+  async createSchedule(createFeeScheduleDto: CreateFeeScheduleDto): Promise<FeeScheduleResponseDto> {
+    const schedule = this.feeScheduleRepository.create(this.toScheduleFields(createFeeScheduleDto));
+    this.assertValidSchedule(schedule);
+
+    const saved = await this.feeScheduleRepository.save(schedule);
+    this.logger.log(`Created fee schedule ${saved.id} (${saved.feeType}) "${saved.name}"`);
+
+    return this.mapToFeeScheduleResponseDto(saved);
+  }
+
+  async updateSchedule(id: string, updateFeeScheduleDto: UpdateFeeScheduleDto): Promise<FeeScheduleResponseDto> {
+    const schedule = await this.feeScheduleRepository.findOne({ where: { id } });
+
+    if (!schedule) {
+      throw new NotFoundException('Fee schedule not found');
+    }
+
+    this.feeScheduleRepository.merge(schedule, this.toScheduleFields(updateFeeScheduleDto));
+    this.assertValidSchedule(schedule);
+
+    const saved = await this.feeScheduleRepository.save(schedule);
+    this.logger.log(`Updated fee schedule ${saved.id}`);
+
+    return this.mapToFeeScheduleResponseDto(saved);
+  }
+
+  async setUserTier(userId: string, tier: UserTier): Promise<{ id: string; email: string; tier: UserTier }> {
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    user.tier = tier;
+    await this.userRepository.save(user);
+
+    return { id: user.id, email: user.email, tier: user.tier };
+  }
+
+  private async findSchedule(request: FeeRequest): Promise<FeeSchedule | null> {
+    const schedules = await this.feeScheduleRepository
+      .createQueryBuilder('schedule')
+      .where('schedule.isActive = true')
+      .andWhere('(schedule.transactionType IS NULL OR schedule.transactionType = :transactionType)', {
+        transactionType: request.transactionType,
+      })
+      .andWhere('(schedule.currency IS NULL OR schedule.currency = :currency)', { currency: request.currency })
+      .andWhere('(schedule.userTier IS NULL OR schedule.userTier = :userTier)', { userTier: request.userTier })
+      .getMany();
+
+    schedules.sort((a, b) => this.getSpecificity(b) - this.getSpecificity(a) || b.priority - a.priority);
+
+    return schedules[0] || null;
+  }
+
+  private getSpecificity(schedule: FeeSchedule): number {
+    return [schedule.transactionType, schedule.currency, schedule.userTier].filter(value => value != null).length;
+  }
+
+  private computeFee(schedule: FeeSchedule, amount: Money): Money {
+    let fee: Money;
+
+    switch (schedule.feeType) {
+      case FeeType.FLAT:
+        fee = Money.fromDecimal(schedule.flatAmount, amount.currency);
+        break;
+
+      case FeeType.PERCENTAGE:
+        fee = amount.multiply(schedule.rate);
+        break;
+
+      case FeeType.TIERED: {
+        // The last bracket is open-ended, so one always matches
+        const tier = schedule.tiers.find(
+          bracket => bracket.upTo === null || !amount.greaterThan(Money.fromDecimal(bracket.upTo, amount.currency)),
+        );
+        fee = Money.fromDecimal(tier.flatAmount || 0, amount.currency).add(amount.multiply(tier.rate || 0));
+        break;
+      }
+    }
+
+    if (schedule.minFee != null && fee.lessThan(Money.fromDecimal(schedule.minFee, amount.currency))) {
+      fee = Money.fromDecimal(schedule.minFee, amount.currency);
+    }
+
+    if (schedule.maxFee != null && fee.greaterThan(Money.fromDecimal(schedule.maxFee, amount.currency))) {
+      fee = Money.fromDecimal(schedule.maxFee, amount.currency);
+    }
+
+    return fee;
+  }
+
+  /**
+   * Schedule fields from a request, with its amounts as the exact decimal strings the columns hold
+   */
+  private toScheduleFields(dto: UpdateFeeScheduleDto): DeepPartial<FeeSchedule> {
+    const { flatAmount, minFee, maxFee, ...fields } = dto;
+    const amounts = Object.entries({ flatAmount, minFee, maxFee }).filter(([, value]) => value != null);
+
+    return {
+      ...fields,
+      ...Object.fromEntries(amounts.map(([field, value]) => [field, Money.fromDecimal(value).toString()])),
+    };
+  }
+
+  private assertValidSchedule(schedule: FeeSchedule): void {
+    if (schedule.feeType === FeeType.FLAT && schedule.flatAmount == null) {
+      throw new BadRequestException('FLAT fees require flatAmount');
+    }
+
+    if (schedule.feeType === FeeType.PERCENTAGE && schedule.rate == null) {
+      throw new BadRequestException('PERCENTAGE fees require rate');
+    }
+
+    if (schedule.feeType === FeeType.TIERED) {
+      const tiers = schedule.tiers || [];
+
+      if (tiers.length === 0) {
+        throw new BadRequestException('TIERED fees require at least one tier');
+      }
+
+      if (tiers[tiers.length - 1].upTo !== null) {
+        throw new BadRequestException('The last tier must have upTo set to null');
+      }
+
+      for (let i = 0; i < tiers.length; i++) {
+        if (tiers[i].flatAmount == null && tiers[i].rate == null) {
+          throw new BadRequestException('Each tier needs a flatAmount, a rate or both');
+        }
+
+        if (i < tiers.length - 1 && (tiers[i].upTo === null || (i > 0 && tiers[i].upTo <= tiers[i - 1].upTo))) {
+          throw new BadRequestException('Tier upTo bounds must be ascending');
+        }
+      }
+    }
+
+    if (schedule.minFee != null && schedule.maxFee != null && schedule.minFee > schedule.maxFee) {
+      throw new BadRequestException('minFee cannot exceed maxFee');
+    }
+  }
+
+  private getRevenueOwnerEmail(): string {
+    return this.configService.get('PLATFORM_REVENUE_EMAIL', 'revenue@platform.internal');
+  }
+
+  private mapToFeeScheduleResponseDto(schedule: FeeSchedule): FeeScheduleResponseDto {
+    return {
+      id: schedule.id,
+      name: schedule.name,
+      transactionType: schedule.transactionType || null,
+      currency: schedule.currency || null,
+      userTier: schedule.userTier || null,
+      feeType: schedule.feeType,
+      flatAmount: schedule.flatAmount ?? null,
+      rate: schedule.rate ?? null,
+      tiers: schedule.tiers || null,
+      minFee: schedule.minFee ?? null,
+      maxFee: schedule.maxFee ?? null,
+      priority: schedule.priority,
+      isActive: schedule.isActive,
+      createdAt: schedule.createdAt,
+    };
+  }
+}
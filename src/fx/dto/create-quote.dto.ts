@@ -0,0 +1,19 @@
+import { IsUUID } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsMoneyAmount } from '../../common/money/is-money-amount.decorator';
+
+export class CreateQuoteDto {
+  @ApiProperty({ example: 'uuid-of-source-wallet' })
+  @IsUUID()
+  sourceWalletId: string;
+
+  @ApiProperty({ example: 'uuid-of-destination-wallet' })
+  @IsUUID()
+  destinationWalletId: string;
+
+  @ApiProperty({ example: 100.00, description: 'Amount to send, in the source wallet currency' })
+  @IsMoneyAmount()
+  @Type(() => Number)
+  amount: number;
+}
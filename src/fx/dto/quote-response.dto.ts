@@ -0,0 +1,36 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class QuoteResponseDto {
+  @ApiProperty({ example: 'uuid-string' })
+  id: string;
+
+  @ApiProperty({ example: 'uuid-of-source-wallet' })
+  sourceWalletId: string;
+
+  @ApiProperty({ example: 'uuid-of-destination-wallet' })
+  destinationWalletId: string;
+
+  @ApiProperty({ example: 'USD' })
+  sourceCurrency: string;
+
+  @ApiProperty({ example: 'EUR' })
+  destinationCurrency: string;
+
+  @ApiProperty({ example: '100.00' })
+  sourceAmount: string;
+
+  @ApiProperty({ example: 0.92, description: 'Mid-market rate before the spread' })
+  midRate: number;
+
+  @ApiProperty({ example: 0.9154, description: 'Rate applied to the transfer, after the spread' })
+  rate: number;
+
+  @ApiProperty({ example: 0.005 })
+  spread: number;
+
+  @ApiProperty({ example: '91.54' })
+  destinationAmount: string;
+
+  @ApiProperty({ example: '2023-12-01T10:01:00Z' })
+  expiresAt: Date;
+}
@@ -0,0 +1,26 @@
+import { Controller, Post, Body, UseGuards, Request } from '@nestjs/common';
+import { ApiBearerAuth, ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { FxService } from './fx.service';
+import { CreateQuoteDto } from './dto/create-quote.dto';
+import { QuoteResponseDto } from './dto/quote-response.dto';
+import { Idempotent } from '../common/decorators/idempotent.decorator';
+
+@ApiTags('FX')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('fx')
+export class FxController {
+  constructor(private readonly fxService: FxService) {}
+
+  @Post('quotes')
+  @Idempotent()
+  @ApiOperation({ summary: 'Quote a cross-currency transfer; pass the quote id as quoteId when transferring' })
+  @ApiResponse({ status: 201, description: 'Quote created', type: QuoteResponseDto })
+  @ApiResponse({ status: 400, description: 'Same currency or unsupported currency pair' })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async createQuote(@Request() req, @Body() createQuoteDto: CreateQuoteDto): Promise<QuoteResponseDto> {
+    return this.fxService.createQuote(req.user, createQuoteDto);
+  }
+}
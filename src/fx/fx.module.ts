@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { FxController } from './fx.controller';
+import { FxService } from './fx.service';
+import { StaticRateProvider } from './providers/static-rate.provider';
+import { RATE_PROVIDER } from './providers/rate-provider.interface';
+import { Wallet } from '../database/entities/wallet.entity';
+import { CacheModule } from '../cache/cache.module';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Wallet]),
+    CacheModule,
+    AuthModule,
+  ],
+  controllers: [FxController],
+  providers: [
+    FxService,
+    StaticRateProvider,
+    // Swap for a live market-data provider here
+    { provide: RATE_PROVIDER, useExisting: StaticRateProvider },
+  ],
+  exports: [FxService],
+})
+export class FxModule {}
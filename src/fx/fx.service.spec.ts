@@ -0,0 +1,96 @@
+import { Logger } from '@nestjs/common';
+import { User } from '../database/entities/user.entity';
+import { Wallet } from '../database/entities/wallet.entity';
+import { StaticRateProvider } from './providers/static-rate.provider';
+import { FxService } from './fx.service';
+
+describe('FxService', () => {
+  const user = Object.assign(new User(), { id: 'user-1' });
+  const wallets: Record<string, Wallet> = {
+    'usd-wallet': Object.assign(new Wallet(), { id: 'usd-wallet', userId: 'user-1', currency: 'USD' }),
+    'eur-wallet': Object.assign(new Wallet(), { id: 'eur-wallet', userId: 'user-2', currency: 'EUR' }),
+    'other-usd-wallet': Object.assign(new Wallet(), { id: 'other-usd-wallet', userId: 'user-2', currency: 'USD' }),
+    'jpy-wallet': Object.assign(new Wallet(), { id: 'jpy-wallet', userId: 'user-2', currency: 'JPY' }),
+  };
+
+  let store: Map<string, string>;
+  let service: FxService;
+
+  beforeAll(() => Logger.overrideLogger(false));
+
+  beforeEach(() => {
+    store = new Map();
+    const cacheService = {
+      set: jest.fn(async (key: string, value: string) => store.set(key, value)),
+      get: jest.fn(async (key: string) => store.get(key) ?? null),
+      getAndDelete: jest.fn(async (key: string) => {
+        const value = store.get(key) ?? null;
+        store.delete(key);
+        return value;
+      }),
+    };
+    const walletRepository = {
+      findOne: jest.fn(async ({ where }) => {
+        const wallet = wallets[where.id];
+        return wallet && (!where.userId || wallet.userId === where.userId) ? wallet : null;
+      }),
+    };
+    const configService = { get: jest.fn((_, fallback) => fallback) };
+
+    service = new FxService(
+      walletRepository as any,
+      new StaticRateProvider(configService as any),
+      cacheService as any,
+      configService as any,
+    );
+  });
+
+  const quote = (amount = 100, destinationWalletId = 'eur-wallet') =>
+    service.createQuote(user, { sourceWalletId: 'usd-wallet', destinationWalletId, amount });
+
+  it('quotes the mid rate less the spread and rounds the converted amount to cents', async () => {
+    const created = await quote(10.01);
+
+    expect(created).toEqual(expect.objectContaining({
+      sourceCurrency: 'USD',
+      destinationCurrency: 'EUR',
+      midRate: 0.92,
+      rate: 0.9154,
+      spread: 0.005,
+      destinationAmount: '9.16',
+    }));
+    expect(created.expiresAt.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('refuses a quote between wallets of the same currency', async () => {
+    await expect(quote(100, 'other-usd-wallet')).rejects.toThrow('Wallets share a currency; no quote is needed');
+  });
+
+  it('refuses a currency pair the rate provider does not know', async () => {
+    await expect(quote(100, 'jpy-wallet')).rejects.toThrow('No exchange rate from USD to JPY');
+  });
+
+  it('only honours a quote for the transfer it was issued for', async () => {
+    const { id } = await quote(100);
+
+    await expect(service.getQuoteForTransfer(id, 'user-1', 'usd-wallet', 'eur-wallet', 100)).resolves.toEqual(
+      expect.objectContaining({ id, destinationAmount: '91.54' }),
+    );
+    await expect(service.getQuoteForTransfer(id, 'user-1', 'usd-wallet', 'eur-wallet', 100.01)).rejects.toThrow(
+      'FX quote does not match this transfer',
+    );
+    await expect(service.getQuoteForTransfer(id, 'user-2', 'usd-wallet', 'eur-wallet', 100)).rejects.toThrow(
+      'FX quote does not match this transfer',
+    );
+  });
+
+  it('lets a quote be consumed once', async () => {
+    const { id } = await quote(100);
+
+    await expect(service.consumeQuote(id)).resolves.toEqual(expect.objectContaining({ id }));
+    await expect(service.consumeQuote(id)).rejects.toThrow('FX quote expired or already used');
+    await expect(service.getQuoteForTransfer(id, 'user-1', 'usd-wallet', 'eur-wallet', 100)).rejects.toThrow(
+      'FX quote not found or expired',
+    );
+  });
+});
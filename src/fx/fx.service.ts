@@ -0,0 +1,181 @@
+import { Injectable, Inject, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import * as crypto from 'crypto';
+import { Wallet } from '../database/entities/wallet.entity';
+import { User } from '../database/entities/user.entity';
+import { CacheService } from '../cache/cache.service';
+import { DecimalAmount, Money } from '../common/money/money';
+import { RATE_PROVIDER, RateProvider } from './providers/rate-provider.interface';
+import { CreateQuoteDto } from './dto/create-quote.dto';
+import { QuoteResponseDto } from './dto/quote-response.dto';
+
+export interface FxQuote {
+  id: string;
+  userId: string;
+  sourceWalletId: string;
+  destinationWalletId: string;
+  sourceCurrency: string;
+  destinationCurrency: string;
+  sourceAmount: string;
+  midRate: number;
+  rate: number;
+  spread: number;
+  destinationAmount: string;
+  expiresAt: string;
+}
+
+@Injectable()
+export class FxService {
+  private readonly logger = new Logger(FxService.name);
+
+  constructor(
+    @InjectRepository(Wallet)
+    private walletRepository: Repository<Wallet>,
+    @Inject(RATE_PROVIDER)
+    private rateProvider: RateProvider,
+    private cacheService: CacheService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Quote a cross-currency transfer; the quote is honoured until it expires or is used
+   */
+  async createQuote(user: User, createQuoteDto: CreateQuoteDto): Promise<QuoteResponseDto> {
+    const { sourceWalletId, destinationWalletId, amount } = createQuoteDto;
+
+    const sourceWallet = await this.walletRepository.findOne({
+      where: { id: sourceWalletId, userId: user.id, isActive: true },
+    });
+
+    if (!sourceWallet) {
+      throw new NotFoundException('Source wallet not found or not accessible');
+    }
+
+    const destinationWallet = await this.walletRepository.findOne({
+      where: { id: destinationWalletId, isActive: true },
+    });
+
+    if (!destinationWallet) {
+      throw new NotFoundException('Destination wallet not found or inactive');
+    }
+
+    if (sourceWallet.currency === destinationWallet.currency) {
+      throw new BadRequestException('Wallets share a currency; no quote is needed');
+    }
+
+    const midRate = await this.rateProvider.getRate(sourceWallet.currency, destinationWallet.currency);
+    if (!midRate) {
+      throw new BadRequestException(
+        `No exchange rate from ${sourceWallet.currency} to ${destinationWallet.currency}`,
+      );
+    }
+
+    const spread = Number(this.configService.get('FX_SPREAD', 0.005));
+    const rate = this.roundRate(midRate * (1 - spread));
+    const ttlSeconds = Number(this.configService.get('FX_QUOTE_TTL_SECONDS', 60));
+
+    const quote: FxQuote = {
+      id: crypto.randomUUID(),
+      userId: user.id,
+      sourceWalletId,
+      destinationWalletId,
+      sourceCurrency: sourceWallet.currency,
+      destinationCurrency: destinationWallet.currency,
+      sourceAmount: Money.fromDecimal(amount).toString(),
+      midRate: this.roundRate(midRate),
+      rate,
+      spread,
+      destinationAmount: Money.fromDecimal(amount).multiply(rate).toString(),
+      expiresAt: new Date(Date.now() + ttlSeconds * 1000).toISOString(),
+    };
+
+    if (!Money.fromDecimal(quote.destinationAmount).isPositive()) {
+      throw new BadRequestException('Amount is too small to convert');
+    }
+
+    await this.cacheService.set(this.getQuoteKey(quote.id), JSON.stringify(quote), ttlSeconds);
+
+    this.logger.log(
+      `Quoted ${amount} ${quote.sourceCurrency} -> ${quote.destinationAmount} ${quote.destinationCurrency} ` +
+      `at ${rate} (${this.rateProvider.name}), quoteId=${quote.id}`
+    );
+
+    return this.mapToQuoteResponseDto(quote);
+  }
+
+  /**
+   * Look up a live quote and check it matches the transfer it is used for
+   */
+  async getQuoteForTransfer(
+    quoteId: string,
+    userId: string,
+    sourceWalletId: string,
+    destinationWalletId: string,
+    amount: DecimalAmount,
+  ): Promise<FxQuote> {
+    const cached = await this.cacheService.get(this.getQuoteKey(quoteId));
+    if (!cached) {
+      throw new BadRequestException('FX quote not found or expired');
+    }
+
+    const quote = JSON.parse(cached) as FxQuote;
+    this.assertQuoteMatches(quote, userId, sourceWalletId, destinationWalletId, amount);
+
+    return quote;
+  }
+
+  /**
+   * Claim a quote for a transfer; each quote can be used once
+   */
+  async consumeQuote(quoteId: string): Promise<FxQuote> {
+    const cached = await this.cacheService.getAndDelete(this.getQuoteKey(quoteId));
+    if (!cached) {
+      throw new BadRequestException('FX quote expired or already used');
+    }
+
+    return JSON.parse(cached) as FxQuote;
+  }
+
+  private assertQuoteMatches(
+    quote: FxQuote,
+    userId: string,
+    sourceWalletId: string,
+    destinationWalletId: string,
+    amount: DecimalAmount,
+  ): void {
+    if (
+      quote.userId !== userId ||
+      quote.sourceWalletId !== sourceWalletId ||
+      quote.destinationWalletId !== destinationWalletId ||
+      !Money.fromDecimal(quote.sourceAmount).equals(Money.fromDecimal(amount))
+    ) {
+      throw new BadRequestException('FX quote does not match this transfer');
+    }
+  }
+
+  private roundRate(rate: number): number {
+    return Math.round(rate * 1e8) / 1e8;
+  }
+
+  private getQuoteKey(quoteId: string): string {
+    return `fx_quote:${quoteId}`;
+  }
+
+  private mapToQuoteResponseDto(quote: FxQuote): QuoteResponseDto {
+    return {
+      id: quote.id,
+      sourceWalletId: quote.sourceWalletId,
+      destinationWalletId: quote.destinationWalletId,
+      sourceCurrency: quote.sourceCurrency,
+      destinationCurrency: quote.destinationCurrency,
+      sourceAmount: quote.sourceAmount,
+      midRate: quote.midRate,
+      rate: quote.rate,
+      spread: quote.spread,
+      destinationAmount: quote.destinationAmount,
+      expiresAt: new Date(quote.expiresAt),
+    };
+  }
+}
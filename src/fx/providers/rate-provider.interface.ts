@@ -0,0 +1,14 @@
+export const RATE_PROVIDER = 'RATE_PROVIDER';
+
+/**
+ * Source of mid-market exchange rates. The spread is applied by FxService,
+ * so providers only report the mid rate.
+ */
+export interface RateProvider {
+  readonly name: string;
+
+  /**
+   * Units of quoteCurrency per one unit of baseCurrency, or null when unsupported
+   */
+  getRate(baseCurrency: string, quoteCurrency: string): Promise<number | null>;
+}
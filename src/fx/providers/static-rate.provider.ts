@@ -0,0 +1,59 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import { RateProvider } from './rate-provider.interface';
+
+interface RateTable {
+  base: string;
+  rates: Record<string, number>;
+}
+
+// Used when FX_RATES_FILE is not set; rates are units per one USD
+const DEFAULT_RATE_TABLE: RateTable = {
+  base: 'USD',
+  rates: {
+    USD: 1,
+    EUR: 0.92,
+    GBP: 0.79,
+  },
+};
+
+/**
+ * Rates from a JSON file ({ "base": "USD", "rates": { "EUR": 0.92 } }) or a built-in table.
+ * Cross rates are derived through the base currency.
+ */
+@Injectable()
+export class StaticRateProvider implements RateProvider, OnModuleInit {
+  readonly name = 'static';
+
+  private readonly logger = new Logger(StaticRateProvider.name);
+  private table: RateTable = DEFAULT_RATE_TABLE;
+
+  constructor(private configService: ConfigService) {}
+
+  onModuleInit() {
+    const ratesFile = this.configService.get<string>('FX_RATES_FILE');
+    if (!ratesFile) {
+      return;
+    }
+
+    const table = JSON.parse(fs.readFileSync(ratesFile, 'utf8')) as RateTable;
+    if (!table.base || !table.rates) {
+      throw new Error(`FX rates file ${ratesFile} must define "base" and "rates"`);
+    }
+
+    this.table = { base: table.base, rates: { ...table.rates, [table.base]: 1 } };
+    this.logger.log(`Loaded ${Object.keys(this.table.rates).length} FX rates from ${ratesFile}`);
+  }
+
+  async getRate(baseCurrency: string, quoteCurrency: string): Promise<number | null> {
+    const baseRate = this.table.rates[baseCurrency];
+    const quoteRate = this.table.rates[quoteCurrency];
+
+    if (!baseRate || !quoteRate) {
+      return null;
+    }
+
+    return quoteRate / baseRate;
+  }
+}
@@ -4,7 +4,8 @@ import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import { AppModule } from './app.module';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // Raw bodies are kept for verifying provider callback signatures
+  const app = await NestFactory.create(AppModule, { rawBody: true });
 
   // Enable validation globally
   app.useGlobalPipes(new ValidationPipe({
@@ -0,0 +1,61 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { PaymentRequestStatus } from '../../database/entities/payment-request.entity';
+import { PaginationDto } from '../../transfer/dto/transaction-response.dto';
+
+export class PaymentRequestResponseDto {
+  @ApiProperty({ example: 'uuid-string' })
+  id: string;
+
+  @ApiProperty({ example: 'uuid-of-requester' })
+  requesterId: string;
+
+  @ApiProperty({ example: 'uuid-of-requester-wallet' })
+  requesterWalletId: string;
+
+  @ApiProperty({ example: 'uuid-of-payer' })
+  payerId: string;
+
+  @ApiProperty({ example: 'uuid-of-payer-wallet', nullable: true })
+  payerWalletId: string | null;
+
+  @ApiProperty({ example: '42.50' })
+  amount: string;
+
+  @ApiProperty({ example: 'USD' })
+  currency: string;
+
+  @ApiProperty({ example: 'Dinner on Friday', nullable: true })
+  memo: string | null;
+
+  @ApiProperty({ example: 'PENDING', enum: PaymentRequestStatus })
+  status: PaymentRequestStatus;
+
+  @ApiProperty({ example: '2024-01-22T00:00:00Z' })
+  expiresAt: Date;
+
+  @ApiProperty({ example: 'uuid-of-transaction', nullable: true })
+  transactionId: string | null;
+
+  @ApiProperty({ example: 'insufficient_balance', nullable: true, description: 'Why the last accept attempt failed' })
+  failureCode: string | null;
+
+  @ApiProperty({ example: 'Insufficient balance', nullable: true })
+  failureReason: string | null;
+
+  @ApiProperty({ example: 'Already paid in cash', nullable: true })
+  declineReason: string | null;
+
+  @ApiProperty({ example: '2024-01-16T12:00:00Z', nullable: true })
+  respondedAt: Date | null;
+
+  @ApiProperty({ example: '2024-01-15T12:00:00Z' })
+  createdAt: Date;
+}
+
+export class PaymentRequestHistoryResponseDto {
+  @ApiProperty({ type: [PaymentRequestResponseDto] })
+  requests: PaymentRequestResponseDto[];
+
+  @ApiProperty({ type: PaginationDto })
+  pagination: PaginationDto;
+}
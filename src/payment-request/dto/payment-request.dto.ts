@@ -0,0 +1,91 @@
+import {
+  IsUUID,
+  IsOptional,
+  IsString,
+  IsDateString,
+  IsEnum,
+  IsNumber,
+  IsPositive,
+  Min,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { PaymentRequestStatus } from '../../database/entities/payment-request.entity';
+import { IsMoneyAmount } from '../../common/money/is-money-amount.decorator';
+import { DecimalAmount } from '../../common/money/money';
+
+export class CreatePaymentRequestDto {
+  @ApiProperty({ example: 'uuid-of-your-wallet', description: 'Your wallet the payment is credited to' })
+  @IsUUID()
+  walletId: string;
+
+  @ApiProperty({ example: 'uuid-of-payer', required: false, description: 'User asked to pay; give this or payerWalletId' })
+  @IsOptional()
+  @IsUUID()
+  payerUserId?: string;
+
+  @ApiProperty({ example: 'uuid-of-payer-wallet', required: false, description: 'Wallet asked to pay; its owner is the payer' })
+  @IsOptional()
+  @IsUUID()
+  payerWalletId?: string;
+
+  // Group settlements pass their stored amount as an exact decimal string
+  @ApiProperty({ example: 42.50, type: Number })
+  @IsMoneyAmount()
+  @Type(() => Number)
+  amount: DecimalAmount;
+
+  @ApiProperty({ example: 'Dinner on Friday', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  memo?: string;
+
+  @ApiProperty({ example: '2024-01-22T00:00:00Z', required: false, description: 'Defaults to PAYMENT_REQUEST_TTL_HOURS from now' })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
+
+export class AcceptPaymentRequestDto {
+  @ApiProperty({
+    example: 'uuid-of-your-wallet',
+    required: false,
+    description: 'Wallet to pay from; required unless the request names one',
+  })
+  @IsOptional()
+  @IsUUID()
+  walletId?: string;
+}
+
+export class DeclinePaymentRequestDto {
+  @ApiProperty({ example: 'Already paid in cash', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  reason?: string;
+}
+
+export class PaymentRequestQueryDto {
+  @ApiProperty({ required: false, enum: PaymentRequestStatus })
+  @IsOptional()
+  @IsEnum(PaymentRequestStatus)
+  status?: PaymentRequestStatus;
+
+  @ApiProperty({ required: false, default: 1, minimum: 1 })
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  @Min(1)
+  @Type(() => Number)
+  page?: number = 1;
+
+  @ApiProperty({ required: false, default: 10, minimum: 1, maximum: 100 })
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  @Min(1)
+  @Type(() => Number)
+  limit?: number = 10;
+}
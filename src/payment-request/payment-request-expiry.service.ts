@@ -0,0 +1,50 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PaymentRequestService } from './payment-request.service';
+
+/**
+ * Expires overdue payment requests and settles ones stuck mid-payment
+ */
+@Injectable()
+export class PaymentRequestExpiryService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(PaymentRequestExpiryService.name);
+  private sweepTimer: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private paymentRequestService: PaymentRequestService,
+    private configService: ConfigService,
+  ) {}
+
+  onApplicationBootstrap() {
+    const intervalMs = Number(this.configService.get('PAYMENT_REQUEST_SWEEP_INTERVAL_MS', 60000));
+    this.sweepTimer = setInterval(() => {
+      this.sweep().catch(error => this.logger.error('Payment request sweep failed:', error));
+    }, intervalMs);
+  }
+
+  onModuleDestroy() {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+    }
+  }
+
+  async sweep(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const expired = await this.paymentRequestService.expireRequests();
+      if (expired > 0) {
+        this.logger.log(`Expired ${expired} payment requests`);
+      }
+
+      const staleAfterMs = Number(this.configService.get('PAYMENT_REQUEST_STALE_AFTER_MS', 300000));
+      await this.paymentRequestService.reconcileStaleRequests(new Date(Date.now() - staleAfterMs));
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,113 @@
+import { Controller, Post, Get, Body, Param, Query, UseGuards, Request, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiBearerAuth, ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { PaymentRequestService } from './payment-request.service';
+import {
+  CreatePaymentRequestDto,
+  AcceptPaymentRequestDto,
+  DeclinePaymentRequestDto,
+  PaymentRequestQueryDto,
+} from './dto/payment-request.dto';
+import { PaymentRequestResponseDto, PaymentRequestHistoryResponseDto } from './dto/payment-request-response.dto';
+import { Idempotent } from '../common/decorators/idempotent.decorator';
+
+@ApiTags('Payment Requests')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('payment-requests')
+export class PaymentRequestController {
+  constructor(private readonly paymentRequestService: PaymentRequestService) {}
+
+  @Post()
+  @Idempotent()
+  @ApiOperation({ summary: 'Request money from another user or wallet' })
+  @ApiResponse({ status: 201, description: 'Payment request created', type: PaymentRequestResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid payment request' })
+  @ApiResponse({ status: 404, description: 'Wallet or payer not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async createPaymentRequest(
+    @Request() req,
+    @Body() createPaymentRequestDto: CreatePaymentRequestDto,
+  ): Promise<PaymentRequestResponseDto> {
+    return this.paymentRequestService.createPaymentRequest(req.user, createPaymentRequestDto);
+  }
+
+  @Get('incoming')
+  @ApiOperation({ summary: 'Payment requests you have been asked to pay' })
+  @ApiResponse({ status: 200, description: 'Payment requests retrieved successfully', type: PaymentRequestHistoryResponseDto })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getIncomingRequests(
+    @Request() req,
+    @Query() query: PaymentRequestQueryDto,
+  ): Promise<PaymentRequestHistoryResponseDto> {
+    return this.paymentRequestService.getIncomingRequests(req.user.id, query);
+  }
+
+  @Get('outgoing')
+  @ApiOperation({ summary: 'Payment requests you have sent' })
+  @ApiResponse({ status: 200, description: 'Payment requests retrieved successfully', type: PaymentRequestHistoryResponseDto })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getOutgoingRequests(
+    @Request() req,
+    @Query() query: PaymentRequestQueryDto,
+  ): Promise<PaymentRequestHistoryResponseDto> {
+    return this.paymentRequestService.getOutgoingRequests(req.user.id, query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a payment request you sent or received' })
+  @ApiResponse({ status: 200, description: 'Payment request retrieved successfully', type: PaymentRequestResponseDto })
+  @ApiResponse({ status: 404, description: 'Payment request not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getPaymentRequest(@Param('id') id: string, @Request() req): Promise<PaymentRequestResponseDto> {
+    return this.paymentRequestService.getPaymentRequest(id, req.user.id);
+  }
+
+  @Post(':id/accept')
+  @Idempotent()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Pay a payment request' })
+  @ApiResponse({ status: 200, description: 'Payment request paid', type: PaymentRequestResponseDto })
+  @ApiResponse({ status: 400, description: 'Request is no longer pending, or the transfer failed' })
+  @ApiResponse({ status: 403, description: 'Only the payer can accept' })
+  @ApiResponse({ status: 404, description: 'Payment request or wallet not found' })
+  @ApiResponse({ status: 409, description: 'Payment is already in progress' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async acceptPaymentRequest(
+    @Param('id') id: string,
+    @Request() req,
+    @Body() acceptPaymentRequestDto: AcceptPaymentRequestDto,
+  ): Promise<PaymentRequestResponseDto> {
+    return this.paymentRequestService.acceptPaymentRequest(id, req.user, acceptPaymentRequestDto);
+  }
+
+  @Post(':id/decline')
+  @Idempotent()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Decline a payment request' })
+  @ApiResponse({ status: 200, description: 'Payment request declined', type: PaymentRequestResponseDto })
+  @ApiResponse({ status: 400, description: 'Request is no longer pending' })
+  @ApiResponse({ status: 403, description: 'Only the payer can decline' })
+  @ApiResponse({ status: 404, description: 'Payment request not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async declinePaymentRequest(
+    @Param('id') id: string,
+    @Request() req,
+    @Body() declinePaymentRequestDto: DeclinePaymentRequestDto,
+  ): Promise<PaymentRequestResponseDto> {
+    return this.paymentRequestService.declinePaymentRequest(id, req.user.id, declinePaymentRequestDto);
+  }
+
+  @Post(':id/cancel')
+  @Idempotent()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Cancel a payment request you sent' })
+  @ApiResponse({ status: 200, description: 'Payment request cancelled', type: PaymentRequestResponseDto })
+  @ApiResponse({ status: 400, description: 'Request is no longer pending' })
+  @ApiResponse({ status: 403, description: 'Only the requester can cancel' })
+  @ApiResponse({ status: 404, description: 'Payment request not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async cancelPaymentRequest(@Param('id') id: string, @Request() req): Promise<PaymentRequestResponseDto> {
+    return this.paymentRequestService.cancelPaymentRequest(id, req.user.id);
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { PaymentRequestController } from './payment-request.controller';
+import { PaymentRequestService } from './payment-request.service';
+import { PaymentRequestExpiryService } from './payment-request-expiry.service';
+import { PaymentRequest } from '../database/entities/payment-request.entity';
+import { Wallet } from '../database/entities/wallet.entity';
+import { User } from '../database/entities/user.entity';
+import { AuthModule } from '../auth/auth.module';
+import { TransferModule } from '../transfer/transfer.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([PaymentRequest, Wallet, User]),
+    AuthModule,
+    TransferModule,
+  ],
+  controllers: [PaymentRequestController],
+  providers: [PaymentRequestService, PaymentRequestExpiryService],
+  exports: [PaymentRequestService],
+})
+export class PaymentRequestModule {}
@@ -0,0 +1,166 @@
+import { BadRequestException, ConflictException, Logger } from '@nestjs/common';
+import { PaymentRequest, PaymentRequestStatus } from '../database/entities/payment-request.entity';
+import { TransactionStatus } from '../database/entities/transaction.entity';
+import { User } from '../database/entities/user.entity';
+import { PaymentRequestService } from './payment-request.service';
+
+describe('PaymentRequestService', () => {
+  const payer = Object.assign(new User(), { id: 'payer' });
+  const requester = Object.assign(new User(), { id: 'requester' });
+
+  let stored: PaymentRequest;
+  let transferService: { transferFunds: jest.Mock; getTransactionByIdempotencyKey: jest.Mock };
+  let service: PaymentRequestService;
+
+  /**
+   * One stored request; conditional updates only apply while every criterion still matches
+   */
+  const createRepository = () => ({
+    findOne: jest.fn(async () => Object.assign(new PaymentRequest(), stored)),
+    update: jest.fn(async (criteria: string | Record<string, unknown>, changes: Partial<PaymentRequest>) => {
+      const matches = typeof criteria === 'string'
+        ? criteria === stored.id
+        : Object.entries(criteria).every(([key, value]) => stored[key] === value);
+
+      if (matches) Object.assign(stored, changes);
+      return { affected: matches ? 1 : 0 };
+    }),
+  });
+
+  beforeAll(() => Logger.overrideLogger(false));
+
+  beforeEach(() => {
+    stored = Object.assign(new PaymentRequest(), {
+      id: 'request-1',
+      requesterId: 'requester',
+      requesterWalletId: 'requester-wallet',
+      payerId: 'payer',
+      amount: 40,
+      currency: 'USD',
+      status: PaymentRequestStatus.PENDING,
+      attemptCount: 0,
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    });
+    transferService = {
+      transferFunds: jest.fn(async () => ({ id: 'transaction-1' })),
+      getTransactionByIdempotencyKey: jest.fn(async () => null),
+    };
+
+    service = new PaymentRequestService(
+      createRepository() as any,
+      { findOne: jest.fn(async ({ where }) => ({ id: where.id, userId: where.userId, currency: 'USD' })) } as any,
+      {} as any,
+      transferService as any,
+      { get: jest.fn((_, fallback) => fallback) } as any,
+    );
+  });
+
+  describe('accept', () => {
+    it('pays the request from the payer to the requester and marks it PAID', async () => {
+      const accepted = await service.acceptPaymentRequest('request-1', payer, { walletId: 'payer-wallet' });
+
+      expect(transferService.transferFunds).toHaveBeenCalledWith('payer-wallet', payer, expect.objectContaining({
+        destinationWalletId: 'requester-wallet',
+        amount: 40,
+        idempotencyKey: 'payment-request:request-1:1',
+      }));
+      expect(accepted).toEqual(expect.objectContaining({ status: PaymentRequestStatus.PAID, transactionId: 'transaction-1' }));
+    });
+
+    it('leaves the request open after a failed payment and retries under a new key', async () => {
+      transferService.transferFunds.mockRejectedValueOnce(new BadRequestException('Insufficient balance'));
+
+      await expect(service.acceptPaymentRequest('request-1', payer, { walletId: 'payer-wallet' })).rejects.toThrow(
+        'Insufficient balance',
+      );
+      expect(stored).toEqual(expect.objectContaining({
+        status: PaymentRequestStatus.PENDING,
+        failureCode: 'insufficient_balance',
+        attemptCount: 1,
+      }));
+
+      await service.acceptPaymentRequest('request-1', payer, { walletId: 'payer-wallet' });
+      expect(transferService.transferFunds).toHaveBeenLastCalledWith('payer-wallet', payer, expect.objectContaining({
+        idempotencyKey: 'payment-request:request-1:2',
+      }));
+      expect(stored.status).toBe(PaymentRequestStatus.PAID);
+    });
+
+    it('refuses a second payment while the first holds the claim', async () => {
+      stored.status = PaymentRequestStatus.PROCESSING;
+
+      await expect(service.acceptPaymentRequest('request-1', payer, { walletId: 'payer-wallet' })).rejects.toThrow(
+        'Payment request is PROCESSING',
+      );
+      expect(transferService.transferFunds).not.toHaveBeenCalled();
+    });
+
+    it('loses the claim to a concurrent accept that got there first', async () => {
+      const repository = (service as any).paymentRequestRepository;
+      repository.findOne.mockImplementationOnce(async () => {
+        const snapshot = Object.assign(new PaymentRequest(), stored);
+        stored.attemptCount = 1;
+        return snapshot;
+      });
+
+      await expect(service.acceptPaymentRequest('request-1', payer, { walletId: 'payer-wallet' })).rejects.toThrow(
+        ConflictException,
+      );
+      expect(transferService.transferFunds).not.toHaveBeenCalled();
+    });
+
+    it('expires a request past its expiry instead of paying it', async () => {
+      stored.expiresAt = new Date(Date.now() - 1000);
+
+      await expect(service.acceptPaymentRequest('request-1', payer, { walletId: 'payer-wallet' })).rejects.toThrow(
+        'Payment request has expired',
+      );
+      expect(stored.status).toBe(PaymentRequestStatus.EXPIRED);
+    });
+
+    it('only lets the payer respond', async () => {
+      await expect(service.acceptPaymentRequest('request-1', requester, { walletId: 'requester-wallet' })).rejects.toThrow(
+        'Only the payer can respond to a payment request',
+      );
+    });
+  });
+
+  describe('decline', () => {
+    it('declines a pending request with the reason given', async () => {
+      const declined = await service.declinePaymentRequest('request-1', 'payer', { reason: 'Already paid in cash' });
+
+      expect(declined).toEqual(expect.objectContaining({
+        status: PaymentRequestStatus.DECLINED,
+        declineReason: 'Already paid in cash',
+      }));
+    });
+
+    it('cannot decline a request that has been paid', async () => {
+      stored.status = PaymentRequestStatus.PAID;
+
+      await expect(service.declinePaymentRequest('request-1', 'payer', {})).rejects.toThrow('Payment request is PAID');
+    });
+
+    it('cannot accept a request that has been declined', async () => {
+      await service.declinePaymentRequest('request-1', 'payer', {});
+
+      await expect(service.acceptPaymentRequest('request-1', payer, { walletId: 'payer-wallet' })).rejects.toThrow(
+        'Payment request is DECLINED',
+      );
+    });
+  });
+
+  it('settles a stale claim from the transfer it started', async () => {
+    Object.assign(stored, { status: PaymentRequestStatus.PROCESSING, attemptCount: 1, claimedAt: new Date(0) });
+    (service as any).paymentRequestRepository.find = jest.fn(async () => [Object.assign(new PaymentRequest(), stored)]);
+    transferService.getTransactionByIdempotencyKey.mockResolvedValueOnce({
+      id: 'transaction-1',
+      status: TransactionStatus.COMPLETED,
+      isInProgress: () => false,
+    });
+
+    await expect(service.reconcileStaleRequests(new Date())).resolves.toBe(1);
+    expect(transferService.getTransactionByIdempotencyKey).toHaveBeenCalledWith('payment-request:request-1:1');
+    expect(stored).toEqual(expect.objectContaining({ status: PaymentRequestStatus.PAID, transactionId: 'transaction-1' }));
+  });
+});
@@ -0,0 +1,417 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  ConflictException,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, LessThan } from 'typeorm';
+import { PaymentRequest, PaymentRequestStatus } from '../database/entities/payment-request.entity';
+import { Wallet } from '../database/entities/wallet.entity';
+import { User } from '../database/entities/user.entity';
+import { TransactionStatus } from '../database/entities/transaction.entity';
+import { Money } from '../common/money/money';
+import { TransferService } from '../transfer/transfer.service';
+import { describeTransferFailure } from '../transfer/transfer-failure';
+import {
+  CreatePaymentRequestDto,
+  AcceptPaymentRequestDto,
+  DeclinePaymentRequestDto,
+  PaymentRequestQueryDto,
+} from './dto/payment-request.dto';
+import { PaymentRequestResponseDto, PaymentRequestHistoryResponseDto } from './dto/payment-request-response.dto';
+
+@Injectable()
+export class PaymentRequestService {
+  private readonly logger = new Logger(PaymentRequestService.name);
+
+  constructor(
+    @InjectRepository(PaymentRequest)
+    private paymentRequestRepository: Repository<PaymentRequest>,
+    @InjectRepository(Wallet)
+    private walletRepository: Repository<Wallet>,
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+    private transferService: TransferService,
+    private configService: ConfigService,
+  ) {}
+
+  async createPaymentRequest(requester: User, createPaymentRequestDto: CreatePaymentRequestDto): Promise<PaymentRequestResponseDto> {
+    const { walletId, payerUserId, payerWalletId, amount, memo, expiresAt } = createPaymentRequestDto;
+
+    if (!!payerUserId === !!payerWalletId) {
+      throw new BadRequestException('Specify exactly one of payerUserId or payerWalletId');
+    }
+
+    const requesterWallet = await this.walletRepository.findOne({
+      where: { id: walletId, userId: requester.id, isActive: true },
+    });
+
+    if (!requesterWallet) {
+      throw new NotFoundException('Wallet not found');
+    }
+
+    let payerId = payerUserId;
+    if (payerWalletId) {
+      const payerWallet = await this.walletRepository.findOne({
+        where: { id: payerWalletId, isActive: true },
+      });
+
+      if (!payerWallet) {
+        throw new NotFoundException('Payer wallet not found or inactive');
+      }
+
+      this.assertSameCurrency(requesterWallet, payerWallet);
+      payerId = payerWallet.userId;
+    }
+
+    if (payerId === requester.id) {
+      throw new BadRequestException('Cannot request money from yourself');
+    }
+
+    const payer = await this.userRepository.findOne({ where: { id: payerId, isActive: true } });
+    if (!payer) {
+      throw new NotFoundException('Payer not found');
+    }
+
+    const paymentRequest = await this.paymentRequestRepository.save(
+      this.paymentRequestRepository.create({
+        requesterId: requester.id,
+        requesterWalletId: walletId,
+        payerId,
+        payerWalletId,
+        amount: Money.fromDecimal(amount).toString(),
+        currency: requesterWallet.currency,
+        memo,
+        expiresAt: this.parseExpiresAt(expiresAt),
+      }),
+    );
+
+    this.logger.log(
+      `Payment request ${paymentRequest.id} created: requester=${requester.id}, payer=${payerId}, ` +
+      `amount=${amount} ${paymentRequest.currency}`
+    );
+
+    return this.mapToPaymentRequestResponseDto(paymentRequest);
+  }
+
+  async getIncomingRequests(userId: string, query: PaymentRequestQueryDto): Promise<PaymentRequestHistoryResponseDto> {
+    return this.getHistory({ payerId: userId }, query);
+  }
+
+  async getOutgoingRequests(userId: string, query: PaymentRequestQueryDto): Promise<PaymentRequestHistoryResponseDto> {
+    return this.getHistory({ requesterId: userId }, query);
+  }
+
+  async getPaymentRequest(id: string, userId: string): Promise<PaymentRequestResponseDto> {
+    const paymentRequest = await this.findPaymentRequest(id);
+
+    if (paymentRequest.requesterId !== userId && paymentRequest.payerId !== userId) {
+      throw new NotFoundException('Payment request not found');
+    }
+
+    return this.mapToPaymentRequestResponseDto(paymentRequest);
+  }
+
+  /**
+   * Pay a request through the regular transfer path. A failed payment (e.g. not
+   * enough funds) leaves the request pending, so the payer can try again.
+   */
+  async acceptPaymentRequest(
+    id: string,
+    payer: User,
+    acceptPaymentRequestDto: AcceptPaymentRequestDto,
+  ): Promise<PaymentRequestResponseDto> {
+    const paymentRequest = await this.findPayerRequest(id, payer.id);
+    await this.assertPending(paymentRequest);
+
+    const sourceWalletId = paymentRequest.payerWalletId || acceptPaymentRequestDto.walletId;
+    if (!sourceWalletId) {
+      throw new BadRequestException('walletId is required to pay this request');
+    }
+    if (paymentRequest.payerWalletId && acceptPaymentRequestDto.walletId && acceptPaymentRequestDto.walletId !== paymentRequest.payerWalletId) {
+      throw new BadRequestException('This request must be paid from the wallet it was sent to');
+    }
+
+    const sourceWallet = await this.walletRepository.findOne({
+      where: { id: sourceWalletId, userId: payer.id, isActive: true },
+    });
+
+    if (!sourceWallet) {
+      throw new NotFoundException('Wallet not found');
+    }
+
+    if (sourceWallet.currency !== paymentRequest.currency) {
+      throw new BadRequestException(`This request must be paid from a ${paymentRequest.currency} wallet`);
+    }
+
+    // Claim the request so it cannot be paid twice or cancelled mid-payment
+    const attempt = paymentRequest.attemptCount + 1;
+    const claimed = await this.paymentRequestRepository.update(
+      { id, status: PaymentRequestStatus.PENDING, attemptCount: paymentRequest.attemptCount },
+      {
+        status: PaymentRequestStatus.PROCESSING,
+        payerWalletId: sourceWalletId,
+        attemptCount: attempt,
+        claimedAt: new Date(),
+      },
+    );
+
+    if (!claimed.affected) {
+      throw new ConflictException('Payment request is already being processed');
+    }
+
+    const idempotencyKey = this.getIdempotencyKey(id, attempt);
+
+    try {
+      const result = await this.transferService.transferFunds(sourceWalletId, payer, {
+        destinationWalletId: paymentRequest.requesterWalletId,
+        amount: paymentRequest.amount,
+        description: paymentRequest.memo || 'Payment request',
+        idempotencyKey,
+      });
+
+      await this.paymentRequestRepository.update(id, {
+        status: PaymentRequestStatus.PAID,
+        transactionId: result.id,
+        failureCode: null,
+        failureReason: null,
+        claimedAt: null,
+        respondedAt: new Date(),
+      });
+
+      this.logger.log(`Payment request ${id} paid as transaction ${result.id}`);
+
+    } catch (error) {
+      if (error instanceof ConflictException) {
+        // Left to the reconciler, which settles the request from its transfer
+        throw error;
+      }
+
+      const failure = describeTransferFailure(error);
+      const transaction = await this.transferService.getTransactionByIdempotencyKey(idempotencyKey);
+
+      await this.paymentRequestRepository.update(id, {
+        status: PaymentRequestStatus.PENDING,
+        payerWalletId: paymentRequest.payerWalletId,
+        transactionId: transaction?.id || null,
+        failureCode: failure.code,
+        failureReason: failure.reason,
+        claimedAt: null,
+      });
+
+      this.logger.warn(`Payment of request ${id} failed (${failure.code}): ${failure.reason}`);
+      throw error;
+    }
+
+    return this.getPaymentRequest(id, payer.id);
+  }
+
+  async declinePaymentRequest(
+    id: string,
+    payerId: string,
+    declinePaymentRequestDto: DeclinePaymentRequestDto,
+  ): Promise<PaymentRequestResponseDto> {
+    const paymentRequest = await this.findPayerRequest(id, payerId);
+    await this.assertPending(paymentRequest);
+
+    await this.applyWhilePending(id, {
+      status: PaymentRequestStatus.DECLINED,
+      declineReason: declinePaymentRequestDto.reason,
+      respondedAt: new Date(),
+    });
+    this.logger.log(`Payment request ${id} declined by payer`);
+
+    return this.getPaymentRequest(id, payerId);
+  }
+
+  async cancelPaymentRequest(id: string, requesterId: string): Promise<PaymentRequestResponseDto> {
+    const paymentRequest = await this.findPaymentRequest(id);
+
+    if (paymentRequest.requesterId !== requesterId) {
+      if (paymentRequest.payerId === requesterId) {
+        throw new ForbiddenException('Only the requester can cancel a payment request; decline it instead');
+      }
+      throw new NotFoundException('Payment request not found');
+    }
+
+    await this.assertPending(paymentRequest);
+
+    await this.applyWhilePending(id, { status: PaymentRequestStatus.CANCELLED });
+    this.logger.log(`Payment request ${id} cancelled by requester`);
+
+    return this.getPaymentRequest(id, requesterId);
+  }
+
+  /**
+   * Mark pending requests past their expiry as expired
+   */
+  async expireRequests(): Promise<number> {
+    const result = await this.paymentRequestRepository.update(
+      { status: PaymentRequestStatus.PENDING, expiresAt: LessThan(new Date()) },
+      { status: PaymentRequestStatus.EXPIRED },
+    );
+
+    return result.affected || 0;
+  }
+
+  /**
+   * Settle requests whose accept call died mid-payment from the state of their transfer
+   */
+  async reconcileStaleRequests(staleBefore: Date): Promise<number> {
+    const stale = await this.paymentRequestRepository.find({
+      where: { status: PaymentRequestStatus.PROCESSING, claimedAt: LessThan(staleBefore) },
+      take: 50,
+    });
+
+    let reconciled = 0;
+    for (const paymentRequest of stale) {
+      const transaction = await this.transferService.getTransactionByIdempotencyKey(
+        this.getIdempotencyKey(paymentRequest.id, paymentRequest.attemptCount),
+      );
+
+      if (transaction?.isInProgress()) {
+        continue;
+      }
+
+      const changes: Partial<PaymentRequest> = transaction?.status === TransactionStatus.COMPLETED
+        ? { status: PaymentRequestStatus.PAID, transactionId: transaction.id, respondedAt: new Date(), claimedAt: null }
+        : { status: PaymentRequestStatus.PENDING, transactionId: transaction?.id || null, claimedAt: null };
+
+      const result = await this.paymentRequestRepository.update(
+        { id: paymentRequest.id, status: PaymentRequestStatus.PROCESSING, attemptCount: paymentRequest.attemptCount },
+        changes,
+      );
+
+      if (result.affected) {
+        reconciled++;
+        this.logger.log(`Reconciled payment request ${paymentRequest.id} as ${changes.status}`);
+      }
+    }
+
+    return reconciled;
+  }
+
+  private async getHistory(
+    where: Partial<Pick<PaymentRequest, 'payerId' | 'requesterId'>>,
+    query: PaymentRequestQueryDto,
+  ): Promise<PaymentRequestHistoryResponseDto> {
+    const { page = 1, limit = 10, status } = query;
+
+    const [requests, total] = await this.paymentRequestRepository.findAndCount({
+      where: status ? { ...where, status } : where,
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return {
+      requests: requests.map(paymentRequest => this.mapToPaymentRequestResponseDto(paymentRequest)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  private async findPaymentRequest(id: string): Promise<PaymentRequest> {
+    const paymentRequest = await this.paymentRequestRepository.findOne({ where: { id } });
+
+    if (!paymentRequest) {
+      throw new NotFoundException('Payment request not found');
+    }
+
+    return paymentRequest;
+  }
+
+  private async findPayerRequest(id: string, payerId: string): Promise<PaymentRequest> {
+    const paymentRequest = await this.findPaymentRequest(id);
+
+    if (paymentRequest.payerId !== payerId) {
+      if (paymentRequest.requesterId === payerId) {
+        throw new ForbiddenException('Only the payer can respond to a payment request');
+      }
+      throw new NotFoundException('Payment request not found');
+    }
+
+    return paymentRequest;
+  }
+
+  /**
+   * Reject responses to requests that are no longer open, expiring them on the way if due
+   */
+  private async assertPending(paymentRequest: PaymentRequest): Promise<void> {
+    if (paymentRequest.isExpired()) {
+      await this.paymentRequestRepository.update(
+        { id: paymentRequest.id, status: PaymentRequestStatus.PENDING },
+        { status: PaymentRequestStatus.EXPIRED },
+      );
+      throw new BadRequestException('Payment request has expired');
+    }
+
+    if (paymentRequest.status !== PaymentRequestStatus.PENDING) {
+      throw new BadRequestException(`Payment request is ${paymentRequest.status}`);
+    }
+  }
+
+  private async applyWhilePending(id: string, changes: Partial<PaymentRequest>): Promise<void> {
+    const result = await this.paymentRequestRepository.update(
+      { id, status: PaymentRequestStatus.PENDING },
+      changes,
+    );
+
+    if (!result.affected) {
+      throw new ConflictException('Payment request is already being processed');
+    }
+  }
+
+  private assertSameCurrency(requesterWallet: Wallet, payerWallet: Wallet): void {
+    if (requesterWallet.currency !== payerWallet.currency) {
+      throw new BadRequestException('Payment requests must be between wallets of the same currency');
+    }
+  }
+
+  private parseExpiresAt(expiresAt?: string): Date {
+    if (!expiresAt) {
+      const ttlHours = Number(this.configService.get('PAYMENT_REQUEST_TTL_HOURS', 168));
+      return new Date(Date.now() + ttlHours * 60 * 60 * 1000);
+    }
+
+    const expiry = new Date(expiresAt);
+    if (expiry.getTime() <= Date.now()) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+
+    return expiry;
+  }
+
+  private getIdempotencyKey(id: string, attempt: number): string {
+    return `payment-request:${id}:${attempt}`;
+  }
+
+  private mapToPaymentRequestResponseDto(paymentRequest: PaymentRequest): PaymentRequestResponseDto {
+    return {
+      id: paymentRequest.id,
+      requesterId: paymentRequest.requesterId,
+      requesterWalletId: paymentRequest.requesterWalletId,
+      payerId: paymentRequest.payerId,
+      payerWalletId: paymentRequest.payerWalletId || null,
+      amount: paymentRequest.amount,
+      currency: paymentRequest.currency,
+      memo: paymentRequest.memo || null,
+      status: paymentRequest.isExpired() ? PaymentRequestStatus.EXPIRED : paymentRequest.status,
+      expiresAt: paymentRequest.expiresAt,
+      transactionId: paymentRequest.transactionId || null,
+      failureCode: paymentRequest.failureCode || null,
+      failureReason: paymentRequest.failureReason || null,
+      declineReason: paymentRequest.declineReason || null,
+      respondedAt: paymentRequest.respondedAt || null,
+      createdAt: paymentRequest.createdAt,
+    };
+  }
+}
@@ -0,0 +1,52 @@
+import { Controller, Post, Get, Body, Param, UseGuards, Request, Headers } from '@nestjs/common';
+import { ApiBearerAuth, ApiTags, ApiOperation, ApiResponse, ApiHeader } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { DepositService } from './deposit.service';
+import { CreateDepositDto } from './dto/create-deposit.dto';
+import { DepositResponseDto } from './dto/deposit-response.dto';
+
+@ApiTags('Deposits')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('wallets/:walletId/deposits')
+export class DepositController {
+  constructor(private readonly depositService: DepositService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create a pending deposit, funded once the payment provider confirms it' })
+  @ApiHeader({
+    name: 'Idempotency-Key',
+    description: 'Optional idempotency key to prevent duplicate deposits',
+    required: false,
+  })
+  @ApiResponse({ status: 201, description: 'Deposit created and awaiting payment', type: DepositResponseDto })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  @ApiResponse({ status: 409, description: 'Deposit already being created (idempotency conflict)' })
+  @ApiResponse({ status: 503, description: 'Payment provider unavailable' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async createDeposit(
+    @Param('walletId') walletId: string,
+    @Request() req,
+    @Body() createDepositDto: CreateDepositDto,
+    @Headers('idempotency-key') idempotencyKeyHeader?: string,
+  ): Promise<DepositResponseDto> {
+    if (idempotencyKeyHeader && !createDepositDto.idempotencyKey) {
+      createDepositDto.idempotencyKey = idempotencyKeyHeader;
+    }
+
+    return this.depositService.createDeposit(walletId, req.user, createDepositDto);
+  }
+
+  @Get(':depositId')
+  @ApiOperation({ summary: 'Get the status of a deposit' })
+  @ApiResponse({ status: 200, description: 'Deposit retrieved successfully', type: DepositResponseDto })
+  @ApiResponse({ status: 404, description: 'Wallet or deposit not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getDeposit(
+    @Param('walletId') walletId: string,
+    @Param('depositId') depositId: string,
+    @Request() req,
+  ): Promise<DepositResponseDto> {
+    return this.depositService.getDeposit(walletId, depositId, req.user.id);
+  }
+}
@@ -0,0 +1,326 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ServiceUnavailableException,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, DataSource, EntityManager } from 'typeorm';
+import { Wallet } from '../database/entities/wallet.entity';
+import { Transaction, TransactionType, TransactionStatus, TransferState } from '../database/entities/transaction.entity';
+import { SystemAccount } from '../database/entities/ledger-posting.entity';
+import { User } from '../database/entities/user.entity';
+import { CacheService } from '../cache/cache.service';
+import { IdempotencyService, IdempotencyRequest } from '../common/services/idempotency.service';
+import { LedgerService } from '../common/services/ledger.service';
+import { OutboxService } from '../common/services/outbox.service';
+import { DomainEventType } from '../common/events/domain-event';
+import { Money } from '../common/money/money';
+import { PAYMENT_PROVIDER, PaymentProvider, PaymentWebhookEvent } from './providers/payment-provider.interface';
+import { CreateDepositDto } from './dto/create-deposit.dto';
+import { DepositResponseDto } from './dto/deposit-response.dto';
+
+@Injectable()
+export class DepositService {
+  private readonly logger = new Logger(DepositService.name);
+
+  constructor(
+    @InjectRepository(Wallet)
+    private walletRepository: Repository<Wallet>,
+    @InjectRepository(Transaction)
+    private transactionRepository: Repository<Transaction>,
+    @Inject(PAYMENT_PROVIDER)
+    private paymentProvider: PaymentProvider,
+    private cacheService: CacheService,
+    private idempotencyService: IdempotencyService,
+    private ledgerService: LedgerService,
+    private outboxService: OutboxService,
+    private configService: ConfigService,
+    private dataSource: DataSource,
+  ) {}
+
+  /**
+   * Create a pending deposit and its payment intent. Nothing is credited
+   * until the provider confirms the payment through its webhook.
+   */
+  async createDeposit(walletId: string, user: User, createDepositDto: CreateDepositDto): Promise<DepositResponseDto> {
+    const { amount, description, paymentMethodToken } = createDepositDto;
+    const endpoint = `/wallets/${walletId}/deposits`;
+
+    const idempotencyKey = createDepositDto.idempotencyKey ||
+      this.idempotencyService.generateIdempotencyKey({
+        walletId,
+        amount,
+        userId: user.id,
+        timestamp: Date.now(),
+      });
+
+    const idempotencyRequest: IdempotencyRequest = {
+      key: idempotencyKey,
+      requestHash: this.idempotencyService.createRequestHash(
+        'POST',
+        endpoint,
+        { destinationWalletId: walletId, amount, description },
+        user.id
+      ),
+      endpoint,
+      method: 'POST',
+      userId: user.id,
+      payload: createDepositDto,
+    };
+
+    const idempotencyResult = await this.idempotencyService.checkIdempotency<DepositResponseDto>(
+      idempotencyKey,
+      idempotencyRequest
+    );
+
+    if (!idempotencyResult.isNew) {
+      if (idempotencyResult.existingResult) {
+        this.logger.log(`Returning cached deposit for idempotency key: ${idempotencyKey}`);
+        return idempotencyResult.existingResult;
+      }
+
+      if (idempotencyResult.transaction) {
+        return this.handleExistingDeposit(idempotencyResult.transaction);
+      }
+    }
+
+    const wallet = await this.walletRepository.findOne({
+      where: { id: walletId, userId: user.id, isActive: true },
+    });
+
+    if (!wallet) {
+      throw new NotFoundException('Wallet not found');
+    }
+
+    if (!wallet.canReceive()) {
+      throw new BadRequestException('Wallet is frozen and not accepting funds');
+    }
+
+    const deposit = await this.transactionRepository.save(
+      this.transactionRepository.create({
+        amount: Money.fromDecimal(amount).toString(),
+        type: TransactionType.DEPOSIT,
+        status: TransactionStatus.PENDING,
+        transferState: TransferState.AWAITING_PAYMENT,
+        description: description || 'Deposit',
+        destinationWalletId: walletId,
+        idempotencyKey,
+        metadata: {
+          destinationUserId: user.id,
+          userEmail: user.email,
+          initiatedAt: new Date().toISOString(),
+          payment: { provider: this.paymentProvider.name },
+        },
+      }),
+    );
+
+    try {
+      const intent = await this.paymentProvider.createPaymentIntent({
+        depositId: deposit.id,
+        amount: deposit.amount,
+        currency: wallet.currency,
+        paymentMethodToken,
+        webhookUrl: this.getWebhookUrl(),
+      });
+
+      deposit.externalReferenceId = intent.providerReference;
+      deposit.metadata = {
+        ...deposit.metadata,
+        payment: { ...deposit.metadata.payment, checkoutUrl: intent.checkoutUrl },
+      };
+      await this.transactionRepository.save(deposit);
+
+    } catch (error) {
+      this.logger.error(`Payment intent for deposit ${deposit.id} failed:`, error);
+
+      deposit.status = TransactionStatus.FAILED;
+      deposit.transferState = TransferState.FAILED;
+      deposit.failedAt = new Date();
+      deposit.errorDetails = { message: error.message, errorCode: 'payment_intent_failed' };
+      await this.transactionRepository.save(deposit);
+
+      await this.idempotencyService.storeFailure(idempotencyKey, error);
+      throw new ServiceUnavailableException('Payment provider unavailable');
+    }
+
+    this.logger.log(
+      `Deposit created: wallet=${walletId}, amount=${amount}, txId=${deposit.id}, ` +
+      `providerReference=${deposit.externalReferenceId}`
+    );
+
+    const result = this.mapToDepositResponseDto(deposit);
+    await this.idempotencyService.storeResult(idempotencyKey, result);
+
+    return result;
+  }
+
+  /**
+   * Get a deposit of one of the user's wallets
+   */
+  async getDeposit(walletId: string, depositId: string, userId: string): Promise<DepositResponseDto> {
+    const wallet = await this.walletRepository.findOne({
+      where: { id: walletId, userId },
+    });
+
+    if (!wallet) {
+      throw new NotFoundException('Wallet not found');
+    }
+
+    const deposit = await this.transactionRepository.findOne({
+      where: { id: depositId, destinationWalletId: walletId, type: TransactionType.DEPOSIT },
+    });
+
+    if (!deposit) {
+      throw new NotFoundException('Deposit not found');
+    }
+
+    return this.mapToDepositResponseDto(deposit);
+  }
+
+  /**
+   * Apply a provider webhook: credit a confirmed deposit or fail it
+   */
+  async handleWebhook(
+    providerName: string,
+    rawBody: Buffer,
+    headers: Record<string, string | string[]>,
+  ): Promise<{ received: boolean }> {
+    if (providerName !== this.paymentProvider.name) {
+      throw new NotFoundException(`Unknown payment provider ${providerName}`);
+    }
+
+    if (!rawBody) {
+      throw new BadRequestException('Missing payment webhook body');
+    }
+
+    const event = this.paymentProvider.parseWebhook(rawBody, headers);
+
+    if (event.status !== 'SUCCEEDED' && event.status !== 'FAILED') {
+      throw new BadRequestException(`Unknown payment status ${event.status}`);
+    }
+
+    const deposit = await this.dataSource.transaction(async manager => {
+      const pending = await manager.findOne(Transaction, {
+        where: { externalReferenceId: event.providerReference, type: TransactionType.DEPOSIT },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      if (!pending) {
+        // The intent may not be recorded yet; the provider retries on non-2xx
+        throw new NotFoundException('Deposit not found');
+      }
+
+      if (pending.transferState !== TransferState.AWAITING_PAYMENT) {
+        this.logger.debug(`Deposit ${pending.id} already in state ${pending.transferState}, ignoring webhook`);
+        return null;
+      }
+
+      if (event.status === 'SUCCEEDED') {
+        await this.confirmDeposit(manager, pending);
+      } else {
+        this.failDeposit(pending, event);
+      }
+
+      const saved = await manager.save(pending);
+      await this.outboxService.recordTransactionEvent(
+        manager,
+        saved.status === TransactionStatus.COMPLETED ? DomainEventType.FUNDS_DEPOSITED : DomainEventType.DEPOSIT_FAILED,
+        saved,
+        saved.status === TransactionStatus.COMPLETED ? {} : { error: saved.errorDetails?.message },
+      );
+
+      return saved;
+    });
+
+    if (deposit?.status === TransactionStatus.COMPLETED) {
+      await this.cacheService.invalidateWalletBalance(deposit.destinationWalletId);
+      this.logger.log(`Deposit ${deposit.id} confirmed: credited ${deposit.amount} to wallet ${deposit.destinationWalletId}`);
+    } else if (deposit) {
+      this.logger.warn(`Deposit ${deposit.id} failed: ${event.reason}`);
+    }
+
+    return { received: true };
+  }
+
+  private async confirmDeposit(manager: EntityManager, deposit: Transaction): Promise<void> {
+    const wallet = await manager.findOne(Wallet, { where: { id: deposit.destinationWalletId } });
+
+    // Same reference as instant add-funds, so a deposit is never credited twice
+    await this.ledgerService.creditWallet(manager, {
+      reference: `${deposit.id}:deposit`,
+      transactionId: deposit.id,
+      description: deposit.description,
+      walletId: deposit.destinationWalletId,
+      contraAccount: SystemAccount.EXTERNAL_DEPOSITS,
+      amount: deposit.amount,
+      currency: wallet.currency,
+    });
+
+    deposit.status = TransactionStatus.COMPLETED;
+    deposit.transferState = TransferState.COMPLETED;
+    deposit.processedAt = new Date();
+    deposit.completedAt = new Date();
+  }
+
+  private failDeposit(deposit: Transaction, event: PaymentWebhookEvent): void {
+    deposit.status = TransactionStatus.FAILED;
+    deposit.transferState = TransferState.FAILED;
+    deposit.processedAt = new Date();
+    deposit.failedAt = new Date();
+    deposit.errorDetails = {
+      message: event.reason || 'Payment failed',
+      errorCode: 'payment_failed',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  private handleExistingDeposit(deposit: Transaction): DepositResponseDto {
+    if (deposit.isFailed()) {
+      throw new BadRequestException({
+        message: 'Deposit has failed',
+        transactionId: deposit.id,
+        status: deposit.status,
+        errorDetails: deposit.errorDetails,
+      });
+    }
+
+    if (deposit.isInProgress() && !deposit.externalReferenceId) {
+      throw new ConflictException({
+        message: 'Deposit is already being created',
+        transactionId: deposit.id,
+        status: deposit.status,
+      });
+    }
+
+    return this.mapToDepositResponseDto(deposit);
+  }
+
+  private getWebhookUrl(): string {
+    const baseUrl = this.configService.get(
+      'PAYMENT_WEBHOOK_BASE_URL',
+      `http://localhost:${this.configService.get('PORT', 3000)}`,
+    );
+
+    return `${baseUrl}/webhooks/payments/${this.paymentProvider.name}`;
+  }
+
+  private mapToDepositResponseDto(deposit: Transaction): DepositResponseDto {
+    return {
+      id: deposit.id,
+      amount: deposit.amount,
+      walletId: deposit.destinationWalletId,
+      status: deposit.status,
+      transferState: deposit.transferState,
+      provider: deposit.metadata?.payment?.provider,
+      providerReference: deposit.externalReferenceId || null,
+      checkoutUrl: deposit.metadata?.payment?.checkoutUrl || null,
+      createdAt: deposit.createdAt,
+      completedAt: deposit.completedAt || null,
+    };
+  }
+}
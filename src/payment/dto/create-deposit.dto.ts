@@ -0,0 +1,36 @@
+import { IsOptional, IsString, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsMoneyAmount } from '../../common/money/is-money-amount.decorator';
+
+export class CreateDepositDto {
+  @ApiProperty({ example: 100.50 })
+  @IsMoneyAmount()
+  @Type(() => Number)
+  amount: number;
+
+  @ApiProperty({
+    example: 'pm_card_visa',
+    description: 'Provider payment method token. The fake provider declines "fake_declined".',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  paymentMethodToken?: string;
+
+  @ApiProperty({ example: 'Top-up from card', required: false })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({
+    example: 'unique-idempotency-key-12345',
+    description: 'Unique key to prevent duplicate deposits. If not provided, one will be generated.',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  idempotencyKey?: string;
+}
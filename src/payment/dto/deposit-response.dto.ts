@@ -0,0 +1,34 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { TransactionStatus, TransferState } from '../../database/entities/transaction.entity';
+
+export class DepositResponseDto {
+  @ApiProperty({ example: 'uuid-string' })
+  id: string;
+
+  @ApiProperty({ example: '100.50' })
+  amount: string;
+
+  @ApiProperty({ example: 'uuid-of-wallet' })
+  walletId: string;
+
+  @ApiProperty({ example: 'PENDING', enum: TransactionStatus })
+  status: TransactionStatus;
+
+  @ApiProperty({ example: 'AWAITING_PAYMENT', enum: TransferState })
+  transferState: TransferState;
+
+  @ApiProperty({ example: 'fake' })
+  provider: string;
+
+  @ApiProperty({ example: 'fake_pi_3f2a9c1d7e4b6a05', nullable: true })
+  providerReference: string | null;
+
+  @ApiProperty({ example: 'https://checkout.example.com/pay/abc', nullable: true, required: false })
+  checkoutUrl?: string | null;
+
+  @ApiProperty({ example: '2023-12-01T10:00:00Z' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2023-12-01T10:00:05Z', nullable: true })
+  completedAt: Date | null;
+}
@@ -0,0 +1,24 @@
+import { Controller, Post, Param, Req, HttpCode, HttpStatus, RawBodyRequest } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { Request } from 'express';
+import { DepositService } from './deposit.service';
+
+// Called by payment providers, authenticated by the body signature rather than a JWT
+@ApiTags('Webhooks')
+@Controller('webhooks/payments')
+export class PaymentWebhookController {
+  constructor(private readonly depositService: DepositService) {}
+
+  @Post(':provider')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Receive a signed payment confirmation or failure from a payment provider' })
+  @ApiResponse({ status: 200, description: 'Webhook applied' })
+  @ApiResponse({ status: 401, description: 'Invalid signature' })
+  @ApiResponse({ status: 404, description: 'Unknown provider or deposit' })
+  async handleWebhook(
+    @Param('provider') provider: string,
+    @Req() req: RawBodyRequest<Request>,
+  ): Promise<{ received: boolean }> {
+    return this.depositService.handleWebhook(provider, req.rawBody, req.headers);
+  }
+}
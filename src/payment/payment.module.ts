@@ -0,0 +1,33 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { DepositController } from './deposit.controller';
+import { PaymentWebhookController } from './payment-webhook.controller';
+import { DepositService } from './deposit.service';
+import { createPaymentProvider } from './providers/payment-provider.factory';
+import { PAYMENT_PROVIDER } from './providers/payment-provider.interface';
+import { Wallet } from '../database/entities/wallet.entity';
+import { Transaction } from '../database/entities/transaction.entity';
+import { CacheModule } from '../cache/cache.module';
+import { AuthModule } from '../auth/auth.module';
+import { CommonModule } from '../common/common.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Wallet, Transaction]),
+    CacheModule,
+    AuthModule,
+    CommonModule,
+  ],
+  controllers: [DepositController, PaymentWebhookController],
+  providers: [
+    DepositService,
+    {
+      provide: PAYMENT_PROVIDER,
+      inject: [ConfigService],
+      useFactory: createPaymentProvider,
+    },
+  ],
+  exports: [DepositService],
+})
+export class PaymentModule {}
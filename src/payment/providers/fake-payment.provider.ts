@@ -0,0 +1,119 @@
+import { Injectable, Logger, OnModuleDestroy, UnauthorizedException, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import * as crypto from 'crypto';
+import { signPayload, verifySignature } from '../../common/utils/hmac.util';
+import {
+  PaymentProvider,
+  PaymentIntentRequest,
+  PaymentIntent,
+  PaymentWebhookEvent,
+} from './payment-provider.interface';
+
+export const PAYMENT_SIGNATURE_HEADER = 'x-payment-signature';
+
+// Payment method token the fake provider declines; any other token succeeds
+export const FAKE_DECLINED_TOKEN = 'fake_declined';
+
+/**
+ * Offline stand-in for a payment provider. Accepts every intent, then confirms
+ * or declines it after a delay by posting a signed webhook.
+ */
+@Injectable()
+export class FakePaymentProvider implements PaymentProvider, OnModuleDestroy {
+  readonly name = 'fake';
+
+  private readonly logger = new Logger(FakePaymentProvider.name);
+  private readonly WEBHOOK_ATTEMPTS = 3;
+  private readonly intents = new Map<string, PaymentIntent>();
+  private readonly timers = new Set<NodeJS.Timeout>();
+  private readonly secret: string;
+
+  constructor(private configService: ConfigService) {
+    // Deposit responses expose the provider reference, so a known secret would let anyone forge a confirmation
+    this.secret = this.configService.get('PAYMENT_WEBHOOK_SECRET');
+    if (!this.secret) {
+      throw new Error('PAYMENT_WEBHOOK_SECRET must be set to use the fake payment provider');
+    }
+  }
+
+  onModuleDestroy() {
+    for (const timer of this.timers) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  async createPaymentIntent(request: PaymentIntentRequest): Promise<PaymentIntent> {
+    // Creating the same intent twice returns the original
+    const existingIntent = this.intents.get(request.depositId);
+    if (existingIntent) {
+      return existingIntent;
+    }
+
+    const intent: PaymentIntent = {
+      providerReference: `fake_pi_${crypto.randomBytes(8).toString('hex')}`,
+    };
+    this.intents.set(request.depositId, intent);
+
+    const declined = request.paymentMethodToken === FAKE_DECLINED_TOKEN;
+    const event: PaymentWebhookEvent = {
+      providerReference: intent.providerReference,
+      status: declined ? 'FAILED' : 'SUCCEEDED',
+      reason: declined ? 'Card declined' : undefined,
+    };
+
+    const delayMs = Number(this.configService.get('FAKE_PAYMENT_DELAY_MS', 2000));
+    this.schedule(() => this.sendWebhook(request.webhookUrl, event, 1), delayMs);
+
+    this.logger.log(`Created fake payment intent ${intent.providerReference} for deposit ${request.depositId}`);
+    return intent;
+  }
+
+  parseWebhook(rawBody: Buffer, headers: Record<string, string | string[]>): PaymentWebhookEvent {
+    const signature = headers[PAYMENT_SIGNATURE_HEADER];
+
+    if (typeof signature !== 'string' || !verifySignature(this.secret, rawBody, signature)) {
+      throw new UnauthorizedException('Invalid payment webhook signature');
+    }
+
+    try {
+      return JSON.parse(rawBody.toString('utf8'));
+    } catch {
+      throw new BadRequestException('Malformed payment webhook body');
+    }
+  }
+
+  private async sendWebhook(webhookUrl: string, event: PaymentWebhookEvent, attempt: number): Promise<void> {
+    const body = JSON.stringify(event);
+
+    try {
+      await axios.post(webhookUrl, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          [PAYMENT_SIGNATURE_HEADER]: signPayload(this.secret, body),
+        },
+        timeout: 5000,
+      });
+
+      this.logger.log(`Delivered ${event.status} webhook for payment ${event.providerReference}`);
+    } catch (error) {
+      if (attempt >= this.WEBHOOK_ATTEMPTS) {
+        this.logger.error(`Giving up on webhook for payment ${event.providerReference}: ${error.message}`);
+        return;
+      }
+
+      this.logger.warn(`Webhook for payment ${event.providerReference} failed, retrying: ${error.message}`);
+      this.schedule(() => this.sendWebhook(webhookUrl, event, attempt + 1), 1000 * 2 ** attempt);
+    }
+  }
+
+  private schedule(work: () => Promise<void>, delayMs: number): void {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      work().catch(error => this.logger.error('Fake payment webhook failed:', error));
+    }, delayMs);
+
+    this.timers.add(timer);
+  }
+}
@@ -0,0 +1,26 @@
+import { ConfigService } from '@nestjs/config';
+import { PaymentProvider } from './payment-provider.interface';
+import { FakePaymentProvider } from './fake-payment.provider';
+
+// Environments in which the fake provider is bound unless FAKE_PAYMENT_PROVIDER_ENABLED says otherwise
+const FAKE_PROVIDER_ENVIRONMENTS = ['development', 'test'];
+
+/**
+ * Pick the payment provider for deposits. The fake provider confirms almost every
+ * intent, so anyone could mint balance with it; outside development and test it
+ * must be enabled explicitly, and without it the app refuses to start.
+ */
+export function createPaymentProvider(configService: ConfigService): PaymentProvider {
+  const enabledByDefault = FAKE_PROVIDER_ENVIRONMENTS.includes(configService.get('NODE_ENV'));
+  const fakeEnabled = configService.get('FAKE_PAYMENT_PROVIDER_ENABLED', String(enabledByDefault)) === 'true';
+
+  if (fakeEnabled) {
+    return new FakePaymentProvider(configService);
+  }
+
+  // Bind a real payment integration here
+  throw new Error(
+    'No payment provider configured: the fake provider is disabled outside development and test. ' +
+    'Configure a real provider, or set FAKE_PAYMENT_PROVIDER_ENABLED=true for a non-production deployment.',
+  );
+}
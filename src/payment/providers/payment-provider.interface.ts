@@ -0,0 +1,40 @@
+export const PAYMENT_PROVIDER = 'PAYMENT_PROVIDER';
+
+export interface PaymentIntentRequest {
+  // Our transaction id; providers must treat it as an idempotency key
+  depositId: string;
+  // Exact decimal amount, e.g. "100.50"
+  amount: string;
+  currency: string;
+  paymentMethodToken?: string;
+  webhookUrl: string;
+}
+
+export interface PaymentIntent {
+  providerReference: string;
+  // Where the payer completes the payment, for providers that redirect
+  checkoutUrl?: string;
+}
+
+export type PaymentOutcome = 'SUCCEEDED' | 'FAILED';
+
+export interface PaymentWebhookEvent {
+  providerReference: string;
+  status: PaymentOutcome;
+  reason?: string;
+}
+
+/**
+ * Adapter for a card or bank payment provider that funds deposits.
+ * Creating an intent moves no money; the provider's signed webhook reports the outcome.
+ */
+export interface PaymentProvider {
+  readonly name: string;
+
+  createPaymentIntent(request: PaymentIntentRequest): Promise<PaymentIntent>;
+
+  /**
+   * Verify the webhook signature and parse its body
+   */
+  parseWebhook(rawBody: Buffer, headers: Record<string, string | string[]>): PaymentWebhookEvent;
+}
@@ -0,0 +1,49 @@
+import { IsOptional, IsString, IsNotEmpty, Matches, ValidateNested } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsMoneyAmount } from '../../common/money/is-money-amount.decorator';
+
+export class BankAccountDto {
+  @ApiProperty({ example: 'Jane Doe' })
+  @IsString()
+  @IsNotEmpty()
+  accountHolderName: string;
+
+  @ApiProperty({
+    example: '12345678',
+    description: 'With the simulated provider, account numbers ending in 0000 are rejected',
+  })
+  @Matches(/^\d{4,17}$/, { message: 'accountNumber must be 4 to 17 digits' })
+  accountNumber: string;
+
+  @ApiProperty({ example: '021000021' })
+  @Matches(/^\d{9}$/, { message: 'routingNumber must be 9 digits' })
+  routingNumber: string;
+}
+
+export class WithdrawDto {
+  @ApiProperty({ example: 100.00 })
+  @IsMoneyAmount()
+  @Type(() => Number)
+  amount: number;
+
+  @ApiProperty({ type: BankAccountDto })
+  @ValidateNested()
+  @Type(() => BankAccountDto)
+  bankAccount: BankAccountDto;
+
+  @ApiProperty({ example: 'Cash out', required: false })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({
+    example: 'unique-idempotency-key-12345',
+    description: 'Unique key to prevent duplicate withdrawals. If not provided, one will be generated.',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  idempotencyKey?: string;
+}
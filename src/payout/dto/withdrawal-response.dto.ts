@@ -0,0 +1,31 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { TransactionStatus, TransferState } from '../../database/entities/transaction.entity';
+
+export class WithdrawalResponseDto {
+  @ApiProperty({ example: 'uuid-string' })
+  id: string;
+
+  @ApiProperty({ example: '100.00' })
+  amount: string;
+
+  @ApiProperty({ example: 'uuid-of-wallet' })
+  walletId: string;
+
+  @ApiProperty({ example: 'PROCESSING', enum: TransactionStatus })
+  status: TransactionStatus;
+
+  @ApiProperty({ example: 'PAYOUT_PENDING', enum: TransferState })
+  transferState: TransferState;
+
+  @ApiProperty({ example: 'simulated' })
+  provider: string;
+
+  @ApiProperty({ example: 'sim_3f2a9c1d7e4b6a05', nullable: true })
+  providerReference: string | null;
+
+  @ApiProperty({ example: '5678' })
+  accountNumberLast4: string;
+
+  @ApiProperty({ example: '2023-12-01T10:00:00Z' })
+  createdAt: Date;
+}
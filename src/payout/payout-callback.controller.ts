@@ -0,0 +1,25 @@
+import { Controller, Post, Param, Req, HttpCode, HttpStatus, RawBodyRequest } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { Request } from 'express';
+import { PayoutService } from './payout.service';
+
+// Called by payout providers, authenticated by the body signature rather than a JWT
+@ApiTags('Payouts')
+@Controller('payouts')
+export class PayoutCallbackController {
+  constructor(private readonly payoutService: PayoutService) {}
+
+  @Post('callback/:provider')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Receive a signed settlement or rejection from a payout provider' })
+  @ApiResponse({ status: 200, description: 'Callback applied' })
+  @ApiResponse({ status: 401, description: 'Invalid signature' })
+  @ApiResponse({ status: 404, description: 'Unknown provider or payout' })
+  @ApiResponse({ status: 409, description: 'Payout not yet awaiting settlement; retry later' })
+  async handleCallback(
+    @Param('provider') provider: string,
+    @Req() req: RawBodyRequest<Request>,
+  ): Promise<{ received: boolean }> {
+    return this.payoutService.handleCallback(provider, req.rawBody, req.headers);
+  }
+}
@@ -0,0 +1,35 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { WithdrawalController } from './withdrawal.controller';
+import { PayoutCallbackController } from './payout-callback.controller';
+import { PayoutService } from './payout.service';
+import { WithdrawalSaga } from './withdrawal.saga';
+import { createPayoutProvider } from './providers/payout-provider.factory';
+import { PAYOUT_PROVIDER } from './providers/payout-provider.interface';
+import { Wallet } from '../database/entities/wallet.entity';
+import { Transaction } from '../database/entities/transaction.entity';
+import { CacheModule } from '../cache/cache.module';
+import { AuthModule } from '../auth/auth.module';
+import { CommonModule } from '../common/common.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Wallet, Transaction]),
+    CacheModule,
+    AuthModule,
+    CommonModule,
+  ],
+  controllers: [WithdrawalController, PayoutCallbackController],
+  providers: [
+    PayoutService,
+    WithdrawalSaga,
+    {
+      provide: PAYOUT_PROVIDER,
+      inject: [ConfigService],
+      useFactory: createPayoutProvider,
+    },
+  ],
+  exports: [PayoutService],
+})
+export class PayoutModule {}
@@ -0,0 +1,188 @@
+import { Logger } from '@nestjs/common';
+import * as crypto from 'crypto';
+import { Transaction, TransactionStatus, TransactionType, TransferState } from '../database/entities/transaction.entity';
+import { SystemAccount } from '../database/entities/ledger-posting.entity';
+import { SagaService } from '../common/services/saga.service';
+import { SagaRegistryService } from '../common/services/saga-registry.service';
+import { DomainEventType } from '../common/events/domain-event';
+import { PAYOUT_SIGNATURE_HEADER, SimulatedPayoutProvider } from './providers/simulated-payout.provider';
+import { PayoutCallback } from './providers/payout-provider.interface';
+import { WITHDRAWAL_SAGA, WithdrawalSaga, WithdrawalSagaContext } from './withdrawal.saga';
+import { PayoutService } from './payout.service';
+
+describe('PayoutService callbacks', () => {
+  const secret = 'test-payout-secret';
+
+  const context: WithdrawalSagaContext = {
+    transactionId: 'withdrawal-1',
+    sourceWalletId: 'wallet-1',
+    destinationWalletId: null,
+    amount: 25,
+    userId: 'user-1',
+    idempotencyKey: 'key-1',
+    metadata: {
+      currency: 'USD',
+      bankAccount: { accountHolderName: 'Jane Doe', accountNumber: '12345678', routingNumber: '021000021' },
+      callbackUrl: 'http://localhost:3000/payouts/callback/simulated',
+      providerReference: 'sim_reference',
+    },
+  };
+
+  let withdrawal: Transaction;
+  let ledgerService: Record<string, jest.Mock>;
+  let outboxService: { recordTransactionEvent: jest.Mock };
+  let service: PayoutService;
+
+  const pendingWithdrawal = () =>
+    Object.assign(new Transaction(), {
+      id: 'withdrawal-1',
+      amount: 25,
+      type: TransactionType.WITHDRAWAL,
+      status: TransactionStatus.PROCESSING,
+      transferState: TransferState.PAYOUT_PENDING,
+      metadata: { payout: { provider: 'simulated' } },
+      sagaState: {
+        sagaName: WITHDRAWAL_SAGA,
+        currentStep: 3,
+        completedSteps: ['validate_withdrawal', 'reserve_funds', 'debit_wallet', 'submit_payout'],
+        compensatedSteps: [],
+        retryCount: 0,
+        context,
+      },
+    });
+
+  const deliver = (callback: Partial<PayoutCallback>, signWith = secret) => {
+    const body = Buffer.from(JSON.stringify({ payoutId: 'withdrawal-1', providerReference: 'sim_reference', ...callback }));
+    const signature = crypto.createHmac('sha256', signWith).update(body).digest('hex');
+    return service.handleCallback('simulated', body, { [PAYOUT_SIGNATURE_HEADER]: signature });
+  };
+
+  beforeAll(() => Logger.overrideLogger(false));
+
+  beforeEach(() => {
+    withdrawal = pendingWithdrawal();
+
+    const manager = {
+      findOne: jest.fn(async () => withdrawal),
+      save: jest.fn(async transaction => transaction),
+    };
+    const dataSource = { transaction: jest.fn(async work => work(manager)) };
+    const transactionRepository = { save: jest.fn(async transaction => transaction), manager: dataSource };
+    const configService = { get: jest.fn((key: string, fallback?: unknown) => (key === 'PAYOUT_WEBHOOK_SECRET' ? secret : fallback)) };
+
+    outboxService = { recordTransactionEvent: jest.fn() };
+    ledgerService = {
+      post: jest.fn(),
+      hasEntry: jest.fn(async () => false),
+      debitWallet: jest.fn(),
+      creditWallet: jest.fn(),
+    };
+
+    // The real withdrawal saga, so a rejection runs its actual compensations
+    const registry = new SagaRegistryService();
+    const provider = new SimulatedPayoutProvider(configService as any);
+    new WithdrawalSaga(
+      {} as any,
+      provider,
+      { invalidateWalletBalance: jest.fn() } as any,
+      ledgerService as any,
+      { releaseHold: jest.fn() } as any,
+      registry,
+      dataSource as any,
+    ).onModuleInit();
+
+    service = new PayoutService(
+      {} as any,
+      transactionRepository as any,
+      provider,
+      {} as any,
+      new SagaService(transactionRepository as any, registry, outboxService as any, { publishTransferState: jest.fn() } as any),
+      ledgerService as any,
+      {} as any,
+      outboxService as any,
+      configService as any,
+      dataSource as any,
+    );
+  });
+
+  it('refuses to run the simulated provider without a callback secret', () => {
+    expect(() => new SimulatedPayoutProvider({ get: jest.fn() } as any)).toThrow(
+      'PAYOUT_WEBHOOK_SECRET must be set to use the simulated payout provider',
+    );
+  });
+
+  it('rejects a callback whose signature does not verify', async () => {
+    await expect(deliver({ status: 'SETTLED' }, 'wrong-secret')).rejects.toThrow('Invalid payout callback signature');
+
+    expect(ledgerService.post).not.toHaveBeenCalled();
+    expect(withdrawal.status).toBe(TransactionStatus.PROCESSING);
+  });
+
+  it('settles a pending payout from pending payouts to the external rail', async () => {
+    await expect(deliver({ status: 'SETTLED' })).resolves.toEqual({ received: true });
+
+    const [, entry] = ledgerService.post.mock.calls[0];
+    expect(entry.reference).toBe('withdrawal-1:settle_payout');
+    expect(entry.postings.map(posting => posting.systemAccount)).toEqual([
+      SystemAccount.PAYOUTS_PENDING,
+      SystemAccount.EXTERNAL_PAYOUTS,
+    ]);
+    expect(withdrawal.status).toBe(TransactionStatus.COMPLETED);
+    expect(outboxService.recordTransactionEvent).toHaveBeenCalledWith(
+      expect.anything(),
+      DomainEventType.WITHDRAWAL_COMPLETED,
+      withdrawal,
+      expect.objectContaining({ providerReference: 'sim_reference' }),
+    );
+  });
+
+  it('applies a duplicated callback only once', async () => {
+    await deliver({ status: 'SETTLED' });
+    await expect(deliver({ status: 'SETTLED' })).resolves.toEqual({ received: true });
+
+    expect(ledgerService.post).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores a rejection that arrives after the payout settled', async () => {
+    await deliver({ status: 'SETTLED' });
+    await deliver({ status: 'REJECTED', reason: 'Account closed' });
+
+    expect(ledgerService.creditWallet).not.toHaveBeenCalled();
+    expect(withdrawal.status).toBe(TransactionStatus.COMPLETED);
+    expect(withdrawal.transferState).toBe(TransferState.COMPLETED);
+  });
+
+  it('returns rejected funds from pending payouts to the wallet', async () => {
+    await deliver({ status: 'REJECTED', reason: 'Account closed' });
+
+    expect(ledgerService.creditWallet).toHaveBeenCalledTimes(1);
+    expect(ledgerService.creditWallet).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({
+      reference: 'withdrawal-1:compensate:debit_wallet',
+      walletId: 'wallet-1',
+      contraAccount: SystemAccount.PAYOUTS_PENDING,
+      amount: 25,
+    }));
+    expect(withdrawal.status).toBe(TransactionStatus.FAILED);
+    expect(withdrawal.transferState).toBe(TransferState.COMPENSATED);
+    expect(withdrawal.errorDetails.errorCode).toBe('payout_rejected');
+    expect(outboxService.recordTransactionEvent).toHaveBeenCalledWith(
+      expect.anything(),
+      DomainEventType.WITHDRAWAL_FAILED,
+      withdrawal,
+      expect.objectContaining({ providerReference: 'sim_reference' }),
+    );
+  });
+
+  it('asks the provider to retry while the saga has not recorded the submission', async () => {
+    withdrawal.transferState = TransferState.DEBIT_COMPLETE;
+
+    await expect(deliver({ status: 'SETTLED' })).rejects.toThrow('Payout is not awaiting settlement yet');
+    expect(ledgerService.post).not.toHaveBeenCalled();
+  });
+
+  it('refuses a callback for a different provider reference', async () => {
+    await expect(deliver({ status: 'SETTLED', providerReference: 'sim_other' })).rejects.toThrow(
+      'Provider reference does not match payout',
+    );
+  });
+});
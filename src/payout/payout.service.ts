@@ -0,0 +1,367 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, DataSource, EntityManager } from 'typeorm';
+import { Wallet } from '../database/entities/wallet.entity';
+import { Transaction, TransactionType, TransactionStatus, TransferState } from '../database/entities/transaction.entity';
+import { PostingDirection, SystemAccount } from '../database/entities/ledger-posting.entity';
+import { User } from '../database/entities/user.entity';
+import { IdempotencyService, IdempotencyRequest } from '../common/services/idempotency.service';
+import { SagaService } from '../common/services/saga.service';
+import { LedgerService } from '../common/services/ledger.service';
+import { HoldService } from '../common/services/hold.service';
+import { OutboxService } from '../common/services/outbox.service';
+import { DomainEventType } from '../common/events/domain-event';
+import { Money } from '../common/money/money';
+import { WITHDRAWAL_SAGA, WithdrawalSagaContext } from './withdrawal.saga';
+import { PAYOUT_PROVIDER, PayoutProvider, PayoutCallback } from './providers/payout-provider.interface';
+import { WithdrawDto } from './dto/withdraw.dto';
+import { WithdrawalResponseDto } from './dto/withdrawal-response.dto';
+
+@Injectable()
+export class PayoutService {
+  private readonly logger = new Logger(PayoutService.name);
+
+  constructor(
+    @InjectRepository(Wallet)
+    private walletRepository: Repository<Wallet>,
+    @InjectRepository(Transaction)
+    private transactionRepository: Repository<Transaction>,
+    @Inject(PAYOUT_PROVIDER)
+    private payoutProvider: PayoutProvider,
+    private idempotencyService: IdempotencyService,
+    private sagaService: SagaService,
+    private ledgerService: LedgerService,
+    private holdService: HoldService,
+    private outboxService: OutboxService,
+    private configService: ConfigService,
+    private dataSource: DataSource,
+  ) {}
+
+  /**
+   * Withdraw funds to an external bank account. Returns once the payout has been
+   * handed to the provider; settlement is reported later through its callback.
+   */
+  async withdraw(walletId: string, user: User, withdrawDto: WithdrawDto): Promise<WithdrawalResponseDto> {
+    const { amount, bankAccount, description } = withdrawDto;
+    const endpoint = `/wallets/${walletId}/withdraw`;
+
+    const idempotencyKey = withdrawDto.idempotencyKey ||
+      this.idempotencyService.generateIdempotencyKey({
+        walletId,
+        amount,
+        accountNumber: bankAccount.accountNumber,
+        userId: user.id,
+        timestamp: Date.now(),
+      });
+
+    const idempotencyRequest: IdempotencyRequest = {
+      key: idempotencyKey,
+      requestHash: this.idempotencyService.createRequestHash(
+        'POST',
+        endpoint,
+        { destinationWalletId: null, amount, description },
+        user.id
+      ),
+      endpoint,
+      method: 'POST',
+      userId: user.id,
+      payload: withdrawDto,
+    };
+
+    const idempotencyResult = await this.idempotencyService.checkIdempotency<WithdrawalResponseDto>(
+      idempotencyKey,
+      idempotencyRequest
+    );
+
+    if (!idempotencyResult.isNew) {
+      if (idempotencyResult.existingResult) {
+        this.logger.log(`Returning cached withdrawal for idempotency key: ${idempotencyKey}`);
+        return idempotencyResult.existingResult;
+      }
+
+      if (idempotencyResult.transaction) {
+        return this.handleExistingWithdrawal(idempotencyResult.transaction);
+      }
+    }
+
+    const wallet = await this.validateWithdrawal(walletId, user, amount);
+
+    try {
+      const transaction = await this.transactionRepository.save(
+        this.transactionRepository.create({
+          amount: Money.fromDecimal(amount).toString(),
+          type: TransactionType.WITHDRAWAL,
+          status: TransactionStatus.PENDING,
+          transferState: TransferState.INITIATED,
+          description: description || 'Withdrawal',
+          sourceWalletId: walletId,
+          idempotencyKey,
+          metadata: {
+            sourceUserId: user.id,
+            userEmail: user.email,
+            initiatedAt: new Date().toISOString(),
+            payout: {
+              provider: this.payoutProvider.name,
+              accountHolderName: bankAccount.accountHolderName,
+              accountNumberLast4: bankAccount.accountNumber.slice(-4),
+            },
+          },
+        }),
+      );
+
+      const sagaContext: WithdrawalSagaContext = {
+        transactionId: transaction.id,
+        sourceWalletId: walletId,
+        destinationWalletId: null,
+        amount,
+        userId: user.id,
+        idempotencyKey,
+        metadata: {
+          currency: wallet.currency,
+          bankAccount: {
+            accountHolderName: bankAccount.accountHolderName,
+            accountNumber: bankAccount.accountNumber,
+            routingNumber: bankAccount.routingNumber,
+          },
+          callbackUrl: this.getCallbackUrl(),
+          timestamp: new Date().toISOString(),
+        },
+      };
+
+      const submitted = await this.sagaService.executeSaga(WITHDRAWAL_SAGA, transaction, sagaContext);
+
+      this.logger.log(
+        `Withdrawal submitted: wallet=${walletId}, amount=${amount}, txId=${submitted.id}, ` +
+        `providerReference=${sagaContext.metadata.providerReference}`
+      );
+
+      const result = this.mapToWithdrawalResponseDto(submitted);
+      await this.idempotencyService.storeResult(idempotencyKey, result);
+
+      return result;
+
+    } catch (error) {
+      await this.idempotencyService.storeFailure(idempotencyKey, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Apply a provider callback: settle the payout or return the funds to the wallet
+   */
+  async handleCallback(
+    providerName: string,
+    rawBody: Buffer,
+    headers: Record<string, string | string[]>,
+  ): Promise<{ received: boolean }> {
+    if (providerName !== this.payoutProvider.name) {
+      throw new NotFoundException(`Unknown payout provider ${providerName}`);
+    }
+
+    if (!rawBody) {
+      throw new BadRequestException('Missing payout callback body');
+    }
+
+    const callback = this.payoutProvider.parseCallback(rawBody, headers);
+
+    if (callback.status === 'SETTLED') {
+      await this.settlePayout(callback);
+    } else if (callback.status === 'REJECTED') {
+      await this.rejectPayout(callback);
+    } else {
+      throw new BadRequestException(`Unknown payout status ${callback.status}`);
+    }
+
+    return { received: true };
+  }
+
+  private async settlePayout(callback: PayoutCallback): Promise<void> {
+    await this.dataSource.transaction(async manager => {
+      const transaction = await this.lockPendingPayout(manager, callback);
+      if (!transaction) return;
+
+      const context = transaction.sagaState.context as WithdrawalSagaContext;
+
+      // Funds leave the platform: pending payouts are cleared to the external rail
+      await this.ledgerService.post(manager, {
+        reference: `${transaction.id}:settle_payout`,
+        transactionId: transaction.id,
+        description: 'Withdrawal settlement',
+        postings: [
+          {
+            systemAccount: SystemAccount.PAYOUTS_PENDING,
+            direction: PostingDirection.DEBIT,
+            amount: transaction.amount,
+            currency: context.metadata.currency,
+          },
+          {
+            systemAccount: SystemAccount.EXTERNAL_PAYOUTS,
+            direction: PostingDirection.CREDIT,
+            amount: transaction.amount,
+            currency: context.metadata.currency,
+          },
+        ],
+      });
+
+      transaction.status = TransactionStatus.COMPLETED;
+      transaction.transferState = TransferState.COMPLETED;
+      transaction.completedAt = new Date();
+      transaction.metadata = {
+        ...transaction.metadata,
+        payout: { ...transaction.metadata?.payout, settledAt: new Date().toISOString() },
+      };
+      await manager.save(transaction);
+
+      await this.outboxService.recordTransactionEvent(manager, DomainEventType.WITHDRAWAL_COMPLETED, transaction, {
+        currency: context.metadata.currency,
+        providerReference: callback.providerReference,
+      });
+    });
+
+    this.logger.log(`Payout ${callback.payoutId} settled by ${this.payoutProvider.name}`);
+  }
+
+  private async rejectPayout(callback: PayoutCallback): Promise<void> {
+    // Mark for compensation first, so recovery finishes the job if we crash midway
+    const transaction = await this.dataSource.transaction(async manager => {
+      const pending = await this.lockPendingPayout(manager, callback);
+      if (!pending) return null;
+
+      pending.transferState = TransferState.COMPENSATION_PENDING;
+      pending.errorDetails = {
+        message: callback.reason || 'Payout rejected by provider',
+        errorCode: 'payout_rejected',
+        timestamp: new Date().toISOString(),
+      };
+      pending.metadata = {
+        ...pending.metadata,
+        payout: { ...pending.metadata?.payout, rejectedAt: new Date().toISOString() },
+      };
+      const saved = await manager.save(pending);
+
+      // Recovery finishes returning the funds, so the rejection can be announced now
+      await this.outboxService.recordTransactionEvent(manager, DomainEventType.WITHDRAWAL_FAILED, saved, {
+        error: saved.errorDetails.message,
+        providerReference: callback.providerReference,
+      });
+
+      return saved;
+    });
+
+    if (!transaction) return;
+
+    await this.sagaService.compensatePersistedSaga(transaction);
+
+    this.logger.warn(`Payout ${callback.payoutId} rejected: ${callback.reason}; funds returned to wallet`);
+  }
+
+  /**
+   * Lock a withdrawal awaiting its callback; returns null when already handled
+   */
+  private async lockPendingPayout(manager: EntityManager, callback: PayoutCallback): Promise<Transaction | null> {
+    const transaction = await manager.findOne(Transaction, {
+      where: { id: callback.payoutId, type: TransactionType.WITHDRAWAL },
+      lock: { mode: 'pessimistic_write' },
+    });
+
+    if (!transaction) {
+      throw new NotFoundException('Payout not found');
+    }
+
+    const context = transaction.sagaState?.context as WithdrawalSagaContext;
+    if (context?.metadata.providerReference !== callback.providerReference) {
+      throw new BadRequestException('Provider reference does not match payout');
+    }
+
+    if (transaction.transferState !== TransferState.PAYOUT_PENDING) {
+      if (transaction.isInProgress()) {
+        // The saga has not recorded the submission yet; the provider will retry
+        throw new ConflictException('Payout is not awaiting settlement yet');
+      }
+
+      this.logger.debug(`Payout ${transaction.id} already in state ${transaction.transferState}, ignoring callback`);
+      return null;
+    }
+
+    return transaction;
+  }
+
+  private async validateWithdrawal(walletId: string, user: User, amount: number): Promise<Wallet> {
+    if (amount <= 0) {
+      throw new BadRequestException('Withdrawal amount must be positive');
+    }
+
+    const wallet = await this.walletRepository.findOne({
+      where: { id: walletId, userId: user.id, isActive: true },
+    });
+
+    if (!wallet) {
+      throw new NotFoundException('Wallet not found');
+    }
+
+    if (!wallet.canSend()) {
+      throw new BadRequestException('Wallet is frozen; withdrawals are blocked');
+    }
+
+    const heldAmount = await this.holdService.getHeldAmount(walletId);
+    const available = Money.fromDecimal(wallet.balance).subtract(Money.fromDecimal(heldAmount));
+    if (available.lessThan(Money.fromDecimal(amount))) {
+      throw new BadRequestException('Insufficient balance');
+    }
+
+    return wallet;
+  }
+
+  private handleExistingWithdrawal(transaction: Transaction): WithdrawalResponseDto {
+    if (transaction.isFailed()) {
+      throw new BadRequestException({
+        message: 'Withdrawal has failed',
+        transactionId: transaction.id,
+        status: transaction.status,
+        errorDetails: transaction.errorDetails,
+      });
+    }
+
+    if (transaction.isInProgress() && transaction.transferState !== TransferState.PAYOUT_PENDING) {
+      throw new ConflictException({
+        message: 'Withdrawal is already in progress',
+        transactionId: transaction.id,
+        status: transaction.status,
+        transferState: transaction.transferState,
+      });
+    }
+
+    return this.mapToWithdrawalResponseDto(transaction);
+  }
+
+  private getCallbackUrl(): string {
+    const baseUrl = this.configService.get(
+      'PAYOUT_CALLBACK_BASE_URL',
+      `http://localhost:${this.configService.get('PORT', 3000)}`,
+    );
+
+    return `${baseUrl}/payouts/callback/${this.payoutProvider.name}`;
+  }
+
+  private mapToWithdrawalResponseDto(transaction: Transaction): WithdrawalResponseDto {
+    return {
+      id: transaction.id,
+      amount: transaction.amount,
+      walletId: transaction.sourceWalletId,
+      status: transaction.status,
+      transferState: transaction.transferState,
+      provider: transaction.metadata?.payout?.provider,
+      providerReference: transaction.sagaState?.context?.metadata?.providerReference || null,
+      accountNumberLast4: transaction.metadata?.payout?.accountNumberLast4,
+      createdAt: transaction.createdAt,
+    };
+  }
+}
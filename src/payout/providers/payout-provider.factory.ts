@@ -0,0 +1,26 @@
+import { ConfigService } from '@nestjs/config';
+import { PayoutProvider } from './payout-provider.interface';
+import { SimulatedPayoutProvider } from './simulated-payout.provider';
+
+// Environments in which the simulated provider is bound unless SIMULATED_PAYOUT_PROVIDER_ENABLED says otherwise
+const SIMULATED_PROVIDER_ENVIRONMENTS = ['development', 'test'];
+
+/**
+ * Pick the payout provider for withdrawals. The simulated provider settles payouts
+ * without moving any money, so outside development and test it must be enabled
+ * explicitly, and without it the app refuses to start.
+ */
+export function createPayoutProvider(configService: ConfigService): PayoutProvider {
+  const enabledByDefault = SIMULATED_PROVIDER_ENVIRONMENTS.includes(configService.get('NODE_ENV'));
+  const simulatedEnabled = configService.get('SIMULATED_PAYOUT_PROVIDER_ENABLED', String(enabledByDefault)) === 'true';
+
+  if (simulatedEnabled) {
+    return new SimulatedPayoutProvider(configService);
+  }
+
+  // Bind a real bank integration here
+  throw new Error(
+    'No payout provider configured: the simulated provider is disabled outside development and test. ' +
+    'Configure a real provider, or set SIMULATED_PAYOUT_PROVIDER_ENABLED=true for a non-production deployment.',
+  );
+}
@@ -0,0 +1,45 @@
+export const PAYOUT_PROVIDER = 'PAYOUT_PROVIDER';
+
+export interface BankAccountDetails {
+  accountHolderName: string;
+  accountNumber: string;
+  routingNumber: string;
+}
+
+export interface PayoutRequest {
+  // Our transaction id; providers must treat it as an idempotency key
+  payoutId: string;
+  // Exact decimal amount, e.g. "100.50"
+  amount: string;
+  currency: string;
+  bankAccount: BankAccountDetails;
+  callbackUrl: string;
+}
+
+export interface PayoutSubmission {
+  providerReference: string;
+}
+
+export type PayoutOutcome = 'SETTLED' | 'REJECTED';
+
+export interface PayoutCallback {
+  payoutId: string;
+  providerReference: string;
+  status: PayoutOutcome;
+  reason?: string;
+}
+
+/**
+ * Adapter for a bank payout rail. Submission only hands the payout over;
+ * the outcome arrives later through the provider's signed callback.
+ */
+export interface PayoutProvider {
+  readonly name: string;
+
+  submitPayout(request: PayoutRequest): Promise<PayoutSubmission>;
+
+  /**
+   * Verify the callback signature and parse its body
+   */
+  parseCallback(rawBody: Buffer, headers: Record<string, string | string[]>): PayoutCallback;
+}
@@ -0,0 +1,118 @@
+import { Injectable, Logger, OnModuleDestroy, UnauthorizedException, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import * as crypto from 'crypto';
+import { signPayload, verifySignature } from '../../common/utils/hmac.util';
+import {
+  PayoutProvider,
+  PayoutRequest,
+  PayoutSubmission,
+  PayoutCallback,
+} from './payout-provider.interface';
+
+export const PAYOUT_SIGNATURE_HEADER = 'x-payout-signature';
+
+// Test account numbers ending in this suffix are rejected by the simulated bank
+const REJECTED_ACCOUNT_SUFFIX = '0000';
+
+/**
+ * Local stand-in for a bank payout rail. Accepts every submission, then settles
+ * or rejects it after a delay by calling back the callback URL with a signed body.
+ */
+@Injectable()
+export class SimulatedPayoutProvider implements PayoutProvider, OnModuleDestroy {
+  readonly name = 'simulated';
+
+  private readonly logger = new Logger(SimulatedPayoutProvider.name);
+  private readonly CALLBACK_ATTEMPTS = 3;
+  private readonly submissions = new Map<string, string>();
+  private readonly timers = new Set<NodeJS.Timeout>();
+  private readonly secret: string;
+
+  constructor(private configService: ConfigService) {
+    // A known secret would let anyone forge a SETTLED or REJECTED callback
+    this.secret = this.configService.get('PAYOUT_WEBHOOK_SECRET');
+    if (!this.secret) {
+      throw new Error('PAYOUT_WEBHOOK_SECRET must be set to use the simulated payout provider');
+    }
+  }
+
+  onModuleDestroy() {
+    for (const timer of this.timers) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  async submitPayout(request: PayoutRequest): Promise<PayoutSubmission> {
+    // Resubmitting the same payout returns the original reference
+    const existingReference = this.submissions.get(request.payoutId);
+    if (existingReference) {
+      return { providerReference: existingReference };
+    }
+
+    const providerReference = `sim_${crypto.randomBytes(8).toString('hex')}`;
+    this.submissions.set(request.payoutId, providerReference);
+
+    const rejected = request.bankAccount.accountNumber.endsWith(REJECTED_ACCOUNT_SUFFIX);
+    const callback: PayoutCallback = {
+      payoutId: request.payoutId,
+      providerReference,
+      status: rejected ? 'REJECTED' : 'SETTLED',
+      reason: rejected ? 'Account closed' : undefined,
+    };
+
+    const delayMs = Number(this.configService.get('PAYOUT_SIMULATOR_DELAY_MS', 2000));
+    this.schedule(() => this.sendCallback(request.callbackUrl, callback, 1), delayMs);
+
+    this.logger.log(`Accepted simulated payout ${request.payoutId} as ${providerReference}`);
+    return { providerReference };
+  }
+
+  parseCallback(rawBody: Buffer, headers: Record<string, string | string[]>): PayoutCallback {
+    const signature = headers[PAYOUT_SIGNATURE_HEADER];
+
+    if (typeof signature !== 'string' || !verifySignature(this.secret, rawBody, signature)) {
+      throw new UnauthorizedException('Invalid payout callback signature');
+    }
+
+    try {
+      return JSON.parse(rawBody.toString('utf8'));
+    } catch {
+      throw new BadRequestException('Malformed payout callback body');
+    }
+  }
+
+  private async sendCallback(callbackUrl: string, callback: PayoutCallback, attempt: number): Promise<void> {
+    const body = JSON.stringify(callback);
+
+    try {
+      await axios.post(callbackUrl, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          [PAYOUT_SIGNATURE_HEADER]: signPayload(this.secret, body),
+        },
+        timeout: 5000,
+      });
+
+      this.logger.log(`Delivered ${callback.status} callback for payout ${callback.payoutId}`);
+    } catch (error) {
+      if (attempt >= this.CALLBACK_ATTEMPTS) {
+        this.logger.error(`Giving up on callback for payout ${callback.payoutId}: ${error.message}`);
+        return;
+      }
+
+      this.logger.warn(`Callback for payout ${callback.payoutId} failed, retrying: ${error.message}`);
+      this.schedule(() => this.sendCallback(callbackUrl, callback, attempt + 1), 1000 * 2 ** attempt);
+    }
+  }
+
+  private schedule(work: () => Promise<void>, delayMs: number): void {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      work().catch(error => this.logger.error('Simulated payout callback failed:', error));
+    }, delayMs);
+
+    this.timers.add(timer);
+  }
+}
@@ -0,0 +1,39 @@
+import { Controller, Post, Body, Param, UseGuards, Request, Headers } from '@nestjs/common';
+import { ApiBearerAuth, ApiTags, ApiOperation, ApiResponse, ApiHeader } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { PayoutService } from './payout.service';
+import { WithdrawDto } from './dto/withdraw.dto';
+import { WithdrawalResponseDto } from './dto/withdrawal-response.dto';
+
+@ApiTags('Withdrawals')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('wallets')
+export class WithdrawalController {
+  constructor(private readonly payoutService: PayoutService) {}
+
+  @Post(':id/withdraw')
+  @ApiOperation({ summary: 'Withdraw funds to an external bank account' })
+  @ApiHeader({
+    name: 'Idempotency-Key',
+    description: 'Optional idempotency key to prevent duplicate withdrawals',
+    required: false,
+  })
+  @ApiResponse({ status: 201, description: 'Withdrawal submitted to the payout provider', type: WithdrawalResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid amount or insufficient balance' })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  @ApiResponse({ status: 409, description: 'Withdrawal already in progress (idempotency conflict)' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async withdraw(
+    @Param('id') walletId: string,
+    @Request() req,
+    @Body() withdrawDto: WithdrawDto,
+    @Headers('idempotency-key') idempotencyKeyHeader?: string,
+  ): Promise<WithdrawalResponseDto> {
+    if (idempotencyKeyHeader && !withdrawDto.idempotencyKey) {
+      withdrawDto.idempotencyKey = idempotencyKeyHeader;
+    }
+
+    return this.payoutService.withdraw(walletId, req.user, withdrawDto);
+  }
+}
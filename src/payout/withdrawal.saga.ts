@@ -0,0 +1,204 @@
+import { Injectable, Inject, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, DataSource } from 'typeorm';
+import { TransactionStatus, TransferState } from '../database/entities/transaction.entity';
+import { Wallet } from '../database/entities/wallet.entity';
+import { SystemAccount } from '../database/entities/ledger-posting.entity';
+import { CacheService } from '../cache/cache.service';
+import { LedgerService } from '../common/services/ledger.service';
+import { HoldService } from '../common/services/hold.service';
+import { Money } from '../common/money/money';
+import { DomainEventType } from '../common/events/domain-event';
+import { SagaRegistryService, SagaContext, RetryPolicy } from '../common/services/saga-registry.service';
+import { PAYOUT_PROVIDER, PayoutProvider, BankAccountDetails } from './providers/payout-provider.interface';
+
+export const WITHDRAWAL_SAGA = 'withdrawal';
+
+const DEFAULT_RETRY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 100,
+  maxDelayMs: 2000,
+  jitter: true,
+};
+
+export interface WithdrawalSagaContext extends SagaContext {
+  metadata: {
+    currency: string;
+    bankAccount: BankAccountDetails;
+    callbackUrl: string;
+    providerReference?: string;
+    [key: string]: any;
+  };
+}
+
+/**
+ * Withdrawal: reserve, debit into pending payouts, hand over to the payout provider.
+ * The saga ends in PAYOUT_PENDING; the provider callback settles or compensates it.
+ */
+@Injectable()
+export class WithdrawalSaga implements OnModuleInit {
+  private readonly logger = new Logger(WithdrawalSaga.name);
+
+  constructor(
+    @InjectRepository(Wallet)
+    private walletRepository: Repository<Wallet>,
+    @Inject(PAYOUT_PROVIDER)
+    private payoutProvider: PayoutProvider,
+    private cacheService: CacheService,
+    private ledgerService: LedgerService,
+    private holdService: HoldService,
+    private sagaRegistry: SagaRegistryService,
+    private dataSource: DataSource,
+  ) {}
+
+  onModuleInit() {
+    this.sagaRegistry.register<WithdrawalSagaContext>({
+      name: WITHDRAWAL_SAGA,
+      completedStatus: TransactionStatus.PROCESSING,
+      completedState: TransferState.PAYOUT_PENDING,
+      // Completion is announced once the provider settles the payout
+      failedEvent: DomainEventType.WITHDRAWAL_FAILED,
+      // As with transfers, steps that hold or move funds are never timed out
+      steps: [
+        {
+          name: 'validate_withdrawal',
+          state: TransferState.VALIDATION_COMPLETE,
+          timeoutMs: 5000,
+          retryPolicy: DEFAULT_RETRY,
+          execute: context => this.validateWithdrawal(context),
+        },
+        {
+          name: 'reserve_funds',
+          state: TransferState.FUNDS_RESERVED,
+          retryPolicy: DEFAULT_RETRY,
+          execute: context => this.reserveFunds(context),
+          compensate: context => this.releaseReservedFunds(context),
+        },
+        {
+          name: 'debit_wallet',
+          state: TransferState.DEBIT_COMPLETE,
+          retryPolicy: DEFAULT_RETRY,
+          execute: context => this.debitWallet(context),
+          compensate: context => this.creditWallet(context),
+        },
+        {
+          // Once the provider has the payout only its callback may unwind it
+          name: 'submit_payout',
+          state: TransferState.PAYOUT_PENDING,
+          retryPolicy: DEFAULT_RETRY,
+          pointOfNoReturn: true,
+          execute: context => this.submitPayout(context),
+        },
+      ],
+    });
+  }
+
+  private async validateWithdrawal(context: WithdrawalSagaContext): Promise<void> {
+    const wallet = await this.walletRepository.findOne({
+      where: { id: context.sourceWalletId, isActive: true },
+    });
+
+    if (!wallet) {
+      throw new Error('Wallet not found or inactive');
+    }
+
+    if (!wallet.canSend()) {
+      throw new Error('Wallet is frozen');
+    }
+
+    if (wallet.currency !== context.metadata.currency) {
+      throw new Error('Currency mismatch between wallet and withdrawal');
+    }
+  }
+
+  private async reserveFunds(context: WithdrawalSagaContext): Promise<void> {
+    await this.holdService.placeHold({
+      walletId: context.sourceWalletId,
+      transactionId: context.transactionId,
+      amount: context.amount,
+      expiresAt: new Date(Date.now() + 30 * 60 * 1000), // 30 minutes
+      reason: 'Withdrawal reservation',
+    });
+
+    this.logger.debug(`Reserved ${context.amount} for withdrawal ${context.transactionId}`);
+  }
+
+  private async releaseReservedFunds(context: WithdrawalSagaContext): Promise<void> {
+    await this.holdService.releaseHold(context.transactionId);
+  }
+
+  private async debitWallet(context: WithdrawalSagaContext): Promise<void> {
+    await this.dataSource.transaction(async manager => {
+      const wallet = await manager.findOne(Wallet, {
+        where: { id: context.sourceWalletId },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      if (!wallet) {
+        throw new Error('Wallet not found');
+      }
+
+      // A resumed saga may re-run a debit that already committed before a crash
+      if (await this.ledgerService.hasEntry(manager, `${context.transactionId}:debit_wallet`)) {
+        return;
+      }
+
+      await this.holdService.captureHold(manager, context.transactionId);
+      const otherHolds = await this.holdService.getHeldAmount(context.sourceWalletId, manager);
+
+      const available = Money.fromDecimal(wallet.balance).subtract(Money.fromDecimal(otherHolds));
+      if (available.lessThan(Money.fromDecimal(context.amount))) {
+        throw new Error('Insufficient balance');
+      }
+
+      // Park the funds in pending payouts until the provider reports the outcome
+      await this.ledgerService.debitWallet(manager, {
+        reference: `${context.transactionId}:debit_wallet`,
+        transactionId: context.transactionId,
+        description: 'Withdrawal debit',
+        walletId: context.sourceWalletId,
+        contraAccount: SystemAccount.PAYOUTS_PENDING,
+        amount: context.amount,
+        currency: wallet.currency,
+      });
+    });
+
+    await this.cacheService.invalidateWalletBalance(context.sourceWalletId);
+
+    this.logger.debug(`Debited ${context.amount} from wallet ${context.sourceWalletId} for withdrawal`);
+  }
+
+  private async creditWallet(context: WithdrawalSagaContext): Promise<void> {
+    // Compensation: return the parked funds to the wallet
+    await this.dataSource.transaction(async manager => {
+      await this.ledgerService.creditWallet(manager, {
+        reference: `${context.transactionId}:compensate:debit_wallet`,
+        transactionId: context.transactionId,
+        description: 'Withdrawal debit reversal',
+        walletId: context.sourceWalletId,
+        contraAccount: SystemAccount.PAYOUTS_PENDING,
+        amount: context.amount,
+        currency: context.metadata.currency,
+      });
+    });
+
+    await this.cacheService.invalidateWalletBalance(context.sourceWalletId);
+
+    this.logger.debug(`Compensated: credited ${context.amount} back to wallet ${context.sourceWalletId}`);
+  }
+
+  private async submitPayout(context: WithdrawalSagaContext): Promise<void> {
+    const { providerReference } = await this.payoutProvider.submitPayout({
+      payoutId: context.transactionId,
+      amount: Money.fromDecimal(context.amount).toString(),
+      currency: context.metadata.currency,
+      bankAccount: context.metadata.bankAccount,
+      callbackUrl: context.metadata.callbackUrl,
+    });
+
+    // Persisted with the saga state, which the callback matches against
+    context.metadata.providerReference = providerReference;
+
+    this.logger.log(`Submitted payout ${context.transactionId} to ${this.payoutProvider.name} as ${providerReference}`);
+  }
+}
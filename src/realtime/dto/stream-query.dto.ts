@@ -0,0 +1,14 @@
+import { IsOptional, IsUUID, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class StreamQueryDto {
+  @ApiProperty({ required: false, example: 'uuid-of-your-wallet', description: 'Only this wallet; all your active wallets when omitted' })
+  @IsOptional()
+  @IsUUID()
+  walletId?: string;
+
+  @ApiProperty({ required: false, description: 'JWT, for clients such as EventSource that cannot send an Authorization header' })
+  @IsOptional()
+  @IsString()
+  access_token?: string;
+}
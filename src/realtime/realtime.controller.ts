@@ -0,0 +1,24 @@
+import { Controller, Sse, Query, UseGuards, Request, MessageEvent } from '@nestjs/common';
+import { ApiBearerAuth, ApiTags, ApiOperation, ApiResponse, ApiProduces } from '@nestjs/swagger';
+import { Observable } from 'rxjs';
+import { JwtStreamAuthGuard } from '../auth/jwt-stream-auth.guard';
+import { RealtimeService } from './realtime.service';
+import { StreamQueryDto } from './dto/stream-query.dto';
+
+@ApiTags('Realtime')
+@ApiBearerAuth()
+@UseGuards(JwtStreamAuthGuard)
+@Controller('realtime')
+export class RealtimeController {
+  constructor(private readonly realtimeService: RealtimeService) {}
+
+  @Sse('stream')
+  @ApiProduces('text/event-stream')
+  @ApiOperation({ summary: 'Server-Sent Events with balance changes, incoming transfers and transfer state changes of your wallets' })
+  @ApiResponse({ status: 200, description: 'Event stream; starts with a balance event per wallet' })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async stream(@Request() req, @Query() query: StreamQueryDto): Promise<Observable<MessageEvent>> {
+    return this.realtimeService.stream(req.user, query);
+  }
+}
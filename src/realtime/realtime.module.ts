@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { RealtimeController } from './realtime.controller';
+import { RealtimeService } from './realtime.service';
+import { Wallet } from '../database/entities/wallet.entity';
+import { Transaction } from '../database/entities/transaction.entity';
+import { AuthModule } from '../auth/auth.module';
+import { CacheModule } from '../cache/cache.module';
+import { CommonModule } from '../common/common.module';
+import { EventsModule } from '../events/events.module';
+import { TransferModule } from '../transfer/transfer.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Wallet, Transaction]),
+    AuthModule,
+    CacheModule,
+    CommonModule,
+    EventsModule,
+    TransferModule,
+  ],
+  controllers: [RealtimeController],
+  providers: [RealtimeService],
+})
+export class RealtimeModule {}
@@ -0,0 +1,106 @@
+import { Logger, MessageEvent } from '@nestjs/common';
+import { Subscription } from 'rxjs';
+import { User } from '../database/entities/user.entity';
+import { Wallet } from '../database/entities/wallet.entity';
+import { REALTIME_CHANNEL, RealtimeEventType } from '../common/events/realtime-event';
+import { RealtimeService } from './realtime.service';
+
+describe('RealtimeService', () => {
+  const owner = Object.assign(new User(), { id: 'owner' });
+
+  let wallets: Wallet[];
+  let dispatch: (message: string) => void;
+  let received: MessageEvent[];
+  let subscription: Subscription;
+  let service: RealtimeService;
+
+  const wallet = (id: string, userId: string) =>
+    Object.assign(new Wallet(), { id, userId, balance: '50.00', currency: 'USD', isActive: true });
+
+  const push = (walletId: string) =>
+    dispatch(JSON.stringify({
+      type: RealtimeEventType.TRANSFER_STATE_CHANGED,
+      walletId,
+      data: { transactionId: 'transaction-1' },
+      occurredAt: new Date().toISOString(),
+    }));
+
+  const listen = async (walletId?: string) => {
+    const stream = await service.stream(owner, { walletId });
+    subscription = stream.subscribe(event => received.push(event));
+  };
+
+  beforeAll(() => Logger.overrideLogger(false));
+
+  beforeEach(async () => {
+    wallets = [wallet('wallet-1', 'owner'), wallet('wallet-2', 'owner'), wallet('wallet-3', 'someone-else')];
+    received = [];
+
+    service = new RealtimeService(
+      {
+        find: jest.fn(async ({ where }) => wallets.filter(candidate =>
+          candidate.userId === where.userId && (!where.id || candidate.id === where.id),
+        )),
+      } as any,
+      {} as any,
+      {
+        subscribe: jest.fn(async (channel: string, listener: (message: string) => void) => {
+          if (channel === REALTIME_CHANNEL) dispatch = listener;
+        }),
+      } as any,
+      { getHeldAmounts: jest.fn(async () => new Map([['wallet-1', '20.00']])) } as any,
+      {} as any,
+      { subscribe: jest.fn() } as any,
+      {} as any,
+      { get: jest.fn((_, fallback) => fallback) } as any,
+    );
+    await service.onModuleInit();
+  });
+
+  afterEach(() => subscription?.unsubscribe());
+
+  it('starts with the balance of each of the user\'s wallets', async () => {
+    await listen();
+
+    expect(received.map(event => event.data)).toEqual([
+      expect.objectContaining({ walletId: 'wallet-1', balance: '50.00', availableBalance: '30.00' }),
+      expect.objectContaining({ walletId: 'wallet-2', balance: '50.00', availableBalance: '50.00' }),
+    ]);
+  });
+
+  it('forwards updates for the user\'s wallets and nobody else\'s', async () => {
+    await listen();
+    received = [];
+
+    push('wallet-2');
+    push('wallet-3');
+
+    expect(received).toEqual([
+      { type: RealtimeEventType.TRANSFER_STATE_CHANGED, data: expect.objectContaining({ walletId: 'wallet-2' }) },
+    ]);
+  });
+
+  it('narrows the stream to one wallet when asked', async () => {
+    await listen('wallet-1');
+    received = [];
+
+    push('wallet-2');
+    push('wallet-1');
+
+    expect(received).toEqual([expect.objectContaining({ data: expect.objectContaining({ walletId: 'wallet-1' }) })]);
+  });
+
+  it('refuses to stream a wallet of another user', async () => {
+    await expect(service.stream(owner, { walletId: 'wallet-3' })).rejects.toThrow('Wallet not found');
+  });
+
+  it('stops forwarding once the client disconnects', async () => {
+    await listen();
+    subscription.unsubscribe();
+    received = [];
+
+    push('wallet-1');
+
+    expect(received).toEqual([]);
+  });
+});
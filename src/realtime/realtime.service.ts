@@ -0,0 +1,188 @@
+import { Injectable, Logger, NotFoundException, OnModuleInit, MessageEvent } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, In } from 'typeorm';
+import { Observable, Subscriber } from 'rxjs';
+import { Wallet } from '../database/entities/wallet.entity';
+import { Transaction } from '../database/entities/transaction.entity';
+import { User } from '../database/entities/user.entity';
+import { CacheService } from '../cache/cache.service';
+import { HoldService } from '../common/services/hold.service';
+import { RealtimePublisherService } from '../common/services/realtime-publisher.service';
+import { DomainEvent, DomainEventType } from '../common/events/domain-event';
+import { REALTIME_CHANNEL, RealtimeEvent, RealtimeEventType } from '../common/events/realtime-event';
+import { Money } from '../common/money/money';
+import { EventBusService } from '../events/event-bus.service';
+import { TransferService } from '../transfer/transfer.service';
+import { StreamQueryDto } from './dto/stream-query.dto';
+
+// Name of the event bus consumer that turns domain events into pushes
+const REALTIME_CONSUMER = 'realtime';
+
+// Events after which the balances of the transaction's wallets are pushed
+const BALANCE_EVENT_TYPES = [
+  DomainEventType.TRANSFER_COMPLETED,
+  DomainEventType.TRANSFER_FAILED,
+  DomainEventType.TRANSFER_CANCELLED,
+  DomainEventType.REFUND_COMPLETED,
+  DomainEventType.REFUND_FAILED,
+  DomainEventType.FUNDS_DEPOSITED,
+  DomainEventType.WITHDRAWAL_COMPLETED,
+  DomainEventType.WITHDRAWAL_FAILED,
+  DomainEventType.SAGA_COMPENSATED,
+];
+
+// Events that bring money into the destination wallet from another one
+const RECEIVED_EVENT_TYPES = [DomainEventType.TRANSFER_COMPLETED, DomainEventType.REFUND_COMPLETED];
+
+/**
+ * Pushes wallet updates to connected clients. Updates are published once, by
+ * whichever instance handles the domain event or runs the saga, to a Redis
+ * channel; every instance listens on it and forwards to its own connections.
+ */
+@Injectable()
+export class RealtimeService implements OnModuleInit {
+  private readonly logger = new Logger(RealtimeService.name);
+  // Connections on this instance by the wallet they watch
+  private readonly listeners = new Map<string, Set<Subscriber<MessageEvent>>>();
+
+  constructor(
+    @InjectRepository(Wallet)
+    private walletRepository: Repository<Wallet>,
+    @InjectRepository(Transaction)
+    private transactionRepository: Repository<Transaction>,
+    private cacheService: CacheService,
+    private holdService: HoldService,
+    private realtimePublisher: RealtimePublisherService,
+    private eventBus: EventBusService,
+    private transferService: TransferService,
+    private configService: ConfigService,
+  ) {}
+
+  async onModuleInit() {
+    await this.cacheService.subscribe(REALTIME_CHANNEL, message => this.dispatch(message));
+    this.eventBus.subscribe(REALTIME_CONSUMER, event => this.publishDomainEvent(event), BALANCE_EVENT_TYPES);
+  }
+
+  /**
+   * Stream of updates for the user's wallets, starting with their current balances.
+   * Wallets opened after connecting need a new connection.
+   */
+  async stream(user: User, query: StreamQueryDto): Promise<Observable<MessageEvent>> {
+    const wallets = await this.walletRepository.find({
+      where: { userId: user.id, isActive: true, ...(query.walletId && { id: query.walletId }) },
+    });
+
+    if (query.walletId && wallets.length === 0) {
+      throw new NotFoundException('Wallet not found');
+    }
+
+    const walletIds = wallets.map(wallet => wallet.id);
+    const snapshots = await this.getBalanceEvents(wallets);
+    const heartbeatMs = Number(this.configService.get('REALTIME_HEARTBEAT_INTERVAL_MS', 25000));
+
+    return new Observable<MessageEvent>(subscriber => {
+      for (const snapshot of snapshots) {
+        subscriber.next(this.toMessageEvent(snapshot));
+      }
+
+      for (const walletId of walletIds) {
+        const listeners = this.listeners.get(walletId) || new Set();
+        listeners.add(subscriber);
+        this.listeners.set(walletId, listeners);
+      }
+
+      // Keeps proxies from closing an idle connection
+      const heartbeat = setInterval(() => {
+        subscriber.next({ type: 'heartbeat', data: { at: new Date().toISOString() } });
+      }, heartbeatMs);
+
+      return () => {
+        clearInterval(heartbeat);
+
+        for (const walletId of walletIds) {
+          const listeners = this.listeners.get(walletId);
+          listeners?.delete(subscriber);
+          if (listeners?.size === 0) {
+            this.listeners.delete(walletId);
+          }
+        }
+      };
+    });
+  }
+
+  /**
+   * Push the new balances of the transaction's wallets, and the transfer itself to
+   * the wallet that received it
+   */
+  private async publishDomainEvent(event: DomainEvent): Promise<void> {
+    const walletIds = [...new Set([event.payload.sourceWalletId, event.payload.destinationWalletId].filter(Boolean))];
+    const wallets = await this.walletRepository.find({ where: { id: In(walletIds) } });
+
+    for (const balance of await this.getBalanceEvents(wallets, event.aggregateId)) {
+      await this.realtimePublisher.publish(balance.type, balance.walletId, balance.data);
+    }
+
+    const destinationWalletId = event.payload.destinationWalletId;
+    if (!RECEIVED_EVENT_TYPES.includes(event.type) || !destinationWalletId) {
+      return;
+    }
+
+    const transaction = await this.transactionRepository.findOne({ where: { id: event.aggregateId } });
+    if (transaction) {
+      await this.realtimePublisher.publish(RealtimeEventType.TRANSFER_RECEIVED, destinationWalletId, {
+        transaction: await this.transferService.describeTransaction(transaction, destinationWalletId),
+      });
+    }
+  }
+
+  private async getBalanceEvents(wallets: Wallet[], transactionId?: string): Promise<RealtimeEvent[]> {
+    const heldAmounts = await this.holdService.getHeldAmounts(wallets.map(wallet => wallet.id));
+    const occurredAt = new Date().toISOString();
+
+    return wallets.map(wallet => ({
+      type: RealtimeEventType.BALANCE_CHANGED,
+      walletId: wallet.id,
+      data: {
+        currency: wallet.currency,
+        balance: wallet.balance,
+        ledgerBalance: wallet.balance,
+        availableBalance: Money.fromDecimal(wallet.balance)
+          .subtract(Money.fromDecimal(heldAmounts.get(wallet.id) ?? 0))
+          .toString(),
+        ...(transactionId && { transactionId }),
+      },
+      occurredAt,
+    }));
+  }
+
+  /**
+   * Forward a message from the Redis channel to this instance's connections for its wallet
+   */
+  private dispatch(message: string): void {
+    let event: RealtimeEvent;
+    try {
+      event = JSON.parse(message);
+    } catch {
+      this.logger.warn('Ignoring malformed realtime message');
+      return;
+    }
+
+    const listeners = this.listeners.get(event.walletId);
+    if (!listeners) {
+      return;
+    }
+
+    const messageEvent = this.toMessageEvent(event);
+    for (const subscriber of listeners) {
+      subscriber.next(messageEvent);
+    }
+  }
+
+  private toMessageEvent(event: RealtimeEvent): MessageEvent {
+    return {
+      type: event.type,
+      data: { walletId: event.walletId, ...event.data, occurredAt: event.occurredAt },
+    };
+  }
+}
@@ -0,0 +1,40 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ScheduledTransferStatus } from '../../database/entities/scheduled-transfer.entity';
+
+export class ScheduledTransferResponseDto {
+  @ApiProperty({ example: 'uuid-string' })
+  id: string;
+
+  @ApiProperty({ example: 'uuid-of-source-wallet' })
+  sourceWalletId: string;
+
+  @ApiProperty({ example: 'uuid-of-destination-wallet' })
+  destinationWalletId: string;
+
+  @ApiProperty({ example: '50.25' })
+  amount: string;
+
+  @ApiProperty({ example: 'Birthday present', nullable: true })
+  description: string | null;
+
+  @ApiProperty({ example: '2024-01-15T09:00:00Z' })
+  executeAt: Date;
+
+  @ApiProperty({ example: 'SCHEDULED', enum: ScheduledTransferStatus })
+  status: ScheduledTransferStatus;
+
+  @ApiProperty({ example: 'uuid-of-transaction', nullable: true })
+  transactionId: string | null;
+
+  @ApiProperty({ example: 'insufficient_balance', nullable: true })
+  failureCode: string | null;
+
+  @ApiProperty({ example: 'Insufficient balance', nullable: true })
+  failureReason: string | null;
+
+  @ApiProperty({ example: '2024-01-15T09:00:03Z', nullable: true })
+  executedAt: Date | null;
+
+  @ApiProperty({ example: '2023-12-01T10:00:00Z' })
+  createdAt: Date;
+}
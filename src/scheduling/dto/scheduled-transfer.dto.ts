@@ -0,0 +1,34 @@
+import { IsUUID, IsOptional, IsString, IsDateString, IsEnum } from 'class-validator';
+import { ApiProperty, PartialType } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { ScheduledTransferStatus } from '../../database/entities/scheduled-transfer.entity';
+import { IsMoneyAmount } from '../../common/money/is-money-amount.decorator';
+
+export class CreateScheduledTransferDto {
+  @ApiProperty({ example: 'uuid-of-destination-wallet' })
+  @IsUUID()
+  destinationWalletId: string;
+
+  @ApiProperty({ example: 50.25 })
+  @IsMoneyAmount()
+  @Type(() => Number)
+  amount: number;
+
+  @ApiProperty({ example: 'Birthday present', required: false })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ example: '2024-01-15T09:00:00Z', description: 'When to run the transfer; must be in the future' })
+  @IsDateString()
+  executeAt: string;
+}
+
+export class UpdateScheduledTransferDto extends PartialType(CreateScheduledTransferDto) {}
+
+export class ScheduledTransferQueryDto {
+  @ApiProperty({ required: false, enum: ScheduledTransferStatus })
+  @IsOptional()
+  @IsEnum(ScheduledTransferStatus)
+  status?: ScheduledTransferStatus;
+}
@@ -0,0 +1,61 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { StandingOrderFrequency, StandingOrderStatus } from '../../database/entities/standing-order.entity';
+
+export class StandingOrderResponseDto {
+  @ApiProperty({ example: 'uuid-string' })
+  id: string;
+
+  @ApiProperty({ example: 'uuid-of-source-wallet' })
+  sourceWalletId: string;
+
+  @ApiProperty({ example: 'uuid-of-destination-wallet' })
+  destinationWalletId: string;
+
+  @ApiProperty({ example: '1200.00' })
+  amount: string;
+
+  @ApiProperty({ example: 'Rent', nullable: true })
+  description: string | null;
+
+  @ApiProperty({ example: 'MONTHLY', enum: StandingOrderFrequency })
+  frequency: StandingOrderFrequency;
+
+  @ApiProperty({ example: '0 9 * * 1', nullable: true })
+  cronExpression: string | null;
+
+  @ApiProperty({ example: '2024-01-01T09:00:00Z' })
+  startAt: Date;
+
+  @ApiProperty({ example: '2024-12-31T23:59:59Z', nullable: true })
+  endAt: Date | null;
+
+  @ApiProperty({ example: 12, nullable: true })
+  maxOccurrences: number | null;
+
+  @ApiProperty({ example: 'ACTIVE', enum: StandingOrderStatus })
+  status: StandingOrderStatus;
+
+  @ApiProperty({ example: 3, description: 'Occurrences run so far, paid or given up on' })
+  occurrenceCount: number;
+
+  @ApiProperty({ example: '2024-04-01T09:00:00Z', nullable: true, description: 'When the next attempt is due' })
+  nextRunAt: Date | null;
+
+  @ApiProperty({ example: 1, description: 'Retries used by the pending occurrence' })
+  retryAttempt: number;
+
+  @ApiProperty({ example: 'uuid-of-transaction', nullable: true })
+  lastTransactionId: string | null;
+
+  @ApiProperty({ example: 'insufficient_balance', nullable: true })
+  lastFailureCode: string | null;
+
+  @ApiProperty({ example: 'Insufficient balance', nullable: true })
+  lastFailureReason: string | null;
+
+  @ApiProperty({ example: '2024-03-01T09:00:02Z', nullable: true })
+  lastRunAt: Date | null;
+
+  @ApiProperty({ example: '2023-12-01T10:00:00Z' })
+  createdAt: Date;
+}
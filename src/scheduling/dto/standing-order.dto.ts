@@ -0,0 +1,88 @@
+import { IsUUID, IsOptional, IsString, IsDateString, IsEnum, IsInt, Min, ValidateIf, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { StandingOrderFrequency, StandingOrderStatus } from '../../database/entities/standing-order.entity';
+import { IsMoneyAmount } from '../../common/money/is-money-amount.decorator';
+
+export class CreateStandingOrderDto {
+  @ApiProperty({ example: 'uuid-of-destination-wallet' })
+  @IsUUID()
+  destinationWalletId: string;
+
+  @ApiProperty({ example: 1200.00 })
+  @IsMoneyAmount()
+  @Type(() => Number)
+  amount: number;
+
+  @ApiProperty({ example: 'Rent', required: false })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ example: 'MONTHLY', enum: StandingOrderFrequency })
+  @IsEnum(StandingOrderFrequency)
+  frequency: StandingOrderFrequency;
+
+  @ApiProperty({
+    example: '0 9 * * 1',
+    required: false,
+    description: 'Five-field cron expression in UTC; required for CRON orders',
+  })
+  @ValidateIf(dto => dto.frequency === StandingOrderFrequency.CRON)
+  @IsString()
+  @IsNotEmpty()
+  cronExpression?: string;
+
+  @ApiProperty({
+    example: '2024-01-01T09:00:00Z',
+    required: false,
+    description: 'First run (interval schedules) or earliest run (cron); defaults to now',
+  })
+  @IsOptional()
+  @IsDateString()
+  startAt?: string;
+
+  @ApiProperty({ example: '2024-12-31T23:59:59Z', required: false, description: 'No occurrences after this time' })
+  @IsOptional()
+  @IsDateString()
+  endAt?: string;
+
+  @ApiProperty({ example: 12, required: false, description: 'Stop after this many occurrences' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  maxOccurrences?: number;
+}
+
+export class UpdateStandingOrderDto {
+  @ApiProperty({ example: 1250.00, required: false })
+  @IsOptional()
+  @IsMoneyAmount()
+  @Type(() => Number)
+  amount?: number;
+
+  @ApiProperty({ example: 'Rent', required: false })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ example: '2025-06-30T23:59:59Z', required: false })
+  @IsOptional()
+  @IsDateString()
+  endAt?: string;
+
+  @ApiProperty({ example: 24, required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  maxOccurrences?: number;
+}
+
+export class StandingOrderQueryDto {
+  @ApiProperty({ required: false, enum: StandingOrderStatus })
+  @IsOptional()
+  @IsEnum(StandingOrderStatus)
+  status?: StandingOrderStatus;
+}
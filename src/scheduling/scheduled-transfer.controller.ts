@@ -0,0 +1,94 @@
+import { Controller, Post, Get, Patch, Body, Param, Query, UseGuards, Request, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiBearerAuth, ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { ScheduledTransferService } from './scheduled-transfer.service';
+import {
+  CreateScheduledTransferDto,
+  UpdateScheduledTransferDto,
+  ScheduledTransferQueryDto,
+} from './dto/scheduled-transfer.dto';
+import { ScheduledTransferResponseDto } from './dto/scheduled-transfer-response.dto';
+import { Idempotent } from '../common/decorators/idempotent.decorator';
+
+@ApiTags('Scheduled Transfers')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('wallets/:walletId/scheduled-transfers')
+export class ScheduledTransferController {
+  constructor(private readonly scheduledTransferService: ScheduledTransferService) {}
+
+  @Post()
+  @Idempotent()
+  @ApiOperation({ summary: 'Schedule a transfer to run at a future time' })
+  @ApiResponse({ status: 201, description: 'Transfer scheduled', type: ScheduledTransferResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid schedule or wallets' })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async createScheduledTransfer(
+    @Param('walletId') walletId: string,
+    @Request() req,
+    @Body() createScheduledTransferDto: CreateScheduledTransferDto,
+  ): Promise<ScheduledTransferResponseDto> {
+    return this.scheduledTransferService.createScheduledTransfer(walletId, req.user, createScheduledTransferDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List scheduled transfers of a wallet' })
+  @ApiResponse({ status: 200, description: 'Scheduled transfers retrieved successfully', type: [ScheduledTransferResponseDto] })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getScheduledTransfers(
+    @Param('walletId') walletId: string,
+    @Request() req,
+    @Query() query: ScheduledTransferQueryDto,
+  ): Promise<ScheduledTransferResponseDto[]> {
+    return this.scheduledTransferService.getScheduledTransfers(walletId, req.user.id, query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a scheduled transfer, including why it failed' })
+  @ApiResponse({ status: 200, description: 'Scheduled transfer retrieved successfully', type: ScheduledTransferResponseDto })
+  @ApiResponse({ status: 404, description: 'Scheduled transfer not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getScheduledTransfer(
+    @Param('walletId') walletId: string,
+    @Param('id') id: string,
+    @Request() req,
+  ): Promise<ScheduledTransferResponseDto> {
+    return this.scheduledTransferService.getScheduledTransfer(walletId, id, req.user.id);
+  }
+
+  @Patch(':id')
+  @Idempotent()
+  @ApiOperation({ summary: 'Change a scheduled transfer before it runs' })
+  @ApiResponse({ status: 200, description: 'Scheduled transfer updated', type: ScheduledTransferResponseDto })
+  @ApiResponse({ status: 400, description: 'Scheduled transfer has already run or been cancelled' })
+  @ApiResponse({ status: 404, description: 'Scheduled transfer not found' })
+  @ApiResponse({ status: 409, description: 'Scheduled transfer has started running' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async updateScheduledTransfer(
+    @Param('walletId') walletId: string,
+    @Param('id') id: string,
+    @Request() req,
+    @Body() updateScheduledTransferDto: UpdateScheduledTransferDto,
+  ): Promise<ScheduledTransferResponseDto> {
+    return this.scheduledTransferService.updateScheduledTransfer(walletId, id, req.user, updateScheduledTransferDto);
+  }
+
+  @Post(':id/cancel')
+  @Idempotent()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Cancel a scheduled transfer before it runs' })
+  @ApiResponse({ status: 200, description: 'Scheduled transfer cancelled', type: ScheduledTransferResponseDto })
+  @ApiResponse({ status: 400, description: 'Scheduled transfer has already run or been cancelled' })
+  @ApiResponse({ status: 404, description: 'Scheduled transfer not found' })
+  @ApiResponse({ status: 409, description: 'Scheduled transfer has started running' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async cancelScheduledTransfer(
+    @Param('walletId') walletId: string,
+    @Param('id') id: string,
+    @Request() req,
+  ): Promise<ScheduledTransferResponseDto> {
+    return this.scheduledTransferService.cancelScheduledTransfer(walletId, id, req.user.id);
+  }
+}
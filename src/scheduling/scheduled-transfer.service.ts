@@ -0,0 +1,260 @@
+import { Injectable, NotFoundException, BadRequestException, ConflictException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ScheduledTransfer, ScheduledTransferStatus } from '../database/entities/scheduled-transfer.entity';
+import { Wallet } from '../database/entities/wallet.entity';
+import { User } from '../database/entities/user.entity';
+import { Money } from '../common/money/money';
+import { TransferService } from '../transfer/transfer.service';
+import { describeTransferFailure } from '../transfer/transfer-failure';
+import {
+  CreateScheduledTransferDto,
+  UpdateScheduledTransferDto,
+  ScheduledTransferQueryDto,
+} from './dto/scheduled-transfer.dto';
+import { ScheduledTransferResponseDto } from './dto/scheduled-transfer-response.dto';
+
+@Injectable()
+export class ScheduledTransferService {
+  private readonly logger = new Logger(ScheduledTransferService.name);
+
+  constructor(
+    @InjectRepository(ScheduledTransfer)
+    private scheduledTransferRepository: Repository<ScheduledTransfer>,
+    @InjectRepository(Wallet)
+    private walletRepository: Repository<Wallet>,
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+    private transferService: TransferService,
+  ) {}
+
+  /**
+   * Schedule a transfer for later. Balance and limits are checked when it runs.
+   */
+  async createScheduledTransfer(
+    walletId: string,
+    user: User,
+    createScheduledTransferDto: CreateScheduledTransferDto,
+  ): Promise<ScheduledTransferResponseDto> {
+    const { destinationWalletId, amount, description, executeAt } = createScheduledTransferDto;
+
+    await this.validateWallets(walletId, destinationWalletId, user.id);
+    const runAt = this.parseExecuteAt(executeAt);
+
+    const scheduled = await this.scheduledTransferRepository.save(
+      this.scheduledTransferRepository.create({
+        userId: user.id,
+        sourceWalletId: walletId,
+        destinationWalletId,
+        amount: Money.fromDecimal(amount).toString(),
+        description,
+        executeAt: runAt,
+      }),
+    );
+
+    this.logger.log(`Scheduled transfer ${scheduled.id}: wallet=${walletId}, amount=${amount}, executeAt=${runAt.toISOString()}`);
+
+    return this.mapToScheduledTransferResponseDto(scheduled);
+  }
+
+  async getScheduledTransfers(
+    walletId: string,
+    userId: string,
+    query: ScheduledTransferQueryDto,
+  ): Promise<ScheduledTransferResponseDto[]> {
+    await this.findOwnedWallet(walletId, userId);
+
+    const scheduledTransfers = await this.scheduledTransferRepository.find({
+      where: query.status ? { sourceWalletId: walletId, status: query.status } : { sourceWalletId: walletId },
+      order: { executeAt: 'ASC' },
+      take: 100,
+    });
+
+    return scheduledTransfers.map(scheduled => this.mapToScheduledTransferResponseDto(scheduled));
+  }
+
+  async getScheduledTransfer(walletId: string, id: string, userId: string): Promise<ScheduledTransferResponseDto> {
+    const scheduled = await this.findOwnedScheduledTransfer(walletId, id, userId);
+    return this.mapToScheduledTransferResponseDto(scheduled);
+  }
+
+  async updateScheduledTransfer(
+    walletId: string,
+    id: string,
+    user: User,
+    updateScheduledTransferDto: UpdateScheduledTransferDto,
+  ): Promise<ScheduledTransferResponseDto> {
+    const scheduled = await this.findOwnedScheduledTransfer(walletId, id, user.id);
+    this.assertPending(scheduled);
+
+    const { destinationWalletId, amount, description, executeAt } = updateScheduledTransferDto;
+    const changes: Partial<ScheduledTransfer> = {};
+
+    if (destinationWalletId !== undefined) {
+      await this.validateWallets(walletId, destinationWalletId, user.id);
+      changes.destinationWalletId = destinationWalletId;
+    }
+    if (amount !== undefined) changes.amount = Money.fromDecimal(amount).toString();
+    if (description !== undefined) changes.description = description;
+    if (executeAt !== undefined) changes.executeAt = this.parseExecuteAt(executeAt);
+
+    await this.applyWhilePending(scheduled.id, changes);
+
+    return this.getScheduledTransfer(walletId, id, user.id);
+  }
+
+  async cancelScheduledTransfer(walletId: string, id: string, userId: string): Promise<ScheduledTransferResponseDto> {
+    const scheduled = await this.findOwnedScheduledTransfer(walletId, id, userId);
+    this.assertPending(scheduled);
+
+    await this.applyWhilePending(scheduled.id, { status: ScheduledTransferStatus.CANCELLED });
+    this.logger.log(`Cancelled scheduled transfer ${scheduled.id}`);
+
+    return this.getScheduledTransfer(walletId, id, userId);
+  }
+
+  /**
+   * Run a claimed scheduled transfer through the regular transfer path and record
+   * the outcome. The idempotency key is fixed per scheduled transfer, so a run
+   * picked up again after a crash cannot pay twice.
+   */
+  async executeScheduledTransfer(scheduled: ScheduledTransfer): Promise<void> {
+    const idempotencyKey = `scheduled-transfer:${scheduled.id}`;
+
+    try {
+      const user = await this.userRepository.findOne({
+        where: { id: scheduled.userId, isActive: true },
+      });
+
+      if (!user) {
+        throw new BadRequestException('Owner account is inactive');
+      }
+
+      const result = await this.transferService.transferFunds(scheduled.sourceWalletId, user, {
+        destinationWalletId: scheduled.destinationWalletId,
+        amount: scheduled.amount,
+        description: scheduled.description || 'Scheduled transfer',
+        idempotencyKey,
+      });
+
+      scheduled.status = ScheduledTransferStatus.COMPLETED;
+      scheduled.transactionId = result.id;
+      scheduled.failureCode = null;
+      scheduled.failureReason = null;
+
+      this.logger.log(`Scheduled transfer ${scheduled.id} completed as transaction ${result.id}`);
+
+    } catch (error) {
+      if (error instanceof ConflictException) {
+        // An earlier run is still in flight; leave the claim to expire and look again
+        this.logger.warn(`Scheduled transfer ${scheduled.id} is still in progress, will check again`);
+        return;
+      }
+
+      const failure = describeTransferFailure(error);
+      const transaction = await this.transferService.getTransactionByIdempotencyKey(idempotencyKey);
+
+      scheduled.status = ScheduledTransferStatus.FAILED;
+      scheduled.transactionId = transaction?.id || null;
+      scheduled.failureCode = failure.code;
+      scheduled.failureReason = failure.reason;
+
+      this.logger.warn(`Scheduled transfer ${scheduled.id} failed (${failure.code}): ${failure.reason}`);
+    }
+
+    scheduled.executedAt = new Date();
+    await this.scheduledTransferRepository.save(scheduled);
+  }
+
+  private async validateWallets(sourceWalletId: string, destinationWalletId: string, userId: string): Promise<void> {
+    if (sourceWalletId === destinationWalletId) {
+      throw new BadRequestException('Cannot transfer to the same wallet');
+    }
+
+    const sourceWallet = await this.findOwnedWallet(sourceWalletId, userId);
+
+    const destinationWallet = await this.walletRepository.findOne({
+      where: { id: destinationWalletId, isActive: true },
+    });
+
+    if (!destinationWallet) {
+      throw new NotFoundException('Destination wallet not found or inactive');
+    }
+
+    // FX quotes expire within minutes, so they cannot be fixed in advance
+    if (sourceWallet.currency !== destinationWallet.currency) {
+      throw new BadRequestException('Scheduled transfers must be between wallets of the same currency');
+    }
+  }
+
+  private async findOwnedWallet(walletId: string, userId: string): Promise<Wallet> {
+    const wallet = await this.walletRepository.findOne({
+      where: { id: walletId, userId, isActive: true },
+    });
+
+    if (!wallet) {
+      throw new NotFoundException('Wallet not found');
+    }
+
+    return wallet;
+  }
+
+  private async findOwnedScheduledTransfer(walletId: string, id: string, userId: string): Promise<ScheduledTransfer> {
+    const scheduled = await this.scheduledTransferRepository.findOne({
+      where: { id, sourceWalletId: walletId, userId },
+    });
+
+    if (!scheduled) {
+      throw new NotFoundException('Scheduled transfer not found');
+    }
+
+    return scheduled;
+  }
+
+  private parseExecuteAt(executeAt: string): Date {
+    const runAt = new Date(executeAt);
+
+    if (runAt.getTime() <= Date.now()) {
+      throw new BadRequestException('executeAt must be in the future');
+    }
+
+    return runAt;
+  }
+
+  private assertPending(scheduled: ScheduledTransfer): void {
+    if (!scheduled.isPending()) {
+      throw new BadRequestException(`Scheduled transfer is ${scheduled.status} and can no longer be changed`);
+    }
+  }
+
+  /**
+   * Only touch the row if the scheduler has not claimed it in the meantime
+   */
+  private async applyWhilePending(id: string, changes: Partial<ScheduledTransfer>): Promise<void> {
+    const result = await this.scheduledTransferRepository.update(
+      { id, status: ScheduledTransferStatus.SCHEDULED },
+      changes,
+    );
+
+    if (!result.affected) {
+      throw new ConflictException('Scheduled transfer has already started running');
+    }
+  }
+
+  private mapToScheduledTransferResponseDto(scheduled: ScheduledTransfer): ScheduledTransferResponseDto {
+    return {
+      id: scheduled.id,
+      sourceWalletId: scheduled.sourceWalletId,
+      destinationWalletId: scheduled.destinationWalletId,
+      amount: scheduled.amount,
+      description: scheduled.description || null,
+      executeAt: scheduled.executeAt,
+      status: scheduled.status,
+      transactionId: scheduled.transactionId || null,
+      failureCode: scheduled.failureCode || null,
+      failureReason: scheduled.failureReason || null,
+      executedAt: scheduled.executedAt || null,
+      createdAt: scheduled.createdAt,
+    };
+  }
+}
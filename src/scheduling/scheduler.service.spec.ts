@@ -0,0 +1,123 @@
+import { BadRequestException, ConflictException, Logger } from '@nestjs/common';
+import { ScheduledTransfer, ScheduledTransferStatus } from '../database/entities/scheduled-transfer.entity';
+import { ScheduledTransferService } from './scheduled-transfer.service';
+import { SchedulerService } from './scheduler.service';
+
+describe('SchedulerService', () => {
+  const due = (data: Partial<ScheduledTransfer> = {}) =>
+    Object.assign(new ScheduledTransfer(), {
+      id: 'scheduled-1',
+      userId: 'user-1',
+      sourceWalletId: 'wallet-1',
+      destinationWalletId: 'wallet-2',
+      amount: 25,
+      status: ScheduledTransferStatus.SCHEDULED,
+      executeAt: new Date(Date.now() - 1000),
+      ...data,
+    });
+
+  const createScheduler = (candidates: ScheduledTransfer[], claimed = 1) => {
+    const claimQuery: any = {};
+    for (const method of ['where', 'orWhere', 'andWhere', 'orderBy', 'take', 'update', 'set']) {
+      claimQuery[method] = jest.fn(() => claimQuery);
+    }
+    claimQuery.getMany = jest.fn(async () => candidates);
+    claimQuery.execute = jest.fn(async () => ({ affected: claimed }));
+
+    const scheduledTransferRepository = {
+      createQueryBuilder: jest.fn(() => claimQuery),
+      save: jest.fn(async scheduled => scheduled),
+    };
+    const transferService = {
+      transferFunds: jest.fn(async () => ({ id: 'transaction-1' })),
+      getTransactionByIdempotencyKey: jest.fn(async () => null),
+    };
+    const userRepository = { findOne: jest.fn(async () => ({ id: 'user-1' })) };
+    const configService = { get: jest.fn((_, fallback) => fallback) };
+
+    const scheduledTransferService = new ScheduledTransferService(
+      scheduledTransferRepository as any,
+      {} as any,
+      userRepository as any,
+      transferService as any,
+    );
+    const standingOrderRepository = { createQueryBuilder: jest.fn(() => ({ ...claimQuery, getMany: async () => [] })) };
+    const scheduler = new SchedulerService(
+      scheduledTransferRepository as any,
+      standingOrderRepository as any,
+      scheduledTransferService,
+      { executeStandingOrder: jest.fn() } as any,
+      configService as any,
+    );
+
+    return { scheduler, claimQuery, scheduledTransferRepository, transferService };
+  };
+
+  beforeAll(() => Logger.overrideLogger(false));
+
+  it('claims a due transfer and runs it with an idempotency key fixed to the schedule', async () => {
+    const scheduled = due();
+    const { scheduler, claimQuery, transferService } = createScheduler([scheduled]);
+
+    await scheduler.runDueWork();
+
+    expect(claimQuery.set).toHaveBeenCalledWith(expect.objectContaining({ status: ScheduledTransferStatus.PROCESSING }));
+    expect(claimQuery.andWhere).toHaveBeenCalledWith('status = :status', { status: ScheduledTransferStatus.SCHEDULED });
+    expect(transferService.transferFunds).toHaveBeenCalledWith('wallet-1', { id: 'user-1' }, expect.objectContaining({
+      amount: 25,
+      idempotencyKey: 'scheduled-transfer:scheduled-1',
+    }));
+    expect(scheduled).toEqual(expect.objectContaining({ status: ScheduledTransferStatus.COMPLETED, transactionId: 'transaction-1' }));
+  });
+
+  it('skips a transfer another instance claimed first', async () => {
+    const scheduled = due();
+    const { scheduler, transferService, scheduledTransferRepository } = createScheduler([scheduled], 0);
+
+    await scheduler.runDueWork();
+
+    expect(transferService.transferFunds).not.toHaveBeenCalled();
+    expect(scheduledTransferRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('reclaims a stale run only while its claim is still stale', async () => {
+    const scheduled = due({ status: ScheduledTransferStatus.PROCESSING, claimedAt: new Date(Date.now() - 600000) });
+    const { scheduler, claimQuery, transferService } = createScheduler([scheduled]);
+
+    await scheduler.runDueWork();
+
+    expect(claimQuery.andWhere).toHaveBeenCalledWith('"claimedAt" < :staleBefore', { staleBefore: expect.any(Date) });
+    // A retry reuses the key, so a transfer that already went through is not paid twice
+    expect(transferService.transferFunds).toHaveBeenCalledWith(
+      'wallet-1',
+      expect.anything(),
+      expect.objectContaining({ idempotencyKey: 'scheduled-transfer:scheduled-1' }),
+    );
+  });
+
+  it('leaves the claim to expire while an earlier run is still in flight', async () => {
+    const scheduled = due();
+    const { scheduler, transferService, scheduledTransferRepository } = createScheduler([scheduled]);
+    transferService.transferFunds.mockRejectedValueOnce(new ConflictException('Transaction is already in progress'));
+
+    await scheduler.runDueWork();
+
+    expect(scheduled.status).toBe(ScheduledTransferStatus.PROCESSING);
+    expect(scheduledTransferRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('records why a transfer failed', async () => {
+    const scheduled = due();
+    const { scheduler, transferService } = createScheduler([scheduled]);
+    transferService.transferFunds.mockRejectedValueOnce(new BadRequestException('Insufficient balance'));
+
+    await scheduler.runDueWork();
+
+    expect(scheduled).toEqual(expect.objectContaining({
+      status: ScheduledTransferStatus.FAILED,
+      failureCode: 'insufficient_balance',
+      failureReason: 'Insufficient balance',
+    }));
+    expect(scheduled.executedAt).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,151 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { ScheduledTransfer, ScheduledTransferStatus } from '../database/entities/scheduled-transfer.entity';
+import { StandingOrder, StandingOrderStatus } from '../database/entities/standing-order.entity';
+import { ScheduledTransferService } from './scheduled-transfer.service';
+import { StandingOrderService } from './standing-order.service';
+
+/**
+ * Polls for due scheduled transfers and standing order occurrences and runs them. Rows are claimed with a
+ * conditional update, so several instances can poll side by side; a claim that
+ * goes stale (the instance died mid-run) is picked up again.
+ */
+@Injectable()
+export class SchedulerService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(SchedulerService.name);
+  private readonly BATCH_SIZE = 50;
+  private pollTimer: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    @InjectRepository(ScheduledTransfer)
+    private scheduledTransferRepository: Repository<ScheduledTransfer>,
+    @InjectRepository(StandingOrder)
+    private standingOrderRepository: Repository<StandingOrder>,
+    private scheduledTransferService: ScheduledTransferService,
+    private standingOrderService: StandingOrderService,
+    private configService: ConfigService,
+  ) {}
+
+  onApplicationBootstrap() {
+    const intervalMs = Number(this.configService.get('SCHEDULER_POLL_INTERVAL_MS', 15000));
+    this.pollTimer = setInterval(() => {
+      this.runDueWork().catch(error => this.logger.error('Scheduler run failed:', error));
+    }, intervalMs);
+  }
+
+  onModuleDestroy() {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+    }
+  }
+
+  async runDueWork(): Promise<void> {
+    if (this.running) {
+      this.logger.debug('Scheduler already running, skipping');
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.runDueScheduledTransfers();
+      await this.runDueStandingOrders();
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async runDueScheduledTransfers(): Promise<void> {
+    const staleBefore = new Date(Date.now() - this.getClaimTimeoutMs());
+
+    const candidates = await this.scheduledTransferRepository
+      .createQueryBuilder('scheduled')
+      .where('scheduled.status = :scheduled AND scheduled.executeAt <= :now', {
+        scheduled: ScheduledTransferStatus.SCHEDULED,
+        now: new Date(),
+      })
+      .orWhere('scheduled.status = :processing AND scheduled.claimedAt < :staleBefore', {
+        processing: ScheduledTransferStatus.PROCESSING,
+        staleBefore,
+      })
+      .orderBy('scheduled.executeAt', 'ASC')
+      .take(this.BATCH_SIZE)
+      .getMany();
+
+    for (const candidate of candidates) {
+      if (!(await this.claimScheduledTransfer(candidate, staleBefore))) continue;
+
+      try {
+        await this.scheduledTransferService.executeScheduledTransfer(candidate);
+      } catch (error) {
+        // The claim expires and the run is retried with the same idempotency key
+        this.logger.error(`Scheduled transfer ${candidate.id} could not be recorded:`, error);
+      }
+    }
+  }
+
+  private async runDueStandingOrders(): Promise<void> {
+    const staleBefore = new Date(Date.now() - this.getClaimTimeoutMs());
+
+    const candidates = await this.standingOrderRepository
+      .createQueryBuilder('standingOrder')
+      .where('standingOrder.status = :active', { active: StandingOrderStatus.ACTIVE })
+      .andWhere('standingOrder.nextRunAt <= :now', { now: new Date() })
+      .andWhere('(standingOrder.claimedAt IS NULL OR standingOrder.claimedAt < :staleBefore)', { staleBefore })
+      .orderBy('standingOrder.nextRunAt', 'ASC')
+      .take(this.BATCH_SIZE)
+      .getMany();
+
+    for (const candidate of candidates) {
+      // Claim only if nothing (another instance, a pause or a resume) has touched the order since it was read
+      const result = await this.standingOrderRepository
+        .createQueryBuilder()
+        .update(StandingOrder)
+        .set({ claimedAt: () => 'CURRENT_TIMESTAMP' })
+        .where('id = :id', { id: candidate.id })
+        .andWhere('status = :active', { active: StandingOrderStatus.ACTIVE })
+        .andWhere('"nextRunAt" = :nextRunAt', { nextRunAt: candidate.nextRunAt })
+        .andWhere('("claimedAt" IS NULL OR "claimedAt" < :staleBefore)', { staleBefore })
+        .execute();
+
+      if (result.affected !== 1) continue;
+
+      try {
+        await this.standingOrderService.executeStandingOrder(candidate);
+      } catch (error) {
+        // The claim expires and the occurrence is retried with the same idempotency key
+        this.logger.error(`Standing order ${candidate.id} could not be recorded:`, error);
+      }
+    }
+  }
+
+  /**
+   * Claim a due row; only one instance sees it in the state it was read in
+   */
+  private async claimScheduledTransfer(scheduled: ScheduledTransfer, staleBefore: Date): Promise<boolean> {
+    const query = this.scheduledTransferRepository
+      .createQueryBuilder()
+      .update(ScheduledTransfer)
+      .set({ status: ScheduledTransferStatus.PROCESSING, claimedAt: () => 'CURRENT_TIMESTAMP' })
+      .where('id = :id', { id: scheduled.id })
+      .andWhere('status = :status', { status: scheduled.status });
+
+    if (scheduled.status === ScheduledTransferStatus.PROCESSING) {
+      query.andWhere('"claimedAt" < :staleBefore', { staleBefore });
+    }
+
+    const result = await query.execute();
+    if (result.affected !== 1) {
+      return false;
+    }
+
+    scheduled.status = ScheduledTransferStatus.PROCESSING;
+    return true;
+  }
+
+  private getClaimTimeoutMs(): number {
+    return Number(this.configService.get('SCHEDULER_CLAIM_TIMEOUT_MS', 300000));
+  }
+}
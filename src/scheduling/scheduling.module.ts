@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ScheduledTransferController } from './scheduled-transfer.controller';
+import { StandingOrderController } from './standing-order.controller';
+import { ScheduledTransferService } from './scheduled-transfer.service';
+import { StandingOrderService } from './standing-order.service';
+import { SchedulerService } from './scheduler.service';
+import { ScheduledTransfer } from '../database/entities/scheduled-transfer.entity';
+import { StandingOrder } from '../database/entities/standing-order.entity';
+import { Wallet } from '../database/entities/wallet.entity';
+import { User } from '../database/entities/user.entity';
+import { AuthModule } from '../auth/auth.module';
+import { TransferModule } from '../transfer/transfer.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([ScheduledTransfer, StandingOrder, Wallet, User]),
+    AuthModule,
+    TransferModule,
+  ],
+  controllers: [ScheduledTransferController, StandingOrderController],
+  providers: [ScheduledTransferService, StandingOrderService, SchedulerService],
+})
+export class SchedulingModule {}
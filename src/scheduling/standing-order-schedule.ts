@@ -0,0 +1,75 @@
+import { StandingOrder, StandingOrderFrequency } from '../database/entities/standing-order.entity';
+import { nextCronOccurrence } from '../common/utils/cron.util';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type OrderSchedule = Pick<StandingOrder, 'frequency' | 'cronExpression' | 'startAt' | 'endAt'>;
+
+/**
+ * First nominal occurrence strictly after `after`, or null once the order has run past endAt.
+ * Interval schedules count from startAt, so they never drift.
+ */
+export function nextStandingOrderOccurrence(order: OrderSchedule, after: Date): Date | null {
+  const startAt = new Date(order.startAt);
+  const next = startAt.getTime() > after.getTime()
+    ? firstOccurrence(order, startAt)
+    : occurrenceAfter(order, startAt, after);
+
+  if (!next || (order.endAt && next.getTime() > new Date(order.endAt).getTime())) {
+    return null;
+  }
+
+  return next;
+}
+
+function firstOccurrence(order: OrderSchedule, startAt: Date): Date | null {
+  if (order.frequency === StandingOrderFrequency.CRON) {
+    return nextCronOccurrence(order.cronExpression, new Date(startAt.getTime() - 1));
+  }
+
+  return startAt;
+}
+
+function occurrenceAfter(order: OrderSchedule, startAt: Date, after: Date): Date | null {
+  switch (order.frequency) {
+    case StandingOrderFrequency.DAILY:
+      return addIntervals(startAt, after, DAY_MS);
+
+    case StandingOrderFrequency.WEEKLY:
+      return addIntervals(startAt, after, 7 * DAY_MS);
+
+    case StandingOrderFrequency.MONTHLY: {
+      let months = Math.max(
+        0,
+        (after.getUTCFullYear() - startAt.getUTCFullYear()) * 12 + after.getUTCMonth() - startAt.getUTCMonth(),
+      );
+      let candidate = addMonths(startAt, months);
+      while (candidate.getTime() <= after.getTime()) {
+        candidate = addMonths(startAt, ++months);
+      }
+      return candidate;
+    }
+
+    case StandingOrderFrequency.CRON:
+      return nextCronOccurrence(order.cronExpression, after);
+  }
+}
+
+function addIntervals(startAt: Date, after: Date, intervalMs: number): Date {
+  const elapsed = Math.floor((after.getTime() - startAt.getTime()) / intervalMs) + 1;
+  return new Date(startAt.getTime() + elapsed * intervalMs);
+}
+
+/**
+ * Same day of month as startAt, clamped to the end of shorter months (Jan 31 -> Feb 28 -> Mar 31)
+ */
+function addMonths(startAt: Date, months: number): Date {
+  const result = new Date(startAt.getTime());
+  const targetMonth = startAt.getUTCMonth() + months;
+  const daysInTarget = new Date(Date.UTC(startAt.getUTCFullYear(), targetMonth + 1, 0)).getUTCDate();
+
+  result.setUTCDate(1);
+  result.setUTCMonth(targetMonth);
+  result.setUTCDate(Math.min(startAt.getUTCDate(), daysInTarget));
+  return result;
+}
@@ -0,0 +1,120 @@
+import { Controller, Post, Get, Patch, Body, Param, Query, UseGuards, Request, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiBearerAuth, ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { StandingOrderService } from './standing-order.service';
+import { CreateStandingOrderDto, UpdateStandingOrderDto, StandingOrderQueryDto } from './dto/standing-order.dto';
+import { StandingOrderResponseDto } from './dto/standing-order-response.dto';
+import { Idempotent } from '../common/decorators/idempotent.decorator';
+
+@ApiTags('Standing Orders')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('wallets/:walletId/standing-orders')
+export class StandingOrderController {
+  constructor(private readonly standingOrderService: StandingOrderService) {}
+
+  @Post()
+  @Idempotent()
+  @ApiOperation({ summary: 'Create a recurring transfer' })
+  @ApiResponse({ status: 201, description: 'Standing order created', type: StandingOrderResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid schedule or wallets' })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async createStandingOrder(
+    @Param('walletId') walletId: string,
+    @Request() req,
+    @Body() createStandingOrderDto: CreateStandingOrderDto,
+  ): Promise<StandingOrderResponseDto> {
+    return this.standingOrderService.createStandingOrder(walletId, req.user, createStandingOrderDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List standing orders of a wallet' })
+  @ApiResponse({ status: 200, description: 'Standing orders retrieved successfully', type: [StandingOrderResponseDto] })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getStandingOrders(
+    @Param('walletId') walletId: string,
+    @Request() req,
+    @Query() query: StandingOrderQueryDto,
+  ): Promise<StandingOrderResponseDto[]> {
+    return this.standingOrderService.getStandingOrders(walletId, req.user.id, query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a standing order, including its last outcome' })
+  @ApiResponse({ status: 200, description: 'Standing order retrieved successfully', type: StandingOrderResponseDto })
+  @ApiResponse({ status: 404, description: 'Standing order not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getStandingOrder(
+    @Param('walletId') walletId: string,
+    @Param('id') id: string,
+    @Request() req,
+  ): Promise<StandingOrderResponseDto> {
+    return this.standingOrderService.getStandingOrder(walletId, id, req.user.id);
+  }
+
+  @Patch(':id')
+  @Idempotent()
+  @ApiOperation({ summary: 'Change the amount, description or end of a standing order' })
+  @ApiResponse({ status: 200, description: 'Standing order updated', type: StandingOrderResponseDto })
+  @ApiResponse({ status: 400, description: 'Standing order has ended or the change is invalid' })
+  @ApiResponse({ status: 404, description: 'Standing order not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async updateStandingOrder(
+    @Param('walletId') walletId: string,
+    @Param('id') id: string,
+    @Request() req,
+    @Body() updateStandingOrderDto: UpdateStandingOrderDto,
+  ): Promise<StandingOrderResponseDto> {
+    return this.standingOrderService.updateStandingOrder(walletId, id, req.user.id, updateStandingOrderDto);
+  }
+
+  @Post(':id/pause')
+  @Idempotent()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Pause a standing order' })
+  @ApiResponse({ status: 200, description: 'Standing order paused', type: StandingOrderResponseDto })
+  @ApiResponse({ status: 400, description: 'Standing order is not active' })
+  @ApiResponse({ status: 404, description: 'Standing order not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async pauseStandingOrder(
+    @Param('walletId') walletId: string,
+    @Param('id') id: string,
+    @Request() req,
+  ): Promise<StandingOrderResponseDto> {
+    return this.standingOrderService.pauseStandingOrder(walletId, id, req.user.id);
+  }
+
+  @Post(':id/resume')
+  @Idempotent()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Resume a paused standing order; occurrences missed while paused are skipped' })
+  @ApiResponse({ status: 200, description: 'Standing order resumed', type: StandingOrderResponseDto })
+  @ApiResponse({ status: 400, description: 'Standing order is not paused' })
+  @ApiResponse({ status: 404, description: 'Standing order not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async resumeStandingOrder(
+    @Param('walletId') walletId: string,
+    @Param('id') id: string,
+    @Request() req,
+  ): Promise<StandingOrderResponseDto> {
+    return this.standingOrderService.resumeStandingOrder(walletId, id, req.user.id);
+  }
+
+  @Post(':id/cancel')
+  @Idempotent()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Cancel a standing order' })
+  @ApiResponse({ status: 200, description: 'Standing order cancelled', type: StandingOrderResponseDto })
+  @ApiResponse({ status: 400, description: 'Standing order has already ended' })
+  @ApiResponse({ status: 404, description: 'Standing order not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async cancelStandingOrder(
+    @Param('walletId') walletId: string,
+    @Param('id') id: string,
+    @Request() req,
+  ): Promise<StandingOrderResponseDto> {
+    return this.standingOrderService.cancelStandingOrder(walletId, id, req.user.id);
+  }
+}
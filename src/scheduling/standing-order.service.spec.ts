@@ -0,0 +1,134 @@
+import { BadRequestException, Logger, NotFoundException } from '@nestjs/common';
+import { StandingOrder, StandingOrderFrequency, StandingOrderStatus } from '../database/entities/standing-order.entity';
+import { StandingOrderService } from './standing-order.service';
+
+describe('StandingOrderService', () => {
+  const HOUR_MS = 60 * 60 * 1000;
+  const DAY_MS = 24 * HOUR_MS;
+
+  const dueOrder = (data: Partial<StandingOrder> = {}) => {
+    const currentOccurrenceAt = new Date(Date.now() - 1000);
+    return Object.assign(new StandingOrder(), {
+      id: 'order-1',
+      userId: 'user-1',
+      sourceWalletId: 'wallet-1',
+      destinationWalletId: 'wallet-2',
+      amount: 25,
+      frequency: StandingOrderFrequency.DAILY,
+      startAt: currentOccurrenceAt,
+      status: StandingOrderStatus.ACTIVE,
+      occurrenceCount: 0,
+      retryAttempt: 0,
+      currentOccurrenceAt,
+      nextRunAt: currentOccurrenceAt,
+      ...data,
+    });
+  };
+
+  let standingOrderRepository: { update: jest.Mock };
+  let transferService: { transferFunds: jest.Mock; getTransactionByIdempotencyKey: jest.Mock };
+  let service: StandingOrderService;
+
+  // The outcome written back for the occurrence
+  const outcome = () => standingOrderRepository.update.mock.calls[0][1];
+
+  beforeAll(() => Logger.overrideLogger(false));
+
+  beforeEach(() => {
+    standingOrderRepository = { update: jest.fn(async () => ({ affected: 1 })) };
+    transferService = {
+      transferFunds: jest.fn(async () => ({ id: 'transaction-1' })),
+      getTransactionByIdempotencyKey: jest.fn(async () => ({ id: 'failed-transaction' })),
+    };
+    const config: Record<string, number> = { STANDING_ORDER_MAX_RETRIES: 2, STANDING_ORDER_RETRY_DELAY_MS: HOUR_MS };
+
+    service = new StandingOrderService(
+      standingOrderRepository as any,
+      {} as any,
+      { findOne: jest.fn(async () => ({ id: 'user-1' })) } as any,
+      transferService as any,
+      { get: jest.fn((key: string, fallback: unknown) => config[key] ?? fallback) } as any,
+    );
+  });
+
+  it('pays the occurrence with a key fixed to the occurrence and attempt, then moves to the next one', async () => {
+    const order = dueOrder();
+
+    await service.executeStandingOrder(order);
+
+    expect(transferService.transferFunds).toHaveBeenCalledWith(
+      'wallet-1',
+      { id: 'user-1' },
+      expect.objectContaining({ idempotencyKey: `standing-order:order-1:${order.currentOccurrenceAt.getTime()}:0` }),
+      { standingOrderId: 'order-1' },
+    );
+    expect(outcome()).toEqual(expect.objectContaining({
+      claimedAt: null,
+      lastTransactionId: 'transaction-1',
+      occurrenceCount: 1,
+      retryAttempt: 0,
+      nextRunAt: new Date(order.startAt.getTime() + DAY_MS),
+    }));
+  });
+
+  it('retries an occurrence that lacked funds with exponential backoff', async () => {
+    transferService.transferFunds.mockRejectedValue(new BadRequestException('Insufficient balance'));
+    const order = dueOrder({ retryAttempt: 1 });
+    const before = Date.now();
+
+    await service.executeStandingOrder(order);
+
+    const { nextRunAt, retryAttempt, occurrenceCount, lastFailureCode } = outcome();
+    expect(retryAttempt).toBe(2);
+    expect(occurrenceCount).toBeUndefined();
+    expect(lastFailureCode).toBe('insufficient_balance');
+    expect(nextRunAt.getTime()).toBeGreaterThanOrEqual(before + 2 * HOUR_MS);
+  });
+
+  it('skips the occurrence once the retries run out', async () => {
+    transferService.transferFunds.mockRejectedValue(new BadRequestException('Insufficient balance'));
+    const order = dueOrder({ retryAttempt: 2 });
+
+    await service.executeStandingOrder(order);
+
+    expect(outcome()).toEqual(expect.objectContaining({
+      retryAttempt: 0,
+      occurrenceCount: 1,
+      lastTransactionId: 'failed-transaction',
+      nextRunAt: new Date(order.startAt.getTime() + DAY_MS),
+    }));
+  });
+
+  it('does not let a retry run into the next occurrence', async () => {
+    transferService.transferFunds.mockRejectedValue(new BadRequestException('Insufficient balance'));
+    // The next daily occurrence is an hour away, before the first retry would be
+    const currentOccurrenceAt = new Date(Date.now() - DAY_MS + HOUR_MS / 2);
+    const order = dueOrder({ startAt: currentOccurrenceAt, currentOccurrenceAt });
+
+    await service.executeStandingOrder(order);
+
+    expect(outcome()).toEqual(expect.objectContaining({ retryAttempt: 0, occurrenceCount: 1 }));
+  });
+
+  it('pauses an order whose wallet is gone instead of retrying it', async () => {
+    transferService.transferFunds.mockRejectedValue(new NotFoundException('Destination wallet not found or inactive'));
+
+    await service.executeStandingOrder(dueOrder());
+
+    expect(outcome().lastFailureCode).toBe('invalid_wallet');
+    expect(standingOrderRepository.update).toHaveBeenLastCalledWith(
+      { id: 'order-1', status: StandingOrderStatus.ACTIVE },
+      { status: StandingOrderStatus.PAUSED },
+    );
+  });
+
+  it('completes the order after its last occurrence', async () => {
+    await service.executeStandingOrder(dueOrder({ maxOccurrences: 3, occurrenceCount: 2 }));
+
+    expect(outcome()).toEqual(expect.objectContaining({ occurrenceCount: 3, nextRunAt: null }));
+    expect(standingOrderRepository.update).toHaveBeenLastCalledWith(
+      expect.objectContaining({ id: 'order-1' }),
+      { status: StandingOrderStatus.COMPLETED },
+    );
+  });
+});
@@ -0,0 +1,396 @@
+import { Injectable, NotFoundException, BadRequestException, ConflictException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, In } from 'typeorm';
+import { StandingOrder, StandingOrderFrequency, StandingOrderStatus } from '../database/entities/standing-order.entity';
+import { Wallet } from '../database/entities/wallet.entity';
+import { User } from '../database/entities/user.entity';
+import { Money } from '../common/money/money';
+import { TransferService } from '../transfer/transfer.service';
+import { isValidCronExpression } from '../common/utils/cron.util';
+import { describeTransferFailure } from '../transfer/transfer-failure';
+import { nextStandingOrderOccurrence } from './standing-order-schedule';
+import { CreateStandingOrderDto, UpdateStandingOrderDto, StandingOrderQueryDto } from './dto/standing-order.dto';
+import { StandingOrderResponseDto } from './dto/standing-order-response.dto';
+
+@Injectable()
+export class StandingOrderService {
+  private readonly logger = new Logger(StandingOrderService.name);
+
+  constructor(
+    @InjectRepository(StandingOrder)
+    private standingOrderRepository: Repository<StandingOrder>,
+    @InjectRepository(Wallet)
+    private walletRepository: Repository<Wallet>,
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+    private transferService: TransferService,
+    private configService: ConfigService,
+  ) {}
+
+  async createStandingOrder(
+    walletId: string,
+    user: User,
+    createStandingOrderDto: CreateStandingOrderDto,
+  ): Promise<StandingOrderResponseDto> {
+    const { destinationWalletId, amount, description, frequency, cronExpression, startAt, endAt, maxOccurrences } =
+      createStandingOrderDto;
+
+    await this.validateWallets(walletId, destinationWalletId, user.id);
+
+    if (frequency === StandingOrderFrequency.CRON && !isValidCronExpression(cronExpression)) {
+      throw new BadRequestException(`Invalid cron expression: ${cronExpression}`);
+    }
+
+    const order = this.standingOrderRepository.create({
+      userId: user.id,
+      sourceWalletId: walletId,
+      destinationWalletId,
+      amount: Money.fromDecimal(amount).toString(),
+      description,
+      frequency,
+      cronExpression: frequency === StandingOrderFrequency.CRON ? cronExpression.trim() : null,
+      startAt: startAt ? new Date(startAt) : new Date(),
+      endAt: endAt ? new Date(endAt) : null,
+      maxOccurrences: maxOccurrences || null,
+    });
+
+    // A start in the past only anchors the schedule; nothing before now is run
+    const now = new Date();
+    const firstRun = nextStandingOrderOccurrence(
+      order,
+      new Date(Math.max(order.startAt.getTime(), now.getTime()) - 1),
+    );
+
+    if (!firstRun) {
+      throw new BadRequestException('Standing order has no occurrences before its end date');
+    }
+
+    order.currentOccurrenceAt = firstRun;
+    order.nextRunAt = firstRun;
+
+    const saved = await this.standingOrderRepository.save(order);
+
+    this.logger.log(
+      `Created standing order ${saved.id}: wallet=${walletId}, amount=${amount}, ` +
+      `frequency=${frequency}, firstRun=${firstRun.toISOString()}`
+    );
+
+    return this.mapToStandingOrderResponseDto(saved);
+  }
+
+  async getStandingOrders(
+    walletId: string,
+    userId: string,
+    query: StandingOrderQueryDto,
+  ): Promise<StandingOrderResponseDto[]> {
+    await this.findOwnedWallet(walletId, userId);
+
+    const orders = await this.standingOrderRepository.find({
+      where: query.status ? { sourceWalletId: walletId, status: query.status } : { sourceWalletId: walletId },
+      order: { createdAt: 'DESC' },
+      take: 100,
+    });
+
+    return orders.map(order => this.mapToStandingOrderResponseDto(order));
+  }
+
+  async getStandingOrder(walletId: string, id: string, userId: string): Promise<StandingOrderResponseDto> {
+    const order = await this.findOwnedStandingOrder(walletId, id, userId);
+    return this.mapToStandingOrderResponseDto(order);
+  }
+
+  async updateStandingOrder(
+    walletId: string,
+    id: string,
+    userId: string,
+    updateStandingOrderDto: UpdateStandingOrderDto,
+  ): Promise<StandingOrderResponseDto> {
+    const order = await this.findOwnedStandingOrder(walletId, id, userId);
+    this.assertOpen(order);
+
+    const { amount, description, endAt, maxOccurrences } = updateStandingOrderDto;
+    const changes: Partial<StandingOrder> = {};
+
+    if (amount !== undefined) changes.amount = Money.fromDecimal(amount).toString();
+    if (description !== undefined) changes.description = description;
+    if (maxOccurrences !== undefined) {
+      if (maxOccurrences <= order.occurrenceCount) {
+        throw new BadRequestException(`Standing order has already run ${order.occurrenceCount} times`);
+      }
+      changes.maxOccurrences = maxOccurrences;
+    }
+    if (endAt !== undefined) {
+      changes.endAt = new Date(endAt);
+      if (order.currentOccurrenceAt && order.currentOccurrenceAt.getTime() > changes.endAt.getTime()) {
+        throw new BadRequestException('endAt is before the next occurrence; cancel the standing order instead');
+      }
+    }
+
+    await this.applyWhileOpen(order.id, [StandingOrderStatus.ACTIVE, StandingOrderStatus.PAUSED], changes);
+
+    return this.getStandingOrder(walletId, id, userId);
+  }
+
+  async pauseStandingOrder(walletId: string, id: string, userId: string): Promise<StandingOrderResponseDto> {
+    const order = await this.findOwnedStandingOrder(walletId, id, userId);
+    if (order.status !== StandingOrderStatus.ACTIVE) {
+      throw new BadRequestException(`Standing order is ${order.status} and cannot be paused`);
+    }
+
+    await this.applyWhileOpen(order.id, [StandingOrderStatus.ACTIVE], { status: StandingOrderStatus.PAUSED });
+    this.logger.log(`Paused standing order ${order.id}`);
+
+    return this.getStandingOrder(walletId, id, userId);
+  }
+
+  /**
+   * Resume a paused order. Occurrences that fell due while paused are skipped, not caught up.
+   */
+  async resumeStandingOrder(walletId: string, id: string, userId: string): Promise<StandingOrderResponseDto> {
+    const order = await this.findOwnedStandingOrder(walletId, id, userId);
+    if (order.status !== StandingOrderStatus.PAUSED) {
+      throw new BadRequestException(`Standing order is ${order.status} and cannot be resumed`);
+    }
+
+    const now = new Date();
+    const changes: Partial<StandingOrder> = { status: StandingOrderStatus.ACTIVE };
+
+    if (!order.currentOccurrenceAt || order.currentOccurrenceAt.getTime() <= now.getTime()) {
+      const next = nextStandingOrderOccurrence(order, now);
+      if (!next) {
+        changes.status = StandingOrderStatus.COMPLETED;
+      }
+      changes.currentOccurrenceAt = next;
+      changes.nextRunAt = next;
+      changes.retryAttempt = 0;
+    }
+
+    await this.applyWhileOpen(order.id, [StandingOrderStatus.PAUSED], changes);
+    this.logger.log(`Resumed standing order ${order.id}, next run ${changes.nextRunAt?.toISOString() || order.nextRunAt?.toISOString()}`);
+
+    return this.getStandingOrder(walletId, id, userId);
+  }
+
+  async cancelStandingOrder(walletId: string, id: string, userId: string): Promise<StandingOrderResponseDto> {
+    const order = await this.findOwnedStandingOrder(walletId, id, userId);
+    this.assertOpen(order);
+
+    await this.applyWhileOpen(
+      order.id,
+      [StandingOrderStatus.ACTIVE, StandingOrderStatus.PAUSED],
+      { status: StandingOrderStatus.CANCELLED, nextRunAt: null },
+    );
+    this.logger.log(`Cancelled standing order ${order.id}`);
+
+    return this.getStandingOrder(walletId, id, userId);
+  }
+
+  /**
+   * Run the due occurrence of a claimed standing order and move the schedule on.
+   * The idempotency key is fixed per occurrence and attempt, so a run picked up
+   * again after a crash cannot pay twice, while a retry gets a fresh transaction.
+   */
+  async executeStandingOrder(order: StandingOrder): Promise<void> {
+    const idempotencyKey =
+      `standing-order:${order.id}:${order.currentOccurrenceAt.getTime()}:${order.retryAttempt}`;
+    const outcome: Partial<StandingOrder> = { claimedAt: null, lastRunAt: new Date() };
+    let pause = false;
+
+    try {
+      const user = await this.userRepository.findOne({
+        where: { id: order.userId, isActive: true },
+      });
+
+      if (!user) {
+        throw new BadRequestException('Owner account is inactive');
+      }
+
+      const result = await this.transferService.transferFunds(
+        order.sourceWalletId,
+        user,
+        {
+          destinationWalletId: order.destinationWalletId,
+          amount: order.amount,
+          description: order.description || 'Standing order',
+          idempotencyKey,
+        },
+        { standingOrderId: order.id },
+      );
+
+      outcome.lastTransactionId = result.id;
+      outcome.lastFailureCode = null;
+      outcome.lastFailureReason = null;
+      this.advance(order, outcome);
+
+      this.logger.log(`Standing order ${order.id} occurrence ${order.occurrenceCount + 1} paid as transaction ${result.id}`);
+
+    } catch (error) {
+      if (error instanceof ConflictException) {
+        // An earlier run is still in flight; leave the claim to expire and look again
+        this.logger.warn(`Standing order ${order.id} run is still in progress, will check again`);
+        return;
+      }
+
+      const failure = describeTransferFailure(error);
+      const transaction = await this.transferService.getTransactionByIdempotencyKey(idempotencyKey);
+
+      outcome.lastTransactionId = transaction?.id || null;
+      outcome.lastFailureCode = failure.code;
+      outcome.lastFailureReason = failure.reason;
+
+      const retryAt = failure.code === 'insufficient_balance' ? this.getRetryAt(order) : null;
+      if (retryAt) {
+        outcome.retryAttempt = order.retryAttempt + 1;
+        outcome.nextRunAt = retryAt;
+        this.logger.warn(`Standing order ${order.id} lacks funds, retry ${outcome.retryAttempt} at ${retryAt.toISOString()}`);
+      } else {
+        this.advance(order, outcome);
+        // The wallets are gone or closed; every later run would fail the same way
+        pause = failure.code === 'invalid_wallet';
+        this.logger.warn(`Standing order ${order.id} occurrence skipped (${failure.code}): ${failure.reason}`);
+      }
+    }
+
+    await this.standingOrderRepository.update(order.id, outcome);
+
+    // Status changes made by the owner while the run was in flight take precedence
+    if (!outcome.nextRunAt) {
+      await this.standingOrderRepository.update(
+        { id: order.id, status: In([StandingOrderStatus.ACTIVE, StandingOrderStatus.PAUSED]) },
+        { status: StandingOrderStatus.COMPLETED },
+      );
+      this.logger.log(`Standing order ${order.id} completed after ${outcome.occurrenceCount} occurrences`);
+    } else if (pause) {
+      await this.standingOrderRepository.update(
+        { id: order.id, status: StandingOrderStatus.ACTIVE },
+        { status: StandingOrderStatus.PAUSED },
+      );
+    }
+  }
+
+  /**
+   * Close out the current occurrence and schedule the next one, skipping any already missed
+   */
+  private advance(order: StandingOrder, outcome: Partial<StandingOrder>): void {
+    outcome.occurrenceCount = order.occurrenceCount + 1;
+    outcome.retryAttempt = 0;
+
+    const reachedMax = order.maxOccurrences && outcome.occurrenceCount >= order.maxOccurrences;
+    const after = new Date(Math.max(order.currentOccurrenceAt.getTime(), Date.now()));
+    const next = reachedMax ? null : nextStandingOrderOccurrence(order, after);
+
+    outcome.currentOccurrenceAt = next;
+    outcome.nextRunAt = next;
+  }
+
+  /**
+   * Back off exponentially, but never let a retry run into the next occurrence
+   */
+  private getRetryAt(order: StandingOrder): Date | null {
+    const maxRetries = Number(this.configService.get('STANDING_ORDER_MAX_RETRIES', 3));
+    if (order.retryAttempt >= maxRetries) {
+      return null;
+    }
+
+    const baseDelayMs = Number(this.configService.get('STANDING_ORDER_RETRY_DELAY_MS', 3600000));
+    const retryAt = new Date(Date.now() + baseDelayMs * Math.pow(2, order.retryAttempt));
+
+    const nextOccurrence = nextStandingOrderOccurrence(order, order.currentOccurrenceAt);
+    if (nextOccurrence && retryAt.getTime() >= nextOccurrence.getTime()) {
+      return null;
+    }
+
+    return retryAt;
+  }
+
+  private async validateWallets(sourceWalletId: string, destinationWalletId: string, userId: string): Promise<void> {
+    if (sourceWalletId === destinationWalletId) {
+      throw new BadRequestException('Cannot transfer to the same wallet');
+    }
+
+    const sourceWallet = await this.findOwnedWallet(sourceWalletId, userId);
+
+    const destinationWallet = await this.walletRepository.findOne({
+      where: { id: destinationWalletId, isActive: true },
+    });
+
+    if (!destinationWallet) {
+      throw new NotFoundException('Destination wallet not found or inactive');
+    }
+
+    // FX quotes expire within minutes, so they cannot be fixed in advance
+    if (sourceWallet.currency !== destinationWallet.currency) {
+      throw new BadRequestException('Standing orders must be between wallets of the same currency');
+    }
+  }
+
+  private async findOwnedWallet(walletId: string, userId: string): Promise<Wallet> {
+    const wallet = await this.walletRepository.findOne({
+      where: { id: walletId, userId, isActive: true },
+    });
+
+    if (!wallet) {
+      throw new NotFoundException('Wallet not found');
+    }
+
+    return wallet;
+  }
+
+  private async findOwnedStandingOrder(walletId: string, id: string, userId: string): Promise<StandingOrder> {
+    const order = await this.standingOrderRepository.findOne({
+      where: { id, sourceWalletId: walletId, userId },
+    });
+
+    if (!order) {
+      throw new NotFoundException('Standing order not found');
+    }
+
+    return order;
+  }
+
+  private assertOpen(order: StandingOrder): void {
+    if (!order.isOpen()) {
+      throw new BadRequestException(`Standing order is ${order.status} and can no longer be changed`);
+    }
+  }
+
+  /**
+   * Only touch the row if its status has not moved on in the meantime
+   */
+  private async applyWhileOpen(
+    id: string,
+    statuses: StandingOrderStatus[],
+    changes: Partial<StandingOrder>,
+  ): Promise<void> {
+    const result = await this.standingOrderRepository.update({ id, status: In(statuses) }, changes);
+
+    if (!result.affected) {
+      throw new ConflictException('Standing order was changed concurrently, please retry');
+    }
+  }
+
+  private mapToStandingOrderResponseDto(order: StandingOrder): StandingOrderResponseDto {
+    return {
+      id: order.id,
+      sourceWalletId: order.sourceWalletId,
+      destinationWalletId: order.destinationWalletId,
+      amount: order.amount,
+      description: order.description || null,
+      frequency: order.frequency,
+      cronExpression: order.cronExpression || null,
+      startAt: order.startAt,
+      endAt: order.endAt || null,
+      maxOccurrences: order.maxOccurrences || null,
+      status: order.status,
+      occurrenceCount: order.occurrenceCount,
+      nextRunAt: order.isOpen() ? order.nextRunAt : null,
+      retryAttempt: order.retryAttempt,
+      lastTransactionId: order.lastTransactionId || null,
+      lastFailureCode: order.lastFailureCode || null,
+      lastFailureReason: order.lastFailureReason || null,
+      lastRunAt: order.lastRunAt || null,
+      createdAt: order.createdAt,
+    };
+  }
+}
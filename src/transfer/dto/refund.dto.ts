@@ -0,0 +1,32 @@
+import { IsOptional, IsString, IsNotEmpty, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsMoneyAmount } from '../../common/money/is-money-amount.decorator';
+
+export class RefundDto {
+  @ApiProperty({
+    example: 20.00,
+    description: 'Amount to refund. Defaults to the amount not yet refunded.',
+    required: false,
+  })
+  @IsOptional()
+  @IsMoneyAmount()
+  @Type(() => Number)
+  amount?: number;
+
+  @ApiProperty({ example: 'Item returned' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  reason: string;
+
+  @ApiProperty({
+    example: 'unique-idempotency-key-12345',
+    description: 'Unique key to prevent duplicate refunds. If not provided, one will be generated.',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  idempotencyKey?: string;
+}
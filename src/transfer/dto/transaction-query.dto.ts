@@ -1,4 +1,4 @@
-import { IsOptional, IsEnum, IsDateString, IsNumber, IsPositive, Min } from 'class-validator';
+import { IsOptional, IsEnum, IsDateString, IsNumber, IsPositive, Min, IsUUID } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { Type } from 'class-transformer';
 import { TransactionType, TransactionStatus } from '../../database/entities/transaction.entity';
@@ -14,6 +14,11 @@ export class TransactionQueryDto {
   @IsEnum(TransactionStatus)
   status?: TransactionStatus;
 
+  @ApiProperty({ required: false, description: 'Only occurrences of this standing order' })
+  @IsOptional()
+  @IsUUID()
+  standingOrderId?: string;
+
   @ApiProperty({ required: false, example: '2023-01-01T00:00:00Z' })
   @IsOptional()
   @IsDateString()
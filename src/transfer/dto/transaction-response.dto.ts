@@ -5,8 +5,8 @@ export class TransactionResponseDto {
   @ApiProperty({ example: 'uuid-string' })
   id: string;
 
-  @ApiProperty({ example: 100.50 })
-  amount: number;
+  @ApiProperty({ example: '100.50' })
+  amount: string;
 
   @ApiProperty({ example: 'TRANSFER', enum: TransactionType })
   type: TransactionType;
@@ -26,6 +26,42 @@ export class TransactionResponseDto {
   @ApiProperty({ example: 'uuid-of-destination-wallet', nullable: true })
   destinationWalletId: string | null;
 
+  @ApiProperty({ example: 'uuid-of-refunded-transaction', nullable: true })
+  parentTransactionId: string | null;
+
+  @ApiProperty({ example: '20.00' })
+  refundedAmount: string;
+
+  @ApiProperty({ example: ['uuid-of-refund-transaction'], type: [String] })
+  refundTransactionIds: string[];
+
+  @ApiProperty({ example: '0.75', description: 'Fee charged to the sender on top of amount, in the source currency' })
+  feeAmount: string;
+
+  @ApiProperty({ example: 'uuid-of-standing-order', nullable: true })
+  standingOrderId: string | null;
+
+  @ApiProperty({ example: '2023-12-01T10:02:00Z', nullable: true, description: 'When a delayed transfer settles' })
+  settlesAt: Date | null;
+
+  @ApiProperty({ example: false, description: 'Whether the sender can still cancel it with POST /transactions/:id/cancel' })
+  cancellable: boolean;
+
+  @ApiProperty({ example: 'uuid-of-fx-quote', required: false })
+  quoteId?: string;
+
+  @ApiProperty({ example: 0.9154, required: false, description: 'Applied rate, after the spread' })
+  fxRate?: number;
+
+  @ApiProperty({ example: 0.005, required: false })
+  fxSpread?: number;
+
+  @ApiProperty({ example: '91.54', required: false, description: 'Amount credited, in the destination currency' })
+  destinationAmount?: string;
+
+  @ApiProperty({ example: 'EUR', required: false })
+  destinationCurrency?: string;
+
   @ApiProperty({ example: { sourceUserId: 'uuid', destinationUserId: 'uuid' } })
   metadata: Record<string, any>;
 
@@ -0,0 +1,36 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TransferQuoteResponseDto {
+  @ApiProperty({ example: 'uuid-of-source-wallet' })
+  sourceWalletId: string;
+
+  @ApiProperty({ example: 'uuid-of-destination-wallet' })
+  destinationWalletId: string;
+
+  @ApiProperty({ example: '50.25', description: 'Amount the recipient is sent, before any FX conversion' })
+  amount: string;
+
+  @ApiProperty({ example: 'J*** D.', required: false, description: 'Masked name of the recipient, when quoted by recipient' })
+  recipientName?: string;
+
+  @ApiProperty({ example: 'USD', description: 'Currency of amount, fee and total' })
+  currency: string;
+
+  @ApiProperty({ example: '0.75' })
+  feeAmount: string;
+
+  @ApiProperty({ example: '51.00', description: 'Amount plus fee, debited from the source wallet' })
+  totalDebit: string;
+
+  @ApiProperty({ example: 'uuid-of-fee-schedule', nullable: true })
+  feeScheduleId: string | null;
+
+  @ApiProperty({ example: 'uuid-of-fx-quote', required: false })
+  quoteId?: string;
+
+  @ApiProperty({ example: '46.00', required: false, description: 'Amount credited, in the destination currency' })
+  destinationAmount?: string;
+
+  @ApiProperty({ example: 'EUR', required: false })
+  destinationCurrency?: string;
+}
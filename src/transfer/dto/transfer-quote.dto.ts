@@ -0,0 +1,35 @@
+import { IsUUID, IsOptional, IsString, IsNotEmpty, ValidateIf } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsMoneyAmount } from '../../common/money/is-money-amount.decorator';
+
+export class TransferQuoteDto {
+  @ApiProperty({ example: 'uuid-of-destination-wallet', required: false })
+  @ValidateIf(o => !o.recipient)
+  @IsUUID()
+  destinationWalletId?: string;
+
+  @ApiProperty({
+    example: '@jane_doe',
+    description: 'Handle, verified email or verified phone number; the quote shows who it resolves to',
+    required: false
+  })
+  @ValidateIf(o => !o.destinationWalletId)
+  @IsString()
+  @IsNotEmpty()
+  recipient?: string;
+
+  @ApiProperty({ example: 50.25 })
+  @IsMoneyAmount()
+  @Type(() => Number)
+  amount: number;
+
+  @ApiProperty({
+    example: 'uuid-of-fx-quote',
+    description: 'FX quote from POST /fx/quotes; required when the wallets use different currencies',
+    required: false
+  })
+  @IsOptional()
+  @IsUUID()
+  quoteId?: string;
+}
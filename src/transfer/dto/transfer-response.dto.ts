@@ -5,8 +5,8 @@ export class TransferResponseDto {
   @ApiProperty({ example: 'uuid-string' })
   id: string;
 
-  @ApiProperty({ example: 50.25 })
-  amount: number;
+  @ApiProperty({ example: '50.25' })
+  amount: string;
 
   @ApiProperty({ example: 'Payment for dinner' })
   description: string;
@@ -20,6 +20,34 @@ export class TransferResponseDto {
   @ApiProperty({ example: 'COMPLETED', enum: TransactionStatus })
   status: TransactionStatus;
 
+  @ApiProperty({ example: '0.75', description: 'Fee charged to the sender on top of amount, in the source currency' })
+  feeAmount: string;
+
+  @ApiProperty({ example: 'uuid-of-refunded-transaction', nullable: true, required: false })
+  parentTransactionId?: string | null;
+
+  @ApiProperty({ example: 'uuid-of-fx-quote', required: false })
+  quoteId?: string;
+
+  @ApiProperty({ example: 0.9154, required: false, description: 'Applied rate, after the spread' })
+  fxRate?: number;
+
+  @ApiProperty({ example: 0.005, required: false })
+  fxSpread?: number;
+
+  @ApiProperty({ example: '91.54', required: false, description: 'Amount credited, in the destination currency' })
+  destinationAmount?: string;
+
+  @ApiProperty({ example: 'EUR', required: false })
+  destinationCurrency?: string;
+
+  @ApiProperty({
+    example: '2023-12-01T10:02:00Z',
+    required: false,
+    description: 'Set while a delayed transfer can still be cancelled; it settles at this time',
+  })
+  settlesAt?: Date;
+
   @ApiProperty({ example: '2023-12-01T10:00:00Z' })
   createdAt: Date;
 
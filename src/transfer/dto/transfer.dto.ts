@@ -1,17 +1,34 @@
-import { IsUUID, IsNumber, IsPositive, IsOptional, IsString, IsNotEmpty } from 'class-validator';
+import { IsUUID, IsOptional, IsString, IsNotEmpty, IsInt, Min, ValidateIf } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { Type } from 'class-transformer';
+import { IsMoneyAmount } from '../../common/money/is-money-amount.decorator';
+import { DecimalAmount } from '../../common/money/money';
 
 export class TransferDto {
-  @ApiProperty({ example: 'uuid-of-destination-wallet' })
+  @ApiProperty({
+    example: 'uuid-of-destination-wallet',
+    description: 'Destination wallet; give either this or recipient',
+    required: false
+  })
+  @ValidateIf(o => !o.recipient)
   @IsUUID()
-  destinationWalletId: string;
+  destinationWalletId?: string;
 
-  @ApiProperty({ example: 50.25 })
-  @IsNumber({ maxDecimalPlaces: 2 })
-  @IsPositive()
+  @ApiProperty({
+    example: '@jane_doe',
+    description: "Handle, verified email or verified phone number, resolved to the recipient's default wallet in the source currency",
+    required: false
+  })
+  @ValidateIf(o => !o.destinationWalletId)
+  @IsString()
+  @IsNotEmpty()
+  recipient?: string;
+
+  // Clients send a number; internal callers pass stored amounts as exact decimal strings
+  @ApiProperty({ example: 50.25, type: Number })
+  @IsMoneyAmount()
   @Type(() => Number)
-  amount: number;
+  amount: DecimalAmount;
 
   @ApiProperty({ example: 'Payment for dinner', required: false })
   @IsOptional()
@@ -36,4 +53,24 @@ export class TransferDto {
   @IsOptional()
   @IsString()
   externalReferenceId?: string;
-} 
\ No newline at end of file
+
+  @ApiProperty({
+    example: 'uuid-of-fx-quote',
+    description: 'FX quote from POST /fx/quotes; required when the wallets use different currencies',
+    required: false
+  })
+  @IsOptional()
+  @IsUUID()
+  quoteId?: string;
+
+  @ApiProperty({
+    example: 120,
+    description: 'Hold the transfer for this many seconds before it settles, during which POST /transactions/:id/cancel undoes it',
+    required: false
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  settlementDelaySeconds?: number;
+}
\ No newline at end of file
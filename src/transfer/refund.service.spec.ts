@@ -0,0 +1,144 @@
+import { Logger } from '@nestjs/common';
+import { Transaction, TransactionStatus, TransactionType, TransferState } from '../database/entities/transaction.entity';
+import { User } from '../database/entities/user.entity';
+import { Wallet } from '../database/entities/wallet.entity';
+import { REFUND_SAGA } from '../common/sagas/refund.saga';
+import { RefundService } from './refund.service';
+
+describe('RefundService', () => {
+  const user = Object.assign(new User(), { id: 'recipient' });
+  const completedTransfer = () =>
+    Object.assign(new Transaction(), {
+      id: 'transfer-1',
+      amount: '100.00',
+      type: TransactionType.TRANSFER,
+      status: TransactionStatus.COMPLETED,
+      transferState: TransferState.COMPLETED,
+      sourceWalletId: 'sender-wallet',
+      destinationWalletId: 'recipient-wallet',
+      metadata: { sourceUserId: 'sender' },
+    });
+
+  // Already-refunded totals come back from Postgres as decimal strings
+  const createManager = (options: { refunded?: string; recipientBalance?: string } = {}) => {
+    const refundedQuery: any = {};
+    for (const method of ['select', 'where', 'andWhere']) {
+      refundedQuery[method] = jest.fn(() => refundedQuery);
+    }
+    refundedQuery.getRawOne = jest.fn(async () => ({ total: options.refunded ?? '0' }));
+
+    return {
+      findOne: jest.fn(async entity =>
+        entity === Wallet
+          ? Object.assign(new Wallet(), { id: 'recipient-wallet', userId: 'recipient', balance: options.recipientBalance ?? '100.00' })
+          : completedTransfer(),
+      ),
+      createQueryBuilder: jest.fn(() => refundedQuery),
+      create: jest.fn((_, data) => Object.assign(new Transaction(), data)),
+      save: jest.fn(async refund => Object.assign(refund, { id: 'refund-1' })),
+    };
+  };
+
+  const createService = (manager: any, original = completedTransfer()) => {
+    const walletRepository = { findOne: jest.fn(async ({ where }) => (where.userId === 'recipient' ? { id: where.id } : null)) };
+    const transactionRepository = { findOne: jest.fn(async () => original) };
+    const idempotencyService = {
+      generateIdempotencyKey: jest.fn(() => 'generated-key'),
+      createRequestHash: jest.fn(() => 'hash'),
+      checkIdempotency: jest.fn(async () => ({ isNew: true })),
+      storeResult: jest.fn(),
+      storeFailure: jest.fn(),
+    };
+    const sagaService = { executeSaga: jest.fn(async (_, refund) => refund) };
+    const holdService = { getHeldAmount: jest.fn(async () => 0) };
+    const transferService = { mapToTransferResponseDto: jest.fn(refund => ({ id: refund.id, amount: refund.amount })) };
+
+    const service = new RefundService(
+      walletRepository as any,
+      transactionRepository as any,
+      idempotencyService as any,
+      sagaService as any,
+      holdService as any,
+      transferService as any,
+      { transaction: async work => work(manager) } as any,
+    );
+    return { service, sagaService, idempotencyService, holdService };
+  };
+
+  beforeAll(() => Logger.overrideLogger(false));
+
+  it('refunds the remainder by running the refund saga from recipient to sender', async () => {
+    const manager = createManager({ refunded: '30.00' });
+    const { service, sagaService } = createService(manager);
+
+    await expect(service.refundTransaction('transfer-1', user, { reason: 'Returned' })).resolves.toEqual({
+      id: 'refund-1',
+      amount: '70.00',
+    });
+
+    const [sagaName, refund, context] = sagaService.executeSaga.mock.calls[0] as any[];
+    expect(sagaName).toBe(REFUND_SAGA);
+    expect(refund).toEqual(expect.objectContaining({
+      type: TransactionType.REFUND,
+      sourceWalletId: 'recipient-wallet',
+      destinationWalletId: 'sender-wallet',
+      parentTransactionId: 'transfer-1',
+    }));
+    expect(context.metadata).toEqual(expect.objectContaining({ parentTransactionId: 'transfer-1', refundKind: 'RECIPIENT_REFUND' }));
+    expect(manager.findOne).toHaveBeenCalledWith(Transaction, expect.objectContaining({ lock: { mode: 'pessimistic_write' } }));
+  });
+
+  it('refuses a refund larger than what is left to refund', async () => {
+    const manager = createManager({ refunded: '99.99' });
+    const { service, sagaService, idempotencyService } = createService(manager);
+
+    await expect(service.refundTransaction('transfer-1', user, { amount: 0.02, reason: 'Too much' })).rejects.toThrow(
+      'Refund amount exceeds refundable remainder. Requested: 0.02, Remaining: 0.01',
+    );
+    expect(sagaService.executeSaga).not.toHaveBeenCalled();
+    expect(idempotencyService.storeFailure).toHaveBeenCalledWith('generated-key', expect.any(Error));
+  });
+
+  it('refuses a transfer that has been fully refunded', async () => {
+    const { service } = createService(createManager({ refunded: '100.00' }));
+
+    await expect(service.refundTransaction('transfer-1', user, { reason: 'Again' })).rejects.toThrow(
+      'Transaction has already been fully refunded',
+    );
+  });
+
+  it('refuses when held funds leave the recipient unable to pay the refund back', async () => {
+    const { service, holdService } = createService(createManager({ recipientBalance: '50.00' }));
+    holdService.getHeldAmount.mockResolvedValueOnce(20);
+
+    await expect(service.refundTransaction('transfer-1', user, { amount: 40, reason: 'Returned' })).rejects.toThrow(
+      'Insufficient balance to refund',
+    );
+  });
+
+  it('only lets the recipient refund a transfer', async () => {
+    const { service } = createService(createManager());
+
+    await expect(
+      service.refundTransaction('transfer-1', Object.assign(new User(), { id: 'sender' }), { reason: 'Mine' }),
+    ).rejects.toThrow('Only the recipient of a transfer can refund it');
+  });
+
+  it('refuses a transfer that has not completed', async () => {
+    const pending = Object.assign(completedTransfer(), { status: TransactionStatus.PROCESSING });
+    const { service } = createService(createManager(), pending);
+
+    await expect(service.reverseTransaction('transfer-1', user, { reason: 'Early' })).rejects.toThrow(
+      'Only completed transfers can be refunded',
+    );
+  });
+
+  it('lets an administrator reverse a transfer they did not receive', async () => {
+    const { service, sagaService } = createService(createManager());
+
+    await service.reverseTransaction('transfer-1', Object.assign(new User(), { id: 'admin' }), { reason: 'Fraud' });
+
+    const [, , context] = sagaService.executeSaga.mock.calls[0] as any[];
+    expect(context.metadata.refundKind).toBe('ADMIN_REVERSAL');
+  });
+});
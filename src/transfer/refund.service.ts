@@ -0,0 +1,249 @@
+import { Injectable, NotFoundException, BadRequestException, ForbiddenException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, DataSource } from 'typeorm';
+import { Wallet } from '../database/entities/wallet.entity';
+import { Transaction, TransactionType, TransactionStatus, TransferState } from '../database/entities/transaction.entity';
+import { User } from '../database/entities/user.entity';
+import { IdempotencyService, IdempotencyRequest } from '../common/services/idempotency.service';
+import { SagaService } from '../common/services/saga.service';
+import { SagaContext } from '../common/services/saga-registry.service';
+import { REFUND_SAGA } from '../common/sagas/refund.saga';
+import { HoldService } from '../common/services/hold.service';
+import { Money } from '../common/money/money';
+import { TransferService } from './transfer.service';
+import { RefundDto } from './dto/refund.dto';
+import { TransferResponseDto } from './dto/transfer-response.dto';
+
+export type RefundKind = 'RECIPIENT_REFUND' | 'ADMIN_REVERSAL';
+
+// Refunds in these statuses count against the refundable remainder
+const OUTSTANDING_REFUND_STATUSES = [
+  TransactionStatus.PENDING,
+  TransactionStatus.PROCESSING,
+  TransactionStatus.COMPLETED,
+];
+
+@Injectable()
+export class RefundService {
+  private readonly logger = new Logger(RefundService.name);
+
+  constructor(
+    @InjectRepository(Wallet)
+    private walletRepository: Repository<Wallet>,
+    @InjectRepository(Transaction)
+    private transactionRepository: Repository<Transaction>,
+    private idempotencyService: IdempotencyService,
+    private sagaService: SagaService,
+    private holdService: HoldService,
+    private transferService: TransferService,
+    private dataSource: DataSource,
+  ) {}
+
+  /**
+   * Refund a completed transfer, initiated by its recipient
+   */
+  async refundTransaction(transactionId: string, user: User, refundDto: RefundDto): Promise<TransferResponseDto> {
+    const original = await this.findRefundableTransaction(transactionId);
+
+    const destinationWallet = await this.walletRepository.findOne({
+      where: { id: original.destinationWalletId, userId: user.id },
+    });
+
+    if (!destinationWallet) {
+      throw new ForbiddenException('Only the recipient of a transfer can refund it');
+    }
+
+    return this.executeRefund(original, user, refundDto, 'RECIPIENT_REFUND');
+  }
+
+  /**
+   * Reverse a completed transfer on behalf of an administrator
+   */
+  async reverseTransaction(transactionId: string, admin: User, refundDto: RefundDto): Promise<TransferResponseDto> {
+    const original = await this.findRefundableTransaction(transactionId);
+
+    return this.executeRefund(original, admin, refundDto, 'ADMIN_REVERSAL');
+  }
+
+  private async executeRefund(
+    original: Transaction,
+    user: User,
+    refundDto: RefundDto,
+    refundKind: RefundKind,
+  ): Promise<TransferResponseDto> {
+    const endpoint = refundKind === 'ADMIN_REVERSAL'
+      ? `/admin/transactions/${original.id}/reverse`
+      : `/transactions/${original.id}/refund`;
+
+    const idempotencyKey = refundDto.idempotencyKey ||
+      this.idempotencyService.generateIdempotencyKey({
+        parentTransactionId: original.id,
+        amount: refundDto.amount,
+        userId: user.id,
+        timestamp: Date.now(),
+      });
+
+    const idempotencyPayload = {
+      destinationWalletId: original.sourceWalletId,
+      amount: refundDto.amount,
+      description: refundDto.reason,
+    };
+
+    const idempotencyRequest: IdempotencyRequest = {
+      key: idempotencyKey,
+      requestHash: this.idempotencyService.createRequestHash('POST', endpoint, idempotencyPayload, user.id),
+      endpoint,
+      method: 'POST',
+      userId: user.id,
+      payload: refundDto,
+    };
+
+    const idempotencyResult = await this.idempotencyService.checkIdempotency<TransferResponseDto>(
+      idempotencyKey,
+      idempotencyRequest
+    );
+
+    if (!idempotencyResult.isNew) {
+      if (idempotencyResult.existingResult) {
+        this.logger.log(`Returning cached refund result for idempotency key: ${idempotencyKey}`);
+        return idempotencyResult.existingResult;
+      }
+
+      if (idempotencyResult.transaction) {
+        return this.transferService.handleExistingTransaction(idempotencyResult.transaction);
+      }
+    }
+
+    try {
+      const refund = await this.createRefundRecord(original, user, refundDto, refundKind, idempotencyKey);
+
+      const sagaContext: SagaContext = {
+        transactionId: refund.id,
+        sourceWalletId: refund.sourceWalletId,
+        destinationWalletId: refund.destinationWalletId,
+        amount: refund.amount,
+        userId: user.id,
+        idempotencyKey,
+        metadata: {
+          description: refund.description,
+          parentTransactionId: original.id,
+          refundKind,
+          timestamp: new Date().toISOString(),
+        },
+      };
+
+      const completedRefund = await this.sagaService.executeSaga(REFUND_SAGA, refund, sagaContext);
+
+      this.logger.log(
+        `Refund completed: parent=${original.id}, refund=${completedRefund.id}, ` +
+        `amount=${completedRefund.amount}, kind=${refundKind}, idempotencyKey=${idempotencyKey}`
+      );
+
+      const result = this.transferService.mapToTransferResponseDto(completedRefund);
+      await this.idempotencyService.storeResult(idempotencyKey, result);
+
+      return result;
+
+    } catch (error) {
+      await this.idempotencyService.storeFailure(idempotencyKey, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create the REFUND transaction while holding a lock on the original,
+   * so concurrent refunds cannot exceed the original amount
+   */
+  private async createRefundRecord(
+    original: Transaction,
+    user: User,
+    refundDto: RefundDto,
+    refundKind: RefundKind,
+    idempotencyKey: string,
+  ): Promise<Transaction> {
+    return this.dataSource.transaction(async manager => {
+      const locked = await manager.findOne(Transaction, {
+        where: { id: original.id },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      const refunded = await manager
+        .createQueryBuilder(Transaction, 'refund')
+        .select('COALESCE(SUM(refund.amount), 0)', 'total')
+        .where('refund.parentTransactionId = :parentTransactionId', { parentTransactionId: locked.id })
+        .andWhere('refund.status IN (:...statuses)', { statuses: OUTSTANDING_REFUND_STATUSES })
+        .getRawOne();
+
+      const remaining = Money.fromDecimal(locked.amount).subtract(Money.fromDecimal(refunded.total));
+      const amount = refundDto.amount === undefined ? remaining : Money.fromDecimal(refundDto.amount);
+
+      if (!remaining.isPositive()) {
+        throw new BadRequestException('Transaction has already been fully refunded');
+      }
+
+      if (amount.greaterThan(remaining)) {
+        throw new BadRequestException(
+          `Refund amount exceeds refundable remainder. Requested: ${amount}, Remaining: ${remaining}`,
+        );
+      }
+
+      // The refund moves money back out of the recipient's wallet
+      const heldAmount = await this.holdService.getHeldAmount(locked.destinationWalletId, manager);
+      const recipientWallet = await manager.findOne(Wallet, { where: { id: locked.destinationWalletId } });
+
+      if (
+        !recipientWallet ||
+        Money.fromDecimal(recipientWallet.balance).subtract(Money.fromDecimal(heldAmount)).lessThan(amount)
+      ) {
+        throw new BadRequestException('Insufficient balance to refund');
+      }
+
+      const refund = manager.create(Transaction, {
+        amount: amount.toString(),
+        type: TransactionType.REFUND,
+        status: TransactionStatus.PENDING,
+        transferState: TransferState.INITIATED,
+        description: refundDto.reason,
+        sourceWalletId: locked.destinationWalletId,
+        destinationWalletId: locked.sourceWalletId,
+        parentTransactionId: locked.id,
+        idempotencyKey,
+        metadata: {
+          refundKind,
+          reason: refundDto.reason,
+          initiatedBy: user.id,
+          sourceUserId: recipientWallet.userId,
+          destinationUserId: locked.metadata?.sourceUserId,
+          initiatedAt: new Date().toISOString(),
+        },
+      });
+
+      return manager.save(refund);
+    });
+  }
+
+  private async findRefundableTransaction(transactionId: string): Promise<Transaction> {
+    const original = await this.transactionRepository.findOne({
+      where: { id: transactionId },
+    });
+
+    if (!original) {
+      throw new NotFoundException('Transaction not found');
+    }
+
+    if (original.type !== TransactionType.TRANSFER) {
+      throw new BadRequestException('Only transfers can be refunded');
+    }
+
+    if (!original.canBeCompensated()) {
+      throw new BadRequestException('Only completed transfers can be refunded');
+    }
+
+    // A refund would need its own quote for the reverse conversion
+    if (original.quoteId) {
+      throw new BadRequestException('Cross-currency transfers cannot be refunded yet');
+    }
+
+    return original;
+  }
+}
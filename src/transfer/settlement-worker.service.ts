@@ -0,0 +1,50 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TransferService } from './transfer.service';
+
+/**
+ * Settles delayed transfers once their cancellation window closes
+ */
+@Injectable()
+export class SettlementWorkerService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(SettlementWorkerService.name);
+  private pollTimer: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private transferService: TransferService,
+    private configService: ConfigService,
+  ) {}
+
+  onApplicationBootstrap() {
+    const intervalMs = Number(this.configService.get('TRANSFER_SETTLEMENT_POLL_INTERVAL_MS', 5000));
+    this.pollTimer = setInterval(() => {
+      this.runDueSettlements().catch(error => this.logger.error('Settlement worker run failed:', error));
+    }, intervalMs);
+  }
+
+  onModuleDestroy() {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+    }
+  }
+
+  async runDueSettlements(): Promise<void> {
+    if (this.running) {
+      this.logger.debug('Settlement worker already running, skipping');
+      return;
+    }
+
+    this.running = true;
+    try {
+      const claimTimeoutMs = Number(this.configService.get('TRANSFER_SETTLEMENT_CLAIM_TIMEOUT_MS', 300000));
+      const settled = await this.transferService.settleDueTransfers(new Date(Date.now() - claimTimeoutMs));
+
+      if (settled > 0) {
+        this.logger.log(`Settled ${settled} delayed transfers`);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+}
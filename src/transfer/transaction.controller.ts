@@ -0,0 +1,58 @@
+import { Controller, Post, Body, Param, UseGuards, Request, Headers, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiBearerAuth, ApiTags, ApiOperation, ApiResponse, ApiHeader } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RefundService } from './refund.service';
+import { TransferService } from './transfer.service';
+import { RefundDto } from './dto/refund.dto';
+import { TransferResponseDto } from './dto/transfer-response.dto';
+import { Idempotent } from '../common/decorators/idempotent.decorator';
+
+@ApiTags('Transactions')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('transactions')
+export class TransactionController {
+  constructor(
+    private readonly refundService: RefundService,
+    private readonly transferService: TransferService,
+  ) {}
+
+  @Post(':id/refund')
+  @ApiOperation({ summary: 'Refund a completed transfer in full or in part (recipient only)' })
+  @ApiHeader({
+    name: 'Idempotency-Key',
+    description: 'Optional idempotency key to prevent duplicate refunds',
+    required: false,
+  })
+  @ApiResponse({ status: 201, description: 'Refund completed successfully', type: TransferResponseDto })
+  @ApiResponse({ status: 400, description: 'Transaction cannot be refunded or amount exceeds remainder' })
+  @ApiResponse({ status: 403, description: 'Only the recipient can refund' })
+  @ApiResponse({ status: 404, description: 'Transaction not found' })
+  @ApiResponse({ status: 409, description: 'Refund already in progress (idempotency conflict)' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async refundTransaction(
+    @Param('id') id: string,
+    @Request() req,
+    @Body() refundDto: RefundDto,
+    @Headers('idempotency-key') idempotencyKeyHeader?: string,
+  ): Promise<TransferResponseDto> {
+    if (idempotencyKeyHeader && !refundDto.idempotencyKey) {
+      refundDto.idempotencyKey = idempotencyKeyHeader;
+    }
+
+    return this.refundService.refundTransaction(id, req.user, refundDto);
+  }
+
+  @Post(':id/cancel')
+  @Idempotent()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Cancel a transfer sent with a settlement delay before it settles (sender only)' })
+  @ApiResponse({ status: 200, description: 'Transfer cancelled and the held funds released', type: TransferResponseDto })
+  @ApiResponse({ status: 400, description: 'Transfer has no settlement delay or its window has closed' })
+  @ApiResponse({ status: 404, description: 'Transaction not found' })
+  @ApiResponse({ status: 409, description: 'Transfer is already settling' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async cancelTransaction(@Param('id') id: string, @Request() req): Promise<TransferResponseDto> {
+    return this.transferService.cancelPendingTransfer(id, req.user.id);
+  }
+}
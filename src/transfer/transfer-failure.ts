@@ -0,0 +1,31 @@
+import { HttpException } from '@nestjs/common';
+
+export interface TransferFailure {
+  code: string;
+  reason: string;
+}
+
+/**
+ * Turn an error from TransferService.transferFunds into something the owner can act on
+ */
+export function describeTransferFailure(error: any): TransferFailure {
+  let reason = error?.message || 'Transfer failed';
+
+  if (error instanceof HttpException) {
+    const response = error.getResponse() as any;
+    if (response?.errorDetails?.message) {
+      reason = response.errorDetails.message;
+    } else if (response?.message) {
+      reason = [].concat(response.message).join('; ');
+    }
+  }
+
+  return { code: getFailureCode(reason), reason };
+}
+
+function getFailureCode(reason: string): string {
+  if (/insufficient/i.test(reason)) return 'insufficient_balance';
+  if (/limit exceeded/i.test(reason)) return 'limit_exceeded';
+  if (/not found|inactive|not accessible/i.test(reason)) return 'invalid_wallet';
+  return 'transfer_failed';
+}
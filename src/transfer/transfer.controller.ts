@@ -1,9 +1,11 @@
-import { Controller, Post, Get, Body, Param, Query, UseGuards, Request, Headers } from '@nestjs/common';
+import { Controller, Post, Get, Body, Param, Query, UseGuards, Request, Headers, HttpCode, HttpStatus } from '@nestjs/common';
 import { ApiBearerAuth, ApiTags, ApiOperation, ApiResponse, ApiHeader } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { TransferService } from './transfer.service';
 import { TransferDto } from './dto/transfer.dto';
 import { TransferResponseDto } from './dto/transfer-response.dto';
+import { TransferQuoteDto } from './dto/transfer-quote.dto';
+import { TransferQuoteResponseDto } from './dto/transfer-quote-response.dto';
 import { TransactionQueryDto } from './dto/transaction-query.dto';
 import { TransactionHistoryResponseDto } from './dto/transaction-response.dto';
 
@@ -41,6 +43,21 @@ export class TransferController {
     return this.transferService.transferFunds(walletId, req.user, transferDto);
   }
 
+  @Post('transfer/quote')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Quote the fee and total debit of a transfer without executing it' })
+  @ApiResponse({ status: 200, description: 'Transfer quoted successfully', type: TransferQuoteResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid transfer request or insufficient balance' })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async quoteTransfer(
+    @Param('walletId') walletId: string,
+    @Request() req,
+    @Body() transferQuoteDto: TransferQuoteDto,
+  ): Promise<TransferQuoteResponseDto> {
+    return this.transferService.quoteTransfer(walletId, req.user, transferQuoteDto);
+  }
+
   @Get('transactions')
   @ApiOperation({ summary: 'Get transaction history for a wallet' })
   @ApiResponse({ status: 200, description: 'Transaction history retrieved successfully', type: TransactionHistoryResponseDto })
@@ -2,6 +2,9 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { TransferController } from './transfer.controller';
 import { TransferService } from './transfer.service';
+import { TransactionController } from './transaction.controller';
+import { RefundService } from './refund.service';
+import { SettlementWorkerService } from './settlement-worker.service';
 import { Wallet } from '../database/entities/wallet.entity';
 import { Transaction } from '../database/entities/transaction.entity';
 import { TransferLimit } from '../database/entities/transfer-limit.entity';
@@ -9,6 +12,9 @@ import { CacheModule } from '../cache/cache.module';
 import { AuthModule } from '../auth/auth.module';
 import { WalletModule } from '../wallet/wallet.module';
 import { CommonModule } from '../common/common.module';
+import { FxModule } from '../fx/fx.module';
+import { FeeModule } from '../fee/fee.module';
+import { AliasModule } from '../alias/alias.module';
 
 @Module({
   imports: [
@@ -17,9 +23,12 @@ import { CommonModule } from '../common/common.module';
     AuthModule,
     WalletModule,
     CommonModule,
+    FxModule,
+    FeeModule,
+    AliasModule,
   ],
-  controllers: [TransferController],
-  providers: [TransferService],
-  exports: [TransferService],
+  controllers: [TransferController, TransactionController],
+  providers: [TransferService, RefundService, SettlementWorkerService],
+  exports: [TransferService, RefundService],
 })
 export class TransferModule {} 
\ No newline at end of file
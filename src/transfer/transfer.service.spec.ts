@@ -0,0 +1,155 @@
+import { ConflictException, Logger } from '@nestjs/common';
+import { FindOperator } from 'typeorm';
+import { DELAYED_TRANSFER_SAGA } from '../common/sagas/delayed-transfer.saga';
+import { DomainEventType } from '../common/events/domain-event';
+import { Transaction, TransactionStatus, TransferState } from '../database/entities/transaction.entity';
+import { TransferService } from './transfer.service';
+
+describe('TransferService', () => {
+  let stored: Transaction;
+  let transactionRepository: Record<string, jest.Mock>;
+  let sagaService: { resumeSaga: jest.Mock; compensatePersistedSaga: jest.Mock };
+  let outboxService: { recordTransactionEvent: jest.Mock };
+  let service: TransferService;
+
+  // Enough of TypeORM's criteria for the conditional updates the service makes
+  const matchesCriterion = (actual: any, expected: unknown) => {
+    if (expected instanceof FindOperator && expected.type === 'moreThan') {
+      return actual > expected.value;
+    }
+    return actual === expected;
+  };
+
+  const createRepository = () => ({
+    findOne: jest.fn(async () => Object.assign(new Transaction(), stored)),
+    find: jest.fn(async () => [Object.assign(new Transaction(), stored)]),
+    save: jest.fn(async (transaction: Transaction) => Object.assign(stored, transaction)),
+    update: jest.fn(async (criteria: Record<string, unknown>, changes: Partial<Transaction>) => {
+      const matches = Object.entries(criteria).every(([key, value]) => matchesCriterion(stored[key], value));
+
+      if (matches) Object.assign(stored, changes);
+      return { affected: matches ? 1 : 0 };
+    }),
+  });
+
+  beforeAll(() => Logger.overrideLogger(false));
+
+  beforeEach(() => {
+    transactionRepository = createRepository();
+    sagaService = {
+      resumeSaga: jest.fn(async (transaction: Transaction) => transaction),
+      compensatePersistedSaga: jest.fn(async () => undefined),
+    };
+    outboxService = { recordTransactionEvent: jest.fn() };
+
+    service = new TransferService(
+      {} as any,
+      transactionRepository as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      sagaService as any,
+      {} as any,
+      {} as any,
+      outboxService as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      { get: jest.fn((_, fallback) => fallback) } as any,
+      { transaction: jest.fn(async work => work(transactionRepository)) } as any,
+    );
+  });
+
+  describe('delayed settlement', () => {
+    beforeEach(() => {
+      stored = Object.assign(new Transaction(), {
+        id: 'transaction-1',
+        amount: 25,
+        sourceWalletId: 'wallet-1',
+        destinationWalletId: 'wallet-2',
+        status: TransactionStatus.PENDING,
+        transferState: TransferState.PENDING_SETTLEMENT,
+        settlesAt: new Date(Date.now() - 1000),
+        metadata: { sourceUserId: 'sender' },
+        sagaState: { sagaName: DELAYED_TRANSFER_SAGA },
+      });
+    });
+
+    it('claims a transfer whose window has closed and resumes its saga', async () => {
+      await expect(service.settleDueTransfers(new Date())).resolves.toBe(1);
+
+      expect(sagaService.resumeSaga).toHaveBeenCalledWith(expect.objectContaining({
+        id: 'transaction-1',
+        status: TransactionStatus.PROCESSING,
+      }));
+      expect(stored.status).toBe(TransactionStatus.PROCESSING);
+      expect(stored.processedAt).toBeInstanceOf(Date);
+    });
+
+    it('skips a transfer the sender cancelled after it was picked up', async () => {
+      transactionRepository.find.mockImplementationOnce(async () => {
+        const snapshot = Object.assign(new Transaction(), stored);
+        stored.transferState = TransferState.COMPENSATION_PENDING;
+        return [snapshot];
+      });
+
+      await expect(service.settleDueTransfers(new Date())).resolves.toBe(0);
+      expect(sagaService.resumeSaga).not.toHaveBeenCalled();
+    });
+
+    it('takes over a settlement claimed by an instance that never got going', async () => {
+      const claimedAt = new Date(Date.now() - 10 * 60 * 1000);
+      Object.assign(stored, { status: TransactionStatus.PROCESSING, processedAt: claimedAt });
+
+      await expect(service.settleDueTransfers(new Date(Date.now() - 5 * 60 * 1000))).resolves.toBe(1);
+
+      expect(stored.processedAt.getTime()).toBeGreaterThan(claimedAt.getTime());
+      expect(sagaService.resumeSaga).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not count a settlement whose saga compensated', async () => {
+      sagaService.resumeSaga.mockRejectedValueOnce(new Error('Destination wallet is frozen'));
+
+      await expect(service.settleDueTransfers(new Date())).resolves.toBe(0);
+    });
+
+    it('lets the sender cancel before the window closes', async () => {
+      stored.settlesAt = new Date(Date.now() + 60 * 1000);
+
+      const cancelled = await service.cancelPendingTransfer('transaction-1', 'sender');
+
+      expect(sagaService.compensatePersistedSaga).toHaveBeenCalledWith(expect.objectContaining({ id: 'transaction-1' }));
+      expect(cancelled.status).toBe(TransactionStatus.CANCELLED);
+      expect(stored.transferState).toBe(TransferState.CANCELLED);
+      expect(outboxService.recordTransactionEvent).toHaveBeenCalledWith(
+        expect.anything(),
+        DomainEventType.TRANSFER_CANCELLED,
+        expect.objectContaining({ id: 'transaction-1' }),
+      );
+    });
+
+    it('refuses a cancel once the window has closed', async () => {
+      await expect(service.cancelPendingTransfer('transaction-1', 'sender')).rejects.toThrow(
+        'The cancellation window of this transfer has closed',
+      );
+      expect(sagaService.compensatePersistedSaga).not.toHaveBeenCalled();
+    });
+
+    it('refuses a cancel that loses the race to the settlement worker', async () => {
+      stored.settlesAt = new Date(Date.now() + 60 * 1000);
+      transactionRepository.findOne.mockImplementationOnce(async () => {
+        const snapshot = Object.assign(new Transaction(), stored);
+        stored.status = TransactionStatus.PROCESSING;
+        return snapshot;
+      });
+
+      await expect(service.cancelPendingTransfer('transaction-1', 'sender')).rejects.toThrow(ConflictException);
+      expect(sagaService.compensatePersistedSaga).not.toHaveBeenCalled();
+    });
+
+    it('only lets the sender cancel', async () => {
+      await expect(service.cancelPendingTransfer('transaction-1', 'recipient')).rejects.toThrow('Transaction not found');
+    });
+  });
+});
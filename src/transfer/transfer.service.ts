@@ -1,6 +1,7 @@
-import { Injectable, NotFoundException, BadRequestException, ForbiddenException, Logger, ConflictException } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException, Logger, ConflictException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, DataSource } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, DataSource, In, LessThan, LessThanOrEqual, MoreThan } from 'typeorm';
 import * as dayjs from 'dayjs';
 import { Wallet } from '../database/entities/wallet.entity';
 import { Transaction, TransactionType, TransactionStatus, TransferState } from '../database/entities/transaction.entity';
@@ -8,13 +9,49 @@ import { TransferLimit } from '../database/entities/transfer-limit.entity';
 import { User } from '../database/entities/user.entity';
 import { CacheService } from '../cache/cache.service';
 import { IdempotencyService, IdempotencyRequest } from '../common/services/idempotency.service';
-import { SagaService, SagaContext } from '../common/services/saga.service';
+import { SagaService, SagaState } from '../common/services/saga.service';
+import { SagaContext } from '../common/services/saga-registry.service';
+import { TRANSFER_SAGA, TransferFx, TransferFee } from '../common/sagas/transfer.saga';
+import { ESCROW_SAGA } from '../common/sagas/escrow.saga';
+import { AUTHORIZATION_SAGA } from '../common/sagas/authorization.saga';
+import { DELAYED_TRANSFER_SAGA } from '../common/sagas/delayed-transfer.saga';
+import { HoldService } from '../common/services/hold.service';
+import { DirectTransferService } from '../common/services/direct-transfer.service';
+import { OutboxService } from '../common/services/outbox.service';
+import { DomainEventType } from '../common/events/domain-event';
+import { DecimalAmount, Money } from '../common/money/money';
 import { WalletService } from '../wallet/wallet.service';
+import { FxService, FxQuote } from '../fx/fx.service';
+import { FeeService, FeeQuote } from '../fee/fee.service';
+import { AliasService } from '../alias/alias.service';
 import { TransferDto } from './dto/transfer.dto';
 import { TransferResponseDto } from './dto/transfer-response.dto';
+import { TransferQuoteDto } from './dto/transfer-quote.dto';
+import { TransferQuoteResponseDto } from './dto/transfer-quote-response.dto';
 import { TransactionQueryDto } from './dto/transaction-query.dto';
 import { TransactionResponseDto, TransactionHistoryResponseDto } from './dto/transaction-response.dto';
 
+export interface TransferItemValidation {
+  fee?: FeeQuote;
+  error?: any;
+}
+
+export interface TransferOptions {
+  // Set when the transfer is an occurrence of a standing order
+  standingOrderId?: string;
+  // Hold the funds in escrow until this time instead of crediting the recipient
+  escrowUntil?: Date;
+  // Reserve the funds until this time for a merchant to capture instead of crediting it
+  authorizeUntil?: Date;
+  // Keep the transfer cancellable with the funds held until this time
+  settleAt?: Date;
+  // Moves a closing wallet's balance to another wallet of the same owner: no fee, no transfer limits
+  sweep?: boolean;
+}
+
+// How long past settlesAt a delayed transfer's funds stay reserved for settlement to run
+const SETTLEMENT_RESERVATION_MS = 30 * 60 * 1000;
+
 @Injectable()
 export class TransferService {
   private readonly logger = new Logger(TransferService.name);
@@ -29,21 +66,33 @@ export class TransferService {
     private cacheService: CacheService,
     private idempotencyService: IdempotencyService,
     private sagaService: SagaService,
+    private holdService: HoldService,
+    private directTransferService: DirectTransferService,
+    private outboxService: OutboxService,
     private walletService: WalletService,
+    private fxService: FxService,
+    private feeService: FeeService,
+    private aliasService: AliasService,
+    private configService: ConfigService,
     private dataSource: DataSource,
   ) {}
 
   /**
    * Transfer funds with full idempotency and distributed transaction support
    */
-  async transferFunds(sourceWalletId: string, user: User, transferDto: TransferDto): Promise<TransferResponseDto> {
-    const { destinationWalletId, amount, description, externalReferenceId } = transferDto;
+  async transferFunds(
+    sourceWalletId: string,
+    user: User,
+    transferDto: TransferDto,
+    options: TransferOptions = {},
+  ): Promise<TransferResponseDto> {
+    const { amount, description, externalReferenceId, quoteId } = transferDto;
 
     // Generate or use provided idempotency key
     const idempotencyKey = transferDto.idempotencyKey || 
       this.idempotencyService.generateIdempotencyKey({
         sourceWalletId,
-        destinationWalletId,
+        destinationWalletId: transferDto.destinationWalletId || transferDto.recipient,
         amount,
         userId: user.id,
         timestamp: Date.now(),
@@ -81,11 +130,15 @@ export class TransferService {
       }
     }
 
+    // Resolve a handle, email or phone recipient before anything is reserved
+    const { destinationWalletId } = await this.resolveDestination(sourceWalletId, user, transferDto);
+    const settleAt = this.getSettleAt(transferDto.settlementDelaySeconds);
+
     // Validate transfer request
-    await this.validateTransferRequest(sourceWalletId, destinationWalletId, amount, user);
+    const fee = await this.validateTransferRequest(sourceWalletId, destinationWalletId, amount, user, quoteId, options.sweep);
 
     try {
-      // Execute transfer with saga pattern
+      // Execute transfer in one DB transaction, or through a saga when it suspends
       const result = await this.executeTransferSaga(
         sourceWalletId,
         destinationWalletId,
@@ -93,7 +146,10 @@ export class TransferService {
         description,
         user,
         idempotencyKey,
-        externalReferenceId
+        fee,
+        externalReferenceId,
+        quoteId,
+        settleAt ? { ...options, settleAt } : options
       );
 
       // Store successful result
@@ -109,18 +165,335 @@ export class TransferService {
   }
 
   /**
-   * Execute transfer using saga pattern
+   * Quote a transfer without executing it: runs the same checks and returns the fee
+   */
+  async quoteTransfer(sourceWalletId: string, user: User, transferQuoteDto: TransferQuoteDto): Promise<TransferQuoteResponseDto> {
+    const { amount, quoteId } = transferQuoteDto;
+
+    const { destinationWalletId, recipientName } = await this.resolveDestination(sourceWalletId, user, transferQuoteDto);
+    const fee = await this.validateTransferRequest(sourceWalletId, destinationWalletId, amount, user, quoteId);
+    const fxQuote = quoteId
+      ? await this.fxService.getQuoteForTransfer(quoteId, user.id, sourceWalletId, destinationWalletId, amount)
+      : undefined;
+
+    return {
+      sourceWalletId,
+      destinationWalletId,
+      ...(recipientName && { recipientName }),
+      amount: Money.fromDecimal(amount).toString(),
+      currency: fee.currency,
+      feeAmount: fee.amount,
+      totalDebit: Money.fromDecimal(amount).add(Money.fromDecimal(fee.amount)).toString(),
+      feeScheduleId: fee.scheduleId,
+      ...(fxQuote && {
+        quoteId: fxQuote.id,
+        destinationAmount: fxQuote.destinationAmount,
+        destinationCurrency: fxQuote.destinationCurrency,
+      }),
+    };
+  }
+
+  /**
+   * Pay out an escrowed transfer to its recipient by resuming its saga.
+   * A failed payout is compensated by the saga, returning the funds.
+   */
+  async releaseEscrowedTransfer(transactionId: string): Promise<TransferResponseDto> {
+    const transaction = await this.findSuspendedTransaction(transactionId, ESCROW_SAGA, 'Escrowed transfer');
+
+    if (transaction.status === TransactionStatus.COMPLETED) {
+      return this.mapToTransferResponseDto(transaction);
+    }
+
+    if (transaction.transferState !== TransferState.ESCROWED) {
+      if (transaction.isInProgress()) {
+        throw new ConflictException('Escrowed transfer is already being paid out');
+      }
+      throw new BadRequestException('Escrowed funds have already been returned');
+    }
+
+    transaction.status = TransactionStatus.PROCESSING;
+    await this.transactionRepository.save(transaction);
+
+    const released = await this.sagaService.resumeSaga(transaction);
+    return this.mapToTransferResponseDto(released);
+  }
+
+  /**
+   * Give escrowed funds back to the payer by compensating the saga, which releases the hold
+   */
+  async returnEscrowedTransfer(transactionId: string): Promise<void> {
+    const transaction = await this.findSuspendedTransaction(transactionId, ESCROW_SAGA, 'Escrowed transfer');
+    await this.cancelSuspendedTransfer(transaction, TransferState.ESCROWED, 'Escrowed transfer is already being paid out');
+  }
+
+  /**
+   * Capture all or part of an authorized transfer by resuming its saga. A partial
+   * capture is repriced before the debit, and the rest of the hold is let go with it.
+   * The amount counts against the payer's transfer limits only now.
+   */
+  async captureAuthorizedTransfer(transactionId: string, payer: User, amount: DecimalAmount): Promise<TransferResponseDto> {
+    const transaction = await this.findSuspendedTransaction(transactionId, AUTHORIZATION_SAGA, 'Authorized transfer');
+
+    if (transaction.status === TransactionStatus.COMPLETED) {
+      return this.mapToTransferResponseDto(transaction);
+    }
+
+    if (transaction.transferState !== TransferState.AUTHORIZED) {
+      if (transaction.isInProgress()) {
+        throw new ConflictException('Authorized transfer is already being captured');
+      }
+      throw new BadRequestException('Authorization has already been voided');
+    }
+
+    const authorized = Money.fromDecimal(transaction.amount);
+    const captured = Money.fromDecimal(amount);
+    if (!captured.isPositive() || captured.greaterThan(authorized)) {
+      throw new BadRequestException(`Capture amount must be positive and at most the authorized ${authorized}`);
+    }
+
+    if (captured.lessThan(authorized)) {
+      const sagaState = transaction.sagaState as SagaState;
+      const sourceWallet = await this.walletRepository.findOne({ where: { id: transaction.sourceWalletId } });
+      const fee = await this.feeService.calculateFee({
+        transactionType: TransactionType.TRANSFER,
+        currency: sourceWallet.currency,
+        userTier: payer.tier,
+        amount,
+      });
+
+      sagaState.context.amount = amount;
+      sagaState.context.metadata.fee = await this.toTransferFee(fee);
+      transaction.sagaState = sagaState;
+      transaction.amount = captured.toString();
+      transaction.feeAmount = fee.amount;
+      transaction.metadata = {
+        ...transaction.metadata,
+        authorizedAmount: authorized.toString(),
+        feeScheduleId: fee.scheduleId,
+      };
+    }
+
+    transaction.status = TransactionStatus.PROCESSING;
+    await this.transactionRepository.save(transaction);
+
+    const capturedTransaction = await this.sagaService.resumeSaga(transaction);
+    await this.updateTransferLimitsUsage(payer.id, amount);
+
+    return this.mapToTransferResponseDto(capturedTransaction);
+  }
+
+  /**
+   * Void an authorized transfer by compensating its saga, which releases the hold
+   */
+  async voidAuthorizedTransfer(transactionId: string): Promise<void> {
+    const transaction = await this.findSuspendedTransaction(transactionId, AUTHORIZATION_SAGA, 'Authorized transfer');
+    await this.cancelSuspendedTransfer(transaction, TransferState.AUTHORIZED, 'Authorized transfer is already being captured');
+  }
+
+  private async findSuspendedTransaction(transactionId: string, sagaName: string, label: string): Promise<Transaction> {
+    const transaction = await this.transactionRepository.findOne({ where: { id: transactionId } });
+
+    if (!transaction || (transaction.sagaState as { sagaName?: string })?.sagaName !== sagaName) {
+      throw new NotFoundException(`${label} not found`);
+    }
+
+    return transaction;
+  }
+
+  private async cancelSuspendedTransfer(
+    transaction: Transaction,
+    suspendedState: TransferState,
+    inProgressMessage: string,
+  ): Promise<void> {
+    if (transaction.status === TransactionStatus.CANCELLED) {
+      return;
+    }
+
+    if (transaction.transferState !== TransferState.COMPENSATED) {
+      if (transaction.transferState !== suspendedState) {
+        throw new ConflictException(inProgressMessage);
+      }
+
+      await this.sagaService.compensatePersistedSaga(transaction);
+    }
+
+    await this.markCancelled(transaction);
+  }
+
+  private async markCancelled(transaction: Transaction): Promise<void> {
+    await this.dataSource.transaction(async manager => {
+      transaction.status = TransactionStatus.CANCELLED;
+      transaction.transferState = TransferState.CANCELLED;
+      await manager.save(transaction);
+
+      await this.outboxService.recordTransactionEvent(manager, DomainEventType.TRANSFER_CANCELLED, transaction);
+    });
+  }
+
+  /**
+   * Sender undoes a delayed transfer before it settles. Nothing was debited yet,
+   * so compensating the saga only releases the hold.
+   */
+  async cancelPendingTransfer(transactionId: string, userId: string): Promise<TransferResponseDto> {
+    const transaction = await this.transactionRepository.findOne({ where: { id: transactionId } });
+
+    if (!transaction || transaction.metadata?.sourceUserId !== userId) {
+      throw new NotFoundException('Transaction not found');
+    }
+
+    if ((transaction.sagaState as { sagaName?: string })?.sagaName !== DELAYED_TRANSFER_SAGA) {
+      throw new BadRequestException('Only transfers sent with a settlement delay can be cancelled');
+    }
+
+    if (transaction.status === TransactionStatus.CANCELLED) {
+      return this.mapToTransferResponseDto(transaction);
+    }
+
+    if (!this.isCancellable(transaction)) {
+      throw new BadRequestException('The cancellation window of this transfer has closed');
+    }
+
+    // Only while still waiting, so a cancel cannot race the settlement worker
+    const claimed = await this.transactionRepository.update(
+      {
+        id: transactionId,
+        status: TransactionStatus.PENDING,
+        transferState: TransferState.PENDING_SETTLEMENT,
+        settlesAt: MoreThan(new Date()),
+      },
+      { transferState: TransferState.COMPENSATION_PENDING },
+    );
+
+    if (!claimed.affected) {
+      throw new ConflictException('Transfer is already settling');
+    }
+
+    transaction.transferState = TransferState.COMPENSATION_PENDING;
+    await this.sagaService.compensatePersistedSaga(transaction);
+    await this.markCancelled(transaction);
+
+    this.logger.log(`Delayed transfer ${transactionId} cancelled by sender before settling`);
+
+    return this.mapToTransferResponseDto(transaction);
+  }
+
+  /**
+   * Settle delayed transfers whose cancellation window has closed, and pick up
+   * settlements claimed before staleBefore that never got going
+   */
+  async settleDueTransfers(staleBefore: Date): Promise<number> {
+    const due = await this.transactionRepository.find({
+      where: [
+        {
+          status: TransactionStatus.PENDING,
+          transferState: TransferState.PENDING_SETTLEMENT,
+          settlesAt: LessThanOrEqual(new Date()),
+        },
+        {
+          status: TransactionStatus.PROCESSING,
+          transferState: TransferState.PENDING_SETTLEMENT,
+          processedAt: LessThan(staleBefore),
+        },
+      ],
+      order: { settlesAt: 'ASC' },
+      take: 50,
+    });
+
+    let settled = 0;
+    for (const transaction of due) {
+      // Claim so a concurrent cancel or another instance cannot act on it too
+      const processedAt = new Date();
+      const claimed = await this.transactionRepository.update(
+        {
+          id: transaction.id,
+          status: transaction.status,
+          transferState: TransferState.PENDING_SETTLEMENT,
+          processedAt: transaction.processedAt,
+        },
+        { status: TransactionStatus.PROCESSING, processedAt },
+      );
+      if (!claimed.affected) continue;
+
+      transaction.status = TransactionStatus.PROCESSING;
+      transaction.processedAt = processedAt;
+
+      try {
+        await this.sagaService.resumeSaga(transaction);
+        settled++;
+      } catch (error) {
+        // The saga compensated the settlement, so the funds stayed with the sender
+        this.logger.warn(`Settlement of delayed transfer ${transaction.id} failed: ${error.message}`);
+      }
+    }
+
+    return settled;
+  }
+
+  /**
+   * Check a set of same-source transfers before running any of them: each item on
+   * its own, then the total of amounts and fees against balance and transfer limits.
+   * Item problems are returned per item; a total that does not fit is thrown.
+   */
+  async validateTransferBatch(
+    sourceWalletId: string,
+    user: User,
+    items: Array<{ destinationWalletId: string; amount: DecimalAmount }>,
+  ): Promise<TransferItemValidation[]> {
+    const results: TransferItemValidation[] = [];
+    let totalAmount = Money.zero();
+    let totalDebit = Money.zero();
+
+    for (const item of items) {
+      try {
+        const fee = await this.validateTransferRequest(sourceWalletId, item.destinationWalletId, item.amount, user);
+        results.push({ fee });
+
+        totalAmount = totalAmount.add(Money.fromDecimal(item.amount));
+        totalDebit = totalDebit.add(Money.fromDecimal(item.amount)).add(Money.fromDecimal(fee.amount));
+      } catch (error) {
+        results.push({ error });
+      }
+    }
+
+    if (totalAmount.isZero()) {
+      return results;
+    }
+
+    const sourceWallet = await this.walletRepository.findOne({ where: { id: sourceWalletId } });
+    const heldAmount = await this.holdService.getHeldAmount(sourceWalletId);
+    const available = Money.fromDecimal(sourceWallet.balance).subtract(Money.fromDecimal(heldAmount));
+
+    if (available.lessThan(totalDebit)) {
+      throw new BadRequestException(
+        `Insufficient balance for batch. Required: ${totalDebit}, Available: ${available}`,
+      );
+    }
+
+    await this.validateTransferLimits(user.id, totalAmount.toString());
+
+    return results;
+  }
+
+  /**
+   * Execute transfer directly or, for escrow, authorization and delayed settlement, with the saga pattern
    */
   private async executeTransferSaga(
     sourceWalletId: string,
     destinationWalletId: string,
-    amount: number,
+    amount: DecimalAmount,
     description: string,
     user: User,
     idempotencyKey: string,
-    externalReferenceId?: string
+    fee: FeeQuote,
+    externalReferenceId?: string,
+    quoteId?: string,
+    options: TransferOptions = {}
   ): Promise<TransferResponseDto> {
 
+    // Claim the quote so the quoted rate is applied exactly once
+    const fx = quoteId ? this.toTransferFx(await this.fxService.consumeQuote(quoteId)) : undefined;
+    const transferFee = await this.toTransferFee(fee);
+
     // Create transaction record
     const transaction = await this.createTransactionRecord(
       sourceWalletId,
@@ -129,7 +502,11 @@ export class TransferService {
       description,
       user,
       idempotencyKey,
-      externalReferenceId
+      externalReferenceId,
+      fx,
+      transferFee,
+      options.standingOrderId,
+      options.settleAt
     );
 
     // Create saga context
@@ -145,25 +522,38 @@ export class TransferService {
         description,
         userEmail: user.email,
         timestamp: new Date().toISOString(),
+        fx,
+        fee: transferFee,
+        reservationExpiry: this.getReservationExpiry(options)?.toISOString(),
+        settlesAt: options.settleAt?.toISOString(),
       },
     };
 
-    try {
-      // Create saga steps
-      const sagaSteps = this.sagaService.createTransferSagaSteps(sagaContext);
-
-      // Execute saga
-      const completedTransaction = await this.sagaService.executeSaga(
-        transaction,
-        sagaSteps,
-        sagaContext
-      );
+    const sagaName = options.escrowUntil
+      ? ESCROW_SAGA
+      : options.authorizeUntil
+        ? AUTHORIZATION_SAGA
+        : options.settleAt ? DELAYED_TRANSFER_SAGA : TRANSFER_SAGA;
+    const outcome = options.escrowUntil
+      ? 'escrowed'
+      : options.authorizeUntil
+        ? 'authorized'
+        : options.settleAt ? `pending settlement until ${options.settleAt.toISOString()}` : 'completed successfully';
 
-      // Update transfer limits after successful completion
-      await this.updateTransferLimitsUsage(user.id, amount);
+    try {
+      // Plain transfers only touch our own wallets, so they run in one DB transaction;
+      // the sagas are for transfers that stop once the funds are held
+      const completedTransaction = sagaName === TRANSFER_SAGA
+        ? await this.directTransferService.execute(transaction, sagaContext)
+        : await this.sagaService.executeSaga(sagaName, transaction, sagaContext);
+
+      // Update transfer limits after successful completion; an authorization counts what is captured
+      if (!options.authorizeUntil && !options.sweep) {
+        await this.updateTransferLimitsUsage(user.id, amount);
+      }
 
       this.logger.log(
-        `Transfer completed successfully: ${sourceWalletId} -> ${destinationWalletId}, ` +
+        `Transfer ${outcome}: ${sourceWalletId} -> ${destinationWalletId}, ` +
         `amount=${amount}, txId=${completedTransaction.id}, idempotencyKey=${idempotencyKey}`
       );
 
@@ -171,7 +561,7 @@ export class TransferService {
 
     } catch (error) {
       this.logger.error(
-        `Transfer saga failed: ${sourceWalletId} -> ${destinationWalletId}, ` +
+        `Transfer failed: ${sourceWalletId} -> ${destinationWalletId}, ` +
         `amount=${amount}, txId=${transaction.id}, error=${error.message}`
       );
       throw error;
@@ -184,15 +574,19 @@ export class TransferService {
   private async createTransactionRecord(
     sourceWalletId: string,
     destinationWalletId: string,
-    amount: number,
+    amount: DecimalAmount,
     description: string,
     user: User,
     idempotencyKey: string,
-    externalReferenceId?: string
+    externalReferenceId?: string,
+    fx?: TransferFx,
+    fee?: TransferFee,
+    standingOrderId?: string,
+    settlesAt?: Date
   ): Promise<Transaction> {
 
     const transaction = this.transactionRepository.create({
-      amount,
+      amount: Money.fromDecimal(amount).toString(),
       type: TransactionType.TRANSFER,
       status: TransactionStatus.PENDING,
       transferState: TransferState.INITIATED,
@@ -201,10 +595,19 @@ export class TransferService {
       destinationWalletId,
       idempotencyKey,
       externalReferenceId,
+      quoteId: fx?.quoteId,
+      fxRate: fx?.rate,
+      fxSpread: fx?.spread,
+      destinationAmount: fx && Money.fromDecimal(fx.destinationAmount).toString(),
+      destinationCurrency: fx?.destinationCurrency,
+      feeAmount: Money.fromDecimal(fee?.amount ?? 0).toString(),
+      standingOrderId,
+      settlesAt,
       metadata: {
         sourceUserId: user.id,
         userEmail: user.email,
         initiatedAt: new Date().toISOString(),
+        feeScheduleId: fee?.scheduleId,
       },
     });
 
@@ -212,16 +615,53 @@ export class TransferService {
   }
 
   /**
-   * Validate transfer request
+   * The destination wallet of a transfer given either directly or as a recipient
+   * alias, which resolves to the recipient's receiving wallet in the source currency
+   */
+  private async resolveDestination(
+    sourceWalletId: string,
+    user: User,
+    target: { destinationWalletId?: string; recipient?: string },
+  ): Promise<{ destinationWalletId: string; recipientName?: string }> {
+    if (!!target.destinationWalletId === !!target.recipient) {
+      throw new BadRequestException('Specify exactly one of destinationWalletId or recipient');
+    }
+
+    if (target.destinationWalletId) {
+      return { destinationWalletId: target.destinationWalletId };
+    }
+
+    const sourceWallet = await this.walletRepository.findOne({
+      where: { id: sourceWalletId, userId: user.id, isActive: true },
+    });
+
+    if (!sourceWallet) {
+      throw new NotFoundException('Source wallet not found or not accessible');
+    }
+
+    const resolved = await this.aliasService.resolveRecipient(target.recipient, sourceWallet.currency);
+    if (!resolved) {
+      throw new NotFoundException(
+        'No account found for this recipient; an email or phone number can be sent a claimable transfer instead',
+      );
+    }
+
+    return { destinationWalletId: resolved.wallet.id, recipientName: resolved.displayName };
+  }
+
+  /**
+   * Validate transfer request and price its fee
    */
   private async validateTransferRequest(
     sourceWalletId: string,
     destinationWalletId: string,
-    amount: number,
-    user: User
-  ): Promise<void> {
+    amount: DecimalAmount,
+    user: User,
+    quoteId?: string,
+    sweep = false
+  ): Promise<FeeQuote> {
 
-    if (amount <= 0) {
+    if (!Money.fromDecimal(amount).isPositive()) {
       throw new BadRequestException('Transfer amount must be positive');
     }
 
@@ -246,23 +686,115 @@ export class TransferService {
       throw new NotFoundException('Destination wallet not found or inactive');
     }
 
+    if (!sourceWallet.canSend()) {
+      throw new BadRequestException('Source wallet is frozen; outgoing transfers are blocked');
+    }
+
+    if (!destinationWallet.canReceive()) {
+      throw new BadRequestException('Destination wallet is frozen and not accepting funds');
+    }
+
     if (sourceWallet.currency !== destinationWallet.currency) {
-      throw new BadRequestException('Currency mismatch between wallets');
+      if (!quoteId) {
+        throw new BadRequestException('Cross-currency transfers require a quoteId from POST /fx/quotes');
+      }
+
+      await this.fxService.getQuoteForTransfer(quoteId, user.id, sourceWalletId, destinationWalletId, amount);
+    } else if (quoteId) {
+      throw new BadRequestException('quoteId is only accepted for cross-currency transfers');
     }
 
-    // Check balance
-    if (sourceWallet.balance < amount) {
+    // Fees are charged in the source currency on top of the amount
+    const fee = sweep
+      ? { amount: Money.zero().toString(), currency: sourceWallet.currency, scheduleId: null }
+      : await this.feeService.calculateFee({
+        transactionType: TransactionType.TRANSFER,
+        currency: sourceWallet.currency,
+        userTier: user.tier,
+        amount,
+      });
+
+    // Check available balance (ledger balance minus active holds)
+    const heldAmount = await this.holdService.getHeldAmount(sourceWalletId);
+    const available = Money.fromDecimal(sourceWallet.balance).subtract(Money.fromDecimal(heldAmount));
+    if (available.lessThan(Money.fromDecimal(amount).add(Money.fromDecimal(fee.amount)))) {
       throw new BadRequestException('Insufficient balance');
     }
 
     // Check transfer limits
-    await this.validateTransferLimits(user.id, amount);
+    if (!sweep) {
+      await this.validateTransferLimits(user.id, amount);
+    }
+
+    return fee;
+  }
+
+  /**
+   * When a transfer with a settlement delay settles, within the configured window
+   */
+  private getSettleAt(settlementDelaySeconds?: number): Date | undefined {
+    if (!settlementDelaySeconds) {
+      return undefined;
+    }
+
+    const minSeconds = Number(this.configService.get('TRANSFER_SETTLEMENT_DELAY_MIN_SECONDS', 30));
+    const maxSeconds = Number(this.configService.get('TRANSFER_SETTLEMENT_DELAY_MAX_SECONDS', 600));
+
+    if (settlementDelaySeconds < minSeconds || settlementDelaySeconds > maxSeconds) {
+      throw new BadRequestException(`settlementDelaySeconds must be between ${minSeconds} and ${maxSeconds}`);
+    }
+
+    return new Date(Date.now() + settlementDelaySeconds * 1000);
+  }
+
+  /**
+   * How long a suspended transfer's hold lasts; plain transfers use the saga default
+   */
+  private getReservationExpiry(options: TransferOptions): Date | undefined {
+    if (options.settleAt) {
+      return new Date(options.settleAt.getTime() + SETTLEMENT_RESERVATION_MS);
+    }
+
+    return options.escrowUntil || options.authorizeUntil;
+  }
+
+  private isCancellable(transaction: Transaction): boolean {
+    return transaction.status === TransactionStatus.PENDING &&
+      transaction.transferState === TransferState.PENDING_SETTLEMENT &&
+      !!transaction.settlesAt && transaction.settlesAt.getTime() > Date.now();
+  }
+
+  /**
+   * Route a non-zero fee to the platform revenue wallet of its currency
+   */
+  private async toTransferFee(fee: FeeQuote): Promise<TransferFee | undefined> {
+    if (!Money.fromDecimal(fee.amount).isPositive()) {
+      return undefined;
+    }
+
+    return {
+      amount: fee.amount,
+      currency: fee.currency,
+      scheduleId: fee.scheduleId,
+      revenueWalletId: await this.feeService.getRevenueWalletId(fee.currency),
+    };
+  }
+
+  private toTransferFx(quote: FxQuote): TransferFx {
+    return {
+      quoteId: quote.id,
+      rate: quote.rate,
+      spread: quote.spread,
+      sourceCurrency: quote.sourceCurrency,
+      destinationCurrency: quote.destinationCurrency,
+      destinationAmount: quote.destinationAmount,
+    };
   }
 
   /**
    * Handle existing transaction (for idempotency)
    */
-  private handleExistingTransaction(transaction: Transaction): TransferResponseDto {
+  handleExistingTransaction(transaction: Transaction): TransferResponseDto {
     switch (transaction.status) {
       case TransactionStatus.COMPLETED:
         return this.mapToTransferResponseDto(transaction);
@@ -297,7 +829,7 @@ export class TransferService {
   /**
    * Validate transfer limits (unchanged from original)
    */
-  private async validateTransferLimits(userId: string, amount: number): Promise<void> {
+  private async validateTransferLimits(userId: string, amount: DecimalAmount): Promise<void> {
     const transferLimit = await this.transferLimitRepository.findOne({
       where: { userId },
     });
@@ -306,31 +838,33 @@ export class TransferService {
       throw new NotFoundException('Transfer limits not found');
     }
 
-    const now = dayjs();
     const today = dayjs().startOf('day');
     const currentMonth = dayjs().startOf('month');
 
     // Reset daily limit if needed
     if (dayjs(transferLimit.lastDailyReset).isBefore(today)) {
-      transferLimit.dailyUsed = 0;
+      transferLimit.dailyUsed = Money.zero().toString();
       transferLimit.lastDailyReset = today.toDate();
     }
 
     // Reset monthly limit if needed
     if (dayjs(transferLimit.lastMonthlyReset).isBefore(currentMonth)) {
-      transferLimit.monthlyUsed = 0;
+      transferLimit.monthlyUsed = Money.zero().toString();
       transferLimit.lastMonthlyReset = currentMonth.toDate();
     }
 
+    // Limits are tallied across currencies, so these amounts carry none
+    const requested = Money.fromDecimal(amount);
+
     // Check daily limit
-    if (transferLimit.dailyUsed + amount > transferLimit.dailyLimit) {
+    if (Money.fromDecimal(transferLimit.dailyUsed).add(requested).greaterThan(Money.fromDecimal(transferLimit.dailyLimit))) {
       throw new BadRequestException(
         `Daily transfer limit exceeded. Used: ${transferLimit.dailyUsed}, Limit: ${transferLimit.dailyLimit}`,
       );
     }
 
     // Check monthly limit
-    if (transferLimit.monthlyUsed + amount > transferLimit.monthlyLimit) {
+    if (Money.fromDecimal(transferLimit.monthlyUsed).add(requested).greaterThan(Money.fromDecimal(transferLimit.monthlyLimit))) {
       throw new BadRequestException(
         `Monthly transfer limit exceeded. Used: ${transferLimit.monthlyUsed}, Limit: ${transferLimit.monthlyLimit}`,
       );
@@ -343,7 +877,7 @@ export class TransferService {
   /**
    * Update transfer limits usage after successful transfer
    */
-  private async updateTransferLimitsUsage(userId: string, amount: number): Promise<void> {
+  private async updateTransferLimitsUsage(userId: string, amount: DecimalAmount): Promise<void> {
     const transferLimit = await this.transferLimitRepository.findOne({
       where: { userId },
     });
@@ -354,8 +888,8 @@ export class TransferService {
     }
 
     // Update usage
-    transferLimit.dailyUsed += amount;
-    transferLimit.monthlyUsed += amount;
+    transferLimit.dailyUsed = Money.fromDecimal(transferLimit.dailyUsed).add(Money.fromDecimal(amount)).toString();
+    transferLimit.monthlyUsed = Money.fromDecimal(transferLimit.monthlyUsed).add(Money.fromDecimal(amount)).toString();
 
     await this.transferLimitRepository.save(transferLimit);
 
@@ -375,26 +909,25 @@ export class TransferService {
       throw new NotFoundException('Transfer limits not found');
     }
 
-    const now = dayjs();
     const today = dayjs().startOf('day');
     const currentMonth = dayjs().startOf('month');
 
     // Reset counters if needed
     if (dayjs(transferLimit.lastDailyReset).isBefore(today)) {
-      transferLimit.dailyUsed = 0;
+      transferLimit.dailyUsed = Money.zero().toString();
     }
 
     if (dayjs(transferLimit.lastMonthlyReset).isBefore(currentMonth)) {
-      transferLimit.monthlyUsed = 0;
+      transferLimit.monthlyUsed = Money.zero().toString();
     }
 
     return {
       dailyLimit: transferLimit.dailyLimit,
       dailyUsed: transferLimit.dailyUsed,
-      dailyRemaining: transferLimit.dailyLimit - transferLimit.dailyUsed,
+      dailyRemaining: Money.fromDecimal(transferLimit.dailyLimit).subtract(Money.fromDecimal(transferLimit.dailyUsed)).toString(),
       monthlyLimit: transferLimit.monthlyLimit,
       monthlyUsed: transferLimit.monthlyUsed,
-      monthlyRemaining: transferLimit.monthlyLimit - transferLimit.monthlyUsed,
+      monthlyRemaining: Money.fromDecimal(transferLimit.monthlyLimit).subtract(Money.fromDecimal(transferLimit.monthlyUsed)).toString(),
       lastDailyReset: transferLimit.lastDailyReset,
       lastMonthlyReset: transferLimit.lastMonthlyReset,
     };
@@ -408,7 +941,7 @@ export class TransferService {
     userId: string,
     query: TransactionQueryDto,
   ): Promise<TransactionHistoryResponseDto> {
-    const { page = 1, limit = 10, type, status, startDate, endDate } = query;
+    const { page = 1, limit = 10, type, status, startDate, endDate, standingOrderId } = query;
 
     // Verify wallet ownership
     const wallet = await this.walletRepository.findOne({
@@ -434,6 +967,10 @@ export class TransferService {
       queryBuilder.andWhere('transaction.status = :status', { status });
     }
 
+    if (standingOrderId) {
+      queryBuilder.andWhere('transaction.standingOrderId = :standingOrderId', { standingOrderId });
+    }
+
     if (startDate) {
       queryBuilder.andWhere('transaction.createdAt >= :startDate', { startDate });
     }
@@ -447,8 +984,12 @@ export class TransferService {
       .take(limit)
       .getManyAndCount();
 
+    const refundIds = await this.getRefundIds(transactions.map(tx => tx.id));
+
     return {
-      transactions: transactions.map(tx => this.mapToTransactionResponseDto(tx, walletId)),
+      transactions: transactions.map(tx =>
+        this.mapToTransactionResponseDto(tx, walletId, refundIds.get(tx.id) || [])
+      ),
       pagination: {
         page,
         limit,
@@ -458,6 +999,39 @@ export class TransferService {
     };
   }
 
+  /**
+   * A single transaction as it appears in the history of walletId
+   */
+  async describeTransaction(transaction: Transaction, walletId: string): Promise<TransactionResponseDto> {
+    const refundIds = await this.getRefundIds([transaction.id]);
+
+    return this.mapToTransactionResponseDto(transaction, walletId, refundIds.get(transaction.id) || []);
+  }
+
+  /**
+   * Ids of refunds linked to each of the given transactions
+   */
+  private async getRefundIds(transactionIds: string[]): Promise<Map<string, string[]>> {
+    const refundIds = new Map<string, string[]>();
+    if (transactionIds.length === 0) {
+      return refundIds;
+    }
+
+    const refunds = await this.transactionRepository.find({
+      select: ['id', 'parentTransactionId'],
+      where: { parentTransactionId: In(transactionIds) },
+      order: { createdAt: 'ASC' },
+    });
+
+    for (const refund of refunds) {
+      const ids = refundIds.get(refund.parentTransactionId) || [];
+      ids.push(refund.id);
+      refundIds.set(refund.parentTransactionId, ids);
+    }
+
+    return refundIds;
+  }
+
   /**
    * Get transaction by idempotency key (for debugging)
    */
@@ -505,7 +1079,7 @@ export class TransferService {
   /**
    * Map transaction to transfer response DTO
    */
-  private mapToTransferResponseDto(transaction: Transaction): TransferResponseDto {
+  mapToTransferResponseDto(transaction: Transaction): TransferResponseDto {
     return {
       id: transaction.id,
       amount: transaction.amount,
@@ -513,6 +1087,10 @@ export class TransferService {
       destinationWalletId: transaction.destinationWalletId,
       description: transaction.description,
       status: transaction.status,
+      parentTransactionId: transaction.parentTransactionId,
+      feeAmount: transaction.feeAmount,
+      ...this.mapFxFields(transaction),
+      ...(transaction.settlesAt && { settlesAt: transaction.settlesAt }),
       createdAt: transaction.createdAt,
       metadata: {
         ...transaction.metadata,
@@ -524,10 +1102,31 @@ export class TransferService {
     };
   }
 
+  /**
+   * FX fields of a cross-currency transaction, omitted for same-currency ones
+   */
+  private mapFxFields(transaction: Transaction): Partial<TransferResponseDto> {
+    if (!transaction.quoteId) {
+      return {};
+    }
+
+    return {
+      quoteId: transaction.quoteId,
+      fxRate: transaction.fxRate,
+      fxSpread: transaction.fxSpread,
+      destinationAmount: transaction.destinationAmount,
+      destinationCurrency: transaction.destinationCurrency,
+    };
+  }
+
   /**
    * Map transaction to transaction response DTO
    */
-  private mapToTransactionResponseDto(transaction: Transaction, walletId: string): TransactionResponseDto {
+  private mapToTransactionResponseDto(
+    transaction: Transaction,
+    walletId: string,
+    refundTransactionIds: string[] = [],
+  ): TransactionResponseDto {
     const isIncoming = transaction.destinationWalletId === walletId;
     const isOutgoing = transaction.sourceWalletId === walletId;
 
@@ -549,6 +1148,14 @@ export class TransferService {
       direction,
       sourceWalletId: transaction.sourceWalletId,
       destinationWalletId: transaction.destinationWalletId,
+      parentTransactionId: transaction.parentTransactionId,
+      refundedAmount: transaction.refundedAmount,
+      refundTransactionIds,
+      feeAmount: transaction.feeAmount,
+      standingOrderId: transaction.standingOrderId || null,
+      settlesAt: transaction.settlesAt || null,
+      cancellable: isOutgoing && this.isCancellable(transaction),
+      ...this.mapFxFields(transaction),
       createdAt: transaction.createdAt,
       metadata: {
         ...transaction.metadata,
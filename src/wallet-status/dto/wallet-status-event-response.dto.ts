@@ -0,0 +1,34 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { WalletStatus, WalletActor } from '../../database/entities/wallet.entity';
+
+export class WalletStatusEventResponseDto {
+  @ApiProperty({ example: 'uuid-string' })
+  id: string;
+
+  @ApiProperty({ example: 'uuid-of-wallet' })
+  walletId: string;
+
+  @ApiProperty({ example: 'ACTIVE', enum: WalletStatus })
+  fromStatus: WalletStatus;
+
+  @ApiProperty({ example: 'FROZEN', enum: WalletStatus })
+  toStatus: WalletStatus;
+
+  @ApiProperty({ example: false })
+  incomingBlocked: boolean;
+
+  @ApiProperty({ example: 'Lost my phone' })
+  reason: string;
+
+  @ApiProperty({ example: 'OWNER', enum: WalletActor })
+  actor: WalletActor;
+
+  @ApiProperty({ example: 'uuid-of-user' })
+  actorId: string;
+
+  @ApiProperty({ example: 'uuid-of-sweep-transaction', nullable: true })
+  sweepTransactionId: string | null;
+
+  @ApiProperty({ example: '2024-01-15T10:00:00Z' })
+  createdAt: Date;
+}
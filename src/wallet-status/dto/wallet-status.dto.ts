@@ -0,0 +1,28 @@
+import { IsUUID, IsOptional, IsString, IsNotEmpty, IsBoolean, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class WalletStatusReasonDto {
+  @ApiProperty({ example: 'Found my phone again', description: 'Recorded in the wallet status history' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
+
+export class FreezeWalletDto extends WalletStatusReasonDto {
+  @ApiProperty({ example: false, required: false, description: 'Refuse incoming money too; outgoing is always blocked' })
+  @IsOptional()
+  @IsBoolean()
+  blockIncoming?: boolean;
+}
+
+export class CloseWalletDto extends WalletStatusReasonDto {
+  @ApiProperty({
+    example: 'uuid-of-another-wallet',
+    required: false,
+    description: "Another of the owner's wallets in the same currency that receives any remaining balance",
+  })
+  @IsOptional()
+  @IsUUID()
+  sweepToWalletId?: string;
+}
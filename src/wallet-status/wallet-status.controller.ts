@@ -0,0 +1,96 @@
+import { Controller, Post, Get, Body, Param, UseGuards, Request, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiBearerAuth, ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { WalletActor } from '../database/entities/wallet.entity';
+import { WalletStatusService } from './wallet-status.service';
+import { FreezeWalletDto, CloseWalletDto, WalletStatusReasonDto } from './dto/wallet-status.dto';
+import { WalletStatusEventResponseDto } from './dto/wallet-status-event-response.dto';
+import { WalletResponseDto } from '../wallet/dto/wallet-response.dto';
+import { Idempotent } from '../common/decorators/idempotent.decorator';
+
+@ApiTags('Wallets')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('wallets/:walletId')
+export class WalletStatusController {
+  constructor(private readonly walletStatusService: WalletStatusService) {}
+
+  @Post('freeze')
+  @Idempotent()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Freeze a wallet: no outgoing money, and optionally no incoming' })
+  @ApiResponse({ status: 200, description: 'Wallet frozen', type: WalletResponseDto })
+  @ApiResponse({ status: 400, description: 'Wallet is not active' })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async freezeWallet(
+    @Param('walletId') walletId: string,
+    @Request() req,
+    @Body() freezeWalletDto: FreezeWalletDto,
+  ): Promise<WalletResponseDto> {
+    return this.walletStatusService.freezeWallet(walletId, req.user, WalletActor.OWNER, freezeWalletDto);
+  }
+
+  @Post('unfreeze')
+  @Idempotent()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Unfreeze a wallet the owner froze' })
+  @ApiResponse({ status: 200, description: 'Wallet active again', type: WalletResponseDto })
+  @ApiResponse({ status: 400, description: 'Wallet is not frozen' })
+  @ApiResponse({ status: 403, description: 'Frozen by an admin' })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async unfreezeWallet(
+    @Param('walletId') walletId: string,
+    @Request() req,
+    @Body() dto: WalletStatusReasonDto,
+  ): Promise<WalletResponseDto> {
+    return this.walletStatusService.unfreezeWallet(walletId, req.user, WalletActor.OWNER, dto);
+  }
+
+  @Post('close')
+  @Idempotent()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Close a wallet, sweeping any remaining balance to another wallet of the owner' })
+  @ApiResponse({ status: 200, description: 'Wallet closed', type: WalletResponseDto })
+  @ApiResponse({ status: 400, description: 'Wallet still holds money or funds are on hold' })
+  @ApiResponse({ status: 403, description: 'Frozen by an admin' })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async closeWallet(
+    @Param('walletId') walletId: string,
+    @Request() req,
+    @Body() closeWalletDto: CloseWalletDto,
+  ): Promise<WalletResponseDto> {
+    return this.walletStatusService.closeWallet(walletId, req.user, WalletActor.OWNER, closeWalletDto);
+  }
+
+  @Post('reopen')
+  @Idempotent()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reopen a closed wallet' })
+  @ApiResponse({ status: 200, description: 'Wallet active again', type: WalletResponseDto })
+  @ApiResponse({ status: 400, description: 'Wallet is not closed' })
+  @ApiResponse({ status: 403, description: 'Closed by an admin' })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async reopenWallet(
+    @Param('walletId') walletId: string,
+    @Request() req,
+    @Body() dto: WalletStatusReasonDto,
+  ): Promise<WalletResponseDto> {
+    return this.walletStatusService.reopenWallet(walletId, req.user, WalletActor.OWNER, dto);
+  }
+
+  @Get('status-events')
+  @ApiOperation({ summary: 'History of freezes, closures and reopenings of a wallet' })
+  @ApiResponse({ status: 200, description: 'Status history retrieved successfully', type: [WalletStatusEventResponseDto] })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getStatusEvents(
+    @Param('walletId') walletId: string,
+    @Request() req,
+  ): Promise<WalletStatusEventResponseDto[]> {
+    return this.walletStatusService.getStatusEvents(walletId, req.user, WalletActor.OWNER);
+  }
+}
@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { WalletStatusController } from './wallet-status.controller';
+import { WalletStatusService } from './wallet-status.service';
+import { Wallet } from '../database/entities/wallet.entity';
+import { WalletStatusEvent } from '../database/entities/wallet-status-event.entity';
+import { User } from '../database/entities/user.entity';
+import { AuthModule } from '../auth/auth.module';
+import { CommonModule } from '../common/common.module';
+import { WalletModule } from '../wallet/wallet.module';
+import { TransferModule } from '../transfer/transfer.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Wallet, WalletStatusEvent, User]),
+    AuthModule,
+    CommonModule,
+    WalletModule,
+    TransferModule,
+  ],
+  controllers: [WalletStatusController],
+  providers: [WalletStatusService],
+  exports: [WalletStatusService],
+})
+export class WalletStatusModule {}
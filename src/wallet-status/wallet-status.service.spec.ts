@@ -0,0 +1,191 @@
+import { ForbiddenException, Logger } from '@nestjs/common';
+import { User } from '../database/entities/user.entity';
+import { Wallet, WalletActor, WalletStatus } from '../database/entities/wallet.entity';
+import { WalletStatusEvent } from '../database/entities/wallet-status-event.entity';
+import { WalletStatusService } from './wallet-status.service';
+
+describe('WalletStatusService', () => {
+  const owner = Object.assign(new User(), { id: 'owner' });
+  const admin = Object.assign(new User(), { id: 'admin' });
+
+  let stored: Wallet;
+  let savings: Wallet;
+  let heldAmount: number;
+  let events: Partial<WalletStatusEvent>[];
+  let transferService: { transferFunds: jest.Mock };
+  let service: WalletStatusService;
+
+  beforeAll(() => Logger.overrideLogger(false));
+
+  beforeEach(() => {
+    stored = Object.assign(new Wallet(), {
+      id: 'wallet-1',
+      userId: 'owner',
+      balance: '0.00',
+      currency: 'USD',
+      isActive: true,
+      status: WalletStatus.ACTIVE,
+      incomingBlocked: false,
+      isDefaultReceiving: true,
+    });
+    savings = Object.assign(new Wallet(), { id: 'wallet-2', userId: 'owner', currency: 'USD', isActive: true });
+    heldAmount = 0;
+    events = [];
+    // The sweep empties the wallet, as the real transfer would
+    transferService = {
+      transferFunds: jest.fn(async () => {
+        stored.balance = '0.00';
+        return { id: 'sweep-transaction' };
+      }),
+    };
+
+    const manager = {
+      findOne: jest.fn(async () => Object.assign(new Wallet(), stored)),
+      create: jest.fn((_, data) => data),
+      save: jest.fn(async entity => {
+        if (entity instanceof Wallet) Object.assign(stored, entity);
+        else events.push(entity);
+        return entity;
+      }),
+    };
+
+    service = new WalletStatusService(
+      {
+        findOne: jest.fn(async ({ where }) => [stored, savings].find(wallet =>
+          wallet.id === where.id && (!where.userId || wallet.userId === where.userId),
+        ) ?? null),
+      } as any,
+      {} as any,
+      { findOne: jest.fn(async () => owner) } as any,
+      { getHeldAmount: jest.fn(async () => heldAmount) } as any,
+      { record: jest.fn() } as any,
+      { describeWallet: jest.fn(async (wallet: Wallet) => wallet) } as any,
+      transferService as any,
+      { transaction: jest.fn(async work => work(manager)) } as any,
+    );
+  });
+
+  describe('freeze', () => {
+    it('freezes the wallet and records who did it and why', async () => {
+      await service.freezeWallet('wallet-1', owner, WalletActor.OWNER, { reason: 'Lost my card', blockIncoming: true });
+
+      expect(stored).toEqual(expect.objectContaining({
+        status: WalletStatus.FROZEN,
+        incomingBlocked: true,
+        statusChangedBy: WalletActor.OWNER,
+      }));
+      expect(stored.canSend()).toBe(false);
+      expect(stored.canReceive()).toBe(false);
+      expect(events).toEqual([expect.objectContaining({
+        fromStatus: WalletStatus.ACTIVE,
+        toStatus: WalletStatus.FROZEN,
+        reason: 'Lost my card',
+        actor: WalletActor.OWNER,
+        actorId: 'owner',
+      })]);
+    });
+
+    it('keeps receiving while frozen unless incoming is blocked', async () => {
+      await service.freezeWallet('wallet-1', owner, WalletActor.OWNER, { reason: 'Travelling' });
+
+      expect(stored.canSend()).toBe(false);
+      expect(stored.canReceive()).toBe(true);
+    });
+
+    it('does not let the owner lift a freeze an admin put on', async () => {
+      await service.freezeWallet('wallet-1', admin, WalletActor.ADMIN, { reason: 'Fraud review' });
+
+      await expect(service.unfreezeWallet('wallet-1', owner, WalletActor.OWNER, { reason: 'Not me' })).rejects.toThrow(
+        ForbiddenException,
+      );
+
+      await service.unfreezeWallet('wallet-1', admin, WalletActor.ADMIN, { reason: 'Review cleared' });
+      expect(stored.status).toBe(WalletStatus.ACTIVE);
+    });
+
+    it('refuses to freeze a wallet that is not active', async () => {
+      stored.status = WalletStatus.CLOSED;
+
+      await expect(service.freezeWallet('wallet-1', owner, WalletActor.OWNER, { reason: 'Lost my card' })).rejects.toThrow(
+        'Wallet is CLOSED',
+      );
+      expect(events).toEqual([]);
+    });
+  });
+
+  describe('close', () => {
+    it('closes an empty wallet and stops it receiving alias transfers', async () => {
+      await service.closeWallet('wallet-1', owner, WalletActor.OWNER, { reason: 'No longer needed' });
+
+      expect(stored).toEqual(expect.objectContaining({
+        status: WalletStatus.CLOSED,
+        isActive: false,
+        isDefaultReceiving: false,
+      }));
+      expect(transferService.transferFunds).not.toHaveBeenCalled();
+    });
+
+    it('sweeps the balance to another wallet of the owner before closing', async () => {
+      stored.balance = '42.50';
+
+      await service.closeWallet('wallet-1', owner, WalletActor.OWNER, { reason: 'Moving', sweepToWalletId: 'wallet-2' });
+
+      expect(transferService.transferFunds).toHaveBeenCalledWith(
+        'wallet-1',
+        owner,
+        expect.objectContaining({ destinationWalletId: 'wallet-2', amount: '42.50' }),
+        { sweep: true },
+      );
+      expect(stored.status).toBe(WalletStatus.CLOSED);
+      expect(events[0].sweepTransactionId).toBe('sweep-transaction');
+    });
+
+    it('needs somewhere to sweep a balance to', async () => {
+      stored.balance = '42.50';
+
+      await expect(service.closeWallet('wallet-1', owner, WalletActor.OWNER, { reason: 'Moving' })).rejects.toThrow(
+        'Wallet still holds 42.50 USD; empty it first or give sweepToWalletId',
+      );
+    });
+
+    it('only sweeps into a wallet of the same currency', async () => {
+      stored.balance = '42.50';
+      savings.currency = 'EUR';
+
+      await expect(
+        service.closeWallet('wallet-1', owner, WalletActor.OWNER, { reason: 'Moving', sweepToWalletId: 'wallet-2' }),
+      ).rejects.toThrow('Sweep destination wallet must use the same currency');
+      expect(transferService.transferFunds).not.toHaveBeenCalled();
+    });
+
+    it('does not sweep a frozen wallet', async () => {
+      Object.assign(stored, { balance: '42.50', status: WalletStatus.FROZEN, statusChangedBy: WalletActor.OWNER });
+
+      await expect(
+        service.closeWallet('wallet-1', owner, WalletActor.OWNER, { reason: 'Moving', sweepToWalletId: 'wallet-2' }),
+      ).rejects.toThrow('Unfreeze the wallet before sweeping its balance');
+    });
+
+    it('waits for funds on hold to settle', async () => {
+      heldAmount = 10;
+
+      await expect(service.closeWallet('wallet-1', owner, WalletActor.OWNER, { reason: 'Moving' })).rejects.toThrow(
+        'Wallet has 10 USD on hold for pending payments',
+      );
+      expect(stored.status).toBe(WalletStatus.ACTIVE);
+    });
+
+    it('stays open when money arrives after the sweep', async () => {
+      stored.balance = '42.50';
+      transferService.transferFunds.mockImplementationOnce(async () => {
+        stored.balance = '5.00';
+        return { id: 'sweep-transaction' };
+      });
+
+      await expect(
+        service.closeWallet('wallet-1', owner, WalletActor.OWNER, { reason: 'Moving', sweepToWalletId: 'wallet-2' }),
+      ).rejects.toThrow('Wallet still holds 5.00 USD; close it again to sweep the rest');
+      expect(stored.status).toBe(WalletStatus.ACTIVE);
+    });
+  });
+});
@@ -0,0 +1,290 @@
+import { Injectable, NotFoundException, BadRequestException, ForbiddenException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, DataSource, EntityManager } from 'typeorm';
+import { Wallet, WalletStatus, WalletActor } from '../database/entities/wallet.entity';
+import { WalletStatusEvent } from '../database/entities/wallet-status-event.entity';
+import { User } from '../database/entities/user.entity';
+import { HoldService } from '../common/services/hold.service';
+import { OutboxService } from '../common/services/outbox.service';
+import { DomainEventType, AggregateType } from '../common/events/domain-event';
+import { Money } from '../common/money/money';
+import { WalletService } from '../wallet/wallet.service';
+import { WalletResponseDto } from '../wallet/dto/wallet-response.dto';
+import { TransferService } from '../transfer/transfer.service';
+import { FreezeWalletDto, CloseWalletDto, WalletStatusReasonDto } from './dto/wallet-status.dto';
+import { WalletStatusEventResponseDto } from './dto/wallet-status-event-response.dto';
+
+interface WalletTransition {
+  from: WalletStatus[];
+  to: WalletStatus;
+  incomingBlocked?: boolean;
+  reason: string;
+  sweepTransactionId?: string;
+  // Checked with the wallet row locked, right before the change is written
+  guard?: (wallet: Wallet, manager: EntityManager) => Promise<void>;
+}
+
+/**
+ * Freezing, closing and reopening wallets, by their owner or an admin.
+ * Each transition is written together with its WalletStatusEvent.
+ */
+@Injectable()
+export class WalletStatusService {
+  private readonly logger = new Logger(WalletStatusService.name);
+
+  constructor(
+    @InjectRepository(Wallet)
+    private walletRepository: Repository<Wallet>,
+    @InjectRepository(WalletStatusEvent)
+    private statusEventRepository: Repository<WalletStatusEvent>,
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+    private holdService: HoldService,
+    private outboxService: OutboxService,
+    private walletService: WalletService,
+    private transferService: TransferService,
+    private dataSource: DataSource,
+  ) {}
+
+  /**
+   * Block outgoing money, and incoming too if asked
+   */
+  async freezeWallet(walletId: string, user: User, actor: WalletActor, freezeWalletDto: FreezeWalletDto): Promise<WalletResponseDto> {
+    const wallet = await this.findWallet(walletId, user, actor);
+
+    return this.transition(wallet, user, actor, {
+      from: [WalletStatus.ACTIVE],
+      to: WalletStatus.FROZEN,
+      incomingBlocked: !!freezeWalletDto.blockIncoming,
+      reason: freezeWalletDto.reason,
+    });
+  }
+
+  async unfreezeWallet(walletId: string, user: User, actor: WalletActor, dto: WalletStatusReasonDto): Promise<WalletResponseDto> {
+    const wallet = await this.findWallet(walletId, user, actor);
+
+    return this.transition(wallet, user, actor, {
+      from: [WalletStatus.FROZEN],
+      to: WalletStatus.ACTIVE,
+      reason: dto.reason,
+    });
+  }
+
+  /**
+   * Close a wallet that is empty, or empty it first with a fee-free sweep transfer
+   * to another wallet of the same owner. Funds on hold must settle or be released first.
+   */
+  async closeWallet(walletId: string, user: User, actor: WalletActor, closeWalletDto: CloseWalletDto): Promise<WalletResponseDto> {
+    const wallet = await this.findWallet(walletId, user, actor);
+    this.assertTransitionAllowed(wallet, actor, [WalletStatus.ACTIVE, WalletStatus.FROZEN]);
+    await this.assertNothingHeld(wallet);
+
+    let sweepTransactionId: string | undefined;
+    if (Money.fromDecimal(wallet.balance).isPositive()) {
+      sweepTransactionId = await this.sweepBalance(wallet, closeWalletDto.sweepToWalletId);
+    }
+
+    return this.transition(wallet, user, actor, {
+      from: [WalletStatus.ACTIVE, WalletStatus.FROZEN],
+      to: WalletStatus.CLOSED,
+      reason: closeWalletDto.reason,
+      sweepTransactionId,
+      guard: async (locked, manager) => {
+        // Money may have arrived since the sweep
+        if (!Money.fromDecimal(locked.balance).isZero()) {
+          throw new BadRequestException(`Wallet still holds ${locked.balance} ${locked.currency}; close it again to sweep the rest`);
+        }
+        await this.assertNothingHeld(locked, manager);
+      },
+    });
+  }
+
+  async reopenWallet(walletId: string, user: User, actor: WalletActor, dto: WalletStatusReasonDto): Promise<WalletResponseDto> {
+    const wallet = await this.findWallet(walletId, user, actor);
+
+    return this.transition(wallet, user, actor, {
+      from: [WalletStatus.CLOSED],
+      to: WalletStatus.ACTIVE,
+      reason: dto.reason,
+    });
+  }
+
+  async getStatusEvents(walletId: string, user: User, actor: WalletActor): Promise<WalletStatusEventResponseDto[]> {
+    await this.findWallet(walletId, user, actor);
+
+    const events = await this.statusEventRepository.find({
+      where: { walletId },
+      order: { createdAt: 'DESC' },
+      take: 100,
+    });
+
+    return events.map(event => this.mapToStatusEventResponseDto(event));
+  }
+
+  private async transition(
+    wallet: Wallet,
+    user: User,
+    actor: WalletActor,
+    transition: WalletTransition,
+  ): Promise<WalletResponseDto> {
+    this.assertTransitionAllowed(wallet, actor, transition.from);
+
+    const updated = await this.dataSource.transaction(async manager => {
+      const locked = await manager.findOne(Wallet, {
+        where: { id: wallet.id },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      // Re-check under the lock in case a concurrent transition got there first
+      this.assertTransitionAllowed(locked, actor, transition.from);
+      if (transition.guard) {
+        await transition.guard(locked, manager);
+      }
+
+      const fromStatus = locked.status;
+      locked.status = transition.to;
+      locked.incomingBlocked = !!transition.incomingBlocked;
+      locked.statusChangedBy = actor;
+      locked.isActive = transition.to !== WalletStatus.CLOSED;
+
+      // A closed wallet cannot keep receiving alias transfers
+      if (transition.to === WalletStatus.CLOSED) {
+        locked.isDefaultReceiving = false;
+      }
+
+      await manager.save(locked);
+      const statusEvent = await manager.save(
+        manager.create(WalletStatusEvent, {
+          walletId: locked.id,
+          fromStatus,
+          toStatus: transition.to,
+          incomingBlocked: locked.incomingBlocked,
+          reason: transition.reason,
+          actor,
+          actorId: user.id,
+          sweepTransactionId: transition.sweepTransactionId,
+        }),
+      );
+
+      await this.outboxService.record(manager, {
+        type: DomainEventType.WALLET_STATUS_CHANGED,
+        aggregateType: AggregateType.WALLET,
+        aggregateId: locked.id,
+        payload: {
+          walletId: locked.id,
+          userId: locked.userId,
+          fromStatus,
+          toStatus: statusEvent.toStatus,
+          incomingBlocked: statusEvent.incomingBlocked,
+          reason: statusEvent.reason,
+          actor,
+          statusEventId: statusEvent.id,
+        },
+      });
+
+      return locked;
+    });
+
+    this.logger.log(
+      `Wallet ${wallet.id} ${wallet.status} -> ${updated.status} by ${actor.toLowerCase()} ${user.id}: ${transition.reason}`
+    );
+
+    return this.walletService.describeWallet(updated);
+  }
+
+  private assertTransitionAllowed(wallet: Wallet, actor: WalletActor, from: WalletStatus[]): void {
+    if (!from.includes(wallet.status)) {
+      throw new BadRequestException(`Wallet is ${wallet.status}`);
+    }
+
+    if (actor === WalletActor.OWNER && wallet.status !== WalletStatus.ACTIVE && wallet.statusChangedBy === WalletActor.ADMIN) {
+      throw new ForbiddenException(`Wallet was ${wallet.status.toLowerCase()} by an admin; contact support to change it`);
+    }
+  }
+
+  private async assertNothingHeld(wallet: Wallet, manager?: EntityManager): Promise<void> {
+    const heldAmount = await this.holdService.getHeldAmount(wallet.id, manager);
+
+    if (Money.fromDecimal(heldAmount).isPositive()) {
+      throw new BadRequestException(
+        `Wallet has ${heldAmount} ${wallet.currency} on hold for pending payments; close it once they settle or are released`,
+      );
+    }
+  }
+
+  /**
+   * Move the whole balance to another wallet of the owner, returning the transfer id
+   */
+  private async sweepBalance(wallet: Wallet, sweepToWalletId?: string): Promise<string> {
+    if (!sweepToWalletId) {
+      throw new BadRequestException(
+        `Wallet still holds ${wallet.balance} ${wallet.currency}; empty it first or give sweepToWalletId`,
+      );
+    }
+
+    if (!wallet.canSend()) {
+      throw new BadRequestException('Unfreeze the wallet before sweeping its balance');
+    }
+
+    if (sweepToWalletId === wallet.id) {
+      throw new BadRequestException('Cannot sweep a wallet into itself');
+    }
+
+    const destination = await this.walletRepository.findOne({
+      where: { id: sweepToWalletId, userId: wallet.userId, isActive: true },
+    });
+
+    if (!destination) {
+      throw new NotFoundException('Sweep destination wallet not found');
+    }
+
+    if (destination.currency !== wallet.currency) {
+      throw new BadRequestException('Sweep destination wallet must use the same currency');
+    }
+
+    const owner = await this.userRepository.findOne({ where: { id: wallet.userId } });
+    const sweep = await this.transferService.transferFunds(
+      wallet.id,
+      owner,
+      {
+        destinationWalletId: destination.id,
+        amount: wallet.balance,
+        description: 'Balance sweep before closing wallet',
+      },
+      { sweep: true },
+    );
+
+    this.logger.log(`Swept ${wallet.balance} ${wallet.currency} from wallet ${wallet.id} to ${destination.id}`);
+    return sweep.id;
+  }
+
+  /**
+   * Owners reach their own wallets in any status; admins reach every wallet
+   */
+  private async findWallet(walletId: string, user: User, actor: WalletActor): Promise<Wallet> {
+    const wallet = await this.walletRepository.findOne({
+      where: actor === WalletActor.OWNER ? { id: walletId, userId: user.id } : { id: walletId },
+    });
+
+    if (!wallet) {
+      throw new NotFoundException('Wallet not found');
+    }
+
+    return wallet;
+  }
+
+  private mapToStatusEventResponseDto(event: WalletStatusEvent): WalletStatusEventResponseDto {
+    return {
+      id: event.id,
+      walletId: event.walletId,
+      fromStatus: event.fromStatus,
+      toStatus: event.toStatus,
+      incomingBlocked: event.incomingBlocked,
+      reason: event.reason,
+      actor: event.actor,
+      actorId: event.actorId,
+      sweepTransactionId: event.sweepTransactionId || null,
+      createdAt: event.createdAt,
+    };
+  }
+}
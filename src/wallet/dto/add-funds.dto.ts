@@ -1,11 +1,11 @@
-import { IsNumber, IsPositive, IsOptional, IsString } from 'class-validator';
+import { IsOptional, IsString } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { Type } from 'class-transformer';
+import { IsMoneyAmount } from '../../common/money/is-money-amount.decorator';
 
 export class AddFundsDto {
   @ApiProperty({ example: 100.50 })
-  @IsNumber({ maxDecimalPlaces: 2 })
-  @IsPositive()
+  @IsMoneyAmount()
   @Type(() => Number)
   amount: number;
 
@@ -0,0 +1,10 @@
+import { IsOptional, IsEnum } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { HoldStatus } from '../../database/entities/fund-hold.entity';
+
+export class HoldQueryDto {
+  @ApiProperty({ required: false, enum: HoldStatus })
+  @IsOptional()
+  @IsEnum(HoldStatus)
+  status?: HoldStatus;
+}
@@ -0,0 +1,39 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { HoldStatus } from '../../database/entities/fund-hold.entity';
+
+export class HoldResponseDto {
+  @ApiProperty({ example: 'uuid-string' })
+  id: string;
+
+  @ApiProperty({ example: '50.25' })
+  amount: string;
+
+  @ApiProperty({ example: 'USD' })
+  currency: string;
+
+  @ApiProperty({ example: 'ACTIVE', enum: HoldStatus })
+  status: HoldStatus;
+
+  @ApiProperty({ example: 'uuid-of-transaction', nullable: true })
+  transactionId: string | null;
+
+  @ApiProperty({ example: 'Transfer reservation', nullable: true })
+  reason: string | null;
+
+  @ApiProperty({ example: '2023-12-01T10:30:00Z' })
+  expiresAt: Date;
+
+  @ApiProperty({ example: '2023-12-01T10:00:00Z' })
+  createdAt: Date;
+}
+
+export class WalletBalanceResponseDto {
+  @ApiProperty({ example: '150.75', description: 'Deprecated alias of ledgerBalance' })
+  balance: string;
+
+  @ApiProperty({ example: '150.75' })
+  ledgerBalance: string;
+
+  @ApiProperty({ example: '100.75' })
+  availableBalance: string;
+}
@@ -1,11 +1,18 @@
 import { ApiProperty } from '@nestjs/swagger';
+import { WalletStatus } from '../../database/entities/wallet.entity';
 
 export class WalletResponseDto {
   @ApiProperty({ example: 'uuid-string' })
   id: string;
 
-  @ApiProperty({ example: 150.75 })
-  balance: number;
+  @ApiProperty({ example: '150.75' })
+  balance: string;
+
+  @ApiProperty({ example: '150.75', description: 'Balance derived from posted ledger entries' })
+  ledgerBalance: string;
+
+  @ApiProperty({ example: '100.75', description: 'Ledger balance minus active holds' })
+  availableBalance: string;
 
   @ApiProperty({ example: 'USD' })
   currency: string;
@@ -16,6 +23,12 @@ export class WalletResponseDto {
   @ApiProperty({ example: true })
   isActive: boolean;
 
+  @ApiProperty({ example: 'ACTIVE', enum: WalletStatus })
+  status: WalletStatus;
+
+  @ApiProperty({ example: false, description: 'Set while frozen if incoming money is refused too' })
+  incomingBlocked: boolean;
+
   @ApiProperty({ example: '2023-12-01T10:00:00Z' })
   createdAt: Date;
 
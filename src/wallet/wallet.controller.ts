@@ -1,10 +1,15 @@
-import { Controller, Get, Post, Body, Param, UseGuards, Request } from '@nestjs/common';
+import { Controller, Get, Post, Body, Param, Query, UseGuards, Request } from '@nestjs/common';
 import { ApiBearerAuth, ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { InstantFundingGuard } from '../auth/instant-funding.guard';
 import { WalletService } from './wallet.service';
 import { CreateWalletDto } from './dto/create-wallet.dto';
 import { AddFundsDto } from './dto/add-funds.dto';
 import { WalletResponseDto } from './dto/wallet-response.dto';
+import { HoldResponseDto, WalletBalanceResponseDto } from './dto/hold-response.dto';
+import { HoldQueryDto } from './dto/hold-query.dto';
+import { LedgerAuditResult } from '../common/services/ledger.service';
+import { Idempotent } from '../common/decorators/idempotent.decorator';
 
 @ApiTags('Wallets')
 @ApiBearerAuth()
@@ -14,6 +19,7 @@ export class WalletController {
   constructor(private readonly walletService: WalletService) {}
 
   @Post()
+  @Idempotent()
   @ApiOperation({ summary: 'Create a new wallet' })
   @ApiResponse({ status: 201, description: 'Wallet created successfully', type: WalletResponseDto })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
@@ -39,8 +45,11 @@ export class WalletController {
   }
 
   @Post(':id/add-funds')
-  @ApiOperation({ summary: 'Add funds to a wallet' })
+  @Idempotent()
+  @UseGuards(InstantFundingGuard)
+  @ApiOperation({ summary: 'Add funds to a wallet instantly (admins, or when ALLOW_INSTANT_ADD_FUNDS is set)' })
   @ApiResponse({ status: 200, description: 'Funds added successfully', type: WalletResponseDto })
+  @ApiResponse({ status: 403, description: 'Instant add-funds is disabled' })
   @ApiResponse({ status: 404, description: 'Wallet not found' })
   @ApiResponse({ status: 400, description: 'Invalid amount' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
@@ -54,12 +63,24 @@ export class WalletController {
 
   @Get(':id/balance')
   @ApiOperation({ summary: 'Get wallet balance' })
-  @ApiResponse({ status: 200, description: 'Balance retrieved successfully' })
+  @ApiResponse({ status: 200, description: 'Balance retrieved successfully', type: WalletBalanceResponseDto })
   @ApiResponse({ status: 404, description: 'Wallet not found' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
-  async getWalletBalance(@Param('id') walletId: string, @Request() req): Promise<{ balance: number }> {
-    const balance = await this.walletService.getWalletBalance(walletId, req.user.id);
-    return { balance };
+  async getWalletBalance(@Param('id') walletId: string, @Request() req): Promise<WalletBalanceResponseDto> {
+    return this.walletService.getWalletBalances(walletId, req.user.id);
+  }
+
+  @Get(':id/holds')
+  @ApiOperation({ summary: 'List fund holds placed against a wallet' })
+  @ApiResponse({ status: 200, description: 'Holds retrieved successfully', type: [HoldResponseDto] })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getWalletHolds(
+    @Param('id') walletId: string,
+    @Request() req,
+    @Query() query: HoldQueryDto,
+  ): Promise<HoldResponseDto[]> {
+    return this.walletService.getWalletHolds(walletId, req.user.id, query.status);
   }
 
   @Get(':id/cache-health')
@@ -68,8 +89,8 @@ export class WalletController {
   @ApiResponse({ status: 404, description: 'Wallet not found' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   async checkCacheHealth(@Param('id') walletId: string, @Request() req): Promise<{
-    dbBalance: number;
-    cacheBalance: number | null;
+    dbBalance: string;
+    cacheBalance: string | null;
     consistent: boolean;
     version: number | null;
     status: 'healthy' | 'inconsistent' | 'cache_miss';
@@ -90,4 +111,13 @@ export class WalletController {
       status,
     };
   }
-} 
\ No newline at end of file
+
+  @Get(':id/ledger-audit')
+  @ApiOperation({ summary: 'Verify wallet balance against its ledger postings' })
+  @ApiResponse({ status: 200, description: 'Ledger audit completed' })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async auditLedger(@Param('id') walletId: string, @Request() req): Promise<LedgerAuditResult> {
+    return this.walletService.auditWalletLedger(walletId, req.user.id);
+  }
+}
\ No newline at end of file
@@ -6,12 +6,14 @@ import { Wallet } from '../database/entities/wallet.entity';
 import { Transaction } from '../database/entities/transaction.entity';
 import { CacheModule } from '../cache/cache.module';
 import { AuthModule } from '../auth/auth.module';
+import { CommonModule } from '../common/common.module';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([Wallet, Transaction]),
     CacheModule,
     AuthModule,
+    CommonModule,
   ],
   controllers: [WalletController],
   providers: [WalletService],
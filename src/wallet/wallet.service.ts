@@ -1,13 +1,21 @@
 import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, DataSource } from 'typeorm';
-import { Wallet } from '../database/entities/wallet.entity';
+import { Wallet, WalletStatus } from '../database/entities/wallet.entity';
 import { Transaction, TransactionType, TransactionStatus } from '../database/entities/transaction.entity';
 import { User } from '../database/entities/user.entity';
-import { CacheService, WalletBalanceWithVersion } from '../cache/cache.service';
+import { SystemAccount } from '../database/entities/ledger-posting.entity';
+import { CacheService } from '../cache/cache.service';
+import { LedgerService, LedgerAuditResult } from '../common/services/ledger.service';
+import { HoldService } from '../common/services/hold.service';
+import { OutboxService } from '../common/services/outbox.service';
+import { DomainEventType } from '../common/events/domain-event';
+import { Money } from '../common/money/money';
+import { HoldStatus, FundHold } from '../database/entities/fund-hold.entity';
 import { CreateWalletDto } from './dto/create-wallet.dto';
 import { AddFundsDto } from './dto/add-funds.dto';
 import { WalletResponseDto } from './dto/wallet-response.dto';
+import { HoldResponseDto, WalletBalanceResponseDto } from './dto/hold-response.dto';
 
 @Injectable()
 export class WalletService {
@@ -19,6 +27,9 @@ export class WalletService {
     @InjectRepository(Transaction)
     private transactionRepository: Repository<Transaction>,
     private cacheService: CacheService,
+    private ledgerService: LedgerService,
+    private holdService: HoldService,
+    private outboxService: OutboxService,
     private dataSource: DataSource,
   ) {}
 
@@ -29,7 +40,7 @@ export class WalletService {
       userId: user.id,
       name: name || `${user.firstName}'s Wallet`,
       currency,
-      balance: 0,
+      balance: Money.zero().toString(),
     });
 
     const savedWallet = await this.walletRepository.save(wallet);
@@ -46,7 +57,9 @@ export class WalletService {
       order: { createdAt: 'DESC' },
     });
 
-    return wallets.map(wallet => this.mapToResponseDto(wallet));
+    const heldAmounts = await this.holdService.getHeldAmounts(wallets.map(wallet => wallet.id));
+
+    return wallets.map(wallet => this.mapToResponseDto(wallet, heldAmounts.get(wallet.id)));
   }
 
   async getWalletById(walletId: string, userId: string): Promise<WalletResponseDto> {
@@ -58,7 +71,8 @@ export class WalletService {
       throw new NotFoundException('Wallet not found');
     }
 
-    return this.mapToResponseDto(wallet);
+    const heldAmount = await this.holdService.getHeldAmount(walletId);
+    return this.mapToResponseDto(wallet, heldAmount);
   }
 
   /**
@@ -73,13 +87,21 @@ export class WalletService {
 
     return await this.cacheService.withWalletLock(walletId, async () => {
       const wallet = await this.walletRepository.findOne({
-        where: { id: walletId, userId, isActive: true },
+        where: { id: walletId, userId },
       });
 
       if (!wallet) {
         throw new NotFoundException('Wallet not found');
       }
 
+      if (wallet.status === WalletStatus.CLOSED) {
+        throw new BadRequestException('Wallet is closed');
+      }
+
+      if (!wallet.canReceive()) {
+        throw new BadRequestException('Wallet is frozen and not accepting funds');
+      }
+
       const queryRunner = this.dataSource.createQueryRunner();
       await queryRunner.connect();
       await queryRunner.startTransaction();
@@ -90,14 +112,9 @@ export class WalletService {
         const currentVersion = cachedData ? cachedData.version : 0;
         const newVersion = currentVersion + 1;
 
-        // Update wallet balance in database
-        await queryRunner.manager.update(Wallet, walletId, {
-          balance: () => `balance + ${amount}`,
-        });
-
         // Create transaction record
         const transaction = this.transactionRepository.create({
-          amount,
+          amount: Money.fromDecimal(amount).toString(),
           type: TransactionType.DEPOSIT,
           status: TransactionStatus.COMPLETED,
           description: description || 'Funds added to wallet',
@@ -106,6 +123,21 @@ export class WalletService {
 
         await queryRunner.manager.save(transaction);
 
+        // Credit the wallet through the ledger in the same DB transaction
+        await this.ledgerService.creditWallet(queryRunner.manager, {
+          reference: `${transaction.id}:deposit`,
+          transactionId: transaction.id,
+          description: transaction.description,
+          walletId,
+          contraAccount: SystemAccount.EXTERNAL_DEPOSITS,
+          amount,
+          currency: wallet.currency,
+        });
+
+        await this.outboxService.recordTransactionEvent(queryRunner.manager, DomainEventType.FUNDS_DEPOSITED, transaction, {
+          currency: wallet.currency,
+        });
+
         // Get updated wallet from database
         const updatedWallet = await queryRunner.manager.findOne(Wallet, {
           where: { id: walletId },
@@ -127,7 +159,8 @@ export class WalletService {
 
         this.logger.log(`Added funds: wallet=${walletId}, amount=${amount}, newBalance=${updatedWallet.balance}, version=${newVersion}`);
 
-        return this.mapToResponseDto(updatedWallet);
+        const heldAmount = await this.holdService.getHeldAmount(walletId);
+        return this.mapToResponseDto(updatedWallet, heldAmount);
       } catch (error) {
         await queryRunner.rollbackTransaction();
         this.logger.error(`Failed to add funds to wallet ${walletId}:`, error);
@@ -141,7 +174,7 @@ export class WalletService {
   /**
    * Get wallet balance with cache consistency checks
    */
-  async getWalletBalance(walletId: string, userId: string): Promise<number> {
+  async getWalletBalance(walletId: string, userId: string): Promise<string> {
     // First try to get from cache with version
     const cachedData = await this.cacheService.getWalletBalanceWithVersion(walletId);
     
@@ -184,64 +217,35 @@ export class WalletService {
   }
 
   /**
-   * Update wallet balance atomically (used by transfer service)
+   * Get ledger and available balances (available excludes active holds)
    */
-  async updateWalletBalanceAtomic(
-    walletId: string,
-    newBalance: number,
-    queryRunner?: any
-  ): Promise<void> {
-    const manager = queryRunner ? queryRunner.manager : this.dataSource.manager;
-    
-    // Update database
-    await manager.update(Wallet, walletId, { balance: newBalance });
-    
-    // Get current cache version
-    const cachedData = await this.cacheService.getWalletBalanceWithVersion(walletId);
-    const newVersion = cachedData ? cachedData.version + 1 : 1;
-    
-    // Update cache with new version
-    await this.cacheService.setWalletBalanceWithVersion(walletId, newBalance, newVersion);
-    
-    this.logger.debug(`Updated wallet balance atomically: wallet=${walletId}, balance=${newBalance}, version=${newVersion}`);
+  async getWalletBalances(walletId: string, userId: string): Promise<WalletBalanceResponseDto> {
+    const [ledgerBalance, heldAmount] = await Promise.all([
+      this.getWalletBalance(walletId, userId),
+      this.holdService.getHeldAmount(walletId),
+    ]);
+
+    return {
+      balance: ledgerBalance,
+      ledgerBalance,
+      availableBalance: Money.fromDecimal(ledgerBalance).subtract(Money.fromDecimal(heldAmount)).toString(),
+    };
   }
 
   /**
-   * Batch update multiple wallet balances (for transfers)
+   * List holds placed against a wallet
    */
-  async updateWalletBalancesBatch(
-    updates: Array<{ walletId: string; newBalance: number }>,
-    queryRunner?: any
-  ): Promise<void> {
-    const manager = queryRunner ? queryRunner.manager : this.dataSource.manager;
-    
-    // Update all wallets in database
-    for (const { walletId, newBalance } of updates) {
-      await manager.update(Wallet, walletId, { balance: newBalance });
+  async getWalletHolds(walletId: string, userId: string, status?: HoldStatus): Promise<HoldResponseDto[]> {
+    const wallet = await this.walletRepository.findOne({
+      where: { id: walletId, userId, isActive: true },
+    });
+
+    if (!wallet) {
+      throw new NotFoundException('Wallet not found');
     }
-    
-    // Update cache for all wallets
-    const cacheUpdates = await Promise.all(
-      updates.map(async ({ walletId, newBalance }) => {
-        const cachedData = await this.cacheService.getWalletBalanceWithVersion(walletId);
-        const newVersion = cachedData ? cachedData.version + 1 : 1;
-        return { walletId, newBalance, newVersion };
-      })
-    );
-    
-    // Batch update cache
-    await Promise.all(
-      cacheUpdates.map(({ walletId, newBalance, newVersion }) =>
-        this.cacheService.setWalletBalanceWithVersion(walletId, newBalance, newVersion)
-      )
-    );
-    
-    this.logger.debug(`Updated ${updates.length} wallet balances in batch`);
-  }
 
-  // Legacy method for backward compatibility
-  async updateWalletBalance(walletId: string, newBalance: number): Promise<void> {
-    await this.updateWalletBalanceAtomic(walletId, newBalance);
+    const holds = await this.holdService.getWalletHolds(walletId, status);
+    return holds.map(hold => this.mapToHoldResponseDto(hold));
   }
 
   async invalidateWalletCache(walletId: string): Promise<void> {
@@ -252,8 +256,8 @@ export class WalletService {
    * Health check for wallet cache consistency
    */
   async checkWalletCacheConsistency(walletId: string, userId: string): Promise<{
-    dbBalance: number;
-    cacheBalance: number | null;
+    dbBalance: string;
+    cacheBalance: string | null;
     consistent: boolean;
     version: number | null;
   }> {
@@ -269,8 +273,8 @@ export class WalletService {
     }
 
     const dbBalance = wallet.balance;
-    const cacheBalance = cachedData?.balance || null;
-    const consistent = cacheBalance !== null && Math.abs(dbBalance - cacheBalance) < 0.01;
+    const cacheBalance = cachedData?.balance ?? null;
+    const consistent = cacheBalance !== null && Money.fromDecimal(dbBalance).equals(Money.fromDecimal(cacheBalance));
 
     return {
       dbBalance,
@@ -280,15 +284,63 @@ export class WalletService {
     };
   }
 
-  private mapToResponseDto(wallet: Wallet): WalletResponseDto {
+  /**
+   * Audit that the wallet balance matches the sum of its ledger postings
+   */
+  async auditWalletLedger(walletId: string, userId: string): Promise<LedgerAuditResult> {
+    const wallet = await this.walletRepository.findOne({
+      where: { id: walletId, userId, isActive: true },
+    });
+
+    if (!wallet) {
+      throw new NotFoundException('Wallet not found');
+    }
+
+    const result = await this.ledgerService.auditWallet(walletId);
+
+    if (!result.consistent) {
+      this.logger.error(
+        `Ledger mismatch for wallet ${walletId}: projected=${result.projectedBalance}, ledger=${result.ledgerBalance}`
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Response for a wallet loaded elsewhere, with its available balance
+   */
+  async describeWallet(wallet: Wallet): Promise<WalletResponseDto> {
+    const heldAmount = await this.holdService.getHeldAmount(wallet.id);
+    return this.mapToResponseDto(wallet, heldAmount);
+  }
+
+  private mapToResponseDto(wallet: Wallet, heldAmount: string = Money.zero().toString()): WalletResponseDto {
     return {
       id: wallet.id,
       balance: wallet.balance,
+      ledgerBalance: wallet.balance,
+      availableBalance: Money.fromDecimal(wallet.balance).subtract(Money.fromDecimal(heldAmount)).toString(),
       currency: wallet.currency,
       name: wallet.name,
       isActive: wallet.isActive,
+      status: wallet.status,
+      incomingBlocked: wallet.incomingBlocked,
       createdAt: wallet.createdAt,
       updatedAt: wallet.updatedAt,
     };
   }
-} 
\ No newline at end of file
+
+  private mapToHoldResponseDto(hold: FundHold): HoldResponseDto {
+    return {
+      id: hold.id,
+      amount: hold.amount,
+      currency: hold.currency,
+      status: hold.status,
+      transactionId: hold.transactionId,
+      reason: hold.reason,
+      expiresAt: hold.expiresAt,
+      createdAt: hold.createdAt,
+    };
+  }
+}
\ No newline at end of file
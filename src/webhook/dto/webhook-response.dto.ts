@@ -0,0 +1,103 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { DomainEventType } from '../../common/events/domain-event';
+import { WEBHOOK_EVENT_TYPES } from '../../database/entities/webhook-endpoint.entity';
+import { WebhookDeliveryStatus } from '../../database/entities/webhook-delivery.entity';
+import { TransactionResponseDto } from '../../transfer/dto/transaction-response.dto';
+import { TransferResponseDto } from '../../transfer/dto/transfer-response.dto';
+
+export class WebhookEndpointResponseDto {
+  @ApiProperty({ example: 'uuid-string' })
+  id: string;
+
+  @ApiProperty({ example: 'https://example.com/hooks/wallet' })
+  url: string;
+
+  @ApiProperty({ example: ['TransferCompleted', 'FundsDeposited'], enum: WEBHOOK_EVENT_TYPES, isArray: true })
+  eventTypes: DomainEventType[];
+
+  @ApiProperty({ example: 'uuid-of-your-wallet', nullable: true, description: 'Null when all your wallets are covered' })
+  walletId: string | null;
+
+  @ApiProperty({ example: 'Bookkeeping sync', nullable: true })
+  description: string | null;
+
+  @ApiProperty({ example: true })
+  isActive: boolean;
+
+  @ApiProperty({ example: '2024-01-15T10:00:00Z' })
+  createdAt: Date;
+}
+
+export class WebhookEndpointSecretResponseDto extends WebhookEndpointResponseDto {
+  @ApiProperty({ example: 'whsec_3f9a...', description: 'Signing secret; shown only now, so store it' })
+  secret: string;
+}
+
+export class WebhookDeliveryResponseDto {
+  @ApiProperty({ example: 'uuid-string' })
+  id: string;
+
+  @ApiProperty({ example: 'uuid-of-endpoint' })
+  endpointId: string;
+
+  @ApiProperty({ example: 'uuid-of-event', description: 'Also sent as X-Webhook-Event-Id; dedupe on it' })
+  eventId: string;
+
+  @ApiProperty({ example: 'TransferCompleted', enum: DomainEventType })
+  eventType: DomainEventType;
+
+  @ApiProperty({ example: 'RETRYING', enum: WebhookDeliveryStatus })
+  status: WebhookDeliveryStatus;
+
+  @ApiProperty({ example: 2 })
+  attempts: number;
+
+  @ApiProperty({ example: '2024-01-15T10:01:00Z', nullable: true, description: 'When the next attempt is due, while one is' })
+  nextAttemptAt: Date | null;
+
+  @ApiProperty({ example: '2024-01-15T10:00:30Z', nullable: true })
+  lastAttemptAt: Date | null;
+
+  @ApiProperty({ example: 503, nullable: true })
+  lastStatusCode: number | null;
+
+  @ApiProperty({ example: 'Request failed with status code 503', nullable: true })
+  lastError: string | null;
+
+  @ApiProperty({ example: '2024-01-15T10:01:02Z', nullable: true })
+  deliveredAt: Date | null;
+
+  @ApiProperty({ description: 'The body sent, as a WebhookEventPayloadDto' })
+  payload: Record<string, any>;
+
+  @ApiProperty({ example: '2024-01-15T10:00:00Z' })
+  createdAt: Date;
+}
+
+export class WebhookEventDataDto {
+  @ApiProperty({ type: TransactionResponseDto, description: 'The transaction as seen from walletId' })
+  transaction: TransactionResponseDto;
+
+  @ApiProperty({ type: TransferResponseDto, required: false, description: 'For transfers and refunds sent from walletId' })
+  transfer?: TransferResponseDto;
+}
+
+/**
+ * Body POSTed to webhook endpoints
+ */
+export class WebhookEventPayloadDto {
+  @ApiProperty({ example: 'uuid-of-event' })
+  id: string;
+
+  @ApiProperty({ example: 'TransferCompleted', enum: WEBHOOK_EVENT_TYPES })
+  type: DomainEventType;
+
+  @ApiProperty({ example: '2024-01-15T10:00:00Z' })
+  occurredAt: Date;
+
+  @ApiProperty({ example: 'uuid-of-your-wallet', description: 'Your wallet the event concerns' })
+  walletId: string;
+
+  @ApiProperty({ type: WebhookEventDataDto })
+  data: WebhookEventDataDto;
+}
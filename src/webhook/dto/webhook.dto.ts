@@ -0,0 +1,79 @@
+import { IsUUID, IsOptional, IsString, IsUrl, IsArray, ArrayNotEmpty, ArrayUnique, IsIn, IsEnum, IsBoolean, IsInt, Min, Max, MaxLength, ValidateIf } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { DomainEventType } from '../../common/events/domain-event';
+import { WEBHOOK_EVENT_TYPES } from '../../database/entities/webhook-endpoint.entity';
+import { WebhookDeliveryStatus } from '../../database/entities/webhook-delivery.entity';
+
+export class CreateWebhookEndpointDto {
+  @ApiProperty({ example: 'https://example.com/hooks/wallet', description: 'Must be https unless insecure URLs are allowed' })
+  @IsUrl({ require_protocol: true, require_tld: false, protocols: ['http', 'https'] })
+  @MaxLength(2048)
+  url: string;
+
+  @ApiProperty({ example: ['TransferCompleted', 'FundsDeposited'], enum: WEBHOOK_EVENT_TYPES, isArray: true })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsIn(WEBHOOK_EVENT_TYPES, { each: true })
+  eventTypes: DomainEventType[];
+
+  @ApiProperty({ example: 'uuid-of-your-wallet', required: false, description: 'Only events about this wallet; all your wallets when omitted' })
+  @IsOptional()
+  @IsUUID()
+  walletId?: string;
+
+  @ApiProperty({ example: 'Bookkeeping sync', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  description?: string;
+}
+
+export class UpdateWebhookEndpointDto {
+  @ApiProperty({ example: 'https://example.com/hooks/wallet', required: false })
+  @IsOptional()
+  @IsUrl({ require_protocol: true, require_tld: false, protocols: ['http', 'https'] })
+  @MaxLength(2048)
+  url?: string;
+
+  @ApiProperty({ example: ['TransferCompleted'], enum: WEBHOOK_EVENT_TYPES, isArray: true, required: false })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsIn(WEBHOOK_EVENT_TYPES, { each: true })
+  eventTypes?: DomainEventType[];
+
+  @ApiProperty({ example: 'uuid-of-your-wallet', required: false, nullable: true, description: 'Null to receive events for all your wallets' })
+  @ValidateIf(o => o.walletId !== null)
+  @IsOptional()
+  @IsUUID()
+  walletId?: string | null;
+
+  @ApiProperty({ example: false, required: false, description: 'Inactive endpoints receive nothing new' })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @ApiProperty({ example: 'Bookkeeping sync', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  description?: string;
+}
+
+export class WebhookDeliveryQueryDto {
+  @ApiProperty({ required: false, enum: WebhookDeliveryStatus })
+  @IsOptional()
+  @IsEnum(WebhookDeliveryStatus)
+  status?: WebhookDeliveryStatus;
+
+  @ApiProperty({ required: false, default: 50, minimum: 1, maximum: 200 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  @Type(() => Number)
+  limit?: number = 50;
+}
@@ -0,0 +1,210 @@
+import { Logger } from '@nestjs/common';
+import axios from 'axios';
+import { WebhookDelivery, WebhookDeliveryStatus } from '../database/entities/webhook-delivery.entity';
+import { WebhookEndpoint } from '../database/entities/webhook-endpoint.entity';
+import { Transaction, TransactionType } from '../database/entities/transaction.entity';
+import { AggregateType, DomainEvent, DomainEventType } from '../common/events/domain-event';
+import { verifySignature } from '../common/utils/hmac.util';
+import {
+  WebhookDeliveryService,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from './webhook-delivery.service';
+
+describe('WebhookDeliveryService', () => {
+  const HOUR_MS = 60 * 60 * 1000;
+
+  let endpoint: WebhookEndpoint;
+  let delivery: WebhookDelivery;
+  let deliveryRepository: Record<string, jest.Mock>;
+  let claimQuery: Record<string, jest.Mock>;
+  let config: Record<string, number>;
+  let post: jest.SpyInstance;
+  let service: WebhookDeliveryService;
+
+  // The outcome written back for the attempt
+  const outcome = () => deliveryRepository.update.mock.calls.at(-1)[1];
+
+  beforeAll(() => Logger.overrideLogger(false));
+
+  beforeEach(() => {
+    endpoint = Object.assign(new WebhookEndpoint(), {
+      id: 'endpoint-1',
+      userId: 'user-1',
+      url: 'https://example.com/hooks',
+      secret: 'whsec_test',
+      eventTypes: [DomainEventType.TRANSFER_COMPLETED],
+      isActive: true,
+    });
+    delivery = Object.assign(new WebhookDelivery(), {
+      id: 'delivery-1',
+      endpointId: 'endpoint-1',
+      eventId: 'event-1',
+      eventType: DomainEventType.TRANSFER_COMPLETED,
+      payload: { id: 'event-1', type: DomainEventType.TRANSFER_COMPLETED },
+      status: WebhookDeliveryStatus.PENDING,
+      attempts: 0,
+    });
+    config = { WEBHOOK_MAX_ATTEMPTS: 3, WEBHOOK_RETRY_BASE_MS: HOUR_MS };
+
+    const dueQuery: any = {};
+    for (const method of ['where', 'orderBy', 'take']) {
+      dueQuery[method] = jest.fn(() => dueQuery);
+    }
+    dueQuery.getMany = jest.fn(async () => [delivery]);
+
+    claimQuery = {};
+    for (const method of ['insert', 'into', 'values', 'orIgnore', 'update', 'set', 'where', 'andWhere']) {
+      claimQuery[method] = jest.fn(() => claimQuery);
+    }
+    claimQuery.execute = jest.fn(async () => ({ affected: 1, raw: [{ id: 'delivery-1' }] }));
+
+    deliveryRepository = {
+      createQueryBuilder: jest.fn((alias?: string) => (alias ? dueQuery : claimQuery)),
+      update: jest.fn(),
+    };
+
+    post = jest.spyOn(axios, 'post').mockResolvedValue({ status: 204 });
+
+    service = new WebhookDeliveryService(
+      {
+        findOne: jest.fn(async () => endpoint),
+        find: jest.fn(async () => [endpoint]),
+      } as any,
+      deliveryRepository as any,
+      {
+        findOne: jest.fn(async () => Object.assign(new Transaction(), {
+          id: 'transaction-1',
+          type: TransactionType.TRANSFER,
+          sourceWalletId: 'wallet-1',
+          destinationWalletId: 'wallet-2',
+        })),
+      } as any,
+      {
+        find: jest.fn(async () => [
+          { id: 'wallet-1', userId: 'user-1' },
+          { id: 'wallet-2', userId: 'user-2' },
+        ]),
+      } as any,
+      {} as any,
+      {
+        describeTransaction: jest.fn(async (transaction: Transaction, walletId: string) => ({ id: transaction.id, walletId })),
+        mapToTransferResponseDto: jest.fn((transaction: Transaction) => ({ id: transaction.id })),
+      } as any,
+      { get: jest.fn((key: string, fallback: unknown) => config[key] ?? fallback) } as any,
+    );
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('deliverDue', () => {
+    it('signs the timestamp and body with the endpoint secret', async () => {
+      await expect(service.deliverDue(new Date())).resolves.toBe(1);
+
+      const [url, body, { headers, maxRedirects, proxy }] = post.mock.calls[0];
+      const signature = headers[WEBHOOK_SIGNATURE_HEADER].replace(/^v1=/, '');
+      expect(url).toBe('https://example.com/hooks');
+      expect(maxRedirects).toBe(0);
+      expect(proxy).toBe(false);
+      expect(verifySignature('whsec_test', `${headers[WEBHOOK_TIMESTAMP_HEADER]}.${body}`, signature)).toBe(true);
+      expect(verifySignature('whsec_test', `${headers[WEBHOOK_TIMESTAMP_HEADER]}.{}`, signature)).toBe(false);
+      expect(outcome()).toEqual(expect.objectContaining({
+        status: WebhookDeliveryStatus.SUCCEEDED,
+        attempts: 1,
+        lastStatusCode: 204,
+      }));
+    });
+
+    it('retries a failed attempt after a delay that doubles each time', async () => {
+      post.mockRejectedValue(Object.assign(new Error('Request failed with status code 503'), { response: { status: 503 } }));
+      delivery.attempts = 1;
+      const before = Date.now();
+
+      await service.deliverDue(new Date());
+
+      const { status, attempts, lastStatusCode, nextAttemptAt } = outcome();
+      expect(status).toBe(WebhookDeliveryStatus.RETRYING);
+      expect(attempts).toBe(2);
+      expect(lastStatusCode).toBe(503);
+      expect(nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + 2 * HOUR_MS);
+    });
+
+    it('dead-letters a delivery once it runs out of attempts', async () => {
+      post.mockRejectedValue(new Error('connect ECONNREFUSED'));
+      delivery.attempts = 2;
+
+      await service.deliverDue(new Date());
+
+      expect(outcome()).toEqual(expect.objectContaining({
+        status: WebhookDeliveryStatus.DEAD_LETTER,
+        attempts: 3,
+        nextAttemptAt: null,
+        lastError: 'connect ECONNREFUSED',
+      }));
+    });
+
+    it('does not send to an endpoint that was disabled', async () => {
+      endpoint.isActive = false;
+
+      await service.deliverDue(new Date());
+
+      expect(post).not.toHaveBeenCalled();
+      expect(outcome()).toEqual(expect.objectContaining({ status: WebhookDeliveryStatus.DEAD_LETTER }));
+    });
+
+    it('refuses to send to an endpoint on an internal address', async () => {
+      endpoint.url = 'http://169.254.169.254/latest/meta-data';
+
+      await service.deliverDue(new Date());
+
+      expect(post).not.toHaveBeenCalled();
+      expect(outcome()).toEqual(expect.objectContaining({
+        status: WebhookDeliveryStatus.RETRYING,
+        lastError: 'Endpoint URL does not point to a public host',
+      }));
+    });
+
+    it('skips a delivery another instance claimed first', async () => {
+      claimQuery.execute.mockResolvedValueOnce({ affected: 0 });
+
+      await expect(service.deliverDue(new Date())).resolves.toBe(0);
+      expect(post).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('fanOut', () => {
+    const event: DomainEvent = {
+      id: 'event-1',
+      position: 1,
+      type: DomainEventType.TRANSFER_COMPLETED,
+      aggregateType: AggregateType.TRANSACTION,
+      aggregateId: 'transaction-1',
+      payload: {},
+      occurredAt: new Date(),
+    };
+
+    it('queues the event from the point of view of the endpoint owner\'s wallet', async () => {
+      await service.fanOut(event);
+
+      const [queued] = claimQuery.values.mock.calls[0];
+      expect(queued).toEqual(expect.objectContaining({
+        endpointId: 'endpoint-1',
+        eventId: 'event-1',
+        status: WebhookDeliveryStatus.PENDING,
+      }));
+      expect(queued.payload).toEqual(expect.objectContaining({
+        walletId: 'wallet-1',
+        data: { transaction: { id: 'transaction-1', walletId: 'wallet-1' }, transfer: { id: 'transaction-1' } },
+      }));
+      expect(claimQuery.orIgnore).toHaveBeenCalled();
+    });
+
+    it('skips endpoints not subscribed to the event type', async () => {
+      endpoint.eventTypes = [DomainEventType.TRANSFER_FAILED];
+
+      await service.fanOut(event);
+
+      expect(claimQuery.values).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,279 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, In } from 'typeorm';
+import axios from 'axios';
+import * as http from 'http';
+import * as https from 'https';
+import { WebhookEndpoint, WEBHOOK_EVENT_TYPES } from '../database/entities/webhook-endpoint.entity';
+import { WebhookDelivery, WebhookDeliveryStatus } from '../database/entities/webhook-delivery.entity';
+import { Transaction, TransactionType } from '../database/entities/transaction.entity';
+import { Wallet } from '../database/entities/wallet.entity';
+import { DomainEvent } from '../common/events/domain-event';
+import { signPayload } from '../common/utils/hmac.util';
+import { isBlockedHost, publicOnlyLookup } from '../common/utils/public-address.util';
+import { EventBusService } from '../events/event-bus.service';
+import { TransferService } from '../transfer/transfer.service';
+import { WebhookEventPayloadDto } from './dto/webhook-response.dto';
+
+export const WEBHOOK_EVENT_HEADER = 'x-webhook-event';
+export const WEBHOOK_EVENT_ID_HEADER = 'x-webhook-event-id';
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-webhook-timestamp';
+export const WEBHOOK_SIGNATURE_HEADER = 'x-webhook-signature';
+
+// Name of the event bus consumer that fans events out to endpoints
+const WEBHOOK_CONSUMER = 'webhooks';
+
+/**
+ * Turns domain events into deliveries for the matching endpoints, then sends them.
+ * Each request is signed over "<timestamp>.<body>" so receivers can reject bodies
+ * that were tampered with or replayed later. Failures are retried with exponential
+ * backoff until the attempt limit, after which the delivery is dead-lettered.
+ */
+@Injectable()
+export class WebhookDeliveryService implements OnModuleInit {
+  private readonly logger = new Logger(WebhookDeliveryService.name);
+  // Connections are only opened to public addresses, checked after DNS resolution
+  private readonly httpAgent = new http.Agent({ lookup: publicOnlyLookup });
+  private readonly httpsAgent = new https.Agent({ lookup: publicOnlyLookup });
+
+  constructor(
+    @InjectRepository(WebhookEndpoint)
+    private endpointRepository: Repository<WebhookEndpoint>,
+    @InjectRepository(WebhookDelivery)
+    private deliveryRepository: Repository<WebhookDelivery>,
+    @InjectRepository(Transaction)
+    private transactionRepository: Repository<Transaction>,
+    @InjectRepository(Wallet)
+    private walletRepository: Repository<Wallet>,
+    private eventBus: EventBusService,
+    private transferService: TransferService,
+    private configService: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    this.eventBus.subscribe(WEBHOOK_CONSUMER, event => this.fanOut(event), WEBHOOK_EVENT_TYPES);
+  }
+
+  /**
+   * Queue a delivery of the event for every active endpoint subscribed to it whose
+   * owner holds one of the transaction's wallets. Safe to run twice for the same event.
+   */
+  async fanOut(event: DomainEvent): Promise<void> {
+    const transaction = await this.transactionRepository.findOne({ where: { id: event.aggregateId } });
+    if (!transaction) {
+      this.logger.warn(`Transaction ${event.aggregateId} of event ${event.id} not found, no webhooks sent`);
+      return;
+    }
+
+    // The sender's wallet first, so an owner of both sides gets the sender's view
+    const walletIds = [...new Set([transaction.sourceWalletId, transaction.destinationWalletId].filter(Boolean))];
+    const wallets = await this.walletRepository.find({ where: { id: In(walletIds) } });
+    if (wallets.length === 0) {
+      return;
+    }
+
+    const endpoints = await this.endpointRepository.find({
+      where: { userId: In([...new Set(wallets.map(wallet => wallet.userId))]), isActive: true },
+    });
+
+    let queued = 0;
+    for (const endpoint of endpoints) {
+      if (!endpoint.eventTypes.includes(event.type)) continue;
+
+      const walletId = walletIds.find(id => {
+        const wallet = wallets.find(candidate => candidate.id === id);
+        return wallet?.userId === endpoint.userId && (!endpoint.walletId || endpoint.walletId === id);
+      });
+      if (!walletId) continue;
+
+      const payload = await this.buildPayload(event, transaction, walletId);
+      const result = await this.deliveryRepository
+        .createQueryBuilder()
+        .insert()
+        .into(WebhookDelivery)
+        .values({
+          endpointId: endpoint.id,
+          eventId: event.id,
+          eventType: event.type,
+          payload: payload as Record<string, any>,
+          status: WebhookDeliveryStatus.PENDING,
+          nextAttemptAt: new Date(),
+        })
+        .orIgnore()
+        .execute();
+
+      queued += result.raw.length;
+    }
+
+    if (queued > 0) {
+      this.logger.debug(`Queued ${queued} webhook deliveries for ${event.type} ${event.id}`);
+    }
+  }
+
+  /**
+   * Send every delivery that is due, plus any left in DELIVERING by a crashed
+   * worker; returns how many were attempted
+   */
+  async deliverDue(staleBefore: Date): Promise<number> {
+    const batchSize = Number(this.configService.get('WEBHOOK_BATCH_SIZE', 50));
+
+    const due = await this.deliveryRepository
+      .createQueryBuilder('delivery')
+      .where(this.dueCondition('delivery'), this.dueParameters(staleBefore))
+      .orderBy('delivery.nextAttemptAt', 'ASC')
+      .take(batchSize)
+      .getMany();
+
+    let attempted = 0;
+    for (const delivery of due) {
+      // Claim it so another instance does not send the same attempt
+      const claimed = await this.deliveryRepository
+        .createQueryBuilder()
+        .update(WebhookDelivery)
+        .set({ status: WebhookDeliveryStatus.DELIVERING, claimedAt: () => 'CURRENT_TIMESTAMP' })
+        .where('id = :id', { id: delivery.id })
+        .andWhere(this.dueCondition('webhook_deliveries'), this.dueParameters(staleBefore))
+        .execute();
+
+      if (!claimed.affected) continue;
+
+      try {
+        await this.attempt(delivery);
+        attempted++;
+      } catch (error) {
+        this.logger.error(`Webhook delivery ${delivery.id} could not be attempted:`, error);
+      }
+    }
+
+    return attempted;
+  }
+
+  private async attempt(delivery: WebhookDelivery): Promise<void> {
+    const endpoint = await this.endpointRepository.findOne({ where: { id: delivery.endpointId } });
+    const attempts = delivery.attempts + 1;
+
+    if (!endpoint?.isActive) {
+      // Kept for a manual redelivery once the endpoint is turned back on
+      await this.deliveryRepository.update({ id: delivery.id }, {
+        status: WebhookDeliveryStatus.DEAD_LETTER,
+        nextAttemptAt: null,
+        lastError: 'Endpoint is disabled',
+        claimedAt: null,
+      });
+      return;
+    }
+
+    try {
+      const response = await this.send(endpoint, delivery);
+
+      await this.deliveryRepository.update({ id: delivery.id }, {
+        status: WebhookDeliveryStatus.SUCCEEDED,
+        attempts,
+        lastAttemptAt: new Date(),
+        lastStatusCode: response,
+        lastError: null,
+        deliveredAt: new Date(),
+        nextAttemptAt: null,
+        claimedAt: null,
+      });
+
+      this.logger.debug(`Delivered ${delivery.eventType} ${delivery.eventId} to endpoint ${endpoint.id}`);
+    } catch (error) {
+      const maxAttempts = Number(this.configService.get('WEBHOOK_MAX_ATTEMPTS', 8));
+      const deadLettered = attempts >= maxAttempts;
+
+      await this.deliveryRepository.update({ id: delivery.id }, {
+        status: deadLettered ? WebhookDeliveryStatus.DEAD_LETTER : WebhookDeliveryStatus.RETRYING,
+        attempts,
+        lastAttemptAt: new Date(),
+        lastStatusCode: error.response?.status ?? null,
+        lastError: String(error.message).slice(0, 1000),
+        nextAttemptAt: deadLettered ? null : new Date(Date.now() + this.getRetryDelayMs(attempts)),
+        claimedAt: null,
+      });
+
+      if (deadLettered) {
+        this.logger.warn(`Webhook delivery ${delivery.id} dead-lettered after ${attempts} attempts: ${error.message}`);
+      } else {
+        this.logger.debug(`Webhook delivery ${delivery.id} failed (attempt ${attempts}), retrying: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * POST the stored body; resolves with the status code of a 2xx response
+   */
+  private async send(endpoint: WebhookEndpoint, delivery: WebhookDelivery): Promise<number> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    // IP literals skip DNS lookup, so the agents never see them
+    if (isBlockedHost(new URL(endpoint.url).hostname)) {
+      throw new Error('Endpoint URL does not point to a public host');
+    }
+
+    const response = await axios.post(endpoint.url, body, {
+      headers: {
+        'Content-Type': 'application/json',
+        [WEBHOOK_EVENT_HEADER]: delivery.eventType,
+        [WEBHOOK_EVENT_ID_HEADER]: delivery.eventId,
+        [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+        [WEBHOOK_SIGNATURE_HEADER]: `v1=${signPayload(endpoint.secret, `${timestamp}.${body}`)}`,
+      },
+      timeout: Number(this.configService.get('WEBHOOK_TIMEOUT_MS', 10000)),
+      // A redirect could send the signed body somewhere the user never registered
+      maxRedirects: 0,
+      // A proxy would be the only address checked, not the endpoint behind it
+      proxy: false,
+      httpAgent: this.httpAgent,
+      httpsAgent: this.httpsAgent,
+    });
+
+    return response.status;
+  }
+
+  /**
+   * Doubles with every failed attempt, up to WEBHOOK_RETRY_MAX_MS
+   */
+  private getRetryDelayMs(attempts: number): number {
+    const baseMs = Number(this.configService.get('WEBHOOK_RETRY_BASE_MS', 30000));
+    const maxMs = Number(this.configService.get('WEBHOOK_RETRY_MAX_MS', 21600000));
+
+    return Math.min(baseMs * 2 ** (attempts - 1), maxMs);
+  }
+
+  private dueCondition(alias: string): string {
+    return `((${alias}.status IN (:...waiting) AND ${alias}."nextAttemptAt" <= :now)` +
+      ` OR (${alias}.status = :delivering AND ${alias}."claimedAt" < :staleBefore))`;
+  }
+
+  private dueParameters(staleBefore: Date): Record<string, any> {
+    return {
+      waiting: [WebhookDeliveryStatus.PENDING, WebhookDeliveryStatus.RETRYING],
+      delivering: WebhookDeliveryStatus.DELIVERING,
+      now: new Date(),
+      staleBefore,
+    };
+  }
+
+  /**
+   * The transaction from the point of view of walletId, with the transfer itself
+   * when walletId sent it
+   */
+  private async buildPayload(event: DomainEvent, transaction: Transaction, walletId: string): Promise<WebhookEventPayloadDto> {
+    const isSentTransfer = transaction.sourceWalletId === walletId &&
+      (transaction.type === TransactionType.TRANSFER || transaction.type === TransactionType.REFUND);
+
+    return {
+      id: event.id,
+      type: event.type,
+      occurredAt: event.occurredAt,
+      walletId,
+      data: {
+        transaction: await this.transferService.describeTransaction(transaction, walletId),
+        ...(isSentTransfer && { transfer: this.transferService.mapToTransferResponseDto(transaction) }),
+      },
+    };
+  }
+}
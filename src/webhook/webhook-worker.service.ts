@@ -0,0 +1,50 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { WebhookDeliveryService } from './webhook-delivery.service';
+
+/**
+ * Sends webhook deliveries that are due, including retries whose backoff has passed
+ */
+@Injectable()
+export class WebhookWorkerService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(WebhookWorkerService.name);
+  private pollTimer: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private webhookDeliveryService: WebhookDeliveryService,
+    private configService: ConfigService,
+  ) {}
+
+  onApplicationBootstrap() {
+    const intervalMs = Number(this.configService.get('WEBHOOK_POLL_INTERVAL_MS', 5000));
+    this.pollTimer = setInterval(() => {
+      this.runDueWork().catch(error => this.logger.error('Webhook worker run failed:', error));
+    }, intervalMs);
+  }
+
+  onModuleDestroy() {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+    }
+  }
+
+  async runDueWork(): Promise<void> {
+    if (this.running) {
+      this.logger.debug('Webhook worker already running, skipping');
+      return;
+    }
+
+    this.running = true;
+    try {
+      const claimTimeoutMs = Number(this.configService.get('WEBHOOK_CLAIM_TIMEOUT_MS', 120000));
+      const attempted = await this.webhookDeliveryService.deliverDue(new Date(Date.now() - claimTimeoutMs));
+
+      if (attempted > 0) {
+        this.logger.debug(`Webhook worker: attempted=${attempted}`);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import { Controller, Post, Get, Patch, Body, Param, Query, UseGuards, Request, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiBearerAuth, ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { WebhookService } from './webhook.service';
+import { CreateWebhookEndpointDto, UpdateWebhookEndpointDto, WebhookDeliveryQueryDto } from './dto/webhook.dto';
+import {
+  WebhookEndpointResponseDto,
+  WebhookEndpointSecretResponseDto,
+  WebhookDeliveryResponseDto,
+} from './dto/webhook-response.dto';
+import { Idempotent } from '../common/decorators/idempotent.decorator';
+
+@ApiTags('Webhooks')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('webhooks')
+export class WebhookController {
+  constructor(private readonly webhookService: WebhookService) {}
+
+  @Post()
+  @Idempotent()
+  @ApiOperation({ summary: 'Register a URL to receive events about your wallets' })
+  @ApiResponse({ status: 201, description: 'Endpoint registered; the signing secret is only returned now', type: WebhookEndpointSecretResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid URL or event type' })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async createEndpoint(@Request() req, @Body() dto: CreateWebhookEndpointDto): Promise<WebhookEndpointSecretResponseDto> {
+    return this.webhookService.createEndpoint(req.user, dto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Your webhook endpoints' })
+  @ApiResponse({ status: 200, description: 'Endpoints retrieved successfully', type: [WebhookEndpointResponseDto] })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getEndpoints(@Request() req): Promise<WebhookEndpointResponseDto[]> {
+    return this.webhookService.getEndpoints(req.user.id);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get one of your webhook endpoints' })
+  @ApiResponse({ status: 200, description: 'Endpoint retrieved successfully', type: WebhookEndpointResponseDto })
+  @ApiResponse({ status: 404, description: 'Webhook endpoint not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getEndpoint(@Param('id') id: string, @Request() req): Promise<WebhookEndpointResponseDto> {
+    return this.webhookService.getEndpoint(id, req.user.id);
+  }
+
+  @Patch(':id')
+  @Idempotent()
+  @ApiOperation({ summary: 'Change the URL, events or wallet of an endpoint, or turn it off' })
+  @ApiResponse({ status: 200, description: 'Endpoint updated', type: WebhookEndpointResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid URL or event type' })
+  @ApiResponse({ status: 404, description: 'Webhook endpoint or wallet not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async updateEndpoint(
+    @Param('id') id: string,
+    @Request() req,
+    @Body() dto: UpdateWebhookEndpointDto,
+  ): Promise<WebhookEndpointResponseDto> {
+    return this.webhookService.updateEndpoint(id, req.user, dto);
+  }
+
+  @Post(':id/rotate-secret')
+  @Idempotent()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Replace the signing secret of an endpoint' })
+  @ApiResponse({ status: 200, description: 'New secret, returned only now', type: WebhookEndpointSecretResponseDto })
+  @ApiResponse({ status: 404, description: 'Webhook endpoint not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async rotateSecret(@Param('id') id: string, @Request() req): Promise<WebhookEndpointSecretResponseDto> {
+    return this.webhookService.rotateSecret(id, req.user.id);
+  }
+
+  @Get(':id/deliveries')
+  @ApiOperation({ summary: 'Delivery log of an endpoint, newest first' })
+  @ApiResponse({ status: 200, description: 'Deliveries retrieved successfully', type: [WebhookDeliveryResponseDto] })
+  @ApiResponse({ status: 404, description: 'Webhook endpoint not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getDeliveries(
+    @Param('id') id: string,
+    @Request() req,
+    @Query() query: WebhookDeliveryQueryDto,
+  ): Promise<WebhookDeliveryResponseDto[]> {
+    return this.webhookService.getDeliveries(id, req.user.id, query);
+  }
+
+  @Post(':id/deliveries/:deliveryId/redeliver')
+  @Idempotent()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Send a delivery again, including dead-lettered ones' })
+  @ApiResponse({ status: 200, description: 'Delivery queued to be sent again', type: WebhookDeliveryResponseDto })
+  @ApiResponse({ status: 400, description: 'Delivery is being sent right now' })
+  @ApiResponse({ status: 404, description: 'Webhook endpoint or delivery not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async redeliver(
+    @Param('id') id: string,
+    @Param('deliveryId') deliveryId: string,
+    @Request() req,
+  ): Promise<WebhookDeliveryResponseDto> {
+    return this.webhookService.redeliver(id, deliveryId, req.user.id);
+  }
+}
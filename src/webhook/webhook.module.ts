@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { WebhookController } from './webhook.controller';
+import { WebhookService } from './webhook.service';
+import { WebhookDeliveryService } from './webhook-delivery.service';
+import { WebhookWorkerService } from './webhook-worker.service';
+import { WebhookEndpoint } from '../database/entities/webhook-endpoint.entity';
+import { WebhookDelivery } from '../database/entities/webhook-delivery.entity';
+import { Wallet } from '../database/entities/wallet.entity';
+import { Transaction } from '../database/entities/transaction.entity';
+import { AuthModule } from '../auth/auth.module';
+import { EventsModule } from '../events/events.module';
+import { TransferModule } from '../transfer/transfer.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([WebhookEndpoint, WebhookDelivery, Wallet, Transaction]),
+    AuthModule,
+    EventsModule,
+    TransferModule,
+  ],
+  controllers: [WebhookController],
+  providers: [WebhookService, WebhookDeliveryService, WebhookWorkerService],
+})
+export class WebhookModule {}
@@ -0,0 +1,60 @@
+import { BadRequestException, Logger } from '@nestjs/common';
+import * as dns from 'dns';
+import { User } from '../database/entities/user.entity';
+import { DomainEventType } from '../common/events/domain-event';
+import { WebhookService } from './webhook.service';
+
+describe('WebhookService', () => {
+  const user = Object.assign(new User(), { id: 'user-1' });
+
+  let endpointRepository: { create: jest.Mock; save: jest.Mock };
+  let service: WebhookService;
+
+  const register = (url: string) =>
+    service.createEndpoint(user, { url, eventTypes: [DomainEventType.TRANSFER_COMPLETED] });
+
+  beforeAll(() => Logger.overrideLogger(false));
+
+  beforeEach(() => {
+    endpointRepository = {
+      create: jest.fn(data => data),
+      save: jest.fn(async data => ({ id: 'endpoint-1', isActive: true, ...data })),
+    };
+
+    service = new WebhookService(
+      endpointRepository as any,
+      {} as any,
+      {} as any,
+      { get: jest.fn((_, fallback) => fallback) } as any,
+    );
+
+    jest.spyOn(dns.promises, 'lookup').mockImplementation(async (hostname: string) => (
+      hostname === 'internal.example.com' ? [{ address: '10.0.0.8', family: 4 }] : [{ address: '93.184.216.34', family: 4 }]
+    ) as any);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('registers a public https endpoint and returns its signing secret once', async () => {
+    const registered = await register('https://hooks.example.com/wallet');
+
+    expect(registered.secret).toMatch(/^whsec_/);
+    expect(endpointRepository.save).toHaveBeenCalled();
+  });
+
+  it.each([
+    'https://127.0.0.1/hooks',
+    'https://169.254.169.254/latest/meta-data',
+    'https://[::1]/hooks',
+    'https://localhost/hooks',
+    'https://metadata.google.internal/computeMetadata/v1',
+    'https://internal.example.com/hooks',
+  ])('refuses %s', async url => {
+    await expect(register(url)).rejects.toThrow(BadRequestException);
+    expect(endpointRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('refuses plain http by default', async () => {
+    await expect(register('http://hooks.example.com/wallet')).rejects.toThrow('Webhook URL must use https');
+  });
+});
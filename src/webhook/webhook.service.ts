@@ -0,0 +1,220 @@
+import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import * as crypto from 'crypto';
+import { assertPublicHost } from '../common/utils/public-address.util';
+import { WebhookEndpoint } from '../database/entities/webhook-endpoint.entity';
+import { WebhookDelivery, WebhookDeliveryStatus } from '../database/entities/webhook-delivery.entity';
+import { Wallet } from '../database/entities/wallet.entity';
+import { User } from '../database/entities/user.entity';
+import { CreateWebhookEndpointDto, UpdateWebhookEndpointDto, WebhookDeliveryQueryDto } from './dto/webhook.dto';
+import {
+  WebhookEndpointResponseDto,
+  WebhookEndpointSecretResponseDto,
+  WebhookDeliveryResponseDto,
+} from './dto/webhook-response.dto';
+
+@Injectable()
+export class WebhookService {
+  private readonly logger = new Logger(WebhookService.name);
+
+  constructor(
+    @InjectRepository(WebhookEndpoint)
+    private endpointRepository: Repository<WebhookEndpoint>,
+    @InjectRepository(WebhookDelivery)
+    private deliveryRepository: Repository<WebhookDelivery>,
+    @InjectRepository(Wallet)
+    private walletRepository: Repository<Wallet>,
+    private configService: ConfigService,
+  ) {}
+
+  async createEndpoint(user: User, dto: CreateWebhookEndpointDto): Promise<WebhookEndpointSecretResponseDto> {
+    await this.assertUrlAllowed(dto.url);
+    if (dto.walletId) {
+      await this.assertWalletOwned(dto.walletId, user.id);
+    }
+
+    const endpoint = await this.endpointRepository.save(
+      this.endpointRepository.create({
+        userId: user.id,
+        url: dto.url,
+        secret: this.generateSecret(),
+        eventTypes: dto.eventTypes,
+        walletId: dto.walletId || null,
+        description: dto.description || null,
+      }),
+    );
+
+    this.logger.log(`User ${user.id} registered webhook endpoint ${endpoint.id}`);
+
+    return { ...this.mapToEndpointResponseDto(endpoint), secret: endpoint.secret };
+  }
+
+  async getEndpoints(userId: string): Promise<WebhookEndpointResponseDto[]> {
+    const endpoints = await this.endpointRepository.find({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+    });
+
+    return endpoints.map(endpoint => this.mapToEndpointResponseDto(endpoint));
+  }
+
+  async getEndpoint(id: string, userId: string): Promise<WebhookEndpointResponseDto> {
+    return this.mapToEndpointResponseDto(await this.findEndpoint(id, userId));
+  }
+
+  async updateEndpoint(id: string, user: User, dto: UpdateWebhookEndpointDto): Promise<WebhookEndpointResponseDto> {
+    const endpoint = await this.findEndpoint(id, user.id);
+
+    if (dto.url !== undefined) {
+      await this.assertUrlAllowed(dto.url);
+      endpoint.url = dto.url;
+    }
+
+    if (dto.walletId) {
+      await this.assertWalletOwned(dto.walletId, user.id);
+    }
+    if (dto.walletId !== undefined) {
+      endpoint.walletId = dto.walletId;
+    }
+
+    if (dto.eventTypes !== undefined) endpoint.eventTypes = dto.eventTypes;
+    if (dto.isActive !== undefined) endpoint.isActive = dto.isActive;
+    if (dto.description !== undefined) endpoint.description = dto.description;
+
+    return this.mapToEndpointResponseDto(await this.endpointRepository.save(endpoint));
+  }
+
+  /**
+   * Replace the signing secret; requests are signed with the new one from now on
+   */
+  async rotateSecret(id: string, userId: string): Promise<WebhookEndpointSecretResponseDto> {
+    const endpoint = await this.findEndpoint(id, userId);
+
+    endpoint.secret = this.generateSecret();
+    await this.endpointRepository.save(endpoint);
+
+    this.logger.log(`Rotated the secret of webhook endpoint ${id}`);
+
+    return { ...this.mapToEndpointResponseDto(endpoint), secret: endpoint.secret };
+  }
+
+  /**
+   * Delivery log of an endpoint, newest first
+   */
+  async getDeliveries(id: string, userId: string, query: WebhookDeliveryQueryDto): Promise<WebhookDeliveryResponseDto[]> {
+    await this.findEndpoint(id, userId);
+
+    const deliveries = await this.deliveryRepository.find({
+      where: { endpointId: id, ...(query.status && { status: query.status }) },
+      order: { createdAt: 'DESC' },
+      take: query.limit,
+    });
+
+    return deliveries.map(delivery => this.mapToDeliveryResponseDto(delivery));
+  }
+
+  /**
+   * Send a delivery again with its original body, whatever became of it before.
+   * It gets a fresh set of attempts.
+   */
+  async redeliver(id: string, deliveryId: string, userId: string): Promise<WebhookDeliveryResponseDto> {
+    await this.findEndpoint(id, userId);
+
+    const delivery = await this.deliveryRepository.findOne({ where: { id: deliveryId, endpointId: id } });
+    if (!delivery) {
+      throw new NotFoundException('Webhook delivery not found');
+    }
+
+    if (delivery.status === WebhookDeliveryStatus.DELIVERING) {
+      throw new BadRequestException('Delivery is being sent right now');
+    }
+
+    const requeued = await this.deliveryRepository.update(
+      { id: delivery.id, status: delivery.status },
+      {
+        status: WebhookDeliveryStatus.PENDING,
+        attempts: 0,
+        nextAttemptAt: new Date(),
+        claimedAt: null,
+      },
+    );
+
+    if (!requeued.affected) {
+      throw new BadRequestException('Delivery is being sent right now');
+    }
+
+    this.logger.log(`Webhook delivery ${deliveryId} queued for redelivery`);
+
+    return this.mapToDeliveryResponseDto(await this.deliveryRepository.findOne({ where: { id: delivery.id } }));
+  }
+
+  private async findEndpoint(id: string, userId: string): Promise<WebhookEndpoint> {
+    const endpoint = await this.endpointRepository.findOne({ where: { id, userId } });
+
+    if (!endpoint) {
+      throw new NotFoundException('Webhook endpoint not found');
+    }
+
+    return endpoint;
+  }
+
+  private async assertWalletOwned(walletId: string, userId: string): Promise<void> {
+    const wallet = await this.walletRepository.findOne({ where: { id: walletId, userId, isActive: true } });
+
+    if (!wallet) {
+      throw new NotFoundException('Wallet not found');
+    }
+  }
+
+  private async assertUrlAllowed(url: string): Promise<void> {
+    const allowInsecure = this.configService.get('WEBHOOK_ALLOW_INSECURE_URLS', 'false') === 'true';
+    const { protocol, hostname } = new URL(url);
+
+    if (!allowInsecure && protocol !== 'https:') {
+      throw new BadRequestException('Webhook URL must use https');
+    }
+
+    // Deliveries are signed requests from inside our network; they must not reach internal services
+    try {
+      await assertPublicHost(hostname);
+    } catch (error) {
+      throw new BadRequestException(`Webhook URL must point to a public host: ${error.message}`);
+    }
+  }
+
+  private generateSecret(): string {
+    return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+  }
+
+  private mapToEndpointResponseDto(endpoint: WebhookEndpoint): WebhookEndpointResponseDto {
+    return {
+      id: endpoint.id,
+      url: endpoint.url,
+      eventTypes: endpoint.eventTypes,
+      walletId: endpoint.walletId || null,
+      description: endpoint.description || null,
+      isActive: endpoint.isActive,
+      createdAt: endpoint.createdAt,
+    };
+  }
+
+  private mapToDeliveryResponseDto(delivery: WebhookDelivery): WebhookDeliveryResponseDto {
+    return {
+      id: delivery.id,
+      endpointId: delivery.endpointId,
+      eventId: delivery.eventId,
+      eventType: delivery.eventType,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      nextAttemptAt: delivery.nextAttemptAt || null,
+      lastAttemptAt: delivery.lastAttemptAt || null,
+      lastStatusCode: delivery.lastStatusCode ?? null,
+      lastError: delivery.lastError || null,
+      deliveredAt: delivery.deliveredAt || null,
+      payload: delivery.payload,
+      createdAt: delivery.createdAt,
+    };
+  }
+}